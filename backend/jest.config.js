@@ -0,0 +1,11 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    // Unused locals are the linter's job; don't fail test compilation on them
+    '^.+\\.ts$': ['ts-jest', { diagnostics: { ignoreCodes: [6133] } }],
+  },
+  collectCoverageFrom: ['src/**/*.ts'],
+};
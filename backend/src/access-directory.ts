@@ -0,0 +1,171 @@
+import { ethers } from 'ethers';
+import { IndexedEvent, IndexerStore } from './indexer-store';
+
+/**
+ * Access Directory - who can do what on RentFlowCore
+ *
+ * DECISION: Role members and property managers are replayed from
+ *           RoleGranted / RoleRevoked / PropertyManagerUpdated, owners from
+ *           PropertyRegistered
+ * REASON: AccessControl cannot enumerate a role's members on chain, and every
+ *         grant and revoke is an event, so the replay is the full picture
+ */
+
+export type RoleName = 'admin' | 'pauser' | 'ai_agent' | 'arbiter';
+
+/** Role hashes as RentFlowCore defines them */
+export const ROLE_IDS: Record<RoleName, string> = {
+  admin: ethers.ZeroHash,
+  pauser: ethers.id('PAUSER_ROLE'),
+  ai_agent: ethers.id('AI_AGENT_ROLE'),
+  arbiter: ethers.id('ARBITER_ROLE'),
+};
+
+export type ManagerPermission = 'manage_leases' | 'fund_maintenance' | 'approve_maintenance';
+
+/** Bit order of RentFlowCore's MANAGE_LEASES, FUND_MAINTENANCE and APPROVE_MAINTENANCE */
+export const MANAGER_PERMISSIONS: readonly ManagerPermission[] = [
+  'manage_leases',
+  'fund_maintenance',
+  'approve_maintenance',
+];
+
+export interface PropertyManagerView {
+  manager: string;
+  permissions: ManagerPermission[];
+}
+
+export interface PropertyAccessView {
+  property_id: number;
+  owner: string;
+  managers: PropertyManagerView[];
+}
+
+export interface AccountAccessView {
+  address: string;
+  roles: RoleName[];
+  owned_properties: number[];
+  managed_properties: { property_id: number; permissions: ManagerPermission[] }[];
+}
+
+const ACCESS_EVENTS = new Set<IndexedEvent['name']>([
+  'RoleGranted',
+  'RoleRevoked',
+  'PropertyManagerUpdated',
+  'PropertyRegistered',
+]);
+
+interface AccessSnapshot {
+  roles: Map<RoleName, Set<string>>;
+  owners: Map<number, string>;
+  /** propertyId => manager => permission bits */
+  managers: Map<number, Map<string, number>>;
+}
+
+export function decodePermissions(bits: number): ManagerPermission[] {
+  return MANAGER_PERMISSIONS.filter((_, bit) => (bits & (1 << bit)) !== 0);
+}
+
+/** Fold access events (in chain order) into current roles, owners and managers */
+export function replayAccess(events: IndexedEvent[]): AccessSnapshot {
+  const roleNames = new Map(Object.entries(ROLE_IDS).map(([name, id]) => [id, name as RoleName]));
+  const snapshot: AccessSnapshot = { roles: new Map(), owners: new Map(), managers: new Map() };
+  for (const name of Object.keys(ROLE_IDS) as RoleName[]) snapshot.roles.set(name, new Set());
+
+  for (const event of events) {
+    const { args } = event;
+    switch (event.name) {
+      case 'RoleGranted':
+      case 'RoleRevoked': {
+        const role = roleNames.get(String(args.role).toLowerCase());
+        if (!role) break;
+        const members = snapshot.roles.get(role)!;
+        const account = String(args.account).toLowerCase();
+        if (event.name === 'RoleGranted') members.add(account);
+        else members.delete(account);
+        break;
+      }
+      case 'PropertyRegistered':
+        snapshot.owners.set(Number(args.propertyId), String(args.owner).toLowerCase());
+        break;
+      case 'PropertyManagerUpdated': {
+        const propertyId = Number(args.propertyId);
+        const managers = snapshot.managers.get(propertyId) ?? new Map<string, number>();
+        const bits = Number(args.permissions);
+        const manager = String(args.manager).toLowerCase();
+        if (bits === 0) managers.delete(manager);
+        else managers.set(manager, bits);
+        snapshot.managers.set(propertyId, managers);
+        break;
+      }
+    }
+  }
+
+  return snapshot;
+}
+
+export class AccessDirectory {
+  private snapshot: AccessSnapshot | null = null;
+
+  constructor(private store: IndexerStore) {}
+
+  /** Current members of each protocol role */
+  async getRoleMembers(): Promise<Record<RoleName, string[]>> {
+    const { roles } = await this.load();
+    return Object.fromEntries([...roles].map(([role, members]) => [role, [...members]])) as Record<
+      RoleName,
+      string[]
+    >;
+  }
+
+  /** Returns null for a property that has not been indexed */
+  async getPropertyAccess(propertyId: number): Promise<PropertyAccessView | null> {
+    const { owners, managers } = await this.load();
+    const owner = owners.get(propertyId);
+    if (!owner) return null;
+
+    return {
+      property_id: propertyId,
+      owner,
+      managers: [...(managers.get(propertyId) ?? [])].map(([manager, bits]) => ({
+        manager,
+        permissions: decodePermissions(bits),
+      })),
+    };
+  }
+
+  async getAccountAccess(address: string): Promise<AccountAccessView> {
+    const account = address.toLowerCase();
+    const { roles, owners, managers } = await this.load();
+
+    return {
+      address: account,
+      roles: [...roles].filter(([, members]) => members.has(account)).map(([role]) => role),
+      owned_properties: [...owners].filter(([, owner]) => owner === account).map(([propertyId]) => propertyId),
+      managed_properties: [...managers]
+        .filter(([, propertyManagers]) => propertyManagers.has(account))
+        .map(([propertyId, propertyManagers]) => ({
+          property_id: propertyId,
+          permissions: decodePermissions(propertyManagers.get(account)!),
+        })),
+    };
+  }
+
+  /** Monitor hook: replay on the next read after any access change */
+  async handleEvent(event: IndexedEvent): Promise<void> {
+    if (ACCESS_EVENTS.has(event.name)) this.snapshot = null;
+  }
+
+  /** Forget the replayed snapshot, e.g. after the indexer rolls back a reorg */
+  invalidate(): void {
+    this.snapshot = null;
+  }
+
+  private async load(): Promise<AccessSnapshot> {
+    if (!this.snapshot) {
+      const events = await this.store.getEvents();
+      this.snapshot = replayAccess(events.filter((event) => ACCESS_EVENTS.has(event.name)));
+    }
+    return this.snapshot;
+  }
+}
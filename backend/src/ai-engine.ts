@@ -0,0 +1,680 @@
+import { ethers } from 'ethers';
+import { config } from './config';
+import { RENTFLOW_CORE_ABI } from './contract-abi';
+import { formatTokenAmount, TokenMetadata } from './payment-tokens';
+import {
+  LLMProvider,
+  completeWithFallback,
+  createLLMProvider,
+} from './llm-provider';
+
+/**
+ * AI Decision Engine
+ *
+ * DECISION: Maintenance decisions come from a deterministic rules engine;
+ *           the LLM provider only writes free text (notices, chat replies)
+ * REASON: Approvals move real USDC on-chain, so the same request must always
+ *         get the same answer - with or without an OpenAI key
+ *
+ * PIPELINE (evaluateMaintenanceRequest):
+ * 1. Sanitize the description
+ * 2. Detect category and emergency signals from keywords
+ * 3. Apply hard rules in order: ambiguity, the property's approval policy
+ *    (blocked category, approval limit, daily and monthly caps), cosmetic
+ *    cap, emergency fast-track, per-category cost cap
+ * 4. Score confidence from keyword strength and history quality
+ * 5. Propose the best-matching contractor the owner has allowlisted; an
+ *    approval with no qualified contractor becomes an escalation
+ */
+
+// ============ Types ============
+
+export type MaintenanceDecisionType = 'approve' | 'reject' | 'escalate';
+export type Urgency = 'low' | 'medium' | 'high';
+
+export type MaintenanceCategory =
+  | 'plumbing'
+  | 'electrical'
+  | 'hvac'
+  | 'appliance'
+  | 'structural'
+  | 'security'
+  | 'pest'
+  | 'landscaping'
+  | 'cosmetic'
+  | 'general';
+
+/** Index i is MaintenanceCategory(i) in RentFlowCore.sol */
+export const MAINTENANCE_CATEGORIES: readonly MaintenanceCategory[] = [
+  'plumbing',
+  'electrical',
+  'hvac',
+  'appliance',
+  'structural',
+  'security',
+  'pest',
+  'landscaping',
+  'cosmetic',
+  'general',
+];
+
+/**
+ * A property's on-chain AI approval policy plus the AI spend it has used.
+ * All amounts are base units of the property's payment token; a missing or
+ * zero cap means uncapped.
+ */
+export interface ApprovalPolicy {
+  autoApprovalLimit: number;
+  dailyCap?: number;
+  monthlyCap?: number;
+  blockedCategories?: MaintenanceCategory[];
+  /** AI-approved spend in the current UTC day */
+  spentToday?: number;
+  /** AI-approved spend in the current calendar month */
+  spentThisMonth?: number;
+}
+
+export interface ApprovalPolicySource {
+  getApprovalPolicy(propertyId: number): Promise<ApprovalPolicy>;
+}
+
+/** A registered contractor, as the registry in RentFlowCore describes them */
+export interface ContractorCandidate {
+  address: string;
+  trades: MaintenanceCategory[];
+  serviceAreas: string[];
+  /** Average of 1-5 ratings from paid jobs; null until first rated */
+  rating: number | null;
+  jobsCompleted: number;
+}
+
+export interface ContractorSource {
+  /** Registered contractors the property's owner has allowlisted */
+  getAllowedContractors(propertyId: number): Promise<ContractorCandidate[]>;
+}
+
+export interface PaymentTokenSource {
+  /** Null for a property that has not been indexed */
+  getPropertyToken(propertyId: number): Promise<TokenMetadata | null>;
+}
+
+export interface ContractorProposal {
+  address: string;
+  reasoning: string;
+}
+
+export interface PropertyHistory {
+  totalSpend: number;
+  avgResponseTime: number;
+  propertyAge: number;
+}
+
+export interface MaintenanceDecision {
+  decision: MaintenanceDecisionType;
+  reasoning: string;
+  confidence: number;
+  /** Base units of the property's payment token; 0 unless approved */
+  approvedAmount: number;
+  urgency: Urgency;
+  category: MaintenanceCategory;
+  /** Set when a contractor source is configured and someone qualifies */
+  contractor?: ContractorProposal;
+}
+
+export type CommunicationType = 'reminder' | 'overdue' | 'maintenance_update';
+
+export interface TenantCommunicationContext {
+  type: CommunicationType;
+  tenantName?: string;
+  /** The lease's property; its payment token prices rentAmount */
+  propertyId?: number;
+  /** Base units of the property's payment token, as a decimal string */
+  rentAmount?: string;
+  daysOverdue?: number;
+  maintenanceStatus?: string;
+  propertyAddress?: string;
+}
+
+export interface AIDecisionEngineOptions {
+  provider?: LLMProvider;
+  /** USDC base units; used when no policySource is given */
+  autoApprovalLimit?: number;
+  /** Each property's payment token, normally the PaymentTokenRegistry; USDC when absent */
+  tokenSource?: PaymentTokenSource;
+  /** Per-property policy, normally read from RentFlowCore */
+  policySource?: ApprovalPolicySource;
+  /** Allowlisted contractors, normally rebuilt from indexed registry events */
+  contractorSource?: ContractorSource;
+  enableAutoApproval?: boolean;
+  requestTimeoutMs?: number;
+}
+
+// ============ Rule Tables ============
+
+interface CategoryRule {
+  category: MaintenanceCategory;
+  keywords: RegExp[];
+  /** Typical upper cost in whole tokens; above it a human should look */
+  costCap: number;
+  urgency: Urgency;
+}
+
+/** Payment token assumed when a property's own is unknown */
+export const DEFAULT_PAYMENT_TOKEN: TokenMetadata = { symbol: 'USDC', decimals: 6 };
+
+// DECISION: Order matters - on a keyword tie the earlier category wins
+const CATEGORY_RULES: CategoryRule[] = [
+  {
+    category: 'plumbing',
+    keywords: [/faucet/, /leak/, /pipe/, /toilet/, /drain/, /sink/, /water heater/, /clog/, /shower/, /plumb/],
+    costCap: 400,
+    urgency: 'medium',
+  },
+  {
+    category: 'electrical',
+    keywords: [/outlet/, /wiring/, /breaker/, /electric/, /light fixture/, /switch/, /spark/, /fuse/],
+    costCap: 450,
+    urgency: 'medium',
+  },
+  {
+    category: 'hvac',
+    keywords: [/hvac/, /air filter/, /furnace/, /heating/, /air condition/, /\bac\b/, /thermostat/, /\bvents?\b/, /cooling/],
+    costCap: 500,
+    urgency: 'medium',
+  },
+  {
+    category: 'appliance',
+    keywords: [/refrigerator/, /fridge/, /dishwasher/, /washer/, /dryer/, /oven/, /stove/, /microwave/, /disposal/],
+    costCap: 400,
+    urgency: 'medium',
+  },
+  {
+    category: 'structural',
+    keywords: [/roof/, /foundation/, /crack/, /ceiling/, /water damage/, /window/, /\bdoor\b/, /floor/, /stairs?/],
+    costCap: 450,
+    urgency: 'medium',
+  },
+  {
+    category: 'security',
+    keywords: [/\block\b/, /\blocks\b/, /deadbolt/, /\bkeys?\b/, /smoke detector/, /alarm/],
+    costCap: 250,
+    urgency: 'medium',
+  },
+  {
+    category: 'pest',
+    keywords: [/pest/, /rodent/, /\bmice\b/, /\brats?\b/, /roach/, /termite/, /bed ?bugs?/, /ants\b/],
+    costCap: 350,
+    urgency: 'medium',
+  },
+  {
+    category: 'landscaping',
+    keywords: [/lawn/, /\btrees?\b/, /gutter/, /snow/, /landscap/, /hedge/, /yard/],
+    costCap: 300,
+    urgency: 'low',
+  },
+  {
+    category: 'cosmetic',
+    keywords: [/paint/, /mural/, /wallpaper/, /decor/, /artwork/, /custom/, /cosmetic/, /accent wall/, /upgrade/],
+    costCap: 200,
+    urgency: 'low',
+  },
+];
+
+interface EmergencyRule {
+  label: string;
+  pattern: RegExp;
+}
+
+const EMERGENCY_RULES: EmergencyRule[] = [
+  { label: 'gas leak', pattern: /gas (leak|smell)|smell(s|ing)? (of )?gas/ },
+  { label: 'electrical hazard', pattern: /spark|exposed wir|electrical fire|burning smell|smoking outlet/ },
+  { label: 'active flooding', pattern: /burst pipe|flood|sewage|water (pouring|gushing)/ },
+  { label: 'fire or smoke', pattern: /\bfire\b|carbon monoxide|\bco alarm/ },
+  { label: 'loss of heat', pattern: /no heat|heat(ing)? (is )?(out|not working)|frozen pipe/ },
+  { label: 'security breach', pattern: /break-?in|can'?t lock|cannot lock|broken (front )?door lock/ },
+];
+
+const ROUTINE_PATTERN = /routine|scheduled|annual|replace (the )?filter|preventive/;
+
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+// ============ Helpers ============
+
+export function sanitizeDescription(description: string): string {
+  return String(description ?? '')
+    .replace(/<[^>]*>/g, ' ')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u001f\u007f]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_DESCRIPTION_LENGTH);
+}
+
+function formatAmount(baseUnits: number, token: TokenMetadata): string {
+  return formatTokenAmount(BigInt(Math.round(baseUnits)), token);
+}
+
+function normalizeHistory(history: Partial<PropertyHistory> | undefined): {
+  history: PropertyHistory;
+  complete: boolean;
+} {
+  const read = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+  const totalSpend = read(history?.totalSpend);
+  const avgResponseTime = read(history?.avgResponseTime);
+  const propertyAge = read(history?.propertyAge);
+
+  return {
+    history: {
+      totalSpend: totalSpend ?? 0,
+      avgResponseTime: avgResponseTime ?? 0,
+      propertyAge: propertyAge ?? 0,
+    },
+    complete: totalSpend !== undefined && avgResponseTime !== undefined && propertyAge !== undefined,
+  };
+}
+
+interface CategoryMatch {
+  rule: CategoryRule | undefined;
+  hits: number;
+}
+
+function detectCategory(text: string): CategoryMatch {
+  let best: CategoryMatch = { rule: undefined, hits: 0 };
+  for (const rule of CATEGORY_RULES) {
+    const hits = rule.keywords.filter((keyword) => keyword.test(text)).length;
+    if (hits > best.hits) {
+      best = { rule, hits };
+    }
+  }
+  return best;
+}
+
+function detectEmergency(text: string): EmergencyRule | undefined {
+  return EMERGENCY_RULES.find((rule) => rule.pattern.test(text));
+}
+
+function clampConfidence(value: number): number {
+  return Math.max(0, Math.min(99, Math.round(value)));
+}
+
+// ============ Rules Engine ============
+
+export interface RuleEngineOptions extends ApprovalPolicy {
+  enableAutoApproval: boolean;
+  /**
+   * The property's payment token: category caps are scaled by its decimals
+   * and amounts are shown in it. Defaults to DEFAULT_PAYMENT_TOKEN
+   */
+  token?: TokenMetadata;
+}
+
+/**
+ * Pure, synchronous evaluation. Exposed separately so the API and the
+ * on-chain agent can share it without instantiating an LLM provider.
+ */
+export function evaluateWithRules(
+  propertyId: number,
+  description: string,
+  estimatedCost: number,
+  propertyHistory: Partial<PropertyHistory> | undefined,
+  options: RuleEngineOptions
+): MaintenanceDecision {
+  const text = sanitizeDescription(description).toLowerCase();
+  const { complete: historyComplete } = normalizeHistory(propertyHistory);
+  const match = detectCategory(text);
+  const emergency = detectEmergency(text);
+  const category: MaintenanceCategory = match.rule?.category ?? 'general';
+  const urgency: Urgency = emergency ? 'high' : match.rule?.urgency ?? 'medium';
+  const historyPenalty = historyComplete ? 0 : 5;
+  const token = options.token ?? DEFAULT_PAYMENT_TOKEN;
+  const format = (baseUnits: number) => formatAmount(baseUnits, token);
+  const capOf = (rule: CategoryRule) => rule.costCap * 10 ** token.decimals;
+  const limit = format(options.autoApprovalLimit);
+  const cost = format(estimatedCost);
+
+  const result = (
+    decision: MaintenanceDecisionType,
+    reasoning: string,
+    confidence: number
+  ): MaintenanceDecision => ({
+    decision,
+    reasoning: `Property #${propertyId}: ${reasoning}`,
+    confidence: clampConfidence(confidence),
+    approvedAmount: decision === 'approve' ? estimatedCost : 0,
+    urgency,
+    category,
+  });
+
+  // 1. Requests we cannot classify need a human
+  if (!match.rule && !emergency) {
+    return result(
+      'escalate',
+      'Description is ambiguous - no recognizable maintenance category. Owner review required.',
+      40 - historyPenalty
+    );
+  }
+
+  // 2. The contract escalates AI approvals outside the property's policy, so
+  //    never propose one. Same checks, same order as approveMaintenance.
+  if (options.blockedCategories?.includes(category)) {
+    return result(
+      'escalate',
+      `The property's approval policy requires the owner to approve ${category} work.`,
+      95 - historyPenalty
+    );
+  }
+
+  if (estimatedCost > options.autoApprovalLimit) {
+    return result(
+      'escalate',
+      `Estimated cost ${cost} exceeds the AI approval limit of ${limit}. Owner approval required.`,
+      95 - historyPenalty
+    );
+  }
+
+  const capExceeded = (cap: number | undefined, spent: number | undefined) =>
+    !!cap && (spent ?? 0) + estimatedCost > cap;
+
+  if (capExceeded(options.dailyCap, options.spentToday)) {
+    return result(
+      'escalate',
+      `Approving ${cost} would exceed the daily AI spend cap of ${format(options.dailyCap!)} ` +
+        `(${format(options.spentToday ?? 0)} used today). Owner approval required.`,
+      95 - historyPenalty
+    );
+  }
+
+  if (capExceeded(options.monthlyCap, options.spentThisMonth)) {
+    return result(
+      'escalate',
+      `Approving ${cost} would exceed the monthly AI spend cap of ${format(options.monthlyCap!)} ` +
+        `(${format(options.spentThisMonth ?? 0)} used this month). Owner approval required.`,
+      95 - historyPenalty
+    );
+  }
+
+  // 3. Cosmetic work is discretionary above the cosmetic cap
+  if (category === 'cosmetic' && !emergency && estimatedCost > capOf(match.rule!)) {
+    return result(
+      'reject',
+      `Cosmetic request at ${cost} exceeds the ${format(capOf(match.rule!))} cap for non-essential work.`,
+      75 + Math.min(match.hits, 3) * 5 - historyPenalty
+    );
+  }
+
+  if (!options.enableAutoApproval) {
+    return result('escalate', 'AI auto-approval is disabled. Owner approval required.', 90);
+  }
+
+  // 4. Emergencies skip the typical-cost check
+  if (emergency) {
+    return result(
+      'approve',
+      `Emergency (${emergency.label}) approved immediately at ${cost}, within the AI approval limit of ${limit}.`,
+      96 - historyPenalty
+    );
+  }
+
+  const rule = match.rule!;
+  const costCap = capOf(rule);
+
+  // 5. Unusually expensive for the category
+  if (estimatedCost > costCap) {
+    return result(
+      'escalate',
+      `Estimated cost ${cost} is above the typical ${format(costCap)} for ${category} work. Owner review required.`,
+      70 - historyPenalty
+    );
+  }
+
+  let confidence = 75 + Math.min(match.hits, 3) * 5;
+  if (ROUTINE_PATTERN.test(text)) confidence += 5;
+  if (estimatedCost <= costCap / 2) confidence += 3;
+  confidence -= historyPenalty;
+
+  return result(
+    'approve',
+    `Routine ${category} repair at ${cost} is within the ${format(costCap)} category cap and the AI approval limit of ${limit}.`,
+    confidence
+  );
+}
+
+// ============ Contractor Matching ============
+
+/**
+ * Pick the contractor for a job: must work in the category; then prefer
+ * the property's service area, a higher rating, and more completed jobs.
+ * Unrated contractors rank below rated ones. Ties break on address so the
+ * same request always gets the same proposal.
+ */
+export function selectContractor(
+  candidates: ContractorCandidate[],
+  category: MaintenanceCategory,
+  serviceArea?: string
+): ContractorProposal | null {
+  const area = serviceArea?.trim().toLowerCase();
+  const servesArea = (candidate: ContractorCandidate) =>
+    !!area && candidate.serviceAreas.some((served) => served.toLowerCase() === area);
+
+  const [best] = candidates
+    .filter((candidate) => candidate.trades.includes(category))
+    .sort(
+      (a, b) =>
+        Number(servesArea(b)) - Number(servesArea(a)) ||
+        (b.rating ?? 0) - (a.rating ?? 0) ||
+        b.jobsCompleted - a.jobsCompleted ||
+        a.address.toLowerCase().localeCompare(b.address.toLowerCase())
+    );
+  if (!best) return null;
+
+  const record =
+    best.rating === null
+      ? `not yet rated, ${best.jobsCompleted} paid jobs`
+      : `rated ${best.rating.toFixed(1)}/5 over ${best.jobsCompleted} paid jobs`;
+  const where = servesArea(best) ? ` serving ${area}` : '';
+
+  return {
+    address: best.address,
+    reasoning: `Best-matching allowlisted ${category} contractor${where} (${record}).`,
+  };
+}
+
+// ============ Engine ============
+
+export class AIDecisionEngine {
+  private provider: LLMProvider;
+  private autoApprovalLimit: number;
+  private policySource?: ApprovalPolicySource;
+  private tokenSource?: PaymentTokenSource;
+  private contractorSource?: ContractorSource;
+  private enableAutoApproval: boolean;
+  private requestTimeoutMs: number;
+
+  constructor(options: AIDecisionEngineOptions = {}) {
+    this.provider =
+      options.provider ??
+      createLLMProvider({
+        provider: config.ai.provider,
+        openaiApiKey: config.ai.openaiApiKey,
+        openaiModel: config.ai.openaiModel,
+        requestTimeoutMs: config.ai.requestTimeoutMs,
+      });
+    this.autoApprovalLimit = options.autoApprovalLimit ?? config.ai.autoApprovalLimit;
+    this.policySource = options.policySource;
+    this.tokenSource = options.tokenSource;
+    this.contractorSource = options.contractorSource;
+    this.enableAutoApproval = options.enableAutoApproval ?? config.ai.enableAutoApproval;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? config.ai.requestTimeoutMs;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  async evaluateMaintenanceRequest(
+    propertyId: number,
+    description: string,
+    estimatedCost: number,
+    propertyHistory: PropertyHistory,
+    serviceArea?: string
+  ): Promise<MaintenanceDecision> {
+    const [policy, token] = await Promise.all([
+      this.policySource
+        ? this.policySource.getApprovalPolicy(propertyId)
+        : { autoApprovalLimit: this.autoApprovalLimit },
+      this.tokenSource?.getPropertyToken(propertyId),
+    ]);
+
+    const decision = evaluateWithRules(propertyId, description, estimatedCost, propertyHistory, {
+      ...policy,
+      enableAutoApproval: this.enableAutoApproval,
+      token: token ?? undefined,
+    });
+    if (!this.contractorSource || decision.decision === 'reject') return decision;
+
+    const candidates = await this.contractorSource.getAllowedContractors(propertyId);
+    const contractor = selectContractor(candidates, decision.category, serviceArea);
+    if (contractor) return { ...decision, contractor };
+    if (decision.decision === 'escalate') return decision;
+
+    // The contract refuses approvals to contractors the owner has not allowlisted
+    return {
+      ...decision,
+      decision: 'escalate',
+      approvedAmount: 0,
+      reasoning: `${decision.reasoning} No allowlisted contractor covers ${decision.category} work; the owner must assign one.`,
+    };
+  }
+
+  async generateTenantCommunication(context: TenantCommunicationContext): Promise<string> {
+    const token =
+      (context.propertyId !== undefined ? await this.tokenSource?.getPropertyToken(context.propertyId) : null) ??
+      DEFAULT_PAYMENT_TOKEN;
+    const fallback = communicationTemplate(context, token);
+    // The model sees the amount as the tenant should, not in base units
+    const rentAmount = context.rentAmount !== undefined ? formatTokenAmount(context.rentAmount, token) : undefined;
+
+    return completeWithFallback(
+      this.provider,
+      {
+        messages: [
+          {
+            role: 'system',
+            content:
+              'You are RentFlow, a professional property management assistant. ' +
+              'Write a short tenant message (under 400 characters). Be clear and courteous.',
+          },
+          { role: 'user', content: JSON.stringify({ ...context, rentAmount, paymentToken: token.symbol }) },
+        ],
+        maxTokens: 200,
+        fallback,
+      },
+      this.requestTimeoutMs
+    );
+  }
+
+  async chat(message: string): Promise<string> {
+    const question = sanitizeDescription(message);
+
+    return completeWithFallback(
+      this.provider,
+      {
+        messages: [
+          {
+            role: 'system',
+            content:
+              'You are RentFlow, an assistant for tenants and owners paying rent in stablecoins on Arc. ' +
+              'Answer in 2-3 sentences.',
+          },
+          { role: 'user', content: question },
+        ],
+        maxTokens: 250,
+        fallback: faqAnswer(question),
+      },
+      this.requestTimeoutMs
+    );
+  }
+}
+
+// ============ On-chain Policy ============
+
+/**
+ * Reads approval policies and AI spend from RentFlowCore
+ *
+ * DECISION: No caching
+ * REASON: Spend changes with every AI approval, and a stale figure would
+ *         propose approvals the contract then escalates
+ */
+export class ContractApprovalPolicySource implements ApprovalPolicySource {
+  private contract: ethers.Contract;
+
+  constructor(provider: ethers.Provider, contractAddress: string) {
+    this.contract = new ethers.Contract(contractAddress, RENTFLOW_CORE_ABI, provider);
+  }
+
+  async getApprovalPolicy(propertyId: number): Promise<ApprovalPolicy> {
+    const [policy, spend] = await Promise.all([
+      this.contract.approvalPolicies(propertyId),
+      this.contract.getAISpend(propertyId),
+    ]);
+
+    return {
+      autoApprovalLimit: Number(policy.autoApprovalLimit),
+      dailyCap: Number(policy.dailyCap),
+      monthlyCap: Number(policy.monthlyCap),
+      blockedCategories: categoriesFromMask(policy.blockedCategories),
+      spentToday: Number(spend.spentToday),
+      spentThisMonth: Number(spend.spentThisMonth),
+    };
+  }
+}
+
+/** Decode RentFlowCore's blockedCategories bitmask */
+export function categoriesFromMask(mask: bigint): MaintenanceCategory[] {
+  return MAINTENANCE_CATEGORIES.filter((_, index) => ((mask >> BigInt(index)) & 1n) === 1n);
+}
+
+// ============ Templates ============
+
+function communicationTemplate(context: TenantCommunicationContext, token: TokenMetadata): string {
+  const greeting = context.tenantName ? `Hi ${context.tenantName},` : 'Hello,';
+
+  switch (context.type) {
+    case 'reminder': {
+      const amount = context.rentAmount !== undefined ? ` of ${formatTokenAmount(context.rentAmount, token)}` : '';
+      return `${greeting} this is a friendly reminder that your rent payment${amount} is due soon. ` +
+        `You can pay in ${token.symbol} from your RentFlow dashboard, or turn on autopay. Thank you!`;
+    }
+    case 'overdue': {
+      const days = context.daysOverdue !== undefined ? ` ${context.daysOverdue} days` : '';
+      return `${greeting} your rent is now${days} overdue. Please submit payment through your RentFlow dashboard ` +
+        'as soon as possible to avoid further action. Contact us if you need to discuss a payment arrangement.';
+    }
+    case 'maintenance_update': {
+      const status = context.maintenanceStatus ?? 'updated';
+      return `${greeting} your maintenance request has been ${status}. ` +
+        'We will keep you posted as the work progresses.';
+    }
+  }
+}
+
+function faqAnswer(question: string): string {
+  const text = question.toLowerCase();
+
+  if (/rent|pay/.test(text)) {
+    return "Rent is paid from your connected wallet in your property's payment token, shown on your lease page: " +
+      'approve the amount, then confirm the payment, or turn on autopay. Payments settle on Arc, where the ' +
+      "contract splits them between the owner's payout recipients and the property's maintenance reserve.";
+  }
+  if (/maintenance|repair|broken|fix/.test(text)) {
+    return 'Submit a maintenance request from the dashboard with a short description and estimated cost. ' +
+      'Routine and emergency repairs within the approval limit are approved automatically.';
+  }
+  if (/deposit/.test(text)) {
+    return 'Your security deposit is held by the RentFlow contract for the length of the lease. When it ends, ' +
+      'the owner may propose itemized deductions; you have 7 days to accept or dispute each item, and an ' +
+      'arbiter settles disputed ones. The rest is returned to your wallet.';
+  }
+  return 'I can help with rent payments, maintenance requests and security deposits. ' +
+    'Could you tell me a bit more about what you need?';
+}
@@ -0,0 +1,456 @@
+import { MAINTENANCE_CATEGORIES } from './ai-engine';
+import { ESCALATION_REASONS, MAINTENANCE_STATUSES, REJECTION_REASONS } from './maintenance-tracker';
+import { DEDUCTION_CATEGORIES } from './deposit-settlement';
+import { MANAGER_PERMISSIONS, ROLE_IDS } from './access-directory';
+import { LEASE_STATUSES } from './lens-client';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './pagination';
+import { ParameterSpec, ref, ResponseSpec, Schema } from './openapi';
+
+/**
+ * API Schemas - the component schemas and parameters routes are declared with
+ *
+ * Objects are closed (additionalProperties: false) so the contract tests
+ * catch a field a view gains without the document saying so.
+ */
+
+// ============ Building Blocks ============
+
+const ADDRESS: Schema = { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$', format: 'address' };
+export const HASH: Schema = { type: 'string', pattern: '^0x[0-9a-fA-F]{64}$' };
+const UINT256: Schema = {
+  type: 'string',
+  pattern: '^\\d{1,78}$',
+  format: 'uint256',
+  description: 'Token base units as a decimal string',
+};
+const ID: Schema = { type: 'integer', minimum: 0, maximum: Number.MAX_SAFE_INTEGER };
+export const SECONDS: Schema = { type: 'integer', minimum: 0, description: 'Unix time, seconds' };
+const STRING: Schema = { type: 'string' };
+const INTEGER: Schema = { type: 'integer' };
+const NUMBER: Schema = { type: 'number' };
+const BOOLEAN: Schema = { type: 'boolean' };
+
+const nullable = (schema: Schema): Schema =>
+  schema.$ref ? { nullable: true, allOf: [schema] } : { ...schema, nullable: true };
+export const arrayOf = (items: Schema): Schema => ({ type: 'array', items });
+const oneOf = (values: readonly (string | null)[]): Schema => ({
+  type: 'string',
+  enum: values.filter((value): value is string => value !== null),
+});
+
+/** A closed object; every property is required unless listed in `optional` */
+function object(properties: Record<string, Schema>, optional: string[] = []): Schema {
+  return {
+    type: 'object',
+    required: Object.keys(properties).filter((key) => !optional.includes(key)),
+    properties,
+    additionalProperties: false,
+  };
+}
+
+// ============ Components ============
+
+const MaintenanceCategory = oneOf(MAINTENANCE_CATEGORIES);
+const Urgency = oneOf(['low', 'medium', 'high']);
+
+export const COMPONENT_SCHEMAS: Record<string, Schema> = {
+  Error: object({ success: { type: 'boolean', enum: [false] }, error: STRING }),
+  Health: object({
+    status: oneOf(['healthy']),
+    timestamp: { type: 'string', format: 'date-time' },
+    blockchain: object({ connected: BOOLEAN, blockNumber: nullable(INTEGER) }),
+    ai: object({ provider: STRING }),
+  }),
+  SignInRequest: object({
+    message: { type: 'string', description: 'The EIP-4361 message the wallet signed' },
+    signature: { type: 'string', pattern: '^0x[0-9a-fA-F]{130}$' },
+  }),
+  Session: object({ address: ADDRESS, issued_at: SECONDS, expires_at: SECONDS }),
+  Viewer: object({
+    address: ADDRESS,
+    roles: arrayOf(oneOf(Object.keys(ROLE_IDS))),
+    privileged: { type: 'boolean', description: 'Admin, AI agent or arbiter: sees every property' },
+    managed_properties: { ...arrayOf(ID), description: 'Owned or managed' },
+    rented_properties: { ...arrayOf(ID), description: 'Rented under an active or paused lease' },
+  }),
+
+  EvaluateRequest: object(
+    {
+      description: { type: 'string', description: 'At least 10 characters' },
+      estimatedCost: { type: 'number', description: "Base units of the property's payment token" },
+      propertyId: ID,
+      requestId: { ...ID, description: 'Record the decision against this on-chain request' },
+      serviceArea: STRING,
+      propertyHistory: object({ totalSpend: NUMBER, avgResponseTime: NUMBER, propertyAge: NUMBER }),
+    },
+    ['requestId', 'serviceArea', 'propertyHistory']
+  ),
+  MaintenanceDecision: object(
+    {
+      decision: oneOf(['approve', 'reject', 'escalate']),
+      reasoning: STRING,
+      confidence: { type: 'number', minimum: 0, maximum: 100 },
+      approvedAmount: { type: 'number', description: "Base units of the property's payment token; 0 unless approved" },
+      urgency: Urgency,
+      category: MaintenanceCategory,
+      contractor: object({ address: ADDRESS, reasoning: STRING }),
+    },
+    ['contractor']
+  ),
+  AIDecision: object({
+    decision: oneOf(['approve', 'reject', 'escalate']),
+    reasoning: STRING,
+    confidence: { type: 'number', minimum: 0, maximum: 100 },
+    approved_amount: UINT256,
+    urgency: Urgency,
+    category: MaintenanceCategory,
+    provider: STRING,
+    created_at: { type: 'string', format: 'date-time' },
+  }),
+  ChatRequest: object({ message: STRING }),
+
+  ScoreFactor: object({
+    factor: oneOf(['on_time_rate', 'average_days_late', 'current_streak', 'overdue_events', 'deposit_deductions']),
+    label: STRING,
+    value: NUMBER,
+    points: NUMBER,
+    max_points: NUMBER,
+    explanation: STRING,
+  }),
+  TenantTokenTotals: object({
+    payment_token: ADDRESS,
+    total_paid: { ...UINT256, description: 'Rent paid in this token' },
+    deposit_deductions: { ...UINT256, description: 'Deposit withheld in this token' },
+  }),
+  TenantScoreProfile: object({
+    address: ADDRESS,
+    payment_history_score: NUMBER,
+    on_time_payments: INTEGER,
+    late_payments: INTEGER,
+    average_days_late: NUMBER,
+    current_streak: INTEGER,
+    overdue_events: INTEGER,
+    totals: { ...arrayOf(ref('TenantTokenTotals')), description: "One entry per token the tenant's leases were paid in" },
+    lease_count: INTEGER,
+    factors: arrayOf(ref('ScoreFactor')),
+    updated_at: { type: 'string', format: 'date-time' },
+  }),
+
+  MaintenanceHistoryEntry: object(
+    {
+      status: oneOf(MAINTENANCE_STATUSES),
+      timestamp: SECONDS,
+      transaction_hash: HASH,
+      actor: ADDRESS,
+    },
+    ['actor']
+  ),
+  MaintenanceRequest: object({
+    request_id: ID,
+    property_id: ID,
+    status: oneOf(MAINTENANCE_STATUSES),
+    estimated_cost: UINT256,
+    approved_amount: UINT256,
+    contractor: nullable(ADDRESS),
+    escalation_reason: nullable(oneOf(ESCALATION_REASONS)),
+    rejection_reason: nullable(oneOf(REJECTION_REASONS)),
+    evidence_hash: nullable(HASH),
+    dispute_deadline: nullable(SECONDS),
+    signed_off_by: nullable(ADDRESS),
+    history: arrayOf(ref('MaintenanceHistoryEntry')),
+  }),
+
+  DepositDeduction: object({
+    item_index: INTEGER,
+    category: nullable(oneOf(DEDUCTION_CATEGORIES)),
+    amount: UINT256,
+    evidence_hash: HASH,
+    status: oneOf(['proposed', 'accepted', 'disputed', 'resolved']),
+    awarded_to_owner: nullable(UINT256),
+    resolved_by: nullable(ADDRESS),
+  }),
+  DepositSettlement: object({
+    lease_id: ID,
+    status: oneOf(['open', 'settled']),
+    total_deduction: UINT256,
+    dispute_deadline: SECONDS,
+    returned_to_tenant: nullable(UINT256),
+    items: arrayOf(ref('DepositDeduction')),
+  }),
+
+  PaymentToken: object({ address: ADDRESS, symbol: STRING, decimals: INTEGER }),
+
+  CatalogDocument: object({ name: STRING, uri: STRING, content_hash: HASH }),
+  CatalogEntry: object({
+    address_line: STRING,
+    city: nullable(STRING),
+    unit_type: nullable(STRING),
+    bedrooms: nullable(INTEGER),
+    amenities: arrayOf(STRING),
+    photos: arrayOf(STRING),
+    documents: arrayOf(ref('CatalogDocument')),
+  }),
+  CatalogEntryInput: object(
+    {
+      address_line: STRING,
+      city: nullable(STRING),
+      unit_type: nullable(STRING),
+      bedrooms: nullable({ type: 'integer', minimum: 0, maximum: 50 }),
+      amenities: arrayOf(STRING),
+      photos: arrayOf(STRING),
+      documents: arrayOf(ref('CatalogDocument')),
+    },
+    ['city', 'unit_type', 'bedrooms', 'amenities', 'photos', 'documents']
+  ),
+  CatalogSubmission: object({ property_id: ID, entry: ref('CatalogEntryInput') }),
+  PropertyCatalog: object({
+    property_id: ID,
+    owner: ADDRESS,
+    monthly_rent: UINT256,
+    payment_token: ADDRESS,
+    metadata_hash: nullable(HASH),
+    metadata_uri: nullable(STRING),
+    catalog_status: oneOf(['verified', 'missing', 'unset']),
+    entry: nullable(ref('CatalogEntry')),
+  }),
+
+  BuildingUnit: object({
+    unit_id: ID,
+    monthly_rent: UINT256,
+    occupied: BOOLEAN,
+    open_requests: INTEGER,
+    maintenance_fund: UINT256,
+  }),
+  Building: object({
+    building_id: ID,
+    owner: ADDRESS,
+    payment_token: ADDRESS,
+    unit_count: INTEGER,
+    occupied_units: INTEGER,
+    total_monthly_rent: UINT256,
+    occupied_monthly_rent: UINT256,
+    open_requests: object({ units: INTEGER, common_areas: INTEGER }),
+    maintenance_funds: object({ units: UINT256, common_areas: UINT256 }),
+    units: arrayOf(ref('BuildingUnit')),
+  }),
+
+  RoleMembers: object(Object.fromEntries(Object.keys(ROLE_IDS).map((role) => [role, arrayOf(ADDRESS)]))),
+  PropertyAccess: object({
+    property_id: ID,
+    owner: ADDRESS,
+    managers: arrayOf(object({ manager: ADDRESS, permissions: arrayOf(oneOf(MANAGER_PERMISSIONS)) })),
+  }),
+  AccountAccess: object({
+    address: ADDRESS,
+    roles: arrayOf(oneOf(Object.keys(ROLE_IDS))),
+    owned_properties: arrayOf(ID),
+    managed_properties: arrayOf(object({ property_id: ID, permissions: arrayOf(oneOf(MANAGER_PERMISSIONS)) })),
+  }),
+
+  DeployedContract: object(
+    { address: ADDRESS, blockNumber: INTEGER, transactionHash: HASH, bytecodeHash: HASH },
+    ['blockNumber', 'transactionHash', 'bytecodeHash']
+  ),
+  Deployment: object({
+    chainId: ID,
+    network: STRING,
+    deployer: ADDRESS,
+    updatedAt: { type: 'string', format: 'date-time' },
+    contracts: { type: 'object', additionalProperties: ref('DeployedContract') },
+    aiAgents: arrayOf(ADDRESS),
+  }),
+
+  Contractor: object({
+    address: ADDRESS,
+    trades: arrayOf(MaintenanceCategory),
+    serviceAreas: arrayOf(STRING),
+    rating: nullable({ type: 'number', minimum: 1, maximum: 5 }),
+    jobsCompleted: INTEGER,
+    licenseHash: nullable(HASH),
+    insuranceHash: nullable(HASH),
+    totalEarned: UINT256,
+  }),
+
+  TokenTotals: object({
+    payment_token: ADDRESS,
+    monthly_rent: UINT256,
+    rent_collected: UINT256,
+    late_fees_collected: UINT256,
+    maintenance_funds: UINT256,
+  }),
+  Portfolio: object({
+    owner: ADDRESS,
+    property_count: INTEGER,
+    rentable_count: INTEGER,
+    occupied_count: INTEGER,
+    active_leases: INTEGER,
+    totals: arrayOf(ref('TokenTotals')),
+  }),
+  PortfolioProperty: object({
+    property_id: ID,
+    owner: ADDRESS,
+    payment_token: ADDRESS,
+    monthly_rent: UINT256,
+    building_id: nullable(ID),
+    unit_count: INTEGER,
+    registered_at: SECONDS,
+    occupied: BOOLEAN,
+    current_lease_id: nullable(ID),
+    tenant: nullable(ADDRESS),
+    maintenance_fund: UINT256,
+    rent_collected: UINT256,
+  }),
+  Lease: object({
+    lease_id: ID,
+    property_id: ID,
+    owner: ADDRESS,
+    tenant: ADDRESS,
+    payment_token: ADDRESS,
+    status: oneOf(LEASE_STATUSES),
+    monthly_rent: UINT256,
+    end_date: nullable(SECONDS),
+    created_at: SECONDS,
+    autopay: BOOLEAN,
+    payment_count: INTEGER,
+    total_paid: UINT256,
+    late_fees_paid: UINT256,
+    last_payment_at: nullable(SECONDS),
+    deposit_returned: nullable(UINT256),
+  }),
+  Payment: object({
+    payment_id: STRING,
+    lease_id: ID,
+    property_id: ID,
+    owner: ADDRESS,
+    tenant: ADDRESS,
+    payment_token: ADDRESS,
+    amount: UINT256,
+    late_fee: UINT256,
+    periods: arrayOf(INTEGER),
+    timestamp: SECONDS,
+    block_number: INTEGER,
+    log_index: INTEGER,
+    transaction_hash: HASH,
+  }),
+  Fund: object({
+    property_id: ID,
+    owner: ADDRESS,
+    payment_token: ADDRESS,
+    balance: UINT256,
+    total_funded: UINT256,
+    total_paid_out: UINT256,
+  }),
+  FundMovement: object({
+    property_id: ID,
+    kind: oneOf(['funded', 'paid_out']),
+    amount: UINT256,
+    request_id: nullable(ID),
+    balance: UINT256,
+    timestamp: SECONDS,
+    block_number: INTEGER,
+    log_index: INTEGER,
+    transaction_hash: HASH,
+  }),
+};
+
+// ============ Responses ============
+
+/** `{ success: true, ...fields }` */
+export function ok(description: string, fields: Record<string, Schema>): ResponseSpec {
+  return { description, schema: object({ success: { type: 'boolean', enum: [true] }, ...fields }) };
+}
+
+/** A collection page: the items under `key` and the cursor for the next page */
+export function page(description: string, key: string, item: Schema): ResponseSpec {
+  return ok(description, { [key]: arrayOf(item), next_cursor: nullable({ type: 'string', format: 'cursor' }) });
+}
+
+export const failure = (description: string): ResponseSpec => ({ description, schema: ref('Error') });
+
+export const COMMON_RESPONSES: Record<number, ResponseSpec> = {
+  429: failure('Rate limit exceeded'),
+  500: failure('Internal server error'),
+};
+
+// ============ Parameters ============
+
+export const idPath = (name: string, description: string): ParameterSpec => ({
+  name,
+  in: 'path',
+  description,
+  schema: ID,
+});
+
+export const addressPath = (name: string, description: string): ParameterSpec => ({
+  name,
+  in: 'path',
+  description,
+  schema: ADDRESS,
+});
+
+export const addressQuery = (name: string, description: string): ParameterSpec => ({
+  name,
+  in: 'query',
+  description,
+  schema: ADDRESS,
+  error: `Invalid ${name} address`,
+});
+
+export const idQuery = (name: string, description: string): ParameterSpec => ({
+  name,
+  in: 'query',
+  description,
+  schema: ID,
+  error: `Invalid ${name.replace(/_/g, ' ').replace(/\bid$/, 'ID')}`,
+});
+
+export const enumQuery = (name: string, description: string, values: readonly string[]): ParameterSpec => ({
+  name,
+  in: 'query',
+  description,
+  schema: { type: 'string', enum: values },
+  error: `Invalid ${name}`,
+});
+
+/** Inclusive `from` and `to` bounds on a timestamp */
+export const timeRangeQuery = (field: string): ParameterSpec[] =>
+  (['from', 'to'] as const).map((name) => ({
+    name,
+    in: 'query',
+    description: `${name === 'from' ? 'Earliest' : 'Latest'} ${field}, seconds, inclusive`,
+    schema: SECONDS,
+    error: `Invalid ${name} timestamp`,
+  }));
+
+/** sort, order, limit and cursor; newest (highest) first unless `order=asc` */
+export function pageQuery(sorts: readonly string[], defaultSort: string): ParameterSpec[] {
+  return [
+    {
+      name: 'sort',
+      in: 'query',
+      description: 'Field to sort by',
+      schema: { type: 'string', enum: sorts, default: defaultSort },
+      error: 'Invalid sort field',
+    },
+    {
+      name: 'order',
+      in: 'query',
+      schema: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+      error: 'Invalid sort order',
+    },
+    {
+      name: 'limit',
+      in: 'query',
+      description: 'Page size',
+      schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+      error: `Limit must be between 1 and ${MAX_PAGE_SIZE}`,
+    },
+    {
+      name: 'cursor',
+      in: 'query',
+      description: 'next_cursor from the previous page, with the same filters and sort',
+      schema: { type: 'string', format: 'cursor', pattern: '^[A-Za-z0-9_-]{1,256}$' },
+      error: 'Invalid cursor',
+    },
+  ];
+}
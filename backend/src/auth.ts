@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+
+/**
+ * Sign-In with Ethereum (EIP-4361) and the session tokens it issues
+ *
+ * DECISION: A wallet signs a SIWE message carrying a single-use nonce from
+ *           this server, and gets back a short-lived HS256 JWT whose subject
+ *           is its address
+ * REASON: Signing a message costs no gas and works in every wallet the
+ *         dashboard connects; after that each request only needs an HMAC
+ *         check, not a signature recovery or a session lookup
+ *
+ * Nonces live in memory, so a restart only makes a sign-in in flight start
+ * over. Contract wallets (EIP-1271) are not supported: the signature must
+ * recover to the address in the message.
+ */
+
+/** HS256 keys shorter than this are refused (the .env.example placeholder is) */
+export const MIN_SECRET_LENGTH = 32;
+
+// Caps memory when nonces are requested and never used
+const MAX_PENDING_NONCES = 10_000;
+const MAX_MESSAGE_LENGTH = 2048;
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/** The fields of an EIP-4361 message this server checks */
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement: string | null;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string | null;
+  notBefore: string | null;
+}
+
+export interface SessionView {
+  /** Lowercase wallet address */
+  address: string;
+  issued_at: number;
+  expires_at: number;
+}
+
+export interface SiweAuthOptions {
+  secret: string;
+  /** Host the dashboard is served from; messages signed for another site are rejected */
+  domain: string;
+  /** When set, messages must name this chain */
+  chainId?: number;
+  tokenTtlSeconds: number;
+  nonceTtlSeconds: number;
+  /** Unix seconds; overridden in tests */
+  now?: () => number;
+}
+
+const HEADER = /^(\S+) wants you to sign in with your Ethereum account:$/;
+const FIELDS: Record<string, keyof SiweMessage> = {
+  URI: 'uri',
+  Version: 'version',
+  'Chain ID': 'chainId',
+  Nonce: 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+  'Not Before': 'notBefore',
+};
+
+/** Parse the message a wallet signed; throws AuthError when it is not EIP-4361 */
+export function parseSiweMessage(message: string): SiweMessage {
+  const malformed = new AuthError('Malformed sign-in message');
+  const lines = message.split('\n');
+  const domain = HEADER.exec(lines[0] ?? '')?.[1];
+  const address = lines[1] ?? '';
+  if (!domain || !/^0x[0-9a-fA-F]{40}$/.test(address) || !ethers.isAddress(address)) throw malformed;
+
+  // The statement is optional; fields start at the URI line
+  const first = lines.findIndex((line) => line.startsWith('URI: '));
+  if (first < 2) throw malformed;
+  const statement = lines.slice(2, first).filter((line) => line !== '');
+  if (statement.length > 1) throw malformed;
+
+  const fields: Partial<Record<keyof SiweMessage, string>> = {};
+  for (const line of lines.slice(first)) {
+    // Request ID and Resources are allowed but not checked
+    if (line.startsWith('Request ID: ') || line === 'Resources:' || line.startsWith('- ')) continue;
+    const separator = line.indexOf(': ');
+    const field = FIELDS[line.slice(0, separator)];
+    if (separator < 0 || !field || fields[field] !== undefined) throw malformed;
+    fields[field] = line.slice(separator + 2);
+  }
+
+  const { uri, version, chainId, nonce, issuedAt, expirationTime, notBefore } = fields;
+  if (!uri || !version || !chainId || !/^\d{1,18}$/.test(chainId) || !nonce || !/^[A-Za-z0-9]{8,}$/.test(nonce)) {
+    throw malformed;
+  }
+  if (!issuedAt || [issuedAt, expirationTime, notBefore].some((time) => time && Number.isNaN(Date.parse(time)))) {
+    throw malformed;
+  }
+
+  return {
+    domain,
+    address,
+    statement: statement[0] ?? null,
+    uri,
+    version,
+    chainId: Number(chainId),
+    nonce,
+    issuedAt,
+    expirationTime: expirationTime ?? null,
+    notBefore: notBefore ?? null,
+  };
+}
+
+const base64url = (value: string | Buffer) => Buffer.from(value).toString('base64url');
+
+export class SiweAuth {
+  /** nonce => expiry, seconds */
+  private nonces = new Map<string, number>();
+  private now: () => number;
+
+  constructor(private options: SiweAuthOptions) {
+    if (options.secret.length < MIN_SECRET_LENGTH) {
+      throw new Error(`JWT secret must be at least ${MIN_SECRET_LENGTH} characters`);
+    }
+    this.now = options.now ?? (() => Math.floor(Date.now() / 1000));
+  }
+
+  /** A nonce for the next sign-in message; it is good for one sign-in */
+  issueNonce(): { nonce: string; expires_at: number } {
+    const now = this.now();
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt <= now) this.nonces.delete(nonce);
+    }
+    // Maps iterate in insertion order: drop the oldest
+    while (this.nonces.size >= MAX_PENDING_NONCES) this.nonces.delete(this.nonces.keys().next().value!);
+
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const expiresAt = now + this.options.nonceTtlSeconds;
+    this.nonces.set(nonce, expiresAt);
+    return { nonce, expires_at: expiresAt };
+  }
+
+  /** Check a signed SIWE message and issue a session token for its address */
+  signIn(message: string, signature: string): { token: string; session: SessionView } {
+    if (message.length > MAX_MESSAGE_LENGTH) throw new AuthError('Malformed sign-in message');
+    const siwe = parseSiweMessage(message);
+    const now = this.now();
+
+    if (siwe.domain !== this.options.domain) throw new AuthError('Sign-in message is for another site');
+    if (siwe.version !== '1') throw new AuthError('Unsupported sign-in message version');
+    if (this.options.chainId !== undefined && siwe.chainId !== this.options.chainId) {
+      throw new AuthError(`Sign-in message must be for chain ${this.options.chainId}`);
+    }
+    if (siwe.expirationTime && Date.parse(siwe.expirationTime) / 1000 <= now) {
+      throw new AuthError('Sign-in message has expired');
+    }
+    if (siwe.notBefore && Date.parse(siwe.notBefore) / 1000 > now) {
+      throw new AuthError('Sign-in message is not valid yet');
+    }
+    const nonceExpiry = this.nonces.get(siwe.nonce);
+    if (nonceExpiry === undefined || nonceExpiry <= now) throw new AuthError('Unknown or expired nonce');
+
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(message, signature);
+    } catch {
+      throw new AuthError('Invalid signature');
+    }
+    if (signer.toLowerCase() !== siwe.address.toLowerCase()) {
+      throw new AuthError('Signature does not match the address in the message');
+    }
+
+    // Only now, so a bad signature cannot burn someone else's nonce
+    this.nonces.delete(siwe.nonce);
+    const session = {
+      address: siwe.address.toLowerCase(),
+      issued_at: now,
+      expires_at: now + this.options.tokenTtlSeconds,
+    };
+    return { token: this.sign(session), session };
+  }
+
+  /** The session a token carries; throws AuthError when it is forged, malformed or expired */
+  verify(token: string): SessionView {
+    const invalid = new AuthError('Invalid or expired session token');
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || signature === undefined || token.split('.').length !== 3) throw invalid;
+
+    const expected = Buffer.from(this.hmac(`${header}.${payload}`), 'base64url');
+    const given = Buffer.from(signature, 'base64url');
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) throw invalid;
+
+    let claims: { sub?: unknown; iat?: unknown; exp?: unknown };
+    try {
+      if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'HS256') throw invalid;
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    } catch {
+      throw invalid;
+    }
+    const { sub, iat, exp } = claims;
+    if (typeof sub !== 'string' || !ethers.isAddress(sub) || typeof iat !== 'number' || typeof exp !== 'number') {
+      throw invalid;
+    }
+    if (exp <= this.now()) throw invalid;
+    return { address: sub.toLowerCase(), issued_at: iat, expires_at: exp };
+  }
+
+  private sign(session: SessionView): string {
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64url(JSON.stringify({ sub: session.address, iat: session.issued_at, exp: session.expires_at }));
+    return `${header}.${payload}.${this.hmac(`${header}.${payload}`)}`;
+  }
+
+  private hmac(data: string): string {
+    return crypto.createHmac('sha256', this.options.secret).update(data).digest('base64url');
+  }
+}
@@ -0,0 +1,106 @@
+import { AccessDirectory, RoleName } from './access-directory';
+import { LeaseScope, PortfolioIndex } from './portfolio';
+
+/**
+ * Authorization - what a signed-in wallet may read
+ *
+ * DECISION: Decide from the indexed chain: the properties a wallet owns or
+ *           manages, the leases it is the tenant on, and its protocol roles
+ * REASON: RentFlowCore is the source of truth for who owns, manages and rents
+ *         what; a permission table kept by the API could disagree with it.
+ *         Both indexes refresh from the monitor, so a transfer of management
+ *         or a new lease applies on the wallet's next request
+ */
+
+/** Roles that act across every property: the protocol admin, the AI agent and dispute arbiters */
+export const PRIVILEGED_ROLES: readonly RoleName[] = ['admin', 'ai_agent', 'arbiter'];
+
+export interface Viewer {
+  /** Lowercase wallet address */
+  address: string;
+  roles: RoleName[];
+  /** Holds a privileged role, so nothing is scoped to its own properties */
+  privileged: boolean;
+  /** Properties the wallet owns or manages, including every unit of a building it manages */
+  managed: Set<number>;
+  /** Properties the wallet rents under an active or paused lease, and the buildings of those units */
+  rented: Set<number>;
+}
+
+export class AccessPolicy {
+  constructor(
+    private access: AccessDirectory,
+    private portfolio: PortfolioIndex
+  ) {}
+
+  async viewerFor(address: string): Promise<Viewer> {
+    const [account, leases, unitBuildings] = await Promise.all([
+      this.access.getAccountAccess(address),
+      this.portfolio.leasesOf(address),
+      this.portfolio.unitBuildings(),
+    ]);
+    const managed = new Set([
+      ...account.owned_properties,
+      ...account.managed_properties.map((managed) => managed.property_id),
+    ]);
+    const rented = new Set(
+      leases.filter((lease) => lease.status === 'active' || lease.status === 'paused').map((lease) => lease.property_id)
+    );
+    // As on chain: RentFlowCore.canManage lets a building's managers manage its units, and
+    // LeaseLib.indexTenancy makes a unit's tenant a tenant of the building's common areas
+    for (const [unitId, buildingId] of unitBuildings) {
+      if (managed.has(buildingId)) managed.add(unitId);
+      if (rented.has(unitId)) rented.add(buildingId);
+    }
+
+    return {
+      address: account.address,
+      roles: account.roles,
+      privileged: account.roles.some((role) => PRIVILEGED_ROLES.includes(role)),
+      managed,
+      rented,
+    };
+  }
+
+  /** Owners, managers and privileged roles */
+  canManageProperty(viewer: Viewer, propertyId: number): boolean {
+    return viewer.privileged || viewer.managed.has(propertyId);
+  }
+
+  /** Those who manage the property, and its current tenant */
+  canViewProperty(viewer: Viewer, propertyId: number): boolean {
+    return this.canManageProperty(viewer, propertyId) || viewer.rented.has(propertyId);
+  }
+
+  /** The tenant, and those who manage the property it is on */
+  canViewLease(viewer: Viewer, lease: { tenant: string; property_id: number }): boolean {
+    return lease.tenant === viewer.address || this.canManageProperty(viewer, lease.property_id);
+  }
+
+  /** Those who can view the property, and the contractor assigned to the request */
+  canViewMaintenance(viewer: Viewer, request: { property_id: number; contractor: string | null }): boolean {
+    return this.canViewProperty(viewer, request.property_id) || request.contractor === viewer.address;
+  }
+
+  /** The account itself and privileged roles */
+  canViewAccount(viewer: Viewer, address: string): boolean {
+    return viewer.privileged || viewer.address === address.toLowerCase();
+  }
+
+  /** The tenant, and the owners and managers of any property they have leased */
+  async canViewTenant(viewer: Viewer, tenant: string): Promise<boolean> {
+    if (this.canViewAccount(viewer, tenant)) return true;
+    const leases = await this.portfolio.leasesOf(tenant);
+    return leases.some((lease) => viewer.managed.has(lease.property_id));
+  }
+
+  /** Leases and payments the viewer may list; undefined for privileged roles, who see all */
+  leaseScope(viewer: Viewer): LeaseScope | undefined {
+    return viewer.privileged ? undefined : { address: viewer.address, propertyIds: viewer.managed };
+  }
+
+  /** Properties whose maintenance requests the viewer may list; undefined for all */
+  visibleProperties(viewer: Viewer): Set<number> | undefined {
+    return viewer.privileged ? undefined : new Set([...viewer.managed, ...viewer.rented]);
+  }
+}
@@ -0,0 +1,290 @@
+import { ethers } from 'ethers';
+import { ERC20_ABI, RENTFLOW_CORE_ABI } from './contract-abi';
+import { IndexerStore } from './indexer-store';
+import { TenantNoticeRepository } from './db/repositories';
+import { ContractTokenMetadataSource, TokenMetadata, formatTokenAmount } from './payment-tokens';
+
+/**
+ * Autopay Keeper
+ *
+ * DECISION: Check balance, allowance and the tenant's cap before sending
+ *           collectRent, and notify instead of retrying blindly
+ * REASON: A collection that would revert still costs the agent gas, and
+ *         the tenant can only fix a short balance or a spent allowance if
+ *         they hear about it; the contract enforces the same rules anyway
+ *
+ * FLOW (runOnce):
+ * 1. Replay AutopayEnabled / AutopayDisabled to find enrolled leases
+ * 2. Read each lease's oldest open period; skip it until its due day
+ * 3. Collect, or record a tenant notice once per lease, period and reason
+ */
+
+export type AutopayFailureReason =
+  | 'over_cap'
+  | 'insufficient_balance'
+  | 'insufficient_allowance'
+  | 'transaction_failed';
+
+/** What a collection would charge now, and what the tenant has allowed */
+export interface AutopayLeaseState {
+  leaseId: number;
+  tenant: string;
+  /** Oldest open billing period */
+  period: number;
+  /** Seconds */
+  dueDate: number;
+  /** Rent plus any late fee, in the property's payment token */
+  amountDue: bigint;
+  token: TokenMetadata;
+  cap: bigint;
+  balance: bigint;
+  allowance: bigint;
+}
+
+export interface AutopayGateway {
+  /** Returns null when the lease is not active or has no rent left */
+  getLeaseState(leaseId: number): Promise<AutopayLeaseState | null>;
+  /** Send collectRent and wait for it to be mined; returns the transaction hash */
+  collectRent(leaseId: number): Promise<string>;
+}
+
+export interface AutopayFailure {
+  leaseId: number;
+  tenant: string;
+  period: number;
+  reason: AutopayFailureReason;
+  /** Payment token base units as a decimal string */
+  amountDue: string;
+  message: string;
+}
+
+export interface AutopayRunResult {
+  collected: { leaseId: number; period: number; transactionHash: string }[];
+  failed: AutopayFailure[];
+}
+
+export interface AutopayKeeperOptions {
+  intervalMs?: number;
+}
+
+const LEASE_ACTIVE = 0;
+
+interface GatewayToken {
+  contract: ethers.Contract;
+  metadata: TokenMetadata;
+}
+
+export class ContractAutopayGateway implements AutopayGateway {
+  private contract: ethers.Contract;
+  private tokens = new Map<string, GatewayToken>();
+  private metadata: ContractTokenMetadataSource;
+
+  constructor(
+    private signer: ethers.Signer,
+    private contractAddress: string
+  ) {
+    this.contract = new ethers.Contract(contractAddress, RENTFLOW_CORE_ABI, signer);
+    this.metadata = new ContractTokenMetadataSource(signer);
+  }
+
+  async getLeaseState(leaseId: number): Promise<AutopayLeaseState | null> {
+    const lease = await this.contract.leases(leaseId);
+    if (Number(lease.status) !== LEASE_ACTIVE || lease.periodsPaid >= lease.periodCount) return null;
+
+    const property = await this.contract.properties(lease.propertyId);
+    const token = await this.getToken(property.paymentToken);
+    const [quote, cap, balance, allowance] = await Promise.all([
+      this.contract.quoteRent(leaseId),
+      this.contract.autopayCaps(leaseId) as Promise<bigint>,
+      token.contract.balanceOf(lease.tenant) as Promise<bigint>,
+      token.contract.allowance(lease.tenant, this.contractAddress) as Promise<bigint>,
+    ]);
+
+    return {
+      leaseId,
+      tenant: String(lease.tenant).toLowerCase(),
+      period: Number(quote.period),
+      dueDate: Number(quote.dueDate),
+      amountDue: quote.rentAmount + quote.lateFee,
+      token: token.metadata,
+      cap,
+      balance,
+      allowance,
+    };
+  }
+
+  async collectRent(leaseId: number): Promise<string> {
+    const tx: ethers.ContractTransactionResponse = await this.contract.collectRent(leaseId);
+    const receipt = await tx.wait();
+    return receipt?.hash ?? tx.hash;
+  }
+
+  private async getToken(address: string): Promise<GatewayToken> {
+    let token = this.tokens.get(address);
+    if (!token) {
+      token = {
+        contract: new ethers.Contract(address, ERC20_ABI, this.signer),
+        metadata: await this.metadata.getMetadata(address),
+      };
+      this.tokens.set(address, token);
+    }
+    return token;
+  }
+}
+
+/** The first reason the contract would refuse this collection, if any */
+export function checkCollection(state: AutopayLeaseState): AutopayFailureReason | null {
+  if (state.amountDue > state.cap) return 'over_cap';
+  if (state.balance < state.amountDue) return 'insufficient_balance';
+  if (state.allowance < state.amountDue) return 'insufficient_allowance';
+  return null;
+}
+
+function describeFailure(reason: AutopayFailureReason, leaseId: number, state: AutopayLeaseState): string {
+  const amount = formatTokenAmount(state.amountDue, state.token);
+  switch (reason) {
+    case 'over_cap':
+      return `Autopay did not collect ${amount} for lease #${leaseId}: it is above your autopay limit. Raise the limit or pay manually.`;
+    case 'insufficient_balance':
+      return `Autopay could not collect ${amount} for lease #${leaseId}: your wallet balance is too low.`;
+    case 'insufficient_allowance':
+      return `Autopay could not collect ${amount} for lease #${leaseId}: approve RentFlow to spend at least this amount.`;
+    case 'transaction_failed':
+      return `Autopay could not collect ${amount} for lease #${leaseId}. Please pay manually; we will retry.`;
+  }
+}
+
+export class AutopayKeeper {
+  private readonly intervalMs: number;
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+  private pass: Promise<AutopayRunResult> | null = null;
+  /** lease:period:reason keys already notified, so each failure is reported once */
+  private notified = new Set<string>();
+
+  constructor(
+    private store: IndexerStore,
+    private gateway: AutopayGateway,
+    private notices?: TenantNoticeRepository,
+    options: AutopayKeeperOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? 15 * 60 * 1000;
+  }
+
+  // ============ Lifecycle ============
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    void this.tick();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.pass;
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      const result = await this.runOnce();
+      if (result.collected.length > 0 || result.failed.length > 0) {
+        console.log(`💸 Autopay: ${result.collected.length} collected, ${result.failed.length} failed`);
+      }
+    } catch (error) {
+      console.error('❌ Autopay run failed:', (error as Error).message);
+    }
+    if (this.running) {
+      this.timer = setTimeout(() => void this.tick(), this.intervalMs);
+    }
+  }
+
+  // ============ Collection ============
+
+  /** Leases with autopay on, replayed from the indexed events */
+  async enrolledLeases(): Promise<number[]> {
+    const [enabled, disabled] = await Promise.all([
+      this.store.getEvents({ name: 'AutopayEnabled' }),
+      this.store.getEvents({ name: 'AutopayDisabled' }),
+    ]);
+    const events = [...enabled, ...disabled].sort(
+      (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+    );
+
+    const enrolled = new Map<number, boolean>();
+    for (const event of events) {
+      enrolled.set(Number(event.args.leaseId), event.name === 'AutopayEnabled');
+    }
+    return [...enrolled].filter(([, isEnrolled]) => isEnrolled).map(([leaseId]) => leaseId);
+  }
+
+  /** One pass over every enrolled lease; concurrent callers share the same pass */
+  runOnce(now = Math.floor(Date.now() / 1000)): Promise<AutopayRunResult> {
+    if (!this.pass) {
+      this.pass = this.collectDue(now).finally(() => {
+        this.pass = null;
+      });
+    }
+    return this.pass;
+  }
+
+  private async collectDue(now: number): Promise<AutopayRunResult> {
+    const result: AutopayRunResult = { collected: [], failed: [] };
+
+    for (const leaseId of await this.enrolledLeases()) {
+      let state: AutopayLeaseState | null;
+      try {
+        state = await this.gateway.getLeaseState(leaseId);
+      } catch (error) {
+        // One unreadable lease must not hold up every lease enrolled after it; retried next pass
+        console.error(`❌ Autopay could not read lease ${leaseId}:`, (error as Error).message);
+        continue;
+      }
+      if (!state || state.dueDate > now) continue;
+
+      let reason = checkCollection(state);
+      if (!reason) {
+        try {
+          const transactionHash = await this.gateway.collectRent(leaseId);
+          result.collected.push({ leaseId, period: state.period, transactionHash });
+          continue;
+        } catch (error) {
+          console.error(`❌ Autopay collection for lease ${leaseId} failed:`, (error as Error).message);
+          reason = 'transaction_failed';
+        }
+      }
+
+      const failure: AutopayFailure = {
+        leaseId,
+        tenant: state.tenant,
+        period: state.period,
+        reason,
+        amountDue: state.amountDue.toString(),
+        message: describeFailure(reason, leaseId, state),
+      };
+      result.failed.push(failure);
+      await this.notify(failure);
+    }
+
+    return result;
+  }
+
+  private async notify(failure: AutopayFailure): Promise<void> {
+    const key = `${failure.leaseId}:${failure.period}:${failure.reason}`;
+    if (this.notified.has(key)) return;
+
+    console.warn(`⚠️  ${failure.message}`);
+    if (this.notices) {
+      await this.notices.record({
+        tenantAddress: failure.tenant,
+        leaseId: failure.leaseId,
+        period: failure.period,
+        kind: 'autopay_failed',
+        reason: failure.reason,
+        message: failure.message,
+      });
+    }
+    this.notified.add(key);
+  }
+}
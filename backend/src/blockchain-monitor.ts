@@ -0,0 +1,303 @@
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { config } from './config';
+import { RENTFLOW_CORE_EVENTS, RentFlowEventName } from './contract-abi';
+import { CoreDeployment, DeploymentRegistry } from './deployments';
+import {
+  EventArgValue,
+  FileIndexerStore,
+  IndexedBlock,
+  IndexedEvent,
+  IndexerCursor,
+  IndexerStore,
+} from './indexer-store';
+
+/**
+ * Blockchain Monitor - RentFlowCore event indexer
+ *
+ * DECISION: Poll eth_getLogs in block ranges instead of subscribing
+ * REASON: Works identically against a Hardhat node and a public RPC, and a
+ *         stored cursor makes restarts and backfills the same code path
+ *
+ * FLOW (syncOnce):
+ * 1. Verify the cursor block hash still matches the chain; if not, walk
+ *    back through stored hashes to the common ancestor and roll back
+ * 2. Fetch logs from cursor + 1 (or the deployment block) up to
+ *    head - confirmations, in batches
+ * 3. Save each batch and the new cursor atomically, then emit "event"
+ */
+
+export interface MonitorBlock {
+  number: number;
+  hash: string | null;
+  timestamp: number;
+}
+
+export type MonitorLog = Pick<
+  ethers.Log,
+  'topics' | 'data' | 'blockNumber' | 'blockHash' | 'transactionHash' | 'index'
+>;
+
+/** Subset of ethers.Provider the monitor needs; easy to fake in tests */
+export interface MonitorProvider {
+  getBlockNumber(): Promise<number>;
+  getBlock(blockNumber: number): Promise<MonitorBlock | null>;
+  getLogs(filter: ethers.Filter): Promise<MonitorLog[]>;
+}
+
+export interface BlockchainMonitorOptions {
+  contractAddress: string;
+  deploymentBlock?: number;
+  /** Blocks to stay behind head; 0 on a local Hardhat node */
+  confirmations?: number;
+  batchSize?: number;
+  pollIntervalMs?: number;
+  /** How many recent block hashes to keep for reorg detection */
+  reorgWindow?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  eventCount: number;
+}
+
+export interface ReorgInfo {
+  detectedAt: number;
+  commonAncestor: number | null;
+  removedEvents: number;
+}
+
+export class BlockchainMonitor extends EventEmitter {
+  private readonly iface = new ethers.Interface(RENTFLOW_CORE_EVENTS);
+  private readonly topics: string[];
+  private readonly contractAddress: string;
+  private readonly deploymentBlock: number;
+  private readonly confirmations: number;
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly reorgWindow: number;
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+  private syncing: Promise<SyncResult | null> | null = null;
+
+  constructor(
+    private provider: MonitorProvider,
+    private store: IndexerStore,
+    options: BlockchainMonitorOptions
+  ) {
+    super();
+    this.contractAddress = ethers.getAddress(options.contractAddress);
+    this.deploymentBlock = options.deploymentBlock ?? 0;
+    this.confirmations = options.confirmations ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 4000;
+    this.reorgWindow = options.reorgWindow ?? 64;
+
+    this.topics = [];
+    this.iface.forEachEvent((event) => this.topics.push(event.topicHash));
+  }
+
+  // ============ Lifecycle ============
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    console.log(`👀 Indexing RentFlowCore at ${this.contractAddress} from block ${this.deploymentBlock}`);
+    void this.tick();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.syncing;
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      await this.syncOnce();
+    } catch (error) {
+      this.emit('error', error);
+    }
+    if (this.running) {
+      this.timer = setTimeout(() => void this.tick(), this.pollIntervalMs);
+    }
+  }
+
+  // ============ Sync ============
+
+  /** Run one catch-up pass; concurrent callers share the same pass */
+  syncOnce(): Promise<SyncResult | null> {
+    if (!this.syncing) {
+      this.syncing = this.doSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async doSync(): Promise<SyncResult | null> {
+    const head = (await this.provider.getBlockNumber()) - this.confirmations;
+    let cursor = await this.store.getCursor();
+
+    if (cursor) {
+      cursor = await this.checkForReorg(cursor);
+    }
+
+    const fromBlock = cursor ? cursor.blockNumber + 1 : this.deploymentBlock;
+    if (fromBlock > head) return null;
+
+    let eventCount = 0;
+    for (let start = fromBlock; start <= head; start += this.batchSize) {
+      const end = Math.min(start + this.batchSize - 1, head);
+      eventCount += await this.indexRange(start, end);
+    }
+
+    await this.store.pruneBlocks(head - this.reorgWindow);
+
+    const result = { fromBlock, toBlock: head, eventCount };
+    this.emit('synced', result);
+    return result;
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number): Promise<number> {
+    const logs = await this.provider.getLogs({
+      address: this.contractAddress,
+      fromBlock,
+      toBlock,
+      topics: [this.topics],
+    });
+
+    const blocks = new Map<number, MonitorBlock>();
+    const loadBlock = async (number: number): Promise<MonitorBlock> => {
+      let block = blocks.get(number);
+      if (!block) {
+        const fetched = await this.provider.getBlock(number);
+        if (!fetched?.hash) throw new Error(`Block ${number} not available`);
+        block = fetched;
+        blocks.set(number, block);
+      }
+      return block;
+    };
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const block = await loadBlock(log.blockNumber);
+      // A log from a block that has since been replaced means the chain moved
+      // under us; drop the whole batch and retry on the next tick
+      if (block.hash !== log.blockHash) {
+        throw new Error(`Block ${log.blockNumber} changed while indexing; retrying`);
+      }
+
+      const decoded = this.decode(log, block.timestamp);
+      if (decoded) events.push(decoded);
+    }
+
+    const endBlock = await loadBlock(toBlock);
+    const cursor: IndexerCursor = { blockNumber: toBlock, blockHash: endBlock.hash! };
+    const seen: IndexedBlock[] = [...blocks.values()].map((block) => ({ number: block.number, hash: block.hash! }));
+
+    await this.store.saveBatch(events, seen, cursor);
+
+    for (const event of events) {
+      this.emit('event', event);
+      this.emit(event.name, event);
+    }
+
+    return events.length;
+  }
+
+  private decode(log: MonitorLog, timestamp: number): IndexedEvent | null {
+    const parsed = this.iface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) return null;
+
+    const args: Record<string, EventArgValue> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      const value = parsed.args[i];
+      args[input.name] = typeof value === 'bigint' ? value.toString() : (value as EventArgValue);
+    });
+
+    return {
+      id: `${log.transactionHash}-${log.index}`,
+      name: parsed.name as RentFlowEventName,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      timestamp,
+      args,
+    };
+  }
+
+  // ============ Reorg Handling ============
+
+  private async checkForReorg(cursor: IndexerCursor): Promise<IndexerCursor | null> {
+    const onChain = await this.provider.getBlock(cursor.blockNumber);
+    if (onChain?.hash === cursor.blockHash) return cursor;
+
+    let ancestor: IndexerCursor | null = null;
+    for (const block of await this.store.getRecentBlocks(cursor.blockNumber - 1)) {
+      const chainBlock = await this.provider.getBlock(block.number);
+      if (chainBlock?.hash === block.hash) {
+        ancestor = { blockNumber: block.number, blockHash: block.hash };
+        break;
+      }
+    }
+
+    // No stored hash survived: the reorg is deeper than our window, reindex from scratch
+    const removedEvents = await this.store.rollbackTo(ancestor);
+    const info: ReorgInfo = {
+      detectedAt: cursor.blockNumber,
+      commonAncestor: ancestor?.blockNumber ?? null,
+      removedEvents,
+    };
+    console.warn(
+      `⚠️  Reorg detected at block ${info.detectedAt}; rolled back to ${info.commonAncestor ?? 'deployment'} ` +
+        `(${removedEvents} events removed)`
+    );
+    this.emit('reorg', info);
+
+    return ancestor;
+  }
+}
+
+export function createMonitorFromConfig(core: CoreDeployment, store?: IndexerStore): BlockchainMonitor {
+  const provider = new ethers.JsonRpcProvider(config.blockchain.rpcUrl, undefined, { staticNetwork: true });
+  return new BlockchainMonitor(provider, store ?? new FileIndexerStore(config.indexer.storePath), {
+    contractAddress: core.address,
+    deploymentBlock: core.deploymentBlock,
+    confirmations: config.indexer.confirmations,
+    batchSize: config.indexer.batchSize,
+    pollIntervalMs: config.indexer.pollIntervalMs,
+    reorgWindow: config.indexer.reorgWindow,
+  });
+}
+
+if (require.main === module) {
+  (async () => {
+    const provider = new ethers.JsonRpcProvider(config.blockchain.rpcUrl, undefined, { staticNetwork: true });
+    const core = await new DeploymentRegistry(config.blockchain.deploymentsDir).resolveCore(provider);
+    if (!core) {
+      throw new Error('RentFlowCore is not deployed on this chain; run scripts/deploy.ts first');
+    }
+
+    const store = await new FileIndexerStore(config.indexer.storePath).load();
+    const monitor = createMonitorFromConfig(core, store);
+
+    monitor.on('event', (event: IndexedEvent) => {
+      console.log(`📦 #${event.blockNumber} ${event.name}`, event.args);
+    });
+    monitor.on('error', (error: Error) => console.error('❌ Indexer error:', error.message));
+
+    process.on('SIGINT', async () => {
+      await monitor.stop();
+      process.exit(0);
+    });
+
+    monitor.start();
+  })().catch((error) => {
+    console.error('❌ Monitor failed to start:', error);
+    process.exit(1);
+  });
+}
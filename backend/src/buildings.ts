@@ -0,0 +1,210 @@
+import { IndexedEvent, IndexerStore } from './indexer-store';
+
+/**
+ * Building Tracker - totals for buildings made of units
+ *
+ * DECISION: A building's totals are replayed from the events of the building
+ *           and each of its units, found through UnitRegistered
+ * REASON: On chain a unit is an ordinary property with its own leases,
+ *         requests and maintenance fund, and the building's own ID stands for
+ *         its common areas; summing them per building would take a contract
+ *         read per unit, while the events already carry every figure
+ *
+ * A unit counts as occupied from LeaseCreated until its lease is terminated
+ * or its deposit is returned. A request is open until it is paid or rejected.
+ */
+
+export interface BuildingUnitView {
+  unit_id: number;
+  /** Payment token base units */
+  monthly_rent: string;
+  occupied: boolean;
+  open_requests: number;
+  maintenance_fund: string;
+}
+
+export interface BuildingView {
+  building_id: number;
+  owner: string;
+  payment_token: string;
+  unit_count: number;
+  occupied_units: number;
+  /** Sum of every unit's rent, and of the occupied units' only */
+  total_monthly_rent: string;
+  occupied_monthly_rent: string;
+  /** Requests filed against units, and against the building's own ID */
+  open_requests: { units: number; common_areas: number };
+  maintenance_funds: { units: string; common_areas: string };
+  units: BuildingUnitView[];
+}
+
+const BUILDING_EVENTS = new Set<IndexedEvent['name']>([
+  'PropertyRegistered',
+  'UnitRegistered',
+  'LeaseCreated',
+  'LeaseTerminated',
+  'SecurityDepositReturned',
+  'MaintenanceRequested',
+  'MaintenancePaid',
+  'MaintenanceRejected',
+  'MaintenanceFundAdded',
+]);
+
+interface PropertyTotals {
+  owner: string;
+  monthlyRent: bigint;
+  paymentToken: string;
+  /** Leases not yet terminated or settled */
+  openLeases: Set<number>;
+  openRequests: Set<number>;
+  fund: bigint;
+}
+
+interface BuildingSnapshot {
+  properties: Map<number, PropertyTotals>;
+  /** buildingId => unit IDs in registration order */
+  units: Map<number, number[]>;
+}
+
+/** Fold building events (in chain order) into per-property totals */
+export function replayBuildings(events: IndexedEvent[]): BuildingSnapshot {
+  const snapshot: BuildingSnapshot = { properties: new Map(), units: new Map() };
+  const leaseProperties = new Map<number, number>();
+  const requestProperties = new Map<number, number>();
+
+  const byLease = (leaseId: number) => snapshot.properties.get(leaseProperties.get(leaseId) ?? -1);
+  const byRequest = (requestId: number) => snapshot.properties.get(requestProperties.get(requestId) ?? -1);
+
+  for (const event of events) {
+    const { args } = event;
+    switch (event.name) {
+      case 'PropertyRegistered':
+        snapshot.properties.set(Number(args.propertyId), {
+          owner: String(args.owner).toLowerCase(),
+          monthlyRent: BigInt(String(args.monthlyRent)),
+          paymentToken: String(args.paymentToken).toLowerCase(),
+          openLeases: new Set(),
+          openRequests: new Set(),
+          fund: 0n,
+        });
+        break;
+      case 'UnitRegistered': {
+        const buildingId = Number(args.buildingId);
+        snapshot.units.set(buildingId, [...(snapshot.units.get(buildingId) ?? []), Number(args.unitId)]);
+        break;
+      }
+      case 'LeaseCreated': {
+        const leaseId = Number(args.leaseId);
+        leaseProperties.set(leaseId, Number(args.propertyId));
+        byLease(leaseId)?.openLeases.add(leaseId);
+        break;
+      }
+      case 'LeaseTerminated':
+      case 'SecurityDepositReturned': {
+        const leaseId = Number(args.leaseId);
+        byLease(leaseId)?.openLeases.delete(leaseId);
+        break;
+      }
+      case 'MaintenanceRequested': {
+        const requestId = Number(args.requestId);
+        requestProperties.set(requestId, Number(args.propertyId));
+        byRequest(requestId)?.openRequests.add(requestId);
+        break;
+      }
+      case 'MaintenancePaid':
+      case 'MaintenanceRejected': {
+        const requestId = Number(args.requestId);
+        const property = byRequest(requestId);
+        if (!property) break;
+        property.openRequests.delete(requestId);
+        // Contractors are paid from the fund of the property the request is on
+        if (event.name === 'MaintenancePaid') property.fund -= BigInt(String(args.amount));
+        break;
+      }
+      case 'MaintenanceFundAdded': {
+        const property = snapshot.properties.get(Number(args.propertyId));
+        if (property) property.fund += BigInt(String(args.amount));
+        break;
+      }
+    }
+  }
+
+  return snapshot;
+}
+
+export class BuildingTracker {
+  private snapshot: BuildingSnapshot | null = null;
+
+  constructor(private store: IndexerStore) {}
+
+  /** Returns null unless the property has at least one unit */
+  async getBuilding(buildingId: number): Promise<BuildingView | null> {
+    const snapshot = await this.load();
+    return snapshot.units.has(buildingId) ? this.toView(snapshot, buildingId) : null;
+  }
+
+  /** Every building, or one owner's, by building ID */
+  async listBuildings(owner?: string): Promise<BuildingView[]> {
+    const snapshot = await this.load();
+    return [...snapshot.units.keys()]
+      .sort((a, b) => a - b)
+      .map((buildingId) => this.toView(snapshot, buildingId))
+      .filter((building) => owner === undefined || building.owner === owner.toLowerCase());
+  }
+
+  /** Monitor hook: replay on the next read after anything a total depends on */
+  async handleEvent(event: IndexedEvent): Promise<void> {
+    if (BUILDING_EVENTS.has(event.name)) this.snapshot = null;
+  }
+
+  /** Forget the replayed snapshot, e.g. after the indexer rolls back a reorg */
+  invalidate(): void {
+    this.snapshot = null;
+  }
+
+  private toView({ properties, units }: BuildingSnapshot, buildingId: number): BuildingView {
+    const building = properties.get(buildingId)!;
+    const unitViews: BuildingUnitView[] = [];
+    let totalRent = 0n;
+    let occupiedRent = 0n;
+    let unitFunds = 0n;
+    let unitRequests = 0;
+
+    for (const unitId of units.get(buildingId)!) {
+      const unit = properties.get(unitId)!;
+      const occupied = unit.openLeases.size > 0;
+      totalRent += unit.monthlyRent;
+      if (occupied) occupiedRent += unit.monthlyRent;
+      unitFunds += unit.fund;
+      unitRequests += unit.openRequests.size;
+      unitViews.push({
+        unit_id: unitId,
+        monthly_rent: unit.monthlyRent.toString(),
+        occupied,
+        open_requests: unit.openRequests.size,
+        maintenance_fund: unit.fund.toString(),
+      });
+    }
+
+    return {
+      building_id: buildingId,
+      owner: building.owner,
+      payment_token: building.paymentToken,
+      unit_count: unitViews.length,
+      occupied_units: unitViews.filter((unit) => unit.occupied).length,
+      total_monthly_rent: totalRent.toString(),
+      occupied_monthly_rent: occupiedRent.toString(),
+      open_requests: { units: unitRequests, common_areas: building.openRequests.size },
+      maintenance_funds: { units: unitFunds.toString(), common_areas: building.fund.toString() },
+      units: unitViews,
+    };
+  }
+
+  private async load(): Promise<BuildingSnapshot> {
+    if (!this.snapshot) {
+      const events = await this.store.getEvents();
+      this.snapshot = replayBuildings(events.filter((event) => BUILDING_EVENTS.has(event.name)));
+    }
+    return this.snapshot;
+  }
+}
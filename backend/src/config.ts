@@ -0,0 +1,100 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Runtime configuration for the RentFlow backend
+ *
+ * DECISION: Read every env var in one place and expose a typed object
+ * REASON: Modules stay testable (they take config as input) and missing
+ *         values fall back to safe offline defaults instead of crashing
+ */
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function envFlag(name: string, fallback: boolean): boolean {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  return raw.trim().toLowerCase() === 'true';
+}
+
+function envString(name: string): string | undefined {
+  const raw = process.env[name];
+  // Treat the ".env.example" placeholders ("0x...", "sk-...") as unset
+  if (!raw || raw.endsWith('...')) return undefined;
+  return raw;
+}
+
+export const config = {
+  port: envNumber('PORT', 3001),
+  nodeEnv: process.env.NODE_ENV || 'development',
+  frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
+  corsOrigins: (process.env.CORS_ORIGINS || 'http://localhost:3000')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+
+  blockchain: {
+    rpcUrl: envString('ARC_RPC_URL') || 'http://127.0.0.1:8545',
+    // deployments/<chainId>.json files from scripts/deploy.ts, relative to backend/
+    deploymentsDir: process.env.DEPLOYMENTS_DIR || '../deployments',
+    aiWalletPrivateKey: envString('AI_WALLET_PRIVATE_KEY'),
+  },
+
+  database: {
+    url: envString('DATABASE_URL'),
+    // Relative to backend/; override when running from elsewhere
+    migrationsDir: process.env.MIGRATIONS_DIR || '../database/migrations',
+    seedFile: process.env.SEED_FILE || '../database/seed.sql',
+    schemaFile: process.env.SCHEMA_FILE || '../database/schema.sql',
+  },
+
+  indexer: {
+    confirmations: envNumber('INDEXER_CONFIRMATIONS', 0),
+    batchSize: envNumber('INDEXER_BATCH_SIZE', 2000),
+    pollIntervalMs: envNumber('INDEXER_POLL_INTERVAL_MS', 4000),
+    reorgWindow: envNumber('INDEXER_REORG_WINDOW', 64),
+    storePath: process.env.INDEXER_STORE_PATH || './data/indexer.json',
+  },
+
+  autopay: {
+    // How often the agent checks enrolled leases for rent that is due
+    intervalMs: envNumber('AUTOPAY_INTERVAL_MS', 15 * 60 * 1000),
+  },
+
+  ai: {
+    // "openai" uses the OpenAI API, anything else stays on the local stub
+    provider: process.env.AI_PROVIDER || 'stub',
+    openaiApiKey: envString('OPENAI_API_KEY'),
+    openaiModel: process.env.OPENAI_MODEL || 'gpt-4',
+    requestTimeoutMs: envNumber('AI_REQUEST_TIMEOUT_MS', 4000),
+    // USDC base units (6 decimals): 500_000_000 = $500. Fallback for when
+    // no contract is configured; on-chain approval policies take precedence
+    autoApprovalLimit: envNumber('AUTO_APPROVAL_LIMIT', 500 * 1e6),
+    enableAutoApproval: envFlag('ENABLE_AI_AUTO_APPROVAL', true),
+  },
+
+  auth: {
+    // Sign-in and every wallet-scoped route are disabled until this is set
+    jwtSecret: envString('JWT_SECRET'),
+    // Session tokens are not refreshed; the dashboard signs in again when one lapses
+    tokenTtlSeconds: envNumber('JWT_TTL_SECONDS', 60 * 60),
+    nonceTtlSeconds: envNumber('SIWE_NONCE_TTL_SECONDS', 5 * 60),
+    // Host the dashboard is served from, which wallets put in the message they sign
+    siweDomain: process.env.SIWE_DOMAIN || new URL(process.env.FRONTEND_URL || 'http://localhost:3000').host,
+  },
+
+  rateLimit: {
+    windowMs: envNumber('API_RATE_LIMIT_WINDOW_MS', 15 * 60 * 1000),
+    max: envNumber('API_RATE_LIMIT_MAX', 100),
+    // AI evaluations are the expensive endpoint; keep a tighter per-minute cap
+    evaluateMaxPerMinute: envNumber('AI_EVALUATE_RATE_LIMIT', 20),
+  },
+};
+
+export type AppConfig = typeof config;
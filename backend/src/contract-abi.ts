@@ -0,0 +1,168 @@
+/**
+ * RentFlowCore ABI fragments used by the backend
+ *
+ * DECISION: Human-readable ABI kept next to the code instead of importing
+ *           Hardhat artifacts
+ * REASON: The backend builds and runs without compiling the contracts;
+ *         keep this list in sync with contracts/RentFlowCore.sol
+ */
+
+export const RENTFLOW_CORE_EVENTS = [
+  'event PropertyRegistered(uint256 indexed propertyId, address indexed owner, uint256 monthlyRent, address indexed paymentToken)',
+  'event LeaseCreated(uint256 indexed leaseId, uint256 indexed propertyId, address indexed tenant)',
+  'event RentPaid(uint256 indexed leaseId, uint256 amount, uint256 timestamp)',
+  'event RentPaymentItemized(uint256 indexed leaseId, uint256 indexed period, uint256 rentAmount, uint256 lateFee, uint256 dueDate)',
+  'event RentOverdue(uint256 indexed leaseId, uint256 daysPastDue)',
+  'event LeasePaused(uint256 indexed leaseId, uint256 pausedAt)',
+  'event LeaseResumed(uint256 indexed leaseId, uint256 periodsWaived)',
+  'event TerminationProposed(uint256 indexed leaseId, address indexed proposer, uint256 fee)',
+  'event LeaseTerminated(uint256 indexed leaseId, uint8 reason, uint256 fee)',
+  'event RenewalProposed(uint256 indexed leaseId, address indexed proposer, uint256 additionalMonths, uint256 monthlyRent)',
+  'event LeaseRenewed(uint256 indexed leaseId, uint256 newEndDate, uint256 monthlyRent)',
+  'event MaintenanceRequested(uint256 indexed requestId, uint256 indexed propertyId, uint256 estimatedCost)',
+  'event MaintenanceApproved(uint256 indexed requestId, uint256 approvedAmount, address contractor)',
+  'event MaintenanceEscalated(uint256 indexed requestId, uint8 reason, uint256 proposedAmount, address contractor)',
+  'event ApprovalPolicyUpdated(uint256 indexed propertyId, uint256 autoApprovalLimit, uint256 dailyCap, uint256 monthlyCap, uint256 blockedCategories)',
+  'event MaintenanceRejected(uint256 indexed requestId, uint8 reason, address rejectedBy)',
+  'event MaintenanceAccepted(uint256 indexed requestId, address indexed contractor)',
+  'event MaintenanceStarted(uint256 indexed requestId, address indexed contractor)',
+  'event MaintenanceWorkSubmitted(uint256 indexed requestId, bytes32 evidenceHash, uint256 disputeDeadline)',
+  'event MaintenanceDisputed(uint256 indexed requestId, address indexed disputedBy)',
+  'event MaintenanceSignedOff(uint256 indexed requestId, address indexed signedOffBy)',
+  'event MaintenancePaid(uint256 indexed requestId, uint256 amount, address contractor)',
+  'event ContractorRegistered(address indexed contractor, uint256 trades, bytes32 licenseHash, bytes32 insuranceHash)',
+  'event ContractorAllowlistUpdated(address indexed owner, address indexed contractor, bool allowed)',
+  'event ContractorRated(address indexed contractor, uint256 indexed requestId, uint256 rating)',
+  'event DepositDeductionItemized(uint256 indexed leaseId, uint256 indexed itemIndex, uint8 category, uint256 amount, bytes32 evidenceHash)',
+  'event DepositDeductionsProposed(uint256 indexed leaseId, uint256 itemCount, uint256 totalDeduction, uint256 disputeDeadline)',
+  'event DepositDeductionAccepted(uint256 indexed leaseId, uint256 indexed itemIndex, uint256 amount)',
+  'event DepositDeductionDisputed(uint256 indexed leaseId, uint256 indexed itemIndex, uint256 amount)',
+  'event DepositDisputeResolved(uint256 indexed leaseId, uint256 indexed itemIndex, uint256 awardedToOwner, uint256 returnedToTenant, address indexed arbiter)',
+  'event SecurityDepositReturned(uint256 indexed leaseId, address tenant, uint256 amount)',
+  'event PayoutSplitsUpdated(uint256 indexed propertyId, uint256 indexed version, uint256 recipientCount, uint256 reserveBps, uint256 ownerBps, bool pullPayments)',
+  'event PayoutRecipientSet(uint256 indexed propertyId, uint256 indexed version, address indexed recipient, uint256 bps)',
+  'event RentPayout(uint256 indexed leaseId, address indexed recipient, uint256 amount, bool claimable)',
+  'event PayoutClaimed(address indexed recipient, address indexed token, uint256 amount)',
+  'event AutopayEnabled(uint256 indexed leaseId, address indexed tenant, uint256 maxPerPeriod)',
+  'event AutopayDisabled(uint256 indexed leaseId, address indexed tenant)',
+  'event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event PropertyManagerUpdated(uint256 indexed propertyId, address indexed manager, uint256 permissions)',
+  'event PaymentTokenUpdated(address indexed token, bool allowed)',
+  'event MaintenanceFundAdded(uint256 indexed propertyId, uint256 amount)',
+  'event PropertyMetadataUpdated(uint256 indexed propertyId, bytes32 contentHash, string uri)',
+  'event UnitRegistered(uint256 indexed buildingId, uint256 indexed unitId)',
+] as const;
+
+export const RENTFLOW_CORE_FUNCTIONS = [
+  'function paymentTokens(address) view returns (bool)',
+  'function properties(uint256) view returns (address owner, uint256 monthlyRent, uint256 securityDeposit, bool isActive, uint256 createdAt, address paymentToken)',
+  'function leases(uint256) view returns (uint256 propertyId, address tenant, uint256 startDate, uint256 endDate, uint256 rentDueDay, uint256 lastPaymentDate, uint256 totalPaid, uint8 status, uint256 securityDepositHeld, uint256 periodsPaid, uint256 periodCount)',
+  'function leaseLateFees(uint256) view returns (uint256 gracePeriodDays, uint8 feeType, uint256 amount, uint256 cap)',
+  'function getBillingPeriod(uint256 leaseId, uint256 period) view returns (tuple(uint256 dueDate, uint256 amountDue, uint256 amountPaid, uint256 lateFee, bool waived))',
+  'function getRentTiers(uint256 leaseId) view returns (tuple(uint256 fromPeriod, uint256 monthlyRent)[])',
+  'function getArrears(uint256 leaseId) view returns (uint256 balance, uint256 periodsInArrears)',
+  'function quoteRent(uint256 leaseId) view returns (uint256 period, uint256 rentAmount, uint256 lateFee, uint256 dueDate)',
+  'function maintenanceRequests(uint256) view returns (uint256 propertyId, address requestedBy, string description, uint256 estimatedCost, uint256 approvedAmount, address contractor, uint8 status, uint256 createdAt, uint8 category, bytes32 evidenceHash, uint256 disputeDeadline, uint8 rejectionReason)',
+  'function approvalPolicies(uint256) view returns (uint256 autoApprovalLimit, uint256 dailyCap, uint256 monthlyCap, uint256 blockedCategories)',
+  'function getAISpend(uint256 propertyId) view returns (uint256 spentToday, uint256 spentThisMonth)',
+  'function getContractor(address contractor) view returns (tuple(uint256 trades, bytes32[] serviceAreas, bytes32 licenseHash, bytes32 insuranceHash, uint256 jobsCompleted, uint256 totalEarned, uint256 ratingTotal, uint256 ratingCount))',
+  'function isContractorAllowed(uint256 propertyId, address contractor) view returns (bool)',
+  'function maintenanceRatings(uint256) view returns (uint256)',
+  'function getDepositDeductions(uint256 leaseId) view returns (tuple(uint8 category, uint256 amount, bytes32 evidenceHash, uint8 status, uint256 awardedToOwner)[])',
+  'function depositSettlements(uint256) view returns (uint256 disputeDeadline, uint256 pendingItems, uint256 returnedToTenant, bool settled)',
+  'function payoutConfigs(uint256) view returns (uint256 version, uint256 reserveBps, bool pullPayments)',
+  'function getPayoutSplits(uint256 propertyId) view returns (tuple(address recipient, uint256 bps)[])',
+  'function claimablePayouts(address token, address recipient) view returns (uint256)',
+  'function autopayCaps(uint256) view returns (uint256)',
+  'function collectRent(uint256 leaseId)',
+  'function hasRole(bytes32 role, address account) view returns (bool)',
+  'function managerPermissions(uint256 propertyId, address manager) view returns (uint256)',
+  'function canManage(uint256 propertyId, address account, uint256 permission) view returns (bool)',
+  'function propertyMetadataHashes(uint256) view returns (bytes32)',
+  'function unitInfo(uint256) view returns (bool isUnit, uint256 buildingId)',
+  'function unitCounts(uint256) view returns (uint256)',
+  'function tenancyEnds(uint256 propertyId, address tenant) view returns (uint256)',
+  'function getOwnerProperties(address owner) view returns (uint256[])',
+  'function getTenantLeases(address tenant) view returns (uint256[])',
+  'function getOwnerPropertyCount(address owner) view returns (uint256)',
+  'function getTenantLeaseCount(address tenant) view returns (uint256)',
+  'function ownerProperties(address owner, uint256 index) view returns (uint256)',
+  'function tenantLeases(address tenant, uint256 index) view returns (uint256)',
+  'function getMaintenanceFundBalance(uint256 propertyId) view returns (uint256)',
+] as const;
+
+export const RENTFLOW_CORE_ABI = [...RENTFLOW_CORE_EVENTS, ...RENTFLOW_CORE_FUNCTIONS];
+
+const PROPERTY_VIEW =
+  'tuple(uint256 propertyId, tuple(address owner, uint256 monthlyRent, uint256 securityDeposit, bool isActive, uint256 createdAt, address paymentToken) property, bytes32 metadataHash, tuple(bool isUnit, uint256 buildingId) unit, uint256 unitCount, uint256 maintenanceFund)';
+const LEASE_VIEW =
+  'tuple(uint256 leaseId, tuple(uint256 propertyId, address tenant, uint256 startDate, uint256 endDate, uint256 rentDueDay, uint256 lastPaymentDate, uint256 totalPaid, uint8 status, uint256 securityDepositHeld, uint256 periodsPaid, uint256 periodCount) lease, uint256 arrears, uint256 periodsInArrears)';
+const MAINTENANCE_VIEW =
+  'tuple(uint256 requestId, tuple(uint256 propertyId, address requestedBy, string description, uint256 estimatedCost, uint256 approvedAmount, address contractor, uint8 status, uint256 createdAt, uint8 category, bytes32 evidenceHash, uint256 disputeDeadline, uint8 rejectionReason) request)';
+
+/** RentFlowLens: batch and paginated reads of RentFlowCore in one eth_call */
+export const RENTFLOW_LENS_ABI = [
+  'function MAX_PAGE_SIZE() view returns (uint256)',
+  `function getProperties(uint256[] propertyIds) view returns (${PROPERTY_VIEW}[])`,
+  `function getLeases(uint256[] leaseIds) view returns (${LEASE_VIEW}[])`,
+  `function getMaintenanceRequests(uint256[] requestIds) view returns (${MAINTENANCE_VIEW}[])`,
+  'function getOwnerPropertyIds(address owner, uint256 offset, uint256 limit) view returns (uint256[] ids, uint256 total)',
+  'function getTenantLeaseIds(address tenant, uint256 offset, uint256 limit) view returns (uint256[] ids, uint256 total)',
+  `function getOwnerPropertyPage(address owner, uint256 offset, uint256 limit) view returns (${PROPERTY_VIEW}[] page, uint256 total)`,
+  `function getTenantLeasePage(address tenant, uint256 offset, uint256 limit) view returns (${LEASE_VIEW}[] page, uint256 total)`,
+];
+
+/** Payment token metadata, balances and the allowance tenants grant RentFlowCore */
+export const ERC20_ABI = [
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+] as const;
+
+export type RentFlowEventName =
+  | 'PropertyRegistered'
+  | 'LeaseCreated'
+  | 'RentPaid'
+  | 'RentPaymentItemized'
+  | 'RentOverdue'
+  | 'LeasePaused'
+  | 'LeaseResumed'
+  | 'TerminationProposed'
+  | 'LeaseTerminated'
+  | 'RenewalProposed'
+  | 'LeaseRenewed'
+  | 'MaintenanceRequested'
+  | 'MaintenanceApproved'
+  | 'MaintenanceEscalated'
+  | 'ApprovalPolicyUpdated'
+  | 'MaintenanceRejected'
+  | 'MaintenanceAccepted'
+  | 'MaintenanceStarted'
+  | 'MaintenanceWorkSubmitted'
+  | 'MaintenanceDisputed'
+  | 'MaintenanceSignedOff'
+  | 'MaintenancePaid'
+  | 'ContractorRegistered'
+  | 'ContractorAllowlistUpdated'
+  | 'ContractorRated'
+  | 'DepositDeductionItemized'
+  | 'DepositDeductionsProposed'
+  | 'DepositDeductionAccepted'
+  | 'DepositDeductionDisputed'
+  | 'DepositDisputeResolved'
+  | 'SecurityDepositReturned'
+  | 'PayoutSplitsUpdated'
+  | 'PayoutRecipientSet'
+  | 'RentPayout'
+  | 'PayoutClaimed'
+  | 'AutopayEnabled'
+  | 'AutopayDisabled'
+  | 'RoleGranted'
+  | 'RoleRevoked'
+  | 'PropertyManagerUpdated'
+  | 'PaymentTokenUpdated'
+  | 'MaintenanceFundAdded'
+  | 'PropertyMetadataUpdated'
+  | 'UnitRegistered';
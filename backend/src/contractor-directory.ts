@@ -0,0 +1,147 @@
+import { ethers } from 'ethers';
+import { RENTFLOW_CORE_ABI } from './contract-abi';
+import { ContractorCandidate, ContractorSource, categoriesFromMask } from './ai-engine';
+import { IndexedEvent, IndexerStore } from './indexer-store';
+import { ContractorRepository } from './db/repositories';
+
+/**
+ * Contractor Directory
+ *
+ * DECISION: Profiles are read from RentFlowCore; allowlists are replayed
+ *           from ContractorAllowlistUpdated events
+ * REASON: The contract keeps the allowlist as a mapping it cannot
+ *         enumerate, while profiles (areas, ratings, job counts) are
+ *         cheaper to read whole than to rebuild from events
+ */
+
+export interface ContractorProfile extends ContractorCandidate {
+  licenseHash: string | null;
+  insuranceHash: string | null;
+  /** USDC base units paid across completed jobs */
+  totalEarned: bigint;
+}
+
+export interface ContractorProfileSource {
+  /** Returns null for an address that never registered */
+  getProfile(address: string): Promise<ContractorProfile | null>;
+}
+
+interface OnChainContractor {
+  trades: bigint;
+  serviceAreas: string[];
+  licenseHash: string;
+  insuranceHash: string;
+  jobsCompleted: bigint;
+  totalEarned: bigint;
+  ratingTotal: bigint;
+  ratingCount: bigint;
+}
+
+/** Service areas are bytes32-encoded strings, e.g. postcodes; fall back to hex */
+function decodeArea(area: string): string {
+  try {
+    return ethers.decodeBytes32String(area);
+  } catch {
+    return area.toLowerCase();
+  }
+}
+
+const documentHash = (hash: string): string | null => (hash === ethers.ZeroHash ? null : hash.toLowerCase());
+
+export function toContractorProfile(address: string, contractor: OnChainContractor): ContractorProfile | null {
+  if (contractor.trades === 0n) return null;
+
+  const ratingCount = Number(contractor.ratingCount);
+  return {
+    address: address.toLowerCase(),
+    trades: categoriesFromMask(contractor.trades),
+    serviceAreas: contractor.serviceAreas.map(decodeArea),
+    rating: ratingCount === 0 ? null : Number(contractor.ratingTotal) / ratingCount,
+    jobsCompleted: Number(contractor.jobsCompleted),
+    licenseHash: documentHash(contractor.licenseHash),
+    insuranceHash: documentHash(contractor.insuranceHash),
+    totalEarned: contractor.totalEarned,
+  };
+}
+
+export class ContractContractorProfileSource implements ContractorProfileSource {
+  private contract: ethers.Contract;
+
+  constructor(provider: ethers.Provider, contractAddress: string) {
+    this.contract = new ethers.Contract(contractAddress, RENTFLOW_CORE_ABI, provider);
+  }
+
+  async getProfile(address: string): Promise<ContractorProfile | null> {
+    const contractor = (await this.contract.getContractor(address)) as OnChainContractor;
+    return toContractorProfile(address, contractor);
+  }
+}
+
+const PROFILE_EVENTS = new Set<IndexedEvent['name']>(['ContractorRegistered', 'ContractorRated', 'MaintenancePaid']);
+
+export class ContractorDirectory implements ContractorSource {
+  private cache = new Map<string, ContractorProfile | null>();
+
+  constructor(
+    private store: IndexerStore,
+    private profiles: ContractorProfileSource,
+    private contractors?: ContractorRepository
+  ) {}
+
+  async getProfile(address: string): Promise<ContractorProfile | null> {
+    const key = address.toLowerCase();
+    if (this.cache.has(key)) return this.cache.get(key)!;
+    return this.refresh(key);
+  }
+
+  async getAllowedContractors(propertyId: number): Promise<ContractorProfile[]> {
+    const [registered] = await this.store.getEvents({
+      name: 'PropertyRegistered',
+      args: { propertyId: String(propertyId) },
+    });
+    if (!registered) return [];
+
+    const updates = await this.store.getEvents({
+      name: 'ContractorAllowlistUpdated',
+      args: { owner: String(registered.args.owner) },
+    });
+    // Events are in chain order, so the last update for each contractor wins
+    const allowed = new Map<string, boolean>();
+    for (const update of updates) {
+      allowed.set(String(update.args.contractor).toLowerCase(), update.args.allowed === true);
+    }
+
+    const addresses = [...allowed].filter(([, isAllowed]) => isAllowed).map(([address]) => address);
+    const profiles = await Promise.all(addresses.map((address) => this.getProfile(address)));
+    return profiles.filter((profile): profile is ContractorProfile => profile !== null);
+  }
+
+  /** Monitor hook: re-read a contractor whose profile, rating or job count changed */
+  async handleEvent(event: IndexedEvent): Promise<void> {
+    if (!PROFILE_EVENTS.has(event.name)) return;
+    await this.refresh(String(event.args.contractor).toLowerCase());
+  }
+
+  /** Forget cached profiles, e.g. after the indexer rolls back a reorg */
+  invalidate(): void {
+    this.cache.clear();
+  }
+
+  private async refresh(address: string): Promise<ContractorProfile | null> {
+    const profile = await this.profiles.getProfile(address);
+    this.cache.set(address, profile);
+
+    if (profile && this.contractors) {
+      await this.contractors.upsertFromChain({
+        walletAddress: profile.address,
+        trades: profile.trades,
+        serviceAreas: profile.serviceAreas,
+        licenseHash: profile.licenseHash,
+        insuranceHash: profile.insuranceHash,
+        rating: profile.rating,
+        jobsCompleted: profile.jobsCompleted,
+      });
+    }
+    return profile;
+  }
+}
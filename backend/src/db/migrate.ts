@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { config } from '../config';
+import { closePool, getPool } from './pool';
+import { Migrator, loadMigrations, renderSchema } from './migrator';
+
+/**
+ * Database CLI
+ *
+ * USAGE (from backend/):
+ *   npm run db:migrate            apply pending migrations
+ *   npm run db:rollback [-- N]    revert the newest N migrations (default 1)
+ *   npm run db:status             list migrations and whether they are applied
+ *   npm run db:seed               load database/seed.sql
+ *   npm run db:schema             regenerate database/schema.sql
+ */
+
+const resolveFromBackend = (relative: string) => path.resolve(__dirname, '..', '..', relative);
+
+async function main(command: string, arg?: string): Promise<void> {
+  const migrations = await loadMigrations(resolveFromBackend(config.database.migrationsDir));
+
+  switch (command) {
+    case 'up': {
+      const applied = await new Migrator(getPool(), migrations).up();
+      console.log(applied.length ? `✅ Applied: ${applied.join(', ')}` : '✅ Database is up to date');
+      break;
+    }
+    case 'down': {
+      const steps = arg ? parseInt(arg, 10) : 1;
+      if (!Number.isInteger(steps) || steps < 1) throw new Error(`Invalid step count "${arg}"`);
+      const reverted = await new Migrator(getPool(), migrations).down(steps);
+      console.log(reverted.length ? `↩️  Reverted: ${reverted.join(', ')}` : 'Nothing to roll back');
+      break;
+    }
+    case 'status': {
+      for (const m of await new Migrator(getPool(), migrations).status()) {
+        const when = m.appliedAt ? ` (${m.appliedAt.toISOString()})` : '';
+        console.log(`${m.applied ? '✓' : '·'} ${m.version}_${m.name}${when}`);
+      }
+      break;
+    }
+    case 'seed': {
+      const sql = await fs.readFile(resolveFromBackend(config.database.seedFile), 'utf8');
+      await getPool().query(sql);
+      console.log('🌱 Seed data loaded');
+      break;
+    }
+    case 'schema': {
+      const target = resolveFromBackend(config.database.schemaFile);
+      await fs.writeFile(target, renderSchema(migrations));
+      console.log(`📝 Wrote ${path.relative(process.cwd(), target)}`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}" (expected up, down, status, seed or schema)`);
+  }
+}
+
+if (require.main === module) {
+  const [command = 'up', arg] = process.argv.slice(2);
+  main(command, arg)
+    .catch((error) => {
+      console.error('❌', error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    })
+    .finally(() => closePool());
+}
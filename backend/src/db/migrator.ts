@@ -0,0 +1,240 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Queryable } from './pool';
+
+/**
+ * SQL migration runner
+ *
+ * FORMAT: database/migrations/NNN_description.sql, each with a
+ *         "-- migrate:up" section and a "-- migrate:down" section
+ *
+ * GUARANTEES:
+ * 1. Migrations apply in version order, each in its own transaction
+ * 2. Applied versions are recorded in schema_migrations and never re-run
+ * 3. Editing an applied migration is detected via its checksum
+ * 4. A Postgres advisory lock keeps two runners from racing
+ */
+
+const UP_MARKER = '-- migrate:up';
+const DOWN_MARKER = '-- migrate:down';
+const FILENAME_PATTERN = /^(\d{3,})_([a-z0-9_]+)\.sql$/;
+const ADVISORY_LOCK_KEY = 4815162342;
+
+export interface Migration {
+  version: string;
+  name: string;
+  filename: string;
+  up: string;
+  down: string;
+  checksum: string;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  applied: boolean;
+  appliedAt?: Date;
+}
+
+export interface MigrationConnection extends Queryable {
+  release(): void;
+}
+
+export interface MigrationPool {
+  connect(): Promise<MigrationConnection>;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export function parseMigration(filename: string, contents: string): Migration {
+  const match = FILENAME_PATTERN.exec(filename);
+  if (!match) {
+    throw new MigrationError(`Invalid migration filename "${filename}" (expected NNN_description.sql)`);
+  }
+
+  const upIndex = contents.indexOf(UP_MARKER);
+  const downIndex = contents.indexOf(DOWN_MARKER);
+  if (upIndex === -1 || downIndex === -1 || downIndex < upIndex) {
+    throw new MigrationError(`${filename} must contain "${UP_MARKER}" followed by "${DOWN_MARKER}"`);
+  }
+
+  const up = contents.slice(upIndex + UP_MARKER.length, downIndex).trim();
+  if (!up) throw new MigrationError(`${filename} has an empty up section`);
+
+  return {
+    version: match[1],
+    name: match[2],
+    filename,
+    up,
+    down: contents.slice(downIndex + DOWN_MARKER.length).trim(),
+    checksum: createHash('sha256').update(contents).digest('hex'),
+  };
+}
+
+export async function loadMigrations(dir: string): Promise<Migration[]> {
+  const files = (await fs.readdir(dir)).filter((file) => file.endsWith('.sql')).sort();
+  const migrations = await Promise.all(
+    files.map(async (file) => parseMigration(file, await fs.readFile(path.join(dir, file), 'utf8')))
+  );
+
+  const seen = new Set<string>();
+  for (const migration of migrations) {
+    if (seen.has(migration.version)) {
+      throw new MigrationError(`Duplicate migration version ${migration.version}`);
+    }
+    seen.add(migration.version);
+  }
+
+  return migrations;
+}
+
+/** Concatenate every up section into a readable schema snapshot */
+export function renderSchema(migrations: Migration[]): string {
+  const header = [
+    '-- RentFlow AI - Database Schema (snapshot)',
+    '--',
+    '-- Current state of every migration in database/migrations/, for reading',
+    '-- and for bootstrapping a throwaway database with `psql -f`.',
+    '-- Generated by `npm run db:schema` in backend/ - do not edit by hand.',
+    '-- Apply real changes with `npm run db:migrate`.',
+    '',
+  ].join('\n');
+
+  const sections = migrations.map((m) => `\n-- ============ ${m.filename} ============\n\n${m.up}\n`);
+  return header + sections.join('');
+}
+
+interface AppliedRow {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export class Migrator {
+  constructor(
+    private pool: MigrationPool,
+    private migrations: Migration[]
+  ) {}
+
+  async status(): Promise<MigrationStatus[]> {
+    return this.withLock(async (conn) => {
+      const applied = await this.appliedVersions(conn);
+      return this.migrations.map((m) => ({
+        version: m.version,
+        name: m.name,
+        applied: applied.has(m.version),
+        appliedAt: applied.get(m.version)?.applied_at,
+      }));
+    });
+  }
+
+  /** Apply every pending migration; returns the versions applied */
+  async up(): Promise<string[]> {
+    return this.withLock(async (conn) => {
+      const applied = await this.appliedVersions(conn);
+      this.verify(applied);
+
+      const done: string[] = [];
+      for (const migration of this.migrations) {
+        if (applied.has(migration.version)) continue;
+
+        await this.inTransaction(conn, async () => {
+          await conn.query(migration.up);
+          await conn.query('INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)', [
+            migration.version,
+            migration.name,
+            migration.checksum,
+          ]);
+        });
+        done.push(migration.version);
+      }
+      return done;
+    });
+  }
+
+  /** Roll back the newest `steps` applied migrations; returns the versions reverted */
+  async down(steps = 1): Promise<string[]> {
+    return this.withLock(async (conn) => {
+      const applied = await this.appliedVersions(conn);
+      this.verify(applied);
+
+      const targets = this.migrations
+        .filter((m) => applied.has(m.version))
+        .reverse()
+        .slice(0, steps);
+
+      const done: string[] = [];
+      for (const migration of targets) {
+        await this.inTransaction(conn, async () => {
+          if (migration.down) await conn.query(migration.down);
+          await conn.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+        });
+        done.push(migration.version);
+      }
+      return done;
+    });
+  }
+
+  private verify(applied: Map<string, AppliedRow>): void {
+    const known = new Map(this.migrations.map((m) => [m.version, m]));
+
+    for (const row of applied.values()) {
+      const migration = known.get(row.version);
+      if (!migration) {
+        throw new MigrationError(`Applied migration ${row.version}_${row.name} is missing from the migrations directory`);
+      }
+      if (migration.checksum !== row.checksum) {
+        throw new MigrationError(
+          `Migration ${migration.filename} was modified after being applied; add a new migration instead`
+        );
+      }
+    }
+  }
+
+  private async appliedVersions(conn: Queryable): Promise<Map<string, AppliedRow>> {
+    await conn.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version     TEXT PRIMARY KEY,
+        name        TEXT NOT NULL,
+        checksum    TEXT NOT NULL,
+        applied_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    const result = await conn.query<AppliedRow>(
+      'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+    );
+    return new Map(result.rows.map((row) => [row.version, row]));
+  }
+
+  private async inTransaction(conn: Queryable, work: () => Promise<void>): Promise<void> {
+    await conn.query('BEGIN');
+    try {
+      await work();
+      await conn.query('COMMIT');
+    } catch (error) {
+      await conn.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private async withLock<T>(work: (conn: MigrationConnection) => Promise<T>): Promise<T> {
+    const conn = await this.pool.connect();
+    try {
+      await conn.query('SELECT pg_advisory_lock($1)', [ADVISORY_LOCK_KEY]);
+      try {
+        return await work(conn);
+      } finally {
+        await conn.query('SELECT pg_advisory_unlock($1)', [ADVISORY_LOCK_KEY]);
+      }
+    } finally {
+      conn.release();
+    }
+  }
+}
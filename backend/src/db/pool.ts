@@ -0,0 +1,49 @@
+import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
+import { config } from '../config';
+
+/**
+ * PostgreSQL connection handling
+ *
+ * DECISION: Repositories depend on the small Queryable interface, not on Pool
+ * REASON: The same repository works on the pool, inside a transaction
+ *         client, or against a fake in tests
+ */
+
+export interface Queryable {
+  query<R extends QueryResultRow = QueryResultRow>(text: string, values?: unknown[]): Promise<QueryResult<R>>;
+}
+
+let sharedPool: Pool | undefined;
+
+export function getPool(): Pool {
+  if (!sharedPool) {
+    if (!config.database.url) {
+      throw new Error('DATABASE_URL is not configured');
+    }
+    sharedPool = new Pool({ connectionString: config.database.url, max: 10 });
+  }
+  return sharedPool;
+}
+
+export async function closePool(): Promise<void> {
+  await sharedPool?.end();
+  sharedPool = undefined;
+}
+
+/**
+ * Run `work` inside BEGIN/COMMIT, rolling back on any error.
+ */
+export async function withTransaction<T>(pool: Pool, work: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
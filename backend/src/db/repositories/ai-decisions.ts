@@ -0,0 +1,76 @@
+import { Queryable } from '../pool';
+import { MaintenanceDecision } from '../../ai-engine';
+
+export interface AIDecisionRecord extends MaintenanceDecision {
+  id: number;
+  maintenanceRequestId: number | null;
+  propertyId: number;
+  provider: string;
+  createdAt: Date;
+}
+
+interface AIDecisionRow {
+  id: string;
+  maintenance_request_id: string | null;
+  property_id: string;
+  decision: MaintenanceDecision['decision'];
+  reasoning: string;
+  confidence: number;
+  approved_amount: string;
+  urgency: MaintenanceDecision['urgency'];
+  category: MaintenanceDecision['category'];
+  provider: string;
+  created_at: Date;
+}
+
+const toRecord = (row: AIDecisionRow): AIDecisionRecord => ({
+  id: Number(row.id),
+  maintenanceRequestId: row.maintenance_request_id === null ? null : Number(row.maintenance_request_id),
+  propertyId: Number(row.property_id),
+  decision: row.decision,
+  reasoning: row.reasoning,
+  confidence: row.confidence,
+  approvedAmount: Number(row.approved_amount),
+  urgency: row.urgency,
+  category: row.category,
+  provider: row.provider,
+  createdAt: row.created_at,
+});
+
+export class AIDecisionRepository {
+  constructor(private db: Queryable) {}
+
+  async record(
+    propertyId: number,
+    maintenanceRequestId: number | null,
+    decision: MaintenanceDecision,
+    provider = 'rules'
+  ): Promise<number> {
+    const result = await this.db.query<{ id: string }>(
+      `INSERT INTO ai_decisions
+         (maintenance_request_id, property_id, decision, reasoning, confidence, approved_amount, urgency, category, provider)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING id`,
+      [
+        maintenanceRequestId,
+        propertyId,
+        decision.decision,
+        decision.reasoning,
+        decision.confidence,
+        decision.approvedAmount,
+        decision.urgency,
+        decision.category,
+        provider,
+      ]
+    );
+    return Number(result.rows[0].id);
+  }
+
+  async listByRequest(maintenanceRequestId: number): Promise<AIDecisionRecord[]> {
+    const result = await this.db.query<AIDecisionRow>(
+      'SELECT * FROM ai_decisions WHERE maintenance_request_id = $1 ORDER BY created_at DESC',
+      [maintenanceRequestId]
+    );
+    return result.rows.map(toRecord);
+  }
+}
@@ -0,0 +1,106 @@
+import { Queryable } from '../pool';
+
+export interface ContractorRecord {
+  id: number;
+  walletAddress: string;
+  name: string;
+  trades: string[];
+  serviceAreas: string[];
+  licenseHash: string | null;
+  insuranceHash: string | null;
+  rating: number | null;
+  jobsCompleted: number;
+  isActive: boolean;
+}
+
+interface ContractorRow {
+  id: string;
+  wallet_address: string;
+  name: string;
+  trades: string[];
+  service_areas: string[];
+  license_hash: string | null;
+  insurance_hash: string | null;
+  rating: string | null;
+  jobs_completed: number;
+  is_active: boolean;
+}
+
+const toRecord = (row: ContractorRow): ContractorRecord => ({
+  id: Number(row.id),
+  walletAddress: row.wallet_address,
+  name: row.name,
+  trades: row.trades,
+  serviceAreas: row.service_areas,
+  licenseHash: row.license_hash,
+  insuranceHash: row.insurance_hash,
+  rating: row.rating === null ? null : Number(row.rating),
+  jobsCompleted: row.jobs_completed,
+  isActive: row.is_active,
+});
+
+export class ContractorRepository {
+  constructor(private db: Queryable) {}
+
+  async findByWallet(walletAddress: string): Promise<ContractorRecord | null> {
+    const result = await this.db.query<ContractorRow>('SELECT * FROM contractors WHERE wallet_address = $1', [
+      walletAddress.toLowerCase(),
+    ]);
+    return result.rows[0] ? toRecord(result.rows[0]) : null;
+  }
+
+  /** Active contractors for a trade, best rated first */
+  async listByTrade(trade: string, serviceArea?: string): Promise<ContractorRecord[]> {
+    const result = serviceArea
+      ? await this.db.query<ContractorRow>(
+          `SELECT * FROM contractors
+           WHERE is_active AND $1 = ANY(trades) AND $2 = ANY(service_areas)
+           ORDER BY rating DESC NULLS LAST, jobs_completed DESC`,
+          [trade, serviceArea]
+        )
+      : await this.db.query<ContractorRow>(
+          `SELECT * FROM contractors
+           WHERE is_active AND $1 = ANY(trades)
+           ORDER BY rating DESC NULLS LAST, jobs_completed DESC`,
+          [trade]
+        );
+    return result.rows.map(toRecord);
+  }
+
+  /**
+   * Mirror a registry profile from RentFlowCore. New rows are named after
+   * the wallet until the contractor sets a display name off-chain.
+   */
+  async upsertFromChain(profile: {
+    walletAddress: string;
+    trades: string[];
+    serviceAreas: string[];
+    licenseHash: string | null;
+    insuranceHash: string | null;
+    rating: number | null;
+    jobsCompleted: number;
+  }): Promise<void> {
+    const walletAddress = profile.walletAddress.toLowerCase();
+    await this.db.query(
+      `INSERT INTO contractors
+         (wallet_address, name, trades, service_areas, license_hash, insurance_hash, rating, jobs_completed)
+       VALUES ($1, $1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (wallet_address) DO UPDATE SET
+         trades = EXCLUDED.trades,
+         service_areas = EXCLUDED.service_areas,
+         license_hash = EXCLUDED.license_hash,
+         insurance_hash = EXCLUDED.insurance_hash,
+         rating = EXCLUDED.rating,
+         jobs_completed = EXCLUDED.jobs_completed`,
+      [
+        walletAddress,
+        profile.trades,
+        profile.serviceAreas,
+        profile.licenseHash,
+        profile.insuranceHash,
+        profile.rating === null ? null : profile.rating.toFixed(2),
+        profile.jobsCompleted,
+      ]
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { Queryable } from '../pool';
+import { AIDecisionRepository } from './ai-decisions';
+import { ContractorRepository } from './contractors';
+import { LeaseRepository } from './leases';
+import { MaintenanceRequestRepository } from './maintenance-requests';
+import { PropertyRepository } from './properties';
+import { PropertyCatalogRepository } from './property-catalog';
+import { RentPaymentRepository } from './rent-payments';
+import { TenantNoticeRepository } from './tenant-notices';
+import { TenantProfileRepository } from './tenant-profiles';
+
+export * from './ai-decisions';
+export * from './contractors';
+export * from './leases';
+export * from './maintenance-requests';
+export * from './properties';
+export * from './property-catalog';
+export * from './rent-payments';
+export * from './tenant-notices';
+export * from './tenant-profiles';
+
+export interface Repositories {
+  properties: PropertyRepository;
+  tenantProfiles: TenantProfileRepository;
+  leases: LeaseRepository;
+  rentPayments: RentPaymentRepository;
+  maintenanceRequests: MaintenanceRequestRepository;
+  aiDecisions: AIDecisionRepository;
+  contractors: ContractorRepository;
+  tenantNotices: TenantNoticeRepository;
+  propertyCatalog: PropertyCatalogRepository;
+}
+
+/** Build every repository on one connection (pool or transaction client) */
+export function createRepositories(db: Queryable): Repositories {
+  return {
+    properties: new PropertyRepository(db),
+    tenantProfiles: new TenantProfileRepository(db),
+    leases: new LeaseRepository(db),
+    rentPayments: new RentPaymentRepository(db),
+    maintenanceRequests: new MaintenanceRequestRepository(db),
+    aiDecisions: new AIDecisionRepository(db),
+    contractors: new ContractorRepository(db),
+    tenantNotices: new TenantNoticeRepository(db),
+    propertyCatalog: new PropertyCatalogRepository(db),
+  };
+}
@@ -0,0 +1,123 @@
+import { Queryable } from '../pool';
+
+export type LeaseStatus = 'active' | 'paused' | 'terminated' | 'completed';
+
+export interface LeaseRecord {
+  id: number;
+  propertyId: number;
+  tenantAddress: string;
+  startDate: Date;
+  endDate: Date;
+  rentDueDay: number;
+  status: LeaseStatus;
+  /** USDC base units as decimal strings */
+  securityDepositHeld: string;
+  totalPaid: string;
+  lastPaymentAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface LeaseRow {
+  id: string;
+  property_id: string;
+  tenant_address: string;
+  start_date: Date;
+  end_date: Date;
+  rent_due_day: number;
+  status: LeaseStatus;
+  security_deposit_held: string;
+  total_paid: string;
+  last_payment_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const toRecord = (row: LeaseRow): LeaseRecord => ({
+  id: Number(row.id),
+  propertyId: Number(row.property_id),
+  tenantAddress: row.tenant_address,
+  startDate: row.start_date,
+  endDate: row.end_date,
+  rentDueDay: row.rent_due_day,
+  status: row.status,
+  securityDepositHeld: row.security_deposit_held,
+  totalPaid: row.total_paid,
+  lastPaymentAt: row.last_payment_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export class LeaseRepository {
+  constructor(private db: Queryable) {}
+
+  async findById(id: number): Promise<LeaseRecord | null> {
+    const result = await this.db.query<LeaseRow>('SELECT * FROM leases WHERE id = $1', [id]);
+    return result.rows[0] ? toRecord(result.rows[0]) : null;
+  }
+
+  async listByTenant(tenantAddress: string): Promise<LeaseRecord[]> {
+    const result = await this.db.query<LeaseRow>(
+      'SELECT * FROM leases WHERE tenant_address = $1 ORDER BY start_date DESC',
+      [tenantAddress.toLowerCase()]
+    );
+    return result.rows.map(toRecord);
+  }
+
+  async listByProperty(propertyId: number): Promise<LeaseRecord[]> {
+    const result = await this.db.query<LeaseRow>(
+      'SELECT * FROM leases WHERE property_id = $1 ORDER BY start_date DESC',
+      [propertyId]
+    );
+    return result.rows.map(toRecord);
+  }
+
+  async listActive(): Promise<LeaseRecord[]> {
+    const result = await this.db.query<LeaseRow>("SELECT * FROM leases WHERE status = 'active' ORDER BY id");
+    return result.rows.map(toRecord);
+  }
+
+  async upsertFromChain(lease: {
+    id: number;
+    propertyId: number;
+    tenantAddress: string;
+    startDate: Date;
+    endDate: Date;
+    rentDueDay: number;
+    securityDepositHeld: string;
+  }): Promise<void> {
+    await this.db.query(
+      `INSERT INTO leases (id, property_id, tenant_address, start_date, end_date, rent_due_day, security_deposit_held)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (id) DO UPDATE SET
+         start_date = EXCLUDED.start_date,
+         end_date = EXCLUDED.end_date,
+         rent_due_day = EXCLUDED.rent_due_day,
+         security_deposit_held = EXCLUDED.security_deposit_held`,
+      [
+        lease.id,
+        lease.propertyId,
+        lease.tenantAddress.toLowerCase(),
+        lease.startDate,
+        lease.endDate,
+        lease.rentDueDay,
+        lease.securityDepositHeld,
+      ]
+    );
+  }
+
+  async updateStatus(id: number, status: LeaseStatus): Promise<void> {
+    await this.db.query('UPDATE leases SET status = $2 WHERE id = $1', [id, status]);
+  }
+
+  /** Recompute the denormalized payment totals from rent_payments */
+  async refreshPaymentTotals(id: number): Promise<void> {
+    await this.db.query(
+      `UPDATE leases SET
+         total_paid = COALESCE((SELECT SUM(amount) FROM rent_payments WHERE lease_id = $1), 0),
+         last_payment_at = (SELECT MAX(paid_at) FROM rent_payments WHERE lease_id = $1)
+       WHERE id = $1`,
+      [id]
+    );
+  }
+}
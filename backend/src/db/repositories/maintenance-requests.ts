@@ -0,0 +1,174 @@
+import { Queryable } from '../pool';
+import { MaintenanceCategory, Urgency } from '../../ai-engine';
+
+export type MaintenanceStatus =
+  | 'pending'
+  | 'awaiting_owner_approval'
+  | 'approved'
+  | 'accepted'
+  | 'in_progress'
+  | 'work_submitted'
+  | 'disputed'
+  | 'completed'
+  | 'rejected';
+
+export type RejectionReason =
+  | 'not_covered'
+  | 'duplicate'
+  | 'tenant_responsibility'
+  | 'not_essential'
+  | 'work_unsatisfactory'
+  | 'other';
+
+export interface MaintenanceRequestRecord {
+  id: number;
+  propertyId: number;
+  requestedBy: string;
+  description: string;
+  category: MaintenanceCategory | null;
+  urgency: Urgency | null;
+  /** USDC base units as decimal strings */
+  estimatedCost: string;
+  approvedAmount: string;
+  contractorAddress: string | null;
+  status: MaintenanceStatus;
+  rejectionReason: RejectionReason | null;
+  /** bytes32 digest of the contractor's completion evidence */
+  evidenceHash: string | null;
+  disputeDeadline: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface MaintenanceRequestRow {
+  id: string;
+  property_id: string;
+  requested_by: string;
+  description: string;
+  category: MaintenanceCategory | null;
+  urgency: Urgency | null;
+  estimated_cost: string;
+  approved_amount: string;
+  contractor_address: string | null;
+  status: MaintenanceStatus;
+  rejection_reason: RejectionReason | null;
+  evidence_hash: string | null;
+  dispute_deadline: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const toRecord = (row: MaintenanceRequestRow): MaintenanceRequestRecord => ({
+  id: Number(row.id),
+  propertyId: Number(row.property_id),
+  requestedBy: row.requested_by,
+  description: row.description,
+  category: row.category,
+  urgency: row.urgency,
+  estimatedCost: row.estimated_cost,
+  approvedAmount: row.approved_amount,
+  contractorAddress: row.contractor_address,
+  status: row.status,
+  rejectionReason: row.rejection_reason,
+  evidenceHash: row.evidence_hash,
+  disputeDeadline: row.dispute_deadline,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export class MaintenanceRequestRepository {
+  constructor(private db: Queryable) {}
+
+  async findById(id: number): Promise<MaintenanceRequestRecord | null> {
+    const result = await this.db.query<MaintenanceRequestRow>('SELECT * FROM maintenance_requests WHERE id = $1', [id]);
+    return result.rows[0] ? toRecord(result.rows[0]) : null;
+  }
+
+  async listByProperty(propertyId: number, status?: MaintenanceStatus): Promise<MaintenanceRequestRecord[]> {
+    const result = status
+      ? await this.db.query<MaintenanceRequestRow>(
+          'SELECT * FROM maintenance_requests WHERE property_id = $1 AND status = $2 ORDER BY created_at DESC',
+          [propertyId, status]
+        )
+      : await this.db.query<MaintenanceRequestRow>(
+          'SELECT * FROM maintenance_requests WHERE property_id = $1 ORDER BY created_at DESC',
+          [propertyId]
+        );
+    return result.rows.map(toRecord);
+  }
+
+  async upsertFromChain(request: {
+    id: number;
+    propertyId: number;
+    requestedBy: string;
+    description: string;
+    estimatedCost: string;
+    createdAt: Date;
+  }): Promise<void> {
+    await this.db.query(
+      `INSERT INTO maintenance_requests (id, property_id, requested_by, description, estimated_cost, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (id) DO NOTHING`,
+      [
+        request.id,
+        request.propertyId,
+        request.requestedBy.toLowerCase(),
+        request.description,
+        request.estimatedCost,
+        request.createdAt,
+      ]
+    );
+  }
+
+  async classify(id: number, category: MaintenanceCategory, urgency: Urgency): Promise<void> {
+    await this.db.query('UPDATE maintenance_requests SET category = $2, urgency = $3 WHERE id = $1', [
+      id,
+      category,
+      urgency,
+    ]);
+  }
+
+  async updateStatus(
+    id: number,
+    status: MaintenanceStatus,
+    approval?: { approvedAmount: string; contractorAddress: string }
+  ): Promise<void> {
+    if (approval) {
+      await this.db.query(
+        'UPDATE maintenance_requests SET status = $2, approved_amount = $3, contractor_address = $4 WHERE id = $1',
+        [id, status, approval.approvedAmount, approval.contractorAddress.toLowerCase()]
+      );
+    } else {
+      await this.db.query('UPDATE maintenance_requests SET status = $2 WHERE id = $1', [id, status]);
+    }
+  }
+
+  /** Mirror the on-chain workflow state; rows not yet imported are left alone */
+  async syncWorkflow(
+    id: number,
+    state: {
+      status: MaintenanceStatus;
+      approvedAmount: string;
+      contractorAddress: string | null;
+      rejectionReason: RejectionReason | null;
+      evidenceHash: string | null;
+      disputeDeadline: Date | null;
+    }
+  ): Promise<void> {
+    await this.db.query(
+      `UPDATE maintenance_requests
+       SET status = $2, approved_amount = $3, contractor_address = $4,
+           rejection_reason = $5, evidence_hash = $6, dispute_deadline = $7
+       WHERE id = $1`,
+      [
+        id,
+        state.status,
+        state.approvedAmount,
+        state.contractorAddress?.toLowerCase() ?? null,
+        state.rejectionReason,
+        state.evidenceHash?.toLowerCase() ?? null,
+        state.disputeDeadline,
+      ]
+    );
+  }
+}
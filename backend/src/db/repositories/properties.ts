@@ -0,0 +1,97 @@
+import { Queryable } from '../pool';
+
+export interface PropertyRecord {
+  id: number;
+  ownerAddress: string;
+  /** Payment token base units as a decimal string */
+  monthlyRent: string;
+  securityDeposit: string;
+  /** Null for rows synced before properties chose their token */
+  paymentToken: string | null;
+  isActive: boolean;
+  addressLine: string | null;
+  city: string | null;
+  unitType: string | null;
+  bedrooms: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PropertyRow {
+  id: string;
+  owner_address: string;
+  monthly_rent: string;
+  security_deposit: string;
+  payment_token: string | null;
+  is_active: boolean;
+  address_line: string | null;
+  city: string | null;
+  unit_type: string | null;
+  bedrooms: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const toRecord = (row: PropertyRow): PropertyRecord => ({
+  id: Number(row.id),
+  ownerAddress: row.owner_address,
+  monthlyRent: row.monthly_rent,
+  securityDeposit: row.security_deposit,
+  paymentToken: row.payment_token,
+  isActive: row.is_active,
+  addressLine: row.address_line,
+  city: row.city,
+  unitType: row.unit_type,
+  bedrooms: row.bedrooms,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export class PropertyRepository {
+  constructor(private db: Queryable) {}
+
+  async findById(id: number): Promise<PropertyRecord | null> {
+    const result = await this.db.query<PropertyRow>('SELECT * FROM properties WHERE id = $1', [id]);
+    return result.rows[0] ? toRecord(result.rows[0]) : null;
+  }
+
+  async listByOwner(ownerAddress: string): Promise<PropertyRecord[]> {
+    const result = await this.db.query<PropertyRow>(
+      'SELECT * FROM properties WHERE owner_address = $1 ORDER BY id',
+      [ownerAddress.toLowerCase()]
+    );
+    return result.rows.map(toRecord);
+  }
+
+  /** Insert or refresh the on-chain fields from a PropertyRegistered event */
+  async upsertFromChain(property: {
+    id: number;
+    ownerAddress: string;
+    monthlyRent: string;
+    securityDeposit: string;
+    paymentToken: string;
+    createdAt: Date;
+  }): Promise<void> {
+    await this.db.query(
+      `INSERT INTO properties (id, owner_address, monthly_rent, security_deposit, payment_token, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (id) DO UPDATE SET
+         owner_address = EXCLUDED.owner_address,
+         monthly_rent = EXCLUDED.monthly_rent,
+         security_deposit = EXCLUDED.security_deposit,
+         payment_token = EXCLUDED.payment_token`,
+      [
+        property.id,
+        property.ownerAddress.toLowerCase(),
+        property.monthlyRent,
+        property.securityDeposit,
+        property.paymentToken.toLowerCase(),
+        property.createdAt,
+      ]
+    );
+  }
+
+  async setActive(id: number, isActive: boolean): Promise<void> {
+    await this.db.query('UPDATE properties SET is_active = $2 WHERE id = $1', [id, isActive]);
+  }
+}
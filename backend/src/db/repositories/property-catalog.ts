@@ -0,0 +1,42 @@
+import { Queryable } from '../pool';
+
+export interface CatalogEntryRecord {
+  contentHash: string;
+  /** The entry as submitted; its canonical JSON hashes to `contentHash` */
+  entry: unknown;
+  createdAt: Date;
+}
+
+interface CatalogEntryRow {
+  content_hash: string;
+  entry: unknown;
+  created_at: Date;
+}
+
+const toRecord = (row: CatalogEntryRow): CatalogEntryRecord => ({
+  contentHash: row.content_hash,
+  entry: row.entry,
+  createdAt: row.created_at,
+});
+
+export class PropertyCatalogRepository {
+  constructor(private db: Queryable) {}
+
+  async findByHash(contentHash: string): Promise<CatalogEntryRecord | null> {
+    const result = await this.db.query<CatalogEntryRow>(
+      'SELECT * FROM property_catalog_entries WHERE content_hash = $1',
+      [contentHash.toLowerCase()]
+    );
+    return result.rows[0] ? toRecord(result.rows[0]) : null;
+  }
+
+  /** Entries are content-addressed, so saving the same entry twice is a no-op */
+  async save(contentHash: string, entry: unknown): Promise<void> {
+    await this.db.query(
+      `INSERT INTO property_catalog_entries (content_hash, entry)
+       VALUES ($1, $2)
+       ON CONFLICT (content_hash) DO NOTHING`,
+      [contentHash.toLowerCase(), JSON.stringify(entry)]
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { Queryable } from '../pool';
+
+export interface RentPaymentRecord {
+  id: number;
+  leaseId: number;
+  /** USDC base units as a decimal string */
+  amount: string;
+  paidAt: Date;
+  dueDate: Date | null;
+  daysLate: number;
+  txHash: string | null;
+  logIndex: number | null;
+  blockNumber: number | null;
+}
+
+interface RentPaymentRow {
+  id: string;
+  lease_id: string;
+  amount: string;
+  paid_at: Date;
+  due_date: Date | null;
+  days_late: number;
+  tx_hash: string | null;
+  log_index: number | null;
+  block_number: string | null;
+}
+
+const toRecord = (row: RentPaymentRow): RentPaymentRecord => ({
+  id: Number(row.id),
+  leaseId: Number(row.lease_id),
+  amount: row.amount,
+  paidAt: row.paid_at,
+  dueDate: row.due_date,
+  daysLate: row.days_late,
+  txHash: row.tx_hash,
+  logIndex: row.log_index,
+  blockNumber: row.block_number === null ? null : Number(row.block_number),
+});
+
+export type NewRentPayment = Omit<RentPaymentRecord, 'id'>;
+
+export class RentPaymentRepository {
+  constructor(private db: Queryable) {}
+
+  /** Idempotent on (tx_hash, log_index) so re-indexing never double counts */
+  async insert(payment: NewRentPayment): Promise<boolean> {
+    const result = await this.db.query(
+      `INSERT INTO rent_payments (lease_id, amount, paid_at, due_date, days_late, tx_hash, log_index, block_number)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (tx_hash, log_index) DO NOTHING`,
+      [
+        payment.leaseId,
+        payment.amount,
+        payment.paidAt,
+        payment.dueDate,
+        payment.daysLate,
+        payment.txHash,
+        payment.logIndex,
+        payment.blockNumber,
+      ]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async listByLease(leaseId: number): Promise<RentPaymentRecord[]> {
+    const result = await this.db.query<RentPaymentRow>(
+      'SELECT * FROM rent_payments WHERE lease_id = $1 ORDER BY paid_at',
+      [leaseId]
+    );
+    return result.rows.map(toRecord);
+  }
+
+  async listByTenant(tenantAddress: string): Promise<RentPaymentRecord[]> {
+    const result = await this.db.query<RentPaymentRow>(
+      `SELECT r.* FROM rent_payments r
+       JOIN leases l ON l.id = r.lease_id
+       WHERE l.tenant_address = $1
+       ORDER BY r.paid_at`,
+      [tenantAddress.toLowerCase()]
+    );
+    return result.rows.map(toRecord);
+  }
+
+  /** Remove payments from blocks orphaned by a reorg */
+  async deleteAboveBlock(blockNumber: number): Promise<number> {
+    const result = await this.db.query('DELETE FROM rent_payments WHERE block_number > $1', [blockNumber]);
+    return result.rowCount ?? 0;
+  }
+}
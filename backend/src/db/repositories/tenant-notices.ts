@@ -0,0 +1,83 @@
+import { Queryable } from '../pool';
+
+export type TenantNoticeKind = 'autopay_failed';
+
+export interface NewTenantNotice {
+  tenantAddress: string;
+  leaseId: number;
+  /** Billing period the notice is about */
+  period: number;
+  kind: TenantNoticeKind;
+  reason: string;
+  message: string;
+}
+
+export interface TenantNoticeRecord extends NewTenantNotice {
+  id: number;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+interface TenantNoticeRow {
+  id: string;
+  tenant_address: string;
+  lease_id: string;
+  period: number;
+  kind: TenantNoticeKind;
+  reason: string;
+  message: string;
+  read_at: Date | null;
+  created_at: Date;
+}
+
+const toRecord = (row: TenantNoticeRow): TenantNoticeRecord => ({
+  id: Number(row.id),
+  tenantAddress: row.tenant_address,
+  leaseId: Number(row.lease_id),
+  period: row.period,
+  kind: row.kind,
+  reason: row.reason,
+  message: row.message,
+  readAt: row.read_at,
+  createdAt: row.created_at,
+});
+
+export class TenantNoticeRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Store a notice once per lease, period, kind and reason
+   * @returns false when the same notice was already recorded
+   */
+  async record(notice: NewTenantNotice): Promise<boolean> {
+    const result = await this.db.query(
+      `INSERT INTO tenant_notices (tenant_address, lease_id, period, kind, reason, message)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (lease_id, period, kind, reason) DO NOTHING`,
+      [
+        notice.tenantAddress.toLowerCase(),
+        notice.leaseId,
+        notice.period,
+        notice.kind,
+        notice.reason,
+        notice.message,
+      ]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /** Newest first */
+  async listByTenant(tenantAddress: string, unreadOnly = false): Promise<TenantNoticeRecord[]> {
+    const result = await this.db.query<TenantNoticeRow>(
+      `SELECT * FROM tenant_notices
+       WHERE tenant_address = $1 AND (NOT $2 OR read_at IS NULL)
+       ORDER BY created_at DESC`,
+      [tenantAddress.toLowerCase(), unreadOnly]
+    );
+    return result.rows.map(toRecord);
+  }
+
+  async markRead(id: number): Promise<void> {
+    await this.db.query('UPDATE tenant_notices SET read_at = NOW() WHERE id = $1 AND read_at IS NULL', [id]);
+  }
+}
@@ -0,0 +1,84 @@
+import { Queryable } from '../pool';
+
+export interface TenantProfileRecord {
+  address: string;
+  displayName: string | null;
+  email: string | null;
+  phone: string | null;
+  paymentHistoryScore: number;
+  onTimePayments: number;
+  latePayments: number;
+  /** Factors, and totals per payment token: amounts in different tokens do not add up to one column */
+  scoreBreakdown: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface TenantProfileRow {
+  address: string;
+  display_name: string | null;
+  email: string | null;
+  phone: string | null;
+  payment_history_score: number;
+  on_time_payments: number;
+  late_payments: number;
+  score_breakdown: Record<string, unknown>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const toRecord = (row: TenantProfileRow): TenantProfileRecord => ({
+  address: row.address,
+  displayName: row.display_name,
+  email: row.email,
+  phone: row.phone,
+  paymentHistoryScore: row.payment_history_score,
+  onTimePayments: row.on_time_payments,
+  latePayments: row.late_payments,
+  scoreBreakdown: row.score_breakdown,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export interface TenantScoreUpdate {
+  paymentHistoryScore: number;
+  onTimePayments: number;
+  latePayments: number;
+  scoreBreakdown: Record<string, unknown>;
+}
+
+export class TenantProfileRepository {
+  constructor(private db: Queryable) {}
+
+  async findByAddress(address: string): Promise<TenantProfileRecord | null> {
+    const result = await this.db.query<TenantProfileRow>('SELECT * FROM tenant_profiles WHERE address = $1', [
+      address.toLowerCase(),
+    ]);
+    return result.rows[0] ? toRecord(result.rows[0]) : null;
+  }
+
+  /** Create an empty profile the first time a wallet signs a lease */
+  async ensure(address: string): Promise<void> {
+    await this.db.query('INSERT INTO tenant_profiles (address) VALUES ($1) ON CONFLICT (address) DO NOTHING', [
+      address.toLowerCase(),
+    ]);
+  }
+
+  async updateScore(address: string, update: TenantScoreUpdate): Promise<void> {
+    await this.db.query(
+      `UPDATE tenant_profiles SET
+         payment_history_score = $2,
+         on_time_payments = $3,
+         late_payments = $4,
+         score_breakdown = $5
+       WHERE address = $1`,
+      [
+        address.toLowerCase(),
+        update.paymentHistoryScore,
+        update.onTimePayments,
+        update.latePayments,
+        JSON.stringify(update.scoreBreakdown),
+      ]
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+
+/**
+ * Deployment Registry
+ *
+ * DECISION: Read contract addresses from the deployments/<chainId>.json files
+ *           that scripts/deploy.ts writes, for the chain the RPC reports
+ * REASON: One source of truth for every chain; pointing ARC_RPC_URL at a
+ *         local node or at Arc picks the matching addresses and the block
+ *         the indexer starts from, with no per-environment address to copy
+ */
+
+export interface DeployedContract {
+  address: string;
+  /** Block the contract was created in */
+  blockNumber?: number;
+  transactionHash?: string;
+  bytecodeHash?: string;
+}
+
+export interface Deployment {
+  chainId: number;
+  network: string;
+  deployer: string;
+  updatedAt: string;
+  contracts: Record<string, DeployedContract>;
+  aiAgents: string[];
+}
+
+/** The RentFlowCore proxy the backend indexes and calls */
+export interface CoreDeployment {
+  chainId: number;
+  address: string;
+  /** Where the indexer's backfill starts */
+  deploymentBlock: number;
+}
+
+export class DeploymentRegistry {
+  constructor(private dir: string) {}
+
+  /** Returns null when nothing has been deployed to `chainId` */
+  async get(chainId: number): Promise<Deployment | null> {
+    try {
+      const raw = await fs.readFile(path.join(this.dir, `${chainId}.json`), 'utf8');
+      return JSON.parse(raw) as Deployment;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  /** Every recorded chain, lowest chain ID first */
+  async list(): Promise<Deployment[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const chainIds = files
+      .map((file) => /^(\d+)\.json$/.exec(file)?.[1])
+      .filter((id): id is string => id !== undefined)
+      .map(Number)
+      .sort((a, b) => a - b);
+    const deployments = await Promise.all(chainIds.map((chainId) => this.get(chainId)));
+    return deployments.filter((deployment): deployment is Deployment => deployment !== null);
+  }
+
+  /** RentFlowCore on the provider's chain, or null if it has not been deployed there */
+  async resolveCore(provider: ethers.Provider): Promise<CoreDeployment | null> {
+    const chainId = Number((await provider.getNetwork()).chainId);
+    const core = (await this.get(chainId))?.contracts.RentFlowCore;
+    if (!core) return null;
+    return { chainId, address: ethers.getAddress(core.address), deploymentBlock: core.blockNumber ?? 0 };
+  }
+}
@@ -0,0 +1,158 @@
+import { IndexedEvent, IndexerStore } from './indexer-store';
+
+/**
+ * Security Deposit Settlement Tracker
+ *
+ * DECISION: Settlements are replayed from indexed Deposit* events
+ * REASON: Each item's category and evidence only appear in
+ *         DepositDeductionItemized, and the tenant's answers and the
+ *         arbiter's split only in their own events; replaying them gives
+ *         the owner and tenant the same view the contract enforced
+ */
+
+export type DeductionCategory =
+  | 'cleaning'
+  | 'damage'
+  | 'unpaid_rent'
+  | 'unpaid_utilities'
+  | 'keys_and_locks'
+  | 'other';
+
+/** Contract enum order (RentFlowTypes.sol) */
+export const DEDUCTION_CATEGORIES: readonly DeductionCategory[] = [
+  'cleaning',
+  'damage',
+  'unpaid_rent',
+  'unpaid_utilities',
+  'keys_and_locks',
+  'other',
+];
+
+export type DeductionStatus = 'proposed' | 'accepted' | 'disputed' | 'resolved';
+
+export interface DepositDeductionView {
+  item_index: number;
+  category: DeductionCategory | null;
+  /** USDC base units as decimal strings */
+  amount: string;
+  evidence_hash: string;
+  status: DeductionStatus;
+  /** Set once the item is accepted or resolved */
+  awarded_to_owner: string | null;
+  resolved_by: string | null;
+}
+
+export interface DepositSettlementView {
+  lease_id: number;
+  /** Open until every item is decided and SecurityDepositReturned fires */
+  status: 'open' | 'settled';
+  total_deduction: string;
+  /** Seconds; unanswered items count as accepted after this */
+  dispute_deadline: number;
+  /** Known once the settlement closes */
+  returned_to_tenant: string | null;
+  items: DepositDeductionView[];
+}
+
+const DEPOSIT_EVENTS = new Set<IndexedEvent['name']>([
+  'DepositDeductionItemized',
+  'DepositDeductionsProposed',
+  'DepositDeductionAccepted',
+  'DepositDeductionDisputed',
+  'DepositDisputeResolved',
+  'SecurityDepositReturned',
+]);
+
+/**
+ * Fold one lease's deposit events (in chain order) into its settlement
+ * @returns null until deductions have been proposed
+ */
+export function replayDepositSettlement(events: IndexedEvent[]): DepositSettlementView | null {
+  const proposed = events.find((event) => event.name === 'DepositDeductionsProposed');
+  if (!proposed) return null;
+
+  const view: DepositSettlementView = {
+    lease_id: Number(proposed.args.leaseId),
+    status: 'open',
+    total_deduction: String(proposed.args.totalDeduction),
+    dispute_deadline: Number(proposed.args.disputeDeadline),
+    returned_to_tenant: null,
+    items: [],
+  };
+
+  for (const event of events) {
+    const { args } = event;
+    const item = args.itemIndex === undefined ? undefined : view.items[Number(args.itemIndex)];
+    switch (event.name) {
+      case 'DepositDeductionItemized':
+        view.items[Number(args.itemIndex)] = {
+          item_index: Number(args.itemIndex),
+          category: DEDUCTION_CATEGORIES[Number(args.category)] ?? null,
+          amount: String(args.amount),
+          evidence_hash: String(args.evidenceHash).toLowerCase(),
+          status: 'proposed',
+          awarded_to_owner: null,
+          resolved_by: null,
+        };
+        break;
+      case 'DepositDeductionAccepted':
+        if (item) {
+          item.status = 'accepted';
+          item.awarded_to_owner = String(args.amount);
+        }
+        break;
+      case 'DepositDeductionDisputed':
+        if (item) item.status = 'disputed';
+        break;
+      case 'DepositDisputeResolved':
+        if (item) {
+          item.status = 'resolved';
+          item.awarded_to_owner = String(args.awardedToOwner);
+          item.resolved_by = String(args.arbiter).toLowerCase();
+        }
+        break;
+      case 'SecurityDepositReturned':
+        view.status = 'settled';
+        view.returned_to_tenant = String(args.amount);
+        break;
+    }
+  }
+
+  return view;
+}
+
+export class DepositSettlementTracker {
+  private cache = new Map<number, DepositSettlementView>();
+
+  constructor(private store: IndexerStore) {}
+
+  /** Returns null when no deductions have been proposed for the lease */
+  async getSettlement(leaseId: number): Promise<DepositSettlementView | null> {
+    const cached = this.cache.get(leaseId);
+    if (cached) return cached;
+    return this.recompute(leaseId);
+  }
+
+  /** Monitor hook: replay the lease whenever one of its deposit events is indexed */
+  async handleEvent(event: IndexedEvent): Promise<void> {
+    if (!DEPOSIT_EVENTS.has(event.name)) return;
+    await this.recompute(Number(event.args.leaseId));
+  }
+
+  /** Forget cached settlements, e.g. after the indexer rolls back a reorg */
+  invalidate(): void {
+    this.cache.clear();
+  }
+
+  private async recompute(leaseId: number): Promise<DepositSettlementView | null> {
+    const events = await this.store.getEvents({ args: { leaseId: String(leaseId) } });
+    const view = replayDepositSettlement(events.filter((event) => DEPOSIT_EVENTS.has(event.name)));
+    if (!view) {
+      this.cache.delete(leaseId);
+      return null;
+    }
+
+    this.cache.set(leaseId, view);
+    return view;
+  }
+}
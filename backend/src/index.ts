@@ -1 +1,1560 @@
-Paste backend index.ts content
+import express, { NextFunction, Request, Response } from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import rateLimit from 'express-rate-limit';
+import { ethers } from 'ethers';
+import { config } from './config';
+import { AIDecisionEngine, ContractApprovalPolicySource, PropertyHistory } from './ai-engine';
+import { createMonitorFromConfig } from './blockchain-monitor';
+import { FileIndexerStore, IndexedEvent } from './indexer-store';
+import { ContractLeaseTermsSource, TenantScoreService } from './tenant-score';
+import {
+  ContractMaintenanceDescriptionSource,
+  MAINTENANCE_STATUSES,
+  MaintenanceDescriptionSource,
+  MaintenanceSort,
+  MaintenanceTracker,
+} from './maintenance-tracker';
+import { ContractContractorProfileSource, ContractorDirectory } from './contractor-directory';
+import { DepositSettlementTracker } from './deposit-settlement';
+import { AutopayKeeper, ContractAutopayGateway } from './autopay-keeper';
+import { ContractTokenMetadataSource, PaymentTokenRegistry } from './payment-tokens';
+import { DeploymentRegistry } from './deployments';
+import { AccessDirectory } from './access-directory';
+import { CatalogValidationError, PropertyCatalog } from './property-catalog';
+import { BuildingTracker } from './buildings';
+import { AuthError, MIN_SECRET_LENGTH, SiweAuth } from './auth';
+import { AccessPolicy, Viewer } from './authorization';
+import { getPool } from './db/pool';
+import { createRepositories, LeaseStatus, MaintenanceStatus } from './db/repositories';
+import { AIDecisionRecord, AIDecisionRepository } from './db/repositories/ai-decisions';
+import { LEASE_STATUSES } from './lens-client';
+import {
+  FundMovementFilter,
+  FundMovementSort,
+  LeaseSort,
+  PaymentSort,
+  PortfolioIndex,
+  PropertySort,
+} from './portfolio';
+import { CursorError, PageQuery } from './pagination';
+import { ApiRegistry, ref } from './openapi';
+import {
+  addressPath,
+  addressQuery,
+  arrayOf,
+  COMMON_RESPONSES,
+  COMPONENT_SCHEMAS,
+  enumQuery,
+  failure,
+  HASH,
+  idPath,
+  idQuery,
+  ok,
+  page,
+  pageQuery,
+  SECONDS,
+  timeRangeQuery,
+} from './api-schemas';
+
+/**
+ * RentFlow AI Backend - HTTP API
+ *
+ * DECISION: createApp() builds the Express app without listening
+ * REASON: Tests and scripts can import the engine and app without
+ *         binding a port; the server only starts when run directly
+ */
+
+export { AIDecisionEngine } from './ai-engine';
+export type { MaintenanceDecision, PropertyHistory } from './ai-engine';
+export type { TenantScoreProfile } from './tenant-score';
+export type { MaintenanceView } from './maintenance-tracker';
+export type { ContractorProfile } from './contractor-directory';
+export type { DepositSettlementView } from './deposit-settlement';
+export type { PaymentToken } from './payment-tokens';
+export type { Deployment } from './deployments';
+export type { AccountAccessView, PropertyAccessView } from './access-directory';
+export type { CatalogEntry, PropertyCatalogView } from './property-catalog';
+export type { BuildingView } from './buildings';
+export type { FundMovementView, FundView, LeaseDetailView, PaymentView, PortfolioView } from './portfolio';
+export type { SessionView } from './auth';
+export { RentFlowLensClient } from './lens-client';
+export type { PropertyRecord, LeaseRecord, MaintenanceRecord } from './lens-client';
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const ID_PATTERN = /^\d{1,18}$/;
+
+const API_INFO = {
+  title: 'RentFlow AI API',
+  version: '1.0.0',
+  description: 'Indexed RentFlowCore data and the AI maintenance agent. See docs/API.md.',
+};
+const INVALID_PARAMETER = failure('Invalid path or query parameter');
+const INVALID_BODY = failure('Invalid request body');
+const NO_CONTRACT = failure('No contract configured');
+// Secured routes: answered before the handler runs when either is missing
+const NOT_CONFIGURED = failure('No contract or JWT secret configured');
+const FORBIDDEN = failure('Not visible to the signed-in wallet');
+
+// ============ Query Parameters ============
+// As ApiRegistry parses them into res.locals.query, defaults applied
+
+interface MaintenanceQuery extends PageQuery<MaintenanceSort> {
+  owner?: string;
+  property_id?: number;
+  status?: MaintenanceStatus;
+}
+
+interface PropertiesQuery extends PageQuery<PropertySort> {
+  occupied?: boolean;
+}
+
+interface LeasesQuery extends PageQuery<LeaseSort> {
+  owner?: string;
+  tenant?: string;
+  property_id?: number;
+  status?: LeaseStatus;
+}
+
+interface PaymentsQuery extends PageQuery<PaymentSort> {
+  owner?: string;
+  tenant?: string;
+  lease_id?: number;
+  property_id?: number;
+  from?: number;
+  to?: number;
+}
+
+type FundMovementsQuery = PageQuery<FundMovementSort> & FundMovementFilter;
+
+export interface AppDependencies {
+  aiEngine?: AIDecisionEngine;
+  provider?: ethers.Provider;
+  /** Absent when no contract is configured; score routes answer 503 */
+  tenantScores?: TenantScoreService;
+  /** Absent when no contract is configured; maintenance routes answer 503 */
+  maintenance?: MaintenanceTracker;
+  /** Absent when no contract is configured; evaluations of an on-chain request answer 503 */
+  maintenanceDescriptions?: MaintenanceDescriptionSource;
+  /** Absent when no contract is configured; contractor routes answer 503 */
+  contractors?: ContractorDirectory;
+  /** Absent when no contract is configured; deposit routes answer 503 */
+  deposits?: DepositSettlementTracker;
+  /** Absent when no contract is configured; token routes answer 503 */
+  tokens?: PaymentTokenRegistry;
+  deployments?: DeploymentRegistry;
+  /** Absent when no contract is configured; access routes answer 503 */
+  access?: AccessDirectory;
+  /** Absent when no contract is configured; catalog routes answer 503 */
+  catalog?: PropertyCatalog;
+  /** Absent when no contract is configured; building routes answer 503 */
+  buildings?: BuildingTracker;
+  /** Absent without a database; evaluations go unrecorded and decision history answers 503 */
+  aiDecisions?: AIDecisionRepository;
+  /** Absent when no contract is configured; portfolio, lease, payment and fund queries answer 503 */
+  portfolio?: PortfolioIndex;
+  /** Absent without a JWT secret; sign-in and every secured route answer 503 */
+  auth?: SiweAuth;
+}
+
+export function createApp(deps: AppDependencies = {}): express.Express {
+  const aiEngine = deps.aiEngine ?? new AIDecisionEngine();
+  const provider =
+    deps.provider ?? new ethers.JsonRpcProvider(config.blockchain.rpcUrl, undefined, { staticNetwork: true });
+  // Written by scripts/deploy.ts; the frontend reads its addresses from here
+  const deployments = deps.deployments ?? new DeploymentRegistry(config.blockchain.deploymentsDir);
+
+  const app = express();
+
+  app.use(helmet());
+  app.use(cors({ origin: config.corsOrigins }));
+  app.use(express.json({ limit: '100kb' }));
+  app.use(
+    '/api',
+    rateLimit({
+      windowMs: config.rateLimit.windowMs,
+      max: config.rateLimit.max,
+      standardHeaders: true,
+      legacyHeaders: false,
+      message: { success: false, error: 'Too many requests, please try again later' },
+    })
+  );
+
+  const evaluateLimiter = rateLimit({
+    windowMs: 60 * 1000,
+    max: config.rateLimit.evaluateMaxPerMinute,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: { success: false, error: 'Too many evaluation requests, please try again later' },
+  });
+
+  // What a wallet may see comes from the same indexes the routes read
+  const policy = deps.access && deps.portfolio ? new AccessPolicy(deps.access, deps.portfolio) : undefined;
+
+  // Secured routes run this first: the bearer token's wallet, with its current access, in res.locals.viewer
+  const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+    if (!deps.auth) {
+      return res.status(503).json({ success: false, error: 'Sign-in is unavailable: no JWT secret configured' });
+    }
+    if (!policy) {
+      return res.status(503).json({ success: false, error: 'Authorization is unavailable: no contract configured' });
+    }
+
+    try {
+      const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+      if (scheme !== 'Bearer' || !token) throw new AuthError('Sign in with your wallet to use this route');
+      res.locals.session = deps.auth.verify(token);
+      res.locals.viewer = await policy.viewerFor(res.locals.session.address);
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  };
+
+  // Routes are declared here so /api/openapi.json describes each one
+  const api = new ApiRegistry(app, API_INFO, COMPONENT_SCHEMAS, COMMON_RESPONSES, {
+    handler: authenticate,
+    description: 'Session token from POST /api/auth/verify',
+    responses: { 401: failure('Missing, invalid or expired session token'), 503: NOT_CONFIGURED },
+  });
+
+  // ============ Health ============
+
+  api.get({
+    path: '/api/health',
+    tag: 'Health',
+    summary: 'Service, chain and AI provider status',
+    responses: {
+      200: { description: 'Status; blockNumber is null when the RPC is unreachable', schema: ref('Health') },
+    },
+  }, async (_req: Request, res: Response) => {
+    let blockNumber: number | null = null;
+    try {
+      blockNumber = await withTimeout(provider.getBlockNumber(), 3000);
+    } catch {
+      blockNumber = null;
+    }
+
+    res.json({
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      blockchain: { connected: blockNumber !== null, blockNumber },
+      ai: { provider: aiEngine.providerName },
+    });
+  });
+
+  // ============ Sign-In Endpoints ============
+
+  api.get({
+    path: '/api/auth/nonce',
+    tag: 'Auth',
+    summary: 'A single-use nonce for a Sign-In with Ethereum message',
+    responses: {
+      200: ok('The nonce', { nonce: { type: 'string', pattern: '^[0-9a-f]{32}$' }, expires_at: SECONDS }),
+      503: failure('No JWT secret configured'),
+    },
+  }, (_req: Request, res: Response) => {
+    if (!deps.auth) {
+      return res.status(503).json({ success: false, error: 'Sign-in is unavailable: no JWT secret configured' });
+    }
+    return res.json({ success: true, ...deps.auth.issueNonce() });
+  });
+
+  api.post({
+    path: '/api/auth/verify',
+    tag: 'Auth',
+    summary: 'Exchange a signed sign-in message for a session token',
+    description:
+      'The message must be EIP-4361, for this site and chain, with a nonce from /api/auth/nonce. ' +
+      'Send the token back as `Authorization: Bearer <token>`.',
+    requestBody: ref('SignInRequest'),
+    responses: {
+      200: ok('The session token', { token: { type: 'string' }, session: ref('Session') }),
+      400: INVALID_BODY,
+      401: failure('Message or signature rejected'),
+      503: failure('No JWT secret configured'),
+    },
+  }, (req: Request, res: Response, next: NextFunction) => {
+    const { message, signature } = req.body ?? {};
+
+    if (typeof message !== 'string' || typeof signature !== 'string') {
+      return res.status(400).json({ success: false, error: 'Message and signature are required' });
+    }
+    if (!deps.auth) {
+      return res.status(503).json({ success: false, error: 'Sign-in is unavailable: no JWT secret configured' });
+    }
+
+    try {
+      const { token, session } = deps.auth.signIn(message, signature);
+      return res.json({ success: true, token, session });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.get({
+    path: '/api/auth/session',
+    tag: 'Auth',
+    summary: 'The signed-in wallet and what it can see',
+    secured: true,
+    responses: { 200: ok('The session', { session: ref('Session'), viewer: ref('Viewer') }) },
+  }, (_req: Request, res: Response) => {
+    const { address, roles, privileged, managed, rented } = res.locals.viewer as Viewer;
+    const sorted = (ids: Set<number>) => [...ids].sort((a, b) => a - b);
+
+    res.json({
+      success: true,
+      session: res.locals.session,
+      viewer: { address, roles, privileged, managed_properties: sorted(managed), rented_properties: sorted(rented) },
+    });
+  });
+
+  // ============ AI Endpoints ============
+
+  api.post({
+    path: '/api/maintenance/evaluate',
+    tag: 'AI',
+    summary: 'Ask the AI engine to assess a maintenance request',
+    description:
+      'For the owner, managers and current tenant of the property. With requestId the request must match ' +
+      'the indexed on-chain request, description included, and the decision is recorded.',
+    secured: true,
+    requestBody: ref('EvaluateRequest'),
+    responses: {
+      200: ok('The decision', { decision: ref('MaintenanceDecision') }),
+      400: INVALID_BODY,
+      403: failure('Not the owner, a manager or the tenant of this property'),
+      404: failure('Maintenance request not found'),
+    },
+  }, evaluateLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    const { description, estimatedCost, propertyId, propertyHistory, serviceArea, requestId } = req.body ?? {};
+
+    if (typeof description !== 'string' || description.trim().length < 10) {
+      return res.status(400).json({ success: false, error: 'Description must be at least 10 characters' });
+    }
+    if (typeof estimatedCost !== 'number' || !Number.isFinite(estimatedCost) || estimatedCost <= 0) {
+      return res.status(400).json({ success: false, error: 'Estimated cost must be a positive number' });
+    }
+    if (!Number.isInteger(propertyId) || propertyId < 0) {
+      return res.status(400).json({ success: false, error: 'Invalid property ID' });
+    }
+    if (serviceArea !== undefined && (typeof serviceArea !== 'string' || serviceArea.length > 31)) {
+      return res.status(400).json({ success: false, error: 'Service area must be a string of at most 31 characters' });
+    }
+    if (requestId !== undefined && (!Number.isInteger(requestId) || requestId < 0)) {
+      return res.status(400).json({ success: false, error: 'Invalid request ID' });
+    }
+    if (!policy!.canViewProperty(res.locals.viewer, propertyId)) {
+      return res
+        .status(403)
+        .json({ success: false, error: 'Only the owner, managers and tenant of this property can request assessments' });
+    }
+
+    try {
+      // A decision is only recorded against an on-chain request it describes
+      if (requestId !== undefined) {
+        if (!deps.maintenance || !deps.maintenanceDescriptions) {
+          return res.status(503).json({ success: false, error: 'Maintenance tracking is unavailable: no contract configured' });
+        }
+        const [request, filed] = await Promise.all([
+          deps.maintenance.getRequest(requestId),
+          deps.maintenanceDescriptions.getDescription(requestId),
+        ]);
+        if (!request || filed === null) {
+          return res.status(404).json({ success: false, error: 'Maintenance request not found' });
+        }
+        // Compared as numbers: 18-decimal costs do not survive JSON as integers
+        if (request.property_id !== propertyId || Number(request.estimated_cost) !== estimatedCost) {
+          return res
+            .status(400)
+            .json({ success: false, error: 'Property ID and estimated cost must match the on-chain request' });
+        }
+        // The tenant portal shows the recorded decision as the AI's view of this request,
+        // so it must be about the text the tenant filed, not a rewording sent here
+        if (description !== filed) {
+          return res.status(400).json({ success: false, error: 'Description must match the on-chain request' });
+        }
+      }
+
+      const decision = await aiEngine.evaluateMaintenanceRequest(
+        propertyId,
+        description,
+        estimatedCost,
+        (propertyHistory ?? {}) as PropertyHistory,
+        serviceArea
+      );
+      if (requestId !== undefined && deps.aiDecisions) {
+        await deps.aiDecisions.record(propertyId, requestId, decision, aiEngine.providerName);
+      }
+      return res.json({ success: true, decision });
+    } catch (error) {
+      // Usually the approval policy could not be read from the chain
+      return next(error);
+    }
+  });
+
+  // ============ Tenant Endpoints ============
+
+  api.get({
+    path: '/api/tenant/:address/score',
+    tag: 'Tenants',
+    summary: "A tenant's payment history score",
+    description: 'For the tenant, and the owners and managers of properties they have leased.',
+    secured: true,
+    parameters: [addressPath('address', 'Tenant wallet')],
+    responses: {
+      200: ok('The score and the factors behind it', { profile: ref('TenantScoreProfile') }),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+      404: failure('No lease history found for this address'),
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { address } = req.params;
+
+    if (!ADDRESS_PATTERN.test(address) || !ethers.isAddress(address)) {
+      return res.status(400).json({ success: false, error: 'Invalid wallet address' });
+    }
+    if (!deps.tenantScores) {
+      return res.status(503).json({ success: false, error: 'Tenant scoring is unavailable: no contract configured' });
+    }
+
+    try {
+      if (!(await policy!.canViewTenant(res.locals.viewer, address))) {
+        return res.status(403).json({ success: false, error: 'Only the tenant and their landlords can see this score' });
+      }
+      const profile = await deps.tenantScores.getScore(address);
+      if (!profile) {
+        return res.status(404).json({ success: false, error: 'No lease history found for this address' });
+      }
+      return res.json({ success: true, profile });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // ============ Maintenance Endpoints ============
+
+  api.get({
+    path: '/api/maintenance/:requestId',
+    tag: 'Maintenance',
+    summary: 'A maintenance request and its status trail',
+    description: "For the property's owner, managers and tenant, and the assigned contractor.",
+    secured: true,
+    parameters: [idPath('requestId', 'On-chain request ID')],
+    responses: {
+      200: ok('The request', { request: ref('MaintenanceRequest') }),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+      404: failure('Maintenance request not found'),
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { requestId } = req.params;
+
+    if (!ID_PATTERN.test(requestId)) {
+      return res.status(400).json({ success: false, error: 'Invalid request ID' });
+    }
+    if (!deps.maintenance) {
+      return res.status(503).json({ success: false, error: 'Maintenance tracking is unavailable: no contract configured' });
+    }
+
+    try {
+      const request = await deps.maintenance.getRequest(Number(requestId));
+      if (!request) {
+        return res.status(404).json({ success: false, error: 'Maintenance request not found' });
+      }
+      if (!policy!.canViewMaintenance(res.locals.viewer, request)) {
+        return res.status(403).json({ success: false, error: 'Not visible to the signed-in wallet' });
+      }
+      return res.json({ success: true, request });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.get({
+    path: '/api/maintenance/:requestId/decisions',
+    tag: 'AI',
+    summary: "The AI engine's decisions on a request, newest first",
+    description: 'For those who can see the request.',
+    secured: true,
+    parameters: [idPath('requestId', 'On-chain request ID')],
+    responses: {
+      200: ok('Recorded decisions', { decisions: arrayOf(ref('AIDecision')) }),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+      404: failure('Maintenance request not found'),
+      503: failure('No database, contract or JWT secret configured'),
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { requestId } = req.params;
+
+    if (!ID_PATTERN.test(requestId)) {
+      return res.status(400).json({ success: false, error: 'Invalid request ID' });
+    }
+    if (!deps.aiDecisions) {
+      return res.status(503).json({ success: false, error: 'AI decision history is unavailable: no database configured' });
+    }
+    if (!deps.maintenance) {
+      return res.status(503).json({ success: false, error: 'Maintenance tracking is unavailable: no contract configured' });
+    }
+
+    try {
+      const request = await deps.maintenance.getRequest(Number(requestId));
+      if (!request) {
+        return res.status(404).json({ success: false, error: 'Maintenance request not found' });
+      }
+      if (!policy!.canViewMaintenance(res.locals.viewer, request)) {
+        return res.status(403).json({ success: false, error: 'Not visible to the signed-in wallet' });
+      }
+      const decisions = await deps.aiDecisions.listByRequest(Number(requestId));
+      return res.json({ success: true, decisions: decisions.map(toDecisionView) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.get({
+    path: '/api/properties/:propertyId/maintenance',
+    tag: 'Maintenance',
+    summary: "A property's maintenance requests, newest first",
+    description: 'For the owner, managers and current tenant of the property.',
+    secured: true,
+    parameters: [idPath('propertyId', 'Property ID')],
+    responses: {
+      200: ok('The requests', { requests: arrayOf(ref('MaintenanceRequest')) }),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { propertyId } = req.params;
+
+    if (!ID_PATTERN.test(propertyId)) {
+      return res.status(400).json({ success: false, error: 'Invalid property ID' });
+    }
+    if (!deps.maintenance) {
+      return res.status(503).json({ success: false, error: 'Maintenance tracking is unavailable: no contract configured' });
+    }
+    if (!policy!.canViewProperty(res.locals.viewer, Number(propertyId))) {
+      return res.status(403).json({ success: false, error: 'Not visible to the signed-in wallet' });
+    }
+
+    try {
+      const requests = await deps.maintenance.listByProperty(Number(propertyId));
+      return res.json({ success: true, requests });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.get({
+    path: '/api/maintenance',
+    tag: 'Maintenance',
+    summary: 'Maintenance requests across properties',
+    description: 'Only requests on properties the signed-in wallet owns, manages or rents.',
+    secured: true,
+    parameters: [
+      addressQuery('owner', "Only requests on this owner's properties"),
+      idQuery('property_id', 'Only requests on this property'),
+      enumQuery('status', 'Only requests in this status', MAINTENANCE_STATUSES),
+      ...pageQuery(['request_id', 'requested_at', 'estimated_cost'], 'request_id'),
+    ],
+    responses: {
+      200: page('A page of requests', 'requests', ref('MaintenanceRequest')),
+      400: INVALID_PARAMETER,
+    },
+  }, async (_req: Request, res: Response, next: NextFunction) => {
+    const { owner, property_id, status, ...query } = res.locals.query as MaintenanceQuery;
+
+    const { maintenance, portfolio } = deps;
+
+    // The owner filter needs the portfolio index to know which properties are theirs
+    if (!maintenance || (owner !== undefined && !portfolio)) {
+      return res.status(503).json({ success: false, error: 'Maintenance tracking is unavailable: no contract configured' });
+    }
+
+    try {
+      const owned = owner === undefined || !portfolio ? undefined : await portfolio.propertyIdsOf(owner);
+      const filtered =
+        property_id === undefined ? owned : new Set(owned && !owned.has(property_id) ? [] : [property_id]);
+      const propertyIds = intersect(filtered, policy!.visibleProperties(res.locals.viewer));
+      const { items, next_cursor } = await maintenance.listRequests({ propertyIds, status }, query);
+      return res.json({ success: true, requests: items, next_cursor });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // ============ Security Deposit Endpoints ============
+
+  api.get({
+    path: '/api/leases/:leaseId/deposit',
+    tag: 'Leases',
+    summary: "Deductions proposed against a lease's security deposit",
+    description: "For the tenant, and the property's owner and managers.",
+    secured: true,
+    parameters: [idPath('leaseId', 'Lease ID')],
+    responses: {
+      200: ok('The settlement', { settlement: ref('DepositSettlement') }),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+      404: failure('Lease not found, or no deductions proposed for it'),
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { leaseId } = req.params;
+
+    if (!ID_PATTERN.test(leaseId)) {
+      return res.status(400).json({ success: false, error: 'Invalid lease ID' });
+    }
+    if (!deps.deposits) {
+      return res.status(503).json({ success: false, error: 'Deposit tracking is unavailable: no contract configured' });
+    }
+
+    try {
+      const lease = await deps.portfolio?.getLease(Number(leaseId));
+      if (!lease) {
+        return res.status(404).json({ success: false, error: 'Lease not found' });
+      }
+      if (!policy!.canViewLease(res.locals.viewer, lease)) {
+        return res.status(403).json({ success: false, error: 'Not visible to the signed-in wallet' });
+      }
+      const settlement = await deps.deposits.getSettlement(Number(leaseId));
+      if (!settlement) {
+        return res.status(404).json({ success: false, error: 'No deductions proposed for this lease' });
+      }
+      return res.json({ success: true, settlement });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // ============ Payment Token Endpoints ============
+
+  api.get({
+    path: '/api/tokens',
+    tag: 'Tokens',
+    summary: 'Tokens properties may charge rent in',
+    responses: { 200: ok('Allowed tokens', { tokens: arrayOf(ref('PaymentToken')) }), 503: NO_CONTRACT },
+  }, async (_req: Request, res: Response, next: NextFunction) => {
+    if (!deps.tokens) {
+      return res.status(503).json({ success: false, error: 'Payment tokens are unavailable: no contract configured' });
+    }
+
+    try {
+      const tokens = await deps.tokens.listAllowed();
+      return res.json({ success: true, tokens });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.get({
+    path: '/api/properties/:propertyId/token',
+    tag: 'Tokens',
+    summary: 'The token a property charges rent in',
+    parameters: [idPath('propertyId', 'Property ID')],
+    responses: {
+      200: ok('The token', { token: ref('PaymentToken') }),
+      400: INVALID_PARAMETER,
+      404: failure('Property not found'),
+      503: NO_CONTRACT,
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { propertyId } = req.params;
+
+    if (!ID_PATTERN.test(propertyId)) {
+      return res.status(400).json({ success: false, error: 'Invalid property ID' });
+    }
+    if (!deps.tokens) {
+      return res.status(503).json({ success: false, error: 'Payment tokens are unavailable: no contract configured' });
+    }
+
+    try {
+      const token = await deps.tokens.getPropertyToken(Number(propertyId));
+      if (!token) {
+        return res.status(404).json({ success: false, error: 'Property not found' });
+      }
+      return res.json({ success: true, token });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // ============ Property Catalog Endpoints ============
+
+  api.get({
+    path: '/api/properties',
+    tag: 'Catalog',
+    summary: 'Properties with their catalog entries',
+    description: 'Only properties the signed-in wallet owns, manages or rents.',
+    secured: true,
+    parameters: [addressQuery('owner', "Only this owner's properties")],
+    responses: {
+      200: ok('The properties', { properties: arrayOf(ref('PropertyCatalog')) }),
+      400: INVALID_PARAMETER,
+      503: NO_CONTRACT,
+    },
+  }, async (_req: Request, res: Response, next: NextFunction) => {
+    const { owner } = res.locals.query as { owner?: string };
+
+    if (!deps.catalog) {
+      return res.status(503).json({ success: false, error: 'Property catalog is unavailable: no contract configured' });
+    }
+
+    try {
+      const visible = policy!.visibleProperties(res.locals.viewer);
+      const properties = (await deps.catalog.listProperties(owner)).filter(
+        (property) => !visible || visible.has(property.property_id)
+      );
+      return res.json({ success: true, properties });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.get({
+    path: '/api/properties/:propertyId/catalog',
+    tag: 'Catalog',
+    summary: "A property's catalog entry",
+    description: 'For the owner, managers and current tenant of the property.',
+    secured: true,
+    parameters: [idPath('propertyId', 'Property ID')],
+    responses: {
+      200: ok('The property', { property: ref('PropertyCatalog') }),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+      404: failure('Property not found'),
+      503: NO_CONTRACT,
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { propertyId } = req.params;
+
+    if (!ID_PATTERN.test(propertyId)) {
+      return res.status(400).json({ success: false, error: 'Invalid property ID' });
+    }
+    if (!deps.catalog) {
+      return res.status(503).json({ success: false, error: 'Property catalog is unavailable: no contract configured' });
+    }
+    if (!policy!.canViewProperty(res.locals.viewer, Number(propertyId))) {
+      return res.status(403).json({ success: false, error: 'Not visible to the signed-in wallet' });
+    }
+
+    try {
+      const property = await deps.catalog.getProperty(Number(propertyId));
+      if (!property) {
+        return res.status(404).json({ success: false, error: 'Property not found' });
+      }
+      return res.json({ success: true, property });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // Returns the hash the owner then records with setPropertyMetadata
+  api.post({
+    path: '/api/catalog/entries',
+    tag: 'Catalog',
+    summary: 'Store a catalog entry and get the hash to record on chain',
+    description: 'For the owner and managers of the property. Only the entry is hashed, not the property ID.',
+    secured: true,
+    requestBody: ref('CatalogSubmission'),
+    responses: {
+      201: ok('The stored entry', { content_hash: HASH, entry: ref('CatalogEntry') }),
+      400: INVALID_BODY,
+      403: failure('Not the owner or a manager of this property'),
+      503: NO_CONTRACT,
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { property_id: propertyId, entry: input } = req.body ?? {};
+
+    if (!Number.isInteger(propertyId) || propertyId < 0) {
+      return res.status(400).json({ success: false, error: 'Invalid property ID' });
+    }
+    if (!deps.catalog) {
+      return res.status(503).json({ success: false, error: 'Property catalog is unavailable: no contract configured' });
+    }
+    if (!policy!.canManageProperty(res.locals.viewer, propertyId)) {
+      return res
+        .status(403)
+        .json({ success: false, error: 'Only the owner and managers of this property can submit its catalog entry' });
+    }
+
+    try {
+      const { contentHash, entry } = await deps.catalog.submit(input);
+      return res.status(201).json({ success: true, content_hash: contentHash, entry });
+    } catch (error) {
+      if (error instanceof CatalogValidationError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      return next(error);
+    }
+  });
+
+  // ============ Building Endpoints ============
+
+  api.get({
+    path: '/api/buildings',
+    tag: 'Buildings',
+    summary: 'Buildings with unit totals',
+    description: 'Only buildings the signed-in wallet owns or manages.',
+    secured: true,
+    parameters: [addressQuery('owner', "Only this owner's buildings")],
+    responses: {
+      200: ok('The buildings', { buildings: arrayOf(ref('Building')) }),
+      400: INVALID_PARAMETER,
+    },
+  }, async (_req: Request, res: Response, next: NextFunction) => {
+    const { owner } = res.locals.query as { owner?: string };
+
+    if (!deps.buildings) {
+      return res.status(503).json({ success: false, error: 'Building totals are unavailable: no contract configured' });
+    }
+
+    try {
+      const buildings = (await deps.buildings.listBuildings(owner)).filter((building) =>
+        policy!.canManageProperty(res.locals.viewer, building.building_id)
+      );
+      return res.json({ success: true, buildings });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.get({
+    path: '/api/buildings/:buildingId',
+    tag: 'Buildings',
+    summary: 'A building with unit totals',
+    description: 'For the owner and managers of the building.',
+    secured: true,
+    parameters: [idPath('buildingId', 'Property ID of the building')],
+    responses: {
+      200: ok('The building', { building: ref('Building') }),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+      404: failure('Building not found'),
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { buildingId } = req.params;
+
+    if (!ID_PATTERN.test(buildingId)) {
+      return res.status(400).json({ success: false, error: 'Invalid building ID' });
+    }
+    if (!deps.buildings) {
+      return res.status(503).json({ success: false, error: 'Building totals are unavailable: no contract configured' });
+    }
+    if (!policy!.canManageProperty(res.locals.viewer, Number(buildingId))) {
+      return res.status(403).json({ success: false, error: 'Not visible to the signed-in wallet' });
+    }
+
+    try {
+      const building = await deps.buildings.getBuilding(Number(buildingId));
+      if (!building) {
+        return res.status(404).json({ success: false, error: 'Building not found' });
+      }
+      return res.json({ success: true, building });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // ============ Portfolio Endpoints ============
+
+  api.get({
+    path: '/api/owners/:address/portfolio',
+    tag: 'Portfolio',
+    summary: "An owner's occupancy, rent and maintenance fund totals",
+    description: 'For the owner themselves.',
+    secured: true,
+    parameters: [addressPath('address', 'Owner wallet')],
+    responses: {
+      200: ok('The portfolio', { portfolio: ref('Portfolio') }),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+      404: failure('No properties registered to this owner'),
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { address } = req.params;
+
+    if (!ADDRESS_PATTERN.test(address) || !ethers.isAddress(address)) {
+      return res.status(400).json({ success: false, error: 'Invalid wallet address' });
+    }
+    if (!deps.portfolio) {
+      return res.status(503).json({ success: false, error: 'Portfolio index is unavailable: no contract configured' });
+    }
+    if (!policy!.canViewAccount(res.locals.viewer, address)) {
+      return res.status(403).json({ success: false, error: 'Only the owner can see their portfolio' });
+    }
+
+    try {
+      const portfolio = await deps.portfolio.getPortfolio(address);
+      if (!portfolio) {
+        return res.status(404).json({ success: false, error: 'No properties registered to this owner' });
+      }
+      return res.json({ success: true, portfolio });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.get({
+    path: '/api/owners/:address/properties',
+    tag: 'Portfolio',
+    summary: "An owner's properties with occupancy, fund and rent collected",
+    description: 'For the owner themselves.',
+    secured: true,
+    parameters: [
+      addressPath('address', 'Owner wallet'),
+      {
+        name: 'occupied',
+        in: 'query',
+        description: 'Only occupied (true) or vacant (false) properties',
+        schema: { type: 'boolean' },
+        error: 'Invalid occupied filter',
+      },
+      ...pageQuery(['property_id', 'registered_at', 'monthly_rent'], 'property_id'),
+    ],
+    responses: {
+      200: page('A page of properties', 'properties', ref('PortfolioProperty')),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { address } = req.params;
+    const { occupied, ...query } = res.locals.query as PropertiesQuery;
+
+    if (!ADDRESS_PATTERN.test(address) || !ethers.isAddress(address)) {
+      return res.status(400).json({ success: false, error: 'Invalid wallet address' });
+    }
+    if (!deps.portfolio) {
+      return res.status(503).json({ success: false, error: 'Portfolio index is unavailable: no contract configured' });
+    }
+    if (!policy!.canViewAccount(res.locals.viewer, address)) {
+      return res.status(403).json({ success: false, error: 'Only the owner can see their properties' });
+    }
+
+    try {
+      const { items, next_cursor } = await deps.portfolio.listProperties({ owner: address, occupied }, query);
+      return res.json({ success: true, properties: items, next_cursor });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // ============ Lease Endpoints ============
+
+  api.get({
+    path: '/api/leases',
+    tag: 'Leases',
+    summary: 'Leases with their payment totals',
+    description: 'Only leases the signed-in wallet is the tenant on, or on properties it owns or manages.',
+    secured: true,
+    parameters: [
+      addressQuery('owner', "Only leases on this owner's properties"),
+      addressQuery('tenant', "Only this tenant's leases"),
+      idQuery('property_id', 'Only leases on this property'),
+      enumQuery('status', 'Only leases in this status', LEASE_STATUSES),
+      ...pageQuery(['lease_id', 'created_at', 'total_paid'], 'lease_id'),
+    ],
+    responses: {
+      200: page('A page of leases', 'leases', ref('Lease')),
+      400: INVALID_PARAMETER,
+    },
+  }, async (_req: Request, res: Response, next: NextFunction) => {
+    const { owner, tenant, property_id, status, ...query } = res.locals.query as LeasesQuery;
+
+    if (!deps.portfolio) {
+      return res.status(503).json({ success: false, error: 'Portfolio index is unavailable: no contract configured' });
+    }
+
+    try {
+      const { items, next_cursor } = await deps.portfolio.listLeases(
+        { owner, tenant, propertyId: property_id, status, scope: policy!.leaseScope(res.locals.viewer) },
+        query
+      );
+      return res.json({ success: true, leases: items, next_cursor });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.get({
+    path: '/api/leases/:leaseId',
+    tag: 'Leases',
+    summary: 'A lease with its status and payment totals',
+    description: "For the tenant, and the property's owner and managers.",
+    secured: true,
+    parameters: [idPath('leaseId', 'Lease ID')],
+    responses: {
+      200: ok('The lease', { lease: ref('Lease') }),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+      404: failure('Lease not found'),
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { leaseId } = req.params;
+
+    if (!ID_PATTERN.test(leaseId)) {
+      return res.status(400).json({ success: false, error: 'Invalid lease ID' });
+    }
+    if (!deps.portfolio) {
+      return res.status(503).json({ success: false, error: 'Portfolio index is unavailable: no contract configured' });
+    }
+
+    try {
+      const lease = await deps.portfolio.getLease(Number(leaseId));
+      if (!lease) {
+        return res.status(404).json({ success: false, error: 'Lease not found' });
+      }
+      if (!policy!.canViewLease(res.locals.viewer, lease)) {
+        return res.status(403).json({ success: false, error: 'Not visible to the signed-in wallet' });
+      }
+      return res.json({ success: true, lease });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // ============ Payment Endpoints ============
+
+  api.get({
+    path: '/api/payments',
+    tag: 'Payments',
+    summary: 'Rent payment ledger',
+    description: 'Only payments on leases the signed-in wallet can see.',
+    secured: true,
+    parameters: [
+      addressQuery('owner', "Only payments on this owner's properties"),
+      addressQuery('tenant', "Only this tenant's payments"),
+      idQuery('lease_id', 'Only payments on this lease'),
+      idQuery('property_id', 'Only payments on this property'),
+      ...timeRangeQuery('payment time'),
+      ...pageQuery(['timestamp', 'amount'], 'timestamp'),
+    ],
+    responses: {
+      200: page('A page of payments', 'payments', ref('Payment')),
+      400: INVALID_PARAMETER,
+    },
+  }, async (_req: Request, res: Response, next: NextFunction) => {
+    const { owner, tenant, lease_id, property_id, from, to, ...query } = res.locals.query as PaymentsQuery;
+
+    if (!deps.portfolio) {
+      return res.status(503).json({ success: false, error: 'Portfolio index is unavailable: no contract configured' });
+    }
+
+    try {
+      const { items, next_cursor } = await deps.portfolio.listPayments(
+        {
+          owner,
+          tenant,
+          leaseId: lease_id,
+          propertyId: property_id,
+          from,
+          to,
+          scope: policy!.leaseScope(res.locals.viewer),
+        },
+        query
+      );
+      return res.json({ success: true, payments: items, next_cursor });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // ============ Maintenance Fund Endpoints ============
+
+  api.get({
+    path: '/api/properties/:propertyId/fund',
+    tag: 'Funds',
+    summary: "A property's maintenance fund balance",
+    description: 'For the owner and managers of the property.',
+    secured: true,
+    parameters: [idPath('propertyId', 'Property ID')],
+    responses: {
+      200: ok('The fund', { fund: ref('Fund') }),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+      404: failure('Property not found'),
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { propertyId } = req.params;
+
+    if (!ID_PATTERN.test(propertyId)) {
+      return res.status(400).json({ success: false, error: 'Invalid property ID' });
+    }
+    if (!deps.portfolio) {
+      return res.status(503).json({ success: false, error: 'Portfolio index is unavailable: no contract configured' });
+    }
+    if (!policy!.canManageProperty(res.locals.viewer, Number(propertyId))) {
+      return res.status(403).json({ success: false, error: 'Not visible to the signed-in wallet' });
+    }
+
+    try {
+      const fund = await deps.portfolio.getFund(Number(propertyId));
+      if (!fund) {
+        return res.status(404).json({ success: false, error: 'Property not found' });
+      }
+      return res.json({ success: true, fund });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.get({
+    path: '/api/properties/:propertyId/fund/movements',
+    tag: 'Funds',
+    summary: "Top-ups, rent reserves and contractor payments through a property's fund",
+    description: 'For the owner and managers of the property.',
+    secured: true,
+    parameters: [
+      idPath('propertyId', 'Property ID'),
+      enumQuery('kind', 'Only money in (funded) or out (paid_out)', ['funded', 'paid_out']),
+      ...timeRangeQuery('movement time'),
+      ...pageQuery(['timestamp', 'amount'], 'timestamp'),
+    ],
+    responses: {
+      200: page('A page of movements', 'movements', ref('FundMovement')),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+      404: failure('Property not found'),
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { propertyId } = req.params;
+    const { kind, from, to, ...query } = res.locals.query as FundMovementsQuery;
+
+    if (!ID_PATTERN.test(propertyId)) {
+      return res.status(400).json({ success: false, error: 'Invalid property ID' });
+    }
+    if (!deps.portfolio) {
+      return res.status(503).json({ success: false, error: 'Portfolio index is unavailable: no contract configured' });
+    }
+    if (!policy!.canManageProperty(res.locals.viewer, Number(propertyId))) {
+      return res.status(403).json({ success: false, error: 'Not visible to the signed-in wallet' });
+    }
+
+    try {
+      const movements = await deps.portfolio.listFundMovements(Number(propertyId), { kind, from, to }, query);
+      if (!movements) {
+        return res.status(404).json({ success: false, error: 'Property not found' });
+      }
+      return res.json({ success: true, movements: movements.items, next_cursor: movements.next_cursor });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // ============ Access Endpoints ============
+
+  api.get({
+    path: '/api/roles',
+    tag: 'Access',
+    summary: 'Current members of each protocol role',
+    responses: { 200: ok('Members by role', { roles: ref('RoleMembers') }), 503: NO_CONTRACT },
+  }, async (_req: Request, res: Response, next: NextFunction) => {
+    if (!deps.access) {
+      return res.status(503).json({ success: false, error: 'Access directory is unavailable: no contract configured' });
+    }
+
+    try {
+      return res.json({ success: true, roles: await deps.access.getRoleMembers() });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.get({
+    path: '/api/properties/:propertyId/access',
+    tag: 'Access',
+    summary: "A property's owner and managers",
+    description: 'For the owner, managers and current tenant of the property.',
+    secured: true,
+    parameters: [idPath('propertyId', 'Property ID')],
+    responses: {
+      200: ok('Owner and managers', { access: ref('PropertyAccess') }),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+      404: failure('Property not found'),
+      503: NO_CONTRACT,
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { propertyId } = req.params;
+
+    if (!ID_PATTERN.test(propertyId)) {
+      return res.status(400).json({ success: false, error: 'Invalid property ID' });
+    }
+    if (!deps.access) {
+      return res.status(503).json({ success: false, error: 'Access directory is unavailable: no contract configured' });
+    }
+    if (!policy!.canViewProperty(res.locals.viewer, Number(propertyId))) {
+      return res.status(403).json({ success: false, error: 'Not visible to the signed-in wallet' });
+    }
+
+    try {
+      const access = await deps.access.getPropertyAccess(Number(propertyId));
+      if (!access) {
+        return res.status(404).json({ success: false, error: 'Property not found' });
+      }
+      return res.json({ success: true, access });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.get({
+    path: '/api/accounts/:address/access',
+    tag: 'Access',
+    summary: 'Roles an account holds and properties it owns or manages',
+    description: 'For the account itself and privileged roles.',
+    secured: true,
+    parameters: [addressPath('address', 'Wallet')],
+    responses: {
+      200: ok("The account's access", { access: ref('AccountAccess') }),
+      400: INVALID_PARAMETER,
+      403: FORBIDDEN,
+      503: NO_CONTRACT,
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { address } = req.params;
+
+    if (!ADDRESS_PATTERN.test(address) || !ethers.isAddress(address)) {
+      return res.status(400).json({ success: false, error: 'Invalid wallet address' });
+    }
+    if (!deps.access) {
+      return res.status(503).json({ success: false, error: 'Access directory is unavailable: no contract configured' });
+    }
+    if (!policy!.canViewAccount(res.locals.viewer, address)) {
+      return res.status(403).json({ success: false, error: 'Not visible to the signed-in wallet' });
+    }
+
+    try {
+      return res.json({ success: true, access: await deps.access.getAccountAccess(address) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // ============ Deployment Endpoints ============
+
+  api.get({
+    path: '/api/deployments',
+    tag: 'Deployments',
+    summary: 'Contract addresses on every chain deployed to',
+    responses: { 200: ok('Deployments', { deployments: arrayOf(ref('Deployment')) }) },
+  }, async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json({ success: true, deployments: await deployments.list() });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.get({
+    path: '/api/deployments/:chainId',
+    tag: 'Deployments',
+    summary: 'Contract addresses on one chain',
+    parameters: [idPath('chainId', 'EIP-155 chain ID')],
+    responses: {
+      200: ok('The deployment', { deployment: ref('Deployment') }),
+      400: INVALID_PARAMETER,
+      404: failure('No deployment on this chain'),
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { chainId } = req.params;
+
+    if (!ID_PATTERN.test(chainId)) {
+      return res.status(400).json({ success: false, error: 'Invalid chain ID' });
+    }
+
+    try {
+      const deployment = await deployments.get(Number(chainId));
+      if (!deployment) {
+        return res.status(404).json({ success: false, error: 'No deployment on this chain' });
+      }
+      return res.json({ success: true, deployment });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  // ============ Contractor Endpoints ============
+
+  api.get({
+    path: '/api/contractors/:address',
+    tag: 'Contractors',
+    summary: "A registered contractor's profile",
+    parameters: [addressPath('address', 'Contractor wallet')],
+    responses: {
+      200: ok('The profile', { contractor: ref('Contractor') }),
+      400: INVALID_PARAMETER,
+      404: failure('Contractor not registered'),
+      503: NO_CONTRACT,
+    },
+  }, async (req: Request, res: Response, next: NextFunction) => {
+    const { address } = req.params;
+
+    if (!ADDRESS_PATTERN.test(address) || !ethers.isAddress(address)) {
+      return res.status(400).json({ success: false, error: 'Invalid wallet address' });
+    }
+    if (!deps.contractors) {
+      return res.status(503).json({ success: false, error: 'Contractor registry is unavailable: no contract configured' });
+    }
+
+    try {
+      const profile = await deps.contractors.getProfile(address);
+      if (!profile) {
+        return res.status(404).json({ success: false, error: 'Contractor not registered' });
+      }
+      return res.json({ success: true, contractor: { ...profile, totalEarned: profile.totalEarned.toString() } });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  api.post({
+    path: '/api/chat',
+    tag: 'AI',
+    summary: 'Ask the AI assistant a question',
+    requestBody: ref('ChatRequest'),
+    responses: { 200: ok('The answer', { response: { type: 'string' } }), 400: INVALID_BODY },
+  }, async (req: Request, res: Response) => {
+    const { message } = req.body ?? {};
+
+    if (typeof message !== 'string' || message.trim().length === 0) {
+      return res.status(400).json({ success: false, error: 'Message is required' });
+    }
+
+    const response = await aiEngine.chat(message);
+    return res.json({ success: true, response });
+  });
+
+  // ============ API Document ============
+
+  api.get({
+    path: '/api/openapi.json',
+    tag: 'Meta',
+    summary: 'This API as an OpenAPI 3.0 document, for generating clients',
+    responses: { 200: { description: 'The document', schema: { type: 'object' } } },
+  }, (_req: Request, res: Response) => {
+    res.json(api.document());
+  });
+
+  // ============ Error Handling ============
+
+  app.use((_req: Request, res: Response) => {
+    res.status(404).json({ success: false, error: 'Not found' });
+  });
+
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    if (err instanceof CursorError) {
+      res.status(400).json({ success: false, error: err.message });
+      return;
+    }
+    if (err instanceof AuthError) {
+      res.status(401).set('WWW-Authenticate', 'Bearer').json({ success: false, error: err.message });
+      return;
+    }
+    console.error('❌ Unhandled API error:', err);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  });
+
+  return app;
+}
+
+/** An AI engine decision as the API returns it, newest first per request */
+export interface AIDecisionView {
+  decision: AIDecisionRecord['decision'];
+  reasoning: string;
+  confidence: number;
+  /** USDC base units as a decimal string */
+  approved_amount: string;
+  urgency: AIDecisionRecord['urgency'];
+  category: AIDecisionRecord['category'];
+  provider: string;
+  created_at: string;
+}
+
+function toDecisionView(record: AIDecisionRecord): AIDecisionView {
+  return {
+    decision: record.decision,
+    reasoning: record.reasoning,
+    confidence: record.confidence,
+    approved_amount: String(record.approvedAmount),
+    urgency: record.urgency,
+    category: record.category,
+    provider: record.provider,
+    created_at: record.createdAt.toISOString(),
+  };
+}
+
+/** Both restrictions at once; undefined stands for no restriction */
+function intersect(a: Set<number> | undefined, b: Set<number> | undefined): Set<number> | undefined {
+  if (!a || !b) return a ?? b;
+  return new Set([...a].filter((id) => b.has(id)));
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+if (require.main === module) {
+  (async () => {
+    const provider = new ethers.JsonRpcProvider(config.blockchain.rpcUrl, undefined, { staticNetwork: true });
+    let tenantScores: TenantScoreService | undefined;
+    let maintenance: MaintenanceTracker | undefined;
+    let maintenanceDescriptions: MaintenanceDescriptionSource | undefined;
+    let contractors: ContractorDirectory | undefined;
+    let deposits: DepositSettlementTracker | undefined;
+    let tokens: PaymentTokenRegistry | undefined;
+    let access: AccessDirectory | undefined;
+    let catalog: PropertyCatalog | undefined;
+    let buildings: BuildingTracker | undefined;
+    let aiDecisions: AIDecisionRepository | undefined;
+    let portfolio: PortfolioIndex | undefined;
+    let aiEngine: AIDecisionEngine | undefined;
+    let auth: SiweAuth | undefined;
+
+    const deployments = new DeploymentRegistry(config.blockchain.deploymentsDir);
+    const core = await deployments.resolveCore(provider);
+
+    if (core) {
+      const store = await new FileIndexerStore(config.indexer.storePath).load();
+      const repositories = config.database.url ? createRepositories(getPool()) : undefined;
+      tenantScores = new TenantScoreService(
+        store,
+        new ContractLeaseTermsSource(provider, core.address),
+        repositories?.tenantProfiles
+      );
+      maintenance = new MaintenanceTracker(store, repositories?.maintenanceRequests);
+      maintenanceDescriptions = new ContractMaintenanceDescriptionSource(provider, core.address);
+      contractors = new ContractorDirectory(
+        store,
+        new ContractContractorProfileSource(provider, core.address),
+        repositories?.contractors
+      );
+      deposits = new DepositSettlementTracker(store);
+      tokens = new PaymentTokenRegistry(store, new ContractTokenMetadataSource(provider));
+      access = new AccessDirectory(store);
+      catalog = new PropertyCatalog(store, repositories?.propertyCatalog);
+      buildings = new BuildingTracker(store);
+      portfolio = new PortfolioIndex(store);
+      aiDecisions = repositories?.aiDecisions;
+
+      const monitor = createMonitorFromConfig(core, store);
+      monitor.on('error', (error: Error) => console.error('❌ Indexer error:', error.message));
+      monitor.on('event', (event: IndexedEvent) => {
+        tenantScores?.handleEvent(event).catch((error: Error) => {
+          console.error('❌ Tenant score refresh failed:', error.message);
+        });
+        maintenance?.handleEvent(event).catch((error: Error) => {
+          console.error('❌ Maintenance refresh failed:', error.message);
+        });
+        contractors?.handleEvent(event).catch((error: Error) => {
+          console.error('❌ Contractor refresh failed:', error.message);
+        });
+        deposits?.handleEvent(event).catch((error: Error) => {
+          console.error('❌ Deposit settlement refresh failed:', error.message);
+        });
+        tokens?.handleEvent(event).catch((error: Error) => {
+          console.error('❌ Payment token refresh failed:', error.message);
+        });
+        access?.handleEvent(event).catch((error: Error) => {
+          console.error('❌ Access directory refresh failed:', error.message);
+        });
+        catalog?.handleEvent(event).catch((error: Error) => {
+          console.error('❌ Property catalog refresh failed:', error.message);
+        });
+        buildings?.handleEvent(event).catch((error: Error) => {
+          console.error('❌ Building totals refresh failed:', error.message);
+        });
+        portfolio?.handleEvent(event).catch((error: Error) => {
+          console.error('❌ Portfolio refresh failed:', error.message);
+        });
+      });
+      monitor.on('reorg', () => {
+        tenantScores?.invalidate();
+        maintenance?.invalidate();
+        contractors?.invalidate();
+        deposits?.invalidate();
+        tokens?.invalidate();
+        access?.invalidate();
+        catalog?.invalidate();
+        buildings?.invalidate();
+        portfolio?.invalidate();
+      });
+      monitor.start();
+
+      if (config.blockchain.aiWalletPrivateKey) {
+        const agent = new ethers.Wallet(config.blockchain.aiWalletPrivateKey, provider);
+        new AutopayKeeper(
+          store,
+          new ContractAutopayGateway(agent, core.address),
+          repositories?.tenantNotices,
+          { intervalMs: config.autopay.intervalMs }
+        ).start();
+      } else {
+        console.warn('⚠️  AI_WALLET_PRIVATE_KEY not set; autopay collection disabled');
+      }
+
+      aiEngine = new AIDecisionEngine({
+        policySource: new ContractApprovalPolicySource(provider, core.address),
+        tokenSource: tokens,
+        contractorSource: contractors,
+      });
+    } else {
+      console.warn(
+        `⚠️  No RentFlowCore in ${config.blockchain.deploymentsDir} for this chain; ` +
+          'on-chain indexer, tenant scoring and maintenance tracking disabled'
+      );
+    }
+
+    const { jwtSecret } = config.auth;
+    if (jwtSecret && jwtSecret.length >= MIN_SECRET_LENGTH) {
+      auth = new SiweAuth({
+        secret: jwtSecret,
+        domain: config.auth.siweDomain,
+        chainId: core?.chainId,
+        tokenTtlSeconds: config.auth.tokenTtlSeconds,
+        nonceTtlSeconds: config.auth.nonceTtlSeconds,
+      });
+    } else {
+      console.warn(
+        `⚠️  JWT_SECRET not set or shorter than ${MIN_SECRET_LENGTH} characters; ` +
+          'sign-in and wallet-scoped routes disabled'
+      );
+    }
+
+    const app = createApp({
+      provider,
+      tenantScores,
+      maintenance,
+      maintenanceDescriptions,
+      contractors,
+      deposits,
+      tokens,
+      access,
+      catalog,
+      buildings,
+      aiDecisions,
+      portfolio,
+      aiEngine,
+      deployments,
+      auth,
+    });
+    app.listen(config.port, () => {
+      console.log(`🚀 RentFlow backend listening on port ${config.port}`);
+    });
+  })().catch((error) => {
+    console.error('❌ Backend failed to start:', error);
+    process.exit(1);
+  });
+}
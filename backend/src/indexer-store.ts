@@ -0,0 +1,183 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { RentFlowEventName } from './contract-abi';
+
+/**
+ * Storage for the on-chain event indexer
+ *
+ * DECISION: Store behind an interface with in-memory and JSON-file versions
+ * REASON: The monitor must run against a bare Hardhat node with no database;
+ *         a SQL-backed store can implement the same contract later
+ */
+
+export type EventArgValue = string | number | boolean;
+
+export interface IndexedEvent {
+  /** `${transactionHash}-${logIndex}`, unique per log */
+  id: string;
+  name: RentFlowEventName;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  /** Block timestamp in seconds */
+  timestamp: number;
+  /** Decoded event args; uint256 values are decimal strings */
+  args: Record<string, EventArgValue>;
+}
+
+export interface IndexerCursor {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+export interface EventFilter {
+  name?: RentFlowEventName;
+  fromBlock?: number;
+  toBlock?: number;
+  /** Match on a decoded arg, e.g. { leaseId: '3' } */
+  args?: Record<string, EventArgValue>;
+}
+
+export interface IndexerStore {
+  getCursor(): Promise<IndexerCursor | null>;
+  getBlockHash(blockNumber: number): Promise<string | undefined>;
+  /** Stored block numbers at or below `blockNumber`, newest first */
+  getRecentBlocks(blockNumber: number): Promise<IndexedBlock[]>;
+  /** Persist a batch of events, the block hashes seen, and the new cursor atomically */
+  saveBatch(events: IndexedEvent[], blocks: IndexedBlock[], cursor: IndexerCursor): Promise<void>;
+  /** Drop everything above `blockNumber` and move the cursor back; returns removed event count */
+  rollbackTo(cursor: IndexerCursor | null): Promise<number>;
+  /** Forget block hashes older than `blockNumber` (events are kept) */
+  pruneBlocks(blockNumber: number): Promise<void>;
+  getEvents(filter?: EventFilter): Promise<IndexedEvent[]>;
+}
+
+interface StoreSnapshot {
+  cursor: IndexerCursor | null;
+  blocks: IndexedBlock[];
+  events: IndexedEvent[];
+}
+
+export class MemoryIndexerStore implements IndexerStore {
+  protected cursor: IndexerCursor | null = null;
+  protected blocks = new Map<number, string>();
+  protected events: IndexedEvent[] = [];
+
+  async getCursor(): Promise<IndexerCursor | null> {
+    return this.cursor;
+  }
+
+  async getBlockHash(blockNumber: number): Promise<string | undefined> {
+    return this.blocks.get(blockNumber);
+  }
+
+  async getRecentBlocks(blockNumber: number): Promise<IndexedBlock[]> {
+    return [...this.blocks.entries()]
+      .filter(([number]) => number <= blockNumber)
+      .sort(([a], [b]) => b - a)
+      .map(([number, hash]) => ({ number, hash }));
+  }
+
+  async saveBatch(events: IndexedEvent[], blocks: IndexedBlock[], cursor: IndexerCursor): Promise<void> {
+    const known = new Set(this.events.map((event) => event.id));
+    for (const event of events) {
+      if (!known.has(event.id)) this.events.push(event);
+    }
+    this.events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+    for (const block of blocks) this.blocks.set(block.number, block.hash);
+    this.blocks.set(cursor.blockNumber, cursor.blockHash);
+    this.cursor = cursor;
+    await this.persist();
+  }
+
+  async rollbackTo(cursor: IndexerCursor | null): Promise<number> {
+    const keepUpTo = cursor?.blockNumber ?? -1;
+    const before = this.events.length;
+
+    this.events = this.events.filter((event) => event.blockNumber <= keepUpTo);
+    for (const number of [...this.blocks.keys()]) {
+      if (number > keepUpTo) this.blocks.delete(number);
+    }
+    this.cursor = cursor;
+    await this.persist();
+
+    return before - this.events.length;
+  }
+
+  async pruneBlocks(blockNumber: number): Promise<void> {
+    for (const number of [...this.blocks.keys()]) {
+      if (number < blockNumber) this.blocks.delete(number);
+    }
+    await this.persist();
+  }
+
+  async getEvents(filter: EventFilter = {}): Promise<IndexedEvent[]> {
+    return this.events.filter((event) => {
+      if (filter.name && event.name !== filter.name) return false;
+      if (filter.fromBlock !== undefined && event.blockNumber < filter.fromBlock) return false;
+      if (filter.toBlock !== undefined && event.blockNumber > filter.toBlock) return false;
+      if (filter.args) {
+        for (const [key, value] of Object.entries(filter.args)) {
+          if (String(event.args[key]).toLowerCase() !== String(value).toLowerCase()) return false;
+        }
+      }
+      return true;
+    });
+  }
+
+  protected async persist(): Promise<void> {
+    // In-memory store has nothing to flush
+  }
+
+  protected snapshot(): StoreSnapshot {
+    return {
+      cursor: this.cursor,
+      blocks: [...this.blocks.entries()].map(([number, hash]) => ({ number, hash })),
+      events: this.events,
+    };
+  }
+
+  protected restore(snapshot: StoreSnapshot): void {
+    this.cursor = snapshot.cursor;
+    this.blocks = new Map(snapshot.blocks.map((block) => [block.number, block.hash]));
+    this.events = snapshot.events;
+  }
+}
+
+/**
+ * JSON-file store so a restarted monitor resumes from its last cursor.
+ * Writes go to a temp file first and are renamed into place.
+ */
+export class FileIndexerStore extends MemoryIndexerStore {
+  private loaded = false;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  async load(): Promise<this> {
+    if (this.loaded) return this;
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      this.restore(JSON.parse(raw) as StoreSnapshot);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    this.loaded = true;
+    return this;
+  }
+
+  protected async persist(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(this.snapshot()));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
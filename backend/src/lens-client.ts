@@ -0,0 +1,261 @@
+import { ethers } from 'ethers';
+import { RENTFLOW_LENS_ABI } from './contract-abi';
+import { MAINTENANCE_STATUSES, REJECTION_REASONS } from './maintenance-tracker';
+import { MAINTENANCE_CATEGORIES, MaintenanceCategory } from './ai-engine';
+import { LeaseStatus, MaintenanceStatus, RejectionReason } from './db/repositories';
+
+/**
+ * RentFlowLens Client
+ *
+ * DECISION: Read whole records through RentFlowLens, a page per eth_call
+ * REASON: RentFlowCore's getters return one field group per call, so a
+ *         dashboard page of 50 properties would be hundreds of RPC round
+ *         trips; the lens returns the same data in one call per page
+ *
+ * Lists are fetched page by page until the reported total is reached, and
+ * ID batches are split into pages no larger than the lens accepts.
+ */
+
+/** Contract enum order (RentFlowTypes.sol) */
+export const LEASE_STATUSES: readonly LeaseStatus[] = ['active', 'paused', 'terminated', 'completed'];
+
+/** RentFlowLens.MAX_PAGE_SIZE */
+export const MAX_PAGE_SIZE = 100;
+
+export interface PropertyRecord {
+  propertyId: number;
+  owner: string;
+  monthlyRent: bigint;
+  securityDeposit: bigint;
+  isActive: boolean;
+  /** Seconds */
+  createdAt: number;
+  paymentToken: string;
+  /** Catalog entry hash, null until the owner sets one */
+  metadataHash: string | null;
+  /** The building this unit belongs to, null unless it is a unit */
+  buildingId: number | null;
+  unitCount: number;
+  maintenanceFund: bigint;
+}
+
+export interface LeaseRecord {
+  leaseId: number;
+  propertyId: number;
+  tenant: string;
+  /** Seconds */
+  startDate: number;
+  endDate: number;
+  rentDueDay: number;
+  status: LeaseStatus;
+  totalPaid: bigint;
+  securityDepositHeld: bigint;
+  periodsPaid: number;
+  periodCount: number;
+  arrears: bigint;
+  periodsInArrears: number;
+}
+
+export interface MaintenanceRecord {
+  requestId: number;
+  propertyId: number;
+  requestedBy: string;
+  description: string;
+  estimatedCost: bigint;
+  approvedAmount: bigint;
+  contractor: string | null;
+  status: MaintenanceStatus;
+  /** Seconds */
+  createdAt: number;
+  category: MaintenanceCategory;
+  evidenceHash: string | null;
+  disputeDeadline: number | null;
+  rejectionReason: RejectionReason | null;
+}
+
+/** RentFlowLens structs as ethers decodes them */
+interface OnChainPropertyView {
+  propertyId: bigint;
+  property: {
+    owner: string;
+    monthlyRent: bigint;
+    securityDeposit: bigint;
+    isActive: boolean;
+    createdAt: bigint;
+    paymentToken: string;
+  };
+  metadataHash: string;
+  unit: { isUnit: boolean; buildingId: bigint };
+  unitCount: bigint;
+  maintenanceFund: bigint;
+}
+
+interface OnChainLeaseView {
+  leaseId: bigint;
+  lease: {
+    propertyId: bigint;
+    tenant: string;
+    startDate: bigint;
+    endDate: bigint;
+    rentDueDay: bigint;
+    totalPaid: bigint;
+    status: bigint;
+    securityDepositHeld: bigint;
+    periodsPaid: bigint;
+    periodCount: bigint;
+  };
+  arrears: bigint;
+  periodsInArrears: bigint;
+}
+
+interface OnChainMaintenanceView {
+  requestId: bigint;
+  request: {
+    propertyId: bigint;
+    requestedBy: string;
+    description: string;
+    estimatedCost: bigint;
+    approvedAmount: bigint;
+    contractor: string;
+    status: bigint;
+    createdAt: bigint;
+    category: bigint;
+    evidenceHash: string;
+    disputeDeadline: bigint;
+    rejectionReason: bigint;
+  };
+}
+
+const orNull = (value: string, empty: string): string | null => (value === empty ? null : value);
+
+function toPropertyRecord(view: OnChainPropertyView): PropertyRecord {
+  const { property, unit } = view;
+  return {
+    propertyId: Number(view.propertyId),
+    owner: property.owner,
+    monthlyRent: property.monthlyRent,
+    securityDeposit: property.securityDeposit,
+    isActive: property.isActive,
+    createdAt: Number(property.createdAt),
+    paymentToken: property.paymentToken,
+    metadataHash: orNull(view.metadataHash, ethers.ZeroHash),
+    buildingId: unit.isUnit ? Number(unit.buildingId) : null,
+    unitCount: Number(view.unitCount),
+    maintenanceFund: view.maintenanceFund,
+  };
+}
+
+function toLeaseRecord(view: OnChainLeaseView): LeaseRecord {
+  const { lease } = view;
+  return {
+    leaseId: Number(view.leaseId),
+    propertyId: Number(lease.propertyId),
+    tenant: lease.tenant,
+    startDate: Number(lease.startDate),
+    endDate: Number(lease.endDate),
+    rentDueDay: Number(lease.rentDueDay),
+    status: LEASE_STATUSES[Number(lease.status)],
+    totalPaid: lease.totalPaid,
+    securityDepositHeld: lease.securityDepositHeld,
+    periodsPaid: Number(lease.periodsPaid),
+    periodCount: Number(lease.periodCount),
+    arrears: view.arrears,
+    periodsInArrears: Number(view.periodsInArrears),
+  };
+}
+
+function toMaintenanceRecord(view: OnChainMaintenanceView): MaintenanceRecord {
+  const { request } = view;
+  const disputeDeadline = Number(request.disputeDeadline);
+  return {
+    requestId: Number(view.requestId),
+    propertyId: Number(request.propertyId),
+    requestedBy: request.requestedBy,
+    description: request.description,
+    estimatedCost: request.estimatedCost,
+    approvedAmount: request.approvedAmount,
+    contractor: orNull(request.contractor, ethers.ZeroAddress),
+    status: MAINTENANCE_STATUSES[Number(request.status)],
+    createdAt: Number(request.createdAt),
+    category: MAINTENANCE_CATEGORIES[Number(request.category)],
+    evidenceHash: orNull(request.evidenceHash, ethers.ZeroHash),
+    disputeDeadline: disputeDeadline === 0 ? null : disputeDeadline,
+    rejectionReason: REJECTION_REASONS[Number(request.rejectionReason)] ?? null,
+  };
+}
+
+export class RentFlowLensClient {
+  private contract: ethers.Contract;
+
+  /**
+   * @param pageSize Records per eth_call, at most MAX_PAGE_SIZE; smaller pages
+   *        suit RPC providers with tight response limits
+   */
+  constructor(
+    runner: ethers.ContractRunner,
+    lensAddress: string,
+    private pageSize = 50
+  ) {
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      throw new Error(`Page size must be 1-${MAX_PAGE_SIZE}`);
+    }
+    this.contract = new ethers.Contract(lensAddress, RENTFLOW_LENS_ABI, runner);
+  }
+
+  /** One page of an owner's properties, and how many they have in all */
+  async getOwnerPropertyPage(owner: string, offset: number): Promise<{ records: PropertyRecord[]; total: number }> {
+    const [page, total] = await this.contract.getOwnerPropertyPage(owner, offset, this.pageSize);
+    return { records: page.map(toPropertyRecord), total: Number(total) };
+  }
+
+  /** One page of a tenant's leases, and how many they have held in all */
+  async getTenantLeasePage(tenant: string, offset: number): Promise<{ records: LeaseRecord[]; total: number }> {
+    const [page, total] = await this.contract.getTenantLeasePage(tenant, offset, this.pageSize);
+    return { records: page.map(toLeaseRecord), total: Number(total) };
+  }
+
+  /** Every property the owner has registered, one eth_call per page */
+  getOwnerProperties(owner: string): Promise<PropertyRecord[]> {
+    return this.all((offset) => this.getOwnerPropertyPage(owner, offset));
+  }
+
+  /** Every lease the tenant has held, one eth_call per page */
+  getTenantLeases(tenant: string): Promise<LeaseRecord[]> {
+    return this.all((offset) => this.getTenantLeasePage(tenant, offset));
+  }
+
+  getProperties(propertyIds: number[]): Promise<PropertyRecord[]> {
+    return this.batch(propertyIds, async (ids) => (await this.contract.getProperties(ids)).map(toPropertyRecord));
+  }
+
+  getLeases(leaseIds: number[]): Promise<LeaseRecord[]> {
+    return this.batch(leaseIds, async (ids) => (await this.contract.getLeases(ids)).map(toLeaseRecord));
+  }
+
+  getMaintenanceRequests(requestIds: number[]): Promise<MaintenanceRecord[]> {
+    return this.batch(requestIds, async (ids) =>
+      (await this.contract.getMaintenanceRequests(ids)).map(toMaintenanceRecord)
+    );
+  }
+
+  private async all<T>(fetchPage: (offset: number) => Promise<{ records: T[]; total: number }>): Promise<T[]> {
+    const records: T[] = [];
+    let total: number;
+    do {
+      const page = await fetchPage(records.length);
+      records.push(...page.records);
+      total = page.total;
+      // A page can come back short if the list changed between calls
+      if (page.records.length === 0) break;
+    } while (records.length < total);
+    return records;
+  }
+
+  private async batch<T>(ids: number[], fetch: (ids: number[]) => Promise<T[]>): Promise<T[]> {
+    const records: T[] = [];
+    for (let start = 0; start < ids.length; start += this.pageSize) {
+      records.push(...(await fetch(ids.slice(start, start + this.pageSize))));
+    }
+    return records;
+  }
+}
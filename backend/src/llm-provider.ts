@@ -0,0 +1,98 @@
+import OpenAI from 'openai';
+
+/**
+ * LLM provider abstraction
+ *
+ * DECISION: The decision engine never talks to OpenAI directly
+ * REASON: CI and offline demos run against the deterministic StubLLMProvider,
+ *         and swapping vendors only means adding another provider class
+ */
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  /** Text returned by the stub provider (and used as a fallback on failure) */
+  fallback: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+/**
+ * Offline provider: returns the caller's deterministic fallback text.
+ */
+export class StubLLMProvider implements LLMProvider {
+  readonly name = 'stub';
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    return request.fallback;
+  }
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(
+    apiKey: string,
+    private model: string,
+    timeoutMs: number
+  ) {
+    this.client = new OpenAI({ apiKey, timeout: timeoutMs, maxRetries: 0 });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens ?? 300,
+      temperature: request.temperature ?? 0.3,
+    });
+
+    const content = completion.choices[0]?.message?.content?.trim();
+    return content || request.fallback;
+  }
+}
+
+/**
+ * Race a provider call against a timeout; any failure returns the fallback text.
+ */
+export async function completeWithFallback(
+  provider: LLMProvider,
+  request: LLMCompletionRequest,
+  timeoutMs: number
+): Promise<string> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<string>((resolve) => {
+    timer = setTimeout(() => resolve(request.fallback), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([provider.complete(request), timeout]);
+  } catch (error) {
+    console.warn(`⚠️  LLM provider "${provider.name}" failed, using fallback:`, (error as Error).message);
+    return request.fallback;
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+}
+
+export function createLLMProvider(options: {
+  provider: string;
+  openaiApiKey?: string;
+  openaiModel: string;
+  requestTimeoutMs: number;
+}): LLMProvider {
+  if (options.provider === 'openai' && options.openaiApiKey) {
+    return new OpenAIProvider(options.openaiApiKey, options.openaiModel, options.requestTimeoutMs);
+  }
+  return new StubLLMProvider();
+}
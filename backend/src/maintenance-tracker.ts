@@ -0,0 +1,293 @@
+import { ethers } from 'ethers';
+import { RENTFLOW_CORE_ABI } from './contract-abi';
+import { IndexedEvent, IndexerStore } from './indexer-store';
+import { MaintenanceRequestRepository, MaintenanceStatus, RejectionReason } from './db/repositories';
+import { Page, PageQuery, paginate, SortKeys } from './pagination';
+
+/**
+ * Maintenance Request Tracker
+ *
+ * DECISION: Request state is replayed from indexed Maintenance* events
+ * REASON: The dashboard needs the whole trail (who approved, when work was
+ *         submitted, who signed off), which a single contract read cannot
+ *         give; replaying the same events the contract emitted keeps the
+ *         API and the chain in step, including after a reorg
+ */
+
+/** Contract enum order (RentFlowTypes.sol); new states are appended there */
+export const MAINTENANCE_STATUSES: readonly MaintenanceStatus[] = [
+  'pending',
+  'approved',
+  'in_progress',
+  'completed',
+  'rejected',
+  'awaiting_owner_approval',
+  'accepted',
+  'work_submitted',
+  'disputed',
+];
+
+/** Index 0 is RejectionReason.None, which the contract never emits */
+export const REJECTION_REASONS: readonly (RejectionReason | null)[] = [
+  null,
+  'not_covered',
+  'duplicate',
+  'tenant_responsibility',
+  'not_essential',
+  'work_unsatisfactory',
+  'other',
+];
+
+export type EscalationReason =
+  | 'category_blocked'
+  | 'above_auto_approval_limit'
+  | 'daily_cap_exceeded'
+  | 'monthly_cap_exceeded';
+
+export const ESCALATION_REASONS: readonly EscalationReason[] = [
+  'category_blocked',
+  'above_auto_approval_limit',
+  'daily_cap_exceeded',
+  'monthly_cap_exceeded',
+];
+
+export interface MaintenanceHistoryEntry {
+  status: MaintenanceStatus;
+  /** Block timestamp, seconds */
+  timestamp: number;
+  transaction_hash: string;
+  /** Address that moved the request, when the event records one */
+  actor?: string;
+}
+
+export interface MaintenanceView {
+  request_id: number;
+  property_id: number;
+  status: MaintenanceStatus;
+  /** USDC base units as decimal strings */
+  estimated_cost: string;
+  approved_amount: string;
+  contractor: string | null;
+  escalation_reason: EscalationReason | null;
+  rejection_reason: RejectionReason | null;
+  evidence_hash: string | null;
+  /** Seconds; payment auto-releases after this unless disputed */
+  dispute_deadline: number | null;
+  signed_off_by: string | null;
+  history: MaintenanceHistoryEntry[];
+}
+
+export type MaintenanceSort = 'request_id' | 'requested_at' | 'estimated_cost';
+
+export interface MaintenanceFilter {
+  /** Requests on any of these properties */
+  propertyIds?: Set<number>;
+  status?: MaintenanceStatus;
+}
+
+export const MAINTENANCE_SORT: SortKeys<MaintenanceView, MaintenanceSort> = {
+  fields: {
+    request_id: (request) => request.request_id,
+    requested_at: (request) => request.history[0].timestamp,
+    estimated_cost: (request) => request.estimated_cost,
+  },
+  id: (request) => request.request_id,
+};
+
+const MAINTENANCE_EVENTS = new Set<IndexedEvent['name']>([
+  'MaintenanceRequested',
+  'MaintenanceApproved',
+  'MaintenanceEscalated',
+  'MaintenanceRejected',
+  'MaintenanceAccepted',
+  'MaintenanceStarted',
+  'MaintenanceWorkSubmitted',
+  'MaintenanceDisputed',
+  'MaintenanceSignedOff',
+  'MaintenancePaid',
+]);
+
+const lower = (value: unknown): string => String(value).toLowerCase();
+
+/**
+ * Fold one request's events (in chain order) into its current state
+ * @returns null when the MaintenanceRequested event has not been indexed
+ */
+export function replayMaintenance(events: IndexedEvent[]): MaintenanceView | null {
+  const requested = events.find((event) => event.name === 'MaintenanceRequested');
+  if (!requested) return null;
+
+  const view: MaintenanceView = {
+    request_id: Number(requested.args.requestId),
+    property_id: Number(requested.args.propertyId),
+    status: 'pending',
+    estimated_cost: String(requested.args.estimatedCost),
+    approved_amount: '0',
+    contractor: null,
+    escalation_reason: null,
+    rejection_reason: null,
+    evidence_hash: null,
+    dispute_deadline: null,
+    signed_off_by: null,
+    history: [],
+  };
+
+  const move = (event: IndexedEvent, status: MaintenanceStatus, actor?: unknown) => {
+    view.status = status;
+    view.history.push({
+      status,
+      timestamp: event.timestamp,
+      transaction_hash: event.transactionHash,
+      ...(actor !== undefined && { actor: lower(actor) }),
+    });
+  };
+
+  for (const event of events) {
+    const { args } = event;
+    switch (event.name) {
+      case 'MaintenanceRequested':
+        move(event, 'pending');
+        break;
+      case 'MaintenanceEscalated':
+        view.approved_amount = String(args.proposedAmount);
+        view.contractor = lower(args.contractor);
+        view.escalation_reason = ESCALATION_REASONS[Number(args.reason)] ?? null;
+        move(event, 'awaiting_owner_approval');
+        break;
+      case 'MaintenanceApproved':
+        view.approved_amount = String(args.approvedAmount);
+        view.contractor = lower(args.contractor);
+        move(event, 'approved');
+        break;
+      case 'MaintenanceRejected':
+        view.rejection_reason = REJECTION_REASONS[Number(args.reason)] ?? null;
+        move(event, 'rejected', args.rejectedBy);
+        break;
+      case 'MaintenanceAccepted':
+        move(event, 'accepted', args.contractor);
+        break;
+      case 'MaintenanceStarted':
+        move(event, 'in_progress', args.contractor);
+        break;
+      case 'MaintenanceWorkSubmitted':
+        view.evidence_hash = lower(args.evidenceHash);
+        view.dispute_deadline = Number(args.disputeDeadline);
+        move(event, 'work_submitted');
+        break;
+      case 'MaintenanceDisputed':
+        move(event, 'disputed', args.disputedBy);
+        break;
+      case 'MaintenanceSignedOff':
+        // Always followed by MaintenancePaid in the same transaction
+        view.signed_off_by = lower(args.signedOffBy);
+        break;
+      case 'MaintenancePaid':
+        move(event, 'completed');
+        break;
+    }
+  }
+
+  return view;
+}
+
+/**
+ * The text a tenant filed with a request. MaintenanceRequested does not carry
+ * it, so it is read from the contract rather than replayed.
+ */
+export interface MaintenanceDescriptionSource {
+  /** Returns null when the request does not exist */
+  getDescription(requestId: number): Promise<string | null>;
+}
+
+/** Reads descriptions from RentFlowCore; they never change once filed, so are cached for good */
+export class ContractMaintenanceDescriptionSource implements MaintenanceDescriptionSource {
+  private contract: ethers.Contract;
+  private cache = new Map<number, string>();
+
+  constructor(provider: ethers.Provider, contractAddress: string) {
+    this.contract = new ethers.Contract(contractAddress, RENTFLOW_CORE_ABI, provider);
+  }
+
+  async getDescription(requestId: number): Promise<string | null> {
+    const cached = this.cache.get(requestId);
+    if (cached !== undefined) return cached;
+
+    const request = await this.contract.maintenanceRequests(requestId);
+    // Unfiled slots read back as zeroes
+    if (request.requestedBy === ethers.ZeroAddress) return null;
+    this.cache.set(requestId, request.description);
+    return request.description;
+  }
+}
+
+export class MaintenanceTracker {
+  private cache = new Map<number, MaintenanceView>();
+
+  constructor(
+    private store: IndexerStore,
+    private requests?: MaintenanceRequestRepository
+  ) {}
+
+  /** Returns null when the request has not been indexed */
+  async getRequest(requestId: number): Promise<MaintenanceView | null> {
+    const cached = this.cache.get(requestId);
+    if (cached) return cached;
+    return this.recompute(requestId);
+  }
+
+  /** Requests for a property, newest first */
+  async listByProperty(propertyId: number): Promise<MaintenanceView[]> {
+    const requested = await this.store.getEvents({
+      name: 'MaintenanceRequested',
+      args: { propertyId: String(propertyId) },
+    });
+    const views = await Promise.all(requested.map((event) => this.getRequest(Number(event.args.requestId))));
+    return views.filter((view): view is MaintenanceView => view !== null).reverse();
+  }
+
+  async listRequests(filter: MaintenanceFilter, page: PageQuery<MaintenanceSort>): Promise<Page<MaintenanceView>> {
+    const requested = await this.store.getEvents({ name: 'MaintenanceRequested' });
+    const views = await Promise.all(
+      requested
+        .filter((event) => !filter.propertyIds || filter.propertyIds.has(Number(event.args.propertyId)))
+        .map((event) => this.getRequest(Number(event.args.requestId)))
+    );
+    const matching = views.filter(
+      (view): view is MaintenanceView => view !== null && (filter.status === undefined || view.status === filter.status)
+    );
+    return paginate(matching, page, MAINTENANCE_SORT);
+  }
+
+  /** Monitor hook: replay the affected request whenever one of its events is indexed */
+  async handleEvent(event: IndexedEvent): Promise<void> {
+    if (!MAINTENANCE_EVENTS.has(event.name)) return;
+    await this.recompute(Number(event.args.requestId));
+  }
+
+  /** Forget cached requests, e.g. after the indexer rolls back a reorg */
+  invalidate(): void {
+    this.cache.clear();
+  }
+
+  private async recompute(requestId: number): Promise<MaintenanceView | null> {
+    const events = await this.store.getEvents({ args: { requestId: String(requestId) } });
+    const view = replayMaintenance(events.filter((event) => MAINTENANCE_EVENTS.has(event.name)));
+    if (!view) {
+      this.cache.delete(requestId);
+      return null;
+    }
+
+    this.cache.set(requestId, view);
+    if (this.requests) {
+      await this.requests.syncWorkflow(requestId, {
+        status: view.status,
+        approvedAmount: view.approved_amount,
+        contractorAddress: view.contractor,
+        rejectionReason: view.rejection_reason,
+        evidenceHash: view.evidence_hash,
+        disputeDeadline: view.dispute_deadline === null ? null : new Date(view.dispute_deadline * 1000),
+      });
+    }
+    return view;
+  }
+}
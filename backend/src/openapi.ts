@@ -0,0 +1,292 @@
+import express, { NextFunction, Request, RequestHandler, Response } from 'express';
+import { ethers } from 'ethers';
+
+/**
+ * OpenAPI document generated from the route definitions
+ *
+ * DECISION: Routes are registered through ApiRegistry, which records each
+ *           one's parameters and responses as it mounts it on Express
+ * REASON: A hand-written spec drifts from the handlers; generating the
+ *         document from the same call that mounts the route keeps the two
+ *         together, and the declared query parameters are parsed from the
+ *         same schemas clients are generated from
+ *
+ * A route declared `secured` runs the registry's authentication handler
+ * first and is documented with the bearer scheme and the handler's responses.
+ *
+ * Only the subset of JSON Schema the API uses is supported (see Schema);
+ * validateSchema() checks values against it, for query parameters here and
+ * for response bodies in the contract tests.
+ */
+
+export interface Schema {
+  $ref?: string;
+  /** Only to make a $ref nullable: OpenAPI 3.0 ignores siblings of $ref */
+  allOf?: Schema[];
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  nullable?: boolean;
+  enum?: readonly (string | number | boolean)[];
+  pattern?: string;
+  /** 'address' values must also pass the EIP-55 checksum when mixed-case */
+  format?: 'address' | 'date-time' | 'uint256' | 'cursor';
+  minimum?: number;
+  maximum?: number;
+  default?: string | number | boolean;
+  properties?: Record<string, Schema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | Schema;
+  items?: Schema;
+}
+
+export interface ParameterSpec {
+  name: string;
+  in: 'path' | 'query';
+  description?: string;
+  required?: boolean;
+  schema: Schema;
+  /** Response message when a query value fails the schema; defaults to `Invalid ${name}` */
+  error?: string;
+}
+
+export interface ResponseSpec {
+  description: string;
+  schema?: Schema;
+}
+
+export interface RouteSpec {
+  /** Express syntax, e.g. /api/leases/:leaseId */
+  path: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  parameters?: ParameterSpec[];
+  requestBody?: Schema;
+  responses: Record<number, ResponseSpec>;
+  /** Requires a session token; see Authentication */
+  secured?: boolean;
+}
+
+export interface Authentication {
+  /** Runs before the handlers of every secured route */
+  handler: RequestHandler;
+  /** What the handler itself can answer, documented on every secured route */
+  responses: Record<number, ResponseSpec>;
+  description: string;
+}
+
+export interface ApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+type Method = 'get' | 'post';
+
+interface RegisteredRoute extends RouteSpec {
+  method: Method;
+}
+
+export const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+/** Returns one message per mismatch; empty when `value` matches `schema` */
+export function validateSchema(
+  schema: Schema,
+  value: unknown,
+  components: Record<string, Schema> = {},
+  path = '$'
+): string[] {
+  if (schema.$ref) {
+    const resolved = components[schema.$ref.replace('#/components/schemas/', '')];
+    if (!resolved) return [`${path}: unknown schema ${schema.$ref}`];
+    return validateSchema(resolved, value, components, path);
+  }
+  if (value === null) return schema.nullable ? [] : [`${path}: must not be null`];
+  if (schema.allOf) return schema.allOf.flatMap((part) => validateSchema(part, value, components, path));
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    return [`${path}: must be one of ${schema.enum.join(', ')}`];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path}: must be an object`];
+      const record = value as Record<string, unknown>;
+      const errors = (schema.required ?? [])
+        .filter((key) => record[key] === undefined)
+        .map((key) => `${path}.${key}: is required`);
+      for (const [key, field] of Object.entries(record)) {
+        const fieldSchema = schema.properties?.[key];
+        if (fieldSchema) {
+          if (field !== undefined) errors.push(...validateSchema(fieldSchema, field, components, `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key}: is not allowed`);
+        } else if (typeof schema.additionalProperties === 'object') {
+          errors.push(...validateSchema(schema.additionalProperties, field, components, `${path}.${key}`));
+        }
+      }
+      return errors;
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${path}: must be an array`];
+      return schema.items
+        ? value.flatMap((item, i) => validateSchema(schema.items!, item, components, `${path}[${i}]`))
+        : [];
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: must be a string`];
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) return [`${path}: must match ${schema.pattern}`];
+      if (schema.format === 'address' && !ethers.isAddress(value)) return [`${path}: must be an address`];
+      if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) return [`${path}: must be a date-time`];
+      return [];
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path}: must be a number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path}: must be an integer`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: must be >= ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: must be <= ${schema.maximum}`];
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: must be a boolean`];
+    default:
+      return [];
+  }
+}
+
+/** Query strings arrive as text; convert them to the type the schema declares */
+function coerce(schema: Schema, raw: string): unknown {
+  switch (schema.type) {
+    case 'integer':
+      return /^-?\d{1,16}$/.test(raw) ? Number(raw) : raw;
+    case 'number':
+      return raw.trim() !== '' && Number.isFinite(Number(raw)) ? Number(raw) : raw;
+    case 'boolean':
+      return raw === 'true' ? true : raw === 'false' ? false : raw;
+    default:
+      return raw;
+  }
+}
+
+export class ApiRegistry {
+  private routes: RegisteredRoute[] = [];
+
+  constructor(
+    private app: express.Express,
+    private info: ApiInfo,
+    private schemas: Record<string, Schema>,
+    /** Responses every route can give (rate limiting, internal errors) */
+    private commonResponses: Record<number, ResponseSpec> = {},
+    private authentication?: Authentication
+  ) {}
+
+  get(spec: RouteSpec, ...handlers: RequestHandler[]): void {
+    this.register('get', spec, handlers);
+  }
+
+  post(spec: RouteSpec, ...handlers: RequestHandler[]): void {
+    this.register('post', spec, handlers);
+  }
+
+  /** The OpenAPI 3.0 document for every route registered so far */
+  document(): object {
+    const paths: Record<string, Record<string, object>> = {};
+    for (const route of this.routes) {
+      const path = route.path.replace(/:(\w+)/g, '{$1}');
+      paths[path] = { ...paths[path], [route.method]: this.operation(route) };
+    }
+    return {
+      openapi: '3.0.3',
+      info: this.info,
+      paths,
+      components: {
+        schemas: this.schemas,
+        ...(this.authentication && {
+          securitySchemes: {
+            session: {
+              type: 'http',
+              scheme: 'bearer',
+              bearerFormat: 'JWT',
+              description: this.authentication.description,
+            },
+          },
+        }),
+      },
+    };
+  }
+
+  private register(method: Method, spec: RouteSpec, handlers: RequestHandler[]): void {
+    if (spec.secured && !this.authentication) {
+      throw new Error(`${spec.path} is secured but the registry has no authentication`);
+    }
+    this.routes.push({ ...spec, method });
+    const query = (spec.parameters ?? []).filter((parameter) => parameter.in === 'query');
+    const authenticate = spec.secured ? [this.authentication!.handler] : [];
+    this.app[method](spec.path, ...authenticate, this.parseQuery(query), ...handlers);
+  }
+
+  /** Validate the declared query parameters into res.locals.query, defaults applied */
+  private parseQuery(parameters: ParameterSpec[]): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const parsed: Record<string, unknown> = {};
+      for (const parameter of parameters) {
+        const raw = req.query[parameter.name];
+        const error = parameter.error ?? `Invalid ${parameter.name}`;
+        if (raw === undefined) {
+          if (parameter.required) return res.status(400).json({ success: false, error });
+          if (parameter.schema.default !== undefined) parsed[parameter.name] = parameter.schema.default;
+          continue;
+        }
+        const value = typeof raw === 'string' ? coerce(parameter.schema, raw) : raw;
+        if (validateSchema(parameter.schema, value, this.schemas).length > 0) {
+          return res.status(400).json({ success: false, error });
+        }
+        parsed[parameter.name] = value;
+      }
+      res.locals.query = parsed;
+      return next();
+    };
+  }
+
+  private operation(route: RegisteredRoute): object {
+    const declared = route.parameters ?? [];
+    // Undeclared path parameters are still listed, as plain strings
+    const pathParameters = [...route.path.matchAll(/:(\w+)/g)]
+      .map((match) => match[1])
+      .filter((name) => !declared.some((parameter) => parameter.in === 'path' && parameter.name === name))
+      .map((name): ParameterSpec => ({ name, in: 'path', schema: { type: 'string' } }));
+
+    return {
+      operationId: `${route.method}${route.path
+        .split('/')
+        .filter((segment) => segment && segment !== 'api')
+        .map((segment) => segment.replace(/^:/, 'by-'))
+        .map((segment) => segment.replace(/(^|-)(\w)/g, (_m, _dash, letter: string) => letter.toUpperCase()))
+        .join('')}`,
+      summary: route.summary,
+      ...(route.description && { description: route.description }),
+      tags: [route.tag],
+      parameters: [...declared, ...pathParameters].map((parameter) => ({
+        name: parameter.name,
+        in: parameter.in,
+        required: parameter.in === 'path' || parameter.required === true,
+        ...(parameter.description && { description: parameter.description }),
+        schema: parameter.schema,
+      })),
+      ...(route.requestBody && {
+        requestBody: { required: true, content: { 'application/json': { schema: route.requestBody } } },
+      }),
+      ...(route.secured && { security: [{ session: [] }] }),
+      responses: Object.fromEntries(
+        Object.entries({
+          ...this.commonResponses,
+          ...(route.secured && this.authentication!.responses),
+          ...route.responses,
+        }).map(([status, response]) => [
+          status,
+          {
+            description: response.description,
+            ...(response.schema && { content: { 'application/json': { schema: response.schema } } }),
+          },
+        ])
+      ),
+    };
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Sorting and cursor pagination over replayed views
+ *
+ * DECISION: Keyset cursors (the last item's sort value and ID), not offsets
+ * REASON: The indexer appends while a client pages; an offset would skip or
+ *         repeat records when one lands ahead of it, a keyset never does
+ *
+ * Every sortable field is numeric (IDs, timestamps, base-unit amounts), so
+ * values compare as bigints. Cursors are opaque base64url strings.
+ */
+
+export type SortOrder = 'asc' | 'desc';
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+export interface PageQuery<S extends string> {
+  sort: S;
+  order: SortOrder;
+  limit: number;
+  cursor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Pass back as `cursor` for the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+/** How to sort one kind of view: each field's value, and a unique ID to break ties */
+export interface SortKeys<T, S extends string> {
+  fields: Record<S, (item: T) => bigint | number | string>;
+  id: (item: T) => bigint | number | string;
+}
+
+export class CursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'CursorError';
+  }
+}
+
+interface Position {
+  value: bigint;
+  id: bigint;
+}
+
+function encodeCursor(position: Position): string {
+  return Buffer.from(`${position.value}:${position.id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): Position {
+  const match = /^(-?\d{1,78}):(\d{1,78})$/.exec(Buffer.from(cursor, 'base64url').toString());
+  if (!match) throw new CursorError();
+  return { value: BigInt(match[1]), id: BigInt(match[2]) };
+}
+
+const compare = (a: Position, b: Position): number =>
+  a.value === b.value ? (a.id < b.id ? -1 : a.id > b.id ? 1 : 0) : a.value < b.value ? -1 : 1;
+
+/**
+ * Sort `items` by `query.sort` and return the page after `query.cursor`
+ * @throws CursorError when the cursor was not issued by this function
+ */
+export function paginate<T, S extends string>(items: T[], query: PageQuery<S>, keys: SortKeys<T, S>): Page<T> {
+  const position = (item: T): Position => ({
+    value: BigInt(keys.fields[query.sort](item)),
+    id: BigInt(keys.id(item)),
+  });
+  const direction = query.order === 'asc' ? 1 : -1;
+  const sorted = items
+    .map((item) => ({ item, at: position(item) }))
+    .sort((a, b) => direction * compare(a.at, b.at));
+
+  const after = query.cursor === undefined ? null : decodeCursor(query.cursor);
+  const start = after === null ? 0 : sorted.findIndex(({ at }) => direction * compare(at, after) > 0);
+  const rest = start === -1 ? [] : sorted.slice(start);
+  const page = rest.slice(0, query.limit);
+
+  return {
+    items: page.map(({ item }) => item),
+    next_cursor: rest.length > query.limit ? encodeCursor(page[page.length - 1].at) : null,
+  };
+}
@@ -0,0 +1,100 @@
+import { ethers } from 'ethers';
+import { ERC20_ABI } from './contract-abi';
+import { IndexedEvent, IndexerStore } from './indexer-store';
+
+/**
+ * Payment Token Registry
+ *
+ * DECISION: The allowlist and each property's token are replayed from
+ *           PaymentTokenUpdated and PropertyRegistered; symbol and decimals
+ *           are read once from the token itself
+ * REASON: The contract cannot enumerate its allowlist, and token metadata
+ *         never changes, so one read per token is enough to format every
+ *         amount in that token
+ */
+
+export interface TokenMetadata {
+  symbol: string;
+  decimals: number;
+}
+
+export interface PaymentToken extends TokenMetadata {
+  address: string;
+}
+
+export interface TokenMetadataSource {
+  getMetadata(address: string): Promise<TokenMetadata>;
+}
+
+export class ContractTokenMetadataSource implements TokenMetadataSource {
+  constructor(private runner: ethers.ContractRunner) {}
+
+  async getMetadata(address: string): Promise<TokenMetadata> {
+    const token = new ethers.Contract(address, ERC20_ABI, this.runner);
+    const [symbol, decimals] = await Promise.all([token.symbol() as Promise<string>, token.decimals()]);
+    return { symbol, decimals: Number(decimals) };
+  }
+}
+
+/** e.g. 1800000000n in a 6-decimal EURC becomes "1,800.00 EURC" */
+export function formatTokenAmount(amount: bigint | string, token: TokenMetadata): string {
+  const value = Number(ethers.formatUnits(amount, token.decimals));
+  return `${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: token.decimals })} ${token.symbol}`;
+}
+
+export class PaymentTokenRegistry {
+  private metadata = new Map<string, Promise<TokenMetadata>>();
+  private allowed: string[] | null = null;
+
+  constructor(
+    private store: IndexerStore,
+    private source: TokenMetadataSource
+  ) {}
+
+  /** Tokens new properties may register with, in the order they were first allowed */
+  async listAllowed(): Promise<PaymentToken[]> {
+    this.allowed ??= await this.replayAllowlist();
+    return Promise.all(this.allowed.map((address) => this.getToken(address)));
+  }
+
+  async getToken(address: string): Promise<PaymentToken> {
+    const key = address.toLowerCase();
+    let metadata = this.metadata.get(key);
+    if (!metadata) {
+      metadata = this.source.getMetadata(key);
+      this.metadata.set(key, metadata);
+      // Let a failed read be retried instead of caching the rejection
+      metadata.catch(() => this.metadata.delete(key));
+    }
+    return { address: key, ...(await metadata) };
+  }
+
+  /** Returns null for a property that has not been indexed */
+  async getPropertyToken(propertyId: number): Promise<PaymentToken | null> {
+    const [registered] = await this.store.getEvents({
+      name: 'PropertyRegistered',
+      args: { propertyId: String(propertyId) },
+    });
+    return registered ? this.getToken(String(registered.args.paymentToken)) : null;
+  }
+
+  /** Monitor hook: replay the allowlist on its next read after it changes */
+  async handleEvent(event: IndexedEvent): Promise<void> {
+    if (event.name === 'PaymentTokenUpdated') this.allowed = null;
+  }
+
+  /** Forget the replayed allowlist, e.g. after the indexer rolls back a reorg */
+  invalidate(): void {
+    this.allowed = null;
+  }
+
+  private async replayAllowlist(): Promise<string[]> {
+    const updates = await this.store.getEvents({ name: 'PaymentTokenUpdated' });
+    // Events are in chain order, so the last update for each token wins
+    const allowed = new Map<string, boolean>();
+    for (const update of updates) {
+      allowed.set(String(update.args.token).toLowerCase(), update.args.allowed === true);
+    }
+    return [...allowed].filter(([, isAllowed]) => isAllowed).map(([address]) => address);
+  }
+}
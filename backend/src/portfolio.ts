@@ -0,0 +1,584 @@
+import { IndexedEvent, IndexerStore } from './indexer-store';
+import { LeaseStatus } from './db/repositories';
+import { Page, PageQuery, paginate, SortKeys } from './pagination';
+
+/**
+ * Portfolio Index - owners' properties, leases, rent payments and funds
+ *
+ * DECISION: One replay of the indexed events serves every query endpoint
+ *           (portfolios, lease details, payment ledgers, fund balances)
+ * REASON: These views filter and sort across properties, leases and
+ *         payments at once; keeping them in one snapshot answers a query
+ *         without a contract read, and one invalidation keeps them in step
+ *         after a reorg
+ *
+ * A lease reads active until it is paused, terminated or its deposit is
+ * returned, as in the building totals; lease dates are not in the events,
+ * so clients read them from RentFlowLens.
+ */
+
+export interface PortfolioPropertyView {
+  property_id: number;
+  owner: string;
+  payment_token: string;
+  /** Payment token base units as decimal strings */
+  monthly_rent: string;
+  /** The building this unit belongs to, null unless it is a unit */
+  building_id: number | null;
+  unit_count: number;
+  /** Seconds */
+  registered_at: number;
+  occupied: boolean;
+  current_lease_id: number | null;
+  tenant: string | null;
+  maintenance_fund: string;
+  /** Rent and late fees paid on every lease of the property */
+  rent_collected: string;
+}
+
+export interface LeaseDetailView {
+  lease_id: number;
+  property_id: number;
+  owner: string;
+  tenant: string;
+  payment_token: string;
+  status: LeaseStatus;
+  /** The property's rent, or the rent agreed at the last renewal */
+  monthly_rent: string;
+  /** Seconds; null until a renewal records it */
+  end_date: number | null;
+  created_at: number;
+  autopay: boolean;
+  payment_count: number;
+  /** Rent only; late fees are counted apart */
+  total_paid: string;
+  late_fees_paid: string;
+  last_payment_at: number | null;
+  /** Set once the deposit is returned */
+  deposit_returned: string | null;
+}
+
+export interface PaymentView {
+  /** `${transactionHash}-${logIndex}` of the RentPaid log */
+  payment_id: string;
+  lease_id: number;
+  property_id: number;
+  owner: string;
+  tenant: string;
+  payment_token: string;
+  amount: string;
+  late_fee: string;
+  /** Zero-based billing periods the payment went to */
+  periods: number[];
+  timestamp: number;
+  block_number: number;
+  log_index: number;
+  transaction_hash: string;
+}
+
+export interface FundMovementView {
+  property_id: number;
+  /** Owner top-ups and rent reserves are funded; contractor payments are paid out */
+  kind: 'funded' | 'paid_out';
+  amount: string;
+  request_id: number | null;
+  /** The fund after this movement */
+  balance: string;
+  timestamp: number;
+  block_number: number;
+  log_index: number;
+  transaction_hash: string;
+}
+
+export interface FundView {
+  property_id: number;
+  owner: string;
+  payment_token: string;
+  balance: string;
+  total_funded: string;
+  total_paid_out: string;
+}
+
+export interface TokenTotalsView {
+  payment_token: string;
+  /** Rent due on the current leases, as agreed at their last renewal */
+  monthly_rent: string;
+  rent_collected: string;
+  late_fees_collected: string;
+  maintenance_funds: string;
+}
+
+export interface PortfolioView {
+  owner: string;
+  property_count: number;
+  /** Every property except buildings with units, whose units are leased instead */
+  rentable_count: number;
+  occupied_count: number;
+  active_leases: number;
+  /** One entry per payment token the owner charges rent in */
+  totals: TokenTotalsView[];
+}
+
+export type PropertySort = 'property_id' | 'registered_at' | 'monthly_rent';
+export type LeaseSort = 'lease_id' | 'created_at' | 'total_paid';
+export type PaymentSort = 'timestamp' | 'amount';
+export type FundMovementSort = 'timestamp' | 'amount';
+
+export interface PropertyFilter {
+  owner?: string;
+  occupied?: boolean;
+}
+
+/** Leases `address` is the tenant on, plus every lease on `propertyIds` */
+export interface LeaseScope {
+  address: string;
+  propertyIds: ReadonlySet<number>;
+}
+
+export interface LeaseFilter {
+  owner?: string;
+  tenant?: string;
+  propertyId?: number;
+  status?: LeaseStatus;
+  scope?: LeaseScope;
+}
+
+export interface PaymentFilter {
+  owner?: string;
+  tenant?: string;
+  leaseId?: number;
+  propertyId?: number;
+  /** Seconds, inclusive */
+  from?: number;
+  to?: number;
+  /** Payments on the leases in scope */
+  scope?: LeaseScope;
+}
+
+export interface FundMovementFilter {
+  kind?: FundMovementView['kind'];
+  from?: number;
+  to?: number;
+}
+
+const inScope = (scope: LeaseScope | undefined, item: { tenant: string; property_id: number }) =>
+  scope === undefined || item.tenant === scope.address.toLowerCase() || scope.propertyIds.has(item.property_id);
+
+// Log position as one number, so equal timestamps keep chain order
+const chainOrder = (item: { block_number: number; log_index: number }) =>
+  (BigInt(item.block_number) << 32n) | BigInt(item.log_index);
+
+export const PROPERTY_SORT: SortKeys<PortfolioPropertyView, PropertySort> = {
+  fields: {
+    property_id: (property) => property.property_id,
+    registered_at: (property) => property.registered_at,
+    monthly_rent: (property) => property.monthly_rent,
+  },
+  id: (property) => property.property_id,
+};
+
+export const LEASE_SORT: SortKeys<LeaseDetailView, LeaseSort> = {
+  fields: {
+    lease_id: (lease) => lease.lease_id,
+    created_at: (lease) => lease.created_at,
+    total_paid: (lease) => lease.total_paid,
+  },
+  id: (lease) => lease.lease_id,
+};
+
+export const PAYMENT_SORT: SortKeys<PaymentView, PaymentSort> = {
+  fields: {
+    timestamp: (payment) => payment.timestamp,
+    amount: (payment) => payment.amount,
+  },
+  id: chainOrder,
+};
+
+export const FUND_MOVEMENT_SORT: SortKeys<FundMovementView, FundMovementSort> = {
+  fields: {
+    timestamp: (movement) => movement.timestamp,
+    amount: (movement) => movement.amount,
+  },
+  id: chainOrder,
+};
+
+const PORTFOLIO_EVENTS = new Set<IndexedEvent['name']>([
+  'PropertyRegistered',
+  'UnitRegistered',
+  'LeaseCreated',
+  'LeasePaused',
+  'LeaseResumed',
+  'LeaseTerminated',
+  'LeaseRenewed',
+  'SecurityDepositReturned',
+  'AutopayEnabled',
+  'AutopayDisabled',
+  'RentPaid',
+  'RentPaymentItemized',
+  'MaintenanceRequested',
+  'MaintenanceFundAdded',
+  'MaintenancePaid',
+]);
+
+interface PropertyState {
+  view: PortfolioPropertyView;
+  leases: number[];
+  movements: FundMovementView[];
+  funded: bigint;
+  paidOut: bigint;
+}
+
+interface PortfolioSnapshot {
+  properties: Map<number, PropertyState>;
+  leases: Map<number, LeaseDetailView>;
+  /** Chain order */
+  payments: PaymentView[];
+}
+
+const lower = (value: unknown): string => String(value).toLowerCase();
+const add = (total: string, amount: bigint): string => (BigInt(total) + amount).toString();
+const isOpen = (lease: LeaseDetailView) => lease.status === 'active' || lease.status === 'paused';
+
+/** Fold portfolio events (in chain order) into properties, leases, payments and fund movements */
+export function replayPortfolio(events: IndexedEvent[]): PortfolioSnapshot {
+  const snapshot: PortfolioSnapshot = { properties: new Map(), leases: new Map(), payments: [] };
+  const requestProperties = new Map<number, number>();
+
+  // RentPaymentItemized precedes RentPaid in the transaction that pays
+  const itemized = new Map<string, { lateFee: bigint; periods: number[] }>();
+  for (const event of events) {
+    if (event.name !== 'RentPaymentItemized') continue;
+    const key = `${event.transactionHash}-${event.args.leaseId}`;
+    const item = itemized.get(key) ?? { lateFee: 0n, periods: [] };
+    item.lateFee += BigInt(String(event.args.lateFee));
+    item.periods.push(Number(event.args.period));
+    itemized.set(key, item);
+  }
+
+  const refreshOccupancy = (state: PropertyState) => {
+    const current = [...state.leases]
+      .reverse()
+      .map((leaseId) => snapshot.leases.get(leaseId)!)
+      .find(isOpen);
+    state.view.occupied = current !== undefined;
+    state.view.current_lease_id = current?.lease_id ?? null;
+    state.view.tenant = current?.tenant ?? null;
+  };
+
+  const moveFund = (event: IndexedEvent, state: PropertyState, kind: FundMovementView['kind'], amount: bigint) => {
+    if (kind === 'funded') state.funded += amount;
+    else state.paidOut += amount;
+    state.view.maintenance_fund = (state.funded - state.paidOut).toString();
+    state.movements.push({
+      property_id: state.view.property_id,
+      kind,
+      amount: amount.toString(),
+      request_id: kind === 'paid_out' ? Number(event.args.requestId) : null,
+      balance: state.view.maintenance_fund,
+      timestamp: event.timestamp,
+      block_number: event.blockNumber,
+      log_index: event.logIndex,
+      transaction_hash: event.transactionHash,
+    });
+  };
+
+  for (const event of events) {
+    const { args } = event;
+    const lease = snapshot.leases.get(Number(args.leaseId));
+    switch (event.name) {
+      case 'PropertyRegistered': {
+        const propertyId = Number(args.propertyId);
+        snapshot.properties.set(propertyId, {
+          view: {
+            property_id: propertyId,
+            owner: lower(args.owner),
+            payment_token: lower(args.paymentToken),
+            monthly_rent: String(args.monthlyRent),
+            building_id: null,
+            unit_count: 0,
+            registered_at: event.timestamp,
+            occupied: false,
+            current_lease_id: null,
+            tenant: null,
+            maintenance_fund: '0',
+            rent_collected: '0',
+          },
+          leases: [],
+          movements: [],
+          funded: 0n,
+          paidOut: 0n,
+        });
+        break;
+      }
+      case 'UnitRegistered': {
+        const building = snapshot.properties.get(Number(args.buildingId));
+        const unit = snapshot.properties.get(Number(args.unitId));
+        if (building) building.view.unit_count++;
+        if (unit) unit.view.building_id = Number(args.buildingId);
+        break;
+      }
+      case 'LeaseCreated': {
+        const state = snapshot.properties.get(Number(args.propertyId));
+        if (!state) break;
+        const leaseId = Number(args.leaseId);
+        snapshot.leases.set(leaseId, {
+          lease_id: leaseId,
+          property_id: state.view.property_id,
+          owner: state.view.owner,
+          tenant: lower(args.tenant),
+          payment_token: state.view.payment_token,
+          status: 'active',
+          monthly_rent: state.view.monthly_rent,
+          end_date: null,
+          created_at: event.timestamp,
+          autopay: false,
+          payment_count: 0,
+          total_paid: '0',
+          late_fees_paid: '0',
+          last_payment_at: null,
+          deposit_returned: null,
+        });
+        state.leases.push(leaseId);
+        refreshOccupancy(state);
+        break;
+      }
+      case 'LeasePaused':
+      case 'LeaseResumed':
+      case 'LeaseTerminated':
+      case 'SecurityDepositReturned': {
+        if (!lease) break;
+        if (event.name === 'LeasePaused') lease.status = 'paused';
+        if (event.name === 'LeaseResumed') lease.status = 'active';
+        if (event.name === 'LeaseTerminated') lease.status = 'terminated';
+        if (event.name === 'SecurityDepositReturned') {
+          lease.deposit_returned = String(args.amount);
+          if (lease.status !== 'terminated') lease.status = 'completed';
+        }
+        refreshOccupancy(snapshot.properties.get(lease.property_id)!);
+        break;
+      }
+      case 'LeaseRenewed':
+        if (!lease) break;
+        lease.end_date = Number(args.newEndDate);
+        lease.monthly_rent = String(args.monthlyRent);
+        break;
+      case 'AutopayEnabled':
+      case 'AutopayDisabled':
+        if (lease) lease.autopay = event.name === 'AutopayEnabled';
+        break;
+      case 'RentPaid': {
+        if (!lease) break;
+        const item = itemized.get(`${event.transactionHash}-${args.leaseId}`);
+        const amount = BigInt(String(args.amount));
+        const lateFee = item?.lateFee ?? 0n;
+        lease.payment_count++;
+        lease.total_paid = add(lease.total_paid, amount);
+        lease.late_fees_paid = add(lease.late_fees_paid, lateFee);
+        lease.last_payment_at = Number(args.timestamp);
+        const state = snapshot.properties.get(lease.property_id)!;
+        state.view.rent_collected = add(state.view.rent_collected, amount + lateFee);
+        snapshot.payments.push({
+          payment_id: event.id,
+          lease_id: lease.lease_id,
+          property_id: lease.property_id,
+          owner: lease.owner,
+          tenant: lease.tenant,
+          payment_token: lease.payment_token,
+          amount: amount.toString(),
+          late_fee: lateFee.toString(),
+          periods: item?.periods ?? [],
+          timestamp: Number(args.timestamp),
+          block_number: event.blockNumber,
+          log_index: event.logIndex,
+          transaction_hash: event.transactionHash,
+        });
+        break;
+      }
+      case 'MaintenanceRequested':
+        requestProperties.set(Number(args.requestId), Number(args.propertyId));
+        break;
+      case 'MaintenanceFundAdded': {
+        const state = snapshot.properties.get(Number(args.propertyId));
+        if (state) moveFund(event, state, 'funded', BigInt(String(args.amount)));
+        break;
+      }
+      case 'MaintenancePaid': {
+        // Contractors are paid from the fund of the property the request is on
+        const state = snapshot.properties.get(requestProperties.get(Number(args.requestId)) ?? -1);
+        if (state) moveFund(event, state, 'paid_out', BigInt(String(args.amount)));
+        break;
+      }
+    }
+  }
+
+  return snapshot;
+}
+
+const inRange = (timestamp: number, from?: number, to?: number) =>
+  (from === undefined || timestamp >= from) && (to === undefined || timestamp <= to);
+
+export class PortfolioIndex {
+  private snapshot: PortfolioSnapshot | null = null;
+
+  constructor(private store: IndexerStore) {}
+
+  /** Returns null for an owner with no registered property */
+  async getPortfolio(owner: string): Promise<PortfolioView | null> {
+    const { properties, leases } = await this.load();
+    const owned = [...properties.values()].filter((state) => state.view.owner === owner.toLowerCase());
+    if (owned.length === 0) return null;
+
+    const totals = new Map<string, { monthlyRent: bigint; collected: bigint; lateFees: bigint; funds: bigint }>();
+    const rentable = owned.filter((state) => state.view.unit_count === 0);
+    for (const { view, leases: leaseIds } of owned) {
+      const total = totals.get(view.payment_token) ?? { monthlyRent: 0n, collected: 0n, lateFees: 0n, funds: 0n };
+      if (view.unit_count === 0 && view.current_lease_id !== null) {
+        total.monthlyRent += BigInt(leases.get(view.current_lease_id)!.monthly_rent);
+      }
+      total.collected += BigInt(view.rent_collected);
+      total.lateFees += leaseIds.reduce((sum, leaseId) => sum + BigInt(leases.get(leaseId)!.late_fees_paid), 0n);
+      total.funds += BigInt(view.maintenance_fund);
+      totals.set(view.payment_token, total);
+    }
+
+    return {
+      owner: owner.toLowerCase(),
+      property_count: owned.length,
+      rentable_count: rentable.length,
+      occupied_count: rentable.filter((state) => state.view.occupied).length,
+      active_leases: owned.reduce(
+        (count, state) => count + state.leases.filter((leaseId) => leases.get(leaseId)!.status === 'active').length,
+        0
+      ),
+      totals: [...totals].map(([paymentToken, total]) => ({
+        payment_token: paymentToken,
+        monthly_rent: total.monthlyRent.toString(),
+        rent_collected: total.collected.toString(),
+        late_fees_collected: total.lateFees.toString(),
+        maintenance_funds: total.funds.toString(),
+      })),
+    };
+  }
+
+  async listProperties(filter: PropertyFilter, page: PageQuery<PropertySort>): Promise<Page<PortfolioPropertyView>> {
+    const { properties } = await this.load();
+    const views = [...properties.values()]
+      .map((state) => state.view)
+      .filter(
+        (view) =>
+          (filter.owner === undefined || view.owner === filter.owner.toLowerCase()) &&
+          (filter.occupied === undefined || view.occupied === filter.occupied)
+      );
+    return paginate(views, page, PROPERTY_SORT);
+  }
+
+  /** IDs of the properties `owner` registered */
+  async propertyIdsOf(owner: string): Promise<Set<number>> {
+    const { properties } = await this.load();
+    return new Set(
+      [...properties.values()]
+        .filter((state) => state.view.owner === owner.toLowerCase())
+        .map((state) => state.view.property_id)
+    );
+  }
+
+  /** The building of every unit, keyed by unit ID */
+  async unitBuildings(): Promise<Map<number, number>> {
+    const { properties } = await this.load();
+    const buildings = new Map<number, number>();
+    for (const { view } of properties.values()) {
+      if (view.building_id !== null) buildings.set(view.property_id, view.building_id);
+    }
+    return buildings;
+  }
+
+  /** Returns null when the lease has not been indexed */
+  async getLease(leaseId: number): Promise<LeaseDetailView | null> {
+    const { leases } = await this.load();
+    return leases.get(leaseId) ?? null;
+  }
+
+  /** Every lease `tenant` has signed, oldest first */
+  async leasesOf(tenant: string): Promise<LeaseDetailView[]> {
+    const { leases } = await this.load();
+    return [...leases.values()]
+      .filter((lease) => lease.tenant === tenant.toLowerCase())
+      .sort((a, b) => a.lease_id - b.lease_id);
+  }
+
+  async listLeases(filter: LeaseFilter, page: PageQuery<LeaseSort>): Promise<Page<LeaseDetailView>> {
+    const { leases } = await this.load();
+    const views = [...leases.values()].filter(
+      (lease) =>
+        (filter.owner === undefined || lease.owner === filter.owner.toLowerCase()) &&
+        (filter.tenant === undefined || lease.tenant === filter.tenant.toLowerCase()) &&
+        (filter.propertyId === undefined || lease.property_id === filter.propertyId) &&
+        (filter.status === undefined || lease.status === filter.status) &&
+        inScope(filter.scope, lease)
+    );
+    return paginate(views, page, LEASE_SORT);
+  }
+
+  async listPayments(filter: PaymentFilter, page: PageQuery<PaymentSort>): Promise<Page<PaymentView>> {
+    const { payments } = await this.load();
+    const views = payments.filter(
+      (payment) =>
+        (filter.owner === undefined || payment.owner === filter.owner.toLowerCase()) &&
+        (filter.tenant === undefined || payment.tenant === filter.tenant.toLowerCase()) &&
+        (filter.leaseId === undefined || payment.lease_id === filter.leaseId) &&
+        (filter.propertyId === undefined || payment.property_id === filter.propertyId) &&
+        inRange(payment.timestamp, filter.from, filter.to) &&
+        inScope(filter.scope, payment)
+    );
+    return paginate(views, page, PAYMENT_SORT);
+  }
+
+  /** Returns null when the property has not been indexed */
+  async getFund(propertyId: number): Promise<FundView | null> {
+    const { properties } = await this.load();
+    const state = properties.get(propertyId);
+    if (!state) return null;
+    return {
+      property_id: propertyId,
+      owner: state.view.owner,
+      payment_token: state.view.payment_token,
+      balance: state.view.maintenance_fund,
+      total_funded: state.funded.toString(),
+      total_paid_out: state.paidOut.toString(),
+    };
+  }
+
+  /** Returns null when the property has not been indexed */
+  async listFundMovements(
+    propertyId: number,
+    filter: FundMovementFilter,
+    page: PageQuery<FundMovementSort>
+  ): Promise<Page<FundMovementView> | null> {
+    const { properties } = await this.load();
+    const state = properties.get(propertyId);
+    if (!state) return null;
+    const views = state.movements.filter(
+      (movement) =>
+        (filter.kind === undefined || movement.kind === filter.kind) && inRange(movement.timestamp, filter.from, filter.to)
+    );
+    return paginate(views, page, FUND_MOVEMENT_SORT);
+  }
+
+  /** Monitor hook: replay on the next read after anything a view depends on */
+  async handleEvent(event: IndexedEvent): Promise<void> {
+    if (PORTFOLIO_EVENTS.has(event.name)) this.snapshot = null;
+  }
+
+  /** Forget the replayed snapshot, e.g. after the indexer rolls back a reorg */
+  invalidate(): void {
+    this.snapshot = null;
+  }
+
+  private async load(): Promise<PortfolioSnapshot> {
+    if (!this.snapshot) {
+      const events = await this.store.getEvents();
+      this.snapshot = replayPortfolio(events.filter((event) => PORTFOLIO_EVENTS.has(event.name)));
+    }
+    return this.snapshot;
+  }
+}
@@ -0,0 +1,271 @@
+import { ethers } from 'ethers';
+import { IndexedEvent, IndexerStore } from './indexer-store';
+import { PropertyCatalogRepository } from './db/repositories';
+
+/**
+ * Property Catalog
+ *
+ * DECISION: Catalog entries are content-addressed by the keccak256 of their
+ *           canonical JSON, the hash owners record with setPropertyMetadata
+ * REASON: Anyone may submit an entry, but a property only shows the entry
+ *         its owner committed to on chain, so a rewritten address or swapped
+ *         lease document is caught by the hash instead of trusted
+ *
+ * Properties (owner, rent, token) and their current hash and URI are
+ * replayed from PropertyRegistered and PropertyMetadataUpdated.
+ */
+
+export interface CatalogDocument {
+  name: string;
+  uri: string;
+  /** keccak256 of the document file, so a copy from any mirror can be checked */
+  content_hash: string;
+}
+
+export interface CatalogEntry {
+  address_line: string;
+  city: string | null;
+  unit_type: string | null;
+  bedrooms: number | null;
+  amenities: string[];
+  /** https:// or ipfs:// URLs */
+  photos: string[];
+  documents: CatalogDocument[];
+}
+
+/**
+ * - verified: the entry hashes to the property's on-chain metadata hash
+ * - missing: the property has a hash, but no entry with it was submitted
+ * - unset: the owner has not set a metadata hash yet
+ */
+export type CatalogStatus = 'verified' | 'missing' | 'unset';
+
+export interface PropertyCatalogView {
+  property_id: number;
+  owner: string;
+  /** Payment token base units */
+  monthly_rent: string;
+  payment_token: string;
+  metadata_hash: string | null;
+  metadata_uri: string | null;
+  catalog_status: CatalogStatus;
+  entry: CatalogEntry | null;
+}
+
+export class CatalogValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogValidationError';
+  }
+}
+
+const MAX_TEXT_LENGTH = 200;
+const MAX_LIST_LENGTH = 50;
+const URI_PATTERN = /^(https:\/\/|ipfs:\/\/)\S+$/;
+const HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const ENTRY_FIELDS = new Set(['address_line', 'city', 'unit_type', 'bedrooms', 'amenities', 'photos', 'documents']);
+const DOCUMENT_FIELDS = new Set(['name', 'uri', 'content_hash']);
+
+/** JSON with object keys sorted at every level and no whitespace */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** The hash to pass to RentFlowCore.setPropertyMetadata for `entry` */
+export function catalogHash(entry: CatalogEntry): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalJson(entry)));
+}
+
+function text(value: unknown, field: string, optional: boolean): string | null {
+  if (optional && (value === undefined || value === null)) return null;
+  if (typeof value !== 'string' || value.trim().length === 0 || value.length > MAX_TEXT_LENGTH) {
+    throw new CatalogValidationError(`${field} must be a non-empty string of at most ${MAX_TEXT_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+function list<T>(value: unknown, field: string, parse: (item: unknown, itemField: string) => T): T[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.length > MAX_LIST_LENGTH) {
+    throw new CatalogValidationError(`${field} must be a list of at most ${MAX_LIST_LENGTH} items`);
+  }
+  return value.map((item, index) => parse(item, `${field}[${index}]`));
+}
+
+function uri(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !URI_PATTERN.test(value) || value.length > MAX_TEXT_LENGTH * 5) {
+    throw new CatalogValidationError(`${field} must be an https:// or ipfs:// URL`);
+  }
+  return value;
+}
+
+function rejectUnknownFields(value: object, allowed: Set<string>, field: string): void {
+  const unknown = Object.keys(value).find((key) => !allowed.has(key));
+  if (unknown) throw new CatalogValidationError(`Unknown field ${field}${unknown}`);
+}
+
+function parseDocument(value: unknown, field: string): CatalogDocument {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new CatalogValidationError(`${field} must be an object`);
+  }
+  rejectUnknownFields(value, DOCUMENT_FIELDS, `${field}.`);
+  const document = value as Record<string, unknown>;
+  if (typeof document.content_hash !== 'string' || !HASH_PATTERN.test(document.content_hash)) {
+    throw new CatalogValidationError(`${field}.content_hash must be a 32-byte hex hash`);
+  }
+  return {
+    name: text(document.name, `${field}.name`, false)!,
+    uri: uri(document.uri, `${field}.uri`),
+    content_hash: document.content_hash.toLowerCase(),
+  };
+}
+
+/**
+ * Validate a submitted entry and normalize it (trimmed text, lowercase
+ * hashes, absent fields as null or []), so equal entries hash the same
+ */
+export function parseCatalogEntry(input: unknown): CatalogEntry {
+  if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+    throw new CatalogValidationError('Catalog entry must be an object');
+  }
+  rejectUnknownFields(input, ENTRY_FIELDS, '');
+  const entry = input as Record<string, unknown>;
+
+  const bedrooms = entry.bedrooms ?? null;
+  if (bedrooms !== null && (!Number.isInteger(bedrooms) || (bedrooms as number) < 0 || (bedrooms as number) > 50)) {
+    throw new CatalogValidationError('bedrooms must be a whole number from 0 to 50');
+  }
+
+  return {
+    address_line: text(entry.address_line, 'address_line', false)!,
+    city: text(entry.city, 'city', true),
+    unit_type: text(entry.unit_type, 'unit_type', true),
+    bedrooms: bedrooms as number | null,
+    amenities: list(entry.amenities, 'amenities', (item, field) => text(item, field, false)!),
+    photos: list(entry.photos, 'photos', uri),
+    documents: list(entry.documents, 'documents', parseDocument),
+  };
+}
+
+const CATALOG_EVENTS = new Set<IndexedEvent['name']>(['PropertyRegistered', 'PropertyMetadataUpdated']);
+
+interface PropertyState {
+  owner: string;
+  monthlyRent: string;
+  paymentToken: string;
+  metadataHash: string | null;
+  metadataUri: string | null;
+}
+
+export class PropertyCatalog {
+  private properties: Map<number, PropertyState> | null = null;
+  /** Entries by content hash; a hash always names the same entry, so this survives invalidate() */
+  private entries = new Map<string, CatalogEntry>();
+
+  constructor(
+    private store: IndexerStore,
+    private repository?: PropertyCatalogRepository
+  ) {}
+
+  /**
+   * Store an entry and return the hash its owner records on chain
+   * @throws CatalogValidationError when the entry is malformed
+   */
+  async submit(input: unknown): Promise<{ contentHash: string; entry: CatalogEntry }> {
+    const entry = parseCatalogEntry(input);
+    const contentHash = catalogHash(entry);
+    // With a database, only entries a property points at are held in memory
+    if (this.repository) await this.repository.save(contentHash, entry);
+    else this.entries.set(contentHash, entry);
+    return { contentHash, entry };
+  }
+
+  /** Returns null for a property that has not been indexed */
+  async getProperty(propertyId: number): Promise<PropertyCatalogView | null> {
+    const property = (await this.load()).get(propertyId);
+    return property ? this.toView(propertyId, property) : null;
+  }
+
+  /** Every indexed property, or one owner's, by property ID */
+  async listProperties(owner?: string): Promise<PropertyCatalogView[]> {
+    const properties = [...(await this.load())].filter(
+      ([, property]) => owner === undefined || property.owner === owner.toLowerCase()
+    );
+    return Promise.all(properties.map(([propertyId, property]) => this.toView(propertyId, property)));
+  }
+
+  /** Monitor hook: replay on the next read after a registration or metadata change */
+  async handleEvent(event: IndexedEvent): Promise<void> {
+    if (CATALOG_EVENTS.has(event.name)) this.properties = null;
+  }
+
+  /** Forget replayed properties, e.g. after the indexer rolls back a reorg */
+  invalidate(): void {
+    this.properties = null;
+  }
+
+  private async toView(propertyId: number, property: PropertyState): Promise<PropertyCatalogView> {
+    const entry = property.metadataHash ? await this.findEntry(property.metadataHash) : null;
+    return {
+      property_id: propertyId,
+      owner: property.owner,
+      monthly_rent: property.monthlyRent,
+      payment_token: property.paymentToken,
+      metadata_hash: property.metadataHash,
+      metadata_uri: property.metadataUri,
+      catalog_status: !property.metadataHash ? 'unset' : entry ? 'verified' : 'missing',
+      entry,
+    };
+  }
+
+  /** Only returns an entry that still hashes to `contentHash` */
+  private async findEntry(contentHash: string): Promise<CatalogEntry | null> {
+    const cached = this.entries.get(contentHash);
+    if (cached) return cached;
+
+    const record = await this.repository?.findByHash(contentHash);
+    if (!record) return null;
+    let entry: CatalogEntry;
+    try {
+      entry = parseCatalogEntry(record.entry);
+    } catch {
+      return null;
+    }
+    if (catalogHash(entry) !== contentHash) return null;
+    this.entries.set(contentHash, entry);
+    return entry;
+  }
+
+  private async load(): Promise<Map<number, PropertyState>> {
+    if (!this.properties) {
+      const properties = new Map<number, PropertyState>();
+      const events = await this.store.getEvents();
+      for (const event of events) {
+        const propertyId = Number(event.args.propertyId);
+        if (event.name === 'PropertyRegistered') {
+          properties.set(propertyId, {
+            owner: String(event.args.owner).toLowerCase(),
+            monthlyRent: String(event.args.monthlyRent),
+            paymentToken: String(event.args.paymentToken).toLowerCase(),
+            metadataHash: null,
+            metadataUri: null,
+          });
+        } else if (event.name === 'PropertyMetadataUpdated') {
+          const property = properties.get(propertyId);
+          if (!property) continue;
+          property.metadataHash = String(event.args.contentHash).toLowerCase();
+          property.metadataUri = String(event.args.uri) || null;
+        }
+      }
+      this.properties = properties;
+    }
+    return this.properties;
+  }
+}
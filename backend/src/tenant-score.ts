@@ -0,0 +1,376 @@
+import { ethers } from 'ethers';
+import { RENTFLOW_CORE_ABI } from './contract-abi';
+import { IndexedEvent, IndexerStore } from './indexer-store';
+import { TenantProfileRepository } from './db/repositories';
+
+/**
+ * Tenant Reliability Score
+ *
+ * DECISION: Score is rebuilt from indexed RentPaymentItemized/RentOverdue/
+ *           SecurityDepositReturned events, never typed in by hand
+ * REASON: Owners need to trust it, so every point must trace back to an
+ *         on-chain fact and the response explains each factor
+ *
+ * FACTORS (100 points total):
+ * - On-time rate          40  share of billing periods settled by the due day
+ * - Average days late     20  full marks at 0, zero at 15+ days
+ * - Current streak        15  consecutive on-time payments, capped at 12
+ * - Overdue notices       15  -5 per RentOverdue event
+ * - Deposit deductions    10  average share of each deposit returned
+ *
+ * Leases may be paid in different tokens, so amounts are totalled per token
+ * and the deposit factor compares each lease with its own deposit.
+ */
+
+const DAY = 24 * 60 * 60;
+const STREAK_CAP = 12;
+const LATE_DAYS_FLOOR = 15;
+
+export interface LeaseTerms {
+  startDate: number;
+  rentDueDay: number;
+  /** Rent from each period onwards (base units of paymentToken); renewals add tiers */
+  rentTiers: Array<{ fromPeriod: number; monthlyRent: bigint }>;
+  /** Base units of paymentToken */
+  securityDeposit: bigint;
+  /** Lowercase address of the ERC-20 the property is paid in */
+  paymentToken: string;
+}
+
+export interface LeasePaymentHistory extends LeaseTerms {
+  leaseId: number;
+  /** Rent applied to each billing period (seconds, base units), any order */
+  payments: Array<{ timestamp: number; amount: bigint; period: number }>;
+  overdueEvents: number;
+  /** Deposit amount returned to the tenant once the lease closed */
+  depositReturned?: bigint;
+}
+
+export interface ScoreFactor {
+  factor: 'on_time_rate' | 'average_days_late' | 'current_streak' | 'overdue_events' | 'deposit_deductions';
+  label: string;
+  value: number;
+  points: number;
+  max_points: number;
+  explanation: string;
+}
+
+/** Amounts in one payment token, as decimal strings of its base units */
+export interface TenantTokenTotals {
+  payment_token: string;
+  total_paid: string;
+  deposit_deductions: string;
+}
+
+export interface TenantScoreProfile {
+  address: string;
+  payment_history_score: number;
+  on_time_payments: number;
+  late_payments: number;
+  average_days_late: number;
+  current_streak: number;
+  overdue_events: number;
+  /** One entry per token the tenant's leases were paid in */
+  totals: TenantTokenTotals[];
+  lease_count: number;
+  factors: ScoreFactor[];
+  updated_at: string;
+}
+
+// ============ Scoring ============
+
+/** Due date (UTC midnight) of the `period`-th rent payment, counting from 0 */
+export function dueDateForPeriod(startDate: number, rentDueDay: number, period: number): number {
+  const start = new Date(startDate * 1000);
+  let year = start.getUTCFullYear();
+  let month = start.getUTCMonth();
+  // First due day on or after the start date
+  if (start.getUTCDate() > rentDueDay) month += 1;
+  month += period;
+  year += Math.floor(month / 12);
+  month %= 12;
+  return Date.UTC(year, month, rentDueDay) / 1000;
+}
+
+export function rentForPeriod(terms: LeaseTerms, period: number): bigint {
+  const tier = [...terms.rentTiers].reverse().find((t) => t.fromPeriod <= period);
+  return tier?.monthlyRent ?? 0n;
+}
+
+interface PaymentOutcome {
+  timestamp: number;
+  daysLate: number;
+}
+
+/**
+ * One outcome per settled billing period, judged by the payment that
+ * completed it; partial and prepaid periods settle like any other
+ */
+function paymentOutcomes(lease: LeasePaymentHistory): PaymentOutcome[] {
+  const paidByPeriod = new Map<number, bigint>();
+  const outcomes: PaymentOutcome[] = [];
+
+  for (const payment of [...lease.payments].sort((a, b) => a.timestamp - b.timestamp)) {
+    const before = paidByPeriod.get(payment.period) ?? 0n;
+    const after = before + payment.amount;
+    const rent = rentForPeriod(lease, payment.period);
+    paidByPeriod.set(payment.period, after);
+    if (before >= rent || after < rent) continue;
+
+    // Paying any time on the due day counts as on time
+    const deadline = dueDateForPeriod(lease.startDate, lease.rentDueDay, payment.period) + DAY;
+    const daysLate = payment.timestamp < deadline ? 0 : Math.floor((payment.timestamp - deadline) / DAY) + 1;
+    outcomes.push({ timestamp: payment.timestamp, daysLate });
+  }
+  return outcomes;
+}
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export function computeTenantScore(
+  address: string,
+  leases: LeasePaymentHistory[],
+  now: Date = new Date()
+): TenantScoreProfile {
+  const outcomes = leases.flatMap(paymentOutcomes).sort((a, b) => a.timestamp - b.timestamp);
+  const onTime = outcomes.filter((o) => o.daysLate === 0).length;
+  const late = outcomes.length - onTime;
+  const avgDaysLate = outcomes.length ? outcomes.reduce((sum, o) => sum + o.daysLate, 0) / outcomes.length : 0;
+
+  let streak = 0;
+  for (let i = outcomes.length - 1; i >= 0 && outcomes[i].daysLate === 0; i--) streak++;
+
+  const overdueEvents = leases.reduce((sum, l) => sum + l.overdueEvents, 0);
+
+  const totals = new Map<string, { paid: bigint; deducted: bigint }>();
+  const closedShares: number[] = [];
+  for (const l of leases) {
+    const total = totals.get(l.paymentToken) ?? { paid: 0n, deducted: 0n };
+    total.paid += l.payments.reduce((sum, p) => sum + p.amount, 0n);
+    if (l.depositReturned !== undefined) {
+      const kept = l.securityDeposit - l.depositReturned;
+      if (kept > 0n) total.deducted += kept;
+      const share = l.securityDeposit > 0n && kept > 0n ? (kept * 10_000n) / l.securityDeposit : 0n;
+      closedShares.push(Number(share) / 10_000);
+    }
+    totals.set(l.paymentToken, total);
+  }
+  // A share per lease, so an 18-decimal deposit does not outweigh a 6-decimal one
+  const deductedShare = closedShares.length
+    ? closedShares.reduce((sum, share) => sum + share, 0) / closedShares.length
+    : 0;
+
+  const hasPayments = outcomes.length > 0;
+  const onTimeRate = hasPayments ? onTime / outcomes.length : 0;
+
+  const factors: ScoreFactor[] = [
+    {
+      factor: 'on_time_rate',
+      label: 'On-time payments',
+      value: round(onTimeRate * 100),
+      // No history yet: neutral half credit rather than a failing grade
+      points: hasPayments ? round(40 * onTimeRate) : 20,
+      max_points: 40,
+      explanation: hasPayments
+        ? `${onTime} of ${outcomes.length} rent periods were paid by the due day`
+        : 'No rent payments yet; neutral credit applied',
+    },
+    {
+      factor: 'average_days_late',
+      label: 'Average days late',
+      value: round(avgDaysLate),
+      points: hasPayments ? round(20 * Math.max(0, 1 - avgDaysLate / LATE_DAYS_FLOOR)) : 10,
+      max_points: 20,
+      explanation: hasPayments
+        ? `Payments averaged ${round(avgDaysLate)} days past the due day`
+        : 'No rent payments yet; neutral credit applied',
+    },
+    {
+      factor: 'current_streak',
+      label: 'Current on-time streak',
+      value: streak,
+      points: round((15 * Math.min(streak, STREAK_CAP)) / STREAK_CAP),
+      max_points: 15,
+      explanation: `${streak} consecutive on-time payment${streak === 1 ? '' : 's'} (full credit at ${STREAK_CAP})`,
+    },
+    {
+      factor: 'overdue_events',
+      label: 'Overdue notices',
+      value: overdueEvents,
+      points: Math.max(0, 15 - overdueEvents * 5),
+      max_points: 15,
+      explanation: `${overdueEvents} overdue notice${overdueEvents === 1 ? '' : 's'} recorded on-chain`,
+    },
+    {
+      factor: 'deposit_deductions',
+      label: 'Security deposit deductions',
+      value: round(deductedShare * 100),
+      points: round(10 * (1 - deductedShare)),
+      max_points: 10,
+      explanation: closedShares.length
+        ? `${round(deductedShare * 100)}% of each deposit withheld on average across ${closedShares.length} closed ` +
+          `lease${closedShares.length === 1 ? '' : 's'}`
+        : 'No closed leases yet; full credit applied',
+    },
+  ];
+
+  return {
+    address: address.toLowerCase(),
+    payment_history_score: Math.round(factors.reduce((sum, f) => sum + f.points, 0)),
+    on_time_payments: onTime,
+    late_payments: late,
+    average_days_late: round(avgDaysLate),
+    current_streak: streak,
+    overdue_events: overdueEvents,
+    totals: [...totals].map(([paymentToken, total]) => ({
+      payment_token: paymentToken,
+      total_paid: total.paid.toString(),
+      deposit_deductions: total.deducted.toString(),
+    })),
+    lease_count: leases.length,
+    factors,
+    updated_at: now.toISOString(),
+  };
+}
+
+// ============ Service ============
+
+export interface LeaseTermsSource {
+  getLeaseTerms(leaseId: number, propertyId: number): Promise<LeaseTerms>;
+  /** Drop cached terms after a renewal changes them */
+  forget?(leaseId: number): void;
+}
+
+/**
+ * Reads lease terms from RentFlowCore. Terms only change on renewal,
+ * so results are cached until the service sees LeaseRenewed.
+ */
+export class ContractLeaseTermsSource implements LeaseTermsSource {
+  private contract: ethers.Contract;
+  private cache = new Map<number, Promise<LeaseTerms>>();
+
+  constructor(provider: ethers.Provider, contractAddress: string) {
+    this.contract = new ethers.Contract(contractAddress, RENTFLOW_CORE_ABI, provider);
+  }
+
+  getLeaseTerms(leaseId: number, propertyId: number): Promise<LeaseTerms> {
+    let terms = this.cache.get(leaseId);
+    if (!terms) {
+      terms = (async () => {
+        const [lease, property, tiers] = await Promise.all([
+          this.contract.leases(leaseId),
+          this.contract.properties(propertyId),
+          this.contract.getRentTiers(leaseId),
+        ]);
+        return {
+          startDate: Number(lease.startDate),
+          rentDueDay: Number(lease.rentDueDay),
+          rentTiers: tiers.map((tier: { fromPeriod: bigint; monthlyRent: bigint }) => ({
+            fromPeriod: Number(tier.fromPeriod),
+            monthlyRent: tier.monthlyRent,
+          })),
+          securityDeposit: property.securityDeposit as bigint,
+          paymentToken: String(property.paymentToken).toLowerCase(),
+        };
+      })();
+      terms.catch(() => this.cache.delete(leaseId));
+      this.cache.set(leaseId, terms);
+    }
+    return terms;
+  }
+
+  forget(leaseId: number): void {
+    this.cache.delete(leaseId);
+  }
+}
+
+const SCORE_EVENTS = new Set([
+  'LeaseCreated',
+  'LeaseRenewed',
+  'RentPaymentItemized',
+  'RentOverdue',
+  'SecurityDepositReturned',
+]);
+
+export class TenantScoreService {
+  private cache = new Map<string, TenantScoreProfile>();
+
+  constructor(
+    private store: IndexerStore,
+    private terms: LeaseTermsSource,
+    private profiles?: TenantProfileRepository
+  ) {}
+
+  /** Returns null when the address has never held a lease */
+  async getScore(address: string): Promise<TenantScoreProfile | null> {
+    const key = address.toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+    return this.recompute(key);
+  }
+
+  /** Monitor hook: refresh the affected tenant whenever a scoring event is indexed */
+  async handleEvent(event: IndexedEvent): Promise<void> {
+    if (!SCORE_EVENTS.has(event.name)) return;
+    if (event.name === 'LeaseRenewed') this.terms.forget?.(Number(event.args.leaseId));
+
+    const tenant =
+      event.name === 'LeaseCreated' ? String(event.args.tenant) : await this.tenantForLease(String(event.args.leaseId));
+    if (tenant) await this.recompute(tenant.toLowerCase());
+  }
+
+  /** Forget cached scores, e.g. after the indexer rolls back a reorg */
+  invalidate(): void {
+    this.cache.clear();
+  }
+
+  private async tenantForLease(leaseId: string): Promise<string | undefined> {
+    const [created] = await this.store.getEvents({ name: 'LeaseCreated', args: { leaseId } });
+    return created ? String(created.args.tenant) : undefined;
+  }
+
+  private async recompute(address: string): Promise<TenantScoreProfile | null> {
+    const created = await this.store.getEvents({ name: 'LeaseCreated', args: { tenant: address } });
+    if (created.length === 0) {
+      this.cache.delete(address);
+      return null;
+    }
+
+    const leases = await Promise.all(created.map((event) => this.leaseHistory(event)));
+    const profile = computeTenantScore(address, leases);
+
+    this.cache.set(address, profile);
+    if (this.profiles) {
+      await this.profiles.ensure(address);
+      await this.profiles.updateScore(address, {
+        paymentHistoryScore: profile.payment_history_score,
+        onTimePayments: profile.on_time_payments,
+        latePayments: profile.late_payments,
+        scoreBreakdown: { factors: profile.factors, totals: profile.totals },
+      });
+    }
+    return profile;
+  }
+
+  private async leaseHistory(created: IndexedEvent): Promise<LeasePaymentHistory> {
+    const leaseId = String(created.args.leaseId);
+    const [terms, payments, overdue, returned] = await Promise.all([
+      this.terms.getLeaseTerms(Number(leaseId), Number(created.args.propertyId)),
+      this.store.getEvents({ name: 'RentPaymentItemized', args: { leaseId } }),
+      this.store.getEvents({ name: 'RentOverdue', args: { leaseId } }),
+      this.store.getEvents({ name: 'SecurityDepositReturned', args: { leaseId } }),
+    ]);
+
+    return {
+      leaseId: Number(leaseId),
+      ...terms,
+      payments: payments.map((event) => ({
+        timestamp: event.timestamp,
+        amount: BigInt(String(event.args.rentAmount)),
+        period: Number(event.args.period),
+      })),
+      overdueEvents: overdue.length,
+      depositReturned: returned[0] ? BigInt(String(returned[0].args.amount)) : undefined,
+    };
+  }
+}
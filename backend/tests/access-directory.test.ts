@@ -0,0 +1,96 @@
+/**
+ * RentFlow AI Backend - Access Directory Tests
+ *
+ * File: backend/tests/access-directory.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Permissions: manager bits decode in RentFlowCore's order
+ * 2. Directory: roles, owners and managers replayed in chain order, with
+ *    revokes and zeroed permissions removing access
+ */
+
+import { IndexedEvent, MemoryIndexerStore } from '../src/indexer-store';
+import { AccessDirectory, ROLE_IDS, decodePermissions } from '../src/access-directory';
+import { createEventChain } from './helpers/events';
+
+const ADMIN = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const MANAGER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const AGENT = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const USDC = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const { event, rewind } = createEventChain();
+
+describe('decodePermissions', () => {
+  test('should decode manager bits in contract order', () => {
+    expect(decodePermissions(0)).toEqual([]);
+    expect(decodePermissions(1)).toEqual(['manage_leases']);
+    expect(decodePermissions(6)).toEqual(['fund_maintenance', 'approve_maintenance']);
+  });
+});
+
+describe('AccessDirectory', () => {
+  let store: MemoryIndexerStore;
+  let directory: AccessDirectory;
+
+  const index = async (events: IndexedEvent[]): Promise<IndexedEvent[]> => {
+    const last = events[events.length - 1];
+    await store.saveBatch(
+      events,
+      events.map((indexed) => ({ number: indexed.blockNumber, hash: indexed.blockHash })),
+      { blockNumber: last.blockNumber, blockHash: last.blockHash }
+    );
+    return events;
+  };
+
+  beforeEach(async () => {
+    rewind();
+    store = new MemoryIndexerStore();
+    directory = new AccessDirectory(store);
+    await index([
+      event('RoleGranted', { role: ROLE_IDS.admin, account: ADMIN, sender: ADMIN }),
+      event('RoleGranted', { role: ROLE_IDS.pauser, account: ADMIN, sender: ADMIN }),
+      event('RoleGranted', { role: ROLE_IDS.ai_agent, account: AGENT, sender: ADMIN }),
+      event('PropertyRegistered', { propertyId: '0', owner: OWNER, monthlyRent: '1800000000', paymentToken: USDC }),
+      event('PropertyManagerUpdated', { propertyId: '0', manager: MANAGER, permissions: '5' }),
+    ]);
+  });
+
+  test('should list the members of each role', async () => {
+    expect(await directory.getRoleMembers()).toEqual({
+      admin: [ADMIN.toLowerCase()],
+      pauser: [ADMIN.toLowerCase()],
+      ai_agent: [AGENT.toLowerCase()],
+      arbiter: [],
+    });
+  });
+
+  test("should show a property's owner and managers", async () => {
+    expect(await directory.getPropertyAccess(0)).toEqual({
+      property_id: 0,
+      owner: OWNER.toLowerCase(),
+      managers: [{ manager: MANAGER.toLowerCase(), permissions: ['manage_leases', 'approve_maintenance'] }],
+    });
+    expect(await directory.getPropertyAccess(7)).toBeNull();
+    expect(await directory.getAccountAccess(MANAGER)).toEqual({
+      address: MANAGER.toLowerCase(),
+      roles: [],
+      owned_properties: [],
+      managed_properties: [{ property_id: 0, permissions: ['manage_leases', 'approve_maintenance'] }],
+    });
+  });
+
+  test('should drop revoked roles and removed managers once indexed', async () => {
+    await directory.getRoleMembers();
+
+    const changes = await index([
+      event('RoleRevoked', { role: ROLE_IDS.ai_agent, account: AGENT, sender: ADMIN }),
+      event('PropertyManagerUpdated', { propertyId: '0', manager: MANAGER, permissions: '0' }),
+    ]);
+    for (const change of changes) await directory.handleEvent(change);
+
+    expect((await directory.getAccountAccess(AGENT)).roles).toEqual([]);
+    expect((await directory.getPropertyAccess(0))?.managers).toEqual([]);
+    expect((await directory.getAccountAccess(OWNER)).owned_properties).toEqual([0]);
+  });
+});
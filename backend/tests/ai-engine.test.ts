@@ -6,11 +6,17 @@
  * TESTING STRATEGY:
  * 1. Unit tests for AI decision engine
  * 2. Integration tests for blockchain interaction
- * 3. API endpoint tests
+ * 3. API endpoint tests, signed in with Sign-In with Ethereum as the dashboard is: 401 without a
+ *    session, 403 for another wallet's data
  * 4. Edge case handling
  */
 
+import { ethers } from 'ethers';
 import { AIDecisionEngine } from '../src/index';
+import { ApprovalPolicy, ContractorCandidate, categoriesFromMask, selectContractor } from '../src/ai-engine';
+import { LLMProvider, StubLLMProvider } from '../src/llm-provider';
+import { TokenMetadata } from '../src/payment-tokens';
+import { config } from '../src/config';
 
 describe('AIDecisionEngine', () => {
   let aiEngine: AIDecisionEngine;
@@ -120,12 +126,152 @@ describe('AIDecisionEngine', () => {
     });
   });
 
+  describe('approval policies', () => {
+    const ROUTINE_LEAK = 'Leaking kitchen faucet needs a new washer';
+    const HISTORY = { totalSpend: 2000, avgResponseTime: 2, propertyAge: 8 };
+
+    const withPolicy = (policy: ApprovalPolicy) =>
+      new AIDecisionEngine({ policySource: { getApprovalPolicy: async () => policy } });
+
+    test('should use the property limit instead of the configured default', async () => {
+      const engine = withPolicy({ autoApprovalLimit: 100 * 1e6 });
+      const result = await engine.evaluateMaintenanceRequest(1, ROUTINE_LEAK, 150 * 1e6, HISTORY);
+
+      expect(result.decision).toBe('escalate');
+      expect(result.reasoning).toContain('approval limit of 100.00 USDC');
+    });
+
+    test('should escalate categories the owner has blocked', async () => {
+      const engine = withPolicy({ autoApprovalLimit: 500 * 1e6, blockedCategories: ['plumbing'] });
+      const result = await engine.evaluateMaintenanceRequest(1, ROUTINE_LEAK, 150 * 1e6, HISTORY);
+
+      expect(result.decision).toBe('escalate');
+      expect(result.reasoning).toContain('plumbing work');
+    });
+
+    test('should escalate when the request would exceed the daily or monthly cap', async () => {
+      const daily = await withPolicy({
+        autoApprovalLimit: 500 * 1e6,
+        dailyCap: 300 * 1e6,
+        spentToday: 200 * 1e6,
+      }).evaluateMaintenanceRequest(1, ROUTINE_LEAK, 150 * 1e6, HISTORY);
+      expect(daily.decision).toBe('escalate');
+      expect(daily.reasoning).toContain('daily AI spend cap of 300.00 USDC');
+
+      const monthly = await withPolicy({
+        autoApprovalLimit: 500 * 1e6,
+        monthlyCap: 1000 * 1e6,
+        spentThisMonth: 900 * 1e6,
+      }).evaluateMaintenanceRequest(1, ROUTINE_LEAK, 150 * 1e6, HISTORY);
+      expect(monthly.decision).toBe('escalate');
+      expect(monthly.reasoning).toContain('monthly AI spend cap');
+    });
+
+    test('should approve when the request fits the cap exactly', async () => {
+      const engine = withPolicy({ autoApprovalLimit: 500 * 1e6, dailyCap: 300 * 1e6, spentToday: 150 * 1e6 });
+      const result = await engine.evaluateMaintenanceRequest(1, ROUTINE_LEAK, 150 * 1e6, HISTORY);
+
+      expect(result.decision).toBe('approve');
+    });
+
+    test("should scale caps and amounts to the property's payment token", async () => {
+      const inToken = (token: TokenMetadata, policy: ApprovalPolicy) =>
+        new AIDecisionEngine({
+          enableAutoApproval: true,
+          policySource: { getApprovalPolicy: async () => policy },
+          tokenSource: { getPropertyToken: async () => token },
+        });
+
+      const eurc = await inToken({ symbol: 'EURC', decimals: 6 }, { autoApprovalLimit: 100 * 1e6 })
+        .evaluateMaintenanceRequest(1, ROUTINE_LEAK, 150 * 1e6, HISTORY);
+      expect(eurc.reasoning).toContain('150.00 EURC exceeds the AI approval limit of 100.00 EURC');
+
+      // The 400-token plumbing cap is 400e18 base units in an 18-decimal token, not 400e6
+      const dai = { symbol: 'DAI', decimals: 18 };
+      const routine = await inToken(dai, { autoApprovalLimit: 500 * 1e18 })
+        .evaluateMaintenanceRequest(1, ROUTINE_LEAK, 150 * 1e18, HISTORY);
+      expect(routine.decision).toBe('approve');
+      expect(routine.reasoning).toContain('within the 400.00 DAI category cap');
+
+      const costly = await inToken(dai, { autoApprovalLimit: 1000 * 1e18 })
+        .evaluateMaintenanceRequest(1, ROUTINE_LEAK, 450 * 1e18, HISTORY);
+      expect(costly.decision).toBe('escalate');
+      expect(costly.reasoning).toContain('above the typical 400.00 DAI for plumbing work');
+    });
+
+    test('should decode the on-chain category bitmask', () => {
+      expect(categoriesFromMask(0n)).toEqual([]);
+      expect(categoriesFromMask((1n << 0n) | (1n << 8n))).toEqual(['plumbing', 'cosmetic']);
+    });
+  });
+
+  describe('contractor matching', () => {
+    const ROUTINE_LEAK = 'Leaking kitchen faucet needs a new washer';
+    const HISTORY = { totalSpend: 2000, avgResponseTime: 2, propertyAge: 8 };
+
+    const candidate = (address: string, overrides: Partial<ContractorCandidate> = {}): ContractorCandidate => ({
+      address,
+      trades: ['plumbing'],
+      serviceAreas: ['94103'],
+      rating: 4,
+      jobsCompleted: 10,
+      ...overrides,
+    });
+
+    const withContractors = (candidates: ContractorCandidate[]) =>
+      new AIDecisionEngine({
+        autoApprovalLimit: 500 * 1e6,
+        enableAutoApproval: true,
+        contractorSource: { getAllowedContractors: async () => candidates },
+      });
+
+    test('should only consider contractors who work in the category', () => {
+      const electrician = candidate('0xe', { trades: ['electrical'], rating: 5 });
+      expect(selectContractor([electrician, candidate('0xp')], 'plumbing')?.address).toBe('0xp');
+      expect(selectContractor([electrician], 'plumbing')).toBeNull();
+    });
+
+    test('should prefer the service area, then rating, then experience', () => {
+      const local = candidate('0xa', { rating: 3.5 });
+      const remote = candidate('0xb', { serviceAreas: ['10001'], rating: 5 });
+      const veteran = candidate('0xc', { jobsCompleted: 40 });
+      const unrated = candidate('0xd', { rating: null, jobsCompleted: 0 });
+
+      expect(selectContractor([remote, local], 'plumbing', '94103')?.address).toBe('0xa');
+      expect(selectContractor([local, remote], 'plumbing')?.address).toBe('0xb');
+      expect(selectContractor([candidate('0xe'), veteran], 'plumbing')?.address).toBe('0xc');
+      expect(selectContractor([unrated, local], 'plumbing')?.address).toBe('0xa');
+    });
+
+    test('should attach the proposal to the decision', async () => {
+      const result = await withContractors([candidate('0xa')]).evaluateMaintenanceRequest(
+        1,
+        ROUTINE_LEAK,
+        150 * 1e6,
+        HISTORY,
+        '94103'
+      );
+
+      expect(result.decision).toBe('approve');
+      expect(result.contractor?.address).toBe('0xa');
+      expect(result.contractor?.reasoning).toContain('serving 94103');
+    });
+
+    test('should escalate an approval when no allowlisted contractor qualifies', async () => {
+      const result = await withContractors([]).evaluateMaintenanceRequest(1, ROUTINE_LEAK, 150 * 1e6, HISTORY);
+
+      expect(result.decision).toBe('escalate');
+      expect(result.approvedAmount).toBe(0);
+      expect(result.reasoning).toContain('No allowlisted contractor covers plumbing work');
+    });
+  });
+
   describe('generateTenantCommunication', () => {
     test('should generate friendly rent reminder', async () => {
       const message = await aiEngine.generateTenantCommunication({
         type: 'reminder',
         tenantName: 'John Doe',
-        rentAmount: 2500,
+        rentAmount: '2500000000',
       });
 
       expect(message).toBeTruthy();
@@ -144,6 +290,22 @@ describe('AIDecisionEngine', () => {
       expect(message.length).toBeLessThan(800);
     });
 
+    test("should price reminders in the property's payment token", async () => {
+      const engine = new AIDecisionEngine({
+        provider: new StubLLMProvider(),
+        tokenSource: { getPropertyToken: async () => ({ symbol: 'EURC', decimals: 6 }) },
+      });
+      const message = await engine.generateTenantCommunication({
+        type: 'reminder',
+        propertyId: 3,
+        rentAmount: '1800000000',
+      });
+
+      expect(message).toContain('your rent payment of 1,800.00 EURC is due soon');
+      expect(message).toContain('pay in EURC');
+      expect(message).not.toContain('$');
+    });
+
     test('should generate maintenance update', async () => {
       const message = await aiEngine.generateTenantCommunication({
         type: 'maintenance_update',
@@ -158,8 +320,58 @@ describe('AIDecisionEngine', () => {
 
 // ============ Integration Tests ============
 
+const BASE_URL = 'http://localhost:3001/api';
+
+// Hardhat account #0 deploys RentFlowCore locally, so it holds the admin role and may read every property
+const admin = new ethers.Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+// A wallet with no properties, leases or roles
+const stranger = new ethers.Wallet(ethers.id('stranger'));
+
+/** Sign in as the dashboard does: a nonce, a signed EIP-4361 message, and a Bearer token back */
+async function signIn(wallet: ethers.Wallet): Promise<string> {
+  // The chain the server's deployment is on, which the message must name
+  const rpc = await fetch(config.blockchain.rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+  });
+  const chainId = Number((await rpc.json()).result);
+
+  const { nonce } = await (await fetch(`${BASE_URL}/auth/nonce`)).json();
+  const domain = config.auth.siweDomain;
+  const message = [
+    `${domain} wants you to sign in with your Ethereum account:`,
+    wallet.address,
+    '',
+    'Sign in to RentFlow AI',
+    '',
+    `URI: http://${domain}`,
+    'Version: 1',
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date().toISOString()}`,
+  ].join('\n');
+
+  const response = await fetch(`${BASE_URL}/auth/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature: await wallet.signMessage(message) }),
+  });
+  const data = await response.json();
+  expect(response.status).toBe(200);
+  return data.token;
+}
+
+const withSession = (token: string) => ({ 'Content-Type': 'application/json', Authorization: `Bearer ${token}` });
+
 describe('API Endpoints', () => {
-  const BASE_URL = 'http://localhost:3001/api';
+  let adminToken: string;
+  let strangerToken: string;
+
+  beforeAll(async () => {
+    adminToken = await signIn(admin);
+    strangerToken = await signIn(stranger);
+  });
 
   describe('GET /health', () => {
     test('should return healthy status', async () => {
@@ -176,7 +388,7 @@ describe('API Endpoints', () => {
     test('should evaluate valid maintenance request', async () => {
       const response = await fetch(`${BASE_URL}/maintenance/evaluate`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: withSession(adminToken),
         body: JSON.stringify({
           description: 'Fix leaking faucet in kitchen',
           estimatedCost: 150000000, // $150
@@ -196,7 +408,7 @@ describe('API Endpoints', () => {
     test('should reject invalid description', async () => {
       const response = await fetch(`${BASE_URL}/maintenance/evaluate`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: withSession(adminToken),
         body: JSON.stringify({
           description: 'short', // Too short
           estimatedCost: 150000000,
@@ -210,7 +422,7 @@ describe('API Endpoints', () => {
     test('should reject invalid cost', async () => {
       const response = await fetch(`${BASE_URL}/maintenance/evaluate`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: withSession(adminToken),
         body: JSON.stringify({
           description: 'Fix leaking faucet',
           estimatedCost: -100, // Negative cost
@@ -220,12 +432,36 @@ describe('API Endpoints', () => {
 
       expect(response.status).toBe(400);
     });
+
+    test('should refuse requests without a valid session', async () => {
+      const request = (headers: Record<string, string>) =>
+        fetch(`${BASE_URL}/maintenance/evaluate`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({ description: 'Fix leaking faucet in kitchen', estimatedCost: 150000000, propertyId: 1 }),
+        });
+
+      const missing = await request({});
+      expect(missing.status).toBe(401);
+      expect(missing.headers.get('WWW-Authenticate')).toBe('Bearer');
+      expect((await request({ Authorization: 'Bearer not-a-token' })).status).toBe(401);
+    });
+
+    test('should refuse a wallet with no part in the property', async () => {
+      const response = await fetch(`${BASE_URL}/maintenance/evaluate`, {
+        method: 'POST',
+        headers: withSession(strangerToken),
+        body: JSON.stringify({ description: 'Fix leaking faucet in kitchen', estimatedCost: 150000000, propertyId: 1 }),
+      });
+
+      expect(response.status).toBe(403);
+    });
   });
 
   describe('GET /tenant/:address/score', () => {
     test('should return tenant score for valid address', async () => {
       const testAddress = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb';
-      const response = await fetch(`${BASE_URL}/tenant/${testAddress}/score`);
+      const response = await fetch(`${BASE_URL}/tenant/${testAddress}/score`, { headers: withSession(adminToken) });
       const data = await response.json();
 
       expect(response.status).toBe(200);
@@ -234,15 +470,35 @@ describe('API Endpoints', () => {
     });
 
     test('should reject invalid address', async () => {
-      const response = await fetch(`${BASE_URL}/tenant/invalid-address/score`);
+      const response = await fetch(`${BASE_URL}/tenant/invalid-address/score`, { headers: withSession(adminToken) });
       expect(response.status).toBe(400);
     });
 
     test('should return 404 for non-existent tenant', async () => {
       const nonExistentAddress = '0x0000000000000000000000000000000000000000';
-      const response = await fetch(`${BASE_URL}/tenant/${nonExistentAddress}/score`);
+      const response = await fetch(`${BASE_URL}/tenant/${nonExistentAddress}/score`, {
+        headers: withSession(adminToken),
+      });
       expect(response.status).toBe(404);
     });
+
+    test('should refuse requests without a valid session', async () => {
+      const missing = await fetch(`${BASE_URL}/tenant/${stranger.address}/score`);
+      const invalid = await fetch(`${BASE_URL}/tenant/${stranger.address}/score`, {
+        headers: { Authorization: 'Bearer not-a-token' },
+      });
+
+      expect([missing.status, invalid.status]).toEqual([401, 401]);
+    });
+
+    test("should show a wallet its own score but not another wallet's", async () => {
+      // The stranger has no lease history of its own, and has never let to the admin
+      const own = await fetch(`${BASE_URL}/tenant/${stranger.address}/score`, { headers: withSession(strangerToken) });
+      const other = await fetch(`${BASE_URL}/tenant/${admin.address}/score`, { headers: withSession(strangerToken) });
+
+      expect(own.status).toBe(404);
+      expect(other.status).toBe(403);
+    });
   });
 
   describe('POST /chat', () => {
@@ -306,6 +562,28 @@ describe('Edge Cases', () => {
     expect(result.decision).toBeDefined();
   });
 
+  test('should return identical decisions for identical requests', async () => {
+    const aiEngine = new AIDecisionEngine();
+    const history = { totalSpend: 1000, avgResponseTime: 2, propertyAge: 5 };
+
+    const first = await aiEngine.evaluateMaintenanceRequest(7, 'Clogged kitchen drain', 90 * 1e6, history);
+    const second = await aiEngine.evaluateMaintenanceRequest(7, 'Clogged kitchen drain', 90 * 1e6, history);
+
+    expect(second).toEqual(first);
+  });
+
+  test('should fall back to templates when the LLM provider hangs', async () => {
+    const hangingProvider: LLMProvider = {
+      name: 'hanging',
+      complete: () => new Promise<string>(() => undefined),
+    };
+    const aiEngine = new AIDecisionEngine({ provider: hangingProvider, requestTimeoutMs: 50 });
+
+    const message = await aiEngine.generateTenantCommunication({ type: 'overdue', daysOverdue: 3 });
+
+    expect(message.toLowerCase()).toContain('overdue');
+  });
+
   test('should handle very long descriptions', async () => {
     const aiEngine = new AIDecisionEngine();
     const longDescription = 'A'.repeat(10000);
@@ -362,8 +640,16 @@ describe('Performance', () => {
 // ============ Security Tests ============
 
 describe('Security', () => {
+  let adminToken: string;
+
+  beforeAll(async () => {
+    adminToken = await signIn(admin);
+  });
+
   test('should sanitize SQL injection attempts', async () => {
-    const response = await fetch('http://localhost:3001/api/tenant/0x123\'; DROP TABLE users;--/score');
+    const response = await fetch('http://localhost:3001/api/tenant/0x123\'; DROP TABLE users;--/score', {
+      headers: withSession(adminToken),
+    });
     // Should be caught by address validation
     expect(response.status).toBe(400);
   });
@@ -375,7 +661,7 @@ describe('Security', () => {
     const promises = Array(25).fill(null).map(() =>
       fetch(BASE_URL, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: withSession(adminToken),
         body: JSON.stringify({
           description: 'Test request for rate limiting',
           estimatedCost: 100000000,
@@ -393,7 +679,7 @@ describe('Security', () => {
   test('should reject XSS attempts in description', async () => {
     const response = await fetch('http://localhost:3001/api/maintenance/evaluate', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: withSession(adminToken),
       body: JSON.stringify({
         description: '<script>alert("XSS")</script>',
         estimatedCost: 100000000,
@@ -0,0 +1,165 @@
+/**
+ * RentFlow AI Backend - Sign-In with Ethereum Tests
+ *
+ * File: backend/tests/auth.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Parsing: EIP-4361 messages with and without a statement, malformed ones rejected
+ * 2. Sign-in: a wallet's signature over a fresh nonce yields a token for its address;
+ *    other sites, chains, signers, expired messages and reused nonces are refused
+ * 3. Tokens: forged, tampered and expired tokens are refused
+ */
+
+import { ethers } from 'ethers';
+import { AuthError, parseSiweMessage, SiweAuth, SiweAuthOptions } from '../src/auth';
+
+const SECRET = 'test-secret-that-is-32-characters';
+const DOMAIN = 'app.rentflow.test';
+const NOW = Date.UTC(2026, 0, 1) / 1000;
+
+const tenant = new ethers.Wallet(ethers.id('tenant'));
+const other = new ethers.Wallet(ethers.id('other'));
+
+interface MessageFields {
+  domain?: string;
+  address?: string;
+  statement?: string | null;
+  chainId?: number;
+  nonce: string;
+  expirationTime?: string;
+}
+
+const siweMessage = ({
+  domain = DOMAIN,
+  address = tenant.address,
+  statement = 'Sign in to RentFlow AI',
+  chainId = 31337,
+  nonce,
+  expirationTime,
+}: MessageFields) =>
+  [
+    `${domain} wants you to sign in with your Ethereum account:`,
+    address,
+    '',
+    ...(statement === null ? [] : [statement, '']),
+    `URI: https://${domain}`,
+    'Version: 1',
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date(NOW * 1000).toISOString()}`,
+    ...(expirationTime ? [`Expiration Time: ${expirationTime}`] : []),
+  ].join('\n');
+
+describe('parseSiweMessage', () => {
+  test('should read the header and fields, with or without a statement', () => {
+    const parsed = parseSiweMessage(siweMessage({ nonce: 'abcdef0123456789' }));
+    expect(parsed).toMatchObject({
+      domain: DOMAIN,
+      address: tenant.address,
+      statement: 'Sign in to RentFlow AI',
+      version: '1',
+      chainId: 31337,
+      nonce: 'abcdef0123456789',
+      expirationTime: null,
+    });
+
+    expect(parseSiweMessage(siweMessage({ nonce: 'abcdef0123456789', statement: null })).statement).toBeNull();
+  });
+
+  test('should reject messages that are not EIP-4361', () => {
+    const valid = siweMessage({ nonce: 'abcdef0123456789' });
+    const malformed = [
+      'Sign this message to log in',
+      valid.replace(tenant.address, '0x1234'),
+      valid.replace('Nonce: abcdef0123456789', 'Nonce: short'),
+      valid.replace(/\nIssued At: .*/, ''),
+      `${valid}\nVersion: 2`,
+    ];
+    for (const message of malformed) {
+      expect(() => parseSiweMessage(message)).toThrow(AuthError);
+    }
+  });
+});
+
+describe('SiweAuth', () => {
+  let now: number;
+  let auth: SiweAuth;
+
+  const options = (overrides: Partial<SiweAuthOptions> = {}): SiweAuthOptions => ({
+    secret: SECRET,
+    domain: DOMAIN,
+    chainId: 31337,
+    tokenTtlSeconds: 3600,
+    nonceTtlSeconds: 300,
+    now: () => now,
+    ...overrides,
+  });
+
+  const signed = async (fields: Partial<MessageFields> = {}, signer = tenant) => {
+    const message = siweMessage({ nonce: auth.issueNonce().nonce, ...fields });
+    return { message, signature: await signer.signMessage(message) };
+  };
+
+  beforeEach(() => {
+    now = NOW;
+    auth = new SiweAuth(options());
+  });
+
+  test('should refuse secrets shorter than 32 characters', () => {
+    expect(() => new SiweAuth(options({ secret: 'your-random-256-bit-secret-here' }))).toThrow(/32 characters/);
+  });
+
+  test("should issue a token for the signer's address", async () => {
+    const { message, signature } = await signed();
+    const { token, session } = auth.signIn(message, signature);
+
+    expect(session).toEqual({ address: tenant.address.toLowerCase(), issued_at: NOW, expires_at: NOW + 3600 });
+    expect(auth.verify(token)).toEqual(session);
+  });
+
+  test('should refuse messages for another site or chain, or signed by another wallet', async () => {
+    const otherSite = await signed({ domain: 'phishing.test' });
+    expect(() => auth.signIn(otherSite.message, otherSite.signature)).toThrow('Sign-in message is for another site');
+
+    const otherChain = await signed({ chainId: 1 });
+    expect(() => auth.signIn(otherChain.message, otherChain.signature)).toThrow('must be for chain 31337');
+
+    const impostor = await signed({}, other);
+    expect(() => auth.signIn(impostor.message, impostor.signature)).toThrow('Signature does not match');
+    expect(() => auth.signIn(impostor.message, '0xdeadbeef')).toThrow('Invalid signature');
+  });
+
+  test('should accept each nonce once, and only before it expires', async () => {
+    const { message, signature } = await signed();
+    auth.signIn(message, signature);
+    expect(() => auth.signIn(message, signature)).toThrow('Unknown or expired nonce');
+
+    const late = await signed();
+    now += 301;
+    expect(() => auth.signIn(late.message, late.signature)).toThrow('Unknown or expired nonce');
+
+    const unknown = siweMessage({ nonce: 'a'.repeat(32) });
+    expect(() => auth.signIn(unknown, tenant.signMessageSync(unknown))).toThrow('Unknown or expired nonce');
+  });
+
+  test('should refuse a message past its expiration time', async () => {
+    const { message, signature } = await signed({ expirationTime: new Date((NOW - 1) * 1000).toISOString() });
+    expect(() => auth.signIn(message, signature)).toThrow('Sign-in message has expired');
+  });
+
+  test('should refuse forged, tampered and expired tokens', async () => {
+    const { message, signature } = await signed();
+    const { token } = auth.signIn(message, signature);
+    const [header, , mac] = token.split('.');
+
+    const forged = new SiweAuth(options({ secret: 'another-secret-also-32-characters' }));
+    expect(() => forged.verify(token)).toThrow(AuthError);
+
+    const payload = Buffer.from(JSON.stringify({ sub: other.address, iat: NOW, exp: NOW + 3600 })).toString('base64url');
+    expect(() => auth.verify(`${header}.${payload}.${mac}`)).toThrow('Invalid or expired session token');
+    expect(() => auth.verify('not.a.token')).toThrow(AuthError);
+
+    now += 3600;
+    expect(() => auth.verify(token)).toThrow('Invalid or expired session token');
+  });
+});
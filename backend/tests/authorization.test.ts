@@ -0,0 +1,126 @@
+/**
+ * RentFlow AI Backend - Authorization Tests
+ *
+ * File: backend/tests/authorization.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Viewer: owned and managed properties, current tenancy and roles from indexed events;
+ *    managing a building covers its units, renting a unit covers its building
+ * 2. Decisions: owners, managers, tenants, contractors and privileged roles see their
+ *    own slice; a tenant's landlords can see their score
+ * 3. Refresh: a revoked manager loses access once the event is indexed
+ */
+
+import { IndexedEvent, MemoryIndexerStore } from '../src/indexer-store';
+import { AccessDirectory, ROLE_IDS } from '../src/access-directory';
+import { PortfolioIndex } from '../src/portfolio';
+import { AccessPolicy } from '../src/authorization';
+import { createEventChain, JAN_1_2024 } from './helpers/events';
+
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const MANAGER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const TENANT = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const FORMER_TENANT = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65';
+const UNIT_TENANT = '0x14dC79964da2C08b23698B3D3cc7Ca32193d9955';
+const CONTRACTOR = '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc';
+const ARBITER = '0x976EA74026E726554dB657fA54763abd0C3a0aa9';
+const USDC = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const { event, rewind } = createEventChain(JAN_1_2024, 86_400);
+
+const property = (propertyId: number) =>
+  event('PropertyRegistered', { propertyId: String(propertyId), owner: OWNER, monthlyRent: '1000', paymentToken: USDC });
+
+describe('AccessPolicy', () => {
+  let store: MemoryIndexerStore;
+  let access: AccessDirectory;
+  let portfolio: PortfolioIndex;
+  let policy: AccessPolicy;
+
+  const index = async (events: IndexedEvent[]): Promise<void> => {
+    const last = events[events.length - 1];
+    await store.saveBatch(
+      events,
+      events.map((indexed) => ({ number: indexed.blockNumber, hash: indexed.blockHash })),
+      { blockNumber: last.blockNumber, blockHash: last.blockHash }
+    );
+    for (const indexed of events) {
+      await access.handleEvent(indexed);
+      await portfolio.handleEvent(indexed);
+    }
+  };
+
+  beforeEach(async () => {
+    rewind();
+    store = new MemoryIndexerStore();
+    access = new AccessDirectory(store);
+    portfolio = new PortfolioIndex(store);
+    policy = new AccessPolicy(access, portfolio);
+    await index([
+      event('RoleGranted', { role: ROLE_IDS.arbiter, account: ARBITER, sender: OWNER }),
+      property(0),
+      property(1),
+      event('PropertyManagerUpdated', { propertyId: '1', manager: MANAGER, permissions: '1' }),
+      event('LeaseCreated', { leaseId: '0', propertyId: '0', tenant: FORMER_TENANT }),
+      event('LeaseTerminated', { leaseId: '0', reason: 'moved out', fee: '0' }),
+      event('LeaseCreated', { leaseId: '1', propertyId: '1', tenant: TENANT }),
+    ]);
+  });
+
+  test('should build a viewer from ownership, management, tenancy and roles', async () => {
+    const owner = await policy.viewerFor(OWNER);
+    expect(owner).toMatchObject({ address: OWNER.toLowerCase(), privileged: false, managed: new Set([0, 1]) });
+    expect((await policy.viewerFor(MANAGER)).managed).toEqual(new Set([1]));
+    expect((await policy.viewerFor(TENANT)).rented).toEqual(new Set([1]));
+    // An ended lease no longer counts
+    expect((await policy.viewerFor(FORMER_TENANT)).rented).toEqual(new Set());
+    expect(await policy.viewerFor(ARBITER)).toMatchObject({ roles: ['arbiter'], privileged: true });
+  });
+
+  test('should extend building management to its units, and unit tenancy to its building', async () => {
+    await index([
+      property(2),
+      property(3),
+      event('UnitRegistered', { buildingId: '2', unitId: '3' }),
+      event('PropertyManagerUpdated', { propertyId: '2', manager: MANAGER, permissions: '1' }),
+      event('LeaseCreated', { leaseId: '2', propertyId: '3', tenant: UNIT_TENANT }),
+    ]);
+
+    const manager = await policy.viewerFor(MANAGER);
+    const tenant = await policy.viewerFor(UNIT_TENANT);
+    expect(manager.managed).toEqual(new Set([1, 2, 3]));
+    expect(tenant.rented).toEqual(new Set([2, 3]));
+    // Common-area access does not make the tenant a manager of the building
+    expect([policy.canViewProperty(tenant, 2), policy.canManageProperty(tenant, 2)]).toEqual([true, false]);
+    expect(await policy.canViewTenant(manager, UNIT_TENANT)).toBe(true);
+  });
+
+  test('should let each party see only its own slice', async () => {
+    const manager = await policy.viewerFor(MANAGER);
+    const tenant = await policy.viewerFor(TENANT);
+    const contractor = await policy.viewerFor(CONTRACTOR);
+    const arbiter = await policy.viewerFor(ARBITER);
+
+    expect([policy.canManageProperty(manager, 1), policy.canManageProperty(manager, 0)]).toEqual([true, false]);
+    expect([policy.canViewProperty(tenant, 1), policy.canManageProperty(tenant, 1)]).toEqual([true, false]);
+    expect(policy.canViewMaintenance(contractor, { property_id: 0, contractor: CONTRACTOR.toLowerCase() })).toBe(true);
+    expect(policy.canViewMaintenance(contractor, { property_id: 0, contractor: null })).toBe(false);
+    expect(policy.canManageProperty(arbiter, 0)).toBe(true);
+
+    // Landlords, past or present, see a tenant's score; other tenants do not
+    const owner = await policy.viewerFor(OWNER);
+    expect(await policy.canViewTenant(owner, FORMER_TENANT)).toBe(true);
+    expect(await policy.canViewTenant(manager, FORMER_TENANT)).toBe(false);
+    expect(await policy.canViewTenant(tenant, FORMER_TENANT)).toBe(false);
+
+    expect(policy.leaseScope(arbiter)).toBeUndefined();
+    expect(policy.visibleProperties(tenant)).toEqual(new Set([1]));
+  });
+
+  test('should drop access once a revocation is indexed', async () => {
+    await index([event('PropertyManagerUpdated', { propertyId: '1', manager: MANAGER, permissions: '0' })]);
+
+    const manager = await policy.viewerFor(MANAGER);
+    expect(policy.canManageProperty(manager, 1)).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * RentFlow AI Backend - Autopay Keeper Tests
+ *
+ * File: backend/tests/autopay-keeper.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Enrollment: replayed from AutopayEnabled / AutopayDisabled in chain order
+ * 2. Collection: only leases that are due, only when cap, balance and allowance allow it;
+ *    a lease whose state cannot be read is skipped without holding up the rest
+ * 3. Notices: one per lease, period and reason, stored through the repository
+ */
+
+import { QueryResult } from 'pg';
+import { IndexedEvent, MemoryIndexerStore } from '../src/indexer-store';
+import { AutopayGateway, AutopayKeeper, AutopayLeaseState, checkCollection } from '../src/autopay-keeper';
+import { TenantNoticeRepository } from '../src/db/repositories';
+import { Queryable } from '../src/db/pool';
+import { createEventChain } from './helpers/events';
+
+const TENANT = '0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc';
+const DUE_DATE = 1_706_745_600;
+const RENT = 2_500_000_000n;
+
+const { event, rewind } = createEventChain();
+
+const leaseState = (leaseId: number, overrides: Partial<AutopayLeaseState> = {}): AutopayLeaseState => ({
+  leaseId,
+  tenant: TENANT,
+  period: 1,
+  dueDate: DUE_DATE,
+  amountDue: RENT,
+  token: { symbol: 'USDC', decimals: 6 },
+  cap: RENT,
+  balance: RENT * 2n,
+  allowance: RENT * 2n,
+  ...overrides,
+});
+
+class FakeGateway implements AutopayGateway {
+  states = new Map<number, AutopayLeaseState>();
+  collected: number[] = [];
+  failCollection = false;
+  /** Leases whose state read fails, as on an RPC error */
+  unreadable = new Set<number>();
+
+  async getLeaseState(leaseId: number): Promise<AutopayLeaseState | null> {
+    if (this.unreadable.has(leaseId)) throw new Error('missing revert data');
+    return this.states.get(leaseId) ?? null;
+  }
+
+  async collectRent(leaseId: number): Promise<string> {
+    if (this.failCollection) throw new Error('execution reverted');
+    this.collected.push(leaseId);
+    return `0xcollect${leaseId}`;
+  }
+}
+
+/** Records inserted notices and honours the (lease, period, kind, reason) unique key */
+class FakeNoticeDb implements Queryable {
+  inserted: unknown[][] = [];
+
+  async query(_text: string, values: unknown[] = []): Promise<QueryResult> {
+    const [, leaseId, period, kind, reason] = values;
+    const duplicate = this.inserted.some(
+      (row) => row[1] === leaseId && row[2] === period && row[3] === kind && row[4] === reason
+    );
+    if (!duplicate) this.inserted.push(values);
+    return { rows: [], rowCount: duplicate ? 0 : 1, command: '', oid: 0, fields: [] } as unknown as QueryResult;
+  }
+}
+
+describe('checkCollection', () => {
+  test('should pass when cap, balance and allowance cover the rent', () => {
+    expect(checkCollection(leaseState(0))).toBeNull();
+  });
+
+  test('should report the first reason the contract would revert', () => {
+    expect(checkCollection(leaseState(0, { cap: RENT - 1n, balance: 0n }))).toBe('over_cap');
+    expect(checkCollection(leaseState(0, { balance: RENT - 1n, allowance: 0n }))).toBe('insufficient_balance');
+    expect(checkCollection(leaseState(0, { allowance: RENT - 1n }))).toBe('insufficient_allowance');
+  });
+});
+
+describe('AutopayKeeper', () => {
+  let store: MemoryIndexerStore;
+  let gateway: FakeGateway;
+  let db: FakeNoticeDb;
+  let keeper: AutopayKeeper;
+
+  const index = async (events: IndexedEvent[]): Promise<void> => {
+    const last = events[events.length - 1];
+    await store.saveBatch(
+      events,
+      events.map((indexed) => ({ number: indexed.blockNumber, hash: indexed.blockHash })),
+      { blockNumber: last.blockNumber, blockHash: last.blockHash }
+    );
+  };
+
+  beforeEach(async () => {
+    rewind();
+    store = new MemoryIndexerStore();
+    gateway = new FakeGateway();
+    db = new FakeNoticeDb();
+    keeper = new AutopayKeeper(store, gateway, new TenantNoticeRepository(db));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await index([
+      event('AutopayEnabled', { leaseId: '0', tenant: TENANT, maxPerPeriod: RENT.toString() }),
+      event('AutopayEnabled', { leaseId: '1', tenant: TENANT, maxPerPeriod: RENT.toString() }),
+      event('AutopayDisabled', { leaseId: '1', tenant: TENANT }),
+    ]);
+    gateway.states.set(0, leaseState(0));
+    gateway.states.set(1, leaseState(1));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should only enroll leases whose latest autopay event enables it', async () => {
+    expect(await keeper.enrolledLeases()).toEqual([0]);
+
+    await index([event('AutopayEnabled', { leaseId: '1', tenant: TENANT, maxPerPeriod: '1' })]);
+    expect(await keeper.enrolledLeases()).toEqual([0, 1]);
+  });
+
+  test('should wait for the due date before collecting', async () => {
+    const early = await keeper.runOnce(DUE_DATE - 1);
+    expect(early.collected).toHaveLength(0);
+    expect(gateway.collected).toEqual([]);
+
+    const due = await keeper.runOnce(DUE_DATE);
+    expect(due.collected).toEqual([{ leaseId: 0, period: 1, transactionHash: '0xcollect0' }]);
+    expect(gateway.collected).toEqual([0]);
+  });
+
+  test('should skip leases with no rent left', async () => {
+    gateway.states.delete(0);
+
+    const result = await keeper.runOnce(DUE_DATE);
+    expect(result).toEqual({ collected: [], failed: [] });
+  });
+
+  test('should notify the tenant once per period instead of sending a failing collection', async () => {
+    gateway.states.set(0, leaseState(0, { balance: RENT / 2n }));
+
+    const first = await keeper.runOnce(DUE_DATE);
+    await keeper.runOnce(DUE_DATE + 3600);
+
+    expect(gateway.collected).toEqual([]);
+    expect(first.failed).toEqual([
+      expect.objectContaining({ leaseId: 0, period: 1, reason: 'insufficient_balance', amountDue: RENT.toString() }),
+    ]);
+    expect(first.failed[0].message).toContain('2,500.00 USDC');
+    expect(db.inserted).toHaveLength(1);
+    expect(db.inserted[0]).toEqual(expect.arrayContaining([TENANT, 0, 1, 'autopay_failed', 'insufficient_balance']));
+
+    gateway.states.set(0, leaseState(0, { period: 2, balance: RENT / 2n }));
+    await keeper.runOnce(DUE_DATE + 31 * 86400);
+    expect(db.inserted).toHaveLength(2);
+  });
+
+  test('should report a reverted collection as transaction_failed', async () => {
+    gateway.failCollection = true;
+
+    const result = await keeper.runOnce(DUE_DATE);
+    expect(result.failed.map((failure) => failure.reason)).toEqual(['transaction_failed']);
+    expect(db.inserted[0]).toContain('transaction_failed');
+  });
+
+  test('should still collect later leases when one cannot be read', async () => {
+    await index([event('AutopayEnabled', { leaseId: '1', tenant: TENANT, maxPerPeriod: RENT.toString() })]);
+    gateway.unreadable.add(0);
+
+    const result = await keeper.runOnce(DUE_DATE);
+    expect(result).toEqual({ collected: [{ leaseId: 1, period: 1, transactionHash: '0xcollect1' }], failed: [] });
+    expect(console.error).toHaveBeenCalledWith('❌ Autopay could not read lease 0:', 'missing revert data');
+
+    gateway.unreadable.clear();
+    expect((await keeper.runOnce(DUE_DATE)).collected.map((collection) => collection.leaseId)).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * RentFlow AI Backend - Event Indexer Tests
+ *
+ * File: backend/tests/blockchain-monitor.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Backfill from the deployment block on a fake in-memory chain
+ * 2. Resume from the saved cursor after a restart
+ * 3. Roll back events after a reorg replaces recent blocks
+ */
+
+import { ethers } from 'ethers';
+import { BlockchainMonitor, MonitorBlock, MonitorLog, MonitorProvider } from '../src/blockchain-monitor';
+import { RENTFLOW_CORE_EVENTS } from '../src/contract-abi';
+import { MemoryIndexerStore } from '../src/indexer-store';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const TENANT = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const USDC = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const iface = new ethers.Interface(RENTFLOW_CORE_EVENTS);
+
+interface FakeBlock extends MonitorBlock {
+  hash: string;
+  logs: MonitorLog[];
+}
+
+/** Minimal chain: each block carries its own logs; `fork` replaces blocks */
+class FakeChain implements MonitorProvider {
+  blocks: FakeBlock[] = [];
+  private salt = 0;
+
+  mine(events: Array<[string, unknown[]]> = []): number {
+    const number = this.blocks.length;
+    const hash = ethers.id(`block-${number}-${this.salt}`);
+    const logs = events.map(([name, args], index) => {
+      const encoded = iface.encodeEventLog(name, args);
+      return {
+        topics: encoded.topics,
+        data: encoded.data,
+        blockNumber: number,
+        blockHash: hash,
+        transactionHash: ethers.id(`tx-${number}-${index}-${this.salt}`),
+        index,
+      };
+    });
+    this.blocks.push({ number, hash, timestamp: 1_700_000_000 + number * 12, logs });
+    return number;
+  }
+
+  /** Drop every block from `fromBlock` on so new ones get fresh hashes */
+  fork(fromBlock: number): void {
+    this.salt++;
+    this.blocks = this.blocks.slice(0, fromBlock);
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.blocks.length - 1;
+  }
+
+  async getBlock(number: number): Promise<MonitorBlock | null> {
+    return this.blocks[number] ?? null;
+  }
+
+  async getLogs(filter: ethers.Filter): Promise<MonitorLog[]> {
+    const from = Number(filter.fromBlock);
+    const to = Number(filter.toBlock);
+    return this.blocks.slice(from, to + 1).flatMap((block) => block.logs);
+  }
+}
+
+describe('BlockchainMonitor', () => {
+  let chain: FakeChain;
+  let store: MemoryIndexerStore;
+
+  const createMonitor = () =>
+    new BlockchainMonitor(chain, store, { contractAddress: CONTRACT, deploymentBlock: 2, batchSize: 3 });
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    store = new MemoryIndexerStore();
+    chain.mine();
+    chain.mine();
+    chain.mine([['PropertyRegistered', [0, OWNER, 2500n * 10n ** 6n, USDC]]]); // block 2 = deployment
+    chain.mine([['LeaseCreated', [0, 0, TENANT]]]);
+    chain.mine();
+    chain.mine([['RentPaid', [0, 2500n * 10n ** 6n, 1_700_000_060n]]]);
+  });
+
+  test('should backfill every event from the deployment block', async () => {
+    const result = await createMonitor().syncOnce();
+
+    expect(result).toEqual({ fromBlock: 2, toBlock: 5, eventCount: 3 });
+    const events = await store.getEvents();
+    expect(events.map((e) => e.name)).toEqual(['PropertyRegistered', 'LeaseCreated', 'RentPaid']);
+    expect(events[2].args).toEqual({ leaseId: '0', amount: '2500000000', timestamp: '1700000060' });
+    expect(await store.getCursor()).toEqual({ blockNumber: 5, blockHash: chain.blocks[5].hash });
+  });
+
+  test('should resume from the saved cursor after a restart', async () => {
+    await createMonitor().syncOnce();
+    chain.mine([['MaintenanceRequested', [0, 0, 150n * 10n ** 6n]]]);
+
+    const restarted = createMonitor();
+    const received: string[] = [];
+    restarted.on('event', (event) => received.push(event.name));
+
+    const result = await restarted.syncOnce();
+
+    expect(result?.fromBlock).toBe(6);
+    expect(received).toEqual(['MaintenanceRequested']);
+    expect(await store.getEvents()).toHaveLength(4);
+  });
+
+  test('should roll back events from orphaned blocks after a reorg', async () => {
+    const monitor = createMonitor();
+    await monitor.syncOnce();
+
+    // Blocks 4-5 are replaced; the RentPaid in block 5 never happened
+    chain.fork(4);
+    chain.mine();
+    chain.mine([['RentOverdue', [0, 3]]]);
+    chain.mine();
+
+    const reorgs: unknown[] = [];
+    monitor.on('reorg', (info) => reorgs.push(info));
+    await monitor.syncOnce();
+
+    expect(reorgs).toEqual([{ detectedAt: 5, commonAncestor: 3, removedEvents: 1 }]);
+    const names = (await store.getEvents()).map((e) => e.name);
+    expect(names).toEqual(['PropertyRegistered', 'LeaseCreated', 'RentOverdue']);
+    expect((await store.getCursor())?.blockNumber).toBe(6);
+  });
+
+  test('should filter stored events by decoded args', async () => {
+    await createMonitor().syncOnce();
+
+    const tenantLeases = await store.getEvents({ name: 'LeaseCreated', args: { tenant: TENANT.toLowerCase() } });
+    expect(tenantLeases).toHaveLength(1);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * RentFlow AI Backend - Building Tracker Tests
+ *
+ * File: backend/tests/buildings.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Totals: units, occupancy and rent summed from each unit's own events
+ * 2. Scope: requests and funds on a unit versus the building's common areas
+ * 3. Buildings are properties with units; plain properties are not listed
+ */
+
+import { IndexedEvent, MemoryIndexerStore } from '../src/indexer-store';
+import { BuildingTracker } from '../src/buildings';
+import { createEventChain } from './helpers/events';
+
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const OTHER_OWNER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const TENANT = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const CONTRACTOR = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65';
+const USDC = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const { event, rewind } = createEventChain();
+
+const property = (propertyId: number, monthlyRent: string, owner = OWNER) =>
+  event('PropertyRegistered', { propertyId: String(propertyId), owner, monthlyRent, paymentToken: USDC });
+
+const unit = (buildingId: number, unitId: number, monthlyRent: string) => [
+  property(unitId, monthlyRent),
+  event('UnitRegistered', { buildingId: String(buildingId), unitId: String(unitId) }),
+];
+
+describe('BuildingTracker', () => {
+  let store: MemoryIndexerStore;
+  let buildings: BuildingTracker;
+
+  const index = async (events: IndexedEvent[]): Promise<IndexedEvent[]> => {
+    const last = events[events.length - 1];
+    await store.saveBatch(
+      events,
+      events.map((indexed) => ({ number: indexed.blockNumber, hash: indexed.blockHash })),
+      { blockNumber: last.blockNumber, blockHash: last.blockHash }
+    );
+    return events;
+  };
+
+  beforeEach(async () => {
+    rewind();
+    store = new MemoryIndexerStore();
+    buildings = new BuildingTracker(store);
+    // Building 0 with units 1 and 2; property 3 stands alone
+    await index([
+      property(0, '3000000000'),
+      ...unit(0, 1, '1800000000'),
+      ...unit(0, 2, '2200000000'),
+      property(3, '2500000000', OTHER_OWNER),
+      event('LeaseCreated', { leaseId: '0', propertyId: '1', tenant: TENANT }),
+    ]);
+  });
+
+  test('should total units, occupancy and rent', async () => {
+    const building = await buildings.getBuilding(0);
+
+    expect(building).toMatchObject({
+      building_id: 0,
+      owner: OWNER.toLowerCase(),
+      payment_token: USDC.toLowerCase(),
+      unit_count: 2,
+      occupied_units: 1,
+      total_monthly_rent: '4000000000',
+      occupied_monthly_rent: '1800000000',
+    });
+    expect(building?.units.map((view) => [view.unit_id, view.occupied])).toEqual([
+      [1, true],
+      [2, false],
+    ]);
+
+    const [ended] = await index([event('LeaseTerminated', { leaseId: '0', reason: '0', fee: '0' })]);
+    await buildings.handleEvent(ended);
+    expect((await buildings.getBuilding(0))?.occupied_units).toBe(0);
+  });
+
+  test('should keep unit and common-area requests and funds apart', async () => {
+    await index([
+      event('MaintenanceFundAdded', { propertyId: '0', amount: '500000000' }),
+      event('MaintenanceFundAdded', { propertyId: '1', amount: '200000000' }),
+      event('MaintenanceRequested', { requestId: '0', propertyId: '0', estimatedCost: '150000000' }),
+      event('MaintenanceRequested', { requestId: '1', propertyId: '1', estimatedCost: '90000000' }),
+      event('MaintenanceRequested', { requestId: '2', propertyId: '2', estimatedCost: '60000000' }),
+      event('MaintenancePaid', { requestId: '0', amount: '150000000', contractor: CONTRACTOR }),
+      event('MaintenanceRejected', { requestId: '2', reason: '2', rejectedBy: OWNER }),
+    ]);
+    buildings.invalidate();
+
+    const building = await buildings.getBuilding(0);
+    expect(building?.open_requests).toEqual({ units: 1, common_areas: 0 });
+    expect(building?.maintenance_funds).toEqual({ units: '200000000', common_areas: '350000000' });
+    expect(building?.units[0]).toEqual({
+      unit_id: 1,
+      monthly_rent: '1800000000',
+      occupied: true,
+      open_requests: 1,
+      maintenance_fund: '200000000',
+    });
+  });
+
+  test('should only treat properties with units as buildings', async () => {
+    expect(await buildings.getBuilding(1)).toBeNull();
+    expect(await buildings.getBuilding(3)).toBeNull();
+    expect((await buildings.listBuildings()).map((building) => building.building_id)).toEqual([0]);
+    expect(await buildings.listBuildings(OTHER_OWNER)).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * RentFlow AI Backend - Contractor Directory Tests
+ *
+ * File: backend/tests/contractor-directory.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Decoding: on-chain registry entries become profiles with named trades and areas
+ * 2. Directory: allowlists replayed per owner, profiles refreshed on registry events
+ */
+
+import { ethers } from 'ethers';
+import { IndexedEvent, MemoryIndexerStore } from '../src/indexer-store';
+import { ContractorDirectory, ContractorProfile, toContractorProfile } from '../src/contractor-directory';
+
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const OTHER_OWNER = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65';
+const PLUMBER = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const ELECTRICIAN = '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc';
+
+const onChain = (overrides = {}) => ({
+  trades: 1n,
+  serviceAreas: [ethers.encodeBytes32String('94103')],
+  licenseHash: ethers.id('license'),
+  insuranceHash: ethers.ZeroHash,
+  jobsCompleted: 3n,
+  totalEarned: 450_000_000n,
+  ratingTotal: 13n,
+  ratingCount: 3n,
+  ...overrides,
+});
+
+describe('toContractorProfile', () => {
+  test('should decode trades, areas and the average rating', () => {
+    const profile = toContractorProfile(PLUMBER, onChain({ trades: 0b11n }))!;
+
+    expect(profile.address).toBe(PLUMBER.toLowerCase());
+    expect(profile.trades).toEqual(['plumbing', 'electrical']);
+    expect(profile.serviceAreas).toEqual(['94103']);
+    expect(profile.rating).toBeCloseTo(4.33);
+    expect(profile.insuranceHash).toBeNull();
+  });
+
+  test('should treat an empty entry as unregistered', () => {
+    expect(toContractorProfile(PLUMBER, onChain({ trades: 0n }))).toBeNull();
+  });
+
+  test('should leave ratings null until the first one', () => {
+    expect(toContractorProfile(PLUMBER, onChain({ ratingTotal: 0n, ratingCount: 0n }))?.rating).toBeNull();
+  });
+});
+
+describe('ContractorDirectory', () => {
+  let store: MemoryIndexerStore;
+  let directory: ContractorDirectory;
+  let profiles: Map<string, ContractorProfile>;
+  let reads: number;
+  let block = 0;
+
+  const index = async (name: IndexedEvent['name'], args: IndexedEvent['args']): Promise<IndexedEvent> => {
+    block++;
+    const event: IndexedEvent = {
+      id: `0x${block.toString(16)}-0`,
+      name,
+      blockNumber: block,
+      blockHash: `0xblock${block}`,
+      transactionHash: `0x${block.toString(16)}`,
+      logIndex: 0,
+      timestamp: 1_700_000_000 + block,
+      args,
+    };
+    await store.saveBatch([event], [{ number: block, hash: event.blockHash }], {
+      blockNumber: block,
+      blockHash: event.blockHash,
+    });
+    return event;
+  };
+
+  beforeEach(async () => {
+    store = new MemoryIndexerStore();
+    block = 0;
+    reads = 0;
+    profiles = new Map(
+      [PLUMBER, ELECTRICIAN].map((address, i) => [
+        address.toLowerCase(),
+        toContractorProfile(address, onChain({ trades: BigInt(1 << i) }))!,
+      ])
+    );
+    directory = new ContractorDirectory(store, {
+      getProfile: async (address) => {
+        reads++;
+        return profiles.get(address.toLowerCase()) ?? null;
+      },
+    });
+
+    await index('PropertyRegistered', { propertyId: '0', owner: OWNER, monthlyRent: '2500000000' });
+    await index('PropertyRegistered', { propertyId: '1', owner: OTHER_OWNER, monthlyRent: '2500000000' });
+  });
+
+  test('should list the contractors the property owner allowed', async () => {
+    await index('ContractorAllowlistUpdated', { owner: OWNER, contractor: PLUMBER, allowed: true });
+    await index('ContractorAllowlistUpdated', { owner: OTHER_OWNER, contractor: ELECTRICIAN, allowed: true });
+
+    const allowed = await directory.getAllowedContractors(0);
+    expect(allowed.map((contractor) => contractor.address)).toEqual([PLUMBER.toLowerCase()]);
+  });
+
+  test('should drop contractors whose approval was revoked', async () => {
+    await index('ContractorAllowlistUpdated', { owner: OWNER, contractor: PLUMBER, allowed: true });
+    await index('ContractorAllowlistUpdated', { owner: OWNER, contractor: ELECTRICIAN, allowed: true });
+    await index('ContractorAllowlistUpdated', { owner: OWNER, contractor: PLUMBER, allowed: false });
+
+    const allowed = await directory.getAllowedContractors(0);
+    expect(allowed.map((contractor) => contractor.address)).toEqual([ELECTRICIAN.toLowerCase()]);
+  });
+
+  test('should return nothing for a property that was never indexed', async () => {
+    expect(await directory.getAllowedContractors(7)).toEqual([]);
+  });
+
+  test('should re-read a profile when a job is paid', async () => {
+    expect((await directory.getProfile(PLUMBER))?.jobsCompleted).toBe(3);
+    await directory.getProfile(PLUMBER);
+    expect(reads).toBe(1);
+
+    profiles.set(PLUMBER.toLowerCase(), { ...profiles.get(PLUMBER.toLowerCase())!, jobsCompleted: 4 });
+    const paid = await index('MaintenancePaid', { requestId: '0', amount: '150000000', contractor: PLUMBER });
+    await directory.handleEvent(paid);
+
+    expect((await directory.getProfile(PLUMBER))?.jobsCompleted).toBe(4);
+    expect(reads).toBe(2);
+  });
+});
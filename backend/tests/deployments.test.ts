@@ -0,0 +1,73 @@
+/**
+ * RentFlow AI Backend - Deployment Registry Tests
+ *
+ * File: backend/tests/deployments.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Lookup: one file per chain ID, missing chains and directories are empty
+ * 2. Resolution: RentFlowCore for the chain the provider reports, with the
+ *    block the indexer starts from
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { Deployment, DeploymentRegistry } from '../src/deployments';
+
+const CORE = '0x8a791620dd6260079bf849dc5567adc3f2fdc318';
+
+const deployment = (chainId: number, contracts: Deployment['contracts']): Deployment => ({
+  chainId,
+  network: chainId === 31337 ? 'localhost' : 'arc',
+  deployer: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  updatedAt: '2026-10-18T00:00:00.000Z',
+  contracts,
+  aiAgents: [],
+});
+
+const providerOn = (chainId: number): ethers.Provider =>
+  ({ getNetwork: async () => new ethers.Network('test', chainId) }) as unknown as ethers.Provider;
+
+describe('DeploymentRegistry', () => {
+  let dir: string;
+  let registry: DeploymentRegistry;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rentflow-deployments-'));
+    registry = new DeploymentRegistry(dir);
+    await fs.writeFile(
+      path.join(dir, '31337.json'),
+      JSON.stringify(deployment(31337, { RentFlowCore: { address: CORE, blockNumber: 9 } }))
+    );
+    await fs.writeFile(path.join(dir, '5042002.json'), JSON.stringify(deployment(5042002, {})));
+    await fs.writeFile(path.join(dir, 'notes.txt'), 'not a deployment');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should read each chain from its own file', async () => {
+    expect((await registry.get(31337))?.contracts.RentFlowCore.address).toBe(CORE);
+    expect(await registry.get(1)).toBeNull();
+    expect((await registry.list()).map((entry) => entry.chainId)).toEqual([31337, 5042002]);
+  });
+
+  test('should treat a missing directory as no deployments', async () => {
+    const empty = new DeploymentRegistry(path.join(dir, 'missing'));
+    expect(await empty.list()).toEqual([]);
+    expect(await empty.get(31337)).toBeNull();
+  });
+
+  test("should resolve RentFlowCore on the provider's chain", async () => {
+    expect(await registry.resolveCore(providerOn(31337))).toEqual({
+      chainId: 31337,
+      address: ethers.getAddress(CORE),
+      deploymentBlock: 9,
+    });
+    // Recorded, but RentFlowCore never made it on chain
+    expect(await registry.resolveCore(providerOn(5042002))).toBeNull();
+    expect(await registry.resolveCore(providerOn(1))).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * RentFlow AI Backend - Deposit Settlement Tests
+ *
+ * File: backend/tests/deposit-settlement.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Pure replay: itemized deductions, tenant answers and arbiter splits per item
+ * 2. Tracker: reads indexed events per lease, refreshes on new events
+ */
+
+import { IndexedEvent, MemoryIndexerStore } from '../src/indexer-store';
+import { DepositSettlementTracker, replayDepositSettlement } from '../src/deposit-settlement';
+import { createEventChain } from './helpers/events';
+
+const TENANT = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const ARBITER = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65';
+const EVIDENCE = '0x' + 'AB'.repeat(32);
+const DEADLINE = '1704672000';
+
+const { event, rewind } = createEventChain();
+
+/** Cleaning (200 USDC) and damage (500 USDC), as one proposal transaction emits them */
+const proposal = (leaseId = '0'): IndexedEvent[] => [
+  event('DepositDeductionItemized', { leaseId, itemIndex: '0', category: '0', amount: '200000000', evidenceHash: EVIDENCE }),
+  event('DepositDeductionItemized', { leaseId, itemIndex: '1', category: '1', amount: '500000000', evidenceHash: EVIDENCE }),
+  event('DepositDeductionsProposed', { leaseId, itemCount: '2', totalDeduction: '700000000', disputeDeadline: DEADLINE }),
+];
+
+describe('replayDepositSettlement', () => {
+  beforeEach(() => {
+    rewind();
+  });
+
+  test('should return null until deductions are proposed', () => {
+    expect(replayDepositSettlement([])).toBeNull();
+  });
+
+  test('should list proposed items with named categories', () => {
+    const view = replayDepositSettlement(proposal())!;
+
+    expect(view.status).toBe('open');
+    expect(view.total_deduction).toBe('700000000');
+    expect(view.dispute_deadline).toBe(Number(DEADLINE));
+    expect(view.items.map((item) => item.category)).toEqual(['cleaning', 'damage']);
+    expect(view.items[1].evidence_hash).toBe(EVIDENCE.toLowerCase());
+    expect(view.items.every((item) => item.status === 'proposed')).toBe(true);
+  });
+
+  test('should settle accepted and arbitrated items', () => {
+    const view = replayDepositSettlement([
+      ...proposal(),
+      event('DepositDeductionAccepted', { leaseId: '0', itemIndex: '0', amount: '200000000' }),
+      event('DepositDeductionDisputed', { leaseId: '0', itemIndex: '1', amount: '500000000' }),
+      event('DepositDisputeResolved', {
+        leaseId: '0',
+        itemIndex: '1',
+        awardedToOwner: '300000000',
+        returnedToTenant: '200000000',
+        arbiter: ARBITER,
+      }),
+      event('SecurityDepositReturned', { leaseId: '0', tenant: TENANT, amount: '2500000000' }),
+    ])!;
+
+    expect(view.items[0]).toMatchObject({ status: 'accepted', awarded_to_owner: '200000000' });
+    expect(view.items[1]).toMatchObject({
+      status: 'resolved',
+      awarded_to_owner: '300000000',
+      resolved_by: ARBITER.toLowerCase(),
+    });
+    expect(view.status).toBe('settled');
+    expect(view.returned_to_tenant).toBe('2500000000');
+  });
+
+  test('should keep a disputed item open', () => {
+    const view = replayDepositSettlement([
+      ...proposal(),
+      event('DepositDeductionDisputed', { leaseId: '0', itemIndex: '1', amount: '500000000' }),
+    ])!;
+
+    expect(view.items[1].status).toBe('disputed');
+    expect(view.items[1].awarded_to_owner).toBeNull();
+    expect(view.status).toBe('open');
+  });
+});
+
+describe('DepositSettlementTracker', () => {
+  let store: MemoryIndexerStore;
+  let tracker: DepositSettlementTracker;
+
+  const index = async (events: IndexedEvent[]): Promise<IndexedEvent[]> => {
+    const last = events[events.length - 1];
+    await store.saveBatch(
+      events,
+      events.map((indexed) => ({ number: indexed.blockNumber, hash: indexed.blockHash })),
+      { blockNumber: last.blockNumber, blockHash: last.blockHash }
+    );
+    return events;
+  };
+
+  beforeEach(async () => {
+    store = new MemoryIndexerStore();
+    tracker = new DepositSettlementTracker(store);
+    rewind();
+    await index(proposal('0'));
+    await index(proposal('1'));
+  });
+
+  test('should return null for a lease with no proposal', async () => {
+    expect(await tracker.getSettlement(7)).toBeNull();
+  });
+
+  test('should refresh a settlement when its next event is indexed', async () => {
+    expect((await tracker.getSettlement(1))?.items[0].status).toBe('proposed');
+
+    const [accepted] = await index([
+      event('DepositDeductionAccepted', { leaseId: '1', itemIndex: '0', amount: '200000000' }),
+    ]);
+    await tracker.handleEvent(accepted);
+
+    expect((await tracker.getSettlement(1))?.items[0].status).toBe('accepted');
+    expect((await tracker.getSettlement(0))?.items[0].status).toBe('proposed');
+  });
+});
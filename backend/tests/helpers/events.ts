@@ -0,0 +1,54 @@
+/**
+ * RentFlow AI Backend - Indexed Event Fixtures
+ *
+ * File: backend/tests/helpers/events.ts
+ *
+ * Builds events the way the indexer stores them: every transaction gets the next
+ * block, with a synthetic hash and a timestamp a fixed spacing after the start.
+ */
+
+import { IndexedEvent } from '../../src/indexer-store';
+
+/** 2024-01-01T00:00:00Z */
+export const JAN_1_2024 = 1_704_067_200;
+
+export type EventLog = [IndexedEvent['name'], IndexedEvent['args']];
+
+export interface EventChain {
+  /** One event in its own transaction */
+  event(name: IndexedEvent['name'], args: IndexedEvent['args']): IndexedEvent;
+  /** Events in one transaction, one log each */
+  transaction(...logs: EventLog[]): IndexedEvent[];
+  /** Timestamp the next transaction will carry */
+  nextTimestamp(): number;
+  /** Start again from block 1, for suites that rebuild their store per test */
+  rewind(): void;
+}
+
+/** A fresh chain starting before block 1; each test file keeps its own */
+export function createEventChain(startTimestamp = JAN_1_2024, blockSeconds = 3600): EventChain {
+  let block = 0;
+
+  const transaction = (...logs: EventLog[]): IndexedEvent[] => {
+    block++;
+    return logs.map(([name, args], logIndex) => ({
+      id: `0x${block.toString(16)}-${logIndex}`,
+      name,
+      blockNumber: block,
+      blockHash: `0xblock${block}`,
+      transactionHash: `0x${block.toString(16)}`,
+      logIndex,
+      timestamp: startTimestamp + block * blockSeconds,
+      args,
+    }));
+  };
+
+  return {
+    event: (name, args) => transaction([name, args])[0],
+    transaction,
+    nextTimestamp: () => startTimestamp + (block + 1) * blockSeconds,
+    rewind: () => {
+      block = 0;
+    },
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * RentFlow AI Backend - RentFlowLens Client Tests
+ *
+ * File: backend/tests/lens-client.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Paging: whole lists in one eth_call per page, ID batches split to size
+ * 2. Decoding: lens structs become records with named enums and nulls
+ *    for unset hashes and addresses
+ *
+ * A fake runner answers eth_calls by decoding them with the lens ABI.
+ */
+
+import { ethers } from 'ethers';
+import { RENTFLOW_LENS_ABI } from '../src/contract-abi';
+import { RentFlowLensClient } from '../src/lens-client';
+
+const LENS = '0x0165878A594ca255338adfa4d48449f69242Eb8F';
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const TENANT = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const USDC = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const CATALOG_HASH = `0x${'cd'.repeat(32)}`;
+
+const lensInterface = new ethers.Interface(RENTFLOW_LENS_ABI);
+
+const propertyView = (propertyId: number) => ({
+  propertyId,
+  property: {
+    owner: OWNER,
+    monthlyRent: 2_500_000_000n,
+    securityDeposit: 2_500_000_000n,
+    isActive: true,
+    createdAt: 1_704_067_200,
+    paymentToken: USDC,
+  },
+  metadataHash: propertyId === 0 ? CATALOG_HASH : ethers.ZeroHash,
+  // Property 0 is a building whose units are 1 and 2
+  unit: { isUnit: propertyId === 1 || propertyId === 2, buildingId: 0 },
+  unitCount: propertyId === 0 ? 2 : 0,
+  maintenanceFund: 0n,
+});
+
+const maintenanceView = (requestId: number) => ({
+  requestId,
+  request: {
+    propertyId: 1,
+    requestedBy: TENANT,
+    description: `Request ${requestId}`,
+    estimatedCost: 150_000_000n,
+    approvedAmount: 0n,
+    contractor: ethers.ZeroAddress,
+    status: 0,
+    createdAt: 1_704_067_200,
+    category: 2,
+    evidenceHash: ethers.ZeroHash,
+    disputeDeadline: 0,
+    rejectionReason: 0,
+  },
+});
+
+/** Serves the lens views over `propertyCount` properties and records each call */
+const fakeLens = (propertyCount: number) => {
+  const calls: { name: string; args: unknown[] }[] = [];
+  const runner = {
+    provider: null,
+    call: async (tx: ethers.TransactionRequest): Promise<string> => {
+      const parsed = lensInterface.parseTransaction({ data: String(tx.data) })!;
+      const args = [...parsed.args];
+      calls.push({ name: parsed.name, args });
+
+      switch (parsed.name) {
+        case 'getOwnerPropertyPage': {
+          const [, offset, limit] = args.map(Number);
+          const ids = Array.from({ length: propertyCount }, (_, id) => id).slice(offset, offset + limit);
+          return lensInterface.encodeFunctionResult(parsed.fragment, [ids.map(propertyView), propertyCount]);
+        }
+        case 'getMaintenanceRequests':
+          return lensInterface.encodeFunctionResult(parsed.fragment, [
+            (args[0] as bigint[]).map((id) => maintenanceView(Number(id))),
+          ]);
+        default:
+          throw new Error(`Unexpected call ${parsed.name}`);
+      }
+    },
+  };
+  return { runner: runner as unknown as ethers.ContractRunner, calls };
+};
+
+describe('RentFlowLensClient', () => {
+  test("should read an owner's properties one page per call", async () => {
+    const { runner, calls } = fakeLens(7);
+    const client = new RentFlowLensClient(runner, LENS, 3);
+
+    const properties = await client.getOwnerProperties(OWNER);
+
+    expect(properties.map((property) => property.propertyId)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(calls.map((call) => call.args[1])).toEqual([0n, 3n, 6n]);
+    expect(properties[0]).toEqual({
+      propertyId: 0,
+      owner: OWNER,
+      monthlyRent: 2_500_000_000n,
+      securityDeposit: 2_500_000_000n,
+      isActive: true,
+      createdAt: 1_704_067_200,
+      paymentToken: USDC,
+      metadataHash: CATALOG_HASH,
+      buildingId: null,
+      unitCount: 2,
+      maintenanceFund: 0n,
+    });
+    expect(properties[1].buildingId).toBe(0);
+    expect(properties[3].metadataHash).toBeNull();
+  });
+
+  test('should split ID batches into pages and decode requests', async () => {
+    const { runner, calls } = fakeLens(0);
+    const client = new RentFlowLensClient(runner, LENS, 2);
+
+    const requests = await client.getMaintenanceRequests([4, 2, 9]);
+
+    expect(calls.map((call) => call.args[0])).toEqual([[4n, 2n], [9n]]);
+    expect(requests.map((request) => request.requestId)).toEqual([4, 2, 9]);
+    expect(requests[0]).toMatchObject({
+      description: 'Request 4',
+      status: 'pending',
+      category: 'hvac',
+      contractor: null,
+      evidenceHash: null,
+      disputeDeadline: null,
+      rejectionReason: null,
+    });
+    expect(await client.getMaintenanceRequests([])).toEqual([]);
+  });
+
+  test('should refuse pages the lens would reject', () => {
+    const { runner } = fakeLens(0);
+    expect(() => new RentFlowLensClient(runner, LENS, 101)).toThrow('Page size must be 1-100');
+    expect(() => new RentFlowLensClient(runner, LENS, 0)).toThrow('Page size must be 1-100');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * RentFlow AI Backend - Maintenance Tracker Tests
+ *
+ * File: backend/tests/maintenance-tracker.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Pure replay: each Maintenance* event moves the request to its state
+ * 2. Tracker: reads indexed events per request and per property, refreshes on new events
+ * 3. Listing: filters by property and status, pages by sort field
+ */
+
+import { IndexedEvent, MemoryIndexerStore } from '../src/indexer-store';
+import { MaintenanceTracker, replayMaintenance } from '../src/maintenance-tracker';
+import { createEventChain } from './helpers/events';
+
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const CONTRACTOR = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const EVIDENCE = '0x' + 'AB'.repeat(32);
+
+const { event, rewind } = createEventChain();
+
+const requested = (requestId = '0', propertyId = '0') =>
+  event('MaintenanceRequested', { requestId, propertyId, estimatedCost: '150000000' });
+
+describe('replayMaintenance', () => {
+  beforeEach(() => {
+    rewind();
+  });
+
+  test('should return null until the request itself is indexed', () => {
+    expect(replayMaintenance([event('MaintenanceApproved', { requestId: '0' })])).toBeNull();
+  });
+
+  test('should follow the full workflow through sign-off', () => {
+    const view = replayMaintenance([
+      requested(),
+      event('MaintenanceApproved', { requestId: '0', approvedAmount: '150000000', contractor: CONTRACTOR }),
+      event('MaintenanceAccepted', { requestId: '0', contractor: CONTRACTOR }),
+      event('MaintenanceStarted', { requestId: '0', contractor: CONTRACTOR }),
+      event('MaintenanceWorkSubmitted', { requestId: '0', evidenceHash: EVIDENCE, disputeDeadline: '1704326400' }),
+      event('MaintenanceSignedOff', { requestId: '0', signedOffBy: OWNER }),
+      event('MaintenancePaid', { requestId: '0', amount: '150000000', contractor: CONTRACTOR }),
+    ])!;
+
+    expect(view.status).toBe('completed');
+    expect(view.contractor).toBe(CONTRACTOR.toLowerCase());
+    expect(view.evidence_hash).toBe(EVIDENCE.toLowerCase());
+    expect(view.dispute_deadline).toBe(1704326400);
+    expect(view.signed_off_by).toBe(OWNER.toLowerCase());
+    expect(view.history.map((entry) => entry.status)).toEqual([
+      'pending',
+      'approved',
+      'accepted',
+      'in_progress',
+      'work_submitted',
+      'completed',
+    ]);
+    expect(view.history[2].actor).toBe(CONTRACTOR.toLowerCase());
+  });
+
+  test('should name escalation and rejection reasons', () => {
+    const view = replayMaintenance([
+      requested(),
+      event('MaintenanceEscalated', { requestId: '0', reason: '1', proposedAmount: '600000000', contractor: CONTRACTOR }),
+      event('MaintenanceRejected', { requestId: '0', reason: '3', rejectedBy: OWNER }),
+    ])!;
+
+    expect(view.escalation_reason).toBe('above_auto_approval_limit');
+    expect(view.approved_amount).toBe('600000000');
+    expect(view.rejection_reason).toBe('tenant_responsibility');
+    expect(view.status).toBe('rejected');
+  });
+
+  test('should hold a disputed request until the owner settles it', () => {
+    const view = replayMaintenance([
+      requested(),
+      event('MaintenanceWorkSubmitted', { requestId: '0', evidenceHash: EVIDENCE, disputeDeadline: '1704326400' }),
+      event('MaintenanceDisputed', { requestId: '0', disputedBy: OWNER }),
+    ])!;
+
+    expect(view.status).toBe('disputed');
+    expect(view.history.at(-1)?.actor).toBe(OWNER.toLowerCase());
+  });
+});
+
+describe('MaintenanceTracker', () => {
+  let store: MemoryIndexerStore;
+  let tracker: MaintenanceTracker;
+
+  const index = async (indexed: IndexedEvent): Promise<IndexedEvent> => {
+    await store.saveBatch([indexed], [{ number: indexed.blockNumber, hash: indexed.blockHash }], {
+      blockNumber: indexed.blockNumber,
+      blockHash: indexed.blockHash,
+    });
+    return indexed;
+  };
+
+  beforeEach(async () => {
+    store = new MemoryIndexerStore();
+    tracker = new MaintenanceTracker(store);
+    rewind();
+    await index(requested('0', '0'));
+    await index(requested('1', '0'));
+    await index(requested('2', '1'));
+  });
+
+  test('should return null for a request that was never indexed', async () => {
+    expect(await tracker.getRequest(99)).toBeNull();
+  });
+
+  test('should list requests for a property newest first', async () => {
+    const requests = await tracker.listByProperty(0);
+    expect(requests.map((request) => request.request_id)).toEqual([1, 0]);
+  });
+
+  test('should filter and page requests across properties', async () => {
+    const rejected = await index(event('MaintenanceRejected', { requestId: '0', reason: '2', rejectedBy: OWNER }));
+    await tracker.handleEvent(rejected);
+    const query = { sort: 'request_id', order: 'asc', limit: 1 } as const;
+
+    const first = await tracker.listRequests({ status: 'pending' }, query);
+    expect(first.items.map((request) => request.request_id)).toEqual([1]);
+    const second = await tracker.listRequests({ status: 'pending' }, { ...query, cursor: first.next_cursor! });
+    expect(second.items.map((request) => request.request_id)).toEqual([2]);
+    expect(second.next_cursor).toBeNull();
+
+    const onProperty = await tracker.listRequests({ propertyIds: new Set([0]) }, { ...query, limit: 10 });
+    expect(onProperty.items.map((request) => request.request_id)).toEqual([0, 1]);
+  });
+
+  test('should refresh a request when its next event is indexed', async () => {
+    expect((await tracker.getRequest(1))?.status).toBe('pending');
+
+    const approved = await index(
+      event('MaintenanceApproved', { requestId: '1', approvedAmount: '150000000', contractor: CONTRACTOR })
+    );
+    await tracker.handleEvent(approved);
+
+    expect((await tracker.getRequest(1))?.status).toBe('approved');
+    expect((await tracker.getRequest(0))?.status).toBe('pending');
+  });
+});
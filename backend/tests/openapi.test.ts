@@ -0,0 +1,488 @@
+/**
+ * RentFlow AI Backend - API Contract Tests
+ *
+ * File: backend/tests/openapi.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Document: generated from the registered routes, every path parameter declared
+ * 2. Contract: each route's live response matches the schema documented for its
+ *    status, and every documented operation is exercised
+ * 3. Query parsing: invalid filters, page sizes and cursors answer 400; cursors
+ *    walk a collection without gaps
+ * 4. Sign-in: wallets sign in through the API; secured routes answer 401 without
+ *    a session and show each wallet only what it owns, manages, rents or works on
+ */
+
+import { promises as fs } from 'fs';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from 'http';
+import { ethers } from 'ethers';
+import { config } from '../src/config';
+import { createApp } from '../src/index';
+import { IndexedEvent, MemoryIndexerStore } from '../src/indexer-store';
+import { Schema, validateSchema } from '../src/openapi';
+import { TenantScoreService } from '../src/tenant-score';
+import { MaintenanceTracker } from '../src/maintenance-tracker';
+import { ContractorDirectory } from '../src/contractor-directory';
+import { DepositSettlementTracker } from '../src/deposit-settlement';
+import { PaymentTokenRegistry } from '../src/payment-tokens';
+import { DeploymentRegistry } from '../src/deployments';
+import { AccessDirectory, ROLE_IDS } from '../src/access-directory';
+import { PropertyCatalog } from '../src/property-catalog';
+import { BuildingTracker } from '../src/buildings';
+import { PortfolioIndex } from '../src/portfolio';
+import { AIDecisionEngine } from '../src/ai-engine';
+import { StubLLMProvider } from '../src/llm-provider';
+import { AIDecisionRepository } from '../src/db/repositories';
+import { Queryable } from '../src/db/pool';
+import { SiweAuth } from '../src/auth';
+
+// Wallets with known keys, so each can sign in
+const wallet = (name: string) => new ethers.Wallet(ethers.id(name));
+const WALLETS = {
+  owner: wallet('owner'),
+  tenant: wallet('tenant'),
+  manager: wallet('manager'),
+  contractor: wallet('contractor'),
+  admin: wallet('admin'),
+};
+const OWNER = WALLETS.owner.address;
+const TENANT = WALLETS.tenant.address;
+const MANAGER = WALLETS.manager.address;
+const CONTRACTOR = WALLETS.contractor.address;
+const ADMIN = WALLETS.admin.address;
+const DOMAIN = 'rentflow.test';
+const USDC = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const RENT = '2500000000';
+const SINK_LEAK = 'Kitchen sink is leaking under the cabinet';
+const JAN_1_2024 = Date.UTC(2024, 0, 1) / 1000;
+
+interface Operation {
+  parameters: { name: string; in: string }[];
+  responses: Record<string, { content?: { 'application/json': { schema: Schema } } }>;
+}
+
+interface ApiDocument {
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, Schema> };
+}
+
+let block = 0;
+
+/** Events in one transaction, one log each */
+const transaction = (...logs: [IndexedEvent['name'], IndexedEvent['args']][]): IndexedEvent[] => {
+  block++;
+  const transactionHash = ethers.id(`tx${block}`);
+  return logs.map(([name, args], logIndex) => ({
+    id: `${transactionHash}-${logIndex}`,
+    name,
+    blockNumber: block,
+    blockHash: ethers.id(`block${block}`),
+    transactionHash,
+    logIndex,
+    timestamp: JAN_1_2024 + block * 86_400,
+    args,
+  }));
+};
+
+const siweMessage = (address: string, nonce: string) =>
+  [
+    `${DOMAIN} wants you to sign in with your Ethereum account:`,
+    address,
+    '',
+    'Sign in to RentFlow AI',
+    '',
+    `URI: https://${DOMAIN}`,
+    'Version: 1',
+    'Chain ID: 31337',
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date().toISOString()}`,
+  ].join('\n');
+
+const payRent = (period: number) =>
+  transaction(
+    ['RentPaymentItemized', { leaseId: '0', period: String(period), rentAmount: RENT, lateFee: '0', dueDate: '0' }],
+    ['RentPaid', { leaseId: '0', amount: RENT, timestamp: String(JAN_1_2024 + period * 30 * 86_400) }]
+  );
+
+const indexedEvents = (): IndexedEvent[] => [
+  ...transaction(['RoleGranted', { role: ROLE_IDS.admin, account: ADMIN, sender: ADMIN }]),
+  ...transaction(['PaymentTokenUpdated', { token: USDC, allowed: true }]),
+  ...transaction(['PropertyRegistered', { propertyId: '0', owner: OWNER, monthlyRent: RENT, paymentToken: USDC }]),
+  ...transaction(['PropertyRegistered', { propertyId: '1', owner: OWNER, monthlyRent: '0', paymentToken: USDC }]),
+  ...transaction(['PropertyRegistered', { propertyId: '2', owner: OWNER, monthlyRent: RENT, paymentToken: USDC }]),
+  ...transaction(['UnitRegistered', { buildingId: '1', unitId: '2' }]),
+  ...transaction(['PropertyManagerUpdated', { propertyId: '0', manager: MANAGER, permissions: '3' }]),
+  ...transaction(['LeaseCreated', { leaseId: '0', propertyId: '0', tenant: TENANT }]),
+  ...payRent(0),
+  ...payRent(1),
+  ...payRent(2),
+  ...transaction(['MaintenanceFundAdded', { propertyId: '0', amount: '500000000' }]),
+  ...transaction(['MaintenanceRequested', { requestId: '0', propertyId: '0', estimatedCost: '150000000' }]),
+  ...transaction(['MaintenanceApproved', { requestId: '0', approvedAmount: '150000000', contractor: CONTRACTOR }]),
+  ...transaction([
+    'DepositDeductionItemized',
+    { leaseId: '0', itemIndex: '0', category: '0', amount: '200000000', evidenceHash: ethers.id('photos') },
+  ]),
+  ...transaction([
+    'DepositDeductionsProposed',
+    { leaseId: '0', itemCount: '1', totalDeduction: '200000000', disputeDeadline: String(JAN_1_2024 + 90 * 86_400) },
+  ]),
+];
+
+/** ai_decisions held in memory: INSERT appends, SELECT returns the request's rows */
+const decisionTable = (): Queryable => {
+  const rows: Record<string, unknown>[] = [];
+  return {
+    query: async (text: string, values: unknown[] = []) => {
+      if (text.startsWith('INSERT')) {
+        const [maintenanceRequestId, propertyId, decision, reasoning, confidence, approvedAmount, urgency, category] =
+          values;
+        rows.push({
+          id: String(rows.length + 1),
+          maintenance_request_id: String(maintenanceRequestId),
+          property_id: String(propertyId),
+          decision,
+          reasoning,
+          confidence,
+          approved_amount: String(approvedAmount),
+          urgency,
+          category,
+          provider: values[8],
+          created_at: new Date(),
+        });
+        return { rows: [{ id: String(rows.length) }] };
+      }
+      return { rows: rows.filter((row) => row.maintenance_request_id === String(values[0])) };
+    },
+  } as unknown as Queryable;
+};
+
+describe('API contract', () => {
+  let server: Server;
+  let baseUrl: string;
+  let deploymentsDir: string;
+  let document: ApiDocument;
+  const exercised = new Set<string>();
+  /** Session token sent with every call; set by signInAs() */
+  let bearer: string | null = null;
+
+  const call = async (method: 'GET' | 'POST', url: string, body?: unknown) => {
+    const res = await fetch(`${baseUrl}${url}`, {
+      method,
+      headers: {
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...(bearer && { Authorization: `Bearer ${bearer}` }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: (await res.json()) as Record<string, unknown> };
+  };
+
+  /** The documented operation a request lands on; literal segments win over parameters */
+  const operationFor = (method: string, url: string): [string, Operation] => {
+    const pathname = new URL(url, baseUrl).pathname;
+    const template = Object.keys(document.paths)
+      .filter((candidate) => document.paths[candidate][method])
+      .filter((candidate) => new RegExp(`^${candidate.replace(/\{\w+\}/g, '[^/]+')}$`).test(pathname))
+      .sort((a, b) => a.split('{').length - b.split('{').length)[0];
+    if (!template) throw new Error(`${method.toUpperCase()} ${pathname} is not documented`);
+    return [template, document.paths[template][method]];
+  };
+
+  /** Call the route and check the body against the schema documented for the status */
+  const expectContract = async (method: 'GET' | 'POST', url: string, status: number, body?: unknown) => {
+    const response = await call(method, url, body);
+    expect({ url, status: response.status }).toEqual({ url, status });
+
+    const [template, operation] = operationFor(method.toLowerCase(), url);
+    const documented = operation.responses[String(status)]?.content?.['application/json'].schema;
+    if (!documented) throw new Error(`${method} ${template} does not document ${status}`);
+    expect(validateSchema(documented, response.body, document.components.schemas)).toEqual([]);
+    if (status < 300) exercised.add(`${method.toLowerCase()} ${template}`);
+    return response.body;
+  };
+
+  /** Sign in through the API; later calls carry the wallet's session */
+  const signInAs = async (signer: ethers.Wallet) => {
+    bearer = null;
+    const { nonce } = await expectContract('GET', '/api/auth/nonce', 200);
+    const message = siweMessage(signer.address, nonce as string);
+    const signature = await signer.signMessage(message);
+    const { token } = await expectContract('POST', '/api/auth/verify', 200, { message, signature });
+    bearer = token as string;
+  };
+
+  beforeAll(async () => {
+    block = 0;
+    const store = new MemoryIndexerStore();
+    const events = indexedEvents();
+    await store.saveBatch(
+      events,
+      events.map((indexed) => ({ number: indexed.blockNumber, hash: indexed.blockHash })),
+      { blockNumber: block, blockHash: events[events.length - 1].blockHash }
+    );
+
+    deploymentsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rentflow-openapi-'));
+    await fs.writeFile(
+      path.join(deploymentsDir, '31337.json'),
+      JSON.stringify({
+        chainId: 31337,
+        network: 'localhost',
+        deployer: ADMIN,
+        updatedAt: '2026-10-18T00:00:00.000Z',
+        contracts: { RentFlowCore: { address: ethers.ZeroAddress, blockNumber: 1 } },
+        aiAgents: [],
+      })
+    );
+
+    // Every route is called at least once, by several wallets: more than one client's quota
+    config.rateLimit.max = 1000;
+    const app = createApp({
+      aiEngine: new AIDecisionEngine({ provider: new StubLLMProvider() }),
+      provider: { getBlockNumber: async () => block } as unknown as ethers.Provider,
+      tenantScores: new TenantScoreService(store, {
+        getLeaseTerms: async () => ({
+          startDate: JAN_1_2024,
+          rentDueDay: 1,
+          rentTiers: [{ fromPeriod: 0, monthlyRent: BigInt(RENT) }],
+          securityDeposit: BigInt(RENT),
+          paymentToken: USDC.toLowerCase(),
+        }),
+      }),
+      maintenance: new MaintenanceTracker(store),
+      maintenanceDescriptions: { getDescription: async (requestId) => (requestId === 0 ? SINK_LEAK : null) },
+      contractors: new ContractorDirectory(store, {
+        getProfile: async (address) =>
+          address.toLowerCase() === CONTRACTOR.toLowerCase()
+            ? {
+                address: CONTRACTOR.toLowerCase(),
+                trades: ['plumbing'],
+                serviceAreas: ['brooklyn'],
+                rating: 4.5,
+                jobsCompleted: 2,
+                licenseHash: ethers.id('license'),
+                insuranceHash: null,
+                totalEarned: 300_000_000n,
+              }
+            : null,
+      }),
+      deposits: new DepositSettlementTracker(store),
+      tokens: new PaymentTokenRegistry(store, { getMetadata: async () => ({ symbol: 'USDC', decimals: 6 }) }),
+      deployments: new DeploymentRegistry(deploymentsDir),
+      access: new AccessDirectory(store),
+      catalog: new PropertyCatalog(store),
+      buildings: new BuildingTracker(store),
+      aiDecisions: new AIDecisionRepository(decisionTable()),
+      portfolio: new PortfolioIndex(store),
+      auth: new SiweAuth({
+        secret: 'contract-test-secret-of-32-chars!',
+        domain: DOMAIN,
+        chainId: 31337,
+        tokenTtlSeconds: 3600,
+        nonceTtlSeconds: 300,
+      }),
+    });
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    document = (await call('GET', '/api/openapi.json')).body as unknown as ApiDocument;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(deploymentsDir, { recursive: true, force: true });
+  });
+
+  test('should declare every path parameter of every operation', () => {
+    for (const [template, methods] of Object.entries(document.paths)) {
+      const names = [...template.matchAll(/\{(\w+)\}/g)].map((match) => match[1]);
+      for (const operation of Object.values(methods)) {
+        const declared = operation.parameters.filter((parameter) => parameter.in === 'path').map((p) => p.name);
+        expect(declared.sort()).toEqual(names.sort());
+      }
+    }
+  });
+
+  test('should answer read routes as documented', async () => {
+    await signInAs(WALLETS.owner);
+    await expectContract('GET', '/api/openapi.json', 200);
+    await expectContract('GET', '/api/health', 200);
+    await expectContract('GET', `/api/tenant/${TENANT}/score`, 200);
+    await expectContract('GET', '/api/tenant/0x1234/score', 400);
+    await expectContract('GET', '/api/maintenance/0', 200);
+    await expectContract('GET', '/api/maintenance/99', 404);
+    await expectContract('GET', '/api/properties/0/maintenance', 200);
+    await expectContract('GET', '/api/leases/0/deposit', 200);
+    await expectContract('GET', '/api/tokens', 200);
+    await expectContract('GET', '/api/properties/0/token', 200);
+    await expectContract('GET', `/api/properties?owner=${OWNER}`, 200);
+    await expectContract('GET', '/api/properties/0/catalog', 200);
+    await expectContract('GET', '/api/buildings', 200);
+    await expectContract('GET', '/api/buildings/1', 200);
+    await expectContract('GET', '/api/roles', 200);
+    await expectContract('GET', '/api/properties/0/access', 200);
+    await expectContract('GET', `/api/accounts/${OWNER}/access`, 200);
+    await expectContract('GET', '/api/deployments', 200);
+    await expectContract('GET', '/api/deployments/31337', 200);
+    await expectContract('GET', '/api/deployments/1', 404);
+    await expectContract('GET', `/api/contractors/${CONTRACTOR}`, 200);
+  });
+
+  test('should answer the indexed data queries as documented', async () => {
+    await signInAs(WALLETS.owner);
+    const portfolio = await expectContract('GET', `/api/owners/${OWNER}/portfolio`, 200);
+    expect(portfolio.portfolio).toMatchObject({ property_count: 3, occupied_count: 1, active_leases: 1 });
+    const vacant = await expectContract('GET', `/api/owners/${OWNER}/properties?occupied=false`, 200);
+    expect((vacant.properties as { property_id: number }[]).map((property) => property.property_id)).toEqual([2, 1]);
+
+    const leases = await expectContract('GET', `/api/leases?tenant=${TENANT}&status=active&sort=total_paid`, 200);
+    expect(leases.leases).toHaveLength(1);
+    await expectContract('GET', '/api/leases/0', 200);
+    await expectContract('GET', '/api/leases/7', 404);
+
+    const payments = await expectContract('GET', `/api/payments?owner=${OWNER}&lease_id=0&order=asc`, 200);
+    expect((payments.payments as { periods: number[] }[]).map((payment) => payment.periods)).toEqual([[0], [1], [2]]);
+    await expectContract('GET', `/api/maintenance?owner=${OWNER}&status=approved`, 200);
+
+    const fund = await expectContract('GET', '/api/properties/0/fund', 200);
+    expect(fund.fund).toMatchObject({ balance: '500000000' });
+    await expectContract('GET', '/api/properties/0/fund/movements?kind=funded', 200);
+  });
+
+  test('should answer write routes as documented', async () => {
+    await signInAs(WALLETS.owner);
+    const evaluated = await expectContract('POST', '/api/maintenance/evaluate', 200, {
+      requestId: 0,
+      propertyId: 0,
+      description: SINK_LEAK,
+      estimatedCost: 150_000_000,
+    });
+    expect(evaluated.decision).toBeDefined();
+    // A harmless rewording of request 0 must not be assessed and recorded as if it were the request
+    await expectContract('POST', '/api/maintenance/evaluate', 400, {
+      requestId: 0,
+      propertyId: 0,
+      description: 'Please replace a burnt-out hallway bulb',
+      estimatedCost: 150_000_000,
+    });
+    const decisions = await expectContract('GET', '/api/maintenance/0/decisions', 200);
+    expect(decisions.decisions).toHaveLength(1);
+    await expectContract('POST', '/api/maintenance/evaluate', 400, { description: 'leak' });
+
+    const entry = { address_line: '12 Harbour Road', bedrooms: 2 };
+    await expectContract('POST', '/api/catalog/entries', 201, { property_id: 0, entry });
+    await expectContract('POST', '/api/catalog/entries', 400, { property_id: 0, entry: { ...entry, pool: true } });
+    await expectContract('POST', '/api/catalog/entries', 400, entry);
+    await expectContract('POST', '/api/chat', 200, { message: 'When is my rent due?' });
+    await expectContract('POST', '/api/chat', 400, {});
+  });
+
+  test('should reject invalid filters, page sizes and cursors', async () => {
+    await signInAs(WALLETS.owner);
+    const cases: [string, string][] = [
+      ['/api/leases?limit=0', 'Limit must be between 1 and 100'],
+      ['/api/leases?limit=101', 'Limit must be between 1 and 100'],
+      ['/api/leases?status=overdue', 'Invalid status'],
+      ['/api/leases?sort=rent', 'Invalid sort field'],
+      ['/api/payments?owner=0x1234', 'Invalid owner address'],
+      ['/api/payments?lease_id=-1', 'Invalid lease ID'],
+      ['/api/payments?from=yesterday', 'Invalid from timestamp'],
+      ['/api/payments?cursor=bm90LWEtY3Vyc29y', 'Invalid cursor'],
+      [`/api/owners/${OWNER}/properties?occupied=yes`, 'Invalid occupied filter'],
+    ];
+    for (const [url, error] of cases) {
+      const body = await expectContract('GET', url, 400);
+      expect({ url, error: body.error }).toEqual({ url, error });
+    }
+  });
+
+  test('should walk a collection page by page without gaps', async () => {
+    await signInAs(WALLETS.owner);
+    const all = await call('GET', '/api/payments?sort=amount&limit=100');
+    const walked: unknown[] = [];
+    let cursor: string | null = null;
+    do {
+      const { body }: { body: Record<string, unknown> } = await call(
+        'GET',
+        `/api/payments?sort=amount&limit=2${cursor ? `&cursor=${cursor}` : ''}`
+      );
+      walked.push(...(body.payments as unknown[]));
+      cursor = body.next_cursor as string | null;
+    } while (cursor);
+
+    expect(walked).toEqual(all.body.payments);
+  });
+
+  test('should answer secured routes only with a valid session', async () => {
+    bearer = null;
+    const missing = await expectContract('GET', '/api/leases', 401);
+    expect(missing.error).toBe('Sign in with your wallet to use this route');
+    bearer = 'not-a-token';
+    await expectContract('GET', '/api/leases', 401);
+    bearer = null;
+
+    const { nonce } = (await call('GET', '/api/auth/nonce')).body;
+    const message = siweMessage(TENANT, nonce as string);
+    const forged = await WALLETS.owner.signMessage(message);
+    await expectContract('POST', '/api/auth/verify', 401, { message, signature: forged });
+    await expectContract('POST', '/api/auth/verify', 400, { message });
+
+    const signature = await WALLETS.tenant.signMessage(message);
+    await expectContract('POST', '/api/auth/verify', 200, { message, signature });
+    // The nonce was used up
+    await expectContract('POST', '/api/auth/verify', 401, { message, signature });
+  });
+
+  test("should scope secured routes to the signed-in wallet's properties, leases and work", async () => {
+    const ids = (items: unknown, key: string) => (items as Record<string, number>[]).map((item) => item[key]);
+
+    await signInAs(WALLETS.manager);
+    const session = await expectContract('GET', '/api/auth/session', 200);
+    expect(session.viewer).toMatchObject({ managed_properties: [0], rented_properties: [], privileged: false });
+    expect(ids((await expectContract('GET', '/api/payments', 200)).payments, 'lease_id')).toEqual([0, 0, 0]);
+    await expectContract('GET', '/api/properties/0/fund', 200);
+    await expectContract('GET', '/api/buildings/1', 403);
+    await expectContract('GET', `/api/owners/${OWNER}/portfolio`, 403);
+    expect(ids((await expectContract('GET', '/api/properties', 200)).properties, 'property_id')).toEqual([0]);
+    await expectContract('GET', '/api/properties/1/access', 403);
+    await expectContract('GET', `/api/accounts/${OWNER}/access`, 403);
+    await expectContract('POST', '/api/catalog/entries', 201, { property_id: 0, entry: { address_line: '12 Harbour Road' } });
+    await expectContract('POST', '/api/catalog/entries', 403, { property_id: 1, entry: { address_line: '1 Dock Street' } });
+
+    await signInAs(WALLETS.tenant);
+    expect(ids((await expectContract('GET', '/api/leases', 200)).leases, 'lease_id')).toEqual([0]);
+    await expectContract('GET', '/api/properties/0/maintenance', 200);
+    await expectContract('GET', '/api/properties/0/fund', 403);
+    await expectContract('GET', '/api/properties/0/catalog', 200);
+    await expectContract('GET', '/api/properties/2/catalog', 403);
+    await expectContract('POST', '/api/catalog/entries', 403, { property_id: 0, entry: { address_line: '12 Harbour Road' } });
+    expect((await expectContract('GET', '/api/buildings', 200)).buildings).toEqual([]);
+    await expectContract('POST', '/api/maintenance/evaluate', 403, {
+      propertyId: 2,
+      description: 'Hallway light flickers at night',
+      estimatedCost: 50_000_000,
+    });
+
+    await signInAs(WALLETS.contractor);
+    await expectContract('GET', '/api/maintenance/0', 200);
+    await expectContract('GET', '/api/properties/0/maintenance', 403);
+    expect((await expectContract('GET', '/api/leases', 200)).leases).toEqual([]);
+    await expectContract('GET', `/api/tenant/${TENANT}/score`, 403);
+
+    await signInAs(WALLETS.admin);
+    await expectContract('GET', `/api/tenant/${MANAGER}/score`, 404);
+    await expectContract('GET', `/api/owners/${MANAGER}/portfolio`, 404);
+    await expectContract('GET', '/api/properties/9/fund/movements', 404);
+  });
+
+  // Last: relies on the routes the tests above called
+  test('should exercise a success response of every documented operation', () => {
+    const documented = Object.entries(document.paths).flatMap(([template, methods]) =>
+      Object.keys(methods).map((method) => `${method} ${template}`)
+    );
+    expect(documented.filter((operation) => !exercised.has(operation))).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * RentFlow AI Backend - Payment Token Tests
+ *
+ * File: backend/tests/payment-tokens.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Formatting: each token's own decimals and symbol
+ * 2. Registry: allowlist replayed in chain order, property tokens from
+ *    PropertyRegistered, metadata read once per token
+ */
+
+import { IndexedEvent, MemoryIndexerStore } from '../src/indexer-store';
+import { PaymentTokenRegistry, TokenMetadata, TokenMetadataSource, formatTokenAmount } from '../src/payment-tokens';
+import { createEventChain } from './helpers/events';
+
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const USDC = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const EURC = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+const { event, rewind } = createEventChain();
+
+class FakeMetadataSource implements TokenMetadataSource {
+  reads: string[] = [];
+  private known: Record<string, TokenMetadata> = {
+    [USDC.toLowerCase()]: { symbol: 'USDC', decimals: 6 },
+    [EURC.toLowerCase()]: { symbol: 'EURC', decimals: 6 },
+  };
+
+  async getMetadata(address: string): Promise<TokenMetadata> {
+    this.reads.push(address);
+    return this.known[address];
+  }
+}
+
+describe('formatTokenAmount', () => {
+  test('should use the token decimals and symbol', () => {
+    expect(formatTokenAmount(1_800_000_000n, { symbol: 'EURC', decimals: 6 })).toBe('1,800.00 EURC');
+    expect(formatTokenAmount('1234567', { symbol: 'USDC', decimals: 6 })).toBe('1.234567 USDC');
+    expect(formatTokenAmount(5n * 10n ** 17n, { symbol: 'DAI', decimals: 18 })).toBe('0.50 DAI');
+  });
+});
+
+describe('PaymentTokenRegistry', () => {
+  let store: MemoryIndexerStore;
+  let source: FakeMetadataSource;
+  let registry: PaymentTokenRegistry;
+
+  const index = async (events: IndexedEvent[]): Promise<IndexedEvent[]> => {
+    const last = events[events.length - 1];
+    await store.saveBatch(
+      events,
+      events.map((indexed) => ({ number: indexed.blockNumber, hash: indexed.blockHash })),
+      { blockNumber: last.blockNumber, blockHash: last.blockHash }
+    );
+    return events;
+  };
+
+  beforeEach(async () => {
+    rewind();
+    store = new MemoryIndexerStore();
+    source = new FakeMetadataSource();
+    registry = new PaymentTokenRegistry(store, source);
+    await index([
+      event('PaymentTokenUpdated', { token: USDC, allowed: true }),
+      event('PaymentTokenUpdated', { token: EURC, allowed: true }),
+      event('PropertyRegistered', { propertyId: '0', owner: OWNER, monthlyRent: '1800000000', paymentToken: EURC }),
+    ]);
+  });
+
+  test('should list allowlisted tokens with their metadata', async () => {
+    expect(await registry.listAllowed()).toEqual([
+      { address: USDC.toLowerCase(), symbol: 'USDC', decimals: 6 },
+      { address: EURC.toLowerCase(), symbol: 'EURC', decimals: 6 },
+    ]);
+  });
+
+  test('should drop a retired token once its update is indexed', async () => {
+    await registry.listAllowed();
+
+    const [retired] = await index([event('PaymentTokenUpdated', { token: EURC, allowed: false })]);
+    await registry.handleEvent(retired);
+
+    expect((await registry.listAllowed()).map((token) => token.symbol)).toEqual(['USDC']);
+    // Metadata is fixed, so only the allowlist is replayed
+    expect(source.reads).toHaveLength(2);
+  });
+
+  test("should resolve a property's token from its registration", async () => {
+    expect(await registry.getPropertyToken(0)).toEqual({ address: EURC.toLowerCase(), symbol: 'EURC', decimals: 6 });
+    expect(await registry.getPropertyToken(7)).toBeNull();
+  });
+});
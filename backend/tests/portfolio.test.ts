@@ -0,0 +1,238 @@
+/**
+ * RentFlow AI Backend - Portfolio Index Tests
+ *
+ * File: backend/tests/portfolio.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Replay: lease status and occupancy, payments joined with their itemized periods,
+ *    fund movements with running balances
+ * 2. Owner totals per payment token
+ * 3. Queries: filters, keyset pagination across pages, rejected cursors
+ * 4. Refresh on new events
+ */
+
+import { IndexedEvent, MemoryIndexerStore } from '../src/indexer-store';
+import { PortfolioIndex, replayPortfolio } from '../src/portfolio';
+import { CursorError } from '../src/pagination';
+import { createEventChain, EventLog, JAN_1_2024 } from './helpers/events';
+
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const OTHER_OWNER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const TENANT = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const OTHER_TENANT = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65';
+const CONTRACTOR = '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc';
+const USDC = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const EURC = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+const { event, transaction, nextTimestamp, rewind } = createEventChain(JAN_1_2024, 86_400);
+
+const property = (propertyId: number, monthlyRent: string, owner = OWNER, paymentToken = USDC) =>
+  event('PropertyRegistered', { propertyId: String(propertyId), owner, monthlyRent, paymentToken });
+
+const lease = (leaseId: number, propertyId: number, tenant = TENANT) =>
+  event('LeaseCreated', { leaseId: String(leaseId), propertyId: String(propertyId), tenant });
+
+/** RentPaymentItemized per period, then RentPaid, as RentFlowCore emits them */
+const payment = (leaseId: number, periods: number[], rent: string, lateFee = '0') => {
+  const timestamp = String(nextTimestamp());
+  return transaction(
+    ...periods.map((period): EventLog => [
+      'RentPaymentItemized',
+      { leaseId: String(leaseId), period: String(period), rentAmount: rent, lateFee, dueDate: timestamp },
+    ]),
+    ['RentPaid', { leaseId: String(leaseId), amount: String(BigInt(rent) * BigInt(periods.length)), timestamp }]
+  );
+};
+
+const scenario = (): IndexedEvent[] => [
+  property(0, '1000'),
+  property(1, '2000'),
+  property(2, '500', OTHER_OWNER),
+  property(3, '0', OWNER, EURC),
+  property(4, '800', OWNER, EURC),
+  event('UnitRegistered', { buildingId: '3', unitId: '4' }),
+  lease(0, 0),
+  ...payment(0, [0], '1000'),
+  ...payment(0, [1, 2], '1000', '50'),
+  lease(1, 1, OTHER_TENANT),
+  event('LeasePaused', { leaseId: '1', reason: 'renovation' }),
+  lease(2, 2),
+  ...payment(2, [0], '500'),
+  event('LeaseTerminated', { leaseId: '2', reason: 'moved out', fee: '0' }),
+  lease(3, 4),
+  event('LeaseRenewed', { leaseId: '3', newEndDate: '1735689600', monthlyRent: '850' }),
+  event('AutopayEnabled', { leaseId: '3' }),
+  event('MaintenanceFundAdded', { propertyId: '0', amount: '500' }),
+  event('MaintenanceRequested', { requestId: '0', propertyId: '0', estimatedCost: '200' }),
+  event('MaintenancePaid', { requestId: '0', amount: '200', contractor: CONTRACTOR }),
+  event('MaintenanceFundAdded', { propertyId: '0', amount: '100' }),
+];
+
+describe('replayPortfolio', () => {
+  beforeEach(() => {
+    rewind();
+  });
+
+  test('should follow each lease through pause, termination and deposit return', () => {
+    const events = scenario();
+    events.push(event('SecurityDepositReturned', { leaseId: '0', tenant: TENANT, amount: '2000' }));
+    const { leases, properties } = replayPortfolio(events);
+
+    expect(leases.get(0)).toMatchObject({ status: 'completed', deposit_returned: '2000' });
+    expect(leases.get(1)?.status).toBe('paused');
+    expect(leases.get(2)?.status).toBe('terminated');
+    expect(leases.get(3)).toMatchObject({ status: 'active', monthly_rent: '850', end_date: 1735689600, autopay: true });
+
+    // A paused lease still holds the property; ended ones free it
+    expect(properties.get(0)?.view).toMatchObject({ occupied: false, current_lease_id: null, tenant: null });
+    expect(properties.get(1)?.view).toMatchObject({ occupied: true, current_lease_id: 1 });
+    expect(properties.get(1)?.view.tenant).toBe(OTHER_TENANT.toLowerCase());
+    expect(properties.get(2)?.view.occupied).toBe(false);
+    expect(properties.get(4)?.view.building_id).toBe(3);
+    expect(properties.get(3)?.view.unit_count).toBe(1);
+  });
+
+  test('should join each payment with the periods and late fees it covered', () => {
+    const { leases, payments } = replayPortfolio(scenario());
+
+    expect(payments.map((paid) => [paid.lease_id, paid.amount, paid.late_fee, paid.periods])).toEqual([
+      [0, '1000', '0', [0]],
+      [0, '2000', '100', [1, 2]],
+      [2, '500', '0', [0]],
+    ]);
+    expect(payments[1].owner).toBe(OWNER.toLowerCase());
+    expect(leases.get(0)).toMatchObject({ payment_count: 2, total_paid: '3000', late_fees_paid: '100' });
+  });
+
+  test('should keep a running fund balance, paying contractors from the request property', () => {
+    const { properties } = replayPortfolio(scenario());
+    const fund = properties.get(0)!;
+
+    expect(fund.movements.map((movement) => [movement.kind, movement.amount, movement.balance])).toEqual([
+      ['funded', '500', '500'],
+      ['paid_out', '200', '300'],
+      ['funded', '100', '400'],
+    ]);
+    expect(fund.movements[1].request_id).toBe(0);
+    expect(fund.view.maintenance_fund).toBe('400');
+  });
+});
+
+describe('PortfolioIndex', () => {
+  let store: MemoryIndexerStore;
+  let portfolio: PortfolioIndex;
+
+  const index = async (events: IndexedEvent[]): Promise<IndexedEvent[]> => {
+    const last = events[events.length - 1];
+    await store.saveBatch(
+      events,
+      events.map((indexed) => ({ number: indexed.blockNumber, hash: indexed.blockHash })),
+      { blockNumber: last.blockNumber, blockHash: last.blockHash }
+    );
+    return events;
+  };
+
+  beforeEach(async () => {
+    rewind();
+    store = new MemoryIndexerStore();
+    portfolio = new PortfolioIndex(store);
+    await index(scenario());
+  });
+
+  test("should total an owner's portfolio per payment token", async () => {
+    const view = await portfolio.getPortfolio(OWNER);
+
+    expect(view).toMatchObject({ property_count: 4, rentable_count: 3, occupied_count: 3, active_leases: 2 });
+    expect(view?.totals).toEqual([
+      {
+        payment_token: USDC.toLowerCase(),
+        monthly_rent: '3000',
+        rent_collected: '3100',
+        late_fees_collected: '100',
+        maintenance_funds: '400',
+      },
+      {
+        payment_token: EURC.toLowerCase(),
+        monthly_rent: '850',
+        rent_collected: '0',
+        late_fees_collected: '0',
+        maintenance_funds: '0',
+      },
+    ]);
+    expect(await portfolio.getPortfolio(CONTRACTOR)).toBeNull();
+  });
+
+  test('should filter leases by owner, tenant, status and scope', async () => {
+    const query = { sort: 'lease_id', order: 'asc', limit: 10 } as const;
+
+    const owned = await portfolio.listLeases({ owner: OWNER }, query);
+    expect(owned.items.map((view) => view.lease_id)).toEqual([0, 1, 3]);
+    const tenants = await portfolio.listLeases({ tenant: TENANT, status: 'terminated' }, query);
+    expect(tenants.items.map((view) => view.lease_id)).toEqual([2]);
+    // A tenant's own leases plus every lease on the properties in scope
+    const scoped = await portfolio.listLeases({ scope: { address: OTHER_TENANT, propertyIds: new Set([2]) } }, query);
+    expect(scoped.items.map((view) => view.lease_id)).toEqual([1, 2]);
+  });
+
+  test('should page payments by amount with a cursor', async () => {
+    const query = { sort: 'amount', order: 'desc', limit: 2 } as const;
+
+    const first = await portfolio.listPayments({}, query);
+    expect(first.items.map((paid) => paid.amount)).toEqual(['2000', '1000']);
+    const second = await portfolio.listPayments({}, { ...query, cursor: first.next_cursor! });
+    expect(second.items.map((paid) => paid.amount)).toEqual(['500']);
+    expect(second.next_cursor).toBeNull();
+
+    await expect(portfolio.listPayments({}, { ...query, cursor: 'not-a-cursor' })).rejects.toThrow(CursorError);
+  });
+
+  test('should not repeat or skip payments indexed between pages', async () => {
+    const query = { sort: 'timestamp', order: 'asc', limit: 1 } as const;
+    const first = await portfolio.listPayments({ leaseId: 0 }, query);
+
+    const [paid] = await index(payment(0, [3], '1000'));
+    await portfolio.handleEvent(paid);
+
+    const second = await portfolio.listPayments({ leaseId: 0 }, { ...query, limit: 10, cursor: first.next_cursor! });
+    expect([...first.items, ...second.items].map((view) => view.periods)).toEqual([[0], [1, 2], [3]]);
+  });
+
+  test('should filter payments and fund movements by time', async () => {
+    const [, second] = (await portfolio.listPayments({ owner: OWNER }, { sort: 'timestamp', order: 'asc', limit: 10 }))
+      .items;
+    const later = await portfolio.listPayments(
+      { from: second.timestamp, to: second.timestamp },
+      { sort: 'timestamp', order: 'asc', limit: 10 }
+    );
+    expect(later.items.map((view) => view.payment_id)).toEqual([second.payment_id]);
+
+    const paidOut = await portfolio.listFundMovements(
+      0,
+      { kind: 'paid_out' },
+      { sort: 'timestamp', order: 'desc', limit: 10 }
+    );
+    expect(paidOut?.items.map((movement) => movement.amount)).toEqual(['200']);
+    expect(await portfolio.listFundMovements(99, {}, { sort: 'timestamp', order: 'desc', limit: 10 })).toBeNull();
+  });
+
+  test('should report fund balance and totals', async () => {
+    expect(await portfolio.getFund(0)).toEqual({
+      property_id: 0,
+      owner: OWNER.toLowerCase(),
+      payment_token: USDC.toLowerCase(),
+      balance: '400',
+      total_funded: '600',
+      total_paid_out: '200',
+    });
+    expect(await portfolio.getFund(99)).toBeNull();
+  });
+
+  test('should replay again once a relevant event is indexed', async () => {
+    expect((await portfolio.getLease(1))?.status).toBe('paused');
+
+    const [resumed] = await index([event('LeaseResumed', { leaseId: '1' })]);
+    await portfolio.handleEvent(resumed);
+
+    expect((await portfolio.getLease(1))?.status).toBe('active');
+  });
+});
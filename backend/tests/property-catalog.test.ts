@@ -0,0 +1,127 @@
+/**
+ * RentFlow AI Backend - Property Catalog Tests
+ *
+ * File: backend/tests/property-catalog.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Entries: validation, normalization, and a hash independent of key order
+ * 2. Catalog: properties replayed from events, shown only with the entry
+ *    whose hash the owner recorded on chain
+ */
+
+import { IndexedEvent, MemoryIndexerStore } from '../src/indexer-store';
+import {
+  CatalogValidationError,
+  PropertyCatalog,
+  catalogHash,
+  parseCatalogEntry,
+} from '../src/property-catalog';
+import { createEventChain } from './helpers/events';
+
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const OTHER_OWNER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const USDC = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const LEASE_PDF_HASH = `0x${'ab'.repeat(32)}`;
+
+const HARBOUR_ROAD = {
+  address_line: '12 Harbour Rd',
+  city: 'Lisbon',
+  unit_type: 'apartment',
+  bedrooms: 2,
+  amenities: ['balcony', 'washer'],
+  photos: ['https://cdn.example.com/12-harbour/front.jpg'],
+  documents: [{ name: 'Lease template', uri: 'ipfs://bafylease', content_hash: LEASE_PDF_HASH }],
+};
+
+const { event, rewind } = createEventChain();
+
+describe('parseCatalogEntry', () => {
+  test('should normalize an entry so equal entries hash the same', () => {
+    const minimal = parseCatalogEntry({ address_line: '  7 Quay St ' });
+    expect(minimal).toEqual({
+      address_line: '7 Quay St',
+      city: null,
+      unit_type: null,
+      bedrooms: null,
+      amenities: [],
+      photos: [],
+      documents: [],
+    });
+
+    const reordered = Object.fromEntries(Object.entries(HARBOUR_ROAD).reverse());
+    expect(catalogHash(parseCatalogEntry(reordered))).toBe(catalogHash(parseCatalogEntry(HARBOUR_ROAD)));
+  });
+
+  test('should reject malformed entries', () => {
+    expect(() => parseCatalogEntry({ city: 'Lisbon' })).toThrow(CatalogValidationError);
+    expect(() => parseCatalogEntry({ ...HARBOUR_ROAD, bedrooms: 2.5 })).toThrow('bedrooms');
+    expect(() => parseCatalogEntry({ ...HARBOUR_ROAD, photos: ['http://insecure.example.com/a.jpg'] })).toThrow(
+      'photos[0]'
+    );
+    expect(() => parseCatalogEntry({ ...HARBOUR_ROAD, rent: 2500 })).toThrow('Unknown field rent');
+  });
+});
+
+describe('PropertyCatalog', () => {
+  let store: MemoryIndexerStore;
+  let catalog: PropertyCatalog;
+
+  const index = async (events: IndexedEvent[]): Promise<IndexedEvent[]> => {
+    const last = events[events.length - 1];
+    await store.saveBatch(
+      events,
+      events.map((indexed) => ({ number: indexed.blockNumber, hash: indexed.blockHash })),
+      { blockNumber: last.blockNumber, blockHash: last.blockHash }
+    );
+    return events;
+  };
+
+  beforeEach(async () => {
+    rewind();
+    store = new MemoryIndexerStore();
+    catalog = new PropertyCatalog(store);
+    await index([
+      event('PropertyRegistered', { propertyId: '0', owner: OWNER, monthlyRent: '2500000000', paymentToken: USDC }),
+      event('PropertyRegistered', { propertyId: '1', owner: OTHER_OWNER, monthlyRent: '1800000000', paymentToken: USDC }),
+    ]);
+  });
+
+  test('should show the entry whose hash is on chain', async () => {
+    const { contentHash } = await catalog.submit(HARBOUR_ROAD);
+    const [updated] = await index([
+      event('PropertyMetadataUpdated', { propertyId: '0', contentHash, uri: 'ipfs://bafyharbour' }),
+    ]);
+    await catalog.handleEvent(updated);
+
+    expect(await catalog.getProperty(0)).toEqual({
+      property_id: 0,
+      owner: OWNER.toLowerCase(),
+      monthly_rent: '2500000000',
+      payment_token: USDC.toLowerCase(),
+      metadata_hash: contentHash,
+      metadata_uri: 'ipfs://bafyharbour',
+      catalog_status: 'verified',
+      entry: parseCatalogEntry(HARBOUR_ROAD),
+    });
+    expect(await catalog.getProperty(7)).toBeNull();
+  });
+
+  test('should not show an entry the owner did not commit to', async () => {
+    await catalog.submit(HARBOUR_ROAD);
+    const { contentHash } = await catalog.submit({ ...HARBOUR_ROAD, address_line: '99 Elsewhere Ave' });
+    const committed = catalogHash(parseCatalogEntry({ ...HARBOUR_ROAD, bedrooms: 3 }));
+    await index([event('PropertyMetadataUpdated', { propertyId: '0', contentHash: committed, uri: '' })]);
+    catalog.invalidate();
+
+    const property = await catalog.getProperty(0);
+    expect(property?.catalog_status).toBe('missing');
+    expect(property?.entry).toBeNull();
+    expect(property?.metadata_hash).not.toBe(contentHash);
+    expect((await catalog.getProperty(1))?.catalog_status).toBe('unset');
+  });
+
+  test("should list one owner's properties", async () => {
+    expect((await catalog.listProperties()).map((property) => property.property_id)).toEqual([0, 1]);
+    expect((await catalog.listProperties(OTHER_OWNER)).map((property) => property.property_id)).toEqual([1]);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * RentFlow AI Backend - Tenant Reliability Score Tests
+ *
+ * File: backend/tests/tenant-score.test.ts
+ *
+ * TESTING STRATEGY:
+ * 1. Pure scoring: due dates, lateness, streaks, overdue and deposit factors; amounts
+ *    totalled per payment token, deposits weighed per lease whatever their decimals
+ * 2. Service: builds scores from indexed events and refreshes on new payments
+ */
+
+import { IndexedEvent, MemoryIndexerStore } from '../src/indexer-store';
+import {
+  LeasePaymentHistory,
+  LeaseTermsSource,
+  TenantScoreService,
+  computeTenantScore,
+  dueDateForPeriod,
+} from '../src/tenant-score';
+
+const TENANT = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const DAY = 86400;
+const JAN_1_2024 = Date.UTC(2024, 0, 1) / 1000;
+const RENT = 2500n * 10n ** 6n;
+const USDC = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+const DAI = '0xe7f1725e7734ce288f8367e1bb143e90bb3f0512';
+
+const utc = (month: number, day: number, year = 2024) => Date.UTC(year, month, day, 12) / 1000;
+
+const lease = (overrides: Partial<LeasePaymentHistory> = {}): LeasePaymentHistory => ({
+  leaseId: 0,
+  startDate: JAN_1_2024,
+  rentDueDay: 1,
+  rentTiers: [{ fromPeriod: 0, monthlyRent: RENT }],
+  securityDeposit: 5000n * 10n ** 6n,
+  paymentToken: USDC,
+  payments: [],
+  overdueEvents: 0,
+  ...overrides,
+});
+
+const factor = (profile: ReturnType<typeof computeTenantScore>, name: string) =>
+  profile.factors.find((f) => f.factor === name)!;
+
+describe('computeTenantScore', () => {
+  test('should roll due dates across month and year boundaries', () => {
+    expect(dueDateForPeriod(JAN_1_2024, 1, 0)).toBe(JAN_1_2024);
+    expect(dueDateForPeriod(Date.UTC(2024, 0, 10) / 1000, 5, 0)).toBe(Date.UTC(2024, 1, 5) / 1000);
+    expect(dueDateForPeriod(JAN_1_2024, 1, 12)).toBe(Date.UTC(2025, 0, 1) / 1000);
+  });
+
+  test('should give a perfect record full marks', () => {
+    const payments = Array.from({ length: 12 }, (_, month) => ({
+      timestamp: utc(month, 1),
+      amount: RENT,
+      period: month,
+    }));
+    const profile = computeTenantScore(TENANT, [lease({ payments })]);
+
+    expect(profile.payment_history_score).toBe(100);
+    expect(profile.on_time_payments).toBe(12);
+    expect(profile.current_streak).toBe(12);
+    expect(profile.totals).toEqual([
+      { payment_token: USDC, total_paid: (RENT * 12n).toString(), deposit_deductions: '0' },
+    ]);
+    expect(profile.address).toBe(TENANT.toLowerCase());
+  });
+
+  test('should measure lateness against each period due date', () => {
+    const payments = [
+      { timestamp: utc(0, 1), amount: RENT, period: 0 },
+      { timestamp: utc(1, 11), amount: RENT, period: 1 }, // 10 days late
+      { timestamp: utc(2, 1), amount: RENT, period: 2 },
+    ];
+    const profile = computeTenantScore(TENANT, [lease({ payments })]);
+
+    expect(profile.late_payments).toBe(1);
+    expect(profile.average_days_late).toBeCloseTo(3.3);
+    expect(profile.current_streak).toBe(1);
+    expect(factor(profile, 'on_time_rate').explanation).toBe('2 of 3 rent periods were paid by the due day');
+    expect(profile.payment_history_score).toBeLessThan(80);
+  });
+
+  test('should judge a period by the payment that settles it', () => {
+    const payments = [
+      { timestamp: utc(0, 1), amount: RENT / 2n, period: 0 }, // half on time
+      { timestamp: utc(0, 6), amount: RENT / 2n, period: 0 }, // rest 5 days late
+      { timestamp: utc(0, 6), amount: RENT, period: 1 }, // prepaid
+    ];
+    const profile = computeTenantScore(TENANT, [lease({ payments })]);
+
+    expect(profile.late_payments).toBe(1);
+    expect(profile.on_time_payments).toBe(1);
+    expect(profile.totals[0].total_paid).toBe((RENT * 2n).toString());
+  });
+
+  test('should settle renewed periods at the renewed rent', () => {
+    const renewedRent = 2750n * 10n ** 6n;
+    const payments = [{ timestamp: utc(0, 1), amount: RENT, period: 12 }];
+    const renewed = lease({
+      payments,
+      rentTiers: [
+        { fromPeriod: 0, monthlyRent: RENT },
+        { fromPeriod: 12, monthlyRent: renewedRent },
+      ],
+    });
+
+    expect(computeTenantScore(TENANT, [renewed]).on_time_payments).toBe(0);
+    renewed.payments.push({ timestamp: utc(0, 2), amount: renewedRent - RENT, period: 12 });
+    expect(computeTenantScore(TENANT, [renewed]).on_time_payments).toBe(1);
+  });
+
+  test('should penalise overdue notices and withheld deposits', () => {
+    const profile = computeTenantScore(TENANT, [
+      lease({ overdueEvents: 2, depositReturned: 2500n * 10n ** 6n }),
+    ]);
+
+    expect(factor(profile, 'overdue_events').points).toBe(5);
+    expect(factor(profile, 'deposit_deductions').value).toBe(50);
+    expect(profile.totals[0].deposit_deductions).toBe((2500n * 10n ** 6n).toString());
+  });
+
+  test('should total each payment token apart and weigh each deposit alike', () => {
+    const daiRent = 2500n * 10n ** 18n;
+    const profile = computeTenantScore(TENANT, [
+      // Half the USDC deposit withheld; the larger-unit DAI deposit returned in full
+      lease({ payments: [{ timestamp: utc(0, 1), amount: RENT, period: 0 }], depositReturned: 2500n * 10n ** 6n }),
+      lease({
+        leaseId: 1,
+        paymentToken: DAI,
+        rentTiers: [{ fromPeriod: 0, monthlyRent: daiRent }],
+        securityDeposit: 5000n * 10n ** 18n,
+        payments: [{ timestamp: utc(0, 1), amount: daiRent, period: 0 }],
+        depositReturned: 5000n * 10n ** 18n,
+      }),
+    ]);
+
+    expect(profile.totals).toEqual([
+      { payment_token: USDC, total_paid: RENT.toString(), deposit_deductions: (2500n * 10n ** 6n).toString() },
+      { payment_token: DAI, total_paid: daiRent.toString(), deposit_deductions: '0' },
+    ]);
+    expect(factor(profile, 'deposit_deductions').value).toBe(25);
+    expect(factor(profile, 'deposit_deductions').explanation).toBe(
+      '25% of each deposit withheld on average across 2 closed leases'
+    );
+  });
+
+  test('should give neutral credit when no rent has been paid yet', () => {
+    const profile = computeTenantScore(TENANT, [lease()]);
+
+    expect(factor(profile, 'on_time_rate').points).toBe(20);
+    expect(profile.payment_history_score).toBe(55);
+  });
+});
+
+describe('TenantScoreService', () => {
+  let store: MemoryIndexerStore;
+  let service: TenantScoreService;
+  let block = 0;
+
+  const terms: LeaseTermsSource = {
+    getLeaseTerms: async () => ({
+      startDate: JAN_1_2024,
+      rentDueDay: 1,
+      rentTiers: [{ fromPeriod: 0, monthlyRent: RENT }],
+      securityDeposit: 5000n * 10n ** 6n,
+      paymentToken: USDC,
+    }),
+  };
+
+  const index = async (
+    name: IndexedEvent['name'],
+    args: IndexedEvent['args'],
+    timestamp = JAN_1_2024 + block * DAY
+  ): Promise<IndexedEvent> => {
+    block++;
+    const event: IndexedEvent = {
+      id: `0x${block.toString(16)}-0`,
+      name,
+      blockNumber: block,
+      blockHash: `0xblock${block}`,
+      transactionHash: `0x${block.toString(16)}`,
+      logIndex: 0,
+      timestamp,
+      args,
+    };
+    await store.saveBatch([event], [{ number: block, hash: event.blockHash }], {
+      blockNumber: block,
+      blockHash: event.blockHash,
+    });
+    return event;
+  };
+
+  beforeEach(async () => {
+    store = new MemoryIndexerStore();
+    service = new TenantScoreService(store, terms);
+    block = 0;
+    await index('LeaseCreated', { leaseId: '0', propertyId: '0', tenant: TENANT });
+  });
+
+  test('should return null for an address that never held a lease', async () => {
+    expect(await service.getScore('0x0000000000000000000000000000000000000000')).toBeNull();
+  });
+
+  test('should match tenants case-insensitively', async () => {
+    const profile = await service.getScore(TENANT.toLowerCase());
+    expect(profile?.lease_count).toBe(1);
+  });
+
+  test('should refresh the score when a payment is indexed', async () => {
+    expect((await service.getScore(TENANT))?.on_time_payments).toBe(0);
+
+    const paid = await index(
+      'RentPaymentItemized',
+      { leaseId: '0', period: '0', rentAmount: RENT.toString(), lateFee: '0', dueDate: String(JAN_1_2024) },
+      utc(0, 1)
+    );
+    await service.handleEvent(paid);
+
+    const profile = await service.getScore(TENANT);
+    expect(profile?.on_time_payments).toBe(1);
+    expect(profile?.totals).toEqual([{ payment_token: USDC, total_paid: RENT.toString(), deposit_deductions: '0' }]);
+  });
+});
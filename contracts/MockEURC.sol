@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./MockStablecoin.sol";
+
+/**
+ * @title MockEURC
+ * @notice Mock euro stablecoin for testing EUR-denominated properties
+ */
+contract MockEURC is MockStablecoin {
+    constructor() MockStablecoin("Mock Euro Coin", "EURC") {}
+}
@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
+
+/**
+ * @title MockStablecoin
+ * @notice Mintable 6-decimal stablecoin with EIP-2612 permits, for tests
+ * @dev MockUSDC and MockEURC only pick the name and symbol
+ * 
+ * DECISION: Create mock tokens instead of using real stablecoins on testnet
+ * REASON: Full control over supply, no need for faucets, easier testing
+ *
+ * DECISION: EIP-2612 permit written out here instead of inheriting ERC20Permit
+ * REASON: OpenZeppelin's ERC20Permit and EIP712 need solc 0.8.24, while the
+ *         project compiles with 0.8.22
+ */
+abstract contract MockStablecoin is ERC20, IERC20Permit, Nonces {
+    uint8 private constant STABLECOIN_DECIMALS = 6;
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 private constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+    
+    constructor(string memory name_, string memory symbol_) ERC20(name_, symbol_) {
+        // Mint initial supply to deployer for distribution in tests
+        // 1 million tokens for testing
+        _mint(msg.sender, 1_000_000 * 10**STABLECOIN_DECIMALS);
+    }
+    
+    /**
+     * @notice Override decimals to match real USDC and EURC (6 decimals)
+     * @dev Both use 6 decimals unlike most ERC20 tokens (18)
+     */
+    function decimals() public pure override returns (uint8) {
+        return STABLECOIN_DECIMALS;
+    }
+    
+    /**
+     * @notice Mint tokens to any address for testing
+     * @param to Address to mint tokens to
+     * @param amount Amount of tokens to mint (with 6 decimals)
+     * @dev Only for testing - real stablecoins have restricted minting
+     */
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+    
+    /**
+     * @notice Burn tokens from caller for testing
+     * @param amount Amount of tokens to burn
+     */
+    function burn(uint256 amount) external {
+        _burn(msg.sender, amount);
+    }
+    
+    /**
+     * @notice Approve `spender` with the owner's EIP-712 signature instead of a transaction
+     */
+    function permit(
+        address owner,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        require(block.timestamp <= deadline, "Permit expired");
+        
+        bytes32 structHash = keccak256(
+            abi.encode(PERMIT_TYPEHASH, owner, spender, value, _useNonce(owner), deadline)
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
+        require(ECDSA.recover(digest, v, r, s) == owner, "Invalid permit signature");
+        
+        _approve(owner, spender, value);
+    }
+    
+    function nonces(address owner) public view override(IERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(owner);
+    }
+    
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256(bytes(name())), keccak256("1"), block.chainid, address(this))
+        );
+    }
+}
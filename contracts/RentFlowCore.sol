@@ -1,93 +1,249 @@
 // SPDX-License-Identifier: MIT
-pragma solidity ^0.8.20;
+pragma solidity ^0.8.22;
 
-import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "./libraries/RentFlowTypes.sol";
+import "./libraries/BillingLib.sol";
+import "./libraries/LeaseLib.sol";
+import "./libraries/MaintenanceLib.sol";
+import "./libraries/ContractorLib.sol";
+import "./libraries/DepositLib.sol";
+import "./libraries/PayoutLib.sol";
+import "./libraries/PropertyLib.sol";
 
 /**
  * @title RentFlowCore
- * @notice Core contract for AI-powered property management with USDC payments
+ * @notice Core contract for AI-powered property management with stablecoin payments
  * @dev Implements property registration, lease management, and AI-driven maintenance approval
  * 
  * SECURITY: ReentrancyGuard, Pausable, access controls
+ *
+ * DECISION: AccessControl roles for the protocol, per-property permission bits
+ *           for managers
+ * REASON: Admin, pauser, AI agent and arbiter are separate jobs held by
+ *         separate keys; owners delegate day-to-day work on one property
+ *         (leases, maintenance funding, approvals above the AI limit) without
+ *         sharing their own key, and can narrow or revoke it at any time
  * GAS OPTIMIZATION: Packed structs, events instead of storage where possible
+ *
+ * DECISION: Deployed behind a TransparentUpgradeableProxy, set up by initialize()
+ * REASON: Properties, leases and escrowed deposits live in the proxy's storage
+ *         and survive a new implementation; the ProxyAdmin's owner is the only
+ *         account that can upgrade, and the implementation stays small because
+ *         the upgrade logic lives in the proxy rather than here (unlike UUPS)
+ *
+ * STORAGE LAYOUT: Parents keep their state in ERC-7201 namespaces, so the
+ * variables below start at slot 0. Only append new variables after the last
+ * one; never reorder, retype or remove them. scripts/upgrade.ts checks this
+ * against the deployed layout before upgrading.
+ *
+ * The namespace of the former Ownable parent is kept as RetiredOwnableStorage;
+ * it still holds the pre-roles owner, which migrateOwnerToRoles reads.
+ *
+ * ReentrancyGuard is stateless (ERC-7201 slot) and has no upgradeable variant;
+ * its constructor only marks the implementation's own slot, and an unset slot
+ * in the proxy already reads as "not entered". scripts/upgrade-options.ts
+ * therefore allows "constructor", which cannot be scoped to that one parent.
  */
-contract RentFlowCore is ReentrancyGuard, Ownable, Pausable {
+contract RentFlowCore is Initializable, ReentrancyGuard, AccessControlUpgradeable, PausableUpgradeable {
     
     // ============ State Variables ============
     
-    IERC20 public immutable USDC;
-    
-    struct Property {
-        address owner;
-        uint256 monthlyRent;        // In USDC (6 decimals)
-        uint256 securityDeposit;
-        bool isActive;
-        uint256 createdAt;
-    }
-    
-    struct Lease {
-        uint256 propertyId;
-        address tenant;
-        uint256 startDate;
-        uint256 endDate;
-        uint256 rentDueDay;         // Day of month (1-28)
-        uint256 lastPaymentDate;
-        uint256 totalPaid;
-        LeaseStatus status;
-        uint256 securityDepositHeld;
-    }
-    
-    struct MaintenanceRequest {
-        uint256 propertyId;
-        address requestedBy;
-        string description;
-        uint256 estimatedCost;
-        uint256 approvedAmount;
-        address contractor;
-        MaintenanceStatus status;
-        uint256 createdAt;
-    }
-    
-    enum LeaseStatus { Active, Paused, Terminated, Completed }
-    enum MaintenanceStatus { Pending, Approved, InProgress, Completed, Rejected }
-    
     mapping(uint256 => Property) public properties;
     mapping(uint256 => Lease) public leases;
+    mapping(uint256 => LateFeeTerms) public leaseLateFees;
+    mapping(uint256 => mapping(uint256 => BillingPeriod)) public billingPeriods;
+    mapping(uint256 => RentTier[]) internal leaseRentTiers;
+    mapping(uint256 => uint256) public leasePausedAt;
+    mapping(uint256 => TerminationProposal) public terminationProposals;
+    mapping(uint256 => RenewalProposal) public renewalProposals;
     mapping(uint256 => MaintenanceRequest) public maintenanceRequests;
+    mapping(uint256 => ApprovalPolicy) public approvalPolicies;
+    mapping(uint256 => mapping(uint256 => uint256)) public aiDailySpend;     // propertyId => day => token units
+    mapping(uint256 => mapping(uint256 => uint256)) public aiMonthlySpend;   // propertyId => month => token units
     mapping(address => uint256[]) public ownerProperties;
     mapping(address => uint256[]) public tenantLeases;
     mapping(uint256 => uint256) public maintenanceFunds;
-    mapping(address => bool) public authorizedAIAgents;
+    /// @custom:oz-renamed-from authorizedAIAgents
+    mapping(address => bool) private retiredAIAgents;                      // superseded by AI_AGENT_ROLE
+    mapping(address => Contractor) internal contractors;
+    mapping(address => mapping(address => bool)) public contractorAllowlist; // owner => contractor => allowed
+    mapping(uint256 => uint256) public maintenanceRatings;                    // requestId => 1-5, 0 = unrated
+    mapping(uint256 => DepositDeduction[]) internal depositDeductions;
+    mapping(uint256 => DepositSettlement) public depositSettlements;
+    /// @custom:oz-renamed-from arbiters
+    mapping(address => bool) private retiredArbiters;                      // superseded by ARBITER_ROLE
+    mapping(uint256 => PayoutConfig) public payoutConfigs;
+    mapping(uint256 => PayoutSplit[]) internal payoutSplits;
+    mapping(address => mapping(address => uint256)) public claimablePayouts; // token => recipient => amount
+    mapping(address => bool) public paymentTokens;                           // admin allowlist
+    mapping(uint256 => uint256) public autopayCaps;                           // leaseId => max per period, 0 = off
     
     uint256 public propertyCounter;
     uint256 public leaseCounter;
     uint256 public maintenanceCounter;
+    mapping(uint256 => mapping(address => uint256)) public managerPermissions; // propertyId => manager => MANAGE_* bits
+    mapping(uint256 => bytes32) public propertyMetadataHashes;               // propertyId => catalog entry hash
+    mapping(uint256 => UnitInfo) public unitInfo;                            // unit propertyId => its building
+    mapping(uint256 => uint256) public unitCounts;                           // buildingId => units registered
+    mapping(uint256 => mapping(address => uint256)) public tenancyEnds;      // propertyId => tenant => end of their live leases
+    
+    uint256 public constant MAX_GRACE_PERIOD_DAYS = BillingLib.MAX_GRACE_PERIOD_DAYS;
+    uint256 public constant BASIS_POINTS = BillingLib.BASIS_POINTS;
+    uint256 public constant DEFAULT_ARREARS_PERIODS = 2;
+    uint256 public constant DEFAULT_AUTO_APPROVAL_LIMIT = 500 * 10**6; // $500 in USDC
+    uint256 public constant MAINTENANCE_CATEGORY_COUNT = 10;
+    uint256 public constant MAINTENANCE_DISPUTE_WINDOW = MaintenanceLib.DISPUTE_WINDOW;
+    uint256 public constant DEPOSIT_DISPUTE_WINDOW = DepositLib.DISPUTE_WINDOW;
+    
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant AI_AGENT_ROLE = keccak256("AI_AGENT_ROLE");
+    bytes32 public constant ARBITER_ROLE = keccak256("ARBITER_ROLE");
+    
+    // Manager permission bits, granted per property by its owner
+    uint256 public constant MANAGE_LEASES = 1 << 0;         // createLease
+    uint256 public constant FUND_MAINTENANCE = 1 << 1;      // fundMaintenance
+    uint256 public constant APPROVE_MAINTENANCE = 1 << 2;   // ownerApproveMaintenance, rejectMaintenance
+    uint256 public constant ALL_MANAGER_PERMISSIONS = (1 << 3) - 1;
+    
+    /// @custom:storage-location erc7201:openzeppelin.storage.Ownable
+    struct RetiredOwnableStorage {
+        address _owner;                                                  // read once by migrateOwnerToRoles
+    }
+    
+    // OwnableUpgradeable's ERC-7201 slot, from before AccessControl
+    bytes32 private constant RETIRED_OWNABLE_STORAGE =
+        0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300;
     
     // ============ Events ============
     
-    event PropertyRegistered(uint256 indexed propertyId, address indexed owner, uint256 monthlyRent);
+    event PropertyRegistered(
+        uint256 indexed propertyId,
+        address indexed owner,
+        uint256 monthlyRent,
+        address indexed paymentToken
+    );
     event LeaseCreated(uint256 indexed leaseId, uint256 indexed propertyId, address indexed tenant);
     event RentPaid(uint256 indexed leaseId, uint256 amount, uint256 timestamp);
+    event RentPaymentItemized(
+        uint256 indexed leaseId,
+        uint256 indexed period,
+        uint256 rentAmount,
+        uint256 lateFee,
+        uint256 dueDate
+    );
     event RentOverdue(uint256 indexed leaseId, uint256 daysPastDue);
+    event LeasePaused(uint256 indexed leaseId, uint256 pausedAt);
+    event LeaseResumed(uint256 indexed leaseId, uint256 periodsWaived);
+    event TerminationProposed(uint256 indexed leaseId, address indexed proposer, uint256 fee);
+    event LeaseTerminated(uint256 indexed leaseId, TerminationReason reason, uint256 fee);
+    event RenewalProposed(
+        uint256 indexed leaseId,
+        address indexed proposer,
+        uint256 additionalMonths,
+        uint256 monthlyRent
+    );
+    event LeaseRenewed(uint256 indexed leaseId, uint256 newEndDate, uint256 monthlyRent);
     event MaintenanceRequested(uint256 indexed requestId, uint256 indexed propertyId, uint256 estimatedCost);
     event MaintenanceApproved(uint256 indexed requestId, uint256 approvedAmount, address contractor);
+    event MaintenanceEscalated(
+        uint256 indexed requestId,
+        EscalationReason reason,
+        uint256 proposedAmount,
+        address contractor
+    );
+    event ApprovalPolicyUpdated(
+        uint256 indexed propertyId,
+        uint256 autoApprovalLimit,
+        uint256 dailyCap,
+        uint256 monthlyCap,
+        uint256 blockedCategories
+    );
+    event MaintenanceRejected(uint256 indexed requestId, RejectionReason reason, address rejectedBy);
+    event MaintenanceAccepted(uint256 indexed requestId, address indexed contractor);
+    event MaintenanceStarted(uint256 indexed requestId, address indexed contractor);
+    event MaintenanceWorkSubmitted(uint256 indexed requestId, bytes32 evidenceHash, uint256 disputeDeadline);
+    event MaintenanceDisputed(uint256 indexed requestId, address indexed disputedBy);
+    event MaintenanceSignedOff(uint256 indexed requestId, address indexed signedOffBy);
     event MaintenancePaid(uint256 indexed requestId, uint256 amount, address contractor);
+    event ContractorRegistered(
+        address indexed contractor,
+        uint256 trades,
+        bytes32 licenseHash,
+        bytes32 insuranceHash
+    );
+    event ContractorAllowlistUpdated(address indexed owner, address indexed contractor, bool allowed);
+    event ContractorRated(address indexed contractor, uint256 indexed requestId, uint256 rating);
+    event DepositDeductionsProposed(
+        uint256 indexed leaseId,
+        uint256 itemCount,
+        uint256 totalDeduction,
+        uint256 disputeDeadline
+    );
+    event DepositDeductionItemized(
+        uint256 indexed leaseId,
+        uint256 indexed itemIndex,
+        DeductionCategory category,
+        uint256 amount,
+        bytes32 evidenceHash
+    );
+    event DepositDeductionAccepted(uint256 indexed leaseId, uint256 indexed itemIndex, uint256 amount);
+    event DepositDeductionDisputed(uint256 indexed leaseId, uint256 indexed itemIndex, uint256 amount);
+    event DepositDisputeResolved(
+        uint256 indexed leaseId,
+        uint256 indexed itemIndex,
+        uint256 awardedToOwner,
+        uint256 returnedToTenant,
+        address indexed arbiter
+    );
     event SecurityDepositReturned(uint256 indexed leaseId, address tenant, uint256 amount);
-    event AIAgentAuthorized(address indexed agent, bool authorized);
+    event PayoutSplitsUpdated(
+        uint256 indexed propertyId,
+        uint256 indexed version,
+        uint256 recipientCount,
+        uint256 reserveBps,
+        uint256 ownerBps,
+        bool pullPayments
+    );
+    event PayoutRecipientSet(
+        uint256 indexed propertyId,
+        uint256 indexed version,
+        address indexed recipient,
+        uint256 bps
+    );
+    event RentPayout(uint256 indexed leaseId, address indexed recipient, uint256 amount, bool claimable);
+    event PayoutClaimed(address indexed recipient, address indexed token, uint256 amount);
+    event AutopayEnabled(uint256 indexed leaseId, address indexed tenant, uint256 maxPerPeriod);
+    event AutopayDisabled(uint256 indexed leaseId, address indexed tenant);
+    event PropertyManagerUpdated(uint256 indexed propertyId, address indexed manager, uint256 permissions);
+    event PaymentTokenUpdated(address indexed token, bool allowed);
     event MaintenanceFundAdded(uint256 indexed propertyId, uint256 amount);
+    event PropertyMetadataUpdated(uint256 indexed propertyId, bytes32 contentHash, string uri);
+    event UnitRegistered(uint256 indexed buildingId, uint256 indexed unitId);
     
     // ============ Modifiers ============
     
+    // Checks live in functions so each use doesn't inline its revert string,
+    // as OpenZeppelin's own modifiers do; RentFlowCore is near the size limit
+    
     modifier onlyPropertyOwner(uint256 propertyId) {
-        require(properties[propertyId].owner == msg.sender, "Not property owner");
+        _checkPropertyOwner(propertyId);
+        _;
+    }
+    
+    /// @dev The owner always passes; a manager needs `permission` on this property
+    modifier onlyPropertyOwnerOr(uint256 propertyId, uint256 permission) {
+        _checkManager(propertyId, permission);
         _;
     }
     
     modifier onlyAIAgent() {
-        require(authorizedAIAgents[msg.sender], "Not authorized AI agent");
+        _checkAIAgent();
         _;
     }
     
@@ -96,43 +252,126 @@ contract RentFlowCore is ReentrancyGuard, Ownable, Pausable {
         _;
     }
     
-    // ============ Constructor ============
+    function _checkPropertyOwner(uint256 propertyId) internal view {
+        require(properties[propertyId].owner == msg.sender, "Not property owner");
+    }
+    
+    function _checkManager(uint256 propertyId, uint256 permission) internal view {
+        require(canManage(propertyId, msg.sender, permission), "Not property owner or manager");
+    }
+    
+    function _checkAIAgent() internal view {
+        require(hasRole(AI_AGENT_ROLE, msg.sender), "Not authorized AI agent");
+    }
+    
+    // ============ Initializer ============
+    
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
     
-    constructor(address _usdcAddress) Ownable(msg.sender) {
-        require(_usdcAddress != address(0), "Invalid USDC address");
-        USDC = IERC20(_usdcAddress);
+    /**
+     * @notice Runs once, through the proxy, in place of a constructor
+     * @param initialToken First allowlisted payment token, e.g. USDC
+     */
+    function initialize(address initialToken) external initializer {
+        __AccessControl_init();
+        __Pausable_init();
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        setPaymentToken(initialToken, true);
+    }
+
+    /**
+     * @notice Moves a proxy deployed while RentFlowCore was Ownable onto roles
+     * @dev Run once, by scripts/upgrade.ts, with the upgrade. The former owner
+     *      becomes admin and pauser; AI agents and arbiters must be granted
+     *      their roles again, since the old allowlists cannot be enumerated
+     */
+    function migrateOwnerToRoles() external reinitializer(2) {
+        RetiredOwnableStorage storage retired;
+        assembly {
+            retired.slot := RETIRED_OWNABLE_STORAGE
+        }
+        address formerOwner = retired._owner;
+        require(formerOwner != address(0), "No owner to migrate");
+        _grantRole(DEFAULT_ADMIN_ROLE, formerOwner);
+        _grantRole(PAUSER_ROLE, formerOwner);
     }
     
     // ============ Property Management ============
     
+    /**
+     * @param paymentToken Allowlisted stablecoin for this property's rent, deposit and maintenance fund
+     */
     function registerProperty(
         uint256 monthlyRent,
-        uint256 securityDeposit
+        uint256 securityDeposit,
+        address paymentToken
     ) external whenNotPaused returns (uint256) {
-        require(monthlyRent > 0, "Rent must be positive");
-        require(securityDeposit >= monthlyRent, "Deposit must be >= monthly rent");
+        require(paymentTokens[paymentToken], "Payment token not allowed");
         
         uint256 propertyId = propertyCounter++;
-        
-        properties[propertyId] = Property({
-            owner: msg.sender,
-            monthlyRent: monthlyRent,
-            securityDeposit: securityDeposit,
-            isActive: true,
-            createdAt: block.timestamp
-        });
-        
-        ownerProperties[msg.sender].push(propertyId);
-        
-        emit PropertyRegistered(propertyId, msg.sender, monthlyRent);
+        PropertyLib.register(
+            properties[propertyId],
+            ownerProperties[msg.sender],
+            propertyId,
+            msg.sender,
+            monthlyRent,
+            securityDeposit,
+            paymentToken
+        );
+        // The rest of the policy starts uncapped, with no blocked categories
+        approvalPolicies[propertyId].autoApprovalLimit = DEFAULT_AUTO_APPROVAL_LIMIT;
         
         return propertyId;
     }
     
+    /**
+     * @notice Add a unit with its own rent and deposit to a building the caller owns
+     * @dev The unit is a property like any other: lease it, fund its maintenance
+     *      and set its policy by its own ID. The building's ID then stands for
+     *      its common areas and can no longer be leased itself
+     */
+    function registerUnit(
+        uint256 buildingId,
+        uint256 monthlyRent,
+        uint256 securityDeposit
+    ) external whenNotPaused onlyPropertyOwner(buildingId) returns (uint256) {
+        uint256 unitId = propertyCounter++;
+        PropertyLib.registerUnit(
+            properties,
+            unitInfo,
+            unitCounts,
+            ownerProperties[msg.sender],
+            buildingId,
+            unitId,
+            monthlyRent,
+            securityDeposit
+        );
+        approvalPolicies[unitId].autoApprovalLimit = DEFAULT_AUTO_APPROVAL_LIMIT;
+        
+        return unitId;
+    }
+    
     function deactivateProperty(uint256 propertyId) external onlyPropertyOwner(propertyId) {
         properties[propertyId].isActive = false;
     }
     
+    /**
+     * @notice Point a property at its off-chain catalog entry (address, unit, photos, documents)
+     * @param contentHash keccak256 of the entry's canonical JSON, checked by the backend catalog
+     * @param uri Where the entry can be fetched; emitted only
+     */
+    function setPropertyMetadata(
+        uint256 propertyId,
+        bytes32 contentHash,
+        string calldata uri
+    ) external onlyPropertyOwner(propertyId) {
+        PropertyLib.setMetadata(propertyMetadataHashes, propertyId, contentHash, uri);
+    }
+    
     // ============ Lease Management ============
     
     function createLease(
@@ -140,77 +379,366 @@ contract RentFlowCore is ReentrancyGuard, Ownable, Pausable {
         address tenant,
         uint256 startDate,
         uint256 durationMonths,
-        uint256 rentDueDay
-    ) external onlyPropertyOwner(propertyId) validProperty(propertyId) returns (uint256) {
-        require(tenant != address(0), "Invalid tenant address");
-        require(startDate >= block.timestamp, "Start date must be in future");
-        require(durationMonths > 0 && durationMonths <= 36, "Duration must be 1-36 months");
-        require(rentDueDay >= 1 && rentDueDay <= 28, "Rent due day must be 1-28");
+        uint256 rentDueDay,
+        LateFeeTerms calldata lateFee
+    ) external onlyPropertyOwnerOr(propertyId, MANAGE_LEASES) validProperty(propertyId) returns (uint256) {
+        require(unitCounts[propertyId] == 0, "Lease a unit, not the building");
+        BillingLib.validateLateFee(lateFee);
         
         uint256 leaseId = leaseCounter++;
-        Property memory prop = properties[propertyId];
+        Property storage prop = properties[propertyId];
+        
+        LeaseLib.open(
+            leases[leaseId],
+            leaseRentTiers[leaseId],
+            propertyId,
+            tenant,
+            startDate,
+            durationMonths,
+            rentDueDay,
+            prop.monthlyRent,
+            prop.securityDeposit
+        );
+        leaseLateFees[leaseId] = lateFee;
         
         // Transfer security deposit from tenant to contract
         require(
-            USDC.transferFrom(tenant, address(this), prop.securityDeposit),
+            IERC20(prop.paymentToken).transferFrom(tenant, address(this), prop.securityDeposit),
             "Security deposit transfer failed"
         );
         
-        uint256 endDate = startDate + (durationMonths * 30 days);
-        
-        leases[leaseId] = Lease({
-            propertyId: propertyId,
-            tenant: tenant,
-            startDate: startDate,
-            endDate: endDate,
-            rentDueDay: rentDueDay,
-            lastPaymentDate: 0,
-            totalPaid: 0,
-            status: LeaseStatus.Active,
-            securityDepositHeld: prop.securityDeposit
-        });
-        
         tenantLeases[tenant].push(leaseId);
+        indexTenancy(leaseId);
         
         emit LeaseCreated(leaseId, propertyId, tenant);
         
         return leaseId;
     }
     
+    /**
+     * @notice Pay the full balance of the oldest open billing period
+     */
     function payRent(uint256 leaseId) external nonReentrant whenNotPaused {
-        Lease storage lease = leases[leaseId];
-        require(lease.status == LeaseStatus.Active, "Lease not active");
+        Lease storage lease = _payableLease(leaseId);
         require(msg.sender == lease.tenant, "Only tenant can pay");
+        _collectRent(leaseId, BillingLib.currentBalance(lease, billingPeriods[leaseId], leaseRentTiers[leaseId]));
+    }
+    
+    /**
+     * @notice Pay any amount of rent: part of a period, or several periods ahead
+     * @dev Applied to the oldest open period first, so arrears clear before
+     *      prepayment starts
+     */
+    function payRentAmount(uint256 leaseId, uint256 amount) external nonReentrant whenNotPaused {
+        require(msg.sender == _payableLease(leaseId).tenant, "Only tenant can pay");
+        require(amount > 0, "Amount must be positive");
+        _collectRent(leaseId, amount);
+    }
+    
+    function _payableLease(uint256 leaseId) internal view returns (Lease storage lease) {
+        lease = leases[leaseId];
+        require(lease.status == LeaseStatus.Active, "Lease not active");
         require(block.timestamp >= lease.startDate, "Lease hasn't started");
         require(block.timestamp <= lease.endDate, "Lease has ended");
+    }
+    
+    /**
+     * DECISION: One payout per call even when it spans several periods
+     * REASON: Itemized events record the split; the tenant approves and
+     *         pays a single total (rent plus any late fees), which the
+     *         property's payout splits then divide
+     * @return charged Rent plus late fees taken from the tenant
+     */
+    function _collectRent(uint256 leaseId, uint256 amount) internal returns (uint256 charged) {
+        Lease storage lease = leases[leaseId];
+        uint256 fees = BillingLib.collect(
+            lease,
+            billingPeriods[leaseId],
+            leaseRentTiers[leaseId],
+            leaseLateFees[leaseId],
+            leaseId,
+            amount
+        );
         
-        Property memory prop = properties[lease.propertyId];
-        uint256 rentAmount = prop.monthlyRent;
+        charged = amount + fees;
+        uint256 propertyId = lease.propertyId;
+        Property storage prop = properties[propertyId];
+        require(IERC20(prop.paymentToken).transferFrom(lease.tenant, address(this), charged), "Rent payment failed");
         
-        // Transfer rent directly to property owner
-        require(
-            USDC.transferFrom(msg.sender, prop.owner, rentAmount),
-            "Rent payment failed"
+        uint256 reserve = PayoutLib.distribute(
+            payoutConfigs[propertyId],
+            payoutSplits[propertyId],
+            claimablePayouts[prop.paymentToken],
+            IERC20(prop.paymentToken),
+            prop.owner,
+            leaseId,
+            charged
         );
+        if (reserve > 0) {
+            maintenanceFunds[propertyId] += reserve;
+            emit MaintenanceFundAdded(propertyId, reserve);
+        }
         
-        lease.lastPaymentDate = block.timestamp;
-        lease.totalPaid += rentAmount;
-        
-        emit RentPaid(leaseId, rentAmount, block.timestamp);
+        emit RentPaid(leaseId, amount, block.timestamp);
     }
     
+    /**
+     * @notice What a payRent call would charge if mined now
+     * @dev Lets the tenant approve the exact amount before paying
+     */
+    function quoteRent(uint256 leaseId) external view returns (
+        uint256 period,
+        uint256 rentAmount,
+        uint256 lateFee,
+        uint256 dueDate
+    ) {
+        return BillingLib.quote(
+            leases[leaseId],
+            billingPeriods[leaseId],
+            leaseRentTiers[leaseId],
+            leaseLateFees[leaseId]
+        );
+    }
+    
+    /**
+     * @notice Billing record for one period, with defaults for periods not yet paid into
+     */
+    function getBillingPeriod(uint256 leaseId, uint256 period) external view returns (BillingPeriod memory) {
+        require(period < leases[leaseId].periodCount, "Period out of range");
+        return _billingPeriod(leaseId, period);
+    }
+    
+    /**
+     * @notice Unpaid rent for every period whose due day has ended
+     * @return balance Total owed in the property's payment token
+     * @return periodsInArrears Number of past-due periods with a balance
+     */
+    function getArrears(uint256 leaseId) public view returns (uint256 balance, uint256 periodsInArrears) {
+        return BillingLib.arrears(
+            leases[leaseId],
+            billingPeriods[leaseId],
+            leaseRentTiers[leaseId],
+            leasePausedAt[leaseId]
+        );
+    }
+    
+    function _billingPeriod(uint256 leaseId, uint256 period) internal view returns (BillingPeriod memory) {
+        return BillingLib.billingPeriod(leases[leaseId], billingPeriods[leaseId], leaseRentTiers[leaseId], period);
+    }
+    
+    /**
+     * @notice Flag the oldest unpaid period once its due day and grace period have passed
+     */
     function checkRentOverdue(uint256 leaseId) external onlyAIAgent {
-        Lease memory lease = leases[leaseId];
-        require(lease.status == LeaseStatus.Active, "Lease not active");
+        BillingLib.checkOverdue(leases[leaseId], leaseLateFees[leaseId], leaseId);
+    }
+    
+    // ============ Autopay ============
+    
+    /**
+     * @notice Let authorized AI agents collect rent from the caller's allowance
+     * @param maxPerPeriod Most one collection may take, late fees included
+     */
+    function enableAutopay(uint256 leaseId, uint256 maxPerPeriod) public {
+        BillingLib.enableAutopay(leases[leaseId], autopayCaps, leaseId, maxPerPeriod);
+    }
+    
+    /**
+     * @notice Grant the token allowance with an EIP-2612 signature and enable autopay in one call
+     * @dev A permit already submitted by someone else is not an error; the
+     *      allowance is what collection checks
+     */
+    function enableAutopayWithPermit(
+        uint256 leaseId,
+        uint256 maxPerPeriod,
+        uint256 allowance,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        try IERC20Permit(address(_leaseToken(leaseId))).permit(msg.sender, address(this), allowance, deadline, v, r, s) {} catch {}
+        enableAutopay(leaseId, maxPerPeriod);
+    }
+    
+    function disableAutopay(uint256 leaseId) external {
+        BillingLib.disableAutopay(leases[leaseId], autopayCaps, leaseId);
+    }
+    
+    /**
+     * @notice Collect the oldest open period from an autopay tenant, on or after its due day
+     * @dev One period per call, so the cap applies to each period separately
+     */
+    function collectRent(uint256 leaseId) external onlyAIAgent nonReentrant whenNotPaused {
+        Lease storage lease = _payableLease(leaseId);
+        uint256 cap = autopayCaps[leaseId];
+        require(cap > 0, "Autopay not enabled");
         
-        if (lease.lastPaymentDate == 0 && block.timestamp > lease.startDate + 5 days) {
-            emit RentOverdue(leaseId, (block.timestamp - lease.startDate) / 1 days);
-        } else if (lease.lastPaymentDate > 0) {
-            uint256 daysSincePayment = (block.timestamp - lease.lastPaymentDate) / 1 days;
-            if (daysSincePayment > 35) {
-                emit RentOverdue(leaseId, daysSincePayment - 30);
-            }
-        }
+        uint256 charged = _collectRent(
+            leaseId,
+            BillingLib.dueBalance(lease, billingPeriods[leaseId], leaseRentTiers[leaseId])
+        );
+        require(charged <= cap, "Exceeds autopay cap");
+    }
+    
+    // ============ Rent Payouts ============
+    
+    /**
+     * @notice Split the property's rent between recipients, its maintenance fund and the owner
+     * @param splits Recipients and their basis-point shares; the owner keeps what is left
+     * @param reserveBps Share credited to the property's maintenance fund
+     * @param pullPayments Accrue balances for claimPayouts instead of transferring at payment time
+     */
+    function setPayoutSplits(
+        uint256 propertyId,
+        PayoutSplit[] calldata splits,
+        uint256 reserveBps,
+        bool pullPayments
+    ) external onlyPropertyOwner(propertyId) {
+        PayoutLib.configure(
+            payoutConfigs[propertyId],
+            payoutSplits[propertyId],
+            splits,
+            reserveBps,
+            pullPayments,
+            propertyId
+        );
+    }
+    
+    /**
+     * @notice Withdraw rent accrued to the caller in `token` on pull-payment properties
+     */
+    function claimPayouts(address token) external nonReentrant {
+        PayoutLib.claim(claimablePayouts[token], IERC20(token));
+    }
+    
+    function getPayoutSplits(uint256 propertyId) external view returns (PayoutSplit[] memory) {
+        return payoutSplits[propertyId];
+    }
+    
+    // ============ Lease Lifecycle ============
+    
+    /**
+     * @notice Suspend rent collection, e.g. while the unit is under major repair
+     * @dev Owner only: pausing can only reduce what the tenant owes
+     */
+    function pauseLease(uint256 leaseId) external {
+        LeaseLib.pause(leases[leaseId], leasePausedAt, leaseId, _leaseOwner(leaseId));
+    }
+    
+    /**
+     * @notice Resume a paused lease, waiving every period that fell due during the pause
+     */
+    function resumeLease(uint256 leaseId) external {
+        LeaseLib.resume(leases[leaseId], billingPeriods[leaseId], leasePausedAt, leaseId, _leaseOwner(leaseId));
+    }
+    
+    /**
+     * @notice Offer to end the lease early for `fee`; either party may propose
+     */
+    function proposeEarlyTermination(uint256 leaseId, uint256 fee) external {
+        LeaseLib.proposeTermination(leases[leaseId], terminationProposals, leaseId, _leaseOwner(leaseId), fee);
+    }
+    
+    /**
+     * @notice Accept the other party's termination offer; the tenant pays the agreed fee
+     * @param expectedFee The proposed fee; reverts if the offer was changed since
+     */
+    function acceptEarlyTermination(uint256 leaseId, uint256 expectedFee) external nonReentrant {
+        LeaseLib.acceptTermination(
+            leases[leaseId],
+            terminationProposals,
+            renewalProposals,
+            leasePausedAt,
+            _leaseToken(leaseId),
+            leaseId,
+            _leaseOwner(leaseId),
+            expectedFee
+        );
+        indexTenancy(leaseId);
+    }
+    
+    /**
+     * @notice End a lease whose tenant has fallen DEFAULT_ARREARS_PERIODS periods behind
+     * @dev The deposit stays held so the owner can deduct unpaid rent from it
+     */
+    function terminateForDefault(uint256 leaseId) external {
+        (, uint256 periodsInArrears) = getArrears(leaseId);
+        LeaseLib.terminateForDefault(
+            leases[leaseId],
+            renewalProposals,
+            leasePausedAt,
+            leaseId,
+            _leaseOwner(leaseId),
+            periodsInArrears >= DEFAULT_ARREARS_PERIODS
+        );
+        indexTenancy(leaseId);
+    }
+    
+    /**
+     * @notice Offer to extend the lease by `additionalMonths` at `monthlyRent`
+     */
+    function proposeRenewal(uint256 leaseId, uint256 additionalMonths, uint256 monthlyRent) external {
+        LeaseLib.proposeRenewal(
+            leases[leaseId],
+            renewalProposals,
+            leaseId,
+            _leaseOwner(leaseId),
+            additionalMonths,
+            monthlyRent
+        );
+    }
+    
+    /**
+     * @notice Accept the other party's renewal offer on the terms it was made
+     * @dev Reverts if the offer was changed since, so a re-proposal cannot
+     *      swap in a higher rent or longer term behind the accepter's back
+     */
+    function acceptRenewal(uint256 leaseId, uint256 additionalMonths, uint256 monthlyRent) external {
+        LeaseLib.acceptRenewal(
+            leases[leaseId],
+            leaseRentTiers[leaseId],
+            renewalProposals,
+            leaseId,
+            _leaseOwner(leaseId),
+            additionalMonths,
+            monthlyRent
+        );
+        indexTenancy(leaseId);
+    }
+    
+    /**
+     * @notice Refresh tenancyEnds for a lease's tenant at its property and building
+     * @dev Runs after every lease change. Public so leases opened before the
+     *      index existed can be indexed after an upgrade; it only records
+     *      what the leases already say, so anyone may call it
+     */
+    function indexTenancy(uint256 leaseId) public {
+        Lease storage lease = leases[leaseId];
+        LeaseLib.indexTenancy(
+            tenancyEnds,
+            leases,
+            unitInfo,
+            tenantLeases[lease.tenant],
+            lease.propertyId,
+            lease.tenant
+        );
+    }
+    
+    function _leaseOwner(uint256 leaseId) internal view returns (address) {
+        return properties[leases[leaseId].propertyId].owner;
+    }
+    
+    function _leaseToken(uint256 leaseId) internal view returns (IERC20) {
+        return _propertyToken(leases[leaseId].propertyId);
+    }
+    
+    function _propertyToken(uint256 propertyId) internal view returns (IERC20) {
+        return IERC20(properties[propertyId].paymentToken);
+    }
+    
+    function getRentTiers(uint256 leaseId) external view returns (RentTier[] memory) {
+        return leaseRentTiers[leaseId];
     }
     
     // ============ Maintenance Management ============
@@ -221,168 +749,404 @@ contract RentFlowCore is ReentrancyGuard, Ownable, Pausable {
         uint256 estimatedCost
     ) external validProperty(propertyId) returns (uint256) {
         require(
-            properties[propertyId].owner == msg.sender || _isTenantOfProperty(msg.sender, propertyId),
+            _isOwnerOrTenant(propertyId),
             "Not authorized for this property"
         );
-        require(bytes(description).length > 0, "Description required");
-        require(estimatedCost > 0, "Estimated cost must be positive");
         
         uint256 requestId = maintenanceCounter++;
-        
-        maintenanceRequests[requestId] = MaintenanceRequest({
-            propertyId: propertyId,
-            requestedBy: msg.sender,
-            description: description,
-            estimatedCost: estimatedCost,
-            approvedAmount: 0,
-            contractor: address(0),
-            status: MaintenanceStatus.Pending,
-            createdAt: block.timestamp
-        });
-        
-        emit MaintenanceRequested(requestId, propertyId, estimatedCost);
+        MaintenanceLib.open(maintenanceRequests[requestId], propertyId, description, estimatedCost, requestId);
         
         return requestId;
     }
     
+    /**
+     * @notice AI approval, checked against the property's approval policy
+     * @dev Outside the policy the request moves to AwaitingOwnerApproval with
+     *      the proposed amount and contractor, for ownerApproveMaintenance
+     */
     function approveMaintenance(
         uint256 requestId,
         uint256 approvedAmount,
-        address contractor
+        address contractor,
+        MaintenanceCategory category
     ) external onlyAIAgent {
         MaintenanceRequest storage request = maintenanceRequests[requestId];
-        require(request.status == MaintenanceStatus.Pending, "Request not pending");
-        require(approvedAmount > 0, "Approved amount must be positive");
-        require(contractor != address(0), "Invalid contractor address");
-        
-        uint256 autoApprovalLimit = 500 * 10**6; // $500 in USDC
-        require(approvedAmount <= autoApprovalLimit, "Exceeds AI approval limit");
-        
-        request.approvedAmount = approvedAmount;
-        request.contractor = contractor;
-        request.status = MaintenanceStatus.Approved;
+        uint256 propertyId = request.propertyId;
+        request.category = category;
         
-        emit MaintenanceApproved(requestId, approvedAmount, contractor);
+        MaintenanceLib.approveWithinPolicy(
+            request,
+            approvalPolicies[propertyId],
+            aiDailySpend[propertyId],
+            aiMonthlySpend[propertyId],
+            approvedAmount,
+            contractor,
+            requestId
+        );
+        // After the request's own checks, so those report first; reverting undoes the approval
+        _requireAllowedContractor(propertyId, contractor);
+        require(ContractorLib.covers(contractors[contractor], category), "Contractor does not cover category");
+    }
+    
+    /**
+     * @notice Owner (or APPROVE_MAINTENANCE manager) approval for escalated requests, or any pending one
+     * @dev Not counted against the AI spend caps
+     */
+    function ownerApproveMaintenance(uint256 requestId, uint256 approvedAmount, address contractor) external {
+        MaintenanceRequest storage request = maintenanceRequests[requestId];
+        require(canManage(request.propertyId, msg.sender, APPROVE_MAINTENANCE), "Not property owner or manager");
+        _requireAllowedContractor(request.propertyId, contractor);
+        MaintenanceLib.approveAsOwner(request, approvedAmount, contractor, requestId);
+    }
+    
+    function setApprovalPolicy(uint256 propertyId, ApprovalPolicy calldata policy)
+        external
+        onlyPropertyOwner(propertyId)
+    {
+        MaintenanceLib.setPolicy(approvalPolicies[propertyId], policy, propertyId, MAINTENANCE_CATEGORY_COUNT);
+    }
+    
+    /**
+     * @notice AI-approved spend so far in the current UTC day and calendar month
+     */
+    function getAISpend(uint256 propertyId) external view returns (uint256 spentToday, uint256 spentThisMonth) {
+        (uint256 day, uint256 month) = MaintenanceLib.spendPeriods();
+        return (aiDailySpend[propertyId][day], aiMonthlySpend[propertyId][month]);
     }
     
     function fundMaintenance(uint256 propertyId, uint256 amount) 
         external 
-        onlyPropertyOwner(propertyId) 
+        onlyPropertyOwnerOr(propertyId, FUND_MAINTENANCE) 
         nonReentrant 
     {
-        require(amount > 0, "Amount must be positive");
+        MaintenanceLib.fund(maintenanceFunds, _propertyToken(propertyId), propertyId, amount);
+    }
+    
+    /**
+     * @notice Decline a request; the AI agent may only reject requests it has not approved
+     * @dev The owner (or APPROVE_MAINTENANCE manager) may reject until work
+     *      starts, or to settle a dispute
+     */
+    function rejectMaintenance(uint256 requestId, RejectionReason reason) external {
+        MaintenanceRequest storage request = maintenanceRequests[requestId];
+        bool byAIAgent = hasRole(AI_AGENT_ROLE, msg.sender);
+        require(byAIAgent || canManage(request.propertyId, msg.sender, APPROVE_MAINTENANCE), "Not authorized");
+        require(reason != RejectionReason.None, "Rejection reason required");
         
-        require(
-            USDC.transferFrom(msg.sender, address(this), amount),
-            "Funding transfer failed"
-        );
+        request.rejectionReason = reason;
+        MaintenanceLib.reject(request, requestId, byAIAgent);
+    }
+    
+    function acceptMaintenanceJob(uint256 requestId) external {
+        MaintenanceLib.accept(maintenanceRequests[requestId], requestId);
+    }
+    
+    function startMaintenanceWork(uint256 requestId) external {
+        MaintenanceLib.start(maintenanceRequests[requestId], requestId);
+    }
+    
+    /**
+     * @notice Contractor marks the work done; opens the dispute window
+     * @param evidenceHash Digest of the off-chain evidence (photos, invoice)
+     */
+    function submitMaintenanceCompletion(uint256 requestId, bytes32 evidenceHash) external {
+        MaintenanceLib.submitCompletion(maintenanceRequests[requestId], requestId, evidenceHash);
+    }
+    
+    /**
+     * @notice Tenant or owner confirms the work, releasing payment to the contractor
+     */
+    function signOffMaintenance(uint256 requestId) external nonReentrant {
+        MaintenanceRequest storage request = maintenanceRequests[requestId];
+        uint256 propertyId = request.propertyId;
         
-        maintenanceFunds[propertyId] += amount;
+        MaintenanceLib.signOff(
+            request,
+            contractors[request.contractor],
+            maintenanceFunds,
+            _propertyToken(propertyId),
+            requestId,
+            msg.sender == properties[propertyId].owner,
+            _isTenantOfProperty(msg.sender, propertyId)
+        );
+    }
+    
+    /**
+     * @notice Tenant or owner holds payment within the dispute window
+     */
+    function disputeMaintenance(uint256 requestId) external {
+        MaintenanceRequest storage request = maintenanceRequests[requestId];
+        uint256 propertyId = request.propertyId;
         
-        emit MaintenanceFundAdded(propertyId, amount);
+        MaintenanceLib.dispute(
+            request,
+            requestId,
+            _isOwnerOrTenant(propertyId)
+        );
     }
     
+    /**
+     * @notice Pay the contractor once the dispute window has passed without sign-off or dispute
+     */
     function payMaintenanceContractor(uint256 requestId) external nonReentrant {
         MaintenanceRequest storage request = maintenanceRequests[requestId];
-        require(request.status == MaintenanceStatus.Approved, "Not approved");
-        
-        uint256 propertyId = request.propertyId;
         require(
-            msg.sender == properties[propertyId].owner || authorizedAIAgents[msg.sender],
+            msg.sender == properties[request.propertyId].owner ||
+                msg.sender == request.contractor ||
+                hasRole(AI_AGENT_ROLE, msg.sender),
             "Not authorized"
         );
         
-        uint256 amount = request.approvedAmount;
-        require(maintenanceFunds[propertyId] >= amount, "Insufficient maintenance funds");
-        
-        maintenanceFunds[propertyId] -= amount;
-        request.status = MaintenanceStatus.Completed;
-        
-        require(
-            USDC.transfer(request.contractor, amount),
-            "Contractor payment failed"
+        MaintenanceLib.releaseAfterWindow(
+            request,
+            contractors[request.contractor],
+            maintenanceFunds,
+            _propertyToken(request.propertyId),
+            requestId
         );
+    }
+    
+    /**
+     * @notice Owner or tenant rates the contractor on a paid job
+     */
+    function rateMaintenance(uint256 requestId, uint256 rating) external {
+        MaintenanceRequest storage request = maintenanceRequests[requestId];
+        uint256 propertyId = request.propertyId;
         
-        emit MaintenancePaid(requestId, amount, request.contractor);
+        ContractorLib.rate(
+            request,
+            contractors[request.contractor],
+            maintenanceRatings,
+            requestId,
+            rating,
+            _isOwnerOrTenant(propertyId)
+        );
+    }
+    
+    // ============ Contractor Registry ============
+    
+    /**
+     * @notice Register, or update, the caller as a contractor
+     * @param trades Bitmask of MaintenanceCategory the contractor works in
+     * @param licenseHash Digest of the license document, or zero
+     * @param insuranceHash Digest of the insurance certificate, or zero
+     */
+    function registerContractor(
+        uint256 trades,
+        bytes32[] calldata serviceAreas,
+        bytes32 licenseHash,
+        bytes32 insuranceHash
+    ) external {
+        ContractorLib.register(
+            contractors[msg.sender],
+            trades,
+            serviceAreas,
+            licenseHash,
+            insuranceHash,
+            MAINTENANCE_CATEGORY_COUNT
+        );
+    }
+    
+    /**
+     * @notice Allow or revoke a contractor for every property the caller owns
+     * @dev Revoking does not affect jobs already approved
+     */
+    function setContractorAllowed(address contractor, bool allowed) external {
+        require(!allowed || contractors[contractor].trades != 0, "Contractor not registered");
+        contractorAllowlist[msg.sender][contractor] = allowed;
+        emit ContractorAllowlistUpdated(msg.sender, contractor, allowed);
+    }
+    
+    function getContractor(address contractor) external view returns (Contractor memory) {
+        return contractors[contractor];
+    }
+    
+    function isContractorAllowed(uint256 propertyId, address contractor) public view returns (bool) {
+        return contractors[contractor].trades != 0 && contractorAllowlist[properties[propertyId].owner][contractor];
+    }
+    
+    function _requireAllowedContractor(uint256 propertyId, address contractor) internal view {
+        require(isContractorAllowed(propertyId, contractor), "Contractor not allowed for property");
     }
     
     // ============ Security Deposit Management ============
     
-    function returnSecurityDeposit(uint256 leaseId, uint256 deductionAmount) 
-        external 
-        nonReentrant 
-    {
+    /**
+     * @notice Owner proposes itemized deductions once the lease is over
+     * @dev The unclaimed remainder goes back to the tenant immediately;
+     *      an empty list returns the whole deposit
+     */
+    function proposeDepositDeductions(uint256 leaseId, DeductionItem[] calldata items) external nonReentrant {
         Lease storage lease = leases[leaseId];
         require(
-            msg.sender == properties[lease.propertyId].owner || authorizedAIAgents[msg.sender],
+            msg.sender == properties[lease.propertyId].owner || hasRole(AI_AGENT_ROLE, msg.sender),
             "Not authorized"
         );
-        require(
-            lease.status == LeaseStatus.Completed || block.timestamp > lease.endDate,
-            "Lease not completed"
-        );
-        require(deductionAmount <= lease.securityDepositHeld, "Deduction exceeds deposit");
-        
-        uint256 returnAmount = lease.securityDepositHeld - deductionAmount;
-        lease.securityDepositHeld = 0;
-        lease.status = LeaseStatus.Completed;
-        
-        if (returnAmount > 0) {
-            require(
-                USDC.transfer(lease.tenant, returnAmount),
-                "Deposit return failed"
-            );
-        }
         
-        if (deductionAmount > 0) {
-            require(
-                USDC.transfer(properties[lease.propertyId].owner, deductionAmount),
-                "Deduction transfer failed"
-            );
-        }
-        
-        emit SecurityDepositReturned(leaseId, lease.tenant, returnAmount);
+        DepositLib.propose(
+            lease,
+            depositSettlements[leaseId],
+            depositDeductions[leaseId],
+            items,
+            _leaseToken(leaseId),
+            leaseId
+        );
     }
     
-    // ============ AI Agent Management ============
+    function acceptDepositDeduction(uint256 leaseId, uint256 itemIndex) external nonReentrant {
+        _respondToDeduction(leaseId, itemIndex, true);
+    }
     
-    function setAIAgent(address agent, bool authorized) external onlyOwner {
-        require(agent != address(0), "Invalid agent address");
-        authorizedAIAgents[agent] = authorized;
-        emit AIAgentAuthorized(agent, authorized);
+    /// @notice Hold a deduction in escrow until an arbiter resolves it
+    function disputeDepositDeduction(uint256 leaseId, uint256 itemIndex) external nonReentrant {
+        _respondToDeduction(leaseId, itemIndex, false);
+    }
+    
+    function _respondToDeduction(uint256 leaseId, uint256 itemIndex, bool accept) internal {
+        Lease storage lease = leases[leaseId];
+        DepositLib.respond(
+            lease,
+            depositSettlements[leaseId],
+            depositDeductions[leaseId][itemIndex],
+            _leaseToken(leaseId),
+            properties[lease.propertyId].owner,
+            leaseId,
+            itemIndex,
+            accept
+        );
+    }
+    
+    /**
+     * @notice Arbiter awards part or all of a disputed item to the owner;
+     *         the rest goes back to the tenant
+     */
+    function resolveDepositDispute(uint256 leaseId, uint256 itemIndex, uint256 awardedToOwner)
+        external
+        nonReentrant
+    {
+        require(hasRole(ARBITER_ROLE, msg.sender), "Not arbiter");
+        Lease storage lease = leases[leaseId];
+        DepositLib.resolve(
+            lease,
+            depositSettlements[leaseId],
+            depositDeductions[leaseId],
+            _leaseToken(leaseId),
+            properties[lease.propertyId].owner,
+            leaseId,
+            itemIndex,
+            awardedToOwner
+        );
+    }
+    
+    /**
+     * @notice Once the window closes, pay out items the tenant did not dispute
+     * @dev Anyone may call; the outcome is fixed by the items and the clock
+     */
+    function releaseSecurityDeposit(uint256 leaseId) external nonReentrant {
+        Lease storage lease = leases[leaseId];
+        DepositLib.release(
+            lease,
+            depositSettlements[leaseId],
+            depositDeductions[leaseId],
+            _leaseToken(leaseId),
+            properties[lease.propertyId].owner,
+            leaseId
+        );
+    }
+    
+    function getDepositDeductions(uint256 leaseId) external view returns (DepositDeduction[] memory) {
+        return depositDeductions[leaseId];
+    }
+    
+    // ============ Payment Tokens ============
+    
+    /**
+     * @notice Allow or retire a stablecoin for new properties
+     * @dev Retiring a token does not touch properties already using it, so
+     *      their rent, deposits and funds still settle in it
+     */
+    function setPaymentToken(address token, bool allowed) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(token != address(0), "Invalid token address");
+        paymentTokens[token] = allowed;
+        emit PaymentTokenUpdated(token, allowed);
+    }
+    
+    // ============ Property Managers ============
+    
+    /**
+     * @notice Grant `manager` the MANAGE_* actions in `permissions` on one property
+     * @dev Replaces the manager's previous permissions; zero revokes them all.
+     *      AI agents and arbiters are protocol roles, granted by the admin
+     *      through grantRole
+     */
+    function setPropertyManager(uint256 propertyId, address manager, uint256 permissions)
+        external
+        onlyPropertyOwner(propertyId)
+    {
+        require(manager != address(0), "Invalid manager address");
+        require(permissions <= ALL_MANAGER_PERMISSIONS, "Unknown permission");
+        managerPermissions[propertyId][manager] = permissions;
+        emit PropertyManagerUpdated(propertyId, manager, permissions);
+    }
+    
+    /**
+     * @notice Whether `account` owns the property, or manages it with every bit in `permission`
+     * @dev A building's managers manage each of its units too
+     */
+    function canManage(uint256 propertyId, address account, uint256 permission) public view returns (bool) {
+        if (account == properties[propertyId].owner) return true;
+        if (permission == 0) return false;
+        UnitInfo storage unit = unitInfo[propertyId];
+        return
+            managerPermissions[propertyId][account] & permission == permission ||
+            (unit.isUnit && managerPermissions[unit.buildingId][account] & permission == permission);
     }
     
     // ============ Emergency Functions ============
     
-    function pause() external onlyOwner {
+    function pause() external onlyRole(PAUSER_ROLE) {
         _pause();
     }
     
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(PAUSER_ROLE) {
         _unpause();
     }
     
     // ============ View Functions ============
     
     function _isTenantOfProperty(address user, uint256 propertyId) internal view returns (bool) {
-        uint256[] memory userLeases = tenantLeases[user];
-        for (uint256 i = 0; i < userLeases.length; i++) {
-            if (leases[userLeases[i]].propertyId == propertyId && 
-                leases[userLeases[i]].status == LeaseStatus.Active) {
-                return true;
-            }
-        }
-        return false;
+        return tenancyEnds[propertyId][user] >= block.timestamp;
+    }
+    
+    function _isOwnerOrTenant(uint256 propertyId) internal view returns (bool) {
+        return msg.sender == properties[propertyId].owner || _isTenantOfProperty(msg.sender, propertyId);
     }
     
+    /**
+     * @notice Every property `owner` has registered
+     * @dev Kept for existing integrations. The list grows without bound, so
+     *      large portfolios should page through it with RentFlowLens, or
+     *      getOwnerPropertyCount and the ownerProperties(owner, index) getter
+     */
     function getOwnerProperties(address owner) external view returns (uint256[] memory) {
         return ownerProperties[owner];
     }
     
+    /// @notice Every lease `tenant` has ever held; see getOwnerProperties
     function getTenantLeases(address tenant) external view returns (uint256[] memory) {
         return tenantLeases[tenant];
     }
     
+    /// @notice How many properties `owner` has registered
+    function getOwnerPropertyCount(address owner) external view returns (uint256) {
+        return ownerProperties[owner].length;
+    }
+    
+    /// @notice How many leases `tenant` has ever held
+    function getTenantLeaseCount(address tenant) external view returns (uint256) {
+        return tenantLeases[tenant].length;
+    }
+    
     function getMaintenanceFundBalance(uint256 propertyId) external view returns (uint256) {
         return maintenanceFunds[propertyId];
     }
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "./RentFlowCore.sol";
+
+/**
+ * @title RentFlowCoreV2Mock
+ * @notice Stand-in for a future implementation, for upgrade tests
+ * @dev Appends state after RentFlowCore's, the one layout change an upgrade may make.
+ *      Reuses RentFlowCore's initializer, since the proxy is already initialized.
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract RentFlowCoreV2Mock is RentFlowCore {
+    uint256 public upgradeMarker;
+    
+    function setUpgradeMarker(uint256 marker) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        upgradeMarker = marker;
+    }
+}
+
+contract StorageShifter {
+    uint256 internal shifted;
+}
+
+/**
+ * @title RentFlowCoreShiftedLayoutMock
+ * @notice Implementation whose state no longer lines up with RentFlowCore's
+ * @dev A parent with its own variable pushes every RentFlowCore slot down by
+ *      one; the upgrade check must refuse it
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract RentFlowCoreShiftedLayoutMock is StorageShifter, RentFlowCore {}
@@ -0,0 +1,151 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "./RentFlowCore.sol";
+
+/**
+ * @title RentFlowLens
+ * @notice Read-only batch and paginated views over RentFlowCore
+ * @dev Stateless and not upgradeable; deploy a new one whenever the views
+ *      change. Every value comes from RentFlowCore's public getters.
+ *
+ * DECISION: Batch views live in a separate lens contract, not in RentFlowCore
+ * REASON: RentFlowCore sits at the contract size limit, and views need
+ *         nothing its public getters don't already expose. One eth_call to
+ *         the lens replaces one RPC round trip per property, lease or request
+ *
+ * DECISION: Struct getters are decoded from the raw return data
+ * REASON: A public getter returns a struct's fields as a flat tuple, which is
+ *         the struct's own encoding (after a head offset when it holds a
+ *         string). Decoding it whole avoids destructuring up to twelve values
+ *         onto the stack
+ */
+contract RentFlowLens {
+    struct PropertyView {
+        uint256 propertyId;
+        Property property;
+        bytes32 metadataHash;
+        UnitInfo unit;
+        uint256 unitCount;       // Units under this property when it is a building
+        uint256 maintenanceFund;
+    }
+
+    struct LeaseView {
+        uint256 leaseId;
+        Lease lease;
+        uint256 arrears;         // Unpaid rent for past-due periods
+        uint256 periodsInArrears;
+    }
+
+    struct MaintenanceView {
+        uint256 requestId;
+        MaintenanceRequest request;
+    }
+
+    /// @notice Most records one page may hold, so a page fits in one eth_call
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    RentFlowCore public immutable core;
+
+    constructor(RentFlowCore _core) {
+        core = _core;
+    }
+
+    // ============ Batch Views ============
+
+    function getProperties(uint256[] memory propertyIds) public view returns (PropertyView[] memory views) {
+        views = new PropertyView[](propertyIds.length);
+        for (uint256 i = 0; i < propertyIds.length; i++) {
+            uint256 propertyId = propertyIds[i];
+            PropertyView memory record = views[i];
+            record.propertyId = propertyId;
+            record.property = abi.decode(_read(abi.encodeCall(core.properties, (propertyId))), (Property));
+            record.metadataHash = core.propertyMetadataHashes(propertyId);
+            (record.unit.isUnit, record.unit.buildingId) = core.unitInfo(propertyId);
+            record.unitCount = core.unitCounts(propertyId);
+            record.maintenanceFund = core.maintenanceFunds(propertyId);
+        }
+    }
+
+    function getLeases(uint256[] memory leaseIds) public view returns (LeaseView[] memory views) {
+        views = new LeaseView[](leaseIds.length);
+        for (uint256 i = 0; i < leaseIds.length; i++) {
+            uint256 leaseId = leaseIds[i];
+            LeaseView memory record = views[i];
+            record.leaseId = leaseId;
+            record.lease = abi.decode(_read(abi.encodeCall(core.leases, (leaseId))), (Lease));
+            (record.arrears, record.periodsInArrears) = core.getArrears(leaseId);
+        }
+    }
+
+    function getMaintenanceRequests(
+        uint256[] calldata requestIds
+    ) external view returns (MaintenanceView[] memory views) {
+        views = new MaintenanceView[](requestIds.length);
+        for (uint256 i = 0; i < requestIds.length; i++) {
+            bytes memory fields = _read(abi.encodeCall(core.maintenanceRequests, (requestIds[i])));
+            views[i].requestId = requestIds[i];
+            views[i].request = abi.decode(bytes.concat(bytes32(uint256(32)), fields), (MaintenanceRequest));
+        }
+    }
+
+    // ============ Pages ============
+
+    /// @notice Up to `limit` of the owner's property IDs from `offset`, and how many they have
+    function getOwnerPropertyIds(
+        address owner,
+        uint256 offset,
+        uint256 limit
+    ) public view returns (uint256[] memory ids, uint256 total) {
+        total = core.getOwnerPropertyCount(owner);
+        ids = new uint256[](_pageLength(total, offset, limit));
+        for (uint256 i = 0; i < ids.length; i++) ids[i] = core.ownerProperties(owner, offset + i);
+    }
+
+    /// @notice Up to `limit` of the tenant's lease IDs from `offset`, and how many they have
+    function getTenantLeaseIds(
+        address tenant,
+        uint256 offset,
+        uint256 limit
+    ) public view returns (uint256[] memory ids, uint256 total) {
+        total = core.getTenantLeaseCount(tenant);
+        ids = new uint256[](_pageLength(total, offset, limit));
+        for (uint256 i = 0; i < ids.length; i++) ids[i] = core.tenantLeases(tenant, offset + i);
+    }
+
+    /// @notice A page of the owner's properties as full records
+    function getOwnerPropertyPage(
+        address owner,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PropertyView[] memory page, uint256 total) {
+        uint256[] memory ids;
+        (ids, total) = getOwnerPropertyIds(owner, offset, limit);
+        page = getProperties(ids);
+    }
+
+    /// @notice A page of the tenant's leases as full records
+    function getTenantLeasePage(
+        address tenant,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (LeaseView[] memory page, uint256 total) {
+        uint256[] memory ids;
+        (ids, total) = getTenantLeaseIds(tenant, offset, limit);
+        page = getLeases(ids);
+    }
+
+    // ============ Internal ============
+
+    function _pageLength(uint256 total, uint256 offset, uint256 limit) private pure returns (uint256) {
+        require(limit > 0 && limit <= MAX_PAGE_SIZE, "Page size must be 1-100");
+        if (offset >= total) return 0;
+        return total - offset < limit ? total - offset : limit;
+    }
+
+    function _read(bytes memory call) private view returns (bytes memory result) {
+        bool success;
+        (success, result) = address(core).staticcall(call);
+        require(success, "RentFlowCore read failed");
+    }
+}
@@ -1,5 +1,6 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
+import "@openzeppelin/hardhat-upgrades";
 import * as dotenv from "dotenv";
 
 dotenv.config();
@@ -13,7 +14,9 @@ dotenv.config();
 
 const config: HardhatUserConfig = {
   solidity: {
-    version: "0.8.20",
+    // DECISION: 0.8.22, the minimum for OpenZeppelin's proxy contracts
+    // REASON: RentFlowCore is deployed behind a TransparentUpgradeableProxy
+    version: "0.8.22",
     settings: {
       optimizer: {
         enabled: true,
@@ -0,0 +1,245 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./DateTimeLib.sol";
+import "./RentFlowTypes.sol";
+
+/**
+ * @title BillingLib
+ * @notice Billing-period accounting for RentFlowCore leases
+ * @dev Deployed once and linked into RentFlowCore. Functions run through
+ *      DELEGATECALL on RentFlowCore's storage, and their events are logged
+ *      from RentFlowCore's address.
+ *
+ * DECISION: External library instead of internal functions
+ * REASON: Keeps RentFlowCore under the 24KB contract size limit; the
+ *         calendar maths would otherwise be inlined at every call site
+ */
+library BillingLib {
+    uint256 public constant MAX_GRACE_PERIOD_DAYS = 28;
+    uint256 public constant BASIS_POINTS = 10_000;
+
+    /// @dev Mirrors RentFlowCore.RentPaymentItemized so it appears in the core ABI
+    event RentPaymentItemized(
+        uint256 indexed leaseId,
+        uint256 indexed period,
+        uint256 rentAmount,
+        uint256 lateFee,
+        uint256 dueDate
+    );
+    /// @dev Mirrors RentFlowCore.RentOverdue
+    event RentOverdue(uint256 indexed leaseId, uint256 daysPastDue);
+    /// @dev Mirrors RentFlowCore.AutopayEnabled
+    event AutopayEnabled(uint256 indexed leaseId, address indexed tenant, uint256 maxPerPeriod);
+    /// @dev Mirrors RentFlowCore.AutopayDisabled
+    event AutopayDisabled(uint256 indexed leaseId, address indexed tenant);
+
+    // ============ Payments ============
+
+    /**
+     * @notice Apply `amount` of rent to the oldest open periods first
+     * @dev Updates the lease's counters; the caller moves the tokens
+     * @return fees Late fees charged on top of `amount`
+     */
+    function collect(
+        Lease storage lease,
+        mapping(uint256 => BillingPeriod) storage periods,
+        RentTier[] storage tiers,
+        LateFeeTerms storage terms,
+        uint256 leaseId,
+        uint256 amount
+    ) external returns (uint256 fees) {
+        uint256 period = lease.periodsPaid;
+        uint256 remaining = amount;
+
+        while (remaining > 0 && period < lease.periodCount) {
+            BillingPeriod storage bp = periods[period];
+            if (bp.waived) {
+                period++;
+                continue;
+            }
+
+            uint256 dueDate = DateTimeLib.dueDate(lease.startDate, lease.rentDueDay, period);
+            if (bp.amountDue == 0) {
+                bp.dueDate = dueDate;
+                bp.amountDue = rentForPeriod(tiers, period);
+            }
+
+            uint256 fee;
+            // Charged once per period, by the first payment that lands late
+            if (bp.lateFee == 0) {
+                fee = lateFee(terms, bp.amountDue, dueDate);
+                bp.lateFee = fee;
+                fees += fee;
+            }
+
+            uint256 applied = bp.amountDue - bp.amountPaid;
+            if (applied > remaining) applied = remaining;
+            bp.amountPaid += applied;
+            remaining -= applied;
+
+            emit RentPaymentItemized(leaseId, period, applied, fee, dueDate);
+
+            if (bp.amountPaid == bp.amountDue) period++;
+        }
+        require(remaining == 0, "Payment exceeds remaining rent");
+        while (period < lease.periodCount && periods[period].waived) period++;
+
+        lease.periodsPaid = period;
+        lease.lastPaymentDate = block.timestamp;
+        lease.totalPaid += amount;
+    }
+
+    /// @notice Balance left on the oldest open period
+    function currentBalance(
+        Lease storage lease,
+        mapping(uint256 => BillingPeriod) storage periods,
+        RentTier[] storage tiers
+    ) external view returns (uint256) {
+        require(lease.periodsPaid < lease.periodCount, "All rent paid");
+        BillingPeriod memory bp = billingPeriod(lease, periods, tiers, lease.periodsPaid);
+        return bp.amountDue - bp.amountPaid;
+    }
+
+    /// @notice Balance left on the oldest open period, once its due day has begun
+    function dueBalance(
+        Lease storage lease,
+        mapping(uint256 => BillingPeriod) storage periods,
+        RentTier[] storage tiers
+    ) external view returns (uint256) {
+        require(lease.periodsPaid < lease.periodCount, "All rent paid");
+        BillingPeriod memory bp = billingPeriod(lease, periods, tiers, lease.periodsPaid);
+        require(block.timestamp >= bp.dueDate, "Rent not due yet");
+        return bp.amountDue - bp.amountPaid;
+    }
+
+    // ============ Views ============
+
+    /// @notice What a payRent call would charge if mined now
+    function quote(
+        Lease storage lease,
+        mapping(uint256 => BillingPeriod) storage periods,
+        RentTier[] storage tiers,
+        LateFeeTerms storage terms
+    ) external view returns (uint256 period, uint256 rentAmount, uint256 fee, uint256 dueDate) {
+        require(lease.tenant != address(0), "Lease does not exist");
+        require(lease.periodsPaid < lease.periodCount, "All rent paid");
+
+        period = lease.periodsPaid;
+        BillingPeriod memory bp = billingPeriod(lease, periods, tiers, period);
+        rentAmount = bp.amountDue - bp.amountPaid;
+        dueDate = bp.dueDate;
+        fee = bp.lateFee == 0 ? lateFee(terms, bp.amountDue, dueDate) : 0;
+    }
+
+    /// @notice Billing record for one period, with defaults for periods not yet paid into
+    function billingPeriod(
+        Lease storage lease,
+        mapping(uint256 => BillingPeriod) storage periods,
+        RentTier[] storage tiers,
+        uint256 period
+    ) public view returns (BillingPeriod memory bp) {
+        bp = periods[period];
+        bp.dueDate = DateTimeLib.dueDate(lease.startDate, lease.rentDueDay, period);
+        if (bp.amountDue == 0 && !bp.waived) {
+            bp.amountDue = rentForPeriod(tiers, period);
+        }
+    }
+
+    /**
+     * @notice Unpaid rent for every period whose due day has ended
+     * @dev Periods falling due during a pause are excluded; they are waived on resume
+     */
+    function arrears(
+        Lease storage lease,
+        mapping(uint256 => BillingPeriod) storage periods,
+        RentTier[] storage tiers,
+        uint256 pausedAt
+    ) external view returns (uint256 balance, uint256 periodsInArrears) {
+        for (uint256 period = lease.periodsPaid; period < lease.periodCount; period++) {
+            BillingPeriod memory bp = billingPeriod(lease, periods, tiers, period);
+            if (block.timestamp < bp.dueDate + 1 days) break;
+            if (lease.status == LeaseStatus.Paused && bp.dueDate >= pausedAt) break;
+
+            balance += bp.amountDue - bp.amountPaid;
+            periodsInArrears++;
+        }
+    }
+
+    function rentForPeriod(RentTier[] storage tiers, uint256 period) public view returns (uint256) {
+        uint256 i = tiers.length - 1;
+        while (tiers[i].fromPeriod > period) i--;
+        return tiers[i].monthlyRent;
+    }
+
+    // ============ Late Fees ============
+
+    function validateLateFee(LateFeeTerms memory terms) internal pure {
+        require(terms.gracePeriodDays <= MAX_GRACE_PERIOD_DAYS, "Grace period too long");
+        if (terms.feeType == LateFeeType.None) {
+            require(terms.amount == 0 && terms.cap == 0, "Invalid late fee terms");
+        } else {
+            require(terms.amount > 0, "Late fee must be positive");
+            if (terms.feeType == LateFeeType.Percentage) {
+                require(terms.amount <= BASIS_POINTS, "Late fee exceeds 100%");
+            }
+        }
+    }
+
+    /// @notice Fee applies once the whole due day plus the grace period has passed
+    function lateFee(LateFeeTerms memory terms, uint256 rentAmount, uint256 dueDate) internal view returns (uint256) {
+        if (terms.feeType == LateFeeType.None) return 0;
+        if (block.timestamp < graceDeadline(terms, dueDate)) return 0;
+
+        uint256 fee = terms.feeType == LateFeeType.Flat
+            ? terms.amount
+            : (rentAmount * terms.amount) / BASIS_POINTS;
+
+        if (terms.cap > 0 && fee > terms.cap) {
+            fee = terms.cap;
+        }
+        return fee;
+    }
+
+    /// @notice Emit RentOverdue once the oldest unpaid period is past its grace period
+    function checkOverdue(Lease storage lease, LateFeeTerms storage terms, uint256 leaseId) external {
+        require(lease.status == LeaseStatus.Active, "Lease not active");
+        if (lease.periodsPaid >= lease.periodCount) return;
+
+        uint256 dueDate = DateTimeLib.dueDate(lease.startDate, lease.rentDueDay, lease.periodsPaid);
+        if (block.timestamp >= graceDeadline(terms, dueDate)) {
+            emit RentOverdue(leaseId, (block.timestamp - dueDate) / 1 days);
+        }
+    }
+
+    function graceDeadline(LateFeeTerms memory terms, uint256 dueDate) internal pure returns (uint256) {
+        return dueDate + (terms.gracePeriodDays + 1) * 1 days;
+    }
+
+    // ============ Autopay ============
+
+    /// @param caps RentFlowCore's autopayCaps; zero means autopay is off
+    function enableAutopay(
+        Lease storage lease,
+        mapping(uint256 => uint256) storage caps,
+        uint256 leaseId,
+        uint256 maxPerPeriod
+    ) external {
+        require(msg.sender == lease.tenant, "Not tenant");
+        require(lease.status == LeaseStatus.Active, "Lease not active");
+        require(maxPerPeriod > 0, "Cap must be positive");
+
+        caps[leaseId] = maxPerPeriod;
+
+        emit AutopayEnabled(leaseId, msg.sender, maxPerPeriod);
+    }
+
+    function disableAutopay(Lease storage lease, mapping(uint256 => uint256) storage caps, uint256 leaseId) external {
+        require(msg.sender == lease.tenant, "Not tenant");
+        require(caps[leaseId] > 0, "Autopay not enabled");
+
+        delete caps[leaseId];
+
+        emit AutopayDisabled(leaseId, msg.sender);
+    }
+}
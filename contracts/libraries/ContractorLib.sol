@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./RentFlowTypes.sol";
+
+/**
+ * @title ContractorLib
+ * @notice Contractor registry for RentFlowCore: self-registered profiles,
+ *         job history and ratings from completed jobs
+ * @dev Linked into RentFlowCore like BillingLib; the per-owner allowlist
+ *      stays in RentFlowCore, which checks it on every approval
+ */
+library ContractorLib {
+    uint256 public constant MAX_SERVICE_AREAS = 20;
+    uint256 public constant MAX_RATING = 5;
+
+    // Mirrors of the RentFlowCore events, so they appear in the core ABI
+    event ContractorRegistered(
+        address indexed contractor,
+        uint256 trades,
+        bytes32 licenseHash,
+        bytes32 insuranceHash
+    );
+    event ContractorRated(address indexed contractor, uint256 indexed requestId, uint256 rating);
+
+    /**
+     * @notice Create or update the caller's profile; job history and ratings carry over
+     * @param categoryCount Number of MaintenanceCategory values, bounding `trades`
+     */
+    function register(
+        Contractor storage contractor,
+        uint256 trades,
+        bytes32[] calldata serviceAreas,
+        bytes32 licenseHash,
+        bytes32 insuranceHash,
+        uint256 categoryCount
+    ) external {
+        require(trades != 0, "Trades required");
+        require(trades >> categoryCount == 0, "Unknown maintenance category");
+        require(serviceAreas.length > 0 && serviceAreas.length <= MAX_SERVICE_AREAS, "Invalid service areas");
+        require(licenseHash != bytes32(0) || insuranceHash != bytes32(0), "Vetting document required");
+
+        contractor.trades = trades;
+        contractor.serviceAreas = serviceAreas;
+        contractor.licenseHash = licenseHash;
+        contractor.insuranceHash = insuranceHash;
+
+        emit ContractorRegistered(msg.sender, trades, licenseHash, insuranceHash);
+    }
+
+    /**
+     * @notice Rate the contractor on a paid job, once per request
+     * @param isParty Caller is the property's owner or a current tenant
+     */
+    function rate(
+        MaintenanceRequest storage request,
+        Contractor storage contractor,
+        mapping(uint256 => uint256) storage ratings,
+        uint256 requestId,
+        uint256 rating,
+        bool isParty
+    ) external {
+        require(request.status == MaintenanceStatus.Completed, "Job not completed");
+        require(isParty, "Not authorized for this property");
+        require(rating > 0 && rating <= MAX_RATING, "Rating must be 1-5");
+        require(ratings[requestId] == 0, "Job already rated");
+
+        ratings[requestId] = rating;
+        contractor.ratingTotal += rating;
+        contractor.ratingCount++;
+
+        emit ContractorRated(request.contractor, requestId, rating);
+    }
+
+    /// @notice Called when a job is paid, so history only counts finished work
+    function recordJob(Contractor storage contractor, uint256 amount) internal {
+        contractor.jobsCompleted++;
+        contractor.totalEarned += amount;
+    }
+
+    function covers(Contractor storage contractor, MaintenanceCategory category) internal view returns (bool) {
+        return contractor.trades & (1 << uint256(category)) != 0;
+    }
+}
@@ -0,0 +1,96 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title DateTimeLib
+ * @notice Gregorian calendar helpers for rent due dates (UTC)
+ * @dev Day-count conversion follows the Fliegel & Van Flandern algorithm
+ *
+ * DECISION: Compute due dates from the calendar instead of 30-day steps
+ * REASON: Rent is due on a day of the month; 30-day steps drift by up
+ *         to a week per year against the lease's rentDueDay
+ */
+library DateTimeLib {
+    uint256 internal constant SECONDS_PER_DAY = 1 days;
+    int256 private constant OFFSET19700101 = 2440588;
+
+    /// @notice Days since 1970-01-01 for a calendar date
+    function daysFromDate(uint256 year, uint256 month, uint256 day) internal pure returns (uint256) {
+        int256 y = int256(year);
+        int256 m = int256(month);
+        int256 d = int256(day);
+
+        int256 numDays = d
+            - 32075
+            + (1461 * (y + 4800 + (m - 14) / 12)) / 4
+            + (367 * (m - 2 - ((m - 14) / 12) * 12)) / 12
+            - (3 * ((y + 4900 + (m - 14) / 12) / 100)) / 4
+            - OFFSET19700101;
+
+        return uint256(numDays);
+    }
+
+    /// @notice Calendar date for a count of days since 1970-01-01
+    function daysToDate(uint256 numDays) internal pure returns (uint256 year, uint256 month, uint256 day) {
+        int256 l = int256(numDays) + 68569 + OFFSET19700101;
+        int256 n = (4 * l) / 146097;
+        l = l - (146097 * n + 3) / 4;
+        int256 y = (4000 * (l + 1)) / 1461001;
+        l = l - (1461 * y) / 4 + 31;
+        int256 m = (80 * l) / 2447;
+        int256 d = l - (2447 * m) / 80;
+        l = m / 11;
+        m = m + 2 - 12 * l;
+        y = 100 * (n - 49) + y + l;
+
+        return (uint256(y), uint256(m), uint256(d));
+    }
+
+    function timestampToDate(uint256 timestamp) internal pure returns (uint256 year, uint256 month, uint256 day) {
+        return daysToDate(timestamp / SECONDS_PER_DAY);
+    }
+
+    /// @notice Midnight UTC at the start of the given date
+    function timestampFromDate(uint256 year, uint256 month, uint256 day) internal pure returns (uint256) {
+        return daysFromDate(year, month, day) * SECONDS_PER_DAY;
+    }
+
+    function isLeapYear(uint256 year) internal pure returns (bool) {
+        return (year % 4 == 0 && year % 100 != 0) || year % 400 == 0;
+    }
+
+    function daysInMonth(uint256 year, uint256 month) internal pure returns (uint256) {
+        if (month == 2) return isLeapYear(year) ? 29 : 28;
+        if (month == 4 || month == 6 || month == 9 || month == 11) return 30;
+        return 31;
+    }
+
+    /**
+     * @notice Same time of day `months` calendar months later
+     * @dev Clamps to the last day of shorter months (Jan 31 + 1 month = Feb 28/29)
+     */
+    function addMonths(uint256 timestamp, uint256 months) internal pure returns (uint256) {
+        (uint256 year, uint256 month, uint256 day) = timestampToDate(timestamp);
+
+        uint256 monthIndex = (month - 1) + months;
+        year += monthIndex / 12;
+        month = (monthIndex % 12) + 1;
+
+        uint256 lastDay = daysInMonth(year, month);
+        if (day > lastDay) day = lastDay;
+
+        return timestampFromDate(year, month, day) + (timestamp % SECONDS_PER_DAY);
+    }
+
+    /**
+     * @notice Due date (midnight UTC) of billing period `period`, counting from 0
+     * @dev Period 0 falls on the first `dueDay` on or after `startDate`.
+     *      `dueDay` is at most 28, so every month contains it.
+     */
+    function dueDate(uint256 startDate, uint256 dueDay, uint256 period) internal pure returns (uint256) {
+        (uint256 year, uint256 month, uint256 day) = timestampToDate(startDate);
+
+        uint256 monthIndex = (month - 1) + period + (day > dueDay ? 1 : 0);
+        return timestampFromDate(year + monthIndex / 12, (monthIndex % 12) + 1, dueDay);
+    }
+}
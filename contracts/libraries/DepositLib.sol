@@ -0,0 +1,218 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./RentFlowTypes.sol";
+
+/**
+ * @title DepositLib
+ * @notice Security deposit settlement for RentFlowCore: itemized
+ *         deductions, a tenant dispute window and arbiter resolution
+ * @dev Linked into RentFlowCore like BillingLib. RentFlowCore writes the
+ *      proposed items to storage and checks the arbiter role; the tenant
+ *      checks use msg.sender, which DELEGATECALL preserves.
+ *
+ * DECISION: Money moves as soon as each part is decided
+ * REASON: The unclaimed remainder and accepted items are not in question,
+ *         so neither party waits on a dispute about another item
+ */
+library DepositLib {
+    uint256 public constant DISPUTE_WINDOW = 7 days;
+    uint256 public constant MAX_ITEMS = 20;
+
+    // Mirrors of the RentFlowCore events, so they appear in the core ABI
+    event DepositDeductionsProposed(
+        uint256 indexed leaseId,
+        uint256 itemCount,
+        uint256 totalDeduction,
+        uint256 disputeDeadline
+    );
+    event DepositDeductionItemized(
+        uint256 indexed leaseId,
+        uint256 indexed itemIndex,
+        DeductionCategory category,
+        uint256 amount,
+        bytes32 evidenceHash
+    );
+    event DepositDeductionAccepted(uint256 indexed leaseId, uint256 indexed itemIndex, uint256 amount);
+    event DepositDeductionDisputed(uint256 indexed leaseId, uint256 indexed itemIndex, uint256 amount);
+    event DepositDisputeResolved(
+        uint256 indexed leaseId,
+        uint256 indexed itemIndex,
+        uint256 awardedToOwner,
+        uint256 returnedToTenant,
+        address indexed arbiter
+    );
+    event SecurityDepositReturned(uint256 indexed leaseId, address tenant, uint256 amount);
+
+    /**
+     * @notice Store `proposed` as the lease's deduction items and open the settlement
+     * @dev Refunds the unclaimed remainder straight away; with no items the
+     *      whole deposit goes back and the settlement closes
+     */
+    function propose(
+        Lease storage lease,
+        DepositSettlement storage settlement,
+        DepositDeduction[] storage items,
+        DeductionItem[] calldata proposed,
+        IERC20 token,
+        uint256 leaseId
+    ) external {
+        require(
+            lease.status == LeaseStatus.Completed ||
+                lease.status == LeaseStatus.Terminated ||
+                block.timestamp > lease.endDate,
+            "Lease not completed"
+        );
+        require(settlement.disputeDeadline == 0 && !settlement.settled, "Deductions already proposed");
+        require(proposed.length <= MAX_ITEMS, "Too many deduction items");
+
+        for (uint256 i = 0; i < proposed.length; i++) {
+            items.push(DepositDeduction({
+                category: proposed[i].category,
+                amount: proposed[i].amount,
+                evidenceHash: proposed[i].evidenceHash,
+                status: DeductionStatus.Proposed,
+                awardedToOwner: 0
+            }));
+        }
+
+        uint256 total;
+        for (uint256 i = 0; i < items.length; i++) {
+            require(items[i].amount > 0, "Deduction must be positive");
+            require(items[i].evidenceHash != bytes32(0), "Evidence required");
+            total += items[i].amount;
+            emit DepositDeductionItemized(leaseId, i, items[i].category, items[i].amount, items[i].evidenceHash);
+        }
+        require(total <= lease.securityDepositHeld, "Deduction exceeds deposit");
+
+        settlement.disputeDeadline = block.timestamp + DISPUTE_WINDOW;
+        settlement.pendingItems = items.length;
+
+        emit DepositDeductionsProposed(leaseId, items.length, total, settlement.disputeDeadline);
+
+        _payTenant(lease, settlement, token, lease.securityDepositHeld - total);
+        if (items.length == 0) _finalize(lease, settlement, leaseId);
+    }
+
+    /// @notice Tenant accepts or disputes one item within the window
+    function respond(
+        Lease storage lease,
+        DepositSettlement storage settlement,
+        DepositDeduction storage item,
+        IERC20 token,
+        address owner,
+        uint256 leaseId,
+        uint256 itemIndex,
+        bool accept
+    ) external {
+        require(msg.sender == lease.tenant, "Not tenant");
+        require(block.timestamp <= settlement.disputeDeadline, "Dispute window closed");
+        require(item.status == DeductionStatus.Proposed, "Item already answered");
+
+        if (accept) {
+            _accept(lease, settlement, item, token, owner, leaseId, itemIndex);
+            if (settlement.pendingItems == 0) _finalize(lease, settlement, leaseId);
+        } else {
+            item.status = DeductionStatus.Disputed;
+            emit DepositDeductionDisputed(leaseId, itemIndex, item.amount);
+        }
+    }
+
+    /**
+     * @notice Arbiter splits a disputed item between owner and tenant
+     * @dev Closes the settlement if this was the last open item and the window has passed
+     */
+    function resolve(
+        Lease storage lease,
+        DepositSettlement storage settlement,
+        DepositDeduction[] storage items,
+        IERC20 token,
+        address owner,
+        uint256 leaseId,
+        uint256 itemIndex,
+        uint256 awardedToOwner
+    ) external {
+        DepositDeduction storage item = items[itemIndex];
+        require(item.status == DeductionStatus.Disputed, "Item not disputed");
+        require(awardedToOwner <= item.amount, "Award exceeds deduction");
+
+        item.status = DeductionStatus.Resolved;
+        item.awardedToOwner = awardedToOwner;
+        settlement.pendingItems--;
+
+        _payOwner(lease, token, owner, awardedToOwner);
+        _payTenant(lease, settlement, token, item.amount - awardedToOwner);
+
+        emit DepositDisputeResolved(leaseId, itemIndex, awardedToOwner, item.amount - awardedToOwner, msg.sender);
+
+        release(lease, settlement, items, token, owner, leaseId);
+    }
+
+    /**
+     * @notice After the window, treat unanswered items as accepted; close
+     *         the settlement once every item is decided
+     */
+    function release(
+        Lease storage lease,
+        DepositSettlement storage settlement,
+        DepositDeduction[] storage items,
+        IERC20 token,
+        address owner,
+        uint256 leaseId
+    ) public {
+        require(settlement.disputeDeadline != 0 && !settlement.settled, "No open settlement");
+
+        if (block.timestamp > settlement.disputeDeadline) {
+            for (uint256 i = 0; i < items.length; i++) {
+                if (items[i].status == DeductionStatus.Proposed) {
+                    _accept(lease, settlement, items[i], token, owner, leaseId, i);
+                }
+            }
+        }
+        if (settlement.pendingItems == 0) _finalize(lease, settlement, leaseId);
+    }
+
+    function _accept(
+        Lease storage lease,
+        DepositSettlement storage settlement,
+        DepositDeduction storage item,
+        IERC20 token,
+        address owner,
+        uint256 leaseId,
+        uint256 itemIndex
+    ) private {
+        item.status = DeductionStatus.Accepted;
+        item.awardedToOwner = item.amount;
+        settlement.pendingItems--;
+
+        _payOwner(lease, token, owner, item.amount);
+
+        emit DepositDeductionAccepted(leaseId, itemIndex, item.amount);
+    }
+
+    function _payOwner(Lease storage lease, IERC20 token, address owner, uint256 amount) private {
+        if (amount == 0) return;
+        lease.securityDepositHeld -= amount;
+        require(token.transfer(owner, amount), "Deduction transfer failed");
+    }
+
+    function _payTenant(Lease storage lease, DepositSettlement storage settlement, IERC20 token, uint256 amount)
+        private
+    {
+        if (amount == 0) return;
+        lease.securityDepositHeld -= amount;
+        settlement.returnedToTenant += amount;
+        require(token.transfer(lease.tenant, amount), "Deposit return failed");
+    }
+
+    /// @dev SecurityDepositReturned fires once per lease, with everything the tenant got back
+    function _finalize(Lease storage lease, DepositSettlement storage settlement, uint256 leaseId) private {
+        settlement.settled = true;
+        if (lease.status != LeaseStatus.Terminated) {
+            lease.status = LeaseStatus.Completed;
+        }
+
+        emit SecurityDepositReturned(leaseId, lease.tenant, settlement.returnedToTenant);
+    }
+}
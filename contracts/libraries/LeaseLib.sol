@@ -0,0 +1,336 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./DateTimeLib.sol";
+import "./RentFlowTypes.sol";
+
+/**
+ * @title LeaseLib
+ * @notice Lease lifecycle for RentFlowCore: opening, pause and resume,
+ *         early and default termination, and renewal
+ * @dev Linked into RentFlowCore like BillingLib. RentFlowCore passes in the
+ *      property owner; party checks compare it and the tenant to msg.sender,
+ *      which DELEGATECALL preserves.
+ */
+library LeaseLib {
+    // Mirrors of the RentFlowCore events, so they appear in the core ABI
+    event LeasePaused(uint256 indexed leaseId, uint256 pausedAt);
+    event LeaseResumed(uint256 indexed leaseId, uint256 periodsWaived);
+    event TerminationProposed(uint256 indexed leaseId, address indexed proposer, uint256 fee);
+    event LeaseTerminated(uint256 indexed leaseId, TerminationReason reason, uint256 fee);
+    event RenewalProposed(
+        uint256 indexed leaseId,
+        address indexed proposer,
+        uint256 additionalMonths,
+        uint256 monthlyRent
+    );
+    event LeaseRenewed(uint256 indexed leaseId, uint256 newEndDate, uint256 monthlyRent);
+
+    // ============ Tenancy ============
+
+    /**
+     * @notice Record when `tenant`'s tenancy at `propertyId`, and at its
+     *         building if it is a unit, ends, so RentFlowCore checks it in O(1)
+     * @dev Rescans the tenant's leases; RentFlowCore calls this whenever a
+     *      lease opens, renews or terminates, which is far rarer than the
+     *      checks. A paused lease still lives in the unit, e.g. during major
+     *      repairs. A tenant of any unit counts as a tenant of its building,
+     *      whose requests cover the common areas they share
+     */
+    function indexTenancy(
+        mapping(uint256 => mapping(address => uint256)) storage tenancyEnds,
+        mapping(uint256 => Lease) storage leases,
+        mapping(uint256 => UnitInfo) storage unitInfo,
+        uint256[] storage leaseIds,
+        uint256 propertyId,
+        address tenant
+    ) external {
+        tenancyEnds[propertyId][tenant] = _tenancyEnd(leases, unitInfo, leaseIds, propertyId);
+
+        UnitInfo storage unit = unitInfo[propertyId];
+        if (unit.isUnit) {
+            tenancyEnds[unit.buildingId][tenant] = _tenancyEnd(leases, unitInfo, leaseIds, unit.buildingId);
+        }
+    }
+
+    // ============ Opening ============
+
+    /**
+     * @notice Validate the terms and write a new Active lease
+     * @dev RentFlowCore stores the late fee terms and collects the deposit
+     */
+    function open(
+        Lease storage lease,
+        RentTier[] storage tiers,
+        uint256 propertyId,
+        address tenant,
+        uint256 startDate,
+        uint256 durationMonths,
+        uint256 rentDueDay,
+        uint256 monthlyRent,
+        uint256 securityDeposit
+    ) external {
+        require(tenant != address(0), "Invalid tenant address");
+        // A lease may start today; anything before the last 24h is in the past
+        require(startDate + 1 days > block.timestamp, "Start date must be in future");
+        require(durationMonths > 0 && durationMonths <= 36, "Duration must be 1-36 months");
+        require(rentDueDay >= 1 && rentDueDay <= 28, "Rent due day must be 1-28");
+
+        lease.propertyId = propertyId;
+        lease.tenant = tenant;
+        lease.startDate = startDate;
+        lease.endDate = DateTimeLib.addMonths(startDate, durationMonths);
+        lease.rentDueDay = rentDueDay;
+        lease.status = LeaseStatus.Active;
+        lease.securityDepositHeld = securityDeposit;
+        lease.periodCount = durationMonths;
+        tiers.push(RentTier({ fromPeriod: 0, monthlyRent: monthlyRent }));
+    }
+
+    // ============ Pause ============
+
+    function pause(
+        Lease storage lease,
+        mapping(uint256 => uint256) storage pausedAt,
+        uint256 leaseId,
+        address owner
+    ) external {
+        require(msg.sender == owner, "Not property owner");
+        require(lease.status == LeaseStatus.Active, "Lease not active");
+
+        lease.status = LeaseStatus.Paused;
+        pausedAt[leaseId] = block.timestamp;
+
+        emit LeasePaused(leaseId, block.timestamp);
+    }
+
+    /// @notice Resume, waiving every period that fell due during the pause
+    function resume(
+        Lease storage lease,
+        mapping(uint256 => BillingPeriod) storage periods,
+        mapping(uint256 => uint256) storage pausedAt,
+        uint256 leaseId,
+        address owner
+    ) external {
+        require(msg.sender == owner, "Not property owner");
+        require(lease.status == LeaseStatus.Paused, "Lease not paused");
+
+        uint256 waivedCount = _waivePausedPeriods(lease, periods, pausedAt[leaseId]);
+
+        lease.status = LeaseStatus.Active;
+        delete pausedAt[leaseId];
+
+        emit LeaseResumed(leaseId, waivedCount);
+    }
+
+    // ============ Termination ============
+
+    function proposeTermination(
+        Lease storage lease,
+        mapping(uint256 => TerminationProposal) storage proposals,
+        uint256 leaseId,
+        address owner,
+        uint256 fee
+    ) external {
+        _requireParty(lease, owner);
+        require(_isOngoing(lease), "Lease not active");
+
+        proposals[leaseId] = TerminationProposal({ proposer: msg.sender, fee: fee });
+
+        emit TerminationProposed(leaseId, msg.sender, fee);
+    }
+
+    /**
+     * @notice Accept the other party's offer; the tenant pays the agreed fee to the owner
+     * @param expectedFee The fee the accepter agreed to; a re-proposal since then reverts
+     *        rather than being accepted on terms the accepter never saw
+     */
+    function acceptTermination(
+        Lease storage lease,
+        mapping(uint256 => TerminationProposal) storage proposals,
+        mapping(uint256 => RenewalProposal) storage renewals,
+        mapping(uint256 => uint256) storage pausedAt,
+        IERC20 token,
+        uint256 leaseId,
+        address owner,
+        uint256 expectedFee
+    ) external {
+        TerminationProposal memory proposal = proposals[leaseId];
+        require(proposal.proposer != address(0), "No termination proposed");
+        require(proposal.fee == expectedFee, "Termination terms changed");
+        _requireParty(lease, owner);
+        require(msg.sender != proposal.proposer, "Proposer cannot accept");
+        require(_isOngoing(lease), "Lease not active");
+
+        delete proposals[leaseId];
+        _terminate(lease, renewals, pausedAt, leaseId, TerminationReason.Mutual, proposal.fee);
+
+        if (proposal.fee > 0) {
+            require(token.transferFrom(lease.tenant, owner, proposal.fee), "Termination fee transfer failed");
+        }
+    }
+
+    /**
+     * @notice End a lease whose tenant has fallen too far behind
+     * @param inDefault RentFlowCore's arrears check against DEFAULT_ARREARS_PERIODS
+     */
+    function terminateForDefault(
+        Lease storage lease,
+        mapping(uint256 => RenewalProposal) storage renewals,
+        mapping(uint256 => uint256) storage pausedAt,
+        uint256 leaseId,
+        address owner,
+        bool inDefault
+    ) external {
+        require(msg.sender == owner, "Not property owner");
+        require(lease.status == LeaseStatus.Active, "Lease not active");
+        require(inDefault, "Tenant not in default");
+
+        _terminate(lease, renewals, pausedAt, leaseId, TerminationReason.Default, 0);
+    }
+
+    // ============ Renewal ============
+
+    function proposeRenewal(
+        Lease storage lease,
+        mapping(uint256 => RenewalProposal) storage renewals,
+        uint256 leaseId,
+        address owner,
+        uint256 additionalMonths,
+        uint256 monthlyRent
+    ) external {
+        _requireParty(lease, owner);
+        require(_isOngoing(lease), "Lease not active");
+        require(additionalMonths > 0 && additionalMonths <= 36, "Duration must be 1-36 months");
+        require(monthlyRent > 0, "Rent must be positive");
+
+        renewals[leaseId] = RenewalProposal({
+            proposer: msg.sender,
+            additionalMonths: additionalMonths,
+            monthlyRent: monthlyRent
+        });
+
+        emit RenewalProposed(leaseId, msg.sender, additionalMonths, monthlyRent);
+    }
+
+    /**
+     * @notice Add the proposed months to the end of the lease at the proposed rent
+     * @dev As with acceptTermination, the accepter passes the terms they saw
+     */
+    function acceptRenewal(
+        Lease storage lease,
+        RentTier[] storage tiers,
+        mapping(uint256 => RenewalProposal) storage renewals,
+        uint256 leaseId,
+        address owner,
+        uint256 additionalMonths,
+        uint256 monthlyRent
+    ) external {
+        RenewalProposal memory proposal = renewals[leaseId];
+        require(proposal.proposer != address(0), "No renewal proposed");
+        require(
+            proposal.additionalMonths == additionalMonths && proposal.monthlyRent == monthlyRent,
+            "Renewal terms changed"
+        );
+        _requireParty(lease, owner);
+        require(msg.sender != proposal.proposer, "Proposer cannot accept");
+        require(_isOngoing(lease), "Lease not active");
+
+        delete renewals[leaseId];
+
+        tiers.push(RentTier({ fromPeriod: lease.periodCount, monthlyRent: proposal.monthlyRent }));
+        lease.periodCount += proposal.additionalMonths;
+        lease.endDate = DateTimeLib.addMonths(lease.endDate, proposal.additionalMonths);
+
+        emit LeaseRenewed(leaseId, lease.endDate, proposal.monthlyRent);
+    }
+
+    // ============ Internal ============
+
+    /**
+     * @dev The schedule is cut back to the periods already due, so
+     *      getArrears keeps reporting what was owed when the lease ended
+     */
+    function _terminate(
+        Lease storage lease,
+        mapping(uint256 => RenewalProposal) storage renewals,
+        mapping(uint256 => uint256) storage pausedAt,
+        uint256 leaseId,
+        TerminationReason reason,
+        uint256 fee
+    ) private {
+        uint256 periodsDue = lease.periodsPaid;
+        while (
+            periodsDue < lease.periodCount &&
+            DateTimeLib.dueDate(lease.startDate, lease.rentDueDay, periodsDue) <= block.timestamp
+        ) {
+            periodsDue++;
+        }
+
+        lease.periodCount = periodsDue;
+        lease.endDate = block.timestamp;
+        lease.status = LeaseStatus.Terminated;
+        delete pausedAt[leaseId];
+        delete renewals[leaseId];
+
+        emit LeaseTerminated(leaseId, reason, fee);
+    }
+
+    /**
+     * @dev Waive every period that fell due between `pausedAt` and now,
+     *      then move past periods that are settled or waived
+     */
+    function _waivePausedPeriods(
+        Lease storage lease,
+        mapping(uint256 => BillingPeriod) storage periods,
+        uint256 pausedAt
+    ) private returns (uint256 waivedCount) {
+        for (uint256 period = lease.periodsPaid; period < lease.periodCount; period++) {
+            uint256 dueDate = DateTimeLib.dueDate(lease.startDate, lease.rentDueDay, period);
+            if (dueDate >= block.timestamp) break;
+            if (dueDate < pausedAt) continue;
+
+            BillingPeriod storage bp = periods[period];
+            bp.dueDate = dueDate;
+            bp.amountDue = bp.amountPaid;
+            bp.waived = true;
+            waivedCount++;
+        }
+
+        uint256 next = lease.periodsPaid;
+        while (next < lease.periodCount && _isSettled(periods[next])) next++;
+        lease.periodsPaid = next;
+    }
+
+    function _isSettled(BillingPeriod storage bp) private view returns (bool) {
+        return bp.waived || (bp.amountDue > 0 && bp.amountPaid == bp.amountDue);
+    }
+
+    /// @dev Latest end date among the live leases in `leaseIds` at `propertyId` or its units, 0 if none
+    function _tenancyEnd(
+        mapping(uint256 => Lease) storage leases,
+        mapping(uint256 => UnitInfo) storage unitInfo,
+        uint256[] storage leaseIds,
+        uint256 propertyId
+    ) private view returns (uint256 end) {
+        for (uint256 i = 0; i < leaseIds.length; i++) {
+            Lease storage lease = leases[leaseIds[i]];
+            UnitInfo storage unit = unitInfo[lease.propertyId];
+            bool inProperty = lease.propertyId == propertyId || (unit.isUnit && unit.buildingId == propertyId);
+            bool live = lease.status == LeaseStatus.Active || lease.status == LeaseStatus.Paused;
+            if (inProperty && live && lease.endDate > end) {
+                end = lease.endDate;
+            }
+        }
+    }
+
+    function _requireParty(Lease storage lease, address owner) private view {
+        require(msg.sender == lease.tenant || msg.sender == owner, "Not a party to this lease");
+    }
+
+    function _isOngoing(Lease storage lease) private view returns (bool) {
+        return (lease.status == LeaseStatus.Active || lease.status == LeaseStatus.Paused)
+            && block.timestamp <= lease.endDate;
+    }
+}
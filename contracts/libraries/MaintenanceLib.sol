@@ -0,0 +1,323 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./ContractorLib.sol";
+import "./DateTimeLib.sol";
+import "./RentFlowTypes.sol";
+
+/**
+ * @title MaintenanceLib
+ * @notice Maintenance request workflow for RentFlowCore: AI approval
+ *         against the property's policy, contractor progress, sign-off
+ *         and payment release
+ * @dev Linked into RentFlowCore like BillingLib. RentFlowCore checks who the
+ *      caller is relative to the property and passes the result in; the
+ *      contractor checks use msg.sender, which DELEGATECALL preserves.
+ *
+ * DECISION: Enum arguments (category, rejection reason) are written to the
+ *           request by RentFlowCore before it calls in
+ * REASON: Library ABIs name enums by their Solidity type, which ethers
+ *         cannot parse when deploying the library
+ */
+library MaintenanceLib {
+    uint256 public constant DISPUTE_WINDOW = 3 days;
+
+    // Mirrors of the RentFlowCore events, so they appear in the core ABI
+    event MaintenanceRequested(uint256 indexed requestId, uint256 indexed propertyId, uint256 estimatedCost);
+    event ApprovalPolicyUpdated(
+        uint256 indexed propertyId,
+        uint256 autoApprovalLimit,
+        uint256 dailyCap,
+        uint256 monthlyCap,
+        uint256 blockedCategories
+    );
+    event MaintenanceApproved(uint256 indexed requestId, uint256 approvedAmount, address contractor);
+    event MaintenanceEscalated(
+        uint256 indexed requestId,
+        EscalationReason reason,
+        uint256 proposedAmount,
+        address contractor
+    );
+    event MaintenanceRejected(uint256 indexed requestId, RejectionReason reason, address rejectedBy);
+    event MaintenanceAccepted(uint256 indexed requestId, address indexed contractor);
+    event MaintenanceStarted(uint256 indexed requestId, address indexed contractor);
+    event MaintenanceWorkSubmitted(uint256 indexed requestId, bytes32 evidenceHash, uint256 disputeDeadline);
+    event MaintenanceDisputed(uint256 indexed requestId, address indexed disputedBy);
+    event MaintenanceSignedOff(uint256 indexed requestId, address indexed signedOffBy);
+    event MaintenancePaid(uint256 indexed requestId, uint256 amount, address contractor);
+    event MaintenanceFundAdded(uint256 indexed propertyId, uint256 amount);
+
+    // ============ Requests ============
+
+    /// @notice Write a new Pending request; RentFlowCore has checked the requester
+    function open(
+        MaintenanceRequest storage request,
+        uint256 propertyId,
+        string calldata description,
+        uint256 estimatedCost,
+        uint256 requestId
+    ) external {
+        require(bytes(description).length > 0, "Description required");
+        require(estimatedCost > 0, "Estimated cost must be positive");
+
+        request.propertyId = propertyId;
+        request.requestedBy = msg.sender;
+        request.description = description;
+        request.estimatedCost = estimatedCost;
+        request.status = MaintenanceStatus.Pending;
+        request.createdAt = block.timestamp;
+
+        emit MaintenanceRequested(requestId, propertyId, estimatedCost);
+    }
+
+    // ============ Approval ============
+
+    /// @param categoryCount Number of MaintenanceCategory values; higher bits are unknown
+    function setPolicy(
+        ApprovalPolicy storage policy,
+        ApprovalPolicy calldata newPolicy,
+        uint256 propertyId,
+        uint256 categoryCount
+    ) external {
+        require(newPolicy.blockedCategories >> categoryCount == 0, "Unknown maintenance category");
+        require(
+            newPolicy.dailyCap == 0 || newPolicy.monthlyCap == 0 || newPolicy.dailyCap <= newPolicy.monthlyCap,
+            "Daily cap exceeds monthly cap"
+        );
+
+        policy.autoApprovalLimit = newPolicy.autoApprovalLimit;
+        policy.dailyCap = newPolicy.dailyCap;
+        policy.monthlyCap = newPolicy.monthlyCap;
+        policy.blockedCategories = newPolicy.blockedCategories;
+
+        emit ApprovalPolicyUpdated(
+            propertyId,
+            newPolicy.autoApprovalLimit,
+            newPolicy.dailyCap,
+            newPolicy.monthlyCap,
+            newPolicy.blockedCategories
+        );
+    }
+
+    /**
+     * @notice AI approval of a pending request for the category already on it,
+     *         or escalation to the owner if the policy forbids
+     * @dev Only approvals within the policy count towards the AI spend caps
+     */
+    function approveWithinPolicy(
+        MaintenanceRequest storage request,
+        ApprovalPolicy storage policy,
+        mapping(uint256 => uint256) storage dailySpend,
+        mapping(uint256 => uint256) storage monthlySpend,
+        uint256 amount,
+        address contractor,
+        uint256 requestId
+    ) external {
+        require(request.status == MaintenanceStatus.Pending, "Request not pending");
+        require(amount > 0, "Approved amount must be positive");
+        require(contractor != address(0), "Invalid contractor address");
+        request.approvedAmount = amount;
+        request.contractor = contractor;
+
+        (uint256 day, uint256 month) = spendPeriods();
+
+        bool withinPolicy = true;
+        EscalationReason reason;
+        if (policy.blockedCategories & (1 << uint256(request.category)) != 0) {
+            (withinPolicy, reason) = (false, EscalationReason.CategoryBlocked);
+        } else if (amount > policy.autoApprovalLimit) {
+            (withinPolicy, reason) = (false, EscalationReason.AboveAutoApprovalLimit);
+        } else if (policy.dailyCap > 0 && dailySpend[day] + amount > policy.dailyCap) {
+            (withinPolicy, reason) = (false, EscalationReason.DailyCapExceeded);
+        } else if (policy.monthlyCap > 0 && monthlySpend[month] + amount > policy.monthlyCap) {
+            (withinPolicy, reason) = (false, EscalationReason.MonthlyCapExceeded);
+        }
+
+        if (!withinPolicy) {
+            request.status = MaintenanceStatus.AwaitingOwnerApproval;
+            emit MaintenanceEscalated(requestId, reason, amount, request.contractor);
+            return;
+        }
+
+        dailySpend[day] += amount;
+        monthlySpend[month] += amount;
+        request.status = MaintenanceStatus.Approved;
+
+        emit MaintenanceApproved(requestId, amount, request.contractor);
+    }
+
+    /**
+     * @notice Owner or manager approval for escalated requests, or any pending one
+     * @dev Not counted against the AI spend caps
+     */
+    function approveAsOwner(
+        MaintenanceRequest storage request,
+        uint256 approvedAmount,
+        address contractor,
+        uint256 requestId
+    ) external {
+        require(
+            request.status == MaintenanceStatus.Pending || request.status == MaintenanceStatus.AwaitingOwnerApproval,
+            "Request not pending"
+        );
+        require(approvedAmount > 0, "Approved amount must be positive");
+        require(contractor != address(0), "Invalid contractor address");
+
+        request.approvedAmount = approvedAmount;
+        request.contractor = contractor;
+        request.status = MaintenanceStatus.Approved;
+
+        emit MaintenanceApproved(requestId, approvedAmount, contractor);
+    }
+
+    /// @notice Spend buckets: days since the epoch, and months since year 0
+    function spendPeriods() public view returns (uint256 day, uint256 month) {
+        (uint256 year, uint256 monthOfYear, ) = DateTimeLib.timestampToDate(block.timestamp);
+        return (block.timestamp / 1 days, year * 12 + monthOfYear - 1);
+    }
+
+    /**
+     * @notice Decline a request with the reason already on it
+     * @dev The AI agent may only reject requests nobody has approved yet; the
+     *      owner may reject until work starts, or to settle a dispute
+     */
+    function reject(MaintenanceRequest storage request, uint256 requestId, bool byAIAgent) external {
+        MaintenanceStatus status = request.status;
+        if (byAIAgent) {
+            require(status == MaintenanceStatus.Pending, "Request not pending");
+        } else {
+            require(
+                status == MaintenanceStatus.Pending ||
+                    status == MaintenanceStatus.AwaitingOwnerApproval ||
+                    status == MaintenanceStatus.Approved ||
+                    status == MaintenanceStatus.Accepted ||
+                    status == MaintenanceStatus.Disputed,
+                "Cannot reject at this stage"
+            );
+        }
+
+        request.status = MaintenanceStatus.Rejected;
+
+        emit MaintenanceRejected(requestId, request.rejectionReason, msg.sender);
+    }
+
+    // ============ Contractor Progress ============
+
+    function accept(MaintenanceRequest storage request, uint256 requestId) external {
+        _requireContractor(request, MaintenanceStatus.Approved);
+        request.status = MaintenanceStatus.Accepted;
+        emit MaintenanceAccepted(requestId, msg.sender);
+    }
+
+    function start(MaintenanceRequest storage request, uint256 requestId) external {
+        _requireContractor(request, MaintenanceStatus.Accepted);
+        request.status = MaintenanceStatus.InProgress;
+        emit MaintenanceStarted(requestId, msg.sender);
+    }
+
+    /**
+     * @notice Mark the work done and open the dispute window
+     * @param evidenceHash Digest of the off-chain evidence (photos, invoice)
+     */
+    function submitCompletion(MaintenanceRequest storage request, uint256 requestId, bytes32 evidenceHash) external {
+        _requireContractor(request, MaintenanceStatus.InProgress);
+        require(evidenceHash != bytes32(0), "Evidence required");
+
+        request.status = MaintenanceStatus.WorkSubmitted;
+        request.evidenceHash = evidenceHash;
+        request.disputeDeadline = block.timestamp + DISPUTE_WINDOW;
+
+        emit MaintenanceWorkSubmitted(requestId, evidenceHash, request.disputeDeadline);
+    }
+
+    // ============ Sign-off and Payment ============
+
+    /// @notice Pull `amount` from the caller into the property's maintenance fund
+    function fund(
+        mapping(uint256 => uint256) storage funds,
+        IERC20 token,
+        uint256 propertyId,
+        uint256 amount
+    ) external {
+        require(amount > 0, "Amount must be positive");
+        require(token.transferFrom(msg.sender, address(this), amount), "Funding transfer failed");
+
+        funds[propertyId] += amount;
+
+        emit MaintenanceFundAdded(propertyId, amount);
+    }
+
+    /**
+     * @notice Confirm the work and pay the contractor
+     * @dev Once disputed, only the owner can sign off
+     */
+    function signOff(
+        MaintenanceRequest storage request,
+        Contractor storage contractor,
+        mapping(uint256 => uint256) storage funds,
+        IERC20 token,
+        uint256 requestId,
+        bool isOwner,
+        bool isTenant
+    ) external {
+        if (request.status == MaintenanceStatus.Disputed) {
+            require(isOwner, "Not property owner");
+        } else {
+            require(request.status == MaintenanceStatus.WorkSubmitted, "Work not submitted");
+            require(isOwner || isTenant, "Not authorized for this property");
+        }
+
+        emit MaintenanceSignedOff(requestId, msg.sender);
+        _release(request, contractor, funds, token, requestId);
+    }
+
+    /// @notice Hold payment while the owner reviews the work
+    function dispute(MaintenanceRequest storage request, uint256 requestId, bool isParty) external {
+        require(request.status == MaintenanceStatus.WorkSubmitted, "Work not submitted");
+        require(block.timestamp <= request.disputeDeadline, "Dispute window closed");
+        require(isParty, "Not authorized for this property");
+
+        request.status = MaintenanceStatus.Disputed;
+
+        emit MaintenanceDisputed(requestId, msg.sender);
+    }
+
+    /// @notice Pay the contractor once the dispute window has passed without sign-off or dispute
+    function releaseAfterWindow(
+        MaintenanceRequest storage request,
+        Contractor storage contractor,
+        mapping(uint256 => uint256) storage funds,
+        IERC20 token,
+        uint256 requestId
+    ) external {
+        require(request.status == MaintenanceStatus.WorkSubmitted, "Work not submitted");
+        require(block.timestamp > request.disputeDeadline, "Dispute window open");
+        _release(request, contractor, funds, token, requestId);
+    }
+
+    function _release(
+        MaintenanceRequest storage request,
+        Contractor storage contractor,
+        mapping(uint256 => uint256) storage funds,
+        IERC20 token,
+        uint256 requestId
+    ) private {
+        uint256 propertyId = request.propertyId;
+        uint256 amount = request.approvedAmount;
+        require(funds[propertyId] >= amount, "Insufficient maintenance funds");
+
+        funds[propertyId] -= amount;
+        request.status = MaintenanceStatus.Completed;
+        ContractorLib.recordJob(contractor, amount);
+
+        require(token.transfer(request.contractor, amount), "Contractor payment failed");
+
+        emit MaintenancePaid(requestId, amount, request.contractor);
+    }
+
+    function _requireContractor(MaintenanceRequest storage request, MaintenanceStatus expected) private view {
+        require(msg.sender == request.contractor, "Not assigned contractor");
+        require(request.status == expected, "Invalid maintenance status");
+    }
+}
@@ -0,0 +1,131 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./RentFlowTypes.sol";
+
+/**
+ * @title PayoutLib
+ * @notice Rent payout splits for RentFlowCore: per-property recipients in
+ *         basis points, a maintenance reserve share and claimable balances
+ * @dev Linked into RentFlowCore like BillingLib. RentFlowCore collects
+ *      each payment first, then this library pays it out or records it
+ *      as claimable.
+ *
+ * DECISION: Push or pull is chosen per property
+ * REASON: Push pays everyone in the tenant's transaction; pull bounds the
+ *         gas of a long split list and means a recipient that cannot
+ *         receive tokens never blocks the tenant's rent
+ */
+library PayoutLib {
+    uint256 public constant BPS = 10_000;
+    uint256 public constant MAX_RECIPIENTS = 10;
+
+    // Mirrors of the RentFlowCore events, so they appear in the core ABI
+    event PayoutSplitsUpdated(
+        uint256 indexed propertyId,
+        uint256 indexed version,
+        uint256 recipientCount,
+        uint256 reserveBps,
+        uint256 ownerBps,
+        bool pullPayments
+    );
+    event PayoutRecipientSet(
+        uint256 indexed propertyId,
+        uint256 indexed version,
+        address indexed recipient,
+        uint256 bps
+    );
+    event RentPayout(uint256 indexed leaseId, address indexed recipient, uint256 amount, bool claimable);
+    event PayoutClaimed(address indexed recipient, address indexed token, uint256 amount);
+
+    /**
+     * @notice Replace a property's splits under a new version
+     * @dev Shares plus the reserve may total at most 100%; the owner keeps the rest
+     */
+    function configure(
+        PayoutConfig storage config,
+        PayoutSplit[] storage splits,
+        PayoutSplit[] calldata newSplits,
+        uint256 reserveBps,
+        bool pullPayments,
+        uint256 propertyId
+    ) external {
+        require(newSplits.length <= MAX_RECIPIENTS, "Too many payout recipients");
+
+        uint256 version = config.version + 1;
+        uint256 allocated = reserveBps;
+        while (splits.length > 0) splits.pop();
+        for (uint256 i = 0; i < newSplits.length; i++) {
+            require(newSplits[i].recipient != address(0), "Invalid payout recipient");
+            require(newSplits[i].bps > 0, "Split must be positive");
+            allocated += newSplits[i].bps;
+            splits.push(newSplits[i]);
+            emit PayoutRecipientSet(propertyId, version, newSplits[i].recipient, newSplits[i].bps);
+        }
+        require(allocated <= BPS, "Splits exceed 100%");
+
+        config.version = version;
+        config.reserveBps = reserveBps;
+        config.pullPayments = pullPayments;
+
+        emit PayoutSplitsUpdated(propertyId, version, newSplits.length, reserveBps, BPS - allocated, pullPayments);
+    }
+
+    /**
+     * @notice Pay a collected `total` out to the property's recipients
+     * @dev The owner's remainder absorbs rounding, so the shares always sum
+     *      to `total`. The reserve stays in the contract; RentFlowCore
+     *      credits it to the maintenance fund.
+     * @return reserve Amount for the property's maintenance fund
+     */
+    function distribute(
+        PayoutConfig storage config,
+        PayoutSplit[] storage splits,
+        mapping(address => uint256) storage claimable,
+        IERC20 token,
+        address owner,
+        uint256 leaseId,
+        uint256 total
+    ) external returns (uint256 reserve) {
+        bool pull = config.pullPayments;
+        reserve = (total * config.reserveBps) / BPS;
+        uint256 remainder = total - reserve;
+
+        for (uint256 i = 0; i < splits.length; i++) {
+            uint256 share = (total * splits[i].bps) / BPS;
+            remainder -= share;
+            _pay(claimable, token, splits[i].recipient, share, leaseId, pull);
+        }
+        _pay(claimable, token, owner, remainder, leaseId, pull);
+    }
+
+    /// @notice Withdraw the caller's accrued pull-payment balance
+    function claim(mapping(address => uint256) storage claimable, IERC20 token) external {
+        uint256 amount = claimable[msg.sender];
+        require(amount > 0, "Nothing to claim");
+
+        claimable[msg.sender] = 0;
+        require(token.transfer(msg.sender, amount), "Payout transfer failed");
+
+        emit PayoutClaimed(msg.sender, address(token), amount);
+    }
+
+    function _pay(
+        mapping(address => uint256) storage claimable,
+        IERC20 token,
+        address recipient,
+        uint256 amount,
+        uint256 leaseId,
+        bool pull
+    ) private {
+        if (amount == 0) return;
+
+        emit RentPayout(leaseId, recipient, amount, pull);
+        if (pull) {
+            claimable[recipient] += amount;
+        } else {
+            require(token.transfer(recipient, amount), "Payout transfer failed");
+        }
+    }
+}
@@ -0,0 +1,114 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./RentFlowTypes.sol";
+
+/**
+ * @title PropertyLib
+ * @notice Property registration for RentFlowCore: standalone properties,
+ *         units within a building, and the content hash of each property's
+ *         off-chain catalog entry
+ * @dev Linked into RentFlowCore like BillingLib; RentFlowCore assigns IDs and
+ *      checks the payment token allowlist
+ *
+ * DECISION: Store only the content hash; the URI is emitted, not stored
+ * REASON: The hash is what readers check a catalog entry against, and it
+ *         fits one slot. The URI only tells indexers where to fetch the
+ *         entry, so it lives in the event log for far less gas and code
+ */
+library PropertyLib {
+    // Mirrors of the RentFlowCore events, so they appear in the core ABI
+    event PropertyRegistered(
+        uint256 indexed propertyId,
+        address indexed owner,
+        uint256 monthlyRent,
+        address indexed paymentToken
+    );
+    event PropertyMetadataUpdated(uint256 indexed propertyId, bytes32 contentHash, string uri);
+    event UnitRegistered(uint256 indexed buildingId, uint256 indexed unitId);
+
+    function register(
+        Property storage property,
+        uint256[] storage ownedPropertyIds,
+        uint256 propertyId,
+        address owner,
+        uint256 monthlyRent,
+        uint256 securityDeposit,
+        address paymentToken
+    ) external {
+        _register(property, ownedPropertyIds, propertyId, owner, monthlyRent, securityDeposit, paymentToken);
+    }
+
+    /**
+     * @notice Add a unit to a building; the unit takes the building's owner and token
+     * @dev Any property becomes a building with its first unit. Buildings
+     *      don't nest, so a unit cannot have units of its own
+     */
+    function registerUnit(
+        mapping(uint256 => Property) storage properties,
+        mapping(uint256 => UnitInfo) storage unitInfo,
+        mapping(uint256 => uint256) storage unitCounts,
+        uint256[] storage ownedPropertyIds,
+        uint256 buildingId,
+        uint256 unitId,
+        uint256 monthlyRent,
+        uint256 securityDeposit
+    ) external {
+        Property storage building = properties[buildingId];
+        require(building.isActive, "Property not active");
+        require(!unitInfo[buildingId].isUnit, "Units cannot have units");
+
+        _register(
+            properties[unitId],
+            ownedPropertyIds,
+            unitId,
+            building.owner,
+            monthlyRent,
+            securityDeposit,
+            building.paymentToken
+        );
+        unitInfo[unitId] = UnitInfo({ isUnit: true, buildingId: buildingId });
+        unitCounts[buildingId]++;
+
+        emit UnitRegistered(buildingId, unitId);
+    }
+
+    function _register(
+        Property storage property,
+        uint256[] storage ownedPropertyIds,
+        uint256 propertyId,
+        address owner,
+        uint256 monthlyRent,
+        uint256 securityDeposit,
+        address paymentToken
+    ) private {
+        require(monthlyRent > 0, "Rent must be positive");
+        require(securityDeposit >= monthlyRent, "Deposit must be >= monthly rent");
+
+        property.owner = owner;
+        property.monthlyRent = monthlyRent;
+        property.securityDeposit = securityDeposit;
+        property.isActive = true;
+        property.createdAt = block.timestamp;
+        property.paymentToken = paymentToken;
+        ownedPropertyIds.push(propertyId);
+
+        emit PropertyRegistered(propertyId, owner, monthlyRent, paymentToken);
+    }
+
+    /**
+     * @notice Point a property at a new catalog entry
+     * @param contentHash keccak256 of the entry's canonical JSON
+     * @param uri Where to fetch the entry, e.g. ipfs:// or https://; may be empty
+     */
+    function setMetadata(
+        mapping(uint256 => bytes32) storage metadataHashes,
+        uint256 propertyId,
+        bytes32 contentHash,
+        string calldata uri
+    ) external {
+        require(contentHash != bytes32(0), "Metadata hash required");
+        metadataHashes[propertyId] = contentHash;
+        emit PropertyMetadataUpdated(propertyId, contentHash, uri);
+    }
+}
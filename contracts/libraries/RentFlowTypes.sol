@@ -0,0 +1,224 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title RentFlowTypes
+ * @notice Property, lease, billing and maintenance types shared by RentFlowCore and its libraries
+ *
+ * DECISION: File-level types instead of structs nested in RentFlowCore
+ * REASON: External libraries take these as storage pointers; nesting them
+ *         in the contract would make the libraries depend on the contract
+ */
+
+enum LeaseStatus { Active, Paused, Terminated, Completed }
+enum LateFeeType { None, Flat, Percentage }
+enum TerminationReason { Mutual, Default }
+
+/**
+ * DECISION: Each property picks its payment token at registration and keeps it
+ * REASON: Rent, deposits, maintenance funds and payouts are all keyed by
+ *         property or lease, so a fixed token per property keeps every
+ *         balance in a single token without per-token bookkeeping
+ */
+struct Property {
+    address owner;
+    uint256 monthlyRent;        // In paymentToken base units
+    uint256 securityDeposit;
+    bool isActive;
+    uint256 createdAt;
+    address paymentToken;
+}
+
+/**
+ * DECISION: A building is a Property with units, and each unit is a Property
+ *           of its own under the building's owner and token
+ * REASON: Units need their own rent, deposit, leases, maintenance fund and
+ *         approval policy, which a Property already carries; requests and
+ *         funds on the building itself cover its common areas
+ */
+struct UnitInfo {
+    bool isUnit;
+    uint256 buildingId;         // Meaningful only when isUnit
+}
+
+struct Lease {
+    uint256 propertyId;
+    address tenant;
+    uint256 startDate;
+    uint256 endDate;
+    uint256 rentDueDay;         // Day of month (1-28)
+    uint256 lastPaymentDate;
+    uint256 totalPaid;
+    LeaseStatus status;
+    uint256 securityDepositHeld;
+    uint256 periodsPaid;        // Billing periods settled in full so far
+    uint256 periodCount;        // One billing period per calendar month
+}
+
+/**
+ * DECISION: Billing periods are stored lazily, on first payment
+ * REASON: A 36-month lease would otherwise cost 36 storage writes up
+ *         front; unpaid periods are derived from the lease terms
+ */
+struct BillingPeriod {
+    uint256 dueDate;            // Midnight UTC on the due day
+    uint256 amountDue;
+    uint256 amountPaid;
+    uint256 lateFee;            // Charged on top of amountDue
+    bool waived;                // Fell due while the lease was paused
+}
+
+/**
+ * DECISION: Early exit and renewal are propose/accept between owner and tenant
+ * REASON: Both change money owed by the other party, so neither side
+ *         can impose them alone
+ */
+struct TerminationProposal {
+    address proposer;
+    uint256 fee;                // Paid by the tenant to the owner on acceptance
+}
+
+struct RenewalProposal {
+    address proposer;
+    uint256 additionalMonths;
+    uint256 monthlyRent;        // Rent for the added months
+}
+
+/// @dev Rent from `fromPeriod` onwards; renewals append a tier
+struct RentTier {
+    uint256 fromPeriod;
+    uint256 monthlyRent;
+}
+
+/**
+ * DECISION: Late-fee terms are fixed per lease at createLease
+ * REASON: Tenants agree to the exact fee rule up front; nobody can
+ *         raise it after the lease is signed
+ */
+struct LateFeeTerms {
+    uint256 gracePeriodDays;    // Full days after the due day before a fee applies
+    LateFeeType feeType;
+    uint256 amount;             // USDC for Flat, basis points of rent for Percentage
+    uint256 cap;                // Max fee in USDC, 0 = uncapped
+}
+
+/**
+ * DECISION: New states are appended, never inserted
+ * REASON: Indexers and stored events already map the existing numbers
+ *
+ * Pending -> Approved -> Accepted -> InProgress -> WorkSubmitted -> Completed
+ * AwaitingOwnerApproval sits between Pending and Approved; WorkSubmitted
+ * may move to Disputed, and Rejected ends any stage before work starts
+ */
+enum MaintenanceStatus {
+    Pending,
+    Approved,
+    InProgress,
+    Completed,
+    Rejected,
+    AwaitingOwnerApproval,
+    Accepted,
+    WorkSubmitted,
+    Disputed
+}
+
+// Same order as the backend AI engine's categories
+enum MaintenanceCategory {
+    Plumbing, Electrical, HVAC, Appliance, Structural, Security, Pest, Landscaping, Cosmetic, General
+}
+
+enum EscalationReason { CategoryBlocked, AboveAutoApprovalLimit, DailyCapExceeded, MonthlyCapExceeded }
+enum RejectionReason { None, NotCovered, Duplicate, TenantResponsibility, NotEssential, WorkUnsatisfactory, Other }
+
+struct MaintenanceRequest {
+    uint256 propertyId;
+    address requestedBy;
+    string description;
+    uint256 estimatedCost;
+    uint256 approvedAmount;
+    address contractor;
+    MaintenanceStatus status;
+    uint256 createdAt;
+    MaintenanceCategory category;   // Set by the AI agent when it assesses the request
+    bytes32 evidenceHash;           // Contractor's proof of completion (e.g. IPFS CID digest)
+    uint256 disputeDeadline;        // Payment auto-releases after this unless disputed
+    RejectionReason rejectionReason;
+}
+
+/**
+ * DECISION: Each property carries its own AI approval policy, set by its owner
+ * REASON: A fixed $500 limit suits neither a studio nor an apartment block;
+ *         requests outside the policy wait for the owner instead of reverting
+ */
+struct ApprovalPolicy {
+    uint256 autoApprovalLimit;      // Max USDC per request the AI may approve alone
+    uint256 dailyCap;               // Max AI-approved USDC per UTC day, 0 = uncapped
+    uint256 monthlyCap;             // Max AI-approved USDC per calendar month, 0 = uncapped
+    uint256 blockedCategories;      // Bitmask of MaintenanceCategory needing the owner
+}
+
+/**
+ * DECISION: Contractors register themselves; owners vet them with an allowlist
+ * REASON: Trades, areas and documents are the contractor's own claims, while
+ *         trusting them with a property's funds is the owner's decision
+ */
+struct Contractor {
+    uint256 trades;                 // Bitmask of MaintenanceCategory, 0 = not registered
+    bytes32[] serviceAreas;         // Area codes, e.g. bytes32-encoded postcodes
+    bytes32 licenseHash;            // Digest of the trade license document
+    bytes32 insuranceHash;          // Digest of the liability insurance certificate
+    uint256 jobsCompleted;          // Paid maintenance jobs
+    uint256 totalEarned;            // USDC paid out across those jobs
+    uint256 ratingTotal;            // Sum of 1-5 ratings from property owners and tenants
+    uint256 ratingCount;
+}
+
+enum DeductionCategory { Cleaning, Damage, UnpaidRent, UnpaidUtilities, KeysAndLocks, Other }
+
+/**
+ * DECISION: Deduction items are appended, never edited
+ * REASON: The tenant accepts or disputes exactly what the owner proposed;
+ *         the arbiter's award is recorded next to the original amount
+ *
+ * Proposed -> Accepted (by the tenant, or when the window closes)
+ * Proposed -> Disputed -> Resolved (by an arbiter)
+ */
+enum DeductionStatus { Proposed, Accepted, Disputed, Resolved }
+
+/// @dev What the owner submits for each item
+struct DeductionItem {
+    DeductionCategory category;
+    uint256 amount;
+    bytes32 evidenceHash;           // Digest of photos, invoices or receipts
+}
+
+struct DepositDeduction {
+    DeductionCategory category;
+    uint256 amount;
+    bytes32 evidenceHash;
+    DeductionStatus status;
+    uint256 awardedToOwner;         // Set when Accepted (full amount) or Resolved
+}
+
+struct DepositSettlement {
+    uint256 disputeDeadline;        // 0 until deductions are proposed
+    uint256 pendingItems;           // Items still Proposed or Disputed
+    uint256 returnedToTenant;       // Running total across the settlement
+    bool settled;
+}
+
+/**
+ * DECISION: Rent splits are fixed basis-point shares; the owner gets the remainder
+ * REASON: Shares stay exact for any payment size, including partial and
+ *         prepaid rent, and rounding dust never strands in the contract
+ */
+struct PayoutSplit {
+    address recipient;              // Manager, co-owner or any other payee
+    uint256 bps;                    // Share of each rent payment, 1-10000
+}
+
+struct PayoutConfig {
+    uint256 version;                // Bumped on every change, 0 = never configured
+    uint256 reserveBps;             // Share credited to the property's maintenance fund
+    bool pullPayments;              // Recipients claim their balance instead of receiving transfers
+}
@@ -0,0 +1,72 @@
+-- RentFlow AI - Migration 001: properties, tenants, leases, rent payments
+--
+-- Amounts are stored in USDC base units (6 decimals) as NUMERIC(38,0),
+-- matching the uint256 values emitted by RentFlowCore.
+-- Wallet addresses are stored lowercase.
+
+-- migrate:up
+
+CREATE TABLE IF NOT EXISTS properties (
+    id                BIGINT PRIMARY KEY,                    -- on-chain propertyId
+    owner_address     TEXT NOT NULL CHECK (owner_address ~ '^0x[0-9a-f]{40}$'),
+    monthly_rent      NUMERIC(38, 0) NOT NULL CHECK (monthly_rent > 0),
+    security_deposit  NUMERIC(38, 0) NOT NULL CHECK (security_deposit >= monthly_rent),
+    is_active         BOOLEAN NOT NULL DEFAULT TRUE,
+    address_line      TEXT,
+    city              TEXT,
+    unit_type         TEXT,
+    bedrooms          SMALLINT CHECK (bedrooms >= 0),
+    created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS tenant_profiles (
+    address                TEXT PRIMARY KEY CHECK (address ~ '^0x[0-9a-f]{40}$'),
+    display_name           TEXT,
+    email                  TEXT,
+    phone                  TEXT,
+    payment_history_score  SMALLINT NOT NULL DEFAULT 0 CHECK (payment_history_score BETWEEN 0 AND 100),
+    on_time_payments       INTEGER NOT NULL DEFAULT 0,
+    late_payments          INTEGER NOT NULL DEFAULT 0,
+    total_paid             NUMERIC(38, 0) NOT NULL DEFAULT 0,
+    score_breakdown        JSONB NOT NULL DEFAULT '{}'::JSONB,
+    created_at             TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at             TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS leases (
+    id                     BIGINT PRIMARY KEY,               -- on-chain leaseId
+    property_id            BIGINT NOT NULL REFERENCES properties(id),
+    tenant_address         TEXT NOT NULL REFERENCES tenant_profiles(address),
+    start_date             TIMESTAMPTZ NOT NULL,
+    end_date               TIMESTAMPTZ NOT NULL CHECK (end_date > start_date),
+    rent_due_day           SMALLINT NOT NULL CHECK (rent_due_day BETWEEN 1 AND 28),
+    status                 TEXT NOT NULL DEFAULT 'active'
+                           CHECK (status IN ('active', 'paused', 'terminated', 'completed')),
+    security_deposit_held  NUMERIC(38, 0) NOT NULL DEFAULT 0,
+    total_paid             NUMERIC(38, 0) NOT NULL DEFAULT 0,
+    last_payment_at        TIMESTAMPTZ,
+    created_at             TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at             TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS rent_payments (
+    id               BIGSERIAL PRIMARY KEY,
+    lease_id         BIGINT NOT NULL REFERENCES leases(id),
+    amount           NUMERIC(38, 0) NOT NULL CHECK (amount > 0),
+    paid_at          TIMESTAMPTZ NOT NULL,
+    due_date         DATE,
+    days_late        INTEGER NOT NULL DEFAULT 0,
+    tx_hash          TEXT,
+    log_index        INTEGER,
+    block_number     BIGINT,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (tx_hash, log_index)
+);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS rent_payments;
+DROP TABLE IF EXISTS leases;
+DROP TABLE IF EXISTS tenant_profiles;
+DROP TABLE IF EXISTS properties;
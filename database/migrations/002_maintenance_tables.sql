@@ -0,0 +1,54 @@
+-- RentFlow AI - Migration 002: contractors, maintenance requests, AI decisions
+
+-- migrate:up
+
+CREATE TABLE IF NOT EXISTS contractors (
+    id                BIGSERIAL PRIMARY KEY,
+    wallet_address    TEXT NOT NULL UNIQUE CHECK (wallet_address ~ '^0x[0-9a-f]{40}$'),
+    name              TEXT NOT NULL,
+    trades            TEXT[] NOT NULL DEFAULT '{}',
+    service_areas     TEXT[] NOT NULL DEFAULT '{}',
+    license_hash      TEXT,
+    insurance_hash    TEXT,
+    rating            NUMERIC(3, 2) CHECK (rating BETWEEN 0 AND 5),
+    jobs_completed    INTEGER NOT NULL DEFAULT 0,
+    is_active         BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS maintenance_requests (
+    id                  BIGINT PRIMARY KEY,                  -- on-chain requestId
+    property_id         BIGINT NOT NULL REFERENCES properties(id),
+    requested_by        TEXT NOT NULL,
+    description         TEXT NOT NULL,
+    category            TEXT,
+    urgency             TEXT CHECK (urgency IN ('low', 'medium', 'high')),
+    estimated_cost      NUMERIC(38, 0) NOT NULL CHECK (estimated_cost > 0),
+    approved_amount     NUMERIC(38, 0) NOT NULL DEFAULT 0,
+    contractor_address  TEXT,
+    status              TEXT NOT NULL DEFAULT 'pending'
+                        CHECK (status IN ('pending', 'approved', 'in_progress', 'completed', 'rejected')),
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS ai_decisions (
+    id                      BIGSERIAL PRIMARY KEY,
+    maintenance_request_id  BIGINT REFERENCES maintenance_requests(id),
+    property_id             BIGINT NOT NULL REFERENCES properties(id),
+    decision                TEXT NOT NULL CHECK (decision IN ('approve', 'reject', 'escalate')),
+    reasoning               TEXT NOT NULL,
+    confidence              SMALLINT NOT NULL CHECK (confidence BETWEEN 0 AND 100),
+    approved_amount         NUMERIC(38, 0) NOT NULL DEFAULT 0,
+    urgency                 TEXT NOT NULL CHECK (urgency IN ('low', 'medium', 'high')),
+    category                TEXT NOT NULL,
+    provider                TEXT NOT NULL DEFAULT 'rules',
+    created_at              TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS ai_decisions;
+DROP TABLE IF EXISTS maintenance_requests;
+DROP TABLE IF EXISTS contractors;
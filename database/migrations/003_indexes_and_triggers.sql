@@ -0,0 +1,55 @@
+-- RentFlow AI - Migration 003: query indexes and updated_at triggers
+
+-- migrate:up
+
+CREATE INDEX IF NOT EXISTS idx_properties_owner ON properties (owner_address);
+CREATE INDEX IF NOT EXISTS idx_leases_property ON leases (property_id);
+CREATE INDEX IF NOT EXISTS idx_leases_tenant ON leases (tenant_address);
+CREATE INDEX IF NOT EXISTS idx_leases_status ON leases (status);
+CREATE INDEX IF NOT EXISTS idx_rent_payments_lease_paid ON rent_payments (lease_id, paid_at);
+CREATE INDEX IF NOT EXISTS idx_maintenance_property_status ON maintenance_requests (property_id, status);
+CREATE INDEX IF NOT EXISTS idx_ai_decisions_request ON ai_decisions (maintenance_request_id);
+
+CREATE OR REPLACE FUNCTION set_updated_at() RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_properties_updated_at ON properties;
+CREATE TRIGGER trg_properties_updated_at BEFORE UPDATE ON properties
+    FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_tenant_profiles_updated_at ON tenant_profiles;
+CREATE TRIGGER trg_tenant_profiles_updated_at BEFORE UPDATE ON tenant_profiles
+    FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_leases_updated_at ON leases;
+CREATE TRIGGER trg_leases_updated_at BEFORE UPDATE ON leases
+    FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_contractors_updated_at ON contractors;
+CREATE TRIGGER trg_contractors_updated_at BEFORE UPDATE ON contractors
+    FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_maintenance_requests_updated_at ON maintenance_requests;
+CREATE TRIGGER trg_maintenance_requests_updated_at BEFORE UPDATE ON maintenance_requests
+    FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- migrate:down
+
+DROP TRIGGER IF EXISTS trg_maintenance_requests_updated_at ON maintenance_requests;
+DROP TRIGGER IF EXISTS trg_contractors_updated_at ON contractors;
+DROP TRIGGER IF EXISTS trg_leases_updated_at ON leases;
+DROP TRIGGER IF EXISTS trg_tenant_profiles_updated_at ON tenant_profiles;
+DROP TRIGGER IF EXISTS trg_properties_updated_at ON properties;
+DROP FUNCTION IF EXISTS set_updated_at();
+
+DROP INDEX IF EXISTS idx_ai_decisions_request;
+DROP INDEX IF EXISTS idx_maintenance_property_status;
+DROP INDEX IF EXISTS idx_rent_payments_lease_paid;
+DROP INDEX IF EXISTS idx_leases_status;
+DROP INDEX IF EXISTS idx_leases_tenant;
+DROP INDEX IF EXISTS idx_leases_property;
+DROP INDEX IF EXISTS idx_properties_owner;
@@ -0,0 +1,24 @@
+-- RentFlow AI - Migration 004: maintenance workflow states, completion evidence, rejection reasons
+
+-- migrate:up
+
+ALTER TABLE maintenance_requests DROP CONSTRAINT IF EXISTS maintenance_requests_status_check;
+ALTER TABLE maintenance_requests ADD CONSTRAINT maintenance_requests_status_check
+    CHECK (status IN ('pending', 'awaiting_owner_approval', 'approved', 'accepted', 'in_progress',
+                      'work_submitted', 'disputed', 'completed', 'rejected'));
+
+ALTER TABLE maintenance_requests
+    ADD COLUMN IF NOT EXISTS rejection_reason  TEXT,
+    ADD COLUMN IF NOT EXISTS evidence_hash     TEXT CHECK (evidence_hash ~ '^0x[0-9a-f]{64}$'),
+    ADD COLUMN IF NOT EXISTS dispute_deadline  TIMESTAMPTZ;
+
+-- migrate:down
+
+ALTER TABLE maintenance_requests
+    DROP COLUMN IF EXISTS dispute_deadline,
+    DROP COLUMN IF EXISTS evidence_hash,
+    DROP COLUMN IF EXISTS rejection_reason;
+
+ALTER TABLE maintenance_requests DROP CONSTRAINT IF EXISTS maintenance_requests_status_check;
+ALTER TABLE maintenance_requests ADD CONSTRAINT maintenance_requests_status_check
+    CHECK (status IN ('pending', 'approved', 'in_progress', 'completed', 'rejected'));
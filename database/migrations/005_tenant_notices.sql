@@ -0,0 +1,22 @@
+-- RentFlow AI - Migration 005: tenant notices (autopay collection failures)
+
+-- migrate:up
+
+CREATE TABLE IF NOT EXISTS tenant_notices (
+    id              BIGSERIAL PRIMARY KEY,
+    tenant_address  TEXT NOT NULL CHECK (tenant_address ~ '^0x[0-9a-f]{40}$'),
+    lease_id        BIGINT NOT NULL,                         -- on-chain leaseId; the lease row may not be synced yet
+    period          INTEGER NOT NULL CHECK (period >= 0),
+    kind            TEXT NOT NULL CHECK (kind IN ('autopay_failed')),
+    reason          TEXT NOT NULL,
+    message         TEXT NOT NULL,
+    read_at         TIMESTAMPTZ,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (lease_id, period, kind, reason)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_notices_tenant ON tenant_notices (tenant_address, created_at DESC);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS tenant_notices;
@@ -0,0 +1,16 @@
+-- RentFlow AI - Migration 006: per-property payment tokens
+
+-- migrate:up
+
+-- Amounts on a property and its leases are in this token's base units; NULL
+-- for rows synced before properties chose their token (those paid in USDC)
+ALTER TABLE properties
+    ADD COLUMN IF NOT EXISTS payment_token TEXT CHECK (payment_token ~ '^0x[0-9a-f]{40}$');
+
+CREATE INDEX IF NOT EXISTS idx_properties_payment_token ON properties (payment_token);
+
+-- migrate:down
+
+DROP INDEX IF EXISTS idx_properties_payment_token;
+
+ALTER TABLE properties DROP COLUMN IF EXISTS payment_token;
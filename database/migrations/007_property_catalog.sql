@@ -0,0 +1,18 @@
+-- RentFlow AI - Migration 007: property catalog entries
+--
+-- Entries are content-addressed: content_hash is keccak256 of the entry's
+-- canonical JSON, the value owners record on chain with setPropertyMetadata.
+-- A property shows the entry whose hash its latest PropertyMetadataUpdated
+-- event carries, so entries are never edited in place.
+
+-- migrate:up
+
+CREATE TABLE IF NOT EXISTS property_catalog_entries (
+    content_hash  TEXT PRIMARY KEY CHECK (content_hash ~ '^0x[0-9a-f]{64}$'),
+    entry         JSONB NOT NULL,
+    created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS property_catalog_entries;
@@ -0,0 +1,13 @@
+-- RentFlow AI - Migration 008: tenant totals per payment token
+--
+-- A tenant's leases may be paid in tokens of different decimals, so their
+-- rent paid no longer adds up to one column; the score service keeps a
+-- total per token in score_breakdown instead.
+
+-- migrate:up
+
+ALTER TABLE tenant_profiles DROP COLUMN IF EXISTS total_paid;
+
+-- migrate:down
+
+ALTER TABLE tenant_profiles ADD COLUMN IF NOT EXISTS total_paid NUMERIC(38, 0) NOT NULL DEFAULT 0;
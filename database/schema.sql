@@ -1 +1,200 @@
-Paste database schema
+-- RentFlow AI - Database Schema (snapshot)
+--
+-- Current state of every migration in database/migrations/, for reading
+-- and for bootstrapping a throwaway database with `psql -f`.
+-- Generated by `npm run db:schema` in backend/ - do not edit by hand.
+-- Apply real changes with `npm run db:migrate`.
+
+-- ============ 001_core_tables.sql ============
+
+CREATE TABLE IF NOT EXISTS properties (
+    id                BIGINT PRIMARY KEY,                    -- on-chain propertyId
+    owner_address     TEXT NOT NULL CHECK (owner_address ~ '^0x[0-9a-f]{40}$'),
+    monthly_rent      NUMERIC(38, 0) NOT NULL CHECK (monthly_rent > 0),
+    security_deposit  NUMERIC(38, 0) NOT NULL CHECK (security_deposit >= monthly_rent),
+    is_active         BOOLEAN NOT NULL DEFAULT TRUE,
+    address_line      TEXT,
+    city              TEXT,
+    unit_type         TEXT,
+    bedrooms          SMALLINT CHECK (bedrooms >= 0),
+    created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS tenant_profiles (
+    address                TEXT PRIMARY KEY CHECK (address ~ '^0x[0-9a-f]{40}$'),
+    display_name           TEXT,
+    email                  TEXT,
+    phone                  TEXT,
+    payment_history_score  SMALLINT NOT NULL DEFAULT 0 CHECK (payment_history_score BETWEEN 0 AND 100),
+    on_time_payments       INTEGER NOT NULL DEFAULT 0,
+    late_payments          INTEGER NOT NULL DEFAULT 0,
+    total_paid             NUMERIC(38, 0) NOT NULL DEFAULT 0,
+    score_breakdown        JSONB NOT NULL DEFAULT '{}'::JSONB,
+    created_at             TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at             TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS leases (
+    id                     BIGINT PRIMARY KEY,               -- on-chain leaseId
+    property_id            BIGINT NOT NULL REFERENCES properties(id),
+    tenant_address         TEXT NOT NULL REFERENCES tenant_profiles(address),
+    start_date             TIMESTAMPTZ NOT NULL,
+    end_date               TIMESTAMPTZ NOT NULL CHECK (end_date > start_date),
+    rent_due_day           SMALLINT NOT NULL CHECK (rent_due_day BETWEEN 1 AND 28),
+    status                 TEXT NOT NULL DEFAULT 'active'
+                           CHECK (status IN ('active', 'paused', 'terminated', 'completed')),
+    security_deposit_held  NUMERIC(38, 0) NOT NULL DEFAULT 0,
+    total_paid             NUMERIC(38, 0) NOT NULL DEFAULT 0,
+    last_payment_at        TIMESTAMPTZ,
+    created_at             TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at             TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS rent_payments (
+    id               BIGSERIAL PRIMARY KEY,
+    lease_id         BIGINT NOT NULL REFERENCES leases(id),
+    amount           NUMERIC(38, 0) NOT NULL CHECK (amount > 0),
+    paid_at          TIMESTAMPTZ NOT NULL,
+    due_date         DATE,
+    days_late        INTEGER NOT NULL DEFAULT 0,
+    tx_hash          TEXT,
+    log_index        INTEGER,
+    block_number     BIGINT,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (tx_hash, log_index)
+);
+
+-- ============ 002_maintenance_tables.sql ============
+
+CREATE TABLE IF NOT EXISTS contractors (
+    id                BIGSERIAL PRIMARY KEY,
+    wallet_address    TEXT NOT NULL UNIQUE CHECK (wallet_address ~ '^0x[0-9a-f]{40}$'),
+    name              TEXT NOT NULL,
+    trades            TEXT[] NOT NULL DEFAULT '{}',
+    service_areas     TEXT[] NOT NULL DEFAULT '{}',
+    license_hash      TEXT,
+    insurance_hash    TEXT,
+    rating            NUMERIC(3, 2) CHECK (rating BETWEEN 0 AND 5),
+    jobs_completed    INTEGER NOT NULL DEFAULT 0,
+    is_active         BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS maintenance_requests (
+    id                  BIGINT PRIMARY KEY,                  -- on-chain requestId
+    property_id         BIGINT NOT NULL REFERENCES properties(id),
+    requested_by        TEXT NOT NULL,
+    description         TEXT NOT NULL,
+    category            TEXT,
+    urgency             TEXT CHECK (urgency IN ('low', 'medium', 'high')),
+    estimated_cost      NUMERIC(38, 0) NOT NULL CHECK (estimated_cost > 0),
+    approved_amount     NUMERIC(38, 0) NOT NULL DEFAULT 0,
+    contractor_address  TEXT,
+    status              TEXT NOT NULL DEFAULT 'pending'
+                        CHECK (status IN ('pending', 'approved', 'in_progress', 'completed', 'rejected')),
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS ai_decisions (
+    id                      BIGSERIAL PRIMARY KEY,
+    maintenance_request_id  BIGINT REFERENCES maintenance_requests(id),
+    property_id             BIGINT NOT NULL REFERENCES properties(id),
+    decision                TEXT NOT NULL CHECK (decision IN ('approve', 'reject', 'escalate')),
+    reasoning               TEXT NOT NULL,
+    confidence              SMALLINT NOT NULL CHECK (confidence BETWEEN 0 AND 100),
+    approved_amount         NUMERIC(38, 0) NOT NULL DEFAULT 0,
+    urgency                 TEXT NOT NULL CHECK (urgency IN ('low', 'medium', 'high')),
+    category                TEXT NOT NULL,
+    provider                TEXT NOT NULL DEFAULT 'rules',
+    created_at              TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============ 003_indexes_and_triggers.sql ============
+
+CREATE INDEX IF NOT EXISTS idx_properties_owner ON properties (owner_address);
+CREATE INDEX IF NOT EXISTS idx_leases_property ON leases (property_id);
+CREATE INDEX IF NOT EXISTS idx_leases_tenant ON leases (tenant_address);
+CREATE INDEX IF NOT EXISTS idx_leases_status ON leases (status);
+CREATE INDEX IF NOT EXISTS idx_rent_payments_lease_paid ON rent_payments (lease_id, paid_at);
+CREATE INDEX IF NOT EXISTS idx_maintenance_property_status ON maintenance_requests (property_id, status);
+CREATE INDEX IF NOT EXISTS idx_ai_decisions_request ON ai_decisions (maintenance_request_id);
+
+CREATE OR REPLACE FUNCTION set_updated_at() RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_properties_updated_at ON properties;
+CREATE TRIGGER trg_properties_updated_at BEFORE UPDATE ON properties
+    FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_tenant_profiles_updated_at ON tenant_profiles;
+CREATE TRIGGER trg_tenant_profiles_updated_at BEFORE UPDATE ON tenant_profiles
+    FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_leases_updated_at ON leases;
+CREATE TRIGGER trg_leases_updated_at BEFORE UPDATE ON leases
+    FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_contractors_updated_at ON contractors;
+CREATE TRIGGER trg_contractors_updated_at BEFORE UPDATE ON contractors
+    FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_maintenance_requests_updated_at ON maintenance_requests;
+CREATE TRIGGER trg_maintenance_requests_updated_at BEFORE UPDATE ON maintenance_requests
+    FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- ============ 004_maintenance_workflow.sql ============
+
+ALTER TABLE maintenance_requests DROP CONSTRAINT IF EXISTS maintenance_requests_status_check;
+ALTER TABLE maintenance_requests ADD CONSTRAINT maintenance_requests_status_check
+    CHECK (status IN ('pending', 'awaiting_owner_approval', 'approved', 'accepted', 'in_progress',
+                      'work_submitted', 'disputed', 'completed', 'rejected'));
+
+ALTER TABLE maintenance_requests
+    ADD COLUMN IF NOT EXISTS rejection_reason  TEXT,
+    ADD COLUMN IF NOT EXISTS evidence_hash     TEXT CHECK (evidence_hash ~ '^0x[0-9a-f]{64}$'),
+    ADD COLUMN IF NOT EXISTS dispute_deadline  TIMESTAMPTZ;
+
+-- ============ 005_tenant_notices.sql ============
+
+CREATE TABLE IF NOT EXISTS tenant_notices (
+    id              BIGSERIAL PRIMARY KEY,
+    tenant_address  TEXT NOT NULL CHECK (tenant_address ~ '^0x[0-9a-f]{40}$'),
+    lease_id        BIGINT NOT NULL,                         -- on-chain leaseId; the lease row may not be synced yet
+    period          INTEGER NOT NULL CHECK (period >= 0),
+    kind            TEXT NOT NULL CHECK (kind IN ('autopay_failed')),
+    reason          TEXT NOT NULL,
+    message         TEXT NOT NULL,
+    read_at         TIMESTAMPTZ,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (lease_id, period, kind, reason)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_notices_tenant ON tenant_notices (tenant_address, created_at DESC);
+
+-- ============ 006_property_payment_tokens.sql ============
+
+-- Amounts on a property and its leases are in this token's base units; NULL
+-- for rows synced before properties chose their token (those paid in USDC)
+ALTER TABLE properties
+    ADD COLUMN IF NOT EXISTS payment_token TEXT CHECK (payment_token ~ '^0x[0-9a-f]{40}$');
+
+CREATE INDEX IF NOT EXISTS idx_properties_payment_token ON properties (payment_token);
+
+-- ============ 007_property_catalog.sql ============
+
+CREATE TABLE IF NOT EXISTS property_catalog_entries (
+    content_hash  TEXT PRIMARY KEY CHECK (content_hash ~ '^0x[0-9a-f]{64}$'),
+    entry         JSONB NOT NULL,
+    created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============ 008_tenant_profile_token_totals.sql ============
+
+ALTER TABLE tenant_profiles DROP COLUMN IF EXISTS total_paid;
@@ -0,0 +1,147 @@
+-- RentFlow AI - Demo Seed Data
+--
+-- Builds the demo portfolio shown on the dashboard: 12 properties
+-- ($47,500/month when occupied), 11 active leases with rent history
+-- from January 2025, and the sample maintenance requests.
+--
+-- Wallets are the default Hardhat accounts (owner = account #1) so the seed
+-- lines up with a local `npx hardhat node`. Amounts are USDC base units.
+-- Safe to re-run: every insert is ON CONFLICT DO NOTHING.
+-- Run with `npm run db:seed` from backend/ after migrating.
+
+BEGIN;
+
+-- ============ Tenants ============
+
+INSERT INTO tenant_profiles (address, display_name, email) VALUES
+    ('0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc', 'John Doe', 'john.doe@example.com'),
+    ('0x90f79bf6eb2c4f870365e785982e1f101e93b906', 'Jane Smith', 'jane.smith@example.com'),
+    ('0x15d34aaf54267db7d7c367839aaf71a00a2c6a65', 'Carlos Rivera', 'carlos.rivera@example.com'),
+    ('0x9965507d1a55bcc2695c58ba16fb37d819b0a4dc', 'Priya Patel', 'priya.patel@example.com'),
+    ('0x976ea74026e726554db657fa54763abd0c3a0aa9', 'Marcus Chen', 'marcus.chen@example.com'),
+    ('0x14dc79964da2c08b23698b3d3cc7ca32193d9955', 'Aisha Okafor', 'aisha.okafor@example.com'),
+    ('0x23618e81e3f5cdf7f54c3d65f7fbc0abf5b21e8f', 'Liam OBrien', 'liam.obrien@example.com'),
+    ('0xa0ee7a142d267c1f36714e4a8f75612f20a79720', 'Sofia Rossi', 'sofia.rossi@example.com'),
+    ('0xbcd4042de499d14e55001ccbb24a551f3b954096', 'Daniel Kim', 'daniel.kim@example.com'),
+    ('0x71be63f3384f5fb98995898a86b02fb2426c5788', 'Emma Johansson', 'emma.johansson@example.com'),
+    ('0xfabb0ac9d68b0b445fb7357272ff202c5651694a', 'Noah Williams', 'noah.williams@example.com')
+ON CONFLICT (address) DO NOTHING;
+
+-- ============ Properties ============
+
+INSERT INTO properties (id, owner_address, monthly_rent, security_deposit, is_active, address_line, city, unit_type, bedrooms) VALUES
+    (0, '0x70997970c51812dc3a010c7d01b50e0d17dc79c8', 2500000000, 2500000000, TRUE, '123 Oak St', 'Austin', 'single_family', 3),
+    (1, '0x70997970c51812dc3a010c7d01b50e0d17dc79c8', 3200000000, 3200000000, TRUE, '456 Maple Ave', 'Austin', 'single_family', 4),
+    (2, '0x70997970c51812dc3a010c7d01b50e0d17dc79c8', 2800000000, 2800000000, TRUE, '789 Pine Rd', 'Austin', 'townhouse', 3),
+    (3, '0x70997970c51812dc3a010c7d01b50e0d17dc79c8', 4100000000, 4100000000, TRUE, '210 Cedar Ln', 'Austin', 'single_family', 4),
+    (4, '0x70997970c51812dc3a010c7d01b50e0d17dc79c8', 3900000000, 3900000000, TRUE, '55 Birch Ct, Unit 2', 'Round Rock', 'condo', 2),
+    (5, '0x70997970c51812dc3a010c7d01b50e0d17dc79c8', 4600000000, 4600000000, TRUE, '900 Elm Blvd', 'Austin', 'single_family', 4),
+    (6, '0x70997970c51812dc3a010c7d01b50e0d17dc79c8', 5200000000, 5200000000, TRUE, '18 Willow Way', 'Cedar Park', 'single_family', 5),
+    (7, '0x70997970c51812dc3a010c7d01b50e0d17dc79c8', 3750000000, 3750000000, TRUE, '402 Spruce St, Apt 4B', 'Austin', 'apartment', 2),
+    (8, '0x70997970c51812dc3a010c7d01b50e0d17dc79c8', 4400000000, 4400000000, TRUE, '77 Aspen Dr', 'Pflugerville', 'single_family', 4),
+    (9, '0x70997970c51812dc3a010c7d01b50e0d17dc79c8', 4950000000, 4950000000, TRUE, '1500 Magnolia Ave', 'Austin', 'single_family', 4),
+    (10, '0x70997970c51812dc3a010c7d01b50e0d17dc79c8', 4300000000, 4300000000, TRUE, '36 Hickory Hill', 'Georgetown', 'townhouse', 3),
+    (11, '0x70997970c51812dc3a010c7d01b50e0d17dc79c8', 6600000000, 6600000000, TRUE, '2 Lakeview Terrace', 'Austin', 'single_family', 5)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============ Leases (12 months) ============
+
+INSERT INTO leases (id, property_id, tenant_address, start_date, end_date, rent_due_day, status, security_deposit_held) VALUES
+    (0, 0, '0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc', '2025-01-01', DATE '2025-01-01' + INTERVAL '12 months', 1, 'active', 2500000000),
+    (1, 1, '0x90f79bf6eb2c4f870365e785982e1f101e93b906', '2025-01-02', DATE '2025-01-02' + INTERVAL '12 months', 2, 'active', 3200000000),
+    (2, 3, '0x15d34aaf54267db7d7c367839aaf71a00a2c6a65', '2025-01-05', DATE '2025-01-05' + INTERVAL '12 months', 5, 'active', 4100000000),
+    (3, 4, '0x9965507d1a55bcc2695c58ba16fb37d819b0a4dc', '2025-01-01', DATE '2025-01-01' + INTERVAL '12 months', 1, 'active', 3900000000),
+    (4, 5, '0x976ea74026e726554db657fa54763abd0c3a0aa9', '2025-02-01', DATE '2025-02-01' + INTERVAL '12 months', 1, 'active', 4600000000),
+    (5, 6, '0x14dc79964da2c08b23698b3d3cc7ca32193d9955', '2025-01-10', DATE '2025-01-10' + INTERVAL '12 months', 10, 'active', 5200000000),
+    (6, 7, '0x23618e81e3f5cdf7f54c3d65f7fbc0abf5b21e8f', '2025-01-01', DATE '2025-01-01' + INTERVAL '12 months', 1, 'active', 3750000000),
+    (7, 8, '0xa0ee7a142d267c1f36714e4a8f75612f20a79720', '2025-03-01', DATE '2025-03-01' + INTERVAL '12 months', 1, 'active', 4400000000),
+    (8, 9, '0xbcd4042de499d14e55001ccbb24a551f3b954096', '2025-01-15', DATE '2025-01-15' + INTERVAL '12 months', 15, 'active', 4950000000),
+    (9, 10, '0x71be63f3384f5fb98995898a86b02fb2426c5788', '2025-01-01', DATE '2025-01-01' + INTERVAL '12 months', 1, 'active', 4300000000),
+    (10, 11, '0xfabb0ac9d68b0b445fb7357272ff202c5651694a', '2025-01-03', DATE '2025-01-03' + INTERVAL '12 months', 3, 'active', 6600000000)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============ Rent Payments ============
+-- One payment per month from lease start through October 2025.
+-- Most tenants pay on the due day; lease 2 (Carlos Rivera) runs a few days
+-- late every third month so the reliability score has something to show.
+
+INSERT INTO rent_payments (lease_id, amount, paid_at, due_date, days_late, tx_hash, log_index)
+SELECT
+    l.id,
+    p.monthly_rent,
+    due.due_date + (late.days || ' days')::INTERVAL + INTERVAL '10 hours',
+    due.due_date,
+    late.days,
+    'seed-' || l.id || '-' || TO_CHAR(due.due_date, 'YYYYMM'),
+    0
+FROM leases l
+JOIN properties p ON p.id = l.property_id
+CROSS JOIN LATERAL (
+    SELECT (DATE_TRUNC('month', gs) + (l.rent_due_day - 1) * INTERVAL '1 day')::DATE AS due_date
+    FROM GENERATE_SERIES(DATE_TRUNC('month', l.start_date), DATE '2025-10-01', INTERVAL '1 month') AS gs
+) due
+CROSS JOIN LATERAL (
+    SELECT CASE
+        WHEN l.id = 2 AND EXTRACT(MONTH FROM due.due_date)::INT % 3 = 0 THEN 4
+        ELSE 0
+    END AS days
+) late
+ON CONFLICT (tx_hash, log_index) DO NOTHING;
+
+UPDATE leases l SET
+    total_paid = totals.total_paid,
+    last_payment_at = totals.last_payment_at
+FROM (
+    SELECT lease_id, SUM(amount) AS total_paid, MAX(paid_at) AS last_payment_at
+    FROM rent_payments
+    GROUP BY lease_id
+) totals
+WHERE totals.lease_id = l.id;
+
+UPDATE tenant_profiles t SET
+    on_time_payments = stats.on_time,
+    late_payments = stats.late,
+    payment_history_score = GREATEST(0, 100 - stats.late * 8)
+FROM (
+    SELECT l.tenant_address,
+           COUNT(*) FILTER (WHERE r.days_late = 0) AS on_time,
+           COUNT(*) FILTER (WHERE r.days_late > 0) AS late
+    FROM rent_payments r
+    JOIN leases l ON l.id = r.lease_id
+    GROUP BY l.tenant_address
+) stats
+WHERE stats.tenant_address = t.address;
+
+-- ============ Contractors ============
+
+INSERT INTO contractors (wallet_address, name, trades, service_areas, rating, jobs_completed) VALUES
+    ('0x1cbd3b2770909d4e10f157cabc84c7264073c9ec', 'Lone Star Plumbing', '{plumbing}', '{Austin,Round Rock}', 4.80, 37),
+    ('0xdf3e18d64bc6a983f673ab319ccae4f1a57c7097', 'Capital HVAC & Electric', '{hvac,electrical}', '{Austin,Cedar Park,Pflugerville}', 4.60, 52)
+ON CONFLICT (wallet_address) DO NOTHING;
+
+-- ============ Maintenance Requests ============
+
+INSERT INTO maintenance_requests
+    (id, property_id, requested_by, description, category, urgency, estimated_cost, approved_amount, contractor_address, status, created_at)
+VALUES
+    (0, 0, '0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc', 'Leaking faucet', 'plumbing', 'medium',
+     150000000, 150000000, '0x1cbd3b2770909d4e10f157cabc84c7264073c9ec', 'approved', '2025-10-06 09:12:00+00'),
+    (1, 1, '0x90f79bf6eb2c4f870365e785982e1f101e93b906', 'HVAC not cooling', 'hvac', 'high',
+     450000000, 0, NULL, 'pending', '2025-10-07 14:30:00+00'),
+    (2, 0, '0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc', 'Light fixture', 'electrical', 'low',
+     80000000, 80000000, '0xdf3e18d64bc6a983f673ab319ccae4f1a57c7097', 'completed', '2025-09-18 11:05:00+00')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO ai_decisions
+    (maintenance_request_id, property_id, decision, reasoning, confidence, approved_amount, urgency, category, provider)
+SELECT v.* FROM (VALUES
+    (0::BIGINT, 0::BIGINT, 'approve', 'Property #0: Routine plumbing repair at $150 is within the $400 category cap and the AI approval limit of $500.',
+     93::SMALLINT, 150000000::NUMERIC, 'medium', 'plumbing', 'rules'),
+    (2::BIGINT, 0::BIGINT, 'approve', 'Property #0: Routine electrical repair at $80 is within the $450 category cap and the AI approval limit of $500.',
+     88::SMALLINT, 80000000::NUMERIC, 'low', 'electrical', 'rules')
+) AS v(maintenance_request_id, property_id, decision, reasoning, confidence, approved_amount, urgency, category, provider)
+WHERE NOT EXISTS (
+    SELECT 1 FROM ai_decisions d WHERE d.maintenance_request_id = v.maintenance_request_id
+);
+
+COMMIT;
@@ -1 +1,6 @@
-Paste frontend App.tsx content
+import React from 'react';
+import Dashboard from './components/Dashboard';
+
+export default function App() {
+  return <Dashboard />;
+}
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import type { ChainConfig } from '../config/chains';
+import { getRentFlowContracts, TokenInfo } from '../config/contracts';
+import { useTransaction } from '../hooks/useTransaction';
+import { addPropertyFlow } from '../utils/actions';
+import {
+  FieldErrors,
+  LeaseForm,
+  MAX_LEASE_MONTHS,
+  MAX_RENT_DUE_DAY,
+  PropertyForm,
+  validateLease,
+  validateProperty,
+} from '../utils/forms';
+import { Field, inputClass, Modal } from './Modal';
+import { TransactionStatus } from './TransactionStatus';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/** registerProperty, then createLease when the owner leases it straight away */
+export const AddPropertyModal = ({
+  isOpen,
+  onClose,
+  onConfirmed,
+  provider,
+  chain,
+  paymentTokens,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirmed: () => void;
+  provider: ethers.BrowserProvider | null;
+  chain: ChainConfig | null;
+  paymentTokens: TokenInfo[];
+}) => {
+  const { state, run, reset } = useTransaction();
+  const [property, setProperty] = useState<PropertyForm>({ monthlyRent: '', securityDeposit: '', paymentToken: '' });
+  const [withLease, setWithLease] = useState(false);
+  const [lease, setLease] = useState<LeaseForm>({ tenant: '', startDate: today(), durationMonths: '12', rentDueDay: '1' });
+  const [errors, setErrors] = useState<FieldErrors<keyof PropertyForm | keyof LeaseForm>>({});
+
+  const paymentToken = property.paymentToken || paymentTokens[0]?.address || '';
+  const token = paymentTokens.find((candidate) => candidate.address === paymentToken);
+  const busy = state.status === 'pending';
+
+  const close = () => {
+    if (busy) return;
+    reset();
+    setErrors({});
+    onClose();
+  };
+
+  const submit = async () => {
+    if (!provider || !chain || !token) return;
+    const propertyCheck = validateProperty({ ...property, paymentToken }, token.decimals);
+    const leaseCheck = withLease ? validateLease(lease) : null;
+    setErrors({ ...propertyCheck.errors, ...leaseCheck?.errors });
+    if (!propertyCheck.values || (leaseCheck && !leaseCheck.values)) return;
+
+    const values = { property: propertyCheck.values, lease: leaseCheck?.values ?? null };
+    const confirmed = await run(async (send) => {
+      const contracts = await getRentFlowContracts(await provider.getSigner(), chain.chainId);
+      if (!contracts) throw new Error(`RentFlow is not deployed on ${chain.name}.`);
+      return addPropertyFlow(contracts.core, token, values.property, values.lease)(send);
+    });
+    if (confirmed) onConfirmed();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={close} title="Add New Property">
+      <div className="space-y-4">
+        <Field label="Payment Token" error={errors.paymentToken}>
+          <select
+            value={paymentToken}
+            onChange={(e) => setProperty({ ...property, paymentToken: e.target.value })}
+            className={inputClass(errors.paymentToken)}
+            disabled={busy}
+          >
+            {paymentTokens.map((candidate) => (
+              <option key={candidate.address} value={candidate.address}>
+                {candidate.symbol}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <Field label={`Monthly Rent (${token?.symbol ?? 'token'})`} error={errors.monthlyRent}>
+          <input
+            type="number"
+            min="0"
+            value={property.monthlyRent}
+            onChange={(e) => setProperty({ ...property, monthlyRent: e.target.value })}
+            className={inputClass(errors.monthlyRent)}
+            placeholder="2500"
+            disabled={busy}
+          />
+        </Field>
+        <Field
+          label={`Security Deposit (${token?.symbol ?? 'token'})`}
+          error={errors.securityDeposit}
+          hint="At least one month's rent"
+        >
+          <input
+            type="number"
+            min="0"
+            value={property.securityDeposit}
+            onChange={(e) => setProperty({ ...property, securityDeposit: e.target.value })}
+            className={inputClass(errors.securityDeposit)}
+            placeholder={property.monthlyRent || '2500'}
+            disabled={busy}
+          />
+        </Field>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={withLease} onChange={(e) => setWithLease(e.target.checked)} disabled={busy} />
+          Lease it to a tenant now
+        </label>
+        {withLease && (
+          <div className="space-y-4 pl-4 border-l-2 border-blue-100">
+            <Field
+              label="Tenant Wallet"
+              error={errors.tenant}
+              hint="The tenant must have approved the deposit for RentFlow"
+            >
+              <input
+                type="text"
+                value={lease.tenant}
+                onChange={(e) => setLease({ ...lease, tenant: e.target.value })}
+                className={`${inputClass(errors.tenant)} font-mono`}
+                placeholder="0x..."
+                disabled={busy}
+              />
+            </Field>
+            <div className="grid grid-cols-3 gap-4">
+              <Field label="Start Date" error={errors.startDate}>
+                <input
+                  type="date"
+                  value={lease.startDate}
+                  min={today()}
+                  onChange={(e) => setLease({ ...lease, startDate: e.target.value })}
+                  className={inputClass(errors.startDate)}
+                  disabled={busy}
+                />
+              </Field>
+              <Field label="Months" error={errors.durationMonths}>
+                <input
+                  type="number"
+                  min="1"
+                  max={MAX_LEASE_MONTHS}
+                  value={lease.durationMonths}
+                  onChange={(e) => setLease({ ...lease, durationMonths: e.target.value })}
+                  className={inputClass(errors.durationMonths)}
+                  disabled={busy}
+                />
+              </Field>
+              <Field label="Rent Due Day" error={errors.rentDueDay}>
+                <input
+                  type="number"
+                  min="1"
+                  max={MAX_RENT_DUE_DAY}
+                  value={lease.rentDueDay}
+                  onChange={(e) => setLease({ ...lease, rentDueDay: e.target.value })}
+                  className={inputClass(errors.rentDueDay)}
+                  disabled={busy}
+                />
+              </Field>
+            </div>
+          </div>
+        )}
+
+        <TransactionStatus state={state} chain={chain} />
+        <button
+          onClick={submit}
+          disabled={busy || !token}
+          className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {busy ? 'Working…' : withLease ? 'Register and Lease Property' : 'Register Property'}
+        </button>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,31 @@
+import React, { ReactNode } from 'react';
+import type { MaintenanceStatus } from '../utils/rentflow';
+
+export const Card = ({ title, children, icon }: { title: string; children: ReactNode; icon?: ReactNode }) => (
+  <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100">
+    <div className="flex items-center gap-3 mb-4">
+      {icon && <div className="text-blue-600">{icon}</div>}
+      <h3 className="text-lg font-semibold text-gray-800">{title}</h3>
+    </div>
+    {children}
+  </div>
+);
+
+// Keys match the backend's snake_case maintenance statuses
+export const MAINTENANCE_STATUS: Record<MaintenanceStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-yellow-100 text-yellow-700' },
+  awaiting_owner_approval: { label: 'Awaiting Owner', className: 'bg-orange-100 text-orange-700' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-700' },
+  accepted: { label: 'Accepted', className: 'bg-teal-100 text-teal-700' },
+  in_progress: { label: 'In Progress', className: 'bg-blue-100 text-blue-700' },
+  work_submitted: { label: 'Awaiting Sign-off', className: 'bg-indigo-100 text-indigo-700' },
+  disputed: { label: 'Disputed', className: 'bg-red-100 text-red-700' },
+  completed: { label: 'Completed', className: 'bg-gray-100 text-gray-700' },
+  rejected: { label: 'Rejected', className: 'bg-gray-100 text-gray-500 line-through' },
+};
+
+export const MaintenanceStatusBadge = ({ status }: { status: MaintenanceStatus }) => (
+  <span className={`inline-block px-3 py-1 rounded-full text-sm ${MAINTENANCE_STATUS[status].className}`}>
+    {MAINTENANCE_STATUS[status].label}
+  </span>
+);
@@ -0,0 +1,654 @@
+import React, { ReactNode, useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { AlertTriangle, Bell, DollarSign, Home, MessageSquare, TrendingUp, Wrench } from 'lucide-react';
+import { SUPPORTED_CHAINS } from '../config/chains';
+import { AddPropertyModal } from './AddPropertyModal';
+import { Card, MAINTENANCE_STATUS, MaintenanceStatusBadge } from './Card';
+import { NewRequestModal } from './NewRequestModal';
+import { TenantPortal } from './TenantPortal';
+import { useWallet } from '../hooks/useWallet';
+import { useApiSession } from '../hooks/useApiSession';
+import { useOwnerDashboard } from '../hooks/useOwnerDashboard';
+import { CatalogStatus, PropertyCatalogItem, usePropertyCatalog } from '../hooks/usePropertyCatalog';
+import { formatAmount, shortAddress, timeAgo } from '../utils/format';
+import {
+  isLiveLease,
+  OwnerDashboard,
+  summarizeBuildings,
+  summarizeOverview,
+  TokenTotals,
+} from '../utils/rentflow';
+
+/**
+ * Owner dashboard
+ *
+ * Rent, occupancy, buildings and maintenance requests are read from
+ * RentFlowCore on the wallet's chain (utils/rentflow.ts) and reloaded as the
+ * contract emits logs; the backend only contributes catalog entries.
+ * Once connected on a supported chain the wallet signs in to the backend
+ * (useApiSession), whose wallet-scoped routes the tenant portal reads.
+ *
+ * The same wallet may own properties and rent one, so the header switches
+ * to the tenant portal; wallets that own nothing open there.
+ */
+
+type Tab = 'overview' | 'properties' | 'maintenance' | 'tenants';
+type View = 'owner' | 'tenant';
+
+const CATALOG_STATUS: Partial<Record<CatalogStatus, { label: string; className: string }>> = {
+  missing: { label: 'Catalog entry not found', className: 'bg-red-100 text-red-700' },
+  unset: { label: 'No catalog entry', className: 'bg-gray-100 text-gray-700' },
+};
+
+const CHART_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6'];
+
+interface Activity {
+  key: string;
+  type: 'payment' | 'maintenance' | 'alert';
+  message: string;
+  /** Seconds; alerts describe the present and have none */
+  timestamp?: number;
+}
+
+const StatCard = ({
+  label,
+  value,
+  trend,
+  trendValue,
+  icon,
+  color,
+}: {
+  label: string;
+  value: ReactNode;
+  trend?: 'up' | 'down';
+  trendValue?: string;
+  icon: ReactNode;
+  color: string;
+}) => (
+  <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100">
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="text-sm text-gray-500 mb-1">{label}</p>
+        <p className="text-3xl font-bold text-gray-800">{value}</p>
+        {trend && (
+          <p className={`text-sm mt-2 ${trend === 'up' ? 'text-green-600' : 'text-red-600'}`}>
+            {trend === 'up' ? '↑' : '↓'} {trendValue}
+          </p>
+        )}
+      </div>
+      <div className={`p-4 rounded-full ${color}`}>{icon}</div>
+    </div>
+  </div>
+);
+
+/** Month-over-month change of rent received, when it is all in one token */
+function receivedTrend(thisMonth: TokenTotals, lastMonth: TokenTotals): { trend: 'up' | 'down'; trendValue: string } | null {
+  const tokens = new Set([...Object.keys(thisMonth), ...Object.keys(lastMonth)]);
+  if (tokens.size !== 1) return null;
+  const [token] = [...tokens];
+  const previous = lastMonth[token] ?? 0n;
+  if (previous === 0n) return null;
+  const change = Number(((thisMonth[token] ?? 0n) - previous) * 1000n / previous) / 10;
+  return { trend: change >= 0 ? 'up' : 'down', trendValue: `${Math.abs(change)}% vs last month` };
+}
+
+export default function Dashboard() {
+  const wallet = useWallet();
+  const { account, chain, chainId, isWrongNetwork } = wallet;
+  const { status, data, error, refresh } = useOwnerDashboard(wallet.provider, chainId, chain ? account : null);
+  const session = useApiSession(wallet.provider, chainId, chain ? account : null);
+  const { catalog, error: catalogError } = usePropertyCatalog(account, session.token);
+  const [activeTab, setActiveTab] = useState<Tab>('overview');
+  const [chosenView, setChosenView] = useState<View | null>(null);
+  const [showPropertyModal, setShowPropertyModal] = useState(false);
+  const [showMaintenanceModal, setShowMaintenanceModal] = useState(false);
+
+  const overview = useMemo(() => (data ? summarizeOverview(data) : null), [data]);
+  const buildings = useMemo(() => (data ? summarizeBuildings(data) : []), [data]);
+  const properties = data?.properties ?? [];
+  const view: View = chosenView ?? (data && properties.length === 0 ? 'tenant' : 'owner');
+  const propertyById = new Map(properties.map((property) => [property.propertyId, property]));
+
+  const tokenOf = (address: string) => data?.tokens[address.toLowerCase()];
+  const amountIn = (amount: bigint, token: string) => formatAmount(amount, tokenOf(token));
+  const formatTotals = (totals: TokenTotals) =>
+    Object.entries(totals)
+      .map(([token, amount]) => amountIn(amount, token))
+      .join(' + ') || '0';
+
+  const propertyTitle = (propertyId: number) => {
+    const entry = catalog.get(propertyId)?.entry;
+    if (entry) return entry.address_line;
+    const property = propertyById.get(propertyId);
+    return property && property.buildingId !== null ? `Unit #${propertyId}` : `Property #${propertyId}`;
+  };
+
+  const activity = useMemo(() => (data ? buildActivity(data, catalog) : []), [data, catalog]);
+
+  const trend = overview && receivedTrend(overview.receivedThisMonth, overview.receivedLastMonth);
+  const chartTokens = data ? [...new Set(Object.values(data.tokens).map((token) => token.symbol))] : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="bg-blue-600 p-2 rounded-lg">
+                <Home className="text-white" size={28} />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-800">RentFlow AI</h1>
+                <p className="text-sm text-gray-500">AI-Powered Property Management</p>
+              </div>
+            </div>
+
+            {!account ? (
+              <button
+                onClick={wallet.connect}
+                disabled={wallet.status === 'connecting'}
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                {wallet.status === 'connecting' ? 'Connecting...' : 'Connect Wallet'}
+              </button>
+            ) : (
+              <div className="flex items-center gap-4">
+                <div className="flex rounded-lg bg-gray-100 p-1">
+                  {(['owner', 'tenant'] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setChosenView(option)}
+                      className={`px-3 py-1 rounded-md text-sm capitalize transition ${
+                        view === option ? 'bg-white shadow text-blue-600' : 'text-gray-600 hover:text-gray-800'
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+                <div className="text-right">
+                  <p className="text-sm text-gray-600">{chain ? chain.name : `Unsupported chain ${chainId}`}</p>
+                  <p className="text-sm font-mono text-gray-800">{shortAddress(account)}</p>
+                </div>
+                {chain && session.status !== 'signed-in' && (
+                  <button
+                    onClick={session.signIn}
+                    disabled={session.status === 'signing-in'}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                  >
+                    {session.status === 'signing-in' ? 'Signing in...' : 'Sign In'}
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    session.signOut();
+                    wallet.disconnect();
+                  }}
+                  className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition"
+                >
+                  Disconnect
+                </button>
+              </div>
+            )}
+          </div>
+          {wallet.error && <p className="text-sm text-red-600 mt-2">{wallet.error}</p>}
+          {session.error && <p className="text-sm text-red-600 mt-2">{session.error}</p>}
+        </div>
+      </header>
+
+      {view === 'owner' && (
+        <div className="bg-white border-b">
+          <div className="max-w-7xl mx-auto px-4">
+            <nav className="flex gap-8">
+              {[
+                { id: 'overview' as const, label: 'Overview', icon: <TrendingUp size={18} /> },
+                { id: 'properties' as const, label: 'Properties', icon: <Home size={18} /> },
+                { id: 'maintenance' as const, label: 'Maintenance', icon: <Wrench size={18} /> },
+                { id: 'tenants' as const, label: 'Tenants', icon: <MessageSquare size={18} /> },
+              ].map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`flex items-center gap-2 py-4 px-2 border-b-2 transition ${
+                    activeTab === tab.id
+                      ? 'border-blue-600 text-blue-600'
+                      : 'border-transparent text-gray-600 hover:text-gray-800'
+                  }`}
+                >
+                  {tab.icon}
+                  <span className="font-medium">{tab.label}</span>
+                </button>
+              ))}
+            </nav>
+          </div>
+        </div>
+      )}
+
+      <main className="max-w-7xl mx-auto px-4 py-8">
+        {!account ? (
+          <Card title="Welcome to RentFlow AI" icon={<Home size={20} />}>
+            <div className="text-center py-12">
+              <p className="text-gray-600 mb-6">Connect your wallet to access your property management dashboard</p>
+              <button
+                onClick={wallet.connect}
+                className="bg-blue-600 text-white px-8 py-3 rounded-lg hover:bg-blue-700 transition"
+              >
+                Connect Wallet to Get Started
+              </button>
+            </div>
+          </Card>
+        ) : isWrongNetwork || status === 'not_deployed' ? (
+          <Card title="Switch network" icon={<AlertTriangle size={20} />}>
+            <p className="text-gray-600 mb-6">
+              {isWrongNetwork
+                ? `RentFlow does not run on chain ${chainId}. Switch your wallet to a supported network.`
+                : `RentFlow has not been deployed on ${chain?.name}. Switch your wallet to another network.`}
+            </p>
+            <div className="flex flex-wrap gap-3">
+              {SUPPORTED_CHAINS.filter((supported) => supported.chainId !== chainId).map((supported) => (
+                <button
+                  key={supported.chainId}
+                  onClick={() => wallet.switchChain(supported.chainId)}
+                  className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition"
+                >
+                  Switch to {supported.name}
+                </button>
+              ))}
+            </div>
+          </Card>
+        ) : view === 'tenant' ? (
+          <TenantPortal
+            provider={wallet.provider}
+            chain={chain}
+            chainId={chainId}
+            account={account}
+            token={session.token}
+          />
+        ) : status === 'error' && !data ? (
+          <Card title="Could not load your dashboard" icon={<AlertTriangle size={20} />}>
+            <p className="text-red-600 mb-4">{error}</p>
+            <button onClick={refresh} className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700">
+              Retry
+            </button>
+          </Card>
+        ) : !data || !overview ? (
+          <p className="text-gray-600">Loading from {chain?.name}...</p>
+        ) : (
+          <>
+            {activeTab === 'overview' && (
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                  <StatCard
+                    label="Total Properties"
+                    value={overview.propertyCount}
+                    icon={<Home size={24} />}
+                    color="bg-blue-100"
+                  />
+                  <StatCard
+                    label="Monthly Rent"
+                    value={formatTotals(overview.monthlyRent)}
+                    trend={trend?.trend}
+                    trendValue={trend?.trendValue}
+                    icon={<DollarSign size={24} />}
+                    color="bg-green-100"
+                  />
+                  <StatCard
+                    label="Occupancy Rate"
+                    value={
+                      overview.rentableCount === 0
+                        ? '–'
+                        : `${Math.round((overview.occupiedCount / overview.rentableCount) * 100)}%`
+                    }
+                    icon={<TrendingUp size={24} />}
+                    color="bg-purple-100"
+                  />
+                  <StatCard
+                    label="Open Requests"
+                    value={overview.openRequests}
+                    icon={<Wrench size={24} />}
+                    color="bg-orange-100"
+                  />
+                </div>
+
+                <Card title="Rent Received" icon={<TrendingUp size={20} />}>
+                  <ResponsiveContainer width="100%" height={250}>
+                    <LineChart data={overview.revenueByMonth}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="month" />
+                      <YAxis />
+                      <Tooltip />
+                      {chartTokens.length > 1 && <Legend />}
+                      {chartTokens.map((symbol, i) => (
+                        <Line
+                          key={symbol}
+                          type="monotone"
+                          dataKey={symbol}
+                          stroke={CHART_COLORS[i % CHART_COLORS.length]}
+                          strokeWidth={2}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                  {Object.keys(overview.arrears).length > 0 && (
+                    <p className="text-sm text-red-600 mt-2">Outstanding arrears: {formatTotals(overview.arrears)}</p>
+                  )}
+                </Card>
+
+                <Card title="Recent Activity" icon={<Bell size={20} />}>
+                  <div className="space-y-3">
+                    {activity.length === 0 && <p className="text-gray-600">No rent or maintenance activity yet.</p>}
+                    {activity.map((item) => (
+                      <div key={item.key} className="flex items-start gap-3 p-3 bg-gray-50 rounded-lg">
+                        <div
+                          className={`p-2 rounded-full ${
+                            item.type === 'payment' ? 'bg-green-100' : item.type === 'maintenance' ? 'bg-blue-100' : 'bg-red-100'
+                          }`}
+                        >
+                          {item.type === 'payment' && <DollarSign size={16} />}
+                          {item.type === 'maintenance' && <Wrench size={16} />}
+                          {item.type === 'alert' && <AlertTriangle size={16} />}
+                        </div>
+                        <div className="flex-1">
+                          <p className="text-sm text-gray-800">{item.message}</p>
+                          {item.timestamp !== undefined && (
+                            <p className="text-xs text-gray-500 mt-1">{timeAgo(item.timestamp)}</p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </Card>
+              </div>
+            )}
+
+            {activeTab === 'properties' && (
+              <div className="space-y-6">
+                <div className="flex justify-between items-center">
+                  <h2 className="text-2xl font-bold">Properties</h2>
+                  <button
+                    onClick={() => setShowPropertyModal(true)}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+                  >
+                    + Add Property
+                  </button>
+                </div>
+                {catalogError && <p className="text-sm text-gray-500">Catalog entries unavailable: {catalogError}</p>}
+                {properties.length === 0 && <p className="text-gray-600">No properties registered to this wallet yet.</p>}
+                {buildings.map((b) => (
+                  <Card key={b.buildingId} title={propertyTitle(b.buildingId)} icon={<Home size={20} />}>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                      <div>
+                        <p className="text-sm text-gray-600">Occupied Units</p>
+                        <p className="text-xl font-semibold">
+                          {b.occupiedUnits} / {b.units.length}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-gray-600">Monthly Rent</p>
+                        <p className="text-xl font-semibold">{amountIn(b.occupiedMonthlyRent, b.paymentToken)}</p>
+                        <p className="text-xs text-gray-500">of {amountIn(b.totalMonthlyRent, b.paymentToken)} fully let</p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-gray-600">Open Requests</p>
+                        <p className="text-xl font-semibold">{b.openRequests.units + b.openRequests.commonAreas}</p>
+                        <p className="text-xs text-gray-500">{b.openRequests.commonAreas} in common areas</p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-gray-600">Maintenance Funds</p>
+                        <p className="text-xl font-semibold">{amountIn(b.maintenanceFunds.units, b.paymentToken)}</p>
+                        <p className="text-xs text-gray-500">
+                          + {amountIn(b.maintenanceFunds.commonAreas, b.paymentToken)} common areas
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {b.units.map((unit) => (
+                        <span
+                          key={unit.property.propertyId}
+                          className={`px-3 py-1 rounded-full text-sm ${
+                            unit.occupied ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                          }`}
+                        >
+                          {propertyTitle(unit.property.propertyId)}
+                          {unit.openRequests > 0 && ` · ${unit.openRequests} open`}
+                        </span>
+                      ))}
+                    </div>
+                  </Card>
+                ))}
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {properties.map((p) => {
+                    const item = catalog.get(p.propertyId);
+                    const entry = item?.entry;
+                    const lease = data.leases.find((l) => l.propertyId === p.propertyId && isLiveLease(l));
+                    return (
+                      <Card key={p.propertyId} title={propertyTitle(p.propertyId)} icon={<Home size={20} />}>
+                        <div className="space-y-3">
+                          {entry?.photos[0] && (
+                            <img
+                              src={entry.photos[0]}
+                              alt={propertyTitle(p.propertyId)}
+                              className="w-full h-40 object-cover rounded-lg"
+                            />
+                          )}
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Monthly Rent:</span>
+                            <span className="font-semibold">{amountIn(p.monthlyRent, p.paymentToken)}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Tenant:</span>
+                            <span className="font-semibold">
+                              {p.unitCount > 0 ? `${p.unitCount} units` : lease ? shortAddress(lease.tenant) : 'Vacant'}
+                            </span>
+                          </div>
+                          {lease && lease.arrears > 0n && (
+                            <div className="flex justify-between text-red-600">
+                              <span>Arrears:</span>
+                              <span className="font-semibold">{amountIn(lease.arrears, p.paymentToken)}</span>
+                            </div>
+                          )}
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Maintenance Fund:</span>
+                            <span className="font-semibold">{amountIn(p.maintenanceFund, p.paymentToken)}</span>
+                          </div>
+                          {entry && (
+                            <>
+                              {entry.city && (
+                                <div className="flex justify-between">
+                                  <span className="text-gray-600">City:</span>
+                                  <span className="font-semibold">{entry.city}</span>
+                                </div>
+                              )}
+                              {(entry.unit_type || entry.bedrooms !== null) && (
+                                <div className="flex justify-between">
+                                  <span className="text-gray-600">Unit:</span>
+                                  <span className="font-semibold">
+                                    {[entry.unit_type, entry.bedrooms !== null && `${entry.bedrooms} bed`]
+                                      .filter(Boolean)
+                                      .join(' · ')}
+                                  </span>
+                                </div>
+                              )}
+                              {entry.amenities.length > 0 && (
+                                <div className="flex flex-wrap gap-2">
+                                  {entry.amenities.map((a) => (
+                                    <span key={a} className="px-2 py-1 text-xs rounded bg-blue-50 text-blue-700">
+                                      {a}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                              {entry.documents.map((d) => (
+                                <a
+                                  key={d.content_hash}
+                                  href={d.uri}
+                                  target="_blank"
+                                  rel="noreferrer"
+                                  className="block text-sm text-blue-600 hover:underline"
+                                >
+                                  {d.name}
+                                </a>
+                              ))}
+                            </>
+                          )}
+                          {!p.isActive && (
+                            <span className="inline-block px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-500">
+                              Inactive
+                            </span>
+                          )}
+                          {item && CATALOG_STATUS[item.catalog_status] && (
+                            <span
+                              className={`inline-block px-3 py-1 rounded-full text-sm ${
+                                CATALOG_STATUS[item.catalog_status]!.className
+                              }`}
+                            >
+                              {CATALOG_STATUS[item.catalog_status]!.label}
+                            </span>
+                          )}
+                        </div>
+                      </Card>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {activeTab === 'maintenance' && (
+              <div className="space-y-6">
+                <div className="flex justify-between items-center">
+                  <h2 className="text-2xl font-bold">Maintenance Requests</h2>
+                  <button
+                    onClick={() => setShowMaintenanceModal(true)}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+                  >
+                    + New Request
+                  </button>
+                </div>
+                {data.requests.length === 0 && <p className="text-gray-600">No maintenance requests yet.</p>}
+                <div className="space-y-4">
+                  {[...data.requests].reverse().map((r) => {
+                    const token = propertyById.get(r.propertyId)?.paymentToken ?? '';
+                    return (
+                      <Card key={r.requestId} title={`Request #${r.requestId}`} icon={<Wrench size={20} />}>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                          <div>
+                            <p className="text-sm text-gray-500">Property</p>
+                            <p className="font-semibold">{propertyTitle(r.propertyId)}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-500">Issue</p>
+                            <p className="font-semibold">{r.description}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-500">{r.approvedAmount > 0n ? 'Approved' : 'Estimate'}</p>
+                            <p className="font-semibold">
+                              {amountIn(r.approvedAmount > 0n ? r.approvedAmount : r.estimatedCost, token)}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-500">Status</p>
+                            <MaintenanceStatusBadge status={r.status} />
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {/* The category is set when the AI agent assesses the request */}
+                          {r.status !== 'pending' && (
+                            <span className="px-2 py-1 text-xs rounded bg-blue-100 text-blue-700">
+                              {r.category.toUpperCase()}
+                            </span>
+                          )}
+                          <span className="text-xs text-gray-500">{timeAgo(r.createdAt)}</span>
+                        </div>
+                      </Card>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {activeTab === 'tenants' && (
+              <Card title="Tenant Management" icon={<MessageSquare size={20} />}>
+                <p className="text-gray-600 mb-4">Tenants with a live lease on one of your properties</p>
+                <div className="space-y-3">
+                  {data.leases.filter(isLiveLease).length === 0 && <p className="text-gray-600">No live leases.</p>}
+                  {data.leases.filter(isLiveLease).map((lease) => (
+                    <div key={lease.leaseId} className="p-4 bg-gray-50 rounded-lg flex justify-between items-center">
+                      <div>
+                        <p className="font-semibold font-mono">{shortAddress(lease.tenant)}</p>
+                        <p className="text-sm text-gray-600">
+                          {propertyTitle(lease.propertyId)} · until {new Date(lease.endDate * 1000).toLocaleDateString()}
+                        </p>
+                      </div>
+                      {lease.status === 'paused' && (
+                        <span className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-700">Paused</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+
+      <AddPropertyModal
+        isOpen={showPropertyModal}
+        onClose={() => setShowPropertyModal(false)}
+        onConfirmed={refresh}
+        provider={wallet.provider}
+        chain={chain}
+        paymentTokens={data?.paymentTokens ?? []}
+      />
+
+      <NewRequestModal
+        isOpen={showMaintenanceModal}
+        onClose={() => setShowMaintenanceModal(false)}
+        onConfirmed={refresh}
+        provider={wallet.provider}
+        chain={chain}
+        properties={properties}
+        tokens={data?.tokens ?? {}}
+        propertyTitle={propertyTitle}
+      />
+    </div>
+  );
+}
+
+const ACTIVITY_LIMIT = 8;
+
+/** Arrears first, then the latest payments and requests */
+function buildActivity(data: OwnerDashboard, catalog: Map<number, PropertyCatalogItem>): Activity[] {
+  const title = (propertyId: number) => catalog.get(propertyId)?.entry?.address_line ?? `Property #${propertyId}`;
+  const tokenOf = (propertyId: number) => {
+    const token = data.properties.find((property) => property.propertyId === propertyId)?.paymentToken;
+    return token ? data.tokens[token.toLowerCase()] : undefined;
+  };
+
+  const alerts: Activity[] = data.leases
+    .filter((lease) => lease.arrears > 0n)
+    .map((lease) => ({
+      key: `arrears-${lease.leaseId}`,
+      type: 'alert',
+      message: `Rent overdue at ${title(lease.propertyId)}: ${formatAmount(lease.arrears, tokenOf(lease.propertyId))} over ${
+        lease.periodsInArrears
+      } period${lease.periodsInArrears === 1 ? '' : 's'}`,
+    }));
+
+  const events: Activity[] = [
+    ...data.payments.map((payment, i): Activity => ({
+      key: `payment-${i}`,
+      type: 'payment',
+      message: `Rent received from ${title(payment.propertyId)}: ${formatAmount(payment.amount, tokenOf(payment.propertyId))}`,
+      timestamp: payment.timestamp,
+    })),
+    ...data.requests.map((request): Activity => ({
+      key: `request-${request.requestId}`,
+      type: 'maintenance',
+      message: `Maintenance #${request.requestId} at ${title(request.propertyId)}: ${MAINTENANCE_STATUS[request.status].label}`,
+      timestamp: request.createdAt,
+    })),
+  ].sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0));
+
+  return [...alerts, ...events].slice(0, ACTIVITY_LIMIT);
+}
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import type { ChainConfig } from '../config/chains';
+import { getRentFlowContracts, TokenInfo } from '../config/contracts';
+import { useTransaction } from '../hooks/useTransaction';
+import { newRequestFlow } from '../utils/actions';
+import { formatAmount } from '../utils/format';
+import { FieldErrors, RequestForm, validateRequest } from '../utils/forms';
+import type { OwnerProperty } from '../utils/rentflow';
+import { Field, inputClass, Modal } from './Modal';
+import { TransactionStatus } from './TransactionStatus';
+
+const EMPTY_FORM: RequestForm = { propertyId: '', description: '', estimatedCost: '', fundAmount: '' };
+
+/**
+ * requestMaintenance, after an optional fundMaintenance top-up
+ *
+ * The AI agent only approves what the property's fund covers, so the form
+ * shows the fund and offers to top it up in the same flow. Only the owner
+ * and their managers may fund it; tenants file the request alone.
+ */
+export const NewRequestModal = ({
+  isOpen,
+  onClose,
+  onConfirmed,
+  provider,
+  chain,
+  properties,
+  tokens,
+  propertyTitle,
+  canTopUp = true,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirmed: () => void;
+  provider: ethers.BrowserProvider | null;
+  chain: ChainConfig | null;
+  properties: OwnerProperty[];
+  /** Keyed by lowercased address */
+  tokens: Record<string, TokenInfo>;
+  propertyTitle: (propertyId: number) => string;
+  canTopUp?: boolean;
+}) => {
+  const { state, run, reset } = useTransaction();
+  const [form, setForm] = useState<RequestForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<FieldErrors<keyof RequestForm>>({});
+
+  const property = properties.find((candidate) => String(candidate.propertyId) === form.propertyId);
+  const token = property && tokens[property.paymentToken.toLowerCase()];
+  const busy = state.status === 'pending';
+
+  const close = () => {
+    if (busy) return;
+    reset();
+    setErrors({});
+    onClose();
+  };
+
+  const submit = async () => {
+    if (!provider || !chain) return;
+    const check = validateRequest(form, token?.decimals ?? 0);
+    setErrors(check.errors ?? {});
+    if (!check.values || !token) return;
+
+    const values = check.values;
+    const confirmed = await run(async (send) => {
+      const contracts = await getRentFlowContracts(await provider.getSigner(), chain.chainId);
+      if (!contracts) throw new Error(`RentFlow is not deployed on ${chain.name}.`);
+      return newRequestFlow(contracts.core, token, values)(send);
+    });
+    if (confirmed) {
+      setForm(EMPTY_FORM);
+      onConfirmed();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={close} title="Submit Maintenance Request">
+      <div className="space-y-4">
+        <Field label="Property" error={errors.propertyId}>
+          <select
+            value={form.propertyId}
+            onChange={(e) => setForm({ ...form, propertyId: e.target.value })}
+            className={inputClass(errors.propertyId)}
+            disabled={busy}
+          >
+            <option value="">Select a property</option>
+            {properties
+              .filter((candidate) => candidate.isActive)
+              .map((candidate) => (
+                <option key={candidate.propertyId} value={candidate.propertyId}>
+                  {propertyTitle(candidate.propertyId)}
+                </option>
+              ))}
+          </select>
+        </Field>
+        <Field label="Issue Description" error={errors.description}>
+          <textarea
+            rows={4}
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            className={inputClass(errors.description)}
+            placeholder="Describe the issue..."
+            disabled={busy}
+          />
+        </Field>
+        <Field label={`Estimated Cost (${token?.symbol ?? 'token'})`} error={errors.estimatedCost}>
+          <input
+            type="number"
+            min="0"
+            value={form.estimatedCost}
+            onChange={(e) => setForm({ ...form, estimatedCost: e.target.value })}
+            className={inputClass(errors.estimatedCost)}
+            placeholder="150"
+            disabled={busy}
+          />
+        </Field>
+        {canTopUp && (
+          <Field
+            label={`Top Up Maintenance Fund (${token?.symbol ?? 'token'}, optional)`}
+            error={errors.fundAmount}
+            hint={property && `The fund holds ${formatAmount(property.maintenanceFund, token)}; approvals are paid from it`}
+          >
+            <input
+              type="number"
+              min="0"
+              value={form.fundAmount}
+              onChange={(e) => setForm({ ...form, fundAmount: e.target.value })}
+              className={inputClass(errors.fundAmount)}
+              placeholder="0"
+              disabled={busy}
+            />
+          </Field>
+        )}
+
+        <TransactionStatus state={state} chain={chain} />
+        <button
+          onClick={submit}
+          disabled={busy}
+          className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {busy ? 'Working…' : 'Submit Request'}
+        </button>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,345 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { AlertTriangle, Bot, DollarSign, Home, Wrench } from 'lucide-react';
+import type { ChainConfig } from '../config/chains';
+import { getRentFlowContracts, TokenInfo } from '../config/contracts';
+import { MaintenanceReview, useMaintenanceReview } from '../hooks/useMaintenanceReview';
+import { useTenantPortal } from '../hooks/useTenantPortal';
+import { useTransaction } from '../hooks/useTransaction';
+import { payRentFlow } from '../utils/actions';
+import { formatAmount, timeAgo } from '../utils/format';
+import { isLiveLease, OwnerProperty, OwnerRequest, TenantLease } from '../utils/rentflow';
+import { Card, MaintenanceStatusBadge } from './Card';
+import { NewRequestModal } from './NewRequestModal';
+import { TransactionStatus } from './TransactionStatus';
+
+/**
+ * Tenant portal
+ *
+ * The connected wallet's leases with what is due and what was paid, read
+ * from RentFlowCore (loadTenantPortal), and the maintenance requests it
+ * filed with the AI engine's assessment from the backend, once the wallet
+ * has signed in to it.
+ */
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString();
+
+const ESCALATION_REASONS: Record<string, string> = {
+  category_blocked: 'The owner reviews this kind of work personally',
+  above_auto_approval_limit: 'The estimate is above what the AI agent may approve alone',
+  daily_cap_exceeded: "The property's daily maintenance budget is spent",
+  monthly_cap_exceeded: "The property's monthly maintenance budget is spent",
+};
+
+const REJECTION_REASONS: Record<string, string> = {
+  not_covered: 'Not covered by the lease',
+  duplicate: 'Duplicate of another request',
+  tenant_responsibility: "The tenant's responsibility under the lease",
+  not_essential: 'Not essential',
+  work_unsatisfactory: 'The work was not satisfactory',
+  other: 'Declined by the owner',
+};
+
+const Figure = ({ label, value, note, alert }: { label: string; value: string; note?: string; alert?: boolean }) => (
+  <div>
+    <p className="text-sm text-gray-600">{label}</p>
+    <p className={`text-xl font-semibold ${alert ? 'text-red-600' : ''}`}>{value}</p>
+    {note && <p className="text-xs text-gray-500">{note}</p>}
+  </div>
+);
+
+const LeaseCard = ({
+  lease,
+  token,
+  title,
+  provider,
+  chain,
+  onPaid,
+}: {
+  lease: TenantLease;
+  token: TokenInfo | undefined;
+  title: string;
+  provider: ethers.BrowserProvider | null;
+  chain: ChainConfig | null;
+  onPaid: () => void;
+}) => {
+  const { state, run } = useTransaction();
+  const busy = state.status === 'pending';
+  const due = lease.nextDue;
+
+  const pay = async () => {
+    if (!provider || !chain || !token) return;
+    const confirmed = await run(async (send) => {
+      const contracts = await getRentFlowContracts(await provider.getSigner(), chain.chainId);
+      if (!contracts) throw new Error(`RentFlow is not deployed on ${chain.name}.`);
+      return payRentFlow(contracts.core, token, lease.leaseId)(send);
+    });
+    if (confirmed) onPaid();
+  };
+
+  return (
+    <Card title={`${title} · Lease #${lease.leaseId}`} icon={<Home size={20} />}>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <Figure
+          label="Next Due"
+          value={due ? formatDate(due.dueDate) : '–'}
+          note={due ? `Month ${due.period + 1} of ${lease.periodCount}` : 'Every month is paid'}
+        />
+        <Figure
+          label="Amount Owed"
+          value={formatAmount(lease.arrears, token)}
+          note={
+            lease.periodsInArrears > 0
+              ? `${lease.periodsInArrears} month${lease.periodsInArrears === 1 ? '' : 's'} overdue`
+              : 'Nothing overdue'
+          }
+          alert={lease.arrears > 0n}
+        />
+        <Figure label="Deposit Held" value={formatAmount(lease.securityDepositHeld, token)} />
+        <Figure
+          label="Lease Term"
+          value={`${formatDate(lease.startDate)} – ${formatDate(lease.endDate)}`}
+          note={`Rent due on day ${lease.rentDueDay}; ${formatAmount(lease.totalPaid, token)} paid so far`}
+        />
+      </div>
+
+      {lease.status !== 'active' && (
+        <span className="inline-block mb-4 px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-700 capitalize">
+          {lease.status}
+        </span>
+      )}
+      {due && lease.payable && (
+        <div className="space-y-3">
+          <button
+            onClick={pay}
+            disabled={busy || !token}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy
+              ? 'Working…'
+              : `Pay ${formatAmount(due.rentAmount + due.lateFee, token)}${
+                  due.lateFee > 0n ? ` (incl. ${formatAmount(due.lateFee, token)} late fee)` : ''
+                }`}
+          </button>
+          <TransactionStatus state={state} chain={chain} />
+        </div>
+      )}
+      {due && !lease.payable && lease.status === 'active' && (
+        <p className="text-sm text-gray-600">Rent can be paid once the lease starts on {formatDate(lease.startDate)}.</p>
+      )}
+    </Card>
+  );
+};
+
+const Assessment = ({
+  request,
+  review,
+  onAssess,
+}: {
+  request: OwnerRequest;
+  review: MaintenanceReview | undefined;
+  onAssess: (request: OwnerRequest) => Promise<void>;
+}) => {
+  const [assessing, setAssessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latest = review?.decisions?.[0];
+
+  const assess = async () => {
+    setAssessing(true);
+    setError(null);
+    try {
+      await onAssess(request);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setAssessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      {review?.escalation_reason && (
+        <p className="text-orange-700">{ESCALATION_REASONS[review.escalation_reason]}; waiting for the owner.</p>
+      )}
+      {review?.rejection_reason && <p className="text-gray-700">{REJECTION_REASONS[review.rejection_reason]}.</p>}
+      {latest ? (
+        <div className="p-3 bg-blue-50 rounded-lg">
+          <p className="flex items-center gap-2 font-medium text-blue-800">
+            <Bot size={16} />
+            AI agent: {latest.decision} · {latest.urgency} urgency · {latest.confidence}% confident
+          </p>
+          <p className="text-gray-700 mt-1">{latest.reasoning}</p>
+        </div>
+      ) : (
+        // Decisions are recorded only when the backend has a database
+        review?.decisions &&
+        request.status === 'pending' && (
+          <button onClick={assess} disabled={assessing} className="text-blue-600 hover:underline disabled:opacity-50">
+            {assessing ? 'Assessing…' : 'Ask the AI agent to assess this request'}
+          </button>
+        )
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export const TenantPortal = ({
+  provider,
+  chain,
+  chainId,
+  account,
+  token,
+}: {
+  provider: ethers.BrowserProvider | null;
+  chain: ChainConfig | null;
+  chainId: number | null;
+  account: string;
+  /** Backend session; AI assessments are hidden without one */
+  token: string | null;
+}) => {
+  const { status, data, error, refresh } = useTenantPortal(provider, chainId, chain ? account : null);
+  const { reviews, error: reviewError, assess } = useMaintenanceReview(data?.requests ?? [], token);
+  const [showRequestModal, setShowRequestModal] = useState(false);
+
+  if (status === 'error' && !data) {
+    return (
+      <Card title="Could not load your leases" icon={<AlertTriangle size={20} />}>
+        <p className="text-red-600 mb-4">{error}</p>
+        <button onClick={refresh} className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700">
+          Retry
+        </button>
+      </Card>
+    );
+  }
+  if (!data) return <p className="text-gray-600">Loading from {chain?.name}...</p>;
+
+  const propertyById = new Map(data.properties.map((property) => [property.propertyId, property]));
+  const tokenOf = (propertyId: number) => {
+    const token = propertyById.get(propertyId)?.paymentToken;
+    return token ? data.tokens[token.toLowerCase()] : undefined;
+  };
+  const propertyTitle = (propertyId: number) => {
+    const property = propertyById.get(propertyId);
+    return property && property.buildingId !== null ? `Unit #${propertyId}` : `Property #${propertyId}`;
+  };
+  // requestMaintenance accepts tenants of a live lease only
+  const requestable = data.leases
+    .filter(isLiveLease)
+    .map((lease) => propertyById.get(lease.propertyId))
+    .filter((property): property is OwnerProperty => property !== undefined);
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold">My Leases</h2>
+      {data.leases.length === 0 && <p className="text-gray-600">This wallet is not a tenant on any RentFlow lease.</p>}
+      {data.leases.map((lease) => (
+        <LeaseCard
+          key={lease.leaseId}
+          lease={lease}
+          token={tokenOf(lease.propertyId)}
+          title={propertyTitle(lease.propertyId)}
+          provider={provider}
+          chain={chain}
+          onPaid={refresh}
+        />
+      ))}
+
+      <Card title="Payment History" icon={<DollarSign size={20} />}>
+        {data.payments.length === 0 && <p className="text-gray-600">No rent paid yet.</p>}
+        <div className="space-y-3">
+          {[...data.payments].reverse().map((payment) => (
+            <div
+              key={`${payment.transactionHash}-${payment.leaseId}`}
+              className="p-3 bg-gray-50 rounded-lg flex justify-between items-center"
+            >
+              <div>
+                <p className="font-semibold">
+                  {formatAmount(payment.amount + payment.lateFee, tokenOf(payment.propertyId))}
+                  {payment.lateFee > 0n && (
+                    <span className="text-sm font-normal text-red-600">
+                      {' '}
+                      incl. {formatAmount(payment.lateFee, tokenOf(payment.propertyId))} late fee
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {propertyTitle(payment.propertyId)}
+                  {payment.periods.length > 0 && ` · month ${payment.periods.map((period) => period + 1).join(', ')}`}
+                  {' · '}
+                  {formatDate(payment.timestamp)}
+                </p>
+              </div>
+              {chain?.blockExplorerUrl && (
+                <a
+                  href={`${chain.blockExplorerUrl}/tx/${payment.transactionHash}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  View transaction
+                </a>
+              )}
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">My Maintenance Requests</h2>
+        <button
+          onClick={() => setShowRequestModal(true)}
+          disabled={requestable.length === 0}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          + New Request
+        </button>
+      </div>
+      {reviewError && <p className="text-sm text-gray-500">AI assessments unavailable: {reviewError}</p>}
+      {!token && data.requests.length > 0 && (
+        <p className="text-sm text-gray-500">Sign in with your wallet to see the AI agent's assessments.</p>
+      )}
+      {data.requests.length === 0 && <p className="text-gray-600">You have not filed any maintenance requests.</p>}
+      <div className="space-y-4">
+        {[...data.requests].reverse().map((r) => (
+          <Card key={r.requestId} title={`Request #${r.requestId}`} icon={<Wrench size={20} />}>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+              <div>
+                <p className="text-sm text-gray-500">Property</p>
+                <p className="font-semibold">{propertyTitle(r.propertyId)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Issue</p>
+                <p className="font-semibold">{r.description}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">{r.approvedAmount > 0n ? 'Approved' : 'Estimate'}</p>
+                <p className="font-semibold">
+                  {formatAmount(r.approvedAmount > 0n ? r.approvedAmount : r.estimatedCost, tokenOf(r.propertyId))}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Status</p>
+                <MaintenanceStatusBadge status={r.status} />
+                <p className="text-xs text-gray-500 mt-1">{timeAgo(r.createdAt)}</p>
+              </div>
+            </div>
+            <Assessment request={r} review={reviews.get(r.requestId)} onAssess={assess} />
+          </Card>
+        ))}
+      </div>
+
+      <NewRequestModal
+        isOpen={showRequestModal}
+        onClose={() => setShowRequestModal(false)}
+        onConfirmed={refresh}
+        provider={provider}
+        chain={chain}
+        properties={requestable}
+        tokens={data.tokens}
+        propertyTitle={propertyTitle}
+        canTopUp={false}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import type { ChainConfig } from '../config/chains';
+import type { TransactionState } from '../hooks/useTransaction';
+
+/** Pending, confirmed and failed states of a transaction flow */
+export const TransactionStatus = ({ state, chain }: { state: TransactionState; chain: ChainConfig | null }) => {
+  if (state.status === 'idle') return null;
+  const link = state.hash && chain?.blockExplorerUrl && (
+    <a href={`${chain.blockExplorerUrl}/tx/${state.hash}`} target="_blank" rel="noreferrer" className="underline">
+      View transaction
+    </a>
+  );
+
+  if (state.status === 'pending') {
+    return (
+      <div className="p-3 rounded-lg bg-blue-50 text-blue-800 text-sm">
+        <p className="font-medium">{state.step}</p>
+        <p>{state.awaitingWallet ? 'Confirm in your wallet…' : 'Waiting for the transaction to be confirmed…'}</p>
+        {link}
+      </div>
+    );
+  }
+  if (state.status === 'confirmed') {
+    return (
+      <div className="p-3 rounded-lg bg-green-50 text-green-800 text-sm">
+        <p>{state.message}</p>
+        {link}
+      </div>
+    );
+  }
+  return (
+    <div className="p-3 rounded-lg bg-red-50 text-red-800 text-sm">
+      <p className="font-medium">{state.step ? `${state.step} failed` : 'Could not send the transaction'}</p>
+      <p>{state.message}</p>
+      {link}
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+/**
+ * Chains the dashboard can run against
+ *
+ * DECISION: Support a fixed list of chains and offer to switch the wallet to
+ *           one of them, instead of following whatever chain it is on
+ * REASON: RentFlowCore only exists where scripts/deploy.ts put it; on any
+ *         other chain every read would fail, so the dashboard names the
+ *         networks it knows and lets the wallet add them (EIP-3085)
+ */
+
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  /** Arc pays gas in USDC; Hardhat in ETH */
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  blockExplorerUrl?: string;
+}
+
+export const ARC_CHAIN: ChainConfig = {
+  chainId: Number(process.env.REACT_APP_ARC_CHAIN_ID || 5042002),
+  name: 'Arc Testnet',
+  rpcUrl: process.env.REACT_APP_ARC_RPC_URL || 'https://rpc.testnet.arc.network',
+  nativeCurrency: { name: 'USDC', symbol: 'USDC', decimals: 18 },
+  blockExplorerUrl: process.env.REACT_APP_ARC_EXPLORER_URL || 'https://testnet.arcscan.app',
+};
+
+export const HARDHAT_CHAIN: ChainConfig = {
+  chainId: 31337,
+  name: 'Hardhat (local)',
+  rpcUrl: 'http://127.0.0.1:8545',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+};
+
+export const SUPPORTED_CHAINS: readonly ChainConfig[] = [ARC_CHAIN, HARDHAT_CHAIN];
+
+export function getChain(chainId: number | null): ChainConfig | null {
+  return SUPPORTED_CHAINS.find((chain) => chain.chainId === chainId) ?? null;
+}
+
+/** Parameters for wallet_addEthereumChain */
+export function toAddChainParams(chain: ChainConfig) {
+  return {
+    chainId: toHexChainId(chain.chainId),
+    chainName: chain.name,
+    rpcUrls: [chain.rpcUrl],
+    nativeCurrency: chain.nativeCurrency,
+    blockExplorerUrls: chain.blockExplorerUrl ? [chain.blockExplorerUrl] : undefined,
+  };
+}
+
+export const toHexChainId = (chainId: number): string => `0x${chainId.toString(16)}`;
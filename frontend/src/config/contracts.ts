@@ -0,0 +1,65 @@
+import { ethers } from 'ethers';
+import {
+  IERC20Metadata__factory,
+  RentFlowCore,
+  RentFlowCore__factory,
+  RentFlowLens,
+  RentFlowLens__factory,
+} from '../../../typechain-types';
+import { getDeployment } from './deployments';
+
+/**
+ * Typed RentFlow contracts for the connected chain
+ *
+ * The bindings are the typechain output of `npx hardhat compile`
+ * (typechain-types/ at the repo root), so a contract change that breaks the
+ * dashboard's reads fails the frontend build instead of a user's session.
+ */
+
+export interface RentFlowContracts {
+  core: RentFlowCore;
+  lens: RentFlowLens;
+  /** Where RentFlowCore was deployed; no log predates it */
+  fromBlock: number;
+}
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+/** Returns null when RentFlowCore or RentFlowLens is not deployed on `chainId` */
+export async function getRentFlowContracts(
+  runner: ethers.ContractRunner,
+  chainId: number
+): Promise<RentFlowContracts | null> {
+  const deployment = await getDeployment(chainId);
+  const core = deployment?.contracts.RentFlowCore;
+  const lens = deployment?.contracts.RentFlowLens;
+  if (!core || !lens) return null;
+  return {
+    core: RentFlowCore__factory.connect(core.address, runner),
+    lens: RentFlowLens__factory.connect(lens.address, runner),
+    fromBlock: core.blockNumber ?? 0,
+  };
+}
+
+const tokenCache = new Map<string, Promise<TokenInfo>>();
+
+/** Symbol and decimals of an ERC-20, read once per address */
+export function getTokenInfo(runner: ethers.ContractRunner, address: string): Promise<TokenInfo> {
+  const key = address.toLowerCase();
+  let info = tokenCache.get(key);
+  if (!info) {
+    const token = IERC20Metadata__factory.connect(address, runner);
+    info = Promise.all([token.symbol(), token.decimals()]).then(([symbol, decimals]) => ({
+      address,
+      symbol,
+      decimals: Number(decimals),
+    }));
+    tokenCache.set(key, info);
+    info.catch(() => tokenCache.delete(key));
+  }
+  return info;
+}
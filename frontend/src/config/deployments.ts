@@ -0,0 +1,53 @@
+/**
+ * Contract addresses for the connected chain
+ *
+ * DECISION: Fetch the deployment registry from the backend's
+ *           /api/deployments/:chainId instead of baking addresses into the build
+ * REASON: scripts/deploy.ts records every chain in deployments/<chainId>.json;
+ *         one build works against a local node and Arc, and a redeploy needs
+ *         no frontend release
+ */
+
+export interface DeployedContract {
+  address: string;
+  blockNumber?: number;
+  transactionHash?: string;
+}
+
+export interface Deployment {
+  chainId: number;
+  network: string;
+  updatedAt: string;
+  contracts: Record<string, DeployedContract>;
+  aiAgents: string[];
+}
+
+export const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
+
+const cache = new Map<number, Promise<Deployment | null>>();
+
+/** Returns null when RentFlow is not deployed on `chainId` */
+export function getDeployment(chainId: number): Promise<Deployment | null> {
+  let deployment = cache.get(chainId);
+  if (!deployment) {
+    deployment = fetchDeployment(chainId);
+    cache.set(chainId, deployment);
+    // Let a failed request be retried instead of caching the rejection
+    deployment.catch(() => cache.delete(chainId));
+  }
+  return deployment;
+}
+
+/** Address of `name` (e.g. "RentFlowCore", "USDC") on `chainId`, or null */
+export async function getContractAddress(chainId: number, name: string): Promise<string | null> {
+  const deployment = await getDeployment(chainId);
+  return deployment?.contracts[name]?.address ?? null;
+}
+
+async function fetchDeployment(chainId: number): Promise<Deployment | null> {
+  const response = await fetch(`${API_URL}/api/deployments/${chainId}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Deployment lookup failed: HTTP ${response.status}`);
+  const body = (await response.json()) as { deployment: Deployment };
+  return body.deployment;
+}
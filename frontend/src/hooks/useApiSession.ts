@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import { apiFetch } from '../utils/api';
+
+/**
+ * A backend session for the connected wallet, by Sign-In with Ethereum
+ *
+ * DECISION: Sign in as soon as the wallet is connected on a supported chain,
+ *           and keep the token in sessionStorage per account until it expires
+ * REASON: The backend shows each wallet only its own leases, requests and
+ *         scores, so nearly every call needs the session; storing it per tab
+ *         means one signature per visit rather than one per page load
+ *
+ * The wallet shows the message before signing: it names this site, the
+ * account and the chain, and carries a single-use nonce from the backend
+ * (GET /api/auth/nonce, POST /api/auth/verify). If the user declines, the
+ * dashboard offers a Sign in button instead of prompting again.
+ */
+
+export type ApiSessionStatus = 'signed-out' | 'signing-in' | 'signed-in';
+
+export interface ApiSession {
+  status: ApiSessionStatus;
+  /** Bearer token for backend requests; null until signed in */
+  token: string | null;
+  error: string | null;
+  signIn(): Promise<void>;
+  signOut(): void;
+}
+
+interface StoredSession {
+  token: string;
+  /** Unix seconds */
+  expires_at: number;
+}
+
+const STORAGE_PREFIX = 'rentflow.api.session.';
+// Sign in again a little early rather than send a token about to lapse
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const storageKey = (account: string) => `${STORAGE_PREFIX}${account.toLowerCase()}`;
+
+function readSession(account: string): StoredSession | null {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(storageKey(account)) ?? 'null') as StoredSession | null;
+    if (stored && stored.expires_at * 1000 - EXPIRY_MARGIN_MS > Date.now()) return stored;
+  } catch {
+    // Unreadable: treat as signed out
+  }
+  sessionStorage.removeItem(storageKey(account));
+  return null;
+}
+
+/** An EIP-4361 message for this site */
+function siweMessage(account: string, chainId: number, nonce: string): string {
+  return [
+    `${window.location.host} wants you to sign in with your Ethereum account:`,
+    account,
+    '',
+    'Sign in to RentFlow AI to see your properties, leases and maintenance requests.',
+    '',
+    `URI: ${window.location.origin}`,
+    'Version: 1',
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date().toISOString()}`,
+  ].join('\n');
+}
+
+export function useApiSession(
+  provider: ethers.BrowserProvider | null,
+  chainId: number | null,
+  /** Null until connected on a supported chain */
+  account: string | null
+): ApiSession {
+  const [session, setSession] = useState<StoredSession | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Accounts the user declined to sign in with; not prompted again automatically
+  const declined = useRef(new Set<string>());
+  // One wallet prompt at a time, e.g. when the chain changes mid sign-in
+  const inFlight = useRef(false);
+
+  const signIn = useCallback(async () => {
+    if (!provider || !account || chainId === null || inFlight.current) return;
+    inFlight.current = true;
+    setSigningIn(true);
+    setError(null);
+    try {
+      const nonce = await apiFetch<{ nonce: string }>('/api/auth/nonce', null);
+      if (!nonce.body.nonce) throw new Error(nonce.body.error ?? 'Sign-in is unavailable');
+
+      const message = siweMessage(account, chainId, nonce.body.nonce);
+      const signature = await (await provider.getSigner(account)).signMessage(message);
+      const verified = await apiFetch<{ token: string; session: { expires_at: number } }>('/api/auth/verify', null, {
+        method: 'POST',
+        body: { message, signature },
+      });
+      if (!verified.body.token || !verified.body.session) throw new Error(verified.body.error ?? 'Sign-in failed');
+
+      const signedIn = { token: verified.body.token, expires_at: verified.body.session.expires_at };
+      sessionStorage.setItem(storageKey(account), JSON.stringify(signedIn));
+      setSession(signedIn);
+    } catch (err) {
+      declined.current.add(account);
+      setError(
+        ethers.isError(err, 'ACTION_REJECTED')
+          ? 'You declined to sign in; your leases and requests stay hidden until you do.'
+          : err instanceof Error
+            ? err.message
+            : 'Sign-in failed'
+      );
+    } finally {
+      inFlight.current = false;
+      setSigningIn(false);
+    }
+  }, [provider, account, chainId]);
+
+  const signOut = useCallback(() => {
+    if (account) sessionStorage.removeItem(storageKey(account));
+    setSession(null);
+  }, [account]);
+
+  // Restore the account's session, or sign in, whenever the account or chain changes
+  useEffect(() => {
+    setError(null);
+    if (!account || !provider || chainId === null) {
+      setSession(null);
+      return;
+    }
+    const stored = readSession(account);
+    setSession(stored);
+    if (!stored && !declined.current.has(account)) void signIn();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [account, chainId, provider]);
+
+  // Tokens are not refreshed: sign in again once this one lapses
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(() => {
+      signOut();
+      void signIn();
+    }, Math.max(session.expires_at * 1000 - EXPIRY_MARGIN_MS - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [session, signIn, signOut]);
+
+  return {
+    status: session ? 'signed-in' : signingIn ? 'signing-in' : 'signed-out',
+    token: session?.token ?? null,
+    error,
+    signIn,
+    signOut,
+  };
+}
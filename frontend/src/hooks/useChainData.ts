@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import { getContractAddress } from '../config/deployments';
+
+export type LoadStatus = 'idle' | 'loading' | 'ready' | 'not_deployed' | 'error';
+
+export interface ChainDataState<T> {
+  status: LoadStatus;
+  /** The last successful load; kept while a refresh is in flight */
+  data: T | null;
+  error: string | null;
+  refresh(): void;
+}
+
+/** Resolves to null when RentFlow is not deployed on `chainId` */
+export type ChainDataLoader<T> = (provider: ethers.Provider, chainId: number, account: string) => Promise<T | null>;
+
+/** Coalesce a burst of RentFlowCore logs (e.g. one per unit) into one reload */
+const RELOAD_DELAY_MS = 1500;
+
+/**
+ * What `load` reads for the connected account, reloaded whenever RentFlowCore
+ * emits a log
+ *
+ * Any RentFlowCore log may change a figure on the page, so the hook listens
+ * for the contract's logs rather than a list of event names. `load` must be
+ * a module-level function; a new one on each render reloads every render.
+ */
+export function useChainData<T>(
+  load: ChainDataLoader<T>,
+  provider: ethers.BrowserProvider | null,
+  chainId: number | null,
+  account: string | null
+): ChainDataState<T> {
+  const [status, setStatus] = useState<LoadStatus>('idle');
+  const [data, setData] = useState<T | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const reloadTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const refresh = useCallback(() => setVersion((current) => current + 1), []);
+
+  useEffect(() => {
+    if (!provider || chainId === null || !account) {
+      setStatus('idle');
+      setData(null);
+      return;
+    }
+    let cancelled = false;
+    setStatus('loading');
+    load(provider, chainId, account)
+      .then((loaded) => {
+        if (cancelled) return;
+        setData(loaded);
+        setStatus(loaded ? 'ready' : 'not_deployed');
+        setError(null);
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        setError(err.message);
+        setStatus('error');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [load, provider, chainId, account, version]);
+
+  useEffect(() => {
+    if (!provider || chainId === null || !account) return;
+    let cancelled = false;
+    let filter: ethers.Filter | null = null;
+    const onLog = () => {
+      if (reloadTimer.current) clearTimeout(reloadTimer.current);
+      reloadTimer.current = setTimeout(refresh, RELOAD_DELAY_MS);
+    };
+
+    getContractAddress(chainId, 'RentFlowCore')
+      .then((address) => {
+        if (cancelled || !address) return;
+        filter = { address };
+        provider.on(filter, onLog);
+      })
+      .catch(() => undefined); // The load above reports registry failures
+    return () => {
+      cancelled = true;
+      if (filter) provider.off(filter, onLog);
+      if (reloadTimer.current) clearTimeout(reloadTimer.current);
+    };
+  }, [provider, chainId, account, refresh]);
+
+  return { status, data, error, refresh };
+}
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from 'react';
+import { apiFetch } from '../utils/api';
+import type { OwnerRequest } from '../utils/rentflow';
+
+/**
+ * The AI engine's assessments and the indexed trail of maintenance requests
+ *
+ * Status comes from chain with the request itself; why the AI agent
+ * escalated or rejected it, and its reasoning, only the backend knows
+ * (GET /api/maintenance/:id and /api/maintenance/:id/decisions). Both, and
+ * assessments, need the wallet's session from useApiSession; without one
+ * there are no reviews.
+ */
+
+export type EscalationReason =
+  | 'category_blocked'
+  | 'above_auto_approval_limit'
+  | 'daily_cap_exceeded'
+  | 'monthly_cap_exceeded';
+
+export type RejectionReason =
+  | 'not_covered'
+  | 'duplicate'
+  | 'tenant_responsibility'
+  | 'not_essential'
+  | 'work_unsatisfactory'
+  | 'other';
+
+export interface AIDecisionView {
+  decision: 'approve' | 'reject' | 'escalate';
+  reasoning: string;
+  /** 0-100 */
+  confidence: number;
+  approved_amount: string;
+  urgency: 'low' | 'medium' | 'high';
+  category: string;
+  provider: string;
+  created_at: string;
+}
+
+export interface MaintenanceReview {
+  escalation_reason: EscalationReason | null;
+  rejection_reason: RejectionReason | null;
+  contractor: string | null;
+  /** Newest first; null when the backend keeps no decision history */
+  decisions: AIDecisionView[] | null;
+}
+
+interface ReviewBody {
+  request: { escalation_reason: EscalationReason | null; rejection_reason: RejectionReason | null; contractor: string | null };
+  decisions: AIDecisionView[];
+}
+
+async function fetchReview(requestId: number, token: string): Promise<MaintenanceReview | null> {
+  const [tracked, history] = await Promise.all(
+    [`/api/maintenance/${requestId}`, `/api/maintenance/${requestId}/decisions`].map((path) =>
+      apiFetch<ReviewBody>(path, token)
+    )
+  );
+  // Not indexed yet, not visible to this wallet, or no contract configured on the backend
+  if (!tracked.body.request) return null;
+  if (!history.body.success && history.status !== 503) throw new Error(history.body.error);
+  return { ...tracked.body.request, decisions: history.body.decisions ?? null };
+}
+
+export function useMaintenanceReview(
+  requests: OwnerRequest[],
+  /** Session token from useApiSession */
+  token: string | null
+): {
+  reviews: Map<number, MaintenanceReview>;
+  error: string | null;
+  /** Ask the AI engine to assess a request and record its decision */
+  assess(request: OwnerRequest): Promise<void>;
+} {
+  const [reviews, setReviews] = useState<Map<number, MaintenanceReview>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  // Requests are reloaded on every contract log; refetch only when they change
+  const key = requests.map((request) => `${request.requestId}:${request.status}`).join(',');
+
+  useEffect(() => {
+    if (!token) {
+      setReviews(new Map());
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+    Promise.all(
+      requests.map(async (request) => [request.requestId, await fetchReview(request.requestId, token)] as const)
+    )
+      .then((loaded) => {
+        if (cancelled) return;
+        const found = loaded.filter((entry): entry is readonly [number, MaintenanceReview] => entry[1] !== null);
+        setReviews(new Map(found));
+        setError(null);
+      })
+      .catch((err: Error) => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, token]);
+
+  const assess = useCallback(
+    async (request: OwnerRequest) => {
+      if (!token) throw new Error('Sign in with your wallet to ask the AI agent');
+      const { body } = await apiFetch('/api/maintenance/evaluate', token, {
+        method: 'POST',
+        body: {
+          requestId: request.requestId,
+          propertyId: request.propertyId,
+          description: request.description,
+          estimatedCost: Number(request.estimatedCost),
+        },
+      });
+      if (!body.success) throw new Error(body.error);
+      const review = await fetchReview(request.requestId, token);
+      if (review) setReviews((current) => new Map(current).set(request.requestId, review));
+    },
+    [token]
+  );
+
+  return { reviews, error, assess };
+}
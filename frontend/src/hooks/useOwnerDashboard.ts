@@ -0,0 +1,12 @@
+import { ethers } from 'ethers';
+import { loadOwnerDashboard, OwnerDashboard } from '../utils/rentflow';
+import { ChainDataState, useChainData } from './useChainData';
+
+/** The connected owner's properties, leases, requests and payments */
+export function useOwnerDashboard(
+  provider: ethers.BrowserProvider | null,
+  chainId: number | null,
+  owner: string | null
+): ChainDataState<OwnerDashboard> {
+  return useChainData(loadOwnerDashboard, provider, chainId, owner);
+}
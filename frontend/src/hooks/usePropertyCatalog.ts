@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { apiFetch } from '../utils/api';
+
+/**
+ * Catalog entries (address, photos, documents) for an owner's properties
+ *
+ * Rent, tokens and occupancy come from chain; the catalog adds what is only
+ * stored off chain, checked by the backend against each property's on-chain
+ * metadata hash (GET /api/properties?owner=). The route needs the wallet's
+ * session, so the catalog stays empty until the user signs in.
+ */
+
+export interface CatalogDocument {
+  name: string;
+  uri: string;
+  content_hash: string;
+}
+
+export interface CatalogEntry {
+  address_line: string;
+  city: string | null;
+  unit_type: string | null;
+  bedrooms: number | null;
+  amenities: string[];
+  photos: string[];
+  documents: CatalogDocument[];
+}
+
+export type CatalogStatus = 'verified' | 'missing' | 'unset';
+
+export interface PropertyCatalogItem {
+  property_id: number;
+  catalog_status: CatalogStatus;
+  entry: CatalogEntry | null;
+}
+
+export function usePropertyCatalog(
+  owner: string | null,
+  /** Session token from useApiSession */
+  token: string | null
+): {
+  catalog: Map<number, PropertyCatalogItem>;
+  error: string | null;
+} {
+  const [catalog, setCatalog] = useState<Map<number, PropertyCatalogItem>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!owner || !token) {
+      setCatalog(new Map());
+      return;
+    }
+    let cancelled = false;
+    apiFetch<{ properties: PropertyCatalogItem[] }>(`/api/properties?owner=${owner}`, token)
+      .then(({ body }) => {
+        if (cancelled) return;
+        if (!body.success) throw new Error(body.error);
+        setCatalog(new Map((body.properties ?? []).map((item) => [item.property_id, item])));
+        setError(null);
+      })
+      .catch((err: Error) => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [owner, token]);
+
+  return { catalog, error };
+}
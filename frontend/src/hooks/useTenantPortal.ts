@@ -0,0 +1,12 @@
+import { ethers } from 'ethers';
+import { loadTenantPortal, TenantPortal } from '../utils/rentflow';
+import { ChainDataState, useChainData } from './useChainData';
+
+/** The connected tenant's leases, rent due, payments and requests */
+export function useTenantPortal(
+  provider: ethers.BrowserProvider | null,
+  chainId: number | null,
+  tenant: string | null
+): ChainDataState<TenantPortal> {
+  return useChainData(loadTenantPortal, provider, chainId, tenant);
+}
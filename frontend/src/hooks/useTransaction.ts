@@ -0,0 +1,70 @@
+import { useCallback, useState } from 'react';
+import { ethers } from 'ethers';
+import { describeTransactionError } from '../utils/errors';
+
+export type TransactionStatus = 'idle' | 'pending' | 'confirmed' | 'failed';
+
+export interface TransactionState {
+  status: TransactionStatus;
+  /** The step in flight, e.g. "Approve USDC" */
+  step: string | null;
+  /** True while the wallet is asking the user to sign */
+  awaitingWallet: boolean;
+  /** The last transaction sent */
+  hash: string | null;
+  /** What succeeded, or why it failed, in plain words */
+  message: string | null;
+}
+
+/** Sends one transaction of a flow and resolves once it is mined */
+export type SendStep = (
+  step: string,
+  send: () => Promise<ethers.ContractTransactionResponse>
+) => Promise<ethers.ContractTransactionReceipt>;
+
+const IDLE: TransactionState = { status: 'idle', step: null, awaitingWallet: false, hash: null, message: null };
+
+/**
+ * Runs a flow of transactions one after another (e.g. approve, then fund)
+ *
+ * The flow sends each transaction through `send`, which reports the wallet
+ * prompt and the wait for confirmation; the flow's return value is the
+ * success message. The first failure stops the flow.
+ */
+export function useTransaction(): {
+  state: TransactionState;
+  run(flow: (send: SendStep) => Promise<string>): Promise<boolean>;
+  reset(): void;
+} {
+  const [state, setState] = useState<TransactionState>(IDLE);
+
+  const run = useCallback(async (flow: (send: SendStep) => Promise<string>) => {
+    const send: SendStep = async (step, sendTransaction) => {
+      setState({ status: 'pending', step, awaitingWallet: true, hash: null, message: null });
+      const tx = await sendTransaction();
+      setState({ status: 'pending', step, awaitingWallet: false, hash: tx.hash, message: null });
+      const receipt = await tx.wait();
+      // wait() throws on a revert; null only for a replaced transaction
+      if (!receipt) throw new Error(`${step}: the transaction was replaced`);
+      return receipt;
+    };
+
+    try {
+      const message = await flow(send);
+      setState((current) => ({ ...current, status: 'confirmed', step: null, awaitingWallet: false, message }));
+      return true;
+    } catch (error) {
+      setState((current) => ({
+        ...current,
+        status: 'failed',
+        awaitingWallet: false,
+        message: describeTransactionError(error),
+      }));
+      return false;
+    }
+  }, []);
+
+  const reset = useCallback(() => setState(IDLE), []);
+
+  return { state, run, reset };
+}
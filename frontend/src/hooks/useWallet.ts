@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ethers } from 'ethers';
+import { ChainConfig, getChain, toAddChainParams, toHexChainId } from '../config/chains';
+
+/**
+ * Wallet connection for an injected EIP-1193 provider (MetaMask and alike)
+ *
+ * DECISION: Remember only that the user connected, and restore the session
+ *           with eth_accounts on load
+ * REASON: The wallet is the source of truth for the account; eth_accounts
+ *         returns it without a prompt while the site is still authorized, and
+ *         returns nothing once the user revokes access in the wallet
+ *
+ * The account and chain follow the wallet's accountsChanged and chainChanged
+ * events. The provider is rebuilt per chain, since an ethers provider refuses
+ * to serve calls once its network changes underneath it.
+ */
+
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] | object }): Promise<unknown>;
+  on?(event: string, listener: (...args: never[]) => void): void;
+  removeListener?(event: string, listener: (...args: never[]) => void): void;
+}
+
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider;
+  }
+}
+
+export type WalletStatus = 'unavailable' | 'disconnected' | 'connecting' | 'connected';
+
+export interface Wallet {
+  status: WalletStatus;
+  /** Checksummed, null until connected */
+  account: string | null;
+  chainId: number | null;
+  /** The supported chain the wallet is on, null on any other */
+  chain: ChainConfig | null;
+  isWrongNetwork: boolean;
+  /** Null until connected */
+  provider: ethers.BrowserProvider | null;
+  error: string | null;
+  connect(): Promise<void>;
+  disconnect(): void;
+  switchChain(chainId: number): Promise<void>;
+}
+
+const SESSION_KEY = 'rentflow.wallet.connected';
+
+/** EIP-1193 / EIP-3085 error codes */
+const USER_REJECTED = 4001;
+const UNRECOGNIZED_CHAIN = 4902;
+
+const errorCode = (error: unknown): number | undefined =>
+  typeof error === 'object' && error !== null && 'code' in error ? Number((error as { code: unknown }).code) : undefined;
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  errorCode(error) === USER_REJECTED ? 'Request rejected in wallet' : error instanceof Error ? error.message : fallback;
+
+export function useWallet(): Wallet {
+  const ethereum = typeof window === 'undefined' ? undefined : window.ethereum;
+  const [account, setAccount] = useState<string | null>(null);
+  const [chainId, setChainId] = useState<number | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const adopt = useCallback(
+    async (accounts: string[]) => {
+      if (!ethereum || accounts.length === 0) {
+        setAccount(null);
+        localStorage.removeItem(SESSION_KEY);
+        return;
+      }
+      setAccount(ethers.getAddress(accounts[0]));
+      setChainId(Number(await ethereum.request({ method: 'eth_chainId' })));
+      localStorage.setItem(SESSION_KEY, '1');
+    },
+    [ethereum]
+  );
+
+  // Restore a previous session without prompting
+  useEffect(() => {
+    if (!ethereum || localStorage.getItem(SESSION_KEY) !== '1') return;
+    ethereum
+      .request({ method: 'eth_accounts' })
+      .then((accounts) => adopt(accounts as string[]))
+      .catch(() => localStorage.removeItem(SESSION_KEY));
+  }, [ethereum, adopt]);
+
+  useEffect(() => {
+    if (!ethereum?.on || !account) return;
+    const onAccountsChanged = (accounts: string[]) => void adopt(accounts);
+    const onChainChanged = (hexChainId: string) => setChainId(Number(hexChainId));
+    const onDisconnect = () => setChainId(null);
+
+    ethereum.on('accountsChanged', onAccountsChanged);
+    ethereum.on('chainChanged', onChainChanged);
+    ethereum.on('disconnect', onDisconnect);
+    return () => {
+      ethereum.removeListener?.('accountsChanged', onAccountsChanged);
+      ethereum.removeListener?.('chainChanged', onChainChanged);
+      ethereum.removeListener?.('disconnect', onDisconnect);
+    };
+  }, [ethereum, account, adopt]);
+
+  const connect = useCallback(async () => {
+    if (!ethereum) {
+      setError('No wallet found. Install MetaMask or another browser wallet.');
+      return;
+    }
+    setConnecting(true);
+    setError(null);
+    try {
+      await adopt((await ethereum.request({ method: 'eth_requestAccounts' })) as string[]);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to connect wallet'));
+    } finally {
+      setConnecting(false);
+    }
+  }, [ethereum, adopt]);
+
+  // Wallets cannot be disconnected from the page; forget the session instead
+  const disconnect = useCallback(() => {
+    setAccount(null);
+    setChainId(null);
+    setError(null);
+    localStorage.removeItem(SESSION_KEY);
+  }, []);
+
+  const switchChain = useCallback(
+    async (targetChainId: number) => {
+      const target = getChain(targetChainId);
+      if (!ethereum || !target) return;
+      setError(null);
+      try {
+        await ethereum.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: toHexChainId(targetChainId) }] });
+      } catch (err) {
+        if (errorCode(err) !== UNRECOGNIZED_CHAIN) {
+          setError(errorMessage(err, `Failed to switch to ${target.name}`));
+          return;
+        }
+        // The wallet does not know the chain yet; adding it also switches to it
+        try {
+          await ethereum.request({ method: 'wallet_addEthereumChain', params: [toAddChainParams(target)] });
+        } catch (addErr) {
+          setError(errorMessage(addErr, `Failed to add ${target.name}`));
+        }
+      }
+    },
+    [ethereum]
+  );
+
+  const provider = useMemo(
+    () => (ethereum && account && chainId !== null ? new ethers.BrowserProvider(ethereum, chainId) : null),
+    [ethereum, account, chainId]
+  );
+
+  const chain = getChain(chainId);
+  const status: WalletStatus = !ethereum ? 'unavailable' : account ? 'connected' : connecting ? 'connecting' : 'disconnected';
+
+  return {
+    status,
+    account,
+    chainId,
+    chain,
+    isWrongNetwork: account !== null && chainId !== null && chain === null,
+    provider,
+    error,
+    connect,
+    disconnect,
+    switchChain,
+  };
+}
@@ -0,0 +1,118 @@
+import { ethers } from 'ethers';
+import { IERC20__factory, RentFlowCore } from '../../../typechain-types';
+import type { LateFeeTermsStruct } from '../../../typechain-types/contracts/RentFlowCore';
+import type { TokenInfo } from '../config/contracts';
+import type { SendStep } from '../hooks/useTransaction';
+import { formatAmount, shortAddress } from './format';
+import type { LeaseValues, PropertyValues, RequestValues } from './forms';
+
+/**
+ * Transaction flows behind the dashboard's forms
+ *
+ * Each flow checks what the contract would otherwise revert on without a
+ * readable reason (token allowances and balances), then sends its
+ * transactions in order. The core must be connected to the user's signer.
+ */
+
+/** Leases created from the dashboard carry no late fee; it can be set per lease later */
+const NO_LATE_FEE: LateFeeTermsStruct = { gracePeriodDays: 0, feeType: 0, amount: 0, cap: 0 };
+
+function eventArg(core: RentFlowCore, receipt: ethers.ContractTransactionReceipt, event: string, arg: string): bigint {
+  for (const log of receipt.logs) {
+    const parsed = core.interface.parseLog(log);
+    if (parsed?.name === event) return parsed.args[arg] as bigint;
+  }
+  throw new Error(`${event} missing from the transaction receipt`);
+}
+
+/** Sends an approval when the signer has allowed RentFlowCore less than `amount` */
+async function approveIfNeeded(
+  send: SendStep,
+  core: RentFlowCore,
+  token: TokenInfo,
+  amount: bigint
+): Promise<void> {
+  const erc20 = IERC20__factory.connect(token.address, core.runner);
+  const owner = await (core.runner as ethers.Signer).getAddress();
+  const spender = await core.getAddress();
+  const [balance, allowance] = await Promise.all([erc20.balanceOf(owner), erc20.allowance(owner, spender)]);
+  if (balance < amount) {
+    throw new Error(`Your wallet holds ${formatAmount(balance, token)}, less than ${formatAmount(amount, token)}.`);
+  }
+  if (allowance < amount) {
+    await send(`Approve ${token.symbol}`, () => erc20.approve(spender, amount));
+  }
+}
+
+/**
+ * Register a property, then optionally lease it
+ *
+ * createLease collects the deposit from the tenant, so the tenant's own
+ * allowance is checked before anything is sent; the owner cannot approve
+ * on the tenant's behalf.
+ */
+export function addPropertyFlow(
+  core: RentFlowCore,
+  token: TokenInfo,
+  property: PropertyValues,
+  lease: LeaseValues | null
+) {
+  return async (send: SendStep): Promise<string> => {
+    if (lease) {
+      const erc20 = IERC20__factory.connect(token.address, core.runner);
+      const [balance, allowance] = await Promise.all([
+        erc20.balanceOf(lease.tenant),
+        erc20.allowance(lease.tenant, await core.getAddress()),
+      ]);
+      const deposit = formatAmount(property.securityDeposit, token);
+      if (balance < property.securityDeposit) {
+        throw new Error(`The tenant holds ${formatAmount(balance, token)}, less than the ${deposit} deposit.`);
+      }
+      if (allowance < property.securityDeposit) {
+        throw new Error(`The tenant must first approve ${deposit} for RentFlow so the deposit can be collected.`);
+      }
+    }
+
+    const registered = await send('Register property', () =>
+      core.registerProperty(property.monthlyRent, property.securityDeposit, property.paymentToken)
+    );
+    const propertyId = eventArg(core, registered, 'PropertyRegistered', 'propertyId');
+    if (!lease) return `Property #${propertyId} registered.`;
+
+    await send('Create lease', () =>
+      core.createLease(propertyId, lease.tenant, lease.startDate, lease.durationMonths, lease.rentDueDay, NO_LATE_FEE)
+    );
+    return `Property #${propertyId} registered and leased to ${shortAddress(lease.tenant)}.`;
+  };
+}
+
+/** Top up the property's maintenance fund if asked, then file the request */
+export function newRequestFlow(core: RentFlowCore, token: TokenInfo, request: RequestValues) {
+  return async (send: SendStep): Promise<string> => {
+    if (request.fundAmount > 0n) {
+      await approveIfNeeded(send, core, token, request.fundAmount);
+      await send('Top up maintenance fund', () => core.fundMaintenance(request.propertyId, request.fundAmount));
+    }
+    const filed = await send('Submit request', () =>
+      core.requestMaintenance(request.propertyId, request.description, request.estimatedCost)
+    );
+    const requestId = eventArg(core, filed, 'MaintenanceRequested', 'requestId');
+    return `Request #${requestId} submitted${request.fundAmount > 0n ? ' and the fund topped up' : ''}.`;
+  };
+}
+
+/**
+ * Pay the oldest open period of a lease
+ *
+ * The quote is read again here rather than taken from the page, so the
+ * approval covers a late fee that started since the page loaded.
+ */
+export function payRentFlow(core: RentFlowCore, token: TokenInfo, leaseId: number) {
+  return async (send: SendStep): Promise<string> => {
+    const quote = await core.quoteRent(leaseId);
+    const total = quote.rentAmount + quote.lateFee;
+    await approveIfNeeded(send, core, token, total);
+    await send('Pay rent', () => core.payRent(leaseId));
+    return `Paid ${formatAmount(total, token)} for month ${quote.period + 1n} of lease #${leaseId}.`;
+  };
+}
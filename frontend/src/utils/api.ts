@@ -0,0 +1,30 @@
+import { API_URL } from '../config/deployments';
+
+/**
+ * Requests to the RentFlow backend
+ *
+ * Routes serving a wallet's own data (leases, payments, maintenance, scores)
+ * answer 401 without the session token from useApiSession; public routes
+ * ignore it.
+ */
+
+export interface ApiResponse<T> {
+  status: number;
+  body: { success: boolean; error?: string } & Partial<T>;
+}
+
+export async function apiFetch<T>(
+  path: string,
+  token: string | null,
+  { method = 'GET', body }: { method?: 'GET' | 'POST'; body?: unknown } = {}
+): Promise<ApiResponse<T>> {
+  const res = await fetch(`${API_URL}${path}`, {
+    method,
+    headers: {
+      ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
@@ -0,0 +1,69 @@
+import { ethers } from 'ethers';
+
+/**
+ * Plain-words explanations for failed transactions
+ *
+ * RentFlowCore reverts with require strings, while the ERC-20 tokens and
+ * OpenZeppelin modifiers it calls revert with custom errors; both are
+ * translated here. Unknown reasons are shown as the contract wrote them.
+ */
+
+const REVERT_REASONS: Record<string, string> = {
+  'Payment token not allowed': 'RentFlow does not accept this token for rent.',
+  'Rent must be positive': 'The monthly rent must be more than zero.',
+  'Deposit must be >= monthly rent': 'The security deposit must be at least the monthly rent.',
+  'Invalid tenant address': 'The tenant address is not a valid wallet.',
+  'Start date must be in future': 'The lease cannot start in the past.',
+  'Duration must be 1-36 months': 'Leases run from 1 to 36 months.',
+  'Rent due day must be 1-28': 'Rent must fall due on a day from 1 to 28.',
+  'Lease a unit, not the building': 'This building has units; lease one of its units instead.',
+  'Property not active': 'This property has been deactivated.',
+  'Not property owner': 'Only the property owner can do this.',
+  'Not property owner or manager': 'Only the property owner or one of their managers can do this.',
+  'Not authorized for this property': 'Only the owner or a current tenant can file requests for this property.',
+  'Description required': 'Describe the issue before submitting.',
+  'Estimated cost must be positive': 'The estimated cost must be more than zero.',
+  'Amount must be positive': 'The amount must be more than zero.',
+  'Security deposit transfer failed': 'The security deposit could not be collected from the tenant.',
+  'Funding transfer failed': 'The maintenance fund top-up could not be collected.',
+};
+
+/** Errors raised by contracts RentFlowCore calls, absent from its own ABI */
+const EXTERNAL_ERRORS = new ethers.Interface([
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error EnforcedPause()',
+  'error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)',
+]);
+
+const CUSTOM_ERRORS: Record<string, string> = {
+  ERC20InsufficientAllowance:
+    'The token allowance is too low. For a lease, the tenant must first approve the deposit for RentFlow.',
+  ERC20InsufficientBalance: 'The paying wallet does not hold enough of the payment token.',
+  EnforcedPause: 'RentFlow is paused at the moment. Try again later.',
+  AccessControlUnauthorizedAccount: 'Your wallet does not have the role this action needs.',
+};
+
+function customErrorName(error: ethers.CallExceptionError): string | null {
+  if (error.revert) return error.revert.name;
+  if (!error.data) return null;
+  try {
+    return EXTERNAL_ERRORS.parseError(error.data)?.name ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** A sentence for the user; never throws */
+export function describeTransactionError(error: unknown): string {
+  if (ethers.isError(error, 'ACTION_REJECTED')) return 'You rejected the transaction in your wallet.';
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) return 'Your wallet cannot cover the network fee.';
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    if (error.reason) return REVERT_REASONS[error.reason] ?? `The contract refused: ${error.reason}.`;
+    const name = customErrorName(error);
+    if (name) return CUSTOM_ERRORS[name] ?? `The contract refused: ${name}.`;
+    return 'The transaction was reverted without a reason.';
+  }
+  if (ethers.isError(error, 'NETWORK_ERROR')) return 'Your wallet switched networks during the transaction.';
+  return error instanceof Error ? error.message : 'The transaction failed.';
+}
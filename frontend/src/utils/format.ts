@@ -0,0 +1,29 @@
+import { ethers } from 'ethers';
+import type { TokenInfo } from '../config/contracts';
+
+/** "2,500.00 USDC", or raw base units while the token is unknown */
+export function formatAmount(baseUnits: bigint, token: TokenInfo | undefined): string {
+  if (!token) return baseUnits.toString();
+  const amount = Number(ethers.formatUnits(baseUnits, token.decimals));
+  return `${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${token.symbol}`;
+}
+
+export const shortAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/** "5 hours ago" for a Unix timestamp in seconds */
+export function timeAgo(timestamp: number, now = Date.now() / 1000): string {
+  const seconds = Math.max(0, Math.floor(now - timestamp));
+  const units: [number, string][] = [
+    [86400, 'day'],
+    [3600, 'hour'],
+    [60, 'minute'],
+  ];
+  for (const [size, unit] of units) {
+    const count = Math.floor(seconds / size);
+    if (count > 0) return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+  }
+  return 'just now';
+}
+
+/** "2024-01" for a Unix timestamp in seconds, in UTC like the billing periods */
+export const monthKey = (timestamp: number): string => new Date(timestamp * 1000).toISOString().slice(0, 7);
@@ -0,0 +1,159 @@
+import { ethers } from 'ethers';
+
+/**
+ * Form checks that mirror RentFlowCore's own requires
+ *
+ * DECISION: Validate before sending, with the contract's rules restated here
+ * REASON: A revert costs the user a wallet prompt and, on Arc, gas; the
+ *         contract stays the authority and its revert reason is still shown
+ *         if a rule here drifts from it
+ */
+
+export type FieldErrors<F extends string> = Partial<Record<F, string>>;
+
+export type Validated<F extends string, V> = { values: V; errors: null } | { values: null; errors: FieldErrors<F> };
+
+/** LeaseLib.open */
+export const MAX_LEASE_MONTHS = 36;
+export const MAX_RENT_DUE_DAY = 28;
+const DAY = 86_400;
+
+function parseAmount(input: string, decimals: number): bigint | null {
+  try {
+    return input.trim() === '' ? null : ethers.parseUnits(input.trim(), decimals);
+  } catch {
+    return null;
+  }
+}
+
+function parseWhole(input: string): number | null {
+  return /^\d+$/.test(input.trim()) ? Number(input.trim()) : null;
+}
+
+function result<F extends string, V>(errors: FieldErrors<F>, values: () => V): Validated<F, V> {
+  return Object.keys(errors).length > 0 ? { values: null, errors } : { values: values(), errors: null };
+}
+
+// ============ Property ============
+
+export interface PropertyForm {
+  monthlyRent: string;
+  securityDeposit: string;
+  paymentToken: string;
+}
+
+export interface PropertyValues {
+  monthlyRent: bigint;
+  securityDeposit: bigint;
+  paymentToken: string;
+}
+
+/** PropertyLib._register: rent positive, deposit at least a month's rent */
+export function validateProperty(
+  form: PropertyForm,
+  decimals: number
+): Validated<keyof PropertyForm, PropertyValues> {
+  const errors: FieldErrors<keyof PropertyForm> = {};
+  const monthlyRent = parseAmount(form.monthlyRent, decimals);
+  const securityDeposit = parseAmount(form.securityDeposit, decimals);
+
+  if (!ethers.isAddress(form.paymentToken)) errors.paymentToken = 'Choose a payment token';
+  if (monthlyRent === null) errors.monthlyRent = 'Enter the monthly rent';
+  else if (monthlyRent <= 0n) errors.monthlyRent = 'Rent must be more than zero';
+  if (securityDeposit === null) errors.securityDeposit = 'Enter the security deposit';
+  else if (monthlyRent !== null && securityDeposit < monthlyRent) {
+    errors.securityDeposit = 'The deposit must be at least the monthly rent';
+  }
+
+  return result(errors, () => ({
+    monthlyRent: monthlyRent!,
+    securityDeposit: securityDeposit!,
+    paymentToken: form.paymentToken,
+  }));
+}
+
+// ============ Lease ============
+
+export interface LeaseForm {
+  tenant: string;
+  /** yyyy-mm-dd, read as midnight UTC like the contract's billing dates */
+  startDate: string;
+  durationMonths: string;
+  rentDueDay: string;
+}
+
+export interface LeaseValues {
+  tenant: string;
+  /** Seconds */
+  startDate: number;
+  durationMonths: number;
+  rentDueDay: number;
+}
+
+/** LeaseLib.open: a tenant, a start no earlier than the last 24 hours, 1-36 months, due day 1-28 */
+export function validateLease(
+  form: LeaseForm,
+  now = Math.floor(Date.now() / 1000)
+): Validated<keyof LeaseForm, LeaseValues> {
+  const errors: FieldErrors<keyof LeaseForm> = {};
+  const startDate = /^\d{4}-\d{2}-\d{2}$/.test(form.startDate) ? Date.parse(`${form.startDate}T00:00:00Z`) / 1000 : NaN;
+  const durationMonths = parseWhole(form.durationMonths);
+  const rentDueDay = parseWhole(form.rentDueDay);
+
+  if (!ethers.isAddress(form.tenant) || form.tenant === ethers.ZeroAddress) {
+    errors.tenant = 'Enter the tenant wallet address';
+  }
+  if (Number.isNaN(startDate)) errors.startDate = 'Choose a start date';
+  else if (startDate + DAY <= now) errors.startDate = 'The lease cannot start in the past';
+  if (durationMonths === null || durationMonths < 1 || durationMonths > MAX_LEASE_MONTHS) {
+    errors.durationMonths = `Leases run from 1 to ${MAX_LEASE_MONTHS} months`;
+  }
+  if (rentDueDay === null || rentDueDay < 1 || rentDueDay > MAX_RENT_DUE_DAY) {
+    errors.rentDueDay = `Rent must fall due on a day from 1 to ${MAX_RENT_DUE_DAY}`;
+  }
+
+  return result(errors, () => ({
+    tenant: ethers.getAddress(form.tenant),
+    startDate,
+    durationMonths: durationMonths!,
+    rentDueDay: rentDueDay!,
+  }));
+}
+
+// ============ Maintenance ============
+
+export interface RequestForm {
+  propertyId: string;
+  description: string;
+  estimatedCost: string;
+  /** Optional top-up of the property's maintenance fund, sent first */
+  fundAmount: string;
+}
+
+export interface RequestValues {
+  propertyId: number;
+  description: string;
+  estimatedCost: bigint;
+  /** 0 when not topping up */
+  fundAmount: bigint;
+}
+
+/** MaintenanceLib.open and .fund: a description, a positive estimate, a positive top-up if any */
+export function validateRequest(form: RequestForm, decimals: number): Validated<keyof RequestForm, RequestValues> {
+  const errors: FieldErrors<keyof RequestForm> = {};
+  const propertyId = parseWhole(form.propertyId);
+  const estimatedCost = parseAmount(form.estimatedCost, decimals);
+  const fundAmount = form.fundAmount.trim() === '' ? 0n : parseAmount(form.fundAmount, decimals);
+
+  if (propertyId === null) errors.propertyId = 'Choose a property';
+  if (form.description.trim() === '') errors.description = 'Describe the issue';
+  if (estimatedCost === null || estimatedCost <= 0n) errors.estimatedCost = 'Enter an estimated cost above zero';
+  if (fundAmount === null || fundAmount < 0n) errors.fundAmount = 'Enter a top-up amount, or leave it empty';
+
+  return result(errors, () => ({
+    propertyId: propertyId!,
+    description: form.description.trim(),
+    estimatedCost: estimatedCost!,
+    fundAmount: fundAmount!,
+  }));
+}
@@ -0,0 +1,544 @@
+import { ethers } from 'ethers';
+import type { RentFlowLens } from '../../../typechain-types';
+import { getRentFlowContracts, getTokenInfo, RentFlowContracts, TokenInfo } from '../config/contracts';
+import { monthKey } from './format';
+
+/**
+ * An owner's properties, leases, requests and rent payments, read from chain
+ *
+ * DECISION: Records come from RentFlowLens pages and batches; which leases
+ *           and requests belong to the owner comes from RentFlowCore's
+ *           LeaseCreated and MaintenanceRequested logs
+ * REASON: The contract indexes properties by owner but leases only by
+ *         tenant and requests not at all; the logs name each record's
+ *         property, and the lens then reads a hundred records per call
+ *
+ * Log queries span the whole deployment, which suits a local node and a
+ * testnet; RPC providers that cap log ranges need the backend indexer.
+ *
+ * A tenant's leases are indexed by the contract and read the same way
+ * (loadTenantPortal); their requests and payments again come from logs.
+ */
+
+// Contract enum orders (RentFlowTypes.sol), named like the backend's
+export const LEASE_STATUSES = ['active', 'paused', 'terminated', 'completed'] as const;
+export const MAINTENANCE_STATUSES = [
+  'pending',
+  'approved',
+  'in_progress',
+  'completed',
+  'rejected',
+  'awaiting_owner_approval',
+  'accepted',
+  'work_submitted',
+  'disputed',
+] as const;
+export const MAINTENANCE_CATEGORIES = [
+  'plumbing',
+  'electrical',
+  'hvac',
+  'appliance',
+  'structural',
+  'security',
+  'pest',
+  'landscaping',
+  'cosmetic',
+  'general',
+] as const;
+
+export type LeaseStatus = (typeof LEASE_STATUSES)[number];
+export type MaintenanceStatus = (typeof MAINTENANCE_STATUSES)[number];
+export type MaintenanceCategory = (typeof MAINTENANCE_CATEGORIES)[number];
+
+/** RentFlowLens.MAX_PAGE_SIZE */
+const PAGE_SIZE = 100;
+
+export interface OwnerProperty {
+  propertyId: number;
+  monthlyRent: bigint;
+  securityDeposit: bigint;
+  isActive: boolean;
+  paymentToken: string;
+  /** The building this unit belongs to, null unless it is a unit */
+  buildingId: number | null;
+  /** Units under this property when it is a building */
+  unitCount: number;
+  maintenanceFund: bigint;
+}
+
+export interface OwnerLease {
+  leaseId: number;
+  propertyId: number;
+  tenant: string;
+  /** Seconds */
+  endDate: number;
+  status: LeaseStatus;
+  arrears: bigint;
+  periodsInArrears: number;
+}
+
+export interface OwnerRequest {
+  requestId: number;
+  propertyId: number;
+  requestedBy: string;
+  description: string;
+  estimatedCost: bigint;
+  approvedAmount: bigint;
+  status: MaintenanceStatus;
+  /** Set when the AI agent assesses the request */
+  category: MaintenanceCategory;
+  /** Seconds */
+  createdAt: number;
+}
+
+export interface RentPayment {
+  leaseId: number;
+  propertyId: number;
+  amount: bigint;
+  /** Seconds */
+  timestamp: number;
+}
+
+export interface OwnerDashboard {
+  properties: OwnerProperty[];
+  leases: OwnerLease[];
+  requests: OwnerRequest[];
+  /** Oldest first */
+  payments: RentPayment[];
+  /** Keyed by lowercased address */
+  tokens: Record<string, TokenInfo>;
+  /** Tokens a new property may charge rent in */
+  paymentTokens: TokenInfo[];
+}
+
+function toProperty(view: RentFlowLens.PropertyViewStructOutput): OwnerProperty {
+  return {
+    propertyId: Number(view.propertyId),
+    monthlyRent: view.property.monthlyRent,
+    securityDeposit: view.property.securityDeposit,
+    isActive: view.property.isActive,
+    paymentToken: view.property.paymentToken,
+    buildingId: view.unit.isUnit ? Number(view.unit.buildingId) : null,
+    unitCount: Number(view.unitCount),
+    maintenanceFund: view.maintenanceFund,
+  };
+}
+
+function toLease(view: RentFlowLens.LeaseViewStructOutput): OwnerLease {
+  return {
+    leaseId: Number(view.leaseId),
+    propertyId: Number(view.lease.propertyId),
+    tenant: view.lease.tenant,
+    endDate: Number(view.lease.endDate),
+    status: LEASE_STATUSES[Number(view.lease.status)],
+    arrears: view.arrears,
+    periodsInArrears: Number(view.periodsInArrears),
+  };
+}
+
+function toRequest(view: RentFlowLens.MaintenanceViewStructOutput): OwnerRequest {
+  return {
+    requestId: Number(view.requestId),
+    propertyId: Number(view.request.propertyId),
+    requestedBy: view.request.requestedBy,
+    description: view.request.description,
+    estimatedCost: view.request.estimatedCost,
+    approvedAmount: view.request.approvedAmount,
+    status: MAINTENANCE_STATUSES[Number(view.request.status)],
+    category: MAINTENANCE_CATEGORIES[Number(view.request.category)],
+    createdAt: Number(view.request.createdAt),
+  };
+}
+
+async function inPages<T>(ids: number[], fetch: (ids: number[]) => Promise<T[]>): Promise<T[]> {
+  const records: T[] = [];
+  for (let start = 0; start < ids.length; start += PAGE_SIZE) {
+    records.push(...(await fetch(ids.slice(start, start + PAGE_SIZE))));
+  }
+  return records;
+}
+
+async function loadProperties({ lens }: RentFlowContracts, owner: string): Promise<OwnerProperty[]> {
+  const properties: OwnerProperty[] = [];
+  let total: number;
+  do {
+    const [page, count] = await lens.getOwnerPropertyPage(owner, properties.length, PAGE_SIZE);
+    properties.push(...page.map(toProperty));
+    total = Number(count);
+    if (page.length === 0) break;
+  } while (properties.length < total);
+  return properties;
+}
+
+/** Tokens new properties may charge rent in, replayed from PaymentTokenUpdated */
+async function loadPaymentTokens(
+  { core, fromBlock }: RentFlowContracts,
+  provider: ethers.Provider
+): Promise<TokenInfo[]> {
+  const allowed = new Map<string, string>();
+  for (const log of await core.queryFilter(core.filters.PaymentTokenUpdated(), fromBlock)) {
+    const token = ethers.getAddress(log.args.token);
+    if (log.args.allowed) allowed.set(token.toLowerCase(), token);
+    else allowed.delete(token.toLowerCase());
+  }
+  return Promise.all([...allowed.values()].map((token) => getTokenInfo(provider, token)));
+}
+
+/** Returns null when RentFlow is not deployed on `chainId` */
+export async function loadOwnerDashboard(
+  provider: ethers.Provider,
+  chainId: number,
+  owner: string
+): Promise<OwnerDashboard | null> {
+  const contracts = await getRentFlowContracts(provider, chainId);
+  if (!contracts) return null;
+  const { core, lens, fromBlock } = contracts;
+
+  const properties = await loadProperties(contracts, owner);
+  const owned = new Set(properties.map((property) => property.propertyId));
+
+  const [leaseLogs, requestLogs, paymentLogs] = await Promise.all([
+    core.queryFilter(core.filters.LeaseCreated(), fromBlock),
+    core.queryFilter(core.filters.MaintenanceRequested(), fromBlock),
+    core.queryFilter(core.filters.RentPaid(), fromBlock),
+  ]);
+  const leaseProperties = new Map(
+    leaseLogs
+      .filter((log) => owned.has(Number(log.args.propertyId)))
+      .map((log) => [Number(log.args.leaseId), Number(log.args.propertyId)])
+  );
+  const requestIds = requestLogs
+    .filter((log) => owned.has(Number(log.args.propertyId)))
+    .map((log) => Number(log.args.requestId));
+
+  const [leases, requests, tokenList, paymentTokens] = await Promise.all([
+    inPages([...leaseProperties.keys()], async (ids) => (await lens.getLeases(ids)).map(toLease)),
+    inPages(requestIds, async (ids) => (await lens.getMaintenanceRequests(ids)).map(toRequest)),
+    Promise.all([...new Set(properties.map((property) => property.paymentToken))].map((token) => getTokenInfo(provider, token))),
+    loadPaymentTokens(contracts, provider),
+  ]);
+
+  const payments = paymentLogs.flatMap((log) => {
+    const leaseId = Number(log.args.leaseId);
+    const propertyId = leaseProperties.get(leaseId);
+    if (propertyId === undefined) return [];
+    return [{ leaseId, propertyId, amount: log.args.amount, timestamp: Number(log.args.timestamp) }];
+  });
+
+  return {
+    properties,
+    leases,
+    requests,
+    payments,
+    tokens: Object.fromEntries(tokenList.map((token) => [token.address.toLowerCase(), token])),
+    paymentTokens,
+  };
+}
+
+// ============ Tenant Portal ============
+
+/** What payRent would charge if mined now (RentFlowCore.quoteRent) */
+export interface RentQuote {
+  /** Zero-based billing period */
+  period: number;
+  /** Balance left on the oldest open period */
+  rentAmount: bigint;
+  lateFee: bigint;
+  /** Seconds */
+  dueDate: number;
+}
+
+export interface TenantLease extends OwnerLease {
+  /** Seconds */
+  startDate: number;
+  rentDueDay: number;
+  totalPaid: bigint;
+  securityDepositHeld: bigint;
+  periodsPaid: number;
+  periodCount: number;
+  /** Null once every period is paid or the lease is over */
+  nextDue: RentQuote | null;
+  /** Active, started and not yet ended; payRent reverts otherwise */
+  payable: boolean;
+}
+
+export interface TenantPayment extends RentPayment {
+  /** Late fees charged on top of `amount` */
+  lateFee: bigint;
+  /** Zero-based billing periods the payment went to */
+  periods: number[];
+  transactionHash: string;
+}
+
+export interface TenantPortal {
+  /** Live leases first, then the newest */
+  leases: TenantLease[];
+  /** The leased properties */
+  properties: OwnerProperty[];
+  /** Requests the tenant filed on a leased property */
+  requests: OwnerRequest[];
+  /** Oldest first */
+  payments: TenantPayment[];
+  /** Keyed by lowercased address */
+  tokens: Record<string, TokenInfo>;
+}
+
+async function loadTenantLeases({ lens }: RentFlowContracts, tenant: string): Promise<RentFlowLens.LeaseViewStructOutput[]> {
+  const views: RentFlowLens.LeaseViewStructOutput[] = [];
+  let total: number;
+  do {
+    const [page, count] = await lens.getTenantLeasePage(tenant, views.length, PAGE_SIZE);
+    views.push(...page);
+    total = Number(count);
+    if (page.length === 0) break;
+  } while (views.length < total);
+  return views;
+}
+
+async function toTenantLease(
+  { core }: RentFlowContracts,
+  view: RentFlowLens.LeaseViewStructOutput,
+  now: number
+): Promise<TenantLease> {
+  const lease = toLease(view);
+  const { startDate, endDate, periodsPaid, periodCount } = view.lease;
+  const open = isLiveLease(lease) && periodsPaid < periodCount;
+  // quoteRent reverts with "All rent paid", so only open leases are quoted
+  const quote = open ? await core.quoteRent(lease.leaseId) : null;
+  return {
+    ...lease,
+    startDate: Number(startDate),
+    rentDueDay: Number(view.lease.rentDueDay),
+    totalPaid: view.lease.totalPaid,
+    securityDepositHeld: view.lease.securityDepositHeld,
+    periodsPaid: Number(periodsPaid),
+    periodCount: Number(periodCount),
+    nextDue: quote && {
+      period: Number(quote.period),
+      rentAmount: quote.rentAmount,
+      lateFee: quote.lateFee,
+      dueDate: Number(quote.dueDate),
+    },
+    payable: lease.status === 'active' && now >= Number(startDate) && now <= Number(endDate),
+  };
+}
+
+/** Returns null when RentFlow is not deployed on `chainId` */
+export async function loadTenantPortal(
+  provider: ethers.Provider,
+  chainId: number,
+  tenant: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<TenantPortal | null> {
+  const contracts = await getRentFlowContracts(provider, chainId);
+  if (!contracts) return null;
+  const { core, lens, fromBlock } = contracts;
+
+  const leaseViews = await loadTenantLeases(contracts, tenant);
+  const leaseProperties = new Map(leaseViews.map((view) => [Number(view.leaseId), Number(view.lease.propertyId)]));
+  const leased = new Set(leaseProperties.values());
+
+  const [leases, properties, requestLogs, paymentLogs, itemLogs] = await Promise.all([
+    Promise.all(leaseViews.map((view) => toTenantLease(contracts, view, now))),
+    inPages([...leased], async (ids) => (await lens.getProperties(ids)).map(toProperty)),
+    core.queryFilter(core.filters.MaintenanceRequested(), fromBlock),
+    core.queryFilter(core.filters.RentPaid(), fromBlock),
+    core.queryFilter(core.filters.RentPaymentItemized(), fromBlock),
+  ]);
+
+  // MaintenanceRequested does not name the requester; the request record does
+  const requestIds = requestLogs
+    .filter((log) => leased.has(Number(log.args.propertyId)))
+    .map((log) => Number(log.args.requestId));
+  const requests = (
+    await inPages(requestIds, async (ids) => (await lens.getMaintenanceRequests(ids)).map(toRequest))
+  ).filter((request) => request.requestedBy.toLowerCase() === tenant.toLowerCase());
+
+  // One RentPaid per payment, itemized per period in the same transaction
+  const items = new Map<string, { lateFee: bigint; periods: number[] }>();
+  for (const log of itemLogs) {
+    if (!leaseProperties.has(Number(log.args.leaseId))) continue;
+    const key = `${log.transactionHash}-${log.args.leaseId}`;
+    const item = items.get(key) ?? { lateFee: 0n, periods: [] };
+    item.lateFee += log.args.lateFee;
+    item.periods.push(Number(log.args.period));
+    items.set(key, item);
+  }
+  const payments = paymentLogs.flatMap((log): TenantPayment[] => {
+    const leaseId = Number(log.args.leaseId);
+    const propertyId = leaseProperties.get(leaseId);
+    if (propertyId === undefined) return [];
+    const item = items.get(`${log.transactionHash}-${log.args.leaseId}`);
+    return [
+      {
+        leaseId,
+        propertyId,
+        amount: log.args.amount,
+        timestamp: Number(log.args.timestamp),
+        lateFee: item?.lateFee ?? 0n,
+        periods: item?.periods ?? [],
+        transactionHash: log.transactionHash,
+      },
+    ];
+  });
+
+  const tokenList = await Promise.all(
+    [...new Set(properties.map((property) => property.paymentToken))].map((token) => getTokenInfo(provider, token))
+  );
+
+  return {
+    leases: leases.sort((a, b) => Number(isLiveLease(b)) - Number(isLiveLease(a)) || b.leaseId - a.leaseId),
+    properties,
+    requests,
+    payments,
+    tokens: Object.fromEntries(tokenList.map((token) => [token.address.toLowerCase(), token])),
+  };
+}
+
+// ============ Summaries ============
+
+const OPEN_REQUEST_STATUSES = new Set<MaintenanceStatus>([
+  'pending',
+  'awaiting_owner_approval',
+  'approved',
+  'accepted',
+  'in_progress',
+  'work_submitted',
+  'disputed',
+]);
+
+export const isOpenRequest = (request: OwnerRequest): boolean => OPEN_REQUEST_STATUSES.has(request.status);
+
+/** Active or paused leases hold the property; the rest have ended */
+export const isLiveLease = (lease: OwnerLease): boolean => lease.status === 'active' || lease.status === 'paused';
+
+/** Amounts per payment token, keyed by lowercased address */
+export type TokenTotals = Record<string, bigint>;
+
+export interface BuildingSummary {
+  buildingId: number;
+  paymentToken: string;
+  units: { property: OwnerProperty; occupied: boolean; openRequests: number }[];
+  occupiedUnits: number;
+  totalMonthlyRent: bigint;
+  occupiedMonthlyRent: bigint;
+  openRequests: { units: number; commonAreas: number };
+  maintenanceFunds: { units: bigint; commonAreas: bigint };
+}
+
+export interface OverviewSummary {
+  propertyCount: number;
+  /** Leasable properties: every property except buildings with units */
+  rentableCount: number;
+  occupiedCount: number;
+  /** Rent of the occupied properties */
+  monthlyRent: TokenTotals;
+  /** Rent received this calendar month and the one before */
+  receivedThisMonth: TokenTotals;
+  receivedLastMonth: TokenTotals;
+  arrears: TokenTotals;
+  openRequests: number;
+  /** One row per month, oldest first, with an amount per token symbol */
+  revenueByMonth: ({ month: string } & Record<string, number | string>)[];
+}
+
+const add = (totals: TokenTotals, token: string, amount: bigint) => {
+  const key = token.toLowerCase();
+  totals[key] = (totals[key] ?? 0n) + amount;
+};
+
+export function occupiedPropertyIds(dashboard: OwnerDashboard): Set<number> {
+  return new Set(dashboard.leases.filter(isLiveLease).map((lease) => lease.propertyId));
+}
+
+export function summarizeOverview(dashboard: OwnerDashboard, months = 6, now = new Date()): OverviewSummary {
+  const { properties, leases, requests, payments, tokens } = dashboard;
+  const byId = new Map(properties.map((property) => [property.propertyId, property]));
+  const occupied = occupiedPropertyIds(dashboard);
+  const rentable = properties.filter((property) => property.unitCount === 0);
+
+  const monthlyRent: TokenTotals = {};
+  for (const property of rentable) {
+    if (occupied.has(property.propertyId)) add(monthlyRent, property.paymentToken, property.monthlyRent);
+  }
+
+  const arrears: TokenTotals = {};
+  for (const lease of leases) {
+    const property = byId.get(lease.propertyId);
+    if (property && lease.arrears > 0n) add(arrears, property.paymentToken, lease.arrears);
+  }
+
+  const monthKeys = Array.from({ length: months }, (_, i) => {
+    const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1 - i), 1));
+    return month.toISOString().slice(0, 7);
+  });
+  const rows = new Map(monthKeys.map((month) => [month, { month } as { month: string } & Record<string, number | string>]));
+  const receivedThisMonth: TokenTotals = {};
+  const receivedLastMonth: TokenTotals = {};
+
+  for (const payment of payments) {
+    const token = byId.get(payment.propertyId)?.paymentToken;
+    if (!token) continue;
+    const month = monthKey(payment.timestamp);
+    if (month === monthKeys[months - 1]) add(receivedThisMonth, token, payment.amount);
+    if (month === monthKeys[months - 2]) add(receivedLastMonth, token, payment.amount);
+
+    const row = rows.get(month);
+    const info = tokens[token.toLowerCase()];
+    if (!row || !info) continue;
+    const amount = Number(ethers.formatUnits(payment.amount, info.decimals));
+    row[info.symbol] = Number(row[info.symbol] ?? 0) + amount;
+  }
+
+  return {
+    propertyCount: properties.length,
+    rentableCount: rentable.length,
+    occupiedCount: rentable.filter((property) => occupied.has(property.propertyId)).length,
+    monthlyRent,
+    receivedThisMonth,
+    receivedLastMonth,
+    arrears,
+    openRequests: requests.filter(isOpenRequest).length,
+    revenueByMonth: [...rows.values()],
+  };
+}
+
+/** Buildings with their units' occupancy, rent, requests and funds */
+export function summarizeBuildings(dashboard: OwnerDashboard): BuildingSummary[] {
+  const { properties, requests } = dashboard;
+  const occupied = occupiedPropertyIds(dashboard);
+  const openByProperty = new Map<number, number>();
+  for (const request of requests.filter(isOpenRequest)) {
+    openByProperty.set(request.propertyId, (openByProperty.get(request.propertyId) ?? 0) + 1);
+  }
+
+  return properties
+    .filter((building) => building.unitCount > 0)
+    .map((building) => {
+      const units = properties
+        .filter((property) => property.buildingId === building.propertyId)
+        .map((property) => ({
+          property,
+          occupied: occupied.has(property.propertyId),
+          openRequests: openByProperty.get(property.propertyId) ?? 0,
+        }));
+      const occupiedUnits = units.filter((unit) => unit.occupied);
+      const sum = (values: bigint[]) => values.reduce((total, value) => total + value, 0n);
+      return {
+        buildingId: building.propertyId,
+        paymentToken: building.paymentToken,
+        units,
+        occupiedUnits: occupiedUnits.length,
+        totalMonthlyRent: sum(units.map((unit) => unit.property.monthlyRent)),
+        occupiedMonthlyRent: sum(occupiedUnits.map((unit) => unit.property.monthlyRent)),
+        openRequests: {
+          units: units.reduce((total, unit) => total + unit.openRequests, 0),
+          commonAreas: openByProperty.get(building.propertyId) ?? 0,
+        },
+        maintenanceFunds: {
+          units: sum(units.map((unit) => unit.property.maintenanceFund)),
+          commonAreas: building.maintenanceFund,
+        },
+      };
+    });
+}
@@ -1,80 +1,226 @@
-import { ethers } from "hardhat";
+import { ethers, network, upgrades } from "hardhat";
+import { BaseContract, ContractFactory } from "ethers";
+import { UPGRADE_OPTIONS } from "./upgrade-options";
+import { Deployment, deploymentPath, readDeployment, writeDeployment } from "./deployments";
 
 /**
  * Deployment script for RentFlow AI contracts
- * 
- * DECISION: Deploy MockUSDC first, then RentFlowCore
- * REASON: RentFlowCore constructor requires USDC address
+ *
+ * DECISION: Deploy the stablecoins first, then the libraries, then RentFlowCore
+ * REASON: RentFlowCore's initializer allowlists USDC, and its bytecode
+ *         must be linked against the deployed library addresses
+ *
+ * DECISION: Mock stablecoins only on the local chain; public networks use
+ *           the real USDC (and optionally EURC) from USDC_ADDRESS / EURC_ADDRESS
+ * REASON: Arc settles in real USDC; a mock there would strand every payment
+ *         in a token nobody else accepts
+ *
+ * DECISION: Every step checks deployments/<chainId>.json first and is skipped
+ *           when its contract is already on chain with the same bytecode
+ * REASON: Re-running after a failed or partial deploy picks up where it
+ *         stopped instead of paying for (and orphaning) a second stack
+ *
+ * RentFlowCore is deployed behind a TransparentUpgradeableProxy; the proxy
+ * address is the one to use everywhere. Upgrade it with scripts/upgrade.ts.
+ * RentFlowLens, its read-only batch views, is deployed plainly against the
+ * proxy address.
  */
 
+const LOCAL_CHAIN_ID = 31337;
+const LIBRARIES = ["BillingLib", "MaintenanceLib", "ContractorLib", "LeaseLib", "DepositLib", "PayoutLib", "PropertyLib"];
+// Local test balances: 10,000 tokens per account, 10 ETH of gas for the agent
+const LOCAL_TOKEN_BALANCE = ethers.parseUnits("10000", 6);
+const LOCAL_AGENT_GAS = ethers.parseEther("10");
+const LOCAL_FUNDED_ACCOUNTS = 10;
+
+function envAddress(name: string): string | undefined {
+  const raw = process.env[name];
+  // Treat the ".env.example" placeholder ("0x...") as unset
+  if (!raw || raw.endsWith("...")) return undefined;
+  return ethers.getAddress(raw);
+}
+
+/**
+ * Deploys `name` unless the registry already points at live code built from
+ * the same bytecode and constructor arguments, and records the result before
+ * moving on
+ */
+async function deployOnce(
+  deployment: Deployment,
+  name: string,
+  factory: ContractFactory,
+  args: unknown[] = []
+): Promise<string> {
+  const bytecodeHash = ethers.keccak256((await factory.getDeployTransaction(...args)).data);
+  const recorded = deployment.contracts[name];
+  if (
+    recorded?.bytecodeHash === bytecodeHash &&
+    (await ethers.provider.getCode(recorded.address)) !== "0x"
+  ) {
+    console.log(`⏭️  ${name} already deployed at:`, recorded.address);
+    return recorded.address;
+  }
+
+  console.log(`📄 Deploying ${name}...`);
+  const contract = (await factory.deploy(...args)) as BaseContract;
+  const receipt = await contract.deploymentTransaction()!.wait();
+  const address = await contract.getAddress();
+  deployment.contracts[name] = {
+    address,
+    blockNumber: receipt!.blockNumber,
+    transactionHash: receipt!.hash,
+    bytecodeHash,
+  };
+  writeDeployment(deployment);
+  console.log(`✅ ${name} deployed to:`, address);
+  return address;
+}
+
+/** Reuses the registry's proxy if it is live; new code goes through upgrade.ts instead */
+async function deployRentFlowCore(
+  deployment: Deployment,
+  libraries: Record<string, string>,
+  usdcAddress: string
+): Promise<string> {
+  const RentFlowCore = await ethers.getContractFactory("RentFlowCore", { libraries });
+  const recorded = deployment.contracts.RentFlowCore;
+  if (recorded && (await ethers.provider.getCode(recorded.address)) !== "0x") {
+    console.log("⏭️  RentFlowCore proxy already deployed at:", recorded.address);
+    const implementation = deployment.contracts.RentFlowCoreImplementation;
+    if (implementation?.bytecodeHash !== ethers.keccak256(RentFlowCore.bytecode)) {
+      console.log("⚠️  RentFlowCore has changed since; run `npm run upgrade:contracts` to upgrade it");
+    }
+    return recorded.address;
+  }
+
+  console.log("📄 Deploying RentFlowCore (proxy)...");
+  const rentflow = await upgrades.deployProxy(RentFlowCore, [usdcAddress], UPGRADE_OPTIONS);
+  const receipt = await rentflow.deploymentTransaction()!.wait();
+  const address = await rentflow.getAddress();
+  deployment.contracts.RentFlowCore = {
+    address,
+    blockNumber: receipt!.blockNumber,
+    transactionHash: receipt!.hash,
+  };
+  deployment.contracts.RentFlowCoreImplementation = {
+    address: await upgrades.erc1967.getImplementationAddress(address),
+    bytecodeHash: ethers.keccak256(RentFlowCore.bytecode),
+  };
+  deployment.contracts.ProxyAdmin = { address: await upgrades.erc1967.getAdminAddress(address) };
+  writeDeployment(deployment);
+  console.log("✅ RentFlowCore proxy deployed to:", address);
+  console.log("   Implementation:", deployment.contracts.RentFlowCoreImplementation.address);
+  console.log("   ProxyAdmin:", deployment.contracts.ProxyAdmin.address);
+  return address;
+}
+
 async function main() {
   console.log("🚀 Deploying RentFlow AI contracts...\n");
 
-  const [deployer] = await ethers.getSigners();
+  const [deployer, ...accounts] = await ethers.getSigners();
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const isLocal = chainId === LOCAL_CHAIN_ID;
+  console.log("📍 Network:", network.name, `(chain ${chainId})`);
   console.log("📍 Deploying with account:", deployer.address);
-  
+
   const balance = await ethers.provider.getBalance(deployer.address);
   console.log("💰 Account balance:", ethers.formatEther(balance), "ETH\n");
 
-  // Deploy MockUSDC
-  console.log("📄 Deploying MockUSDC...");
-  const MockUSDC = await ethers.getContractFactory("MockUSDC");
-  const usdc = await MockUSDC.deploy();
-  await usdc.waitForDeployment();
-  const usdcAddress = await usdc.getAddress();
-  console.log("✅ MockUSDC deployed to:", usdcAddress);
-  
-  // Check initial USDC supply
-  const initialSupply = await usdc.balanceOf(deployer.address);
-  console.log("💵 Initial USDC supply:", ethers.formatUnits(initialSupply, 6), "USDC\n");
-
-  // Deploy RentFlowCore
-  console.log("📄 Deploying RentFlowCore...");
-  const RentFlowCore = await ethers.getContractFactory("RentFlowCore");
-  const rentflow = await RentFlowCore.deploy(usdcAddress);
-  await rentflow.waitForDeployment();
-  const rentflowAddress = await rentflow.getAddress();
-  console.log("✅ RentFlowCore deployed to:", rentflowAddress);
-  
-  // Verify USDC address in contract
-  const contractUSDC = await rentflow.USDC();
-  console.log("🔗 Contract USDC address:", contractUSDC);
-  console.log("✓ USDC address matches:", contractUSDC === usdcAddress, "\n");
+  const deployment: Deployment = readDeployment(chainId) ?? {
+    chainId,
+    network: network.name,
+    deployer: deployer.address,
+    updatedAt: "",
+    contracts: {},
+    aiAgents: [],
+  };
+  if (Object.keys(deployment.contracts).length > 0) {
+    console.log("📂 Resuming from", deploymentPath(chainId), "\n");
+  }
+
+  // Stablecoins: mocks locally, the real tokens everywhere else
+  let usdcAddress: string;
+  let eurcAddress: string | undefined;
+  if (isLocal) {
+    // Recorded as USDC / EURC like the real tokens, so readers need no special case
+    usdcAddress = await deployOnce(deployment, "USDC", await ethers.getContractFactory("MockUSDC"));
+    eurcAddress = await deployOnce(deployment, "EURC", await ethers.getContractFactory("MockEURC"));
+  } else {
+    const usdc = envAddress("USDC_ADDRESS");
+    if (!usdc) throw new Error(`USDC_ADDRESS must be set to deploy to ${network.name}`);
+    usdcAddress = usdc;
+    eurcAddress = envAddress("EURC_ADDRESS");
+    deployment.contracts.USDC = { address: usdcAddress };
+    if (eurcAddress) deployment.contracts.EURC = { address: eurcAddress };
+    writeDeployment(deployment);
+    console.log("💵 Using USDC at:", usdcAddress);
+    if (eurcAddress) console.log("💶 Using EURC at:", eurcAddress);
+  }
+  console.log();
+
+  const libraries: Record<string, string> = {};
+  for (const name of LIBRARIES) {
+    libraries[name] = await deployOnce(deployment, name, await ethers.getContractFactory(name));
+  }
+  console.log();
+
+  const rentflowAddress = await deployRentFlowCore(deployment, libraries, usdcAddress);
+  const rentflow = await ethers.getContractAt("RentFlowCore", rentflowAddress);
+  await deployOnce(deployment, "RentFlowLens", await ethers.getContractFactory("RentFlowLens"), [rentflowAddress]);
+
+  // initialize() allowlists USDC; EURC is added like any later token
+  if (eurcAddress && !(await rentflow.paymentTokens(eurcAddress))) {
+    await (await rentflow.setPaymentToken(eurcAddress, true)).wait();
+  }
+  console.log("🔗 USDC allowed:", await rentflow.paymentTokens(usdcAddress));
+  if (eurcAddress) console.log("🔗 EURC allowed:", await rentflow.paymentTokens(eurcAddress));
+
+  // Authorize the backend's agent wallet
+  const agentKey = process.env.AI_WALLET_PRIVATE_KEY;
+  const agentAddress = agentKey && !agentKey.endsWith("...") ? new ethers.Wallet(agentKey).address : undefined;
+  if (agentAddress) {
+    const AI_AGENT_ROLE = await rentflow.AI_AGENT_ROLE();
+    if (!(await rentflow.hasRole(AI_AGENT_ROLE, agentAddress))) {
+      await (await rentflow.grantRole(AI_AGENT_ROLE, agentAddress)).wait();
+    }
+    if (!deployment.aiAgents.includes(agentAddress)) deployment.aiAgents.push(agentAddress);
+    writeDeployment(deployment);
+    console.log("🤖 AI agent authorized:", agentAddress);
+  } else {
+    console.log("⚠️  AI_WALLET_PRIVATE_KEY not set; no AI agent authorized");
+  }
+
+  // Locally, top up test accounts and give the agent gas
+  if (isLocal) {
+    const funded = accounts.slice(0, LOCAL_FUNDED_ACCOUNTS).map((account) => account.address);
+    if (agentAddress) funded.push(agentAddress);
+    for (const tokenAddress of [usdcAddress, eurcAddress!]) {
+      const token = await ethers.getContractAt("MockStablecoin", tokenAddress);
+      for (const address of funded) {
+        const shortfall = LOCAL_TOKEN_BALANCE - (await token.balanceOf(address));
+        if (shortfall > 0n) await (await token.mint(address, shortfall)).wait();
+      }
+    }
+    if (agentAddress && (await ethers.provider.getBalance(agentAddress)) < LOCAL_AGENT_GAS) {
+      await (await deployer.sendTransaction({ to: agentAddress, value: LOCAL_AGENT_GAS })).wait();
+    }
+    console.log(`💸 Funded ${funded.length} accounts with 10,000 USDC and EURC`);
+  }
 
   // Output deployment summary
-  console.log("=" .repeat(60));
+  console.log();
+  console.log("=".repeat(60));
   console.log("📝 DEPLOYMENT SUMMARY");
-  console.log("=" .repeat(60));
-  console.log("Network:", (await ethers.provider.getNetwork()).name);
-  console.log("Chain ID:", (await ethers.provider.getNetwork()).chainId);
+  console.log("=".repeat(60));
+  console.log("Network:", network.name);
+  console.log("Chain ID:", chainId);
   console.log("Deployer:", deployer.address);
   console.log("\nContracts:");
-  console.log("  MockUSDC:", usdcAddress);
-  console.log("  RentFlowCore:", rentflowAddress);
-  console.log("\nNext Steps:");
-  console.log("  1. Save these addresses to your .env file");
-  console.log("  2. Authorize AI agent: rentflow.setAIAgent(address, true)");
-  console.log("  3. Distribute USDC to test accounts");
-  console.log("=" .repeat(60));
-
-  // Save deployment info to file
-  const fs = require('fs');
-  const deploymentInfo = {
-    network: (await ethers.provider.getNetwork()).name,
-    chainId: Number((await ethers.provider.getNetwork()).chainId),
-    deployer: deployer.address,
-    timestamp: new Date().toISOString(),
-    contracts: {
-      MockUSDC: usdcAddress,
-      RentFlowCore: rentflowAddress,
-    },
-  };
-
-  fs.writeFileSync(
-    'deployment.json',
-    JSON.stringify(deploymentInfo, null, 2)
-  );
-  console.log("\n💾 Deployment info saved to deployment.json\n");
+  for (const [name, contract] of Object.entries(deployment.contracts)) {
+    console.log(`  ${name}:`, contract.address);
+  }
+  console.log("=".repeat(60));
+  console.log("\n💾 Deployment recorded in", deploymentPath(chainId), "\n");
 }
 
 main()
@@ -82,7 +228,4 @@ main()
   .catch((error) => {
     console.error("❌ Deployment failed:", error);
     process.exit(1);
-  });nContracts:");
-  console.log("  MockUSDC:", usdcAddress);
-  console.log("  RentFlowCore:", rentflowAddress);
-  console.log("\
+  });
@@ -0,0 +1,52 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Deployment registry: one JSON file per chain in deployments/
+ *
+ * DECISION: Key deployments by chain ID and write the file after every step
+ * REASON: Arc and a local node can both have deployments at once, and a
+ *         deploy that stops halfway can resume from what it recorded. The
+ *         backend and frontend read the same files instead of env addresses
+ */
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+export interface DeployedContract {
+  address: string;
+  /** Block the contract was created in; where the indexer starts for RentFlowCore */
+  blockNumber?: number;
+  transactionHash?: string;
+  /** keccak256 of the creation bytecode, so changed code is redeployed on resume */
+  bytecodeHash?: string;
+}
+
+export interface Deployment {
+  chainId: number;
+  network: string;
+  deployer: string;
+  updatedAt: string;
+  contracts: Record<string, DeployedContract>;
+  /** Wallets RentFlowCore has authorized as AI agents */
+  aiAgents: string[];
+}
+
+export function deploymentPath(chainId: number): string {
+  return path.join(DEPLOYMENTS_DIR, `${chainId}.json`);
+}
+
+/** Returns null when nothing has been deployed to `chainId` yet */
+export function readDeployment(chainId: number): Deployment | null {
+  const file = deploymentPath(chainId);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as Deployment;
+}
+
+export function writeDeployment(deployment: Deployment): void {
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  deployment.updatedAt = new Date().toISOString();
+  const file = deploymentPath(deployment.chainId);
+  // Write then rename, so an interrupted deploy never leaves half a file
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(deployment, null, 2) + "\n");
+  fs.renameSync(`${file}.tmp`, file);
+}
@@ -1,19 +1,23 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { ethers, upgrades } from "hardhat";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
-import { RentFlowCore, MockUSDC } from "../typechain-types";
+import { RentFlowCore, RentFlowLens, MockUSDC, MockEURC } from "../typechain-types";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { UPGRADE_OPTIONS } from "../upgrade-options";
 
 /**
  * RentFlowCore Test Suite
  * 
  * TESTING STRATEGY:
- * 1. Property registration and management
- * 2. Lease creation and rent payments
+ * 1. Property registration, management and catalog metadata; buildings of units
+ * 2. Lease creation, rent payments and payout splits
  * 3. Maintenance request workflow
- * 4. AI agent authorization
+ * 4. Roles and per-property manager delegation
  * 5. Security and access control
  * 6. Edge cases and error handling
+ * 7. Upgrades: state survives a new implementation, layout changes are refused
+ * 8. Read paths: the tenancy index, RentFlowLens pages and batches, and
+ *    gas benchmarks showing both stay flat as a tenant's history grows
  */
 
 describe("RentFlowCore", function () {
@@ -25,11 +29,43 @@ describe("RentFlowCore", function () {
   let aiAgent: SignerWithAddress;
   let contractor: SignerWithAddress;
   let unauthorized: SignerWithAddress;
+  let libraries: Record<string, string>;
 
   const USDC_DECIMALS = 6;
   const RENT_AMOUNT = ethers.parseUnits("2500", USDC_DECIMALS); // $2,500
   const DEPOSIT_AMOUNT = ethers.parseUnits("2500", USDC_DECIMALS);
   const MAINTENANCE_COST = ethers.parseUnits("150", USDC_DECIMALS); // $150
+  const NO_LATE_FEE = { gracePeriodDays: 0, feeType: 0, amount: 0, cap: 0 };
+  const DAY = 86400;
+  // MaintenanceCategory enum values
+  const PLUMBING = 0;
+  const COSMETIC = 8;
+  const ALL_TRADES = (1 << 10) - 1;
+  const SERVICE_AREA = ethers.encodeBytes32String("94103");
+
+  /** Contractor accepts, starts and submits request `requestId` */
+  async function completeWork(requestId: number) {
+    await rentflow.connect(contractor).acceptMaintenanceJob(requestId);
+    await rentflow.connect(contractor).startMaintenanceWork(requestId);
+    await rentflow.connect(contractor).submitMaintenanceCompletion(requestId, ethers.id("evidence"));
+  }
+
+  /** Midnight UTC on the 1st of the month after next, so the lease starts in the future */
+  function firstOfMonthAfterNext(timestamp: number): number {
+    const date = new Date(timestamp * 1000);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 2, 1) / 1000;
+  }
+
+  /** Midnight UTC on the 1st, `months` calendar months after `timestamp` */
+  function addMonths(timestamp: number, months: number): number {
+    const date = new Date(timestamp * 1000);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1) / 1000;
+  }
+
+  before(function () {
+    // UPGRADE_OPTIONS' unsafeAllow is deliberate; don't repeat it per deployment
+    upgrades.silenceWarnings();
+  });
 
   beforeEach(async function () {
     [owner, propertyOwner, tenant, aiAgent, contractor, unauthorized] = await ethers.getSigners();
@@ -39,9 +75,26 @@ describe("RentFlowCore", function () {
     usdc = await MockUSDC.deploy();
     await usdc.waitForDeployment();
 
-    // Deploy RentFlowCore
-    const RentFlowCore = await ethers.getContractFactory("RentFlowCore");
-    rentflow = await RentFlowCore.deploy(await usdc.getAddress());
+    // Deploy the libraries and link them into RentFlowCore
+    const billingLib = await (await ethers.getContractFactory("BillingLib")).deploy();
+    const leaseLib = await (await ethers.getContractFactory("LeaseLib")).deploy();
+    const maintenanceLib = await (await ethers.getContractFactory("MaintenanceLib")).deploy();
+    const contractorLib = await (await ethers.getContractFactory("ContractorLib")).deploy();
+    const depositLib = await (await ethers.getContractFactory("DepositLib")).deploy();
+    const payoutLib = await (await ethers.getContractFactory("PayoutLib")).deploy();
+    const propertyLib = await (await ethers.getContractFactory("PropertyLib")).deploy();
+
+    libraries = {
+      BillingLib: await billingLib.getAddress(),
+      LeaseLib: await leaseLib.getAddress(),
+      MaintenanceLib: await maintenanceLib.getAddress(),
+      ContractorLib: await contractorLib.getAddress(),
+      DepositLib: await depositLib.getAddress(),
+      PayoutLib: await payoutLib.getAddress(),
+      PropertyLib: await propertyLib.getAddress(),
+    };
+    const RentFlowCore = await ethers.getContractFactory("RentFlowCore", { libraries });
+    rentflow = (await upgrades.deployProxy(RentFlowCore, [await usdc.getAddress()], UPGRADE_OPTIONS)) as unknown as RentFlowCore;
     await rentflow.waitForDeployment();
 
     // Distribute USDC to test accounts
@@ -50,16 +103,23 @@ describe("RentFlowCore", function () {
     await usdc.mint(contractor.address, ethers.parseUnits("10000", USDC_DECIMALS));
 
     // Authorize AI agent
-    await rentflow.connect(owner).setAIAgent(aiAgent.address, true);
+    await rentflow.connect(owner).grantRole(await rentflow.AI_AGENT_ROLE(), aiAgent.address);
+
+    // Register a contractor for every trade and vet them for propertyOwner's properties
+    await rentflow
+      .connect(contractor)
+      .registerContractor(ALL_TRADES, [SERVICE_AREA], ethers.id("license"), ethers.ZeroHash);
+    await rentflow.connect(propertyOwner).setContractorAllowed(contractor.address, true);
   });
 
   describe("Deployment", function () {
-    it("Should set the correct USDC address", async function () {
-      expect(await rentflow.USDC()).to.equal(await usdc.getAddress());
+    it("Should allowlist the initial payment token", async function () {
+      expect(await rentflow.paymentTokens(await usdc.getAddress())).to.be.true;
     });
 
-    it("Should set the correct owner", async function () {
-      expect(await rentflow.owner()).to.equal(owner.address);
+    it("Should make the deployer admin and pauser", async function () {
+      expect(await rentflow.hasRole(await rentflow.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await rentflow.hasRole(await rentflow.PAUSER_ROLE(), owner.address)).to.be.true;
     });
 
     it("Should initialize counters to zero", async function () {
@@ -69,7 +129,77 @@ describe("RentFlowCore", function () {
     });
 
     it("Should authorize AI agent during setup", async function () {
-      expect(await rentflow.authorizedAIAgents(aiAgent.address)).to.be.true;
+      expect(await rentflow.hasRole(await rentflow.AI_AGENT_ROLE(), aiAgent.address)).to.be.true;
+    });
+  });
+
+  describe("Upgrades", function () {
+    it("Should only initialize once, and never the implementation itself", async function () {
+      await expect(rentflow.initialize(await usdc.getAddress()))
+        .to.be.revertedWithCustomError(rentflow, "InvalidInitialization");
+
+      const implementation = rentflow.attach(
+        await upgrades.erc1967.getImplementationAddress(await rentflow.getAddress())
+      ) as RentFlowCore;
+      await expect(implementation.initialize(await usdc.getAddress()))
+        .to.be.revertedWithCustomError(rentflow, "InvalidInitialization");
+    });
+
+    it("Should keep leases, deposits and maintenance funds across an upgrade", async function () {
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT + RENT_AMOUNT * 2n);
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, await time.latest(), 12, 1, NO_LATE_FEE);
+      await rentflow.connect(tenant).payRent(0);
+      const fundAmount = ethers.parseUnits("1000", USDC_DECIMALS);
+      await usdc.connect(propertyOwner).approve(await rentflow.getAddress(), fundAmount);
+      await rentflow.connect(propertyOwner).fundMaintenance(0, fundAmount);
+
+      const proxyAddress = await rentflow.getAddress();
+      const leaseBefore = await rentflow.leases(0);
+      const heldBefore = await usdc.balanceOf(proxyAddress);
+
+      const RentFlowCoreV2 = await ethers.getContractFactory("RentFlowCoreV2Mock", { libraries });
+      const upgraded = await upgrades.upgradeProxy(proxyAddress, RentFlowCoreV2, UPGRADE_OPTIONS);
+
+      expect(await upgraded.getAddress()).to.equal(proxyAddress);
+      expect(await rentflow.leases(0)).to.deep.equal(leaseBefore);
+      expect((await rentflow.leases(0)).securityDepositHeld).to.equal(DEPOSIT_AMOUNT);
+      expect(await rentflow.maintenanceFunds(0)).to.equal(fundAmount);
+      expect(await rentflow.hasRole(await rentflow.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await rentflow.hasRole(await rentflow.AI_AGENT_ROLE(), aiAgent.address)).to.be.true;
+      expect(await usdc.balanceOf(proxyAddress)).to.equal(heldBefore);
+
+      // The new implementation's own state starts empty and is usable
+      await upgraded.connect(owner).getFunction("setUpgradeMarker")(7);
+      expect(await upgraded.getFunction("upgradeMarker")()).to.equal(7);
+
+      // Rent keeps flowing into the same lease
+      await time.increaseTo((await rentflow.getBillingPeriod(0, 1)).dueDate);
+      await rentflow.connect(tenant).payRent(0);
+      expect((await rentflow.leases(0)).periodsPaid).to.equal(2);
+    });
+
+    it("Should only let the proxy admin's owner upgrade", async function () {
+      const RentFlowCoreV2 = await ethers.getContractFactory("RentFlowCoreV2Mock", { libraries });
+      // ProxyAdmin is deployed from the plugin's own artifacts, not compiled here
+      const proxyAdmin = await ethers.getContractAt(
+        ["function owner() view returns (address)", "error OwnableUnauthorizedAccount(address account)"],
+        await upgrades.erc1967.getAdminAddress(await rentflow.getAddress())
+      );
+
+      expect(await proxyAdmin.owner()).to.equal(owner.address);
+      await expect(
+        upgrades.upgradeProxy(await rentflow.getAddress(), RentFlowCoreV2.connect(unauthorized), UPGRADE_OPTIONS)
+      ).to.be.revertedWithCustomError(proxyAdmin, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should refuse an implementation whose storage layout moved", async function () {
+      const Shifted = await ethers.getContractFactory("RentFlowCoreShiftedLayoutMock", { libraries });
+
+      const error = await upgrades
+        .validateUpgrade(await rentflow.getAddress(), Shifted, UPGRADE_OPTIONS)
+        .then(() => undefined, (reason: Error) => reason);
+      expect(error?.message).to.match(/New storage layout is incompatible/);
     });
   });
 
@@ -77,31 +207,33 @@ describe("RentFlowCore", function () {
     it("Should register a property successfully", async function () {
       const tx = await rentflow.connect(propertyOwner).registerProperty(
         RENT_AMOUNT,
-        DEPOSIT_AMOUNT
+        DEPOSIT_AMOUNT,
+        usdc
       );
 
       await expect(tx)
         .to.emit(rentflow, "PropertyRegistered")
-        .withArgs(0, propertyOwner.address, RENT_AMOUNT);
+        .withArgs(0, propertyOwner.address, RENT_AMOUNT, await usdc.getAddress());
 
       const property = await rentflow.properties(0);
       expect(property.owner).to.equal(propertyOwner.address);
       expect(property.monthlyRent).to.equal(RENT_AMOUNT);
       expect(property.securityDeposit).to.equal(DEPOSIT_AMOUNT);
       expect(property.isActive).to.be.true;
+      expect(property.paymentToken).to.equal(await usdc.getAddress());
     });
 
     it("Should increment property counter", async function () {
-      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT);
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
       expect(await rentflow.propertyCounter()).to.equal(1);
 
-      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT);
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
       expect(await rentflow.propertyCounter()).to.equal(2);
     });
 
     it("Should fail with zero rent", async function () {
       await expect(
-        rentflow.connect(propertyOwner).registerProperty(0, DEPOSIT_AMOUNT)
+        rentflow.connect(propertyOwner).registerProperty(0, DEPOSIT_AMOUNT, usdc)
       ).to.be.revertedWith("Rent must be positive");
     });
 
@@ -109,13 +241,14 @@ describe("RentFlowCore", function () {
       await expect(
         rentflow.connect(propertyOwner).registerProperty(
           RENT_AMOUNT,
-          RENT_AMOUNT / 2n
+          RENT_AMOUNT / 2n,
+          usdc
         )
       ).to.be.revertedWith("Deposit must be >= monthly rent");
     });
 
     it("Should allow property owner to deactivate property", async function () {
-      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT);
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
       await rentflow.connect(propertyOwner).deactivateProperty(0);
 
       const property = await rentflow.properties(0);
@@ -123,18 +256,103 @@ describe("RentFlowCore", function () {
     });
 
     it("Should prevent non-owner from deactivating property", async function () {
-      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT);
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
 
       await expect(
         rentflow.connect(unauthorized).deactivateProperty(0)
       ).to.be.revertedWith("Not property owner");
     });
+
+    it("Should record the catalog hash and emit its URI", async function () {
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      const contentHash = ethers.id('{"address_line":"12 Harbour Rd"}');
+
+      await expect(rentflow.connect(propertyOwner).setPropertyMetadata(0, contentHash, "ipfs://catalog/0"))
+        .to.emit(rentflow, "PropertyMetadataUpdated")
+        .withArgs(0, contentHash, "ipfs://catalog/0");
+      expect(await rentflow.propertyMetadataHashes(0)).to.equal(contentHash);
+
+      await expect(
+        rentflow.connect(propertyOwner).setPropertyMetadata(0, ethers.ZeroHash, "")
+      ).to.be.revertedWith("Metadata hash required");
+      await expect(
+        rentflow.connect(unauthorized).setPropertyMetadata(0, contentHash, "")
+      ).to.be.revertedWith("Not property owner");
+    });
+  });
+
+  describe("Payment Tokens", function () {
+    let eurc: MockEURC;
+    const EUR_RENT = ethers.parseUnits("1800", USDC_DECIMALS);
+
+    beforeEach(async function () {
+      eurc = await (await ethers.getContractFactory("MockEURC")).deploy();
+      await eurc.mint(tenant.address, ethers.parseUnits("50000", USDC_DECIMALS));
+      await eurc.mint(propertyOwner.address, ethers.parseUnits("10000", USDC_DECIMALS));
+    });
+
+    it("Should only register properties in allowlisted tokens", async function () {
+      await expect(
+        rentflow.connect(propertyOwner).registerProperty(EUR_RENT, EUR_RENT, eurc)
+      ).to.be.revertedWith("Payment token not allowed");
+
+      await expect(rentflow.connect(propertyOwner).setPaymentToken(eurc, true))
+        .to.be.revertedWithCustomError(rentflow, "AccessControlUnauthorizedAccount");
+      await expect(rentflow.connect(owner).setPaymentToken(eurc, true))
+        .to.emit(rentflow, "PaymentTokenUpdated")
+        .withArgs(await eurc.getAddress(), true);
+
+      await rentflow.connect(propertyOwner).registerProperty(EUR_RENT, EUR_RENT, eurc);
+      expect((await rentflow.properties(0)).paymentToken).to.equal(await eurc.getAddress());
+    });
+
+    it("Should keep deposit, rent, payouts and maintenance funds in the property's token", async function () {
+      await rentflow.connect(owner).setPaymentToken(eurc, true);
+      await rentflow.connect(propertyOwner).registerProperty(EUR_RENT, EUR_RENT, eurc);
+      await rentflow
+        .connect(propertyOwner)
+        .setPayoutSplits(0, [{ recipient: contractor.address, bps: 1000 }], 500, true);
+
+      await eurc.connect(tenant).approve(await rentflow.getAddress(), EUR_RENT * 2n);
+      const usdcBefore = await usdc.balanceOf(tenant.address);
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, await time.latest(), 12, 1, NO_LATE_FEE);
+      await rentflow.connect(tenant).payRent(0);
+
+      expect(await usdc.balanceOf(tenant.address)).to.equal(usdcBefore);
+      expect(await eurc.balanceOf(await rentflow.getAddress())).to.equal(EUR_RENT * 2n);
+      expect(await rentflow.claimablePayouts(eurc, contractor.address)).to.equal(EUR_RENT / 10n);
+      expect(await rentflow.claimablePayouts(usdc, contractor.address)).to.equal(0);
+      expect(await rentflow.maintenanceFunds(0)).to.equal(EUR_RENT / 20n);
+
+      await expect(rentflow.connect(contractor).claimPayouts(usdc)).to.be.revertedWith("Nothing to claim");
+      await rentflow.connect(contractor).claimPayouts(eurc);
+      expect(await eurc.balanceOf(contractor.address)).to.equal(EUR_RENT / 10n);
+
+      const fundAmount = ethers.parseUnits("100", USDC_DECIMALS);
+      await eurc.connect(propertyOwner).approve(await rentflow.getAddress(), fundAmount);
+      await rentflow.connect(propertyOwner).fundMaintenance(0, fundAmount);
+      expect(await rentflow.maintenanceFunds(0)).to.equal(EUR_RENT / 20n + fundAmount);
+    });
+
+    it("Should keep settling existing properties after a token is retired", async function () {
+      await rentflow.connect(owner).setPaymentToken(eurc, true);
+      await rentflow.connect(propertyOwner).registerProperty(EUR_RENT, EUR_RENT, eurc);
+      await rentflow.connect(owner).setPaymentToken(eurc, false);
+
+      await expect(
+        rentflow.connect(propertyOwner).registerProperty(EUR_RENT, EUR_RENT, eurc)
+      ).to.be.revertedWith("Payment token not allowed");
+
+      await eurc.connect(tenant).approve(await rentflow.getAddress(), EUR_RENT * 2n);
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, await time.latest(), 12, 1, NO_LATE_FEE);
+      await expect(rentflow.connect(tenant).payRent(0)).to.emit(rentflow, "RentPaid");
+    });
   });
 
   describe("Lease Creation", function () {
     beforeEach(async function () {
       // Register a property first
-      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT);
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
       
       // Approve USDC transfer for security deposit
       await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT);
@@ -150,7 +368,8 @@ describe("RentFlowCore", function () {
         tenant.address,
         startDate,
         durationMonths,
-        rentDueDay
+        rentDueDay,
+        NO_LATE_FEE
       );
 
       await expect(tx)
@@ -174,7 +393,8 @@ describe("RentFlowCore", function () {
         tenant.address,
         startDate,
         12,
-        1
+        1,
+        NO_LATE_FEE
       );
 
       const finalBalance = await usdc.balanceOf(await rentflow.getAddress());
@@ -190,7 +410,8 @@ describe("RentFlowCore", function () {
           ethers.ZeroAddress,
           startDate,
           12,
-          1
+          1,
+          NO_LATE_FEE
         )
       ).to.be.revertedWith("Invalid tenant address");
     });
@@ -204,7 +425,8 @@ describe("RentFlowCore", function () {
           tenant.address,
           pastDate,
           12,
-          1
+          1,
+          NO_LATE_FEE
         )
       ).to.be.revertedWith("Start date must be in future");
     });
@@ -213,11 +435,11 @@ describe("RentFlowCore", function () {
       const startDate = (await time.latest()) + 86400;
 
       await expect(
-        rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 0, 1)
+        rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 0, 1, NO_LATE_FEE)
       ).to.be.revertedWith("Duration must be 1-36 months");
 
       await expect(
-        rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 37, 1)
+        rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 37, 1, NO_LATE_FEE)
       ).to.be.revertedWith("Duration must be 1-36 months");
     });
 
@@ -225,11 +447,11 @@ describe("RentFlowCore", function () {
       const startDate = (await time.latest()) + 86400;
 
       await expect(
-        rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 12, 0)
+        rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 12, 0, NO_LATE_FEE)
       ).to.be.revertedWith("Rent due day must be 1-28");
 
       await expect(
-        rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 12, 29)
+        rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 12, 29, NO_LATE_FEE)
       ).to.be.revertedWith("Rent due day must be 1-28");
     });
 
@@ -237,19 +459,19 @@ describe("RentFlowCore", function () {
       const startDate = (await time.latest()) + 86400;
 
       await expect(
-        rentflow.connect(unauthorized).createLease(0, tenant.address, startDate, 12, 1)
-      ).to.be.revertedWith("Not property owner");
+        rentflow.connect(unauthorized).createLease(0, tenant.address, startDate, 12, 1, NO_LATE_FEE)
+      ).to.be.revertedWith("Not property owner or manager");
     });
   });
 
   describe("Rent Payment", function () {
     beforeEach(async function () {
       // Register property and create lease
-      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT);
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
       await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT);
       
       const startDate = await time.latest();
-      await rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 12, 1);
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 12, 1, NO_LATE_FEE);
       
       // Approve rent payment
       await usdc.connect(tenant).approve(await rentflow.getAddress(), RENT_AMOUNT);
@@ -284,7 +506,7 @@ describe("RentFlowCore", function () {
       // Create future lease
       await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT);
       const futureDate = (await time.latest()) + 86400 * 7; // 7 days from now
-      await rentflow.connect(propertyOwner).createLease(0, tenant.address, futureDate, 12, 1);
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, futureDate, 12, 1, NO_LATE_FEE);
 
       await expect(
         rentflow.connect(tenant).payRent(1)
@@ -292,8 +514,9 @@ describe("RentFlowCore", function () {
     });
 
     it("Should fail if lease has ended", async function () {
-      // Fast forward past lease end date
-      await time.increase(86400 * 365); // 1 year
+      // Fast forward past lease end date (12 calendar months)
+      const lease = await rentflow.leases(0);
+      await time.increaseTo(lease.endDate + 1n);
 
       await expect(
         rentflow.connect(tenant).payRent(0)
@@ -314,10 +537,540 @@ describe("RentFlowCore", function () {
     });
   });
 
+  describe("Late Fees", function () {
+    const FLAT_FEE = ethers.parseUnits("50", USDC_DECIMALS);
+    const FLAT_TERMS = { gracePeriodDays: 3, feeType: 1, amount: FLAT_FEE, cap: 0 };
+    let firstDueDate: number;
+
+    async function createLeaseWith(terms: typeof NO_LATE_FEE | typeof FLAT_TERMS) {
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, firstDueDate, 12, 1, terms);
+    }
+
+    beforeEach(async function () {
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), ethers.MaxUint256);
+      firstDueDate = firstOfMonthAfterNext(await time.latest());
+    });
+
+    it("Should store late fee terms with the lease", async function () {
+      await createLeaseWith(FLAT_TERMS);
+
+      const terms = await rentflow.leaseLateFees(0);
+      expect(terms.gracePeriodDays).to.equal(3);
+      expect(terms.feeType).to.equal(1); // Flat
+      expect(terms.amount).to.equal(FLAT_FEE);
+    });
+
+    it("Should not charge a fee within the grace period", async function () {
+      await createLeaseWith(FLAT_TERMS);
+      await time.increaseTo(firstDueDate + 3 * DAY + DAY / 2); // 3.5 days after the due date
+
+      await expect(rentflow.connect(tenant).payRent(0))
+        .to.emit(rentflow, "RentPaymentItemized")
+        .withArgs(0, 0, RENT_AMOUNT, 0, firstDueDate);
+    });
+
+    it("Should charge a flat fee once the grace period has passed", async function () {
+      await createLeaseWith(FLAT_TERMS);
+      await time.increaseTo(firstDueDate + 4 * DAY);
+      const initialOwnerBalance = await usdc.balanceOf(propertyOwner.address);
+
+      await expect(rentflow.connect(tenant).payRent(0))
+        .to.emit(rentflow, "RentPaymentItemized")
+        .withArgs(0, 0, RENT_AMOUNT, FLAT_FEE, firstDueDate);
+
+      const finalOwnerBalance = await usdc.balanceOf(propertyOwner.address);
+      expect(finalOwnerBalance - initialOwnerBalance).to.equal(RENT_AMOUNT + FLAT_FEE);
+
+      const lease = await rentflow.leases(0);
+      expect(lease.totalPaid).to.equal(RENT_AMOUNT); // Fees are not rent
+    });
+
+    it("Should cap percentage fees", async function () {
+      const cap = ethers.parseUnits("100", USDC_DECIMALS);
+      await createLeaseWith({ gracePeriodDays: 0, feeType: 2, amount: 1000, cap }); // 10% = $250
+      await time.increaseTo(firstDueDate + 2 * DAY);
+
+      const quote = await rentflow.quoteRent(0);
+      expect(quote.lateFee).to.equal(cap);
+
+      await expect(rentflow.connect(tenant).payRent(0))
+        .to.emit(rentflow, "RentPaymentItemized")
+        .withArgs(0, 0, RENT_AMOUNT, cap, firstDueDate);
+    });
+
+    it("Should measure each period against its own calendar due date", async function () {
+      await createLeaseWith(FLAT_TERMS);
+      await time.increaseTo(firstDueDate);
+      await rentflow.connect(tenant).payRent(0);
+
+      const secondDueDate = addMonths(firstDueDate, 1);
+      await time.increaseTo(secondDueDate + 10 * DAY);
+
+      await expect(rentflow.connect(tenant).payRent(0))
+        .to.emit(rentflow, "RentPaymentItemized")
+        .withArgs(0, 1, RENT_AMOUNT, FLAT_FEE, secondDueDate);
+    });
+
+    it("Should reject invalid late fee terms", async function () {
+      await expect(
+        createLeaseWith({ ...FLAT_TERMS, gracePeriodDays: 29 })
+      ).to.be.revertedWith("Grace period too long");
+
+      await expect(
+        createLeaseWith({ ...FLAT_TERMS, amount: 0 })
+      ).to.be.revertedWith("Late fee must be positive");
+
+      await expect(
+        createLeaseWith({ ...FLAT_TERMS, feeType: 2, amount: 10_001 })
+      ).to.be.revertedWith("Late fee exceeds 100%");
+
+      await expect(
+        createLeaseWith({ ...NO_LATE_FEE, cap: FLAT_FEE })
+      ).to.be.revertedWith("Invalid late fee terms");
+    });
+  });
+
+  describe("Billing Periods", function () {
+    let startDate: number;
+
+    beforeEach(async function () {
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), ethers.MaxUint256);
+      startDate = firstOfMonthAfterNext(await time.latest());
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 12, 1, NO_LATE_FEE);
+      await time.increaseTo(startDate);
+    });
+
+    it("Should end the lease after calendar months, not 30-day blocks", async function () {
+      const lease = await rentflow.leases(0);
+      expect(lease.endDate).to.equal(addMonths(startDate, 12));
+      expect(lease.periodCount).to.equal(12);
+    });
+
+    it("Should record partial payments against the current period", async function () {
+      await rentflow.connect(tenant).payRentAmount(0, RENT_AMOUNT / 2n);
+
+      let period = await rentflow.getBillingPeriod(0, 0);
+      expect(period.dueDate).to.equal(startDate);
+      expect(period.amountDue).to.equal(RENT_AMOUNT);
+      expect(period.amountPaid).to.equal(RENT_AMOUNT / 2n);
+      expect((await rentflow.leases(0)).periodsPaid).to.equal(0);
+
+      // payRent settles whatever is left of the period
+      await expect(rentflow.connect(tenant).payRent(0))
+        .to.emit(rentflow, "RentPaid")
+        .withArgs(0, RENT_AMOUNT / 2n, await time.latest() + 1);
+
+      period = await rentflow.getBillingPeriod(0, 0);
+      expect(period.amountPaid).to.equal(RENT_AMOUNT);
+      expect((await rentflow.leases(0)).periodsPaid).to.equal(1);
+    });
+
+    it("Should allow prepaying several periods in one payment", async function () {
+      const tx = await rentflow.connect(tenant).payRentAmount(0, RENT_AMOUNT * 3n);
+
+      await expect(tx).to.emit(rentflow, "RentPaymentItemized").withArgs(0, 0, RENT_AMOUNT, 0, startDate);
+      await expect(tx).to.emit(rentflow, "RentPaymentItemized").withArgs(0, 2, RENT_AMOUNT, 0, addMonths(startDate, 2));
+      expect((await rentflow.leases(0)).periodsPaid).to.equal(3);
+    });
+
+    it("Should reject payments beyond the remaining rent", async function () {
+      await expect(
+        rentflow.connect(tenant).payRentAmount(0, RENT_AMOUNT * 13n)
+      ).to.be.revertedWith("Payment exceeds remaining rent");
+    });
+
+    it("Should report arrears for past-due periods", async function () {
+      await time.increaseTo(addMonths(startDate, 1) + DAY);
+      let [balance, periods] = await rentflow.getArrears(0);
+      expect(balance).to.equal(RENT_AMOUNT * 2n);
+      expect(periods).to.equal(2);
+
+      await rentflow.connect(tenant).payRentAmount(0, RENT_AMOUNT + RENT_AMOUNT / 2n);
+      [balance, periods] = await rentflow.getArrears(0);
+      expect(balance).to.equal(RENT_AMOUNT / 2n);
+      expect(periods).to.equal(1);
+    });
+
+    it("Should flag rent overdue from the due day, not the last payment", async function () {
+      await rentflow.connect(tenant).payRent(0);
+
+      // Second period is due on the 1st of next month
+      await time.increaseTo(addMonths(startDate, 1) + DAY / 2);
+      await expect(rentflow.connect(aiAgent).checkRentOverdue(0)).not.to.emit(rentflow, "RentOverdue");
+
+      await time.increaseTo(addMonths(startDate, 1) + 3 * DAY);
+      await expect(rentflow.connect(aiAgent).checkRentOverdue(0))
+        .to.emit(rentflow, "RentOverdue")
+        .withArgs(0, 3);
+    });
+  });
+
+  describe("Rent Payouts", function () {
+    const MANAGER_BPS = 1000; // 10%
+    const CO_OWNER_BPS = 3333; // 33.33%
+    const RESERVE_BPS = 500; // 5%
+    let manager: SignerWithAddress;
+    let coOwner: SignerWithAddress;
+
+    const share = (bps: number) => (RENT_AMOUNT * BigInt(bps)) / 10000n;
+
+    beforeEach(async function () {
+      [, , , , , , manager, coOwner] = await ethers.getSigners();
+
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT + RENT_AMOUNT);
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, await time.latest(), 12, 1, NO_LATE_FEE);
+    });
+
+    it("Should push each share at payment time and credit the reserve", async function () {
+      const splits = [
+        { recipient: manager.address, bps: MANAGER_BPS },
+        { recipient: coOwner.address, bps: CO_OWNER_BPS },
+      ];
+      const ownerBps = 10000 - MANAGER_BPS - CO_OWNER_BPS - RESERVE_BPS;
+      await expect(rentflow.connect(propertyOwner).setPayoutSplits(0, splits, RESERVE_BPS, false))
+        .to.emit(rentflow, "PayoutSplitsUpdated")
+        .withArgs(0, 1, 2, RESERVE_BPS, ownerBps, false)
+        .and.to.emit(rentflow, "PayoutRecipientSet")
+        .withArgs(0, 1, coOwner.address, CO_OWNER_BPS);
+
+      const initialOwnerBalance = await usdc.balanceOf(propertyOwner.address);
+      await expect(rentflow.connect(tenant).payRent(0))
+        .to.emit(rentflow, "RentPayout")
+        .withArgs(0, manager.address, share(MANAGER_BPS), false)
+        .and.to.emit(rentflow, "MaintenanceFundAdded")
+        .withArgs(0, share(RESERVE_BPS));
+
+      expect(await usdc.balanceOf(manager.address)).to.equal(share(MANAGER_BPS));
+      expect(await usdc.balanceOf(coOwner.address)).to.equal(share(CO_OWNER_BPS));
+      expect(await rentflow.maintenanceFunds(0)).to.equal(share(RESERVE_BPS));
+      // The owner's remainder absorbs rounding
+      expect((await usdc.balanceOf(propertyOwner.address)) - initialOwnerBalance).to.equal(
+        RENT_AMOUNT - share(MANAGER_BPS) - share(CO_OWNER_BPS) - share(RESERVE_BPS)
+      );
+    });
+
+    it("Should hold pull payouts until each recipient claims", async function () {
+      await rentflow
+        .connect(propertyOwner)
+        .setPayoutSplits(0, [{ recipient: manager.address, bps: MANAGER_BPS }], 0, true);
+
+      const initialOwnerBalance = await usdc.balanceOf(propertyOwner.address);
+      await expect(rentflow.connect(tenant).payRent(0))
+        .to.emit(rentflow, "RentPayout")
+        .withArgs(0, manager.address, share(MANAGER_BPS), true);
+
+      expect(await usdc.balanceOf(manager.address)).to.equal(0);
+      expect(await usdc.balanceOf(propertyOwner.address)).to.equal(initialOwnerBalance);
+      expect(await rentflow.claimablePayouts(usdc, propertyOwner.address)).to.equal(RENT_AMOUNT - share(MANAGER_BPS));
+
+      await expect(rentflow.connect(manager).claimPayouts(usdc))
+        .to.emit(rentflow, "PayoutClaimed")
+        .withArgs(manager.address, await usdc.getAddress(), share(MANAGER_BPS));
+      expect(await usdc.balanceOf(manager.address)).to.equal(share(MANAGER_BPS));
+      expect(await rentflow.claimablePayouts(usdc, manager.address)).to.equal(0);
+
+      await expect(rentflow.connect(manager).claimPayouts(usdc)).to.be.revertedWith("Nothing to claim");
+    });
+
+    it("Should version each change and replace the previous splits", async function () {
+      await rentflow
+        .connect(propertyOwner)
+        .setPayoutSplits(0, [{ recipient: manager.address, bps: MANAGER_BPS }], RESERVE_BPS, false);
+      await rentflow
+        .connect(propertyOwner)
+        .setPayoutSplits(0, [{ recipient: coOwner.address, bps: CO_OWNER_BPS }], 0, true);
+
+      const config = await rentflow.payoutConfigs(0);
+      expect(config.version).to.equal(2);
+      expect(config.reserveBps).to.equal(0);
+      expect(config.pullPayments).to.be.true;
+
+      const splits = await rentflow.getPayoutSplits(0);
+      expect(splits.length).to.equal(1);
+      expect(splits[0].recipient).to.equal(coOwner.address);
+    });
+
+    it("Should validate payout splits", async function () {
+      await expect(
+        rentflow.connect(unauthorized).setPayoutSplits(0, [], RESERVE_BPS, false)
+      ).to.be.revertedWith("Not property owner");
+      await expect(
+        rentflow.connect(propertyOwner).setPayoutSplits(0, [{ recipient: manager.address, bps: 9600 }], RESERVE_BPS, false)
+      ).to.be.revertedWith("Splits exceed 100%");
+      await expect(
+        rentflow.connect(propertyOwner).setPayoutSplits(0, [{ recipient: ethers.ZeroAddress, bps: MANAGER_BPS }], 0, false)
+      ).to.be.revertedWith("Invalid payout recipient");
+      await expect(
+        rentflow.connect(propertyOwner).setPayoutSplits(0, [{ recipient: manager.address, bps: 0 }], 0, false)
+      ).to.be.revertedWith("Split must be positive");
+    });
+  });
+
+  describe("Autopay", function () {
+    const FLAT_FEE = ethers.parseUnits("50", USDC_DECIMALS);
+    const FLAT_TERMS = { gracePeriodDays: 3, feeType: 1, amount: FLAT_FEE, cap: 0 };
+    let firstDueDate: number;
+
+    beforeEach(async function () {
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), ethers.MaxUint256);
+      firstDueDate = firstOfMonthAfterNext(await time.latest());
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, firstDueDate, 12, 1, FLAT_TERMS);
+    });
+
+    it("Should let the agent collect each period once it falls due", async function () {
+      await expect(rentflow.connect(tenant).enableAutopay(0, RENT_AMOUNT))
+        .to.emit(rentflow, "AutopayEnabled")
+        .withArgs(0, tenant.address, RENT_AMOUNT);
+
+      await expect(rentflow.connect(aiAgent).collectRent(0)).to.be.revertedWith("Lease hasn't started");
+
+      await time.increaseTo(firstDueDate);
+      const initialOwnerBalance = await usdc.balanceOf(propertyOwner.address);
+      await expect(rentflow.connect(aiAgent).collectRent(0))
+        .to.emit(rentflow, "RentPaymentItemized")
+        .withArgs(0, 0, RENT_AMOUNT, 0, firstDueDate);
+      expect((await usdc.balanceOf(propertyOwner.address)) - initialOwnerBalance).to.equal(RENT_AMOUNT);
+
+      // The next period is not due until next month
+      await expect(rentflow.connect(aiAgent).collectRent(0)).to.be.revertedWith("Rent not due yet");
+    });
+
+    it("Should enable autopay with a permit signature", async function () {
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), 0);
+      const deadline = (await time.latest()) + DAY;
+      const allowance = RENT_AMOUNT * 12n;
+      const signature = ethers.Signature.from(
+        await tenant.signTypedData(
+          {
+            name: await usdc.name(),
+            version: "1",
+            chainId: (await ethers.provider.getNetwork()).chainId,
+            verifyingContract: await usdc.getAddress(),
+          },
+          {
+            Permit: [
+              { name: "owner", type: "address" },
+              { name: "spender", type: "address" },
+              { name: "value", type: "uint256" },
+              { name: "nonce", type: "uint256" },
+              { name: "deadline", type: "uint256" },
+            ],
+          },
+          {
+            owner: tenant.address,
+            spender: await rentflow.getAddress(),
+            value: allowance,
+            nonce: await usdc.nonces(tenant.address),
+            deadline,
+          }
+        )
+      );
+
+      await rentflow
+        .connect(tenant)
+        .enableAutopayWithPermit(0, RENT_AMOUNT, allowance, deadline, signature.v, signature.r, signature.s);
+
+      expect(await usdc.allowance(tenant.address, await rentflow.getAddress())).to.equal(allowance);
+      expect(await rentflow.autopayCaps(0)).to.equal(RENT_AMOUNT);
+    });
+
+    it("Should refuse a collection above the per-period cap", async function () {
+      await rentflow.connect(tenant).enableAutopay(0, RENT_AMOUNT);
+      await time.increaseTo(firstDueDate + 4 * DAY); // Late fee now applies
+
+      await expect(rentflow.connect(aiAgent).collectRent(0)).to.be.revertedWith("Exceeds autopay cap");
+
+      await rentflow.connect(tenant).enableAutopay(0, RENT_AMOUNT + FLAT_FEE);
+      await expect(rentflow.connect(aiAgent).collectRent(0))
+        .to.emit(rentflow, "RentPaymentItemized")
+        .withArgs(0, 0, RENT_AMOUNT, FLAT_FEE, firstDueDate);
+    });
+
+    it("Should fail when the tenant's allowance runs out", async function () {
+      await rentflow.connect(tenant).enableAutopay(0, RENT_AMOUNT);
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), RENT_AMOUNT - 1n);
+      await time.increaseTo(firstDueDate);
+
+      await expect(rentflow.connect(aiAgent).collectRent(0)).to.be.revertedWithCustomError(
+        usdc,
+        "ERC20InsufficientAllowance"
+      );
+    });
+
+    it("Should stop collecting once the tenant revokes autopay", async function () {
+      await rentflow.connect(tenant).enableAutopay(0, RENT_AMOUNT);
+      await expect(rentflow.connect(tenant).disableAutopay(0))
+        .to.emit(rentflow, "AutopayDisabled")
+        .withArgs(0, tenant.address);
+
+      await time.increaseTo(firstDueDate);
+      await expect(rentflow.connect(aiAgent).collectRent(0)).to.be.revertedWith("Autopay not enabled");
+      await expect(rentflow.connect(tenant).disableAutopay(0)).to.be.revertedWith("Autopay not enabled");
+    });
+
+    it("Should restrict who can enable and collect", async function () {
+      await expect(rentflow.connect(propertyOwner).enableAutopay(0, RENT_AMOUNT)).to.be.revertedWith("Not tenant");
+      await expect(rentflow.connect(tenant).enableAutopay(0, 0)).to.be.revertedWith("Cap must be positive");
+
+      await rentflow.connect(tenant).enableAutopay(0, RENT_AMOUNT);
+      await time.increaseTo(firstDueDate);
+      await expect(rentflow.connect(propertyOwner).collectRent(0)).to.be.revertedWith("Not authorized AI agent");
+    });
+  });
+
+  describe("Lease Lifecycle", function () {
+    const TERMINATION_FEE = ethers.parseUnits("1000", USDC_DECIMALS);
+    let startDate: number;
+
+    beforeEach(async function () {
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), ethers.MaxUint256);
+      startDate = firstOfMonthAfterNext(await time.latest());
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 12, 1, NO_LATE_FEE);
+      await time.increaseTo(startDate);
+    });
+
+    it("Should let the owner pause a lease and block rent while paused", async function () {
+      await expect(rentflow.connect(tenant).pauseLease(0)).to.be.revertedWith("Not property owner");
+
+      await expect(rentflow.connect(propertyOwner).pauseLease(0)).to.emit(rentflow, "LeasePaused");
+      expect((await rentflow.leases(0)).status).to.equal(1); // Paused
+
+      await expect(rentflow.connect(tenant).payRent(0)).to.be.revertedWith("Lease not active");
+    });
+
+    it("Should still let the tenant request maintenance while paused", async function () {
+      await rentflow.connect(propertyOwner).pauseLease(0);
+
+      await expect(
+        rentflow.connect(tenant).requestMaintenance(0, "Ceiling repair follow-up", MAINTENANCE_COST)
+      ).to.emit(rentflow, "MaintenanceRequested");
+    });
+
+    it("Should waive rent that fell due during the pause", async function () {
+      await rentflow.connect(tenant).payRent(0);
+      await rentflow.connect(propertyOwner).pauseLease(0);
+      await time.increaseTo(addMonths(startDate, 2) + DAY); // Periods 1 and 2 fall due
+
+      await expect(rentflow.connect(propertyOwner).resumeLease(0))
+        .to.emit(rentflow, "LeaseResumed")
+        .withArgs(0, 2);
+
+      const lease = await rentflow.leases(0);
+      expect(lease.status).to.equal(0); // Active
+      expect(lease.periodsPaid).to.equal(3);
+      expect((await rentflow.getBillingPeriod(0, 1)).waived).to.be.true;
+      expect((await rentflow.getArrears(0)).balance).to.equal(0);
+    });
+
+    it("Should terminate early when the other party accepts the agreed fee", async function () {
+      await expect(rentflow.connect(propertyOwner).proposeEarlyTermination(0, TERMINATION_FEE))
+        .to.emit(rentflow, "TerminationProposed")
+        .withArgs(0, propertyOwner.address, TERMINATION_FEE);
+
+      await expect(
+        rentflow.connect(propertyOwner).acceptEarlyTermination(0, TERMINATION_FEE)
+      ).to.be.revertedWith("Proposer cannot accept");
+
+      const initialOwnerBalance = await usdc.balanceOf(propertyOwner.address);
+      await expect(rentflow.connect(tenant).acceptEarlyTermination(0, TERMINATION_FEE))
+        .to.emit(rentflow, "LeaseTerminated")
+        .withArgs(0, 0, TERMINATION_FEE); // Mutual
+
+      expect(await usdc.balanceOf(propertyOwner.address) - initialOwnerBalance).to.equal(TERMINATION_FEE);
+      expect((await rentflow.leases(0)).status).to.equal(2); // Terminated
+
+      await expect(rentflow.connect(tenant).payRent(0)).to.be.revertedWith("Lease not active");
+      await expect(
+        rentflow.connect(tenant).requestMaintenance(0, "Leaking faucet in kitchen", MAINTENANCE_COST)
+      ).to.be.revertedWith("Not authorized for this property");
+
+      // Deposit can be settled right away
+      await expect(rentflow.connect(propertyOwner).proposeDepositDeductions(0, []))
+        .to.emit(rentflow, "SecurityDepositReturned");
+    });
+
+    it("Should refuse a termination accepted on terms since re-proposed", async function () {
+      await rentflow.connect(propertyOwner).proposeEarlyTermination(0, TERMINATION_FEE);
+      // The owner raises the fee while the tenant's acceptance of the first offer is pending
+      await rentflow.connect(propertyOwner).proposeEarlyTermination(0, TERMINATION_FEE * 2n);
+
+      await expect(
+        rentflow.connect(tenant).acceptEarlyTermination(0, TERMINATION_FEE)
+      ).to.be.revertedWith("Termination terms changed");
+      expect((await rentflow.leases(0)).status).to.equal(0); // Active
+
+      await expect(rentflow.connect(tenant).acceptEarlyTermination(0, TERMINATION_FEE * 2n))
+        .to.emit(rentflow, "LeaseTerminated")
+        .withArgs(0, 0, TERMINATION_FEE * 2n);
+    });
+
+    it("Should only terminate for default once rent is two periods behind", async function () {
+      await time.increaseTo(startDate + 2 * DAY);
+      await expect(
+        rentflow.connect(propertyOwner).terminateForDefault(0)
+      ).to.be.revertedWith("Tenant not in default");
+
+      await time.increaseTo(addMonths(startDate, 1) + 2 * DAY);
+      await expect(rentflow.connect(propertyOwner).terminateForDefault(0))
+        .to.emit(rentflow, "LeaseTerminated")
+        .withArgs(0, 1, 0); // Default
+
+      // What was owed at termination is still reported
+      expect((await rentflow.getArrears(0)).balance).to.equal(RENT_AMOUNT * 2n);
+    });
+
+    it("Should extend the lease with new rent once renewal is accepted", async function () {
+      const newRent = ethers.parseUnits("2750", USDC_DECIMALS);
+      await rentflow.connect(propertyOwner).proposeRenewal(0, 6, newRent);
+
+      await expect(rentflow.connect(tenant).acceptRenewal(0, 6, newRent))
+        .to.emit(rentflow, "LeaseRenewed")
+        .withArgs(0, addMonths(startDate, 18), newRent);
+
+      const lease = await rentflow.leases(0);
+      expect(lease.periodCount).to.equal(18);
+      expect((await rentflow.getBillingPeriod(0, 11)).amountDue).to.equal(RENT_AMOUNT);
+      expect((await rentflow.getBillingPeriod(0, 12)).amountDue).to.equal(newRent);
+    });
+
+    it("Should refuse a renewal accepted on terms since re-proposed", async function () {
+      const newRent = ethers.parseUnits("2750", USDC_DECIMALS);
+      await rentflow.connect(propertyOwner).proposeRenewal(0, 6, newRent);
+      await rentflow.connect(propertyOwner).proposeRenewal(0, 12, newRent * 2n);
+
+      await expect(
+        rentflow.connect(tenant).acceptRenewal(0, 6, newRent)
+      ).to.be.revertedWith("Renewal terms changed");
+      await expect(
+        rentflow.connect(tenant).acceptRenewal(0, 12, newRent)
+      ).to.be.revertedWith("Renewal terms changed");
+      expect((await rentflow.leases(0)).periodCount).to.equal(12);
+
+      await expect(rentflow.connect(tenant).acceptRenewal(0, 12, newRent * 2n))
+        .to.emit(rentflow, "LeaseRenewed")
+        .withArgs(0, addMonths(startDate, 24), newRent * 2n);
+    });
+
+    it("Should reject lifecycle proposals from outsiders", async function () {
+      await expect(
+        rentflow.connect(unauthorized).proposeEarlyTermination(0, 0)
+      ).to.be.revertedWith("Not a party to this lease");
+
+      await expect(
+        rentflow.connect(unauthorized).proposeRenewal(0, 6, RENT_AMOUNT)
+      ).to.be.revertedWith("Not a party to this lease");
+    });
+  });
+
   describe("Maintenance Management", function () {
     beforeEach(async function () {
       // Register property
-      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT);
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
     });
 
     it("Should allow property owner to request maintenance", async function () {
@@ -342,7 +1095,7 @@ describe("RentFlowCore", function () {
       // Create lease first
       await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT);
       const startDate = await time.latest();
-      await rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 12, 1);
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 12, 1, NO_LATE_FEE);
 
       const tx = await rentflow.connect(tenant).requestMaintenance(
         0,
@@ -374,7 +1127,7 @@ describe("RentFlowCore", function () {
 
   describe("AI Agent Maintenance Approval", function () {
     beforeEach(async function () {
-      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT);
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
       await rentflow.connect(propertyOwner).requestMaintenance(0, "Fix leak", MAINTENANCE_COST);
     });
 
@@ -382,7 +1135,8 @@ describe("RentFlowCore", function () {
       const tx = await rentflow.connect(aiAgent).approveMaintenance(
         0,
         MAINTENANCE_COST,
-        contractor.address
+        contractor.address,
+        PLUMBING
       );
 
       await expect(tx)
@@ -395,38 +1149,380 @@ describe("RentFlowCore", function () {
       expect(request.status).to.equal(1); // Approved
     });
 
-    it("Should enforce AI approval limit of $500", async function () {
+    it("Should escalate requests above the default $500 limit to the owner", async function () {
       const overLimit = ethers.parseUnits("501", USDC_DECIMALS);
 
       await expect(
-        rentflow.connect(aiAgent).approveMaintenance(0, overLimit, contractor.address)
-      ).to.be.revertedWith("Exceeds AI approval limit");
+        rentflow.connect(aiAgent).approveMaintenance(0, overLimit, contractor.address, PLUMBING)
+      )
+        .to.emit(rentflow, "MaintenanceEscalated")
+        .withArgs(0, 1, overLimit, contractor.address); // AboveAutoApprovalLimit
+
+      const request = await rentflow.maintenanceRequests(0);
+      expect(request.status).to.equal(5); // AwaitingOwnerApproval
+      expect(request.approvedAmount).to.equal(overLimit);
     });
 
     it("Should prevent unauthorized agent from approving", async function () {
       await expect(
-        rentflow.connect(unauthorized).approveMaintenance(0, MAINTENANCE_COST, contractor.address)
+        rentflow.connect(unauthorized).approveMaintenance(0, MAINTENANCE_COST, contractor.address, PLUMBING)
       ).to.be.revertedWith("Not authorized AI agent");
     });
 
     it("Should fail with invalid contractor address", async function () {
       await expect(
-        rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, ethers.ZeroAddress)
+        rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, ethers.ZeroAddress, PLUMBING)
       ).to.be.revertedWith("Invalid contractor address");
     });
 
     it("Should fail if request is not pending", async function () {
-      await rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, contractor.address);
+      await rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, contractor.address, PLUMBING);
+
+      await expect(
+        rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, contractor.address, PLUMBING)
+      ).to.be.revertedWith("Request not pending");
+    });
+  });
+
+  describe("Approval Policies", function () {
+    const LIMIT = ethers.parseUnits("200", USDC_DECIMALS);
+
+    beforeEach(async function () {
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      for (let i = 0; i < 3; i++) {
+        await rentflow.connect(propertyOwner).requestMaintenance(0, "Fix leak", MAINTENANCE_COST);
+      }
+    });
+
+    function policy(overrides: Partial<Record<string, bigint | number>> = {}) {
+      return { autoApprovalLimit: LIMIT, dailyCap: 0, monthlyCap: 0, blockedCategories: 0, ...overrides };
+    }
+
+    it("Should start every property on the default policy", async function () {
+      const current = await rentflow.approvalPolicies(0);
+      expect(current.autoApprovalLimit).to.equal(ethers.parseUnits("500", USDC_DECIMALS));
+      expect(current.dailyCap).to.equal(0);
+      expect(current.blockedCategories).to.equal(0);
+    });
+
+    it("Should let only the property owner set a policy", async function () {
+      await expect(rentflow.connect(propertyOwner).setApprovalPolicy(0, policy({ dailyCap: LIMIT })))
+        .to.emit(rentflow, "ApprovalPolicyUpdated")
+        .withArgs(0, LIMIT, LIMIT, 0, 0);
+
+      await expect(
+        rentflow.connect(unauthorized).setApprovalPolicy(0, policy())
+      ).to.be.revertedWith("Not property owner");
+    });
+
+    it("Should reject unknown categories and inverted caps", async function () {
+      await expect(
+        rentflow.connect(propertyOwner).setApprovalPolicy(0, policy({ blockedCategories: 1 << 10 }))
+      ).to.be.revertedWith("Unknown maintenance category");
+      await expect(
+        rentflow.connect(propertyOwner).setApprovalPolicy(0, policy({ dailyCap: LIMIT, monthlyCap: LIMIT - 1n }))
+      ).to.be.revertedWith("Daily cap exceeds monthly cap");
+    });
+
+    it("Should escalate blocked categories", async function () {
+      await rentflow.connect(propertyOwner).setApprovalPolicy(0, policy({ blockedCategories: 1 << COSMETIC }));
+
+      await expect(rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, contractor.address, COSMETIC))
+        .to.emit(rentflow, "MaintenanceEscalated")
+        .withArgs(0, 0, MAINTENANCE_COST, contractor.address); // CategoryBlocked
+      await expect(rentflow.connect(aiAgent).approveMaintenance(1, MAINTENANCE_COST, contractor.address, PLUMBING))
+        .to.emit(rentflow, "MaintenanceApproved");
+    });
+
+    it("Should escalate once the daily cap would be exceeded", async function () {
+      await rentflow.connect(propertyOwner).setApprovalPolicy(0, policy({ dailyCap: LIMIT }));
+
+      await rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, contractor.address, PLUMBING);
+      expect((await rentflow.getAISpend(0)).spentToday).to.equal(MAINTENANCE_COST);
+
+      await expect(rentflow.connect(aiAgent).approveMaintenance(1, MAINTENANCE_COST, contractor.address, PLUMBING))
+        .to.emit(rentflow, "MaintenanceEscalated")
+        .withArgs(1, 2, MAINTENANCE_COST, contractor.address); // DailyCapExceeded
+
+      // A new day resets the daily bucket
+      await time.increase(DAY);
+      await expect(rentflow.connect(aiAgent).approveMaintenance(2, MAINTENANCE_COST, contractor.address, PLUMBING))
+        .to.emit(rentflow, "MaintenanceApproved");
+    });
+
+    it("Should escalate once the monthly cap would be exceeded", async function () {
+      await rentflow.connect(propertyOwner).setApprovalPolicy(0, policy({ monthlyCap: LIMIT }));
+      // Mid-month, so the next day stays in the same month
+      await time.increaseTo(addMonths(await time.latest(), 1) + 10 * DAY);
+
+      await rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, contractor.address, PLUMBING);
+      await time.increase(DAY);
+
+      await expect(rentflow.connect(aiAgent).approveMaintenance(1, MAINTENANCE_COST, contractor.address, PLUMBING))
+        .to.emit(rentflow, "MaintenanceEscalated")
+        .withArgs(1, 3, MAINTENANCE_COST, contractor.address); // MonthlyCapExceeded
+      expect((await rentflow.getAISpend(0)).spentToday).to.equal(0);
+    });
+
+    it("Should let the owner approve an escalated request", async function () {
+      const overLimit = ethers.parseUnits("800", USDC_DECIMALS);
+      await rentflow.connect(aiAgent).approveMaintenance(0, overLimit, contractor.address, PLUMBING);
+
+      await expect(
+        rentflow.connect(unauthorized).ownerApproveMaintenance(0, overLimit, contractor.address)
+      ).to.be.revertedWith("Not property owner or manager");
+
+      await expect(rentflow.connect(propertyOwner).ownerApproveMaintenance(0, overLimit, contractor.address))
+        .to.emit(rentflow, "MaintenanceApproved")
+        .withArgs(0, overLimit, contractor.address);
+
+      expect((await rentflow.maintenanceRequests(0)).status).to.equal(1); // Approved
+      // Owner approvals do not count against the AI caps
+      expect((await rentflow.getAISpend(0)).spentThisMonth).to.equal(0);
+    });
+  });
+
+  describe("Maintenance Workflow", function () {
+    const EVIDENCE = ethers.id("ipfs://evidence-photos");
+    // RejectionReason enum values
+    const DUPLICATE = 2;
+    const WORK_UNSATISFACTORY = 5;
+
+    beforeEach(async function () {
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      const fundAmount = ethers.parseUnits("1000", USDC_DECIMALS);
+      await usdc.connect(propertyOwner).approve(await rentflow.getAddress(), fundAmount);
+      await rentflow.connect(propertyOwner).fundMaintenance(0, fundAmount);
+
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT);
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, await time.latest(), 12, 1, NO_LATE_FEE);
+
+      await rentflow.connect(tenant).requestMaintenance(0, "Fix leak", MAINTENANCE_COST);
+      await rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, contractor.address, PLUMBING);
+    });
+
+    it("Should walk a job from approval to tenant sign-off", async function () {
+      await expect(rentflow.connect(contractor).acceptMaintenanceJob(0))
+        .to.emit(rentflow, "MaintenanceAccepted")
+        .withArgs(0, contractor.address);
+      await expect(rentflow.connect(contractor).startMaintenanceWork(0))
+        .to.emit(rentflow, "MaintenanceStarted")
+        .withArgs(0, contractor.address);
+      expect((await rentflow.maintenanceRequests(0)).status).to.equal(2); // InProgress
+
+      const tx = await rentflow.connect(contractor).submitMaintenanceCompletion(0, EVIDENCE);
+      const deadline = (await time.latest()) + 3 * DAY;
+      await expect(tx).to.emit(rentflow, "MaintenanceWorkSubmitted").withArgs(0, EVIDENCE, deadline);
+
+      const request = await rentflow.maintenanceRequests(0);
+      expect(request.status).to.equal(7); // WorkSubmitted
+      expect(request.evidenceHash).to.equal(EVIDENCE);
+
+      await expect(rentflow.connect(tenant).signOffMaintenance(0))
+        .to.emit(rentflow, "MaintenanceSignedOff")
+        .withArgs(0, tenant.address)
+        .and.to.emit(rentflow, "MaintenancePaid")
+        .withArgs(0, MAINTENANCE_COST, contractor.address);
+      expect((await rentflow.maintenanceRequests(0)).status).to.equal(3); // Completed
+    });
+
+    it("Should only let the assigned contractor progress the job in order", async function () {
+      await expect(
+        rentflow.connect(unauthorized).acceptMaintenanceJob(0)
+      ).to.be.revertedWith("Not assigned contractor");
+      await expect(
+        rentflow.connect(contractor).startMaintenanceWork(0)
+      ).to.be.revertedWith("Invalid maintenance status");
+
+      await rentflow.connect(contractor).acceptMaintenanceJob(0);
+      await rentflow.connect(contractor).startMaintenanceWork(0);
+      await expect(
+        rentflow.connect(contractor).submitMaintenanceCompletion(0, ethers.ZeroHash)
+      ).to.be.revertedWith("Evidence required");
+    });
+
+    it("Should not pay before the work is submitted", async function () {
+      await expect(
+        rentflow.connect(propertyOwner).signOffMaintenance(0)
+      ).to.be.revertedWith("Work not submitted");
+      await expect(
+        rentflow.connect(propertyOwner).payMaintenanceContractor(0)
+      ).to.be.revertedWith("Work not submitted");
+    });
+
+    it("Should release payment automatically after the dispute window", async function () {
+      await completeWork(0);
+
+      await expect(
+        rentflow.connect(contractor).payMaintenanceContractor(0)
+      ).to.be.revertedWith("Dispute window open");
+
+      await time.increase(3 * DAY + 1);
+      await expect(rentflow.connect(contractor).payMaintenanceContractor(0))
+        .to.emit(rentflow, "MaintenancePaid")
+        .withArgs(0, MAINTENANCE_COST, contractor.address);
+    });
+
+    it("Should hold a disputed job until the owner decides", async function () {
+      await completeWork(0);
+
+      await expect(rentflow.connect(tenant).disputeMaintenance(0))
+        .to.emit(rentflow, "MaintenanceDisputed")
+        .withArgs(0, tenant.address);
+      expect((await rentflow.maintenanceRequests(0)).status).to.equal(8); // Disputed
 
+      await time.increase(3 * DAY + 1);
       await expect(
-        rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, contractor.address)
+        rentflow.connect(contractor).payMaintenanceContractor(0)
+      ).to.be.revertedWith("Work not submitted");
+      await expect(
+        rentflow.connect(tenant).signOffMaintenance(0)
+      ).to.be.revertedWith("Not property owner");
+
+      await expect(rentflow.connect(propertyOwner).rejectMaintenance(0, WORK_UNSATISFACTORY))
+        .to.emit(rentflow, "MaintenanceRejected")
+        .withArgs(0, WORK_UNSATISFACTORY, propertyOwner.address);
+      expect(await rentflow.maintenanceFunds(0)).to.equal(ethers.parseUnits("1000", USDC_DECIMALS));
+    });
+
+    it("Should close the dispute window after the deadline", async function () {
+      await completeWork(0);
+      await time.increase(3 * DAY + 1);
+
+      await expect(
+        rentflow.connect(propertyOwner).disputeMaintenance(0)
+      ).to.be.revertedWith("Dispute window closed");
+    });
+
+    it("Should record the reason when a request is rejected", async function () {
+      await rentflow.connect(tenant).requestMaintenance(0, "Fix leak again", MAINTENANCE_COST);
+
+      await expect(rentflow.connect(aiAgent).rejectMaintenance(1, DUPLICATE))
+        .to.emit(rentflow, "MaintenanceRejected")
+        .withArgs(1, DUPLICATE, aiAgent.address);
+
+      const request = await rentflow.maintenanceRequests(1);
+      expect(request.status).to.equal(4); // Rejected
+      expect(request.rejectionReason).to.equal(DUPLICATE);
+    });
+
+    it("Should limit who can reject and when", async function () {
+      // The AI agent cannot undo an approval; the owner can until work starts
+      await expect(
+        rentflow.connect(aiAgent).rejectMaintenance(0, DUPLICATE)
       ).to.be.revertedWith("Request not pending");
+      await expect(
+        rentflow.connect(tenant).rejectMaintenance(0, DUPLICATE)
+      ).to.be.revertedWith("Not authorized");
+      await expect(
+        rentflow.connect(propertyOwner).rejectMaintenance(0, 0)
+      ).to.be.revertedWith("Rejection reason required");
+
+      await rentflow.connect(contractor).acceptMaintenanceJob(0);
+      await rentflow.connect(contractor).startMaintenanceWork(0);
+      await expect(
+        rentflow.connect(propertyOwner).rejectMaintenance(0, DUPLICATE)
+      ).to.be.revertedWith("Cannot reject at this stage");
+    });
+  });
+
+  describe("Contractor Registry", function () {
+    const ELECTRICAL = 1;
+
+    beforeEach(async function () {
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      await rentflow.connect(propertyOwner).requestMaintenance(0, "Fix leak", MAINTENANCE_COST);
+    });
+
+    it("Should store the contractor's trades, areas and documents", async function () {
+      const license = ethers.id("license-v2");
+      await expect(
+        rentflow.connect(unauthorized).registerContractor(1 << ELECTRICAL, [SERVICE_AREA], license, ethers.ZeroHash)
+      )
+        .to.emit(rentflow, "ContractorRegistered")
+        .withArgs(unauthorized.address, 1 << ELECTRICAL, license, ethers.ZeroHash);
+
+      const profile = await rentflow.getContractor(unauthorized.address);
+      expect(profile.trades).to.equal(1 << ELECTRICAL);
+      expect(profile.serviceAreas).to.deep.equal([SERVICE_AREA]);
+      expect(profile.licenseHash).to.equal(license);
+    });
+
+    it("Should reject incomplete registrations", async function () {
+      const register = (trades: number, areas: string[], license: string) =>
+        rentflow.connect(unauthorized).registerContractor(trades, areas, license, ethers.ZeroHash);
+
+      await expect(register(0, [SERVICE_AREA], ethers.id("l"))).to.be.revertedWith("Trades required");
+      await expect(register(1 << 10, [SERVICE_AREA], ethers.id("l"))).to.be.revertedWith(
+        "Unknown maintenance category"
+      );
+      await expect(register(1, [], ethers.id("l"))).to.be.revertedWith("Invalid service areas");
+      await expect(register(1, [SERVICE_AREA], ethers.ZeroHash)).to.be.revertedWith("Vetting document required");
+    });
+
+    it("Should only allowlist registered contractors", async function () {
+      await expect(
+        rentflow.connect(propertyOwner).setContractorAllowed(unauthorized.address, true)
+      ).to.be.revertedWith("Contractor not registered");
+
+      await expect(rentflow.connect(propertyOwner).setContractorAllowed(contractor.address, false))
+        .to.emit(rentflow, "ContractorAllowlistUpdated")
+        .withArgs(propertyOwner.address, contractor.address, false);
+      expect(await rentflow.isContractorAllowed(0, contractor.address)).to.equal(false);
+    });
+
+    it("Should refuse approvals to contractors the owner has not allowed", async function () {
+      await rentflow.connect(unauthorized).registerContractor(ALL_TRADES, [SERVICE_AREA], ethers.id("l"), ethers.ZeroHash);
+
+      await expect(
+        rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, unauthorized.address, PLUMBING)
+      ).to.be.revertedWith("Contractor not allowed for property");
+      await expect(
+        rentflow.connect(propertyOwner).ownerApproveMaintenance(0, MAINTENANCE_COST, unauthorized.address)
+      ).to.be.revertedWith("Contractor not allowed for property");
+    });
+
+    it("Should refuse AI approvals outside the contractor's trades", async function () {
+      await rentflow.connect(unauthorized).registerContractor(1 << ELECTRICAL, [SERVICE_AREA], ethers.id("l"), ethers.ZeroHash);
+      await rentflow.connect(propertyOwner).setContractorAllowed(unauthorized.address, true);
+
+      await expect(
+        rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, unauthorized.address, PLUMBING)
+      ).to.be.revertedWith("Contractor does not cover category");
+      await expect(rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, unauthorized.address, ELECTRICAL))
+        .to.emit(rentflow, "MaintenanceApproved");
+    });
+
+    it("Should record job history and one rating per paid job", async function () {
+      const fundAmount = ethers.parseUnits("1000", USDC_DECIMALS);
+      await usdc.connect(propertyOwner).approve(await rentflow.getAddress(), fundAmount);
+      await rentflow.connect(propertyOwner).fundMaintenance(0, fundAmount);
+      await rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, contractor.address, PLUMBING);
+      await completeWork(0);
+
+      await expect(rentflow.connect(propertyOwner).rateMaintenance(0, 5)).to.be.revertedWith("Job not completed");
+      await rentflow.connect(propertyOwner).signOffMaintenance(0);
+
+      await expect(rentflow.connect(unauthorized).rateMaintenance(0, 5)).to.be.revertedWith(
+        "Not authorized for this property"
+      );
+      await expect(rentflow.connect(propertyOwner).rateMaintenance(0, 6)).to.be.revertedWith("Rating must be 1-5");
+      await expect(rentflow.connect(propertyOwner).rateMaintenance(0, 4))
+        .to.emit(rentflow, "ContractorRated")
+        .withArgs(contractor.address, 0, 4);
+      await expect(rentflow.connect(propertyOwner).rateMaintenance(0, 5)).to.be.revertedWith("Job already rated");
+
+      const profile = await rentflow.getContractor(contractor.address);
+      expect(profile.jobsCompleted).to.equal(1);
+      expect(profile.totalEarned).to.equal(MAINTENANCE_COST);
+      expect(profile.ratingTotal).to.equal(4);
+      expect(profile.ratingCount).to.equal(1);
     });
   });
 
   describe("Maintenance Fund Management", function () {
     beforeEach(async function () {
-      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT);
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
     });
 
     it("Should allow property owner to fund maintenance", async function () {
@@ -448,13 +1544,14 @@ describe("RentFlowCore", function () {
       await usdc.connect(propertyOwner).approve(await rentflow.getAddress(), fundAmount);
       await rentflow.connect(propertyOwner).fundMaintenance(0, fundAmount);
 
-      // Request and approve maintenance
+      // Request, approve and complete maintenance
       await rentflow.connect(propertyOwner).requestMaintenance(0, "Fix leak", MAINTENANCE_COST);
-      await rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, contractor.address);
+      await rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, contractor.address, PLUMBING);
+      await completeWork(0);
 
-      // Pay contractor
+      // Sign off and pay contractor
       const initialContractorBalance = await usdc.balanceOf(contractor.address);
-      const tx = await rentflow.connect(propertyOwner).payMaintenanceContractor(0);
+      const tx = await rentflow.connect(propertyOwner).signOffMaintenance(0);
 
       await expect(tx)
         .to.emit(rentflow, "MaintenancePaid")
@@ -466,43 +1563,204 @@ describe("RentFlowCore", function () {
 
     it("Should fail if insufficient maintenance funds", async function () {
       await rentflow.connect(propertyOwner).requestMaintenance(0, "Fix leak", MAINTENANCE_COST);
-      await rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, contractor.address);
+      await rentflow.connect(aiAgent).approveMaintenance(0, MAINTENANCE_COST, contractor.address, PLUMBING);
+      await completeWork(0);
 
       await expect(
-        rentflow.connect(propertyOwner).payMaintenanceContractor(0)
+        rentflow.connect(propertyOwner).signOffMaintenance(0)
       ).to.be.revertedWith("Insufficient maintenance funds");
     });
   });
 
-  describe("AI Agent Authorization", function () {
-    it("Should allow owner to authorize AI agent", async function () {
+  describe("Roles", function () {
+    let AI_AGENT_ROLE: string;
+    let PAUSER_ROLE: string;
+
+    beforeEach(async function () {
+      AI_AGENT_ROLE = await rentflow.AI_AGENT_ROLE();
+      PAUSER_ROLE = await rentflow.PAUSER_ROLE();
+    });
+
+    it("Should allow admin to authorize AI agent", async function () {
       const newAgent = unauthorized;
 
-      const tx = await rentflow.connect(owner).setAIAgent(newAgent.address, true);
+      await expect(rentflow.connect(owner).grantRole(AI_AGENT_ROLE, newAgent.address))
+        .to.emit(rentflow, "RoleGranted")
+        .withArgs(AI_AGENT_ROLE, newAgent.address, owner.address);
 
-      await expect(tx)
-        .to.emit(rentflow, "AIAgentAuthorized")
-        .withArgs(newAgent.address, true);
+      expect(await rentflow.hasRole(AI_AGENT_ROLE, newAgent.address)).to.be.true;
+    });
+
+    it("Should allow admin to revoke AI agent", async function () {
+      await expect(rentflow.connect(owner).revokeRole(AI_AGENT_ROLE, aiAgent.address))
+        .to.emit(rentflow, "RoleRevoked")
+        .withArgs(AI_AGENT_ROLE, aiAgent.address, owner.address);
+
+      expect(await rentflow.hasRole(AI_AGENT_ROLE, aiAgent.address)).to.be.false;
+      await expect(rentflow.connect(aiAgent).checkRentOverdue(0)).to.be.revertedWith("Not authorized AI agent");
+    });
+
+    it("Should prevent non-admin from granting roles", async function () {
+      await expect(
+        rentflow.connect(unauthorized).grantRole(AI_AGENT_ROLE, unauthorized.address)
+      ).to.be.revertedWithCustomError(rentflow, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should keep each role to its own job", async function () {
+      const pauser = unauthorized;
+      await rentflow.connect(owner).grantRole(PAUSER_ROLE, pauser.address);
+
+      await rentflow.connect(pauser).pause();
+      expect(await rentflow.paused()).to.be.true;
+      await expect(rentflow.connect(pauser).setPaymentToken(ethers.ZeroAddress, true))
+        .to.be.revertedWithCustomError(rentflow, "AccessControlUnauthorizedAccount");
+      // The AI agent can't pause, and the admin can drop its own pauser role
+      await expect(rentflow.connect(aiAgent).unpause())
+        .to.be.revertedWithCustomError(rentflow, "AccessControlUnauthorizedAccount");
+      await rentflow.connect(owner).renounceRole(PAUSER_ROLE, owner.address);
+      await expect(rentflow.connect(owner).unpause())
+        .to.be.revertedWithCustomError(rentflow, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should refuse the Ownable migration on a proxy deployed with roles", async function () {
+      await expect(rentflow.connect(unauthorized).migrateOwnerToRoles()).to.be.revertedWith("No owner to migrate");
+    });
+  });
+
+  describe("Property Managers", function () {
+    let manager: SignerWithAddress;
+    let MANAGE_LEASES: bigint;
+    let FUND_MAINTENANCE: bigint;
+    let APPROVE_MAINTENANCE: bigint;
+
+    beforeEach(async function () {
+      manager = unauthorized;
+      MANAGE_LEASES = await rentflow.MANAGE_LEASES();
+      FUND_MAINTENANCE = await rentflow.FUND_MAINTENANCE();
+      APPROVE_MAINTENANCE = await rentflow.APPROVE_MAINTENANCE();
+
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      await usdc.mint(manager.address, ethers.parseUnits("10000", USDC_DECIMALS));
+      await usdc.connect(manager).approve(await rentflow.getAddress(), ethers.MaxUint256);
+    });
+
+    it("Should let a lease manager create leases and nothing else", async function () {
+      await expect(rentflow.connect(propertyOwner).setPropertyManager(0, manager.address, MANAGE_LEASES))
+        .to.emit(rentflow, "PropertyManagerUpdated")
+        .withArgs(0, manager.address, MANAGE_LEASES);
+
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT);
+      const startDate = await time.latest();
+      await expect(rentflow.connect(manager).createLease(0, tenant.address, startDate, 12, 1, NO_LATE_FEE))
+        .to.emit(rentflow, "LeaseCreated")
+        .withArgs(0, 0, tenant.address);
 
-      expect(await rentflow.authorizedAIAgents(newAgent.address)).to.be.true;
+      expect(await rentflow.canManage(0, manager.address, MANAGE_LEASES)).to.be.true;
+      expect(await rentflow.canManage(0, manager.address, FUND_MAINTENANCE)).to.be.false;
+      await expect(rentflow.connect(manager).fundMaintenance(0, MAINTENANCE_COST))
+        .to.be.revertedWith("Not property owner or manager");
+      // Managers act for the owner, they don't become one
+      await expect(rentflow.connect(manager).setPropertyManager(0, manager.address, FUND_MAINTENANCE))
+        .to.be.revertedWith("Not property owner");
     });
 
-    it("Should allow owner to revoke AI agent", async function () {
-      await rentflow.connect(owner).setAIAgent(aiAgent.address, false);
+    it("Should let a maintenance manager fund and approve above the AI limit", async function () {
+      await rentflow
+        .connect(propertyOwner)
+        .setPropertyManager(0, manager.address, FUND_MAINTENANCE | APPROVE_MAINTENANCE);
+
+      await expect(rentflow.connect(manager).fundMaintenance(0, MAINTENANCE_COST))
+        .to.emit(rentflow, "MaintenanceFundAdded")
+        .withArgs(0, MAINTENANCE_COST);
 
-      expect(await rentflow.authorizedAIAgents(aiAgent.address)).to.be.false;
+      const overLimit = ethers.parseUnits("501", USDC_DECIMALS);
+      await rentflow.connect(propertyOwner).requestMaintenance(0, "Replace boiler", overLimit);
+      await rentflow.connect(aiAgent).approveMaintenance(0, overLimit, contractor.address, PLUMBING);
+      await expect(rentflow.connect(manager).ownerApproveMaintenance(0, overLimit, contractor.address))
+        .to.emit(rentflow, "MaintenanceApproved")
+        .withArgs(0, overLimit, contractor.address);
     });
 
-    it("Should prevent non-owner from authorizing agents", async function () {
+    it("Should revoke a manager by clearing their permissions", async function () {
+      await rentflow.connect(propertyOwner).setPropertyManager(0, manager.address, FUND_MAINTENANCE);
+      await expect(rentflow.connect(propertyOwner).setPropertyManager(0, manager.address, 0))
+        .to.emit(rentflow, "PropertyManagerUpdated")
+        .withArgs(0, manager.address, 0);
+
+      await expect(rentflow.connect(manager).fundMaintenance(0, MAINTENANCE_COST))
+        .to.be.revertedWith("Not property owner or manager");
       await expect(
-        rentflow.connect(unauthorized).setAIAgent(unauthorized.address, true)
-      ).to.be.revertedWithCustomError(rentflow, "OwnableUnauthorizedAccount");
+        rentflow.connect(propertyOwner).setPropertyManager(0, manager.address, (await rentflow.ALL_MANAGER_PERMISSIONS()) + 1n)
+      ).to.be.revertedWith("Unknown permission");
+    });
+  });
+
+  describe("Buildings", function () {
+    const UNIT_RENT = ethers.parseUnits("1800", USDC_DECIMALS);
+
+    beforeEach(async function () {
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+    });
+
+    it("Should register units with their own rent under the building's owner and token", async function () {
+      await expect(rentflow.connect(propertyOwner).registerUnit(0, UNIT_RENT, UNIT_RENT))
+        .to.emit(rentflow, "UnitRegistered")
+        .withArgs(0, 1)
+        .and.to.emit(rentflow, "PropertyRegistered")
+        .withArgs(1, propertyOwner.address, UNIT_RENT, await usdc.getAddress());
+      await rentflow.connect(propertyOwner).registerUnit(0, RENT_AMOUNT, DEPOSIT_AMOUNT);
+
+      const unit = await rentflow.unitInfo(1);
+      expect(unit.isUnit).to.be.true;
+      expect(unit.buildingId).to.equal(0);
+      expect(await rentflow.unitCounts(0)).to.equal(2);
+      expect((await rentflow.properties(1)).monthlyRent).to.equal(UNIT_RENT);
+      expect(await rentflow.getOwnerPropertyCount(propertyOwner.address)).to.equal(3);
+
+      await expect(rentflow.connect(propertyOwner).registerUnit(1, UNIT_RENT, UNIT_RENT))
+        .to.be.revertedWith("Units cannot have units");
+      await expect(rentflow.connect(unauthorized).registerUnit(0, UNIT_RENT, UNIT_RENT))
+        .to.be.revertedWith("Not property owner");
     });
 
-    it("Should fail with zero address", async function () {
+    it("Should lease units, not the building", async function () {
+      await rentflow.connect(propertyOwner).registerUnit(0, UNIT_RENT, UNIT_RENT);
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), UNIT_RENT);
+
       await expect(
-        rentflow.connect(owner).setAIAgent(ethers.ZeroAddress, true)
-      ).to.be.revertedWith("Invalid agent address");
+        rentflow.connect(propertyOwner).createLease(0, tenant.address, await time.latest(), 12, 1, NO_LATE_FEE)
+      ).to.be.revertedWith("Lease a unit, not the building");
+      await expect(rentflow.connect(propertyOwner).createLease(1, tenant.address, await time.latest(), 12, 1, NO_LATE_FEE))
+        .to.emit(rentflow, "LeaseCreated")
+        .withArgs(0, 1, tenant.address);
+      expect((await rentflow.leases(0)).securityDepositHeld).to.equal(UNIT_RENT);
+    });
+
+    it("Should let a unit's tenant request common-area maintenance", async function () {
+      await rentflow.connect(propertyOwner).registerUnit(0, UNIT_RENT, UNIT_RENT);
+      await rentflow.connect(propertyOwner).registerUnit(0, UNIT_RENT, UNIT_RENT);
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), UNIT_RENT);
+      await rentflow.connect(propertyOwner).createLease(1, tenant.address, await time.latest(), 12, 1, NO_LATE_FEE);
+
+      await expect(rentflow.connect(tenant).requestMaintenance(0, "Lobby door sticks", MAINTENANCE_COST))
+        .to.emit(rentflow, "MaintenanceRequested")
+        .withArgs(0, 0, MAINTENANCE_COST);
+      await expect(rentflow.connect(tenant).requestMaintenance(1, "Leaking tap", MAINTENANCE_COST))
+        .to.emit(rentflow, "MaintenanceRequested")
+        .withArgs(1, 1, MAINTENANCE_COST);
+      // Neighbours' units are theirs alone
+      await expect(rentflow.connect(tenant).requestMaintenance(2, "Noisy pipes", MAINTENANCE_COST))
+        .to.be.revertedWith("Not authorized for this property");
+    });
+
+    it("Should let the building's managers manage its units", async function () {
+      await rentflow.connect(propertyOwner).registerUnit(0, UNIT_RENT, UNIT_RENT);
+      const FUND_MAINTENANCE = await rentflow.FUND_MAINTENANCE();
+      await rentflow.connect(propertyOwner).setPropertyManager(0, unauthorized.address, FUND_MAINTENANCE);
+
+      expect(await rentflow.canManage(1, unauthorized.address, FUND_MAINTENANCE)).to.be.true;
+      expect(await rentflow.canManage(1, unauthorized.address, await rentflow.MANAGE_LEASES())).to.be.false;
+      expect(await rentflow.canManage(1, tenant.address, FUND_MAINTENANCE)).to.be.false;
     });
   });
 
@@ -516,7 +1774,7 @@ describe("RentFlowCore", function () {
       await rentflow.connect(owner).pause();
 
       await expect(
-        rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT)
+        rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc)
       ).to.be.revertedWithCustomError(rentflow, "EnforcedPause");
     });
 
@@ -529,67 +1787,154 @@ describe("RentFlowCore", function () {
     it("Should prevent non-owner from pausing", async function () {
       await expect(
         rentflow.connect(unauthorized).pause()
-      ).to.be.revertedWithCustomError(rentflow, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(rentflow, "AccessControlUnauthorizedAccount");
     });
   });
 
-  describe("Security Deposit Return", function () {
+  describe("Security Deposit Settlement", function () {
+    // DeductionCategory enum values
+    const CLEANING = 0;
+    const DAMAGE = 1;
+    const CLEANING_FEE = ethers.parseUnits("200", USDC_DECIMALS);
+    const DAMAGE_FEE = ethers.parseUnits("500", USDC_DECIMALS);
+    const ITEMS = [
+      { category: CLEANING, amount: CLEANING_FEE, evidenceHash: ethers.id("cleaning-invoice") },
+      { category: DAMAGE, amount: DAMAGE_FEE, evidenceHash: ethers.id("wall-photos") },
+    ];
+    let arbiter: SignerWithAddress;
+
     beforeEach(async function () {
-      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT);
+      arbiter = unauthorized;
+      await rentflow.connect(owner).grantRole(await rentflow.ARBITER_ROLE(), arbiter.address);
+
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
       await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT);
       const startDate = await time.latest();
-      await rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 1, 1);
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 1, 1, NO_LATE_FEE);
       
       // Fast forward past lease end
       await time.increase(86400 * 31);
     });
 
-    it("Should return full deposit if no deductions", async function () {
+    it("Should return the full deposit when nothing is deducted", async function () {
       const initialTenantBalance = await usdc.balanceOf(tenant.address);
 
-      await rentflow.connect(propertyOwner).returnSecurityDeposit(0, 0);
+      await expect(rentflow.connect(propertyOwner).proposeDepositDeductions(0, []))
+        .to.emit(rentflow, "SecurityDepositReturned")
+        .withArgs(0, tenant.address, DEPOSIT_AMOUNT);
 
-      const finalTenantBalance = await usdc.balanceOf(tenant.address);
-      expect(finalTenantBalance - initialTenantBalance).to.equal(DEPOSIT_AMOUNT);
+      expect((await usdc.balanceOf(tenant.address)) - initialTenantBalance).to.equal(DEPOSIT_AMOUNT);
+      const lease = await rentflow.leases(0);
+      expect(lease.status).to.equal(3); // Completed
+      expect(lease.securityDepositHeld).to.equal(0);
     });
 
-    it("Should return partial deposit with deductions", async function () {
-      const deduction = ethers.parseUnits("500", USDC_DECIMALS);
-      const expectedReturn = DEPOSIT_AMOUNT - deduction;
-
+    it("Should refund the unclaimed remainder and hold itemized deductions", async function () {
       const initialTenantBalance = await usdc.balanceOf(tenant.address);
+
+      const tx = await rentflow.connect(propertyOwner).proposeDepositDeductions(0, ITEMS);
+      const deadline = (await time.latest()) + 7 * DAY;
+      await expect(tx)
+        .to.emit(rentflow, "DepositDeductionsProposed")
+        .withArgs(0, 2, CLEANING_FEE + DAMAGE_FEE, deadline)
+        .and.to.emit(rentflow, "DepositDeductionItemized")
+        .withArgs(0, 1, DAMAGE, DAMAGE_FEE, ethers.id("wall-photos"));
+
+      expect((await usdc.balanceOf(tenant.address)) - initialTenantBalance).to.equal(
+        DEPOSIT_AMOUNT - CLEANING_FEE - DAMAGE_FEE
+      );
+      expect((await rentflow.leases(0)).securityDepositHeld).to.equal(CLEANING_FEE + DAMAGE_FEE);
+
+      const items = await rentflow.getDepositDeductions(0);
+      expect(items[1].category).to.equal(DAMAGE);
+      expect(items[1].evidenceHash).to.equal(ethers.id("wall-photos"));
+    });
+
+    it("Should release undisputed items to the owner when the window closes", async function () {
+      await rentflow.connect(propertyOwner).proposeDepositDeductions(0, ITEMS);
+      await expect(rentflow.connect(tenant).acceptDepositDeduction(0, 0))
+        .to.emit(rentflow, "DepositDeductionAccepted")
+        .withArgs(0, 0, CLEANING_FEE);
+
       const initialOwnerBalance = await usdc.balanceOf(propertyOwner.address);
+      await time.increase(7 * DAY + 1);
+      await expect(rentflow.connect(unauthorized).releaseSecurityDeposit(0))
+        .to.emit(rentflow, "SecurityDepositReturned")
+        .withArgs(0, tenant.address, DEPOSIT_AMOUNT - CLEANING_FEE - DAMAGE_FEE);
+
+      expect((await usdc.balanceOf(propertyOwner.address)) - initialOwnerBalance).to.equal(DAMAGE_FEE);
+      expect((await rentflow.depositSettlements(0)).settled).to.equal(true);
+      expect((await rentflow.leases(0)).securityDepositHeld).to.equal(0);
+    });
 
-      await rentflow.connect(propertyOwner).returnSecurityDeposit(0, deduction);
+    it("Should escrow disputed items until an arbiter splits them", async function () {
+      await rentflow.connect(propertyOwner).proposeDepositDeductions(0, ITEMS);
+      await expect(rentflow.connect(tenant).disputeDepositDeduction(0, 1))
+        .to.emit(rentflow, "DepositDeductionDisputed")
+        .withArgs(0, 1, DAMAGE_FEE);
 
-      const finalTenantBalance = await usdc.balanceOf(tenant.address);
-      const finalOwnerBalance = await usdc.balanceOf(propertyOwner.address);
+      await time.increase(7 * DAY + 1);
+      await rentflow.releaseSecurityDeposit(0);
+      expect((await rentflow.depositSettlements(0)).settled).to.equal(false);
+      expect((await rentflow.leases(0)).securityDepositHeld).to.equal(DAMAGE_FEE);
 
-      expect(finalTenantBalance - initialTenantBalance).to.equal(expectedReturn);
-      expect(finalOwnerBalance - initialOwnerBalance).to.equal(deduction);
+      const award = ethers.parseUnits("300", USDC_DECIMALS);
+      await expect(
+        rentflow.connect(propertyOwner).resolveDepositDispute(0, 1, award)
+      ).to.be.revertedWith("Not arbiter");
+      await expect(
+        rentflow.connect(arbiter).resolveDepositDispute(0, 1, DAMAGE_FEE + 1n)
+      ).to.be.revertedWith("Award exceeds deduction");
+
+      await expect(rentflow.connect(arbiter).resolveDepositDispute(0, 1, award))
+        .to.emit(rentflow, "DepositDisputeResolved")
+        .withArgs(0, 1, award, DAMAGE_FEE - award, arbiter.address)
+        .and.to.emit(rentflow, "SecurityDepositReturned")
+        .withArgs(0, tenant.address, DEPOSIT_AMOUNT - CLEANING_FEE - award);
     });
 
-    it("Should mark lease as completed", async function () {
-      await rentflow.connect(propertyOwner).returnSecurityDeposit(0, 0);
+    it("Should only let the tenant answer, within the window", async function () {
+      await rentflow.connect(propertyOwner).proposeDepositDeductions(0, ITEMS);
 
-      const lease = await rentflow.leases(0);
-      expect(lease.status).to.equal(3); // Completed
-      expect(lease.securityDepositHeld).to.equal(0);
+      await expect(rentflow.connect(propertyOwner).disputeDepositDeduction(0, 0)).to.be.revertedWith("Not tenant");
+      await rentflow.connect(tenant).disputeDepositDeduction(0, 0);
+      await expect(rentflow.connect(tenant).acceptDepositDeduction(0, 0)).to.be.revertedWith("Item already answered");
+
+      await time.increase(7 * DAY + 1);
+      await expect(rentflow.connect(tenant).disputeDepositDeduction(0, 1)).to.be.revertedWith("Dispute window closed");
     });
 
-    it("Should fail if deduction exceeds deposit", async function () {
-      const excessiveDeduction = DEPOSIT_AMOUNT + 1n;
+    it("Should validate proposed deductions", async function () {
+      const propose = (items: typeof ITEMS) => rentflow.connect(propertyOwner).proposeDepositDeductions(0, items);
 
       await expect(
-        rentflow.connect(propertyOwner).returnSecurityDeposit(0, excessiveDeduction)
+        propose([{ category: DAMAGE, amount: DEPOSIT_AMOUNT + 1n, evidenceHash: ethers.id("x") }])
       ).to.be.revertedWith("Deduction exceeds deposit");
+      await expect(
+        propose([{ category: DAMAGE, amount: DAMAGE_FEE, evidenceHash: ethers.ZeroHash }])
+      ).to.be.revertedWith("Evidence required");
+      await expect(
+        rentflow.connect(tenant).proposeDepositDeductions(0, ITEMS)
+      ).to.be.revertedWith("Not authorized");
+
+      await propose(ITEMS);
+      await expect(propose(ITEMS)).to.be.revertedWith("Deductions already proposed");
+    });
+
+    it("Should wait for the lease to end", async function () {
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT);
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, await time.latest(), 12, 1, NO_LATE_FEE);
+
+      await expect(
+        rentflow.connect(propertyOwner).proposeDepositDeductions(1, [])
+      ).to.be.revertedWith("Lease not completed");
     });
   });
 
   describe("View Functions", function () {
     beforeEach(async function () {
-      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT);
-      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT);
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
     });
 
     it("Should return owner properties", async function () {
@@ -597,17 +1942,22 @@ describe("RentFlowCore", function () {
       expect(properties.length).to.equal(2);
       expect(properties[0]).to.equal(0);
       expect(properties[1]).to.equal(1);
+
+      expect(await rentflow.getOwnerPropertyCount(propertyOwner.address)).to.equal(2);
+      expect(await rentflow.ownerProperties(propertyOwner.address, 0)).to.equal(0);
+      expect(await rentflow.ownerProperties(propertyOwner.address, 1)).to.equal(1);
     });
 
     it("Should return tenant leases", async function () {
       await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT * 2n);
       const startDate = await time.latest();
       
-      await rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 12, 1);
-      await rentflow.connect(propertyOwner).createLease(1, tenant.address, startDate, 12, 1);
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 12, 1, NO_LATE_FEE);
+      await rentflow.connect(propertyOwner).createLease(1, tenant.address, startDate, 12, 1, NO_LATE_FEE);
 
       const leases = await rentflow.getTenantLeases(tenant.address);
       expect(leases.length).to.equal(2);
+      expect(await rentflow.getTenantLeaseCount(tenant.address)).to.equal(2);
     });
 
     it("Should return maintenance fund balance", async function () {
@@ -618,4 +1968,150 @@ describe("RentFlowCore", function () {
       expect(await rentflow.getMaintenanceFundBalance(0)).to.equal(fundAmount);
     });
   });
+
+  describe("Tenancy Index", function () {
+    let startDate: number;
+
+    beforeEach(async function () {
+      await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT);
+      startDate = await time.latest();
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate, 12, 1, NO_LATE_FEE);
+    });
+
+    it("Should record the end of the tenant's live leases and follow renewals", async function () {
+      const lease = await rentflow.leases(0);
+      expect(await rentflow.tenancyEnds(0, tenant.address)).to.equal(lease.endDate);
+
+      await rentflow.connect(propertyOwner).proposeRenewal(0, 6, RENT_AMOUNT);
+      await rentflow.connect(tenant).acceptRenewal(0, 6, RENT_AMOUNT);
+      expect(await rentflow.tenancyEnds(0, tenant.address)).to.equal((await rentflow.leases(0)).endDate);
+    });
+
+    it("Should keep a second live lease indexed when the first terminates", async function () {
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT);
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, startDate + 30 * DAY, 3, 1, NO_LATE_FEE);
+
+      await rentflow.connect(propertyOwner).proposeEarlyTermination(0, 0);
+      await rentflow.connect(tenant).acceptEarlyTermination(0, 0);
+
+      expect(await rentflow.tenancyEnds(0, tenant.address)).to.equal((await rentflow.leases(1)).endDate);
+      await expect(rentflow.connect(tenant).requestMaintenance(0, "Loose handrail", MAINTENANCE_COST))
+        .to.emit(rentflow, "MaintenanceRequested");
+    });
+
+    it("Should let anyone re-index a lease without changing the answer", async function () {
+      const before = await rentflow.tenancyEnds(0, tenant.address);
+      await rentflow.connect(unauthorized).indexTenancy(0);
+      expect(await rentflow.tenancyEnds(0, tenant.address)).to.equal(before);
+    });
+  });
+
+  describe("Batch Views", function () {
+    let lens: RentFlowLens;
+
+    beforeEach(async function () {
+      lens = await (await ethers.getContractFactory("RentFlowLens")).deploy(await rentflow.getAddress());
+
+      for (let i = 0; i < 3; i++) {
+        await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      }
+      await rentflow.connect(propertyOwner).registerUnit(0, RENT_AMOUNT, DEPOSIT_AMOUNT);
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), DEPOSIT_AMOUNT * 2n);
+      await rentflow.connect(propertyOwner).createLease(1, tenant.address, await time.latest(), 12, 1, NO_LATE_FEE);
+      await rentflow.connect(propertyOwner).createLease(3, tenant.address, await time.latest(), 12, 1, NO_LATE_FEE);
+    });
+
+    it("Should page through an owner's properties as full records", async function () {
+      const [firstPage, total] = await lens.getOwnerPropertyPage(propertyOwner.address, 0, 3);
+      expect(total).to.equal(4);
+      expect(firstPage.map((view) => view.propertyId)).to.deep.equal([0n, 1n, 2n]);
+      expect(firstPage[0].property.owner).to.equal(propertyOwner.address);
+      expect(firstPage[0].property.monthlyRent).to.equal(RENT_AMOUNT);
+      expect(firstPage[0].unitCount).to.equal(1);
+
+      const [lastPage] = await lens.getOwnerPropertyPage(propertyOwner.address, 3, 3);
+      expect(lastPage.map((view) => view.propertyId)).to.deep.equal([3n]);
+      expect(lastPage[0].unit.isUnit).to.be.true;
+      expect(lastPage[0].unit.buildingId).to.equal(0);
+
+      const [pastTheEnd] = await lens.getOwnerPropertyIds(propertyOwner.address, 10, 3);
+      expect(pastTheEnd).to.deep.equal([]);
+      await expect(lens.getOwnerPropertyIds(propertyOwner.address, 0, 101)).to.be.revertedWith("Page size must be 1-100");
+    });
+
+    it("Should return a tenant's leases with their arrears", async function () {
+      const [page, total] = await lens.getTenantLeasePage(tenant.address, 0, 10);
+      expect(total).to.equal(2);
+      expect(page.map((view) => view.lease.propertyId)).to.deep.equal([1n, 3n]);
+      expect(page[0].lease.tenant).to.equal(tenant.address);
+      expect(page[0].arrears).to.equal(0);
+    });
+
+    it("Should return maintenance requests with their descriptions", async function () {
+      await rentflow.connect(propertyOwner).requestMaintenance(0, "Repaint the lobby", MAINTENANCE_COST);
+      await rentflow.connect(tenant).requestMaintenance(3, "Leaking faucet in kitchen", MAINTENANCE_COST);
+
+      const views = await lens.getMaintenanceRequests([1, 0]);
+      expect(views.map((view) => view.requestId)).to.deep.equal([1n, 0n]);
+      expect(views[0].request.description).to.equal("Leaking faucet in kitchen");
+      expect(views[0].request.requestedBy).to.equal(tenant.address);
+      expect(views[1].request.propertyId).to.equal(0);
+      expect(views[1].request.estimatedCost).to.equal(MAINTENANCE_COST);
+    });
+  });
+
+  describe("Gas Benchmarks", function () {
+    const HISTORY = 20;
+    // Small enough that the tenant can fund every deposit
+    const BENCHMARK_RENT = ethers.parseUnits("100", USDC_DECIMALS);
+
+    /** Gas for the tenant's request on property 0 after `pastLeases` leases elsewhere */
+    async function requestGasAfter(pastLeases: number): Promise<bigint> {
+      await rentflow.connect(propertyOwner).registerProperty(BENCHMARK_RENT, BENCHMARK_RENT, usdc);
+      await usdc.connect(tenant).approve(await rentflow.getAddress(), BENCHMARK_RENT * BigInt(pastLeases + 1));
+      for (let i = 0; i < pastLeases; i++) {
+        await rentflow.connect(propertyOwner).registerProperty(BENCHMARK_RENT, BENCHMARK_RENT, usdc);
+        await rentflow.connect(propertyOwner).createLease(i + 1, tenant.address, await time.latest(), 1, 1, NO_LATE_FEE);
+      }
+      // The lease that counts is the newest, the last one a scan would reach
+      await rentflow.connect(propertyOwner).createLease(0, tenant.address, await time.latest(), 12, 1, NO_LATE_FEE);
+      return rentflow.connect(tenant).requestMaintenance.estimateGas(0, "Leaking faucet in kitchen", MAINTENANCE_COST);
+    }
+
+    it("Should check tenancy in constant gas however many leases the tenant has held", async function () {
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+      const fresh = await requestGasAfter(0);
+      await ethers.provider.send("evm_revert", [snapshot]);
+      const seasoned = await requestGasAfter(HISTORY);
+
+      console.log(`      ⛽ requestMaintenance: ${fresh} gas after 1 lease, ${seasoned} after ${HISTORY + 1}`);
+      // A scan of the tenant's leases would add a few thousand gas per lease
+      expect(seasoned - fresh).to.be.lessThan(5_000n);
+    });
+
+    it("Should read a page of properties in one call instead of one per record", async function () {
+      const lens = await (await ethers.getContractFactory("RentFlowLens")).deploy(await rentflow.getAddress());
+      for (let i = 0; i < HISTORY; i++) {
+        await rentflow.connect(propertyOwner).registerProperty(RENT_AMOUNT, DEPOSIT_AMOUNT, usdc);
+      }
+
+      const batched = await lens.getOwnerPropertyPage.estimateGas(propertyOwner.address, 0, HISTORY);
+      let separate = 0n;
+      for (let i = 0; i < HISTORY; i++) {
+        const propertyId = await rentflow.ownerProperties(propertyOwner.address, i);
+        separate += await rentflow.ownerProperties.estimateGas(propertyOwner.address, i);
+        separate += await rentflow.properties.estimateGas(propertyId);
+        separate += await rentflow.propertyMetadataHashes.estimateGas(propertyId);
+        separate += await rentflow.unitInfo.estimateGas(propertyId);
+        separate += await rentflow.unitCounts.estimateGas(propertyId);
+        separate += await rentflow.maintenanceFunds.estimateGas(propertyId);
+      }
+
+      console.log(
+        `      ⛽ ${HISTORY} properties: 1 lens call (${batched} gas) vs ${HISTORY * 6} getter calls (${separate} gas)`
+      );
+      expect(batched).to.be.lessThan(separate);
+    });
+  });
 });
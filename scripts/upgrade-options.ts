@@ -0,0 +1,12 @@
+/**
+ * Proxy options shared by deploy.ts, upgrade.ts and the contract tests
+ *
+ * DECISION: Allow linked libraries and ReentrancyGuard's constructor
+ * REASON: The libraries hold no state of their own, and ReentrancyGuard keeps
+ *         its flag in an ERC-7201 slot that reads as "not entered" when unset;
+ *         RentFlowCore's own constructor only disables its initializers
+ */
+export const UPGRADE_OPTIONS = {
+  kind: "transparent" as const,
+  unsafeAllow: ["external-library-linking" as const, "constructor" as const],
+};
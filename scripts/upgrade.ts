@@ -0,0 +1,157 @@
+import { ethers, upgrades } from "hardhat";
+import { UPGRADE_OPTIONS } from "./upgrade-options";
+import { deploymentPath, readDeployment, writeDeployment } from "./deployments";
+
+/**
+ * Upgrade script for the RentFlowCore proxy recorded in deployments/<chainId>.json
+ *
+ * DECISION: Redeploy the libraries, check the new storage layout against the
+ *           deployed implementation, and only then upgrade the proxy
+ * REASON: Library code is part of the implementation, and a layout mismatch
+ *         would silently corrupt every property, lease and escrowed deposit.
+ *         The deployed layout comes from the .openzeppelin manifest that
+ *         deploy.ts wrote for this network
+ *
+ * DECISION: A proxy still on the Ownable implementation is upgraded and
+ *           migrated (migrateOwnerToRoles) in one transaction, and its
+ *           recorded AI agents are granted AI_AGENT_ROLE again
+ * REASON: Between the two steps nobody would hold the admin role
+ *
+ * DECISION: After upgrading, index every live lease the tenancy index is
+ *           missing, and redeploy RentFlowLens when its code has changed
+ * REASON: Tenancy checks only read the index, so a lease opened before it
+ *         existed would lock its tenant out of maintenance requests
+ */
+
+const LIBRARIES = ["BillingLib", "MaintenanceLib", "ContractorLib", "LeaseLib", "DepositLib", "PayoutLib", "PropertyLib"];
+// OwnableUpgradeable's ERC-7201 slot; only set on proxies deployed before roles
+const OWNABLE_SLOT = "0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300";
+
+/** Index the live leases whose tenancyEnds entry is behind their end date */
+async function backfillTenancyIndex(proxyAddress: string): Promise<number> {
+  const rentflow = await ethers.getContractAt("RentFlowCore", proxyAddress);
+  const leaseCount = await rentflow.leaseCounter();
+  let indexed = 0;
+  for (let leaseId = 0n; leaseId < leaseCount; leaseId++) {
+    const lease = await rentflow.leases(leaseId);
+    // Active or Paused
+    if (lease.status > 1n) continue;
+    if ((await rentflow.tenancyEnds(lease.propertyId, lease.tenant)) >= lease.endDate) continue;
+    await (await rentflow.indexTenancy(leaseId)).wait();
+    indexed++;
+  }
+  return indexed;
+}
+
+/** True while the proxy has an Ownable owner that holds no admin role yet */
+async function needsRoleMigration(proxyAddress: string): Promise<boolean> {
+  const ownerWord = await ethers.provider.getStorage(proxyAddress, OWNABLE_SLOT);
+  if (BigInt(ownerWord) === 0n) return false;
+
+  const formerOwner = ethers.getAddress(ethers.dataSlice(ownerWord, 12));
+  const core = new ethers.Contract(
+    proxyAddress,
+    ["function hasRole(bytes32 role, address account) view returns (bool)"],
+    ethers.provider
+  );
+  try {
+    return !(await core.hasRole(ethers.ZeroHash, formerOwner));
+  } catch {
+    // The Ownable implementation has no hasRole
+    return true;
+  }
+}
+
+async function main() {
+  console.log("🔄 Upgrading RentFlowCore...\n");
+
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const deployment = readDeployment(chainId);
+  if (!deployment?.contracts.RentFlowCore) {
+    throw new Error(`No RentFlowCore in ${deploymentPath(chainId)}; run scripts/deploy.ts first`);
+  }
+  const proxyAddress = deployment.contracts.RentFlowCore.address;
+
+  const [deployer] = await ethers.getSigners();
+  console.log("📍 Upgrading with account:", deployer.address);
+  console.log("📍 Proxy:", proxyAddress);
+  console.log("📍 Current implementation:", await upgrades.erc1967.getImplementationAddress(proxyAddress), "\n");
+
+  // Deploy the libraries the new implementation links against
+  const libraries: Record<string, string> = {};
+  for (const name of LIBRARIES) {
+    console.log(`📄 Deploying ${name}...`);
+    const factory = await ethers.getContractFactory(name);
+    const library = await factory.deploy();
+    const receipt = await library.deploymentTransaction()!.wait();
+    libraries[name] = await library.getAddress();
+    deployment.contracts[name] = {
+      address: libraries[name],
+      blockNumber: receipt!.blockNumber,
+      transactionHash: receipt!.hash,
+      bytecodeHash: ethers.keccak256(factory.bytecode),
+    };
+    console.log(`✅ ${name} deployed to:`, libraries[name]);
+  }
+
+  const RentFlowCore = await ethers.getContractFactory("RentFlowCore", { libraries });
+
+  // Throws, listing each incompatible variable, before anything is upgraded
+  console.log("\n🔍 Checking storage layout against the deployed implementation...");
+  await upgrades.validateUpgrade(proxyAddress, RentFlowCore, UPGRADE_OPTIONS);
+  console.log("✅ Storage layout is compatible\n");
+
+  const migrateRoles = await needsRoleMigration(proxyAddress);
+  if (migrateRoles) console.log("🔑 Ownable proxy: migrating its owner to admin and pauser roles");
+
+  // Sent by the deployer, which must own the ProxyAdmin
+  const upgraded = await upgrades.upgradeProxy(proxyAddress, RentFlowCore, {
+    ...UPGRADE_OPTIONS,
+    ...(migrateRoles ? { call: "migrateOwnerToRoles" } : {}),
+  });
+  await upgraded.waitForDeployment();
+  const implementationAddress = await upgrades.erc1967.getImplementationAddress(proxyAddress);
+  console.log("✅ RentFlowCore upgraded; new implementation:", implementationAddress);
+
+  if (migrateRoles) {
+    const rentflow = await ethers.getContractAt("RentFlowCore", proxyAddress);
+    const AI_AGENT_ROLE = await rentflow.AI_AGENT_ROLE();
+    for (const agent of deployment.aiAgents) {
+      await (await rentflow.grantRole(AI_AGENT_ROLE, agent)).wait();
+      console.log("🤖 AI agent re-authorized:", agent);
+    }
+    console.log("⚠️  Arbiters are not recorded; grant ARBITER_ROLE to each one again");
+  }
+
+  const indexed = await backfillTenancyIndex(proxyAddress);
+  if (indexed > 0) console.log(`🏠 Indexed ${indexed} live leases for tenancy checks`);
+
+  deployment.contracts.RentFlowCoreImplementation = {
+    address: implementationAddress,
+    bytecodeHash: ethers.keccak256(RentFlowCore.bytecode),
+  };
+  writeDeployment(deployment);
+
+  const RentFlowLens = await ethers.getContractFactory("RentFlowLens");
+  const lensHash = ethers.keccak256((await RentFlowLens.getDeployTransaction(proxyAddress)).data);
+  if (deployment.contracts.RentFlowLens?.bytecodeHash !== lensHash) {
+    const lens = await RentFlowLens.deploy(proxyAddress);
+    const receipt = await lens.deploymentTransaction()!.wait();
+    deployment.contracts.RentFlowLens = {
+      address: await lens.getAddress(),
+      blockNumber: receipt!.blockNumber,
+      transactionHash: receipt!.hash,
+      bytecodeHash: lensHash,
+    };
+    writeDeployment(deployment);
+    console.log("🔭 RentFlowLens deployed to:", deployment.contracts.RentFlowLens.address);
+  }
+  console.log("\n💾 Deployment recorded in", deploymentPath(chainId), "\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Upgrade failed:", error);
+    process.exit(1);
+  });